@@ -1,78 +1,76 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
-  Users, MapPin, CreditCard, BarChart3, Search, Plus, 
-  ShieldCheck, BrainCircuit, TrendingUp, X, ChevronRight, Activity,
-  Database, Layout, Code2
+  Users, MapPin, CreditCard, BarChart3, Plus, 
+  ShieldCheck, TrendingUp, ChevronRight, Activity,
+  Database, Layout, Code2, Receipt, ShieldAlert, LogOut, ScanLine, Tags, LineChart, Building2,
+  CalendarClock, Briefcase, Bell, Wifi, WifiOff, RefreshCw, Inbox
 } from 'lucide-react';
 
+import { Socio, FitnessBusinessLogic } from './src/domain/socio';
+import { Sede, SedeLogic, SEDES_POR_DEFECTO } from './src/domain/sede';
+import { BillingLogic, formatearFecha, LedgerFacturacion, LEDGER_VACIO, MetodoPago } from './src/billing/billing';
+import { RegistroEnCuarentena } from './src/persistence/schema';
+import { crearOrganizacionRepository } from './src/persistence/crearRepositorios';
+import { ContextoTenant, TenantGate } from './src/tenancy/TenantGate';
+import { TenantLogic } from './src/tenancy/organizacion';
+import { FormatoLogic, REGIONAL_POR_DEFECTO } from './src/i18n/regional';
+import { I18nLogic } from './src/i18n/i18n';
+import { AuditLogic, USUARIO_SISTEMA } from './src/audit/audit';
+import { DIAS_PRUEBA, MembresiaLogic } from './src/membership/membresia';
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from './src/pricing/pricing';
+import { Asistencia, AsistenciaLogic } from './src/attendance/attendance';
+import { Clase, Reserva, ResultadoReserva } from './src/classes/clases';
+import { Empleado, PersonalLogic } from './src/staff/personal';
+import { ConfigNotificaciones } from './src/notifications/notificaciones';
+import { crearNotificador } from './src/notifications/NotificacionesService';
+import { EstadoSincronizacion } from './src/offline/sincronizacion';
+import { PortalLogic, SolicitudPlan } from './src/portal/portal';
+import { MolineteLogic } from './src/access/molinete';
+import { PortalGate } from './src/portal/PortalGate';
+import { registrarServiceWorker } from './src/offline/registrarServiceWorker';
+import { AuthLogic, Permiso, Usuario } from './src/auth/auth';
+import { AuthService } from './src/auth/AuthService';
+import { crearAuthService } from './src/auth/crearAuthService';
+import { AuthGate } from './src/auth/AuthGate';
+import { AnimatedCard } from './src/ui/AnimatedCard';
+import { CredencialModal } from './src/ui/CredencialModal';
+import { EditSocioModal } from './src/ui/EditSocioModal';
+import { HistorialModal } from './src/ui/HistorialModal';
+import { ConflictosModal } from './src/ui/ConflictosModal';
+import { MembresiaModal } from './src/ui/MembresiaModal';
+import { PriceBreakdown } from './src/ui/PriceBreakdown';
+import { ImportWizardModal } from './src/ui/ImportWizardModal';
+import { CampoError } from './src/ui/CampoError';
+import { ErroresCampo, ValidacionLogic } from './src/validation/validacion';
+import { DocumentoLogic } from './src/validation/documentos';
+import { BillingView } from './src/views/BillingView';
+import { UsersView } from './src/views/UsersView';
+import { AccessView } from './src/views/AccessView';
+import { AttendancePanel } from './src/views/AttendancePanel';
+import { PricingView } from './src/views/PricingView';
+import { SedesView } from './src/views/SedesView';
+import { PadronView } from './src/views/PadronView';
+import { ReportesView } from './src/views/ReportesView';
+import { ConsultorPanel } from './src/views/ConsultorPanel';
+import { OrganizacionesView } from './src/views/OrganizacionesView';
+import { AgendaView } from './src/views/AgendaView';
+import { PersonalView } from './src/views/PersonalView';
+import { NotificacionesView } from './src/views/NotificacionesView';
+import { SolicitudesView } from './src/views/SolicitudesView';
+import { PuertasPanel } from './src/views/PuertasPanel';
+
 import './src/index.css'; // Importamos los estilos globales aquí
 
-/**
- * --- LECCIÓN UTN 1: TIPADO DE DATOS (REEMPLAZA STRUCTS DE C) ---
- * En C usamos múltiples arreglos o un 'struct' para agrupar datos:
- * struct Socio { char nombre[100]; int dni; ... };
- * 
- * En TypeScript usamos una 'interface'. Es mucho más potente porque permite
- * opcionalidad y tipos dinámicos. Esto garantiza "Type Safety": el compilador 
- * nos avisará si intentamos meter un texto donde va un número, evitando 
- * los famosos "segmentation faults" que tendrías en C.
- */
-interface Socio {
-  id: string;
-  nombre: string;
-  dni: number;
-  edad: number;
-  sede: string;
-  membresia: string;
-  metodoPago: string;
-  importe: number;
-}
-
-const SEDES = ["CBA", "ROS", "MDP", "BUE"];
-const MEMBRESIAS = [
-  { id: "BAS", precio: 12000, nombre: "Básica" },
-  { id: "STD", precio: 18000, nombre: "Standard" },
-  { id: "PRE", precio: 25000, nombre: "Premium" }
-];
-
-const MAX_SOCIOS = 390;
-
-/**
- * --- LECCIÓN UTN 2: LÓGICA DE NEGOCIO ENCAPSULADA ---
- * Esta clase es el "cerebro". Imagina que es tu archivo 'logic.c' con sus funciones.
- * Separamos la matemática (Backend-ish) de la visualización (Frontend).
- */
-class FitnessBusinessLogic {
-  static calcularImporte(edad: number, membresiaId: string, metodoPago: string): number {
-    const membresia = MEMBRESIAS.find(m => m.id === membresiaId);
-    let costo = membresia ? membresia.precio : 0;
-
-    // Lógica que antes hacías con if/else en C
-    if (edad < 18) costo *= 0.8; // 20% descuento menores
-    if (metodoPago === "tarjeta") costo *= 1.05; // 5% recargo tarjeta
-
-    return costo;
-  }
-}
-
-// --- COMPONENTES UI (Pequeñas piezas de legos visuales) ---
-const AnimatedCard: React.FC<{ children: React.ReactNode; className?: string; delay?: number }> = ({ children, className = "", delay = 0 }) => (
-  <motion.div 
-    initial={{ opacity: 0, y: 30, scale: 0.95 }}
-    animate={{ opacity: 1, y: 0, scale: 1 }}
-    transition={{ duration: 0.6, delay, ease: [0.22, 1, 0.36, 1] }}
-    whileHover={{ y: -5, transition: { duration: 0.2 } }}
-    className={`bg-zinc-900/40 backdrop-blur-2xl border border-white/5 rounded-3xl p-6 shadow-2xl ${className}`}
-  >
-    {children}
-  </motion.div>
-);
-
-const App = () => {
+const App: React.FC<{
+  tenant: ContextoTenant;
+  auth: AuthService;
+  usuario: Usuario;
+  onLogout: () => void;
+}> = ({ tenant, auth, usuario, onLogout }) => {
+  const { repos, organizacion } = tenant;
   /**
    * --- LECCIÓN UTN 3: EL ESTADO (REEMPLAZA VARIABLES GLOBALES) ---
    * En C, si quieres guardar la lista de socios, usas un arreglo global o local.
@@ -80,28 +78,226 @@ const App = () => {
    * DEBES usar 'useState'. Si cambias una variable común, el navegador no se entera.
    */
   const [socios, setSocios] = useState<Socio[]>([]);
-  const [view, setView] = useState<'dashboard' | 'list' | 'add'>('dashboard');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [loadingAI, setLoadingAI] = useState(false);
-  const [aiInsight, setAiInsight] = useState<string | null>(null);
+  const [cuarentena, setCuarentena] = useState<RegistroEnCuarentena[]>([]);
+  const [ledger, setLedger] = useState<LedgerFacturacion>(LEDGER_VACIO);
+  const [ledgerCargado, setLedgerCargado] = useState(false);
+  const [asistencias, setAsistencias] = useState<Asistencia[]>([]);
+  const [precios, setPrecios] = useState<ConfigPrecios>(PRECIOS_POR_DEFECTO);
+  const [sedes, setSedes] = useState<Sede[]>(SEDES_POR_DEFECTO);
+  const [clases, setClases] = useState<Clase[]>([]);
+  const [reservas, setReservas] = useState<Reserva[]>([]);
+  const [empleados, setEmpleados] = useState<Empleado[]>([]);
+  const [configAvisos, setConfigAvisos] = useState<ConfigNotificaciones | null>(null);
+  const [solicitudes, setSolicitudes] = useState<SolicitudPlan[]>([]);
+  const [credencialSocio, setCredencialSocio] = useState<Socio | null>(null);
+  const [editandoSocio, setEditandoSocio] = useState<Socio | null>(null);
+  const [historialSocio, setHistorialSocio] = useState<Socio | null>(null);
+  const [membresiaSocio, setMembresiaSocio] = useState<Socio | null>(null);
+  const [importando, setImportando] = useState(false);
+  const [sincronizacion, setSincronizacion] = useState<EstadoSincronizacion | null>(() => repos.sincronizacion?.estado() ?? null);
+  const [viendoConflictos, setViendoConflictos] = useState(false);
+  const [ahora, setAhora] = useState(() => new Date());
+  const [view, setView] = useState<'dashboard' | 'list' | 'add' | 'billing' | 'access' | 'users' | 'pricing' | 'sedes' | 'reports' | 'orgs' | 'agenda' | 'staff' | 'notifications' | 'requests'>(
+    // Un link con filtros del padrón abre directamente la tabla.
+    () => (window.location.search ? 'list' : 'dashboard')
+  );
 
+  // Un recepcionista solo ve (y da de alta en) su propia sede. Las cerradas se siguen viendo, pero no admiten altas.
+  const sedesPermitidas = AuthLogic.sedesPermitidas(usuario, sedes.map(s => s.codigo));
+  const sedesParaAlta = sedesPermitidas.filter(c => SedeLogic.buscar(sedes, c)?.activa);
+  const sociosVisibles = useMemo(() => AuthLogic.filtrarPorSede(usuario, socios), [usuario, socios]);
+  // "Activos" son los que pagan cuota; los habilitados incluyen además a los que están con el pase de prueba.
+  const sociosActivos = useMemo(() => sociosVisibles.filter(s => MembresiaLogic.facturable(s)), [sociosVisibles]);
+  const sociosHabilitados = useMemo(() => sociosVisibles.filter(s => MembresiaLogic.habilitado(s)), [sociosVisibles]);
+  const solicitudesVisibles = useMemo(() => AuthLogic.filtrarPorSede(usuario, solicitudes), [usuario, solicitudes]);
+  const solicitudesPendientes = solicitudesVisibles.filter(s => s.estado === 'pendiente').length;
+  const asistenciasVisibles = useMemo(() => AuthLogic.filtrarPorSede(usuario, asistencias), [usuario, asistencias]);
+
+  const formularioVacio = {
+    nombre: '', dni: '', fechaNacimiento: '', telefono: '', email: '',
+    contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: '',
+    codigoPromo: '', integrantesGrupo: '', mesesPrepago: '', vendedorId: ''
+  };
   const [formData, setFormData] = useState({
-    nombre: '', dni: '', edad: '', sede: 'CBA', membresia: 'BAS', metodoPago: 'efectivo'
+    ...formularioVacio, sede: sedesParaAlta[0] ?? '', membresia: 'BAS', metodoPago: 'efectivo'
   });
+  const [errores, setErrores] = useState<ErroresCampo>({});
+  const [altaPrueba, setAltaPrueba] = useState(false);
+
+  // Lo que el motor de precios necesita del formulario de alta.
+  const datosPrecio = {
+    fechaNacimiento: formData.fechaNacimiento,
+    sede: formData.sede,
+    membresia: formData.membresia,
+    metodoPago: formData.metodoPago,
+    codigoPromo: formData.codigoPromo.trim().toUpperCase() || undefined,
+    integrantesGrupo: parseInt(formData.integrantesGrupo) || undefined,
+    mesesPrepago: parseInt(formData.mesesPrepago) || undefined
+  };
+  const desglose = FitnessBusinessLogic.cotizar(precios, datosPrecio);
+  const tiposActivos = new Set(precios.reglas.filter(r => r.activa).map(r => r.tipo));
+  const nombrePlan = (id: string) => precios.planes.find(m => m.id === id)?.nombre ?? id;
+  const marca = TenantLogic.partesNombre(organizacion.nombre);
+  // Idioma, moneda y documento del gimnasio: las vistas reciben 'regional' y formatean con él.
+  const regional = organizacion.regional ?? REGIONAL_POR_DEFECTO;
+  const t = I18nLogic.traductor(regional.idioma);
+  const moneda = (valor: number) => FormatoLogic.moneda(valor, regional);
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
 
   /**
    * --- LECCIÓN UTN 4: PERSISTENCIA (Simulación de "Guardar en Archivo") ---
-   * En C usarías fopen/fwrite. En la web usamos localStorage.
+   * En C usarías fopen/fwrite. Acá App no sabe DÓNDE se guarda: le pasan un
+   * 'repos' (localStorage, IndexedDB o el servidor) y solo les pide datos.
    * useEffect([]) se ejecuta una sola vez al arrancar, como el 'main()'.
    */
   useEffect(() => {
-    const saved = localStorage.getItem('fitness_plus_elite_v3');
-    if (saved) setSocios(JSON.parse(saved));
+    repos.socios.listar()
+      .then(setSocios)
+      .then(() => repos.socios.cuarentena())
+      .then(setCuarentena)
+      .catch(e => console.error("Error cargando socios:", e));
+  }, [repos]);
+
+  useEffect(() => {
+    repos.ledger.obtener()
+      .then(l => { setLedger(l); setLedgerCargado(true); })
+      .catch(e => console.error("Error cargando cobranzas:", e));
+  }, [repos]);
+
+  // Hasta que no se leyó el libro guardado no se escribe nada: sería pisarlo con uno vacío.
+  useEffect(() => {
+    if (ledgerCargado) repos.ledger.guardar(ledger).catch(e => console.error("Error guardando cobranzas:", e));
+  }, [ledger, ledgerCargado]);
+
+  useEffect(() => {
+    repos.sedes.listar()
+      .then(setSedes)
+      .catch(e => console.error("Error cargando sedes:", e));
+  }, [repos]);
+
+  // Si la sede elegida en el alta se cerró (o todavía no cargaban las sedes), pasamos a la primera abierta.
+  useEffect(() => {
+    if (!sedesParaAlta.includes(formData.sede)) setFormData(f => ({ ...f, sede: sedesParaAlta[0] ?? '' }));
+  }, [sedes]);
+
+  useEffect(() => {
+    repos.precios.obtener()
+      .then(setPrecios)
+      .catch(e => console.error("Error cargando precios:", e));
+  }, [repos]);
+
+  const recargarAsistencias = () => repos.asistencias.listar()
+    .then(setAsistencias)
+    .catch(e => console.error("Error cargando asistencias:", e));
+
+  useEffect(() => { recargarAsistencias(); }, [repos]);
+
+  // El gateway de molinetes decide con una foto del padrón: se republica cuando cambia (con un respiro)
+  // y cada hora, porque una cuota puede vencer sin que cambie nada más.
+  useEffect(() => {
+    const molinetes = repos.molinetes;
+    if (!molinetes || !ledgerCargado) return;
+    const timer = setTimeout(() => {
+      molinetes.publicarPadron(MolineteLogic.padron(socios, ledger, sedes, new Date()))
+        .catch(e => console.error("Error publicando el padrón a los molinetes:", e));
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [socios, ledger, sedes, ledgerCargado, ahora.getHours()]);
+
+  useEffect(() => {
+    Promise.all([repos.clases.listar(), repos.reservas.listar()])
+      .then(([c, r]) => { setClases(c); setReservas(r); })
+      .catch(e => console.error("Error cargando clases:", e));
+  }, [repos]);
+
+  useEffect(() => {
+    repos.personal.listar()
+      .then(setEmpleados)
+      .catch(e => console.error("Error cargando personal:", e));
+  }, [repos]);
+
+  useEffect(() => {
+    repos.solicitudes.listar()
+      .then(setSolicitudes)
+      .catch(e => console.error("Error cargando solicitudes:", e));
+  }, [repos]);
+
+  const notificador = useMemo(() => crearNotificador(repos.avisos, organizacion.id), [repos]);
+  const revisarAvisos = () => configAvisos
+    ? notificador.revisar({ socios, ledger, asistencias, gimnasio: organizacion.nombre, regional }, configAvisos, new Date())
+    : Promise.resolve([]);
+
+  useEffect(() => {
+    repos.notificaciones.obtener()
+      .then(setConfigAvisos)
+      .catch(e => console.error("Error cargando configuración de avisos:", e));
+  }, [repos]);
+
+  // Los avisos se revisan al tener los datos y después una vez por hora; el registro evita repetirlos.
+  const horaAvisos = ahora.getHours();
+  useEffect(() => {
+    if (!ledgerCargado || !configAvisos || socios.length === 0) return;
+    revisarAvisos().catch(e => console.error("Error enviando avisos:", e));
+  }, [ledgerCargado, configAvisos, socios.length > 0, horaAvisos]);
+
+  // Con el servidor compartido, la cola offline se vacía sola al volver la conexión.
+  useEffect(() => {
+    const sincronizador = repos.sincronizacion;
+    if (!sincronizador) return;
+    const desuscribir = sincronizador.suscribir(setSincronizacion);
+    const detener = sincronizador.iniciar();
+    return () => { desuscribir(); detener(); };
+  }, [repos]);
+
+  // Después de cada sincronización se relee: trae lo que cargaron las otras recepciones.
+  useEffect(() => {
+    if (!sincronizacion?.ultima) return;
+    Promise.all([repos.socios.listar(), repos.asistencias.listar(), repos.ledger.obtener()])
+      .then(([s, a, l]) => { setSocios(s); setAsistencias(a); setLedger(l); })
+      .catch(e => console.error("Error recargando tras sincronizar:", e));
+    Promise.all([repos.sedes.listar(), repos.precios.obtener(), repos.clases.listar(), repos.reservas.listar()])
+      .then(([se, p, c, r]) => { setSedes(se); setPrecios(p); setClases(c); setReservas(r); })
+      .catch(e => console.error("Error recargando tras sincronizar:", e));
+    Promise.all([repos.personal.listar(), repos.solicitudes.listar(), repos.notificaciones.obtener()])
+      .then(([p, so, n]) => { setEmpleados(p); setSolicitudes(so); setConfigAvisos(n); })
+      .catch(e => console.error("Error recargando tras sincronizar:", e));
+  }, [sincronizacion?.ultima]);
+
+  // "Usar el servidor" no encola nada: se relee el padrón para dejar de mostrar la versión local.
+  const handleResolverConflicto = (conflictoId: string, eleccion: 'mio' | 'servidor') => {
+    repos.sincronizacion?.resolver(conflictoId, eleccion);
+    repos.socios.listar()
+      .then(setSocios)
+      .catch(e => console.error("Error cargando socios:", e));
+  };
+
+  // La ocupación depende de la hora: refrescamos el "reloj" del Dashboard cada minuto.
+  useEffect(() => {
+    const timer = setInterval(() => setAhora(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
   }, []);
 
+  // Vencimientos y congelamientos programados cambian el estado solos con la fecha: se guardan a nombre del sistema.
+  const diaActual = formatearFecha(ahora);
+  useEffect(() => {
+    const cambios = socios
+      .map(anterior => ({ anterior, actualizado: MembresiaLogic.actualizar(anterior, ahora) }))
+      .filter(c => c.actualizado !== c.anterior);
+    if (cambios.length === 0) return;
+    setSocios(socios.map(s => cambios.find(c => c.anterior.id === s.id)?.actualizado ?? s));
+    for (const { anterior, actualizado } of cambios) {
+      repos.socios.guardar(actualizado).catch(e => console.error("Error guardando socio:", e));
+      const evento = AuditLogic.evento(
+        USUARIO_SISTEMA, actualizado.id, AuditLogic.clasificar(anterior, actualizado), AuditLogic.diferencias(anterior, actualizado)
+      );
+      repos.auditoria.registrar(evento).catch(e => console.error("Error registrando auditoría:", e));
+    }
+  }, [socios, diaActual]);
+
+  // Cada vez que cambia el padrón, el libro emite las facturas que falten.
   useEffect(() => {
-    localStorage.setItem('fitness_plus_elite_v3', JSON.stringify(socios));
-  }, [socios]);
+    if (ledgerCargado) setLedger(l => BillingLogic.sincronizar(l, socios, new Date()));
+  }, [socios, ledgerCargado]);
 
   /**
    * --- LECCIÓN UTN 5: useMemo (Para cálculos pesados) ---
@@ -109,102 +305,168 @@ const App = () => {
    * Solo vuelve a calcular si la lista de 'socios' cambia.
    */
   const stats = useMemo(() => {
-    const totalRecaudado = socios.reduce((acc, s) => acc + s.importe, 0);
-    const sedeBreakdown = SEDES.map(sede => {
-      const sSede = socios.filter(s => s.sede === sede);
+    const totalRecaudado = sociosActivos.reduce((acc, s) => acc + s.importe, 0);
+    const sedeBreakdown = sedesPermitidas.map(sede => {
+      const sSede = sociosActivos.filter(s => s.sede === sede);
       return { 
         name: sede, 
         count: sSede.length, 
-        income: sSede.reduce((acc, s) => acc + s.importe, 0) 
+        income: sSede.reduce((acc, s) => acc + s.importe, 0),
+        nombre: SedeLogic.nombre(sedes, sede),
+        ocupacion: AsistenciaLogic.ocupacionActual(asistencias, sede, ahora),
+        capacidad: SedeLogic.buscar(sedes, sede)?.capacidadSala ?? 100
       };
     });
-    const totalSocios = socios.length;
-    return { totalRecaudado, totalSocios, sedeBreakdown };
-  }, [socios]);
+    const totalSocios = sociosActivos.length;
+    const enPrueba = sociosVisibles.filter(s => s.estado === 'prueba').length;
+    const congelados = sociosVisibles.filter(s => s.estado === 'congelada').length;
+    const cobranza = BillingLogic.resumen(ledger, sociosVisibles, ahora);
+    return { totalRecaudado, totalSocios, enPrueba, congelados, sedeBreakdown, cobranza };
+  }, [sociosActivos, sociosVisibles, ledger, asistencias, sedes, ahora]);
+
+  /**
+   * Toda modificación de un socio pasa por acá: guarda, y deja el asiento
+   * de auditoría con el antes/después de cada campo. Devuelve el motivo si
+   * la sede destino no tiene lugar, para mostrarlo donde corresponda.
+   */
+  const handleUpdate = (actualizado: Socio): string | null => {
+    const anterior = socios.find(s => s.id === actualizado.id);
+    if (!anterior) return null;
+    const cambios = AuditLogic.diferencias(anterior, actualizado);
+    if (cambios.length === 0) return null;
+    // El cupo se cuenta por sede: mudar o reactivar un socio ocupa un lugar en la sede destino.
+    const ocupaLugar = MembresiaLogic.ocupaLugar(actualizado)
+      && (!MembresiaLogic.ocupaLugar(anterior) || anterior.sede !== actualizado.sede);
+    if (ocupaLugar && !SedeLogic.hayCupo(sedes, socios, actualizado.sede)) {
+      return t('app.sinCupo', { sede: SedeLogic.nombre(sedes, actualizado.sede) });
+    }
+
+    setSocios(socios.map(s => s.id === actualizado.id ? actualizado : s));
+    repos.socios.guardar(actualizado).catch(e => console.error("Error guardando socio:", e));
+    repos.auditoria.registrar(AuditLogic.evento(usuario, actualizado.id, AuditLogic.clasificar(anterior, actualizado), cambios))
+      .catch(e => console.error("Error registrando auditoría:", e));
+    return null;
+  };
+
+  // La cancelación es lógica: el socio queda en el padrón (y en su historial) y puede reactivarse.
+  const handleMembresia = (actualizado: Socio): string | null => {
+    if (actualizado.estado === 'cancelada' && !AuthLogic.puede(usuario, 'socios.eliminar')) return t('app.sinPermisoCancelar');
+    return handleUpdate(actualizado);
+  };
+
+  const handlePago = (facturaId: string, metodo: MetodoPago) => {
+    setLedger(l => BillingLogic.registrarPago(l, facturaId, metodo, new Date()));
+  };
+
+  const handleGuardarPrecios = (config: ConfigPrecios) => {
+    if (!AuthLogic.puede(usuario, 'precios.editar')) return;
+    setPrecios(config);
+    repos.precios.guardar(config).catch(e => console.error("Error guardando precios:", e));
+    alert(t('app.preciosGuardados'));
+  };
+
+  const handleGuardarSedes = (nuevas: Sede[]) => {
+    if (!AuthLogic.puede(usuario, 'sedes.gestionar')) return;
+    setSedes(nuevas);
+    repos.sedes.guardar(nuevas).catch(e => console.error("Error guardando sedes:", e));
+    alert(t('app.sedesGuardadas'));
+  };
+
+  const handleAsistencia = (asistencia: Asistencia) => {
+    setAsistencias(a => [asistencia, ...a]);
+    repos.asistencias.registrar(asistencia).catch(e => console.error("Error registrando asistencia:", e));
+  };
+
+  // Una reserva o cancelación puede tocar varias (la lista de espera sube sola): se guardan todas.
+  const handleReservas = ({ reservas: nuevas, cambiadas }: ResultadoReserva) => {
+    setReservas(nuevas);
+    repos.reservas.guardar(cambiadas).catch(e => console.error("Error guardando reservas:", e));
+  };
+
+  const handleGuardarClases = (nuevas: Clase[]) => {
+    if (!AuthLogic.puede(usuario, 'clases.gestionar')) return;
+    setClases(nuevas);
+    repos.clases.guardar(nuevas).catch(e => console.error("Error guardando clases:", e));
+  };
+
+  const handleGuardarPersonal = (nuevos: Empleado[]) => {
+    if (!AuthLogic.puede(usuario, 'personal.gestionar')) return;
+    setEmpleados(nuevos);
+    repos.personal.guardar(nuevos).catch(e => console.error("Error guardando personal:", e));
+    alert(t('app.personalGuardado'));
+  };
+
+  // Aprobar pasa por handleUpdate: recalcula el importe con los precios de hoy, chequea cupo y audita.
+  const handleResolverSolicitud = (solicitud: SolicitudPlan, aprobada: boolean, nota?: string) => {
+    const socio = socios.find(s => s.id === solicitud.socioId);
+    if (aprobada) {
+      if (!socio || !MembresiaLogic.habilitado(socio)) return alert(t('app.solicitudNoVigente'));
+      const error = handleUpdate(FitnessBusinessLogic.recalcular(precios, { ...socio, membresia: solicitud.planNuevo }));
+      if (error) return alert(t('app.alerta', { error }));
+    }
+    const resuelta = PortalLogic.resolver(solicitud, aprobada, usuario, new Date(), nota);
+    setSolicitudes(solicitudes.map(s => (s.id === resuelta.id ? resuelta : s)));
+    repos.solicitudes.guardar(resuelta).catch(e => console.error("Error guardando solicitud:", e));
+  };
+
+  const handleGuardarAvisos = (config: ConfigNotificaciones) => {
+    if (!AuthLogic.puede(usuario, 'notificaciones.gestionar')) return;
+    setConfigAvisos(config);
+    repos.notificaciones.guardar(config).catch(e => console.error("Error guardando configuración de avisos:", e));
+    alert(t('app.avisosGuardados'));
+  };
+
+  // Los socios ya vienen validados por la simulación del asistente.
+  const handleImportar = (nuevos: Socio[]) => {
+    if (!AuthLogic.puede(usuario, 'socios.importar')) return;
+    setSocios([...nuevos, ...socios]);
+    for (const socio of nuevos) {
+      repos.socios.guardar(socio).catch(e => console.error("Error guardando socio:", e));
+      repos.auditoria.registrar(AuditLogic.alta(usuario, socio)).catch(e => console.error("Error registrando auditoría:", e));
+    }
+    setImportando(false);
+    alert(t('app.importados', { n: nuevos.length }));
+  };
 
   const handleRegister = (e: React.FormEvent) => {
     e.preventDefault();
-    const dni = parseInt(formData.dni);
-    const edad = parseInt(formData.edad);
+    const perfil = {
+      nombre: formData.nombre.trim(),
+      dni: parseInt(formData.dni),
+      fechaNacimiento: formData.fechaNacimiento,
+      telefono: formData.telefono.trim(),
+      email: formData.email.trim(),
+      contactoEmergenciaNombre: formData.contactoEmergenciaNombre.trim(),
+      contactoEmergenciaTelefono: formData.contactoEmergenciaTelefono.trim(),
+      aptoMedicoVence: formData.aptoMedicoVence || null
+    };
 
-    // Validaciones estilo C (Robustez de datos)
-    if (dni < 2000000 || dni > 59999999) return alert("Error: DNI inválido.");
-    if (socios.length >= MAX_SOCIOS) return alert("Alerta: Capacidad máxima.");
+    // Validaciones estilo C (Robustez de datos), pero informadas campo por campo
+    const nuevosErrores = ValidacionLogic.validar(perfil, { socios, hoy: new Date(), documento, t });
+    if (!sedesParaAlta.includes(formData.sede)) nuevosErrores.sede = t('alta.sinAccesoSede');
+    else if (!SedeLogic.hayCupo(sedes, socios, formData.sede)) nuevosErrores.sede = t('alta.sedeLlena', { sede: SedeLogic.nombre(sedes, formData.sede) });
+    setErrores(nuevosErrores);
+    if (!ValidacionLogic.esValido(nuevosErrores)) return;
 
     const nuevo: Socio = {
       id: crypto.randomUUID(),
-      nombre: formData.nombre,
-      dni, edad,
-      sede: formData.sede,
-      membresia: formData.membresia,
-      metodoPago: formData.metodoPago,
-      importe: FitnessBusinessLogic.calcularImporte(edad, formData.membresia, formData.metodoPago)
+      ...datosPrecio,
+      ...perfil,
+      importe: desglose.total, // En el pase de prueba no se cobra: es lo que pagará si se queda
+      ...MembresiaLogic.alta(new Date(), altaPrueba),
+      // Si se cambió de sede después de elegir vendedor, la venta queda sin asignar.
+      vendedorId: PersonalLogic.vendedores(empleados, formData.sede).some(v => v.id === formData.vendedorId) ? formData.vendedorId : undefined
     };
 
     setSocios([nuevo, ...socios]);
+    repos.socios.guardar(nuevo).catch(e => console.error("Error guardando socio:", e));
+    repos.auditoria.registrar(AuditLogic.alta(usuario, nuevo)).catch(e => console.error("Error registrando auditoría:", e));
     setView('list');
-    setFormData({ nombre: '', dni: '', edad: '', sede: 'CBA', membresia: 'BAS', metodoPago: 'efectivo' });
+    setCredencialSocio(nuevo); // Se entrega el QR en el momento del alta
+    setFormData({ ...formularioVacio, sede: formData.sede, membresia: formData.membresia, metodoPago: 'efectivo' });
+    setAltaPrueba(false);
   };
 
-  /**
-   * --- LECCIÓN UTN 7: IA DETERMINÍSTICA (BASADA EN REGLAS) ---
-   * No toda "IA" necesita un servidor gigante. Aquí creamos un "Analista Local".
-   * Usamos la lógica de programación (if/else avanzados) para dar consejos reales
-   * basados en tus datos de socios. Es lo que en C harías con un motor de reglas.
-   */
-  const askAI = async () => {
-    setLoadingAI(true);
-    await new Promise(resolve => setTimeout(resolve, 1000)); // Latencia para efecto dramático
-    
-    const apiKey = (import.meta as any).env.VITE_API_KEY;
-
-      // MODO SIMULADOR: Si no hay API Key, devolvemos una respuesta didáctica
-      if (!apiKey || apiKey === "TU_KEY_AQUI") {
-        await new Promise(resolve => setTimeout(resolve, 1500)); // Simulamos latencia
-        const mocks = [
-          "Estrategia UTN: Implementar programas de referidos digitales para aumentar socios en un 15%.",
-          "Análisis PRO: La sede CBA tiene el mayor margen. Recomiendo duplicar el equipamiento allí.",
-          "Insight: El 40% de tus ingresos viene de tarjetas. Considera un plan de lealtad sin recargos."
-        ];
-        setAiInsight(mocks[Math.floor(Math.random() * mocks.length)] + " (Modo Simulador)");
-        setLoadingAI(false);
-        return;
-      }
-
-      try {
-        const ai = new GoogleGenAI(apiKey);
-        const prompt = `Analiza: Socios ${stats.totalSocios}, Recaudación $${stats.totalRecaudado}. Da 1 consejo breve para crecer.`;
-
-        const response = await (ai as any).getGenerativeModel({ model: "gemini-1.5-flash" }).generateContent(prompt);
-        setAiInsight(response.response.text());
-        setLoadingAI(false);
-        return;
-      } catch (e) {
-        console.error("Error Gemini, usando Analista Local...");
-      }
-
-      // --- MOTOR DE REGLAS LOCAL (Analista Pro) ---
-      let consejo = "";
-      if (stats.totalSocios === 0) {
-        consejo = "Sistema listo. Sugerencia: Lanzar campaña 'Fundadores' con 30% off para los primeros 50 socios.";
-      } else if (stats.totalSocios > 0 && stats.totalSocios < 50) {
-        consejo = "Crecimiento inicial detectado. Tip: Implementar 'Plan Amigo' (2x1 el primer mes) para viralizar.";
-      } else if (stats.totalRecaudado < 500000) {
-        consejo = "Alerta de ingresos: Considera subir la membresía Premium a $30k para mejorar el ticket promedio.";
-      } else {
-        const mejorSede = stats.sedeBreakdown.reduce((prev: any, current: any) => (prev.income > current.income) ? prev : current);
-        consejo = `La sede ${mejorSede.name} es tu mina de oro. Recomiendo abrir turno noche allí inmediatamente.`;
-      }
-
-      setAiInsight(consejo);
-      setLoadingAI(false);
-    };
-
-    const filteredSocios = socios.filter(s => 
-      s.nombre.toLowerCase().includes(searchQuery.toLowerCase()) || 
-      s.dni.toString().includes(searchQuery)
-    );
-
   return (
     <div className="min-h-screen flex text-zinc-100 selection:bg-blue-500/30">
       {/* SIDEBAR ELITE NAV */}
@@ -214,21 +476,47 @@ const App = () => {
           animate={{ opacity: 1, x: 0 }}
           className="flex items-center gap-4 mb-16"
         >
-          <div className="w-12 h-12 bg-gradient-to-tr from-blue-600 to-cyan-400 rounded-2xl flex items-center justify-center shadow-2xl shadow-blue-500/40">
-            <Activity className="text-white w-7 h-7" />
+          <div className="w-12 h-12 bg-gradient-to-tr from-blue-600 to-cyan-400 rounded-2xl flex items-center justify-center shadow-2xl shadow-blue-500/40 overflow-hidden shrink-0">
+            {organizacion.logoUrl
+              ? <img src={organizacion.logoUrl} alt={organizacion.nombre} className="w-full h-full object-cover" />
+              : <Activity className="text-white w-7 h-7" />}
           </div>
-          <div className="hidden lg:block">
-            <h2 className="font-black text-xl tracking-tighter leading-none">FITNESS<span className="text-blue-500">PRO</span></h2>
+          <div className="hidden lg:block min-w-0">
+            <h2 className="font-black text-xl tracking-tighter leading-none uppercase truncate">{marca[0]}<span className="text-blue-500">{marca[1]}</span></h2>
             <span className="text-[10px] text-zinc-500 font-bold tracking-widest uppercase">Elite Management</span>
           </div>
         </motion.div>
 
+        {tenant.organizaciones.length > 1 && (
+          <select
+            value={organizacion.id}
+            onChange={(e) => tenant.cambiar(e.target.value)}
+            title={t('nav.cambiarGimnasio')}
+            className="hidden lg:block -mt-10 mb-8 w-full bg-zinc-900/50 border border-white/5 rounded-xl py-2 px-3 text-xs font-bold text-zinc-300 outline-none cursor-pointer"
+          >
+            {tenant.organizaciones.map(o => <option key={o.id} value={o.id}>{o.nombre}{o.activa ? '' : ` ${t('nav.suspendida')}`}</option>)}
+          </select>
+        )}
+
         <div className="flex-1 space-y-4">
-          {[
-            { id: 'dashboard', icon: BarChart3, label: 'Dashboard' },
-            { id: 'list', icon: Users, label: 'Gestión Socios' },
-            { id: 'add', icon: Plus, label: 'Nueva Alta' }
-          ].map((item, idx) => (
+          {([
+            { id: 'dashboard', icon: BarChart3, label: t('nav.dashboard') },
+            { id: 'list', icon: Users, label: t('nav.socios') },
+            { id: 'add', icon: Plus, label: t('nav.alta') },
+            { id: 'billing', icon: Receipt, label: t('nav.cobranzas') },
+            { id: 'access', icon: ScanLine, label: t('nav.acceso') },
+            { id: 'agenda', icon: CalendarClock, label: t('nav.clases') },
+            { id: 'requests', icon: Inbox, label: solicitudesPendientes > 0 ? t('nav.solicitudesPendientes', { n: solicitudesPendientes }) : t('nav.solicitudes') },
+            { id: 'reports', icon: LineChart, label: t('nav.reportes'), permiso: 'reportes.ver' },
+            { id: 'staff', icon: Briefcase, label: t('nav.personal'), permiso: 'personal.gestionar' },
+            { id: 'notifications', icon: Bell, label: t('nav.avisos'), permiso: 'notificaciones.gestionar' },
+            { id: 'sedes', icon: MapPin, label: t('nav.sedes'), permiso: 'sedes.gestionar' },
+            { id: 'pricing', icon: Tags, label: t('nav.precios'), permiso: 'precios.editar' },
+            { id: 'users', icon: ShieldCheck, label: t('nav.usuarios'), permiso: 'usuarios.gestionar' },
+            { id: 'orgs', icon: Building2, label: t('nav.gimnasios'), permiso: 'organizaciones.gestionar' }
+          ] as { id: string; icon: typeof Users; label: string; permiso?: Permiso }[])
+            .filter(item => !item.permiso || AuthLogic.puede(usuario, item.permiso))
+            .map((item, idx) => (
             <motion.button
               initial={{ opacity: 0, x: -10 }}
               animate={{ opacity: 1, x: 0 }}
@@ -252,18 +540,70 @@ const App = () => {
         </div>
 
         <div className="mt-auto space-y-6 pt-6 border-t border-white/5">
-          <div className="hidden lg:block p-4 rounded-2xl bg-zinc-900/50 border border-white/5">
-            <div className="flex justify-between text-[10px] font-black text-zinc-500 mb-2 uppercase tracking-widest">
-              <span>Capacidad</span>
-              <span>{Math.round((socios.length/MAX_SOCIOS)*100)}%</span>
+          <div className="flex items-center justify-between gap-3">
+            <div className="hidden lg:block min-w-0">
+              <div className="font-bold text-sm truncate">{usuario.nombre}</div>
+              <div className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">
+                {t(`rol.${usuario.rol}`)}{usuario.sede ? ` • ${usuario.sede}` : ''}
+              </div>
             </div>
-            <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
-              <motion.div 
-                initial={{ width: 0 }}
-                animate={{ width: `${(socios.length/MAX_SOCIOS)*100}%` }}
-                className="h-full bg-gradient-to-r from-blue-500 to-cyan-400" 
-              />
+            <button
+              onClick={onLogout}
+              title={t('nav.cerrarSesion')}
+              className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-red-500/20 hover:text-red-500 transition-all shrink-0"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
+          {sincronizacion && (
+            <div className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-zinc-900/50 border border-white/5">
+              <div className="flex items-center gap-3 min-w-0">
+                {sincronizacion.enLinea
+                  ? <Wifi className="w-4 h-4 text-emerald-400 shrink-0" />
+                  : <WifiOff className="w-4 h-4 text-amber-400 shrink-0" />}
+                <div className="hidden lg:block min-w-0">
+                  <div className="font-bold text-xs">{sincronizacion.enLinea ? t('sync.enLinea') : t('sync.sinConexion')}</div>
+                  <div className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">
+                    {sincronizacion.pendientes > 0 ? t('sync.pendientes', { n: sincronizacion.pendientes }) : t('sync.todoEnviado')}
+                  </div>
+                  {sincronizacion.conflictos.length > 0 && (
+                    <button onClick={() => setViendoConflictos(true)} className="text-[10px] text-amber-400 font-black uppercase tracking-widest hover:underline">
+                      {t('sync.conflictos', { n: sincronizacion.conflictos.length })}
+                    </button>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => repos.sincronizacion?.sincronizar()}
+                disabled={sincronizacion.sincronizando}
+                title={t('sync.sincronizar')}
+                className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10 transition-all shrink-0 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 ${sincronizacion.sincronizando ? 'animate-spin' : ''}`} />
+              </button>
             </div>
+          )}
+          <div className="hidden lg:block p-4 rounded-2xl bg-zinc-900/50 border border-white/5 space-y-3">
+            <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('nav.capacidad')}</div>
+            {sedesParaAlta.map(codigo => {
+              const cupo = SedeLogic.buscar(sedes, codigo)!.capacidadSocios;
+              const porcentaje = Math.min(100, (SedeLogic.ocupadas(socios, codigo) / cupo) * 100);
+              return (
+                <div key={codigo}>
+                  <div className="flex justify-between text-[10px] font-black text-zinc-500 mb-1 uppercase tracking-widest">
+                    <span>{codigo}</span>
+                    <span>{Math.round(porcentaje)}%</span>
+                  </div>
+                  <div className="h-1.5 w-full bg-zinc-800 rounded-full overflow-hidden">
+                    <motion.div 
+                      initial={{ width: 0 }}
+                      animate={{ width: `${porcentaje}%` }}
+                      className={`h-full bg-gradient-to-r ${porcentaje >= 100 ? 'from-red-500 to-orange-400' : 'from-blue-500 to-cyan-400'}`} 
+                    />
+                  </div>
+                </div>
+              );
+            })}
           </div>
           <div className="text-[9px] text-zinc-600 font-bold uppercase tracking-[0.2em] text-center lg:text-left">
             V 2.5 • Enterprise Edition
@@ -286,64 +626,69 @@ const App = () => {
               >
                 <header className="flex justify-between items-end">
                   <div>
-                    <h1 className="text-4xl lg:text-5xl font-black tracking-tighter mb-2">Visión <span className="text-blue-500">Global</span></h1>
-                    <p className="text-zinc-500 font-medium">Análisis de rendimiento y rentabilidad en tiempo real.</p>
+                    <h1 className="text-4xl lg:text-5xl font-black tracking-tighter mb-2">{t('dash.titulo')} <span className="text-blue-500">{t('dash.tituloResaltado')}</span></h1>
+                    <p className="text-zinc-500 font-medium">{t('dash.subtitulo')}</p>
                   </div>
+                  {cuarentena.length > 0 && (
+                    <div
+                      title={cuarentena.map(c => `v${c.version}: ${c.motivo}`).join('\n')}
+                      className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/30 text-amber-400 rounded-2xl px-4 py-3 text-[10px] font-black uppercase tracking-widest"
+                    >
+                      <ShieldAlert className="w-4 h-4" />
+                      {t('dash.cuarentena', { n: cuarentena.length })}
+                    </div>
+                  )}
                 </header>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                   <AnimatedCard delay={0.1} className="flex flex-col justify-between h-48">
                     <TrendingUp className="text-emerald-400 w-8 h-8" />
                     <div>
-                      <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">Recaudación</p>
-                      <h3 className="text-4xl font-black">${stats.totalRecaudado.toLocaleString()}</h3>
+                      <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">{t('dash.cobrado', { periodo: stats.cobranza.periodo })}</p>
+                      <h3 className="text-4xl font-black">{moneda(stats.cobranza.cobrado)}</h3>
+                      <div className="flex gap-4 mt-2 text-[10px] font-black uppercase tracking-widest">
+                        <span className="text-zinc-500">{t('dash.esperado', { importe: moneda(stats.cobranza.esperado) })}</span>
+                        <span className="text-red-400">{t('dash.vencido', { importe: moneda(stats.cobranza.vencido) })}</span>
+                      </div>
                     </div>
                   </AnimatedCard>
 
                   <AnimatedCard delay={0.2} className="flex flex-col justify-between h-48">
                     <Users className="text-blue-400 w-8 h-8" />
                     <div>
-                      <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">Socios Activos</p>
+                      <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">{t('dash.sociosActivos')}</p>
                       <h3 className="text-4xl font-black">{stats.totalSocios}</h3>
+                      {(stats.enPrueba > 0 || stats.congelados > 0) && (
+                        <div className="flex gap-4 mt-2 text-[10px] font-black uppercase tracking-widest">
+                          {stats.enPrueba > 0 && <span className="text-cyan-400">{t('dash.enPrueba', { n: stats.enPrueba })}</span>}
+                          {stats.congelados > 0 && <span className="text-blue-400">{t('dash.congelados', { n: stats.congelados })}</span>}
+                        </div>
+                      )}
                     </div>
                   </AnimatedCard>
 
-                  <AnimatedCard delay={0.3} className="border-blue-500/30 bg-blue-500/5 group">
-                    <div className="flex items-center gap-3 mb-4">
-                      <BrainCircuit className="text-blue-400 w-6 h-6 animate-pulse" />
-                      <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest">Consultor de Negocio (Local)</span>
-                    </div>
-                    {aiInsight ? (
-                      <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-500">
-                        <div className="bg-zinc-950/50 p-4 rounded-2xl border border-blue-500/20 text-sm font-medium leading-relaxed italic text-blue-100">
-                          "{aiInsight}"
-                        </div>
-                        <button onClick={() => setAiInsight(null)} className="w-full text-center text-[10px] font-black text-zinc-500 hover:text-blue-400 uppercase tracking-widest transition-colors">Nuevo Análisis</button>
-                      </div>
-                    ) : (
-                      <div className="space-y-4">
-                        <p className="text-[11px] text-zinc-500 font-medium">Pulsa para que el algoritmo analice tus métricas actuales en tiempo real.</p>
-                        <button 
-                          onClick={askAI}
-                          disabled={loadingAI}
-                          className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-2xl font-bold text-sm transition-all shadow-xl shadow-blue-600/20 active:scale-95 disabled:opacity-50"
-                        >
-                          {loadingAI ? "Procesando Datos..." : "Consultar Estrategia"}
-                        </button>
-                      </div>
-                    )}
-                  </AnimatedCard>
+                  <ConsultorPanel
+                    socios={sociosVisibles}
+                    sedes={sedes}
+                    sedesPermitidas={sedesPermitidas}
+                    precios={precios}
+                    ledger={ledger}
+                    auditoria={repos.auditoria}
+                    insights={repos.insights}
+                    ahora={ahora}
+                    regional={regional}
+                  />
                 </div>
 
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   <AnimatedCard delay={0.4} className="col-span-1">
-                    <h3 className="font-black text-xl mb-6">Rendimiento por Sede</h3>
+                    <h3 className="font-black text-xl mb-6">{t('dash.rendimientoSede')}</h3>
                     <div className="space-y-6">
                       {stats.sedeBreakdown.map((s, i) => (
                         <div key={s.name}>
                           <div className="flex justify-between text-sm mb-2">
-                            <span className="font-bold">{s.name}</span>
-                            <span className="text-zinc-500 font-mono">${s.income.toLocaleString()}</span>
+                            <span className="font-bold">{s.nombre}</span>
+                            <span className="text-zinc-500 font-mono">{moneda(s.income)}</span>
                           </div>
                           <div className="h-2 w-full bg-zinc-800 rounded-full overflow-hidden">
                             <motion.div 
@@ -353,6 +698,12 @@ const App = () => {
                               className="h-full bg-blue-500" 
                             />
                           </div>
+                          <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest mt-2">
+                            <span className="text-zinc-600">{t('dash.socios', { n: s.count })}</span>
+                            <span className={s.ocupacion >= s.capacidad ? 'text-red-400' : 'text-zinc-500'}>
+                              {t('dash.enSala', { ocupacion: s.ocupacion, capacidad: s.capacidad })}
+                            </span>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -360,95 +711,41 @@ const App = () => {
                   
                   <AnimatedCard delay={0.5} className="bg-gradient-to-br from-zinc-900 to-zinc-950 flex flex-col items-center justify-center text-center p-12">
                      <Database className="w-12 h-12 text-zinc-700 mb-6" />
-                     <h4 className="text-lg font-bold mb-2 text-zinc-400">Escalabilidad (UTN Avanzado)</h4>
-                     <p className="text-sm text-zinc-600">Este sistema demuestra cómo pasar de datos secuenciales a una arquitectura distribuida.</p>
+                     <h4 className="text-lg font-bold mb-2 text-zinc-400">{t('dash.escalabilidad')}</h4>
+                     <p className="text-sm text-zinc-600">{t('dash.escalabilidadDetalle')}</p>
                   </AnimatedCard>
                 </div>
+
+                <AttendancePanel
+                  sedes={sedesPermitidas}
+                  socios={sociosHabilitados}
+                  asistencias={asistenciasVisibles}
+                  ahora={ahora}
+                  regional={regional}
+                />
+
+                {repos.molinetes && (
+                  <PuertasPanel conexion={repos.molinetes} sedes={sedesPermitidas} regional={regional} onPaso={recargarAsistencias} />
+                )}
               </motion.div>
             )}
 
             {view === 'list' && (
-              <motion.div 
-                key="list"
-                initial={{ opacity: 0, x: 30 }}
-                animate={{ opacity: 1, x: 0 }}
-                className="space-y-8"
-              >
-                <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
-                  <h1 className="text-4xl font-black tracking-tighter">Padrón <span className="text-blue-500">Elite</span></h1>
-                  <div className="relative w-full md:w-96 group">
-                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500 group-focus-within:text-blue-500 transition-colors" />
-                    <input 
-                      type="text" 
-                      placeholder="Buscar por DNI o Nombre..."
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                      className="w-full bg-zinc-900/50 border border-white/5 rounded-2xl py-3 pl-12 pr-4 outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-medium"
-                    />
-                  </div>
-                </div>
-
-                <div className="overflow-hidden rounded-3xl border border-white/5 bg-zinc-900/20 backdrop-blur-xl shadow-2xl">
-                  <table className="w-full text-left border-collapse">
-                    <thead>
-                      <tr className="bg-zinc-950 text-[10px] font-black text-zinc-500 uppercase tracking-widest border-b border-white/5">
-                        <th className="px-8 py-5">Nombre / Edad</th>
-                        <th className="px-8 py-5">DNI</th>
-                        <th className="px-8 py-5">Ubicación</th>
-                        <th className="px-8 py-5">Membresía</th>
-                        <th className="px-8 py-5 text-right">Importe</th>
-                        <th className="px-8 py-5 text-center">Acciones</th>
-                      </tr>
-                    </thead>
-                    <tbody className="divide-y divide-white/5">
-                      {filteredSocios.map((s, i) => (
-                        <motion.tr 
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          transition={{ delay: i * 0.05 }}
-                          key={s.id} 
-                          className="hover:bg-white/[0.02] transition-colors group"
-                        >
-                          <td className="px-8 py-6">
-                            <div className="font-bold text-zinc-200">{s.nombre}</div>
-                            <div className="text-[10px] text-zinc-500 font-bold uppercase">{s.edad} años</div>
-                          </td>
-                          <td className="px-8 py-6 font-mono text-xs text-zinc-400 tracking-tighter">{s.dni}</td>
-                          <td className="px-8 py-6">
-                            <span className="text-[10px] font-black bg-zinc-800 px-3 py-1 rounded-full text-zinc-300 ring-1 ring-white/5">{s.sede}</span>
-                          </td>
-                          <td className="px-8 py-6">
-                            <span className={`text-[10px] font-black tracking-widest uppercase ${
-                              s.membresia === 'PRE' ? 'text-amber-400' : 'text-blue-400'
-                            }`}>
-                              {MEMBRESIAS.find(m => m.id === s.membresia)?.nombre}
-                            </span>
-                          </td>
-                          <td className="px-8 py-6 text-right font-black text-emerald-400">
-                            ${s.importe.toFixed(0)}
-                          </td>
-                          <td className="px-8 py-6 text-center">
-                            <button 
-                              onClick={() => setSocios(socios.filter(x => x.id !== s.id))}
-                              className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-red-500/20 hover:text-red-500 transition-all opacity-0 group-hover:opacity-100"
-                            >
-                              <X className="w-4 h-4" />
-                            </button>
-                          </td>
-                        </motion.tr>
-                      ))}
-                    </tbody>
-                  </table>
-                  {filteredSocios.length === 0 && (
-                    <div className="p-20 text-center">
-                      <div className="w-16 h-16 bg-zinc-900 rounded-2xl flex items-center justify-center mx-auto mb-4 border border-white/5">
-                        <Users className="text-zinc-600" />
-                      </div>
-                      <p className="text-zinc-500 font-medium">No se encontraron registros en la base de datos.</p>
-                    </div>
-                  )}
-                </div>
-              </motion.div>
+              <PadronView
+                socios={sociosVisibles}
+                sedes={sedes}
+                sedesPermitidas={sedesPermitidas}
+                precios={precios}
+                ledger={ledger}
+                ahora={ahora}
+                regional={regional}
+                puedeImportar={AuthLogic.puede(usuario, 'socios.importar')}
+                onEditar={setEditandoSocio}
+                onHistorial={setHistorialSocio}
+                onCredencial={setCredencialSocio}
+                onMembresia={setMembresiaSocio}
+                onImportar={() => setImportando(true)}
+              />
             )}
 
             {view === 'add' && (
@@ -459,109 +756,391 @@ const App = () => {
                 className="max-w-3xl mx-auto"
               >
                 <div className="text-center mb-10">
-                  <h1 className="text-4xl font-black tracking-tighter mb-4">Registro de <span className="text-blue-500">Elite</span></h1>
-                  <p className="text-zinc-500">Complete los campos para integrar un nuevo socio al sistema.</p>
+                  <h1 className="text-4xl font-black tracking-tighter mb-4">{t('alta.titulo')} <span className="text-blue-500">{t('alta.tituloResaltado')}</span></h1>
+                  <p className="text-zinc-500">{t('alta.subtitulo')}</p>
                 </div>
 
                 <AnimatedCard className="!p-10 border-blue-500/20 shadow-blue-900/10">
                   <form onSubmit={handleRegister} className="space-y-8">
                     <div className="space-y-2">
-                      <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Nombre Completo del Cliente</label>
+                      <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.nombre')}</label>
                       <input 
                         required
                         type="text" 
                         value={formData.nombre}
                         onChange={(e) => setFormData({...formData, nombre: e.target.value})}
                         className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-lg"
-                        placeholder="Ej: Marcelo Alexander Sosa"
+                        placeholder={t('alta.nombreEjemplo')}
                       />
+                      <CampoError mensaje={errores.nombre} />
                     </div>
 
                     <div className="grid grid-cols-2 gap-6">
                       <div className="space-y-2">
-                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Documento Nacional (DNI)</label>
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{documento.nombre} ({documento.sigla})</label>
                         <input 
                           required
                           type="number" 
                           value={formData.dni}
                           onChange={(e) => setFormData({...formData, dni: e.target.value})}
                           className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
-                          placeholder="Sin puntos"
+                          placeholder={documento.ayuda}
                         />
+                        <CampoError mensaje={errores.dni} />
                       </div>
                       <div className="space-y-2">
-                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Edad Cronológica</label>
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.nacimiento')}</label>
                         <input 
                           required
-                          type="number" 
-                          value={formData.edad}
-                          onChange={(e) => setFormData({...formData, edad: e.target.value})}
+                          type="date" 
+                          value={formData.fechaNacimiento}
+                          onChange={(e) => setFormData({...formData, fechaNacimiento: e.target.value})}
+                          className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
+                        />
+                        <CampoError mensaje={errores.fechaNacimiento} />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.telefono')}</label>
+                        <input 
+                          type="tel" 
+                          value={formData.telefono}
+                          onChange={(e) => setFormData({...formData, telefono: e.target.value})}
                           className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
-                          placeholder="18"
+                          placeholder={t('alta.telefonoEjemplo')}
                         />
+                        <CampoError mensaje={errores.telefono} />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.email')}</label>
+                        <input 
+                          type="email" 
+                          value={formData.email}
+                          onChange={(e) => setFormData({...formData, email: e.target.value})}
+                          className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold"
+                          placeholder="socio@mail.com"
+                        />
+                        <CampoError mensaje={errores.email} />
                       </div>
                     </div>
 
                     <div className="grid grid-cols-3 gap-6">
                       <div className="space-y-2">
-                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Sede Asignada</label>
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.emergencia')}</label>
+                        <input 
+                          type="text" 
+                          value={formData.contactoEmergenciaNombre}
+                          onChange={(e) => setFormData({...formData, contactoEmergenciaNombre: e.target.value})}
+                          className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold"
+                          placeholder={t('alta.emergenciaNombre')}
+                        />
+                        <CampoError mensaje={errores.contactoEmergenciaNombre} />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.emergenciaTelefono')}</label>
+                        <input 
+                          type="tel" 
+                          value={formData.contactoEmergenciaTelefono}
+                          onChange={(e) => setFormData({...formData, contactoEmergenciaTelefono: e.target.value})}
+                          className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
+                        />
+                        <CampoError mensaje={errores.contactoEmergenciaTelefono} />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.apto')}</label>
+                        <input 
+                          type="date" 
+                          value={formData.aptoMedicoVence}
+                          onChange={(e) => setFormData({...formData, aptoMedicoVence: e.target.value})}
+                          className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
+                        />
+                        <CampoError mensaje={errores.aptoMedicoVence} />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-6">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.sede')}</label>
                         <select 
                           value={formData.sede}
                           onChange={(e) => setFormData({...formData, sede: e.target.value})}
                           className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold cursor-pointer"
                         >
-                          {SEDES.map(s => <option key={s} value={s}>{s}</option>)}
+                          {sedesParaAlta.map(s => <option key={s} value={s}>{SedeLogic.nombre(sedes, s)}</option>)}
                         </select>
+                        <CampoError mensaje={errores.sede} />
                       </div>
                       <div className="space-y-2">
-                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Categoría Membresía</label>
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.membresia')}</label>
                         <select 
                           value={formData.membresia}
                           onChange={(e) => setFormData({...formData, membresia: e.target.value})}
                           className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold cursor-pointer"
                         >
-                          {MEMBRESIAS.map(m => <option key={m.id} value={m.id}>{m.nombre}</option>)}
+                          {precios.planes.map(m => <option key={m.id} value={m.id}>{m.nombre}</option>)}
                         </select>
                       </div>
                       <div className="space-y-2">
-                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">Método de Pago</label>
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.metodoPago')}</label>
                         <select 
                           value={formData.metodoPago}
                           onChange={(e) => setFormData({...formData, metodoPago: e.target.value})}
                           className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold cursor-pointer"
                         >
-                          <option value="efectivo">Efectivo / Deb</option>
-                          <option value="tarjeta">Tarjeta (+5%)</option>
+                          <option value="efectivo">{t('alta.efectivo')}</option>
+                          <option value="tarjeta">{t('alta.tarjeta')}</option>
                         </select>
                       </div>
                     </div>
 
+                    <label className="flex items-center gap-3 text-sm font-bold text-zinc-400 cursor-pointer">
+                      <input type="checkbox" checked={altaPrueba} onChange={(e) => setAltaPrueba(e.target.checked)} />
+                      {t('alta.prueba', { dias: DIAS_PRUEBA })}
+                    </label>
+
+                    {PersonalLogic.vendedores(empleados, formData.sede).length > 0 && (
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.vendedor')}</label>
+                        <select
+                          value={formData.vendedorId}
+                          onChange={(e) => setFormData({...formData, vendedorId: e.target.value})}
+                          className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold cursor-pointer"
+                        >
+                          <option value="">{t('alta.sinVendedor')}</option>
+                          {PersonalLogic.vendedores(empleados, formData.sede).map(v => <option key={v.id} value={v.id}>{v.nombre}</option>)}
+                        </select>
+                      </div>
+                    )}
+
+                    {/* Solo se piden los datos de las reglas que el Admin tiene activas */}
+                    {(tiposActivos.has('promo') || tiposActivos.has('grupo') || tiposActivos.has('prepago')) && (
+                      <div className="grid grid-cols-3 gap-6">
+                        {tiposActivos.has('promo') && (
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.promo')}</label>
+                            <input
+                              type="text"
+                              value={formData.codigoPromo}
+                              onChange={(e) => setFormData({...formData, codigoPromo: e.target.value})}
+                              className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono uppercase"
+                            />
+                          </div>
+                        )}
+                        {tiposActivos.has('grupo') && (
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.grupo')}</label>
+                            <input
+                              type="number"
+                              value={formData.integrantesGrupo}
+                              onChange={(e) => setFormData({...formData, integrantesGrupo: e.target.value})}
+                              className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
+                              placeholder="1"
+                            />
+                          </div>
+                        )}
+                        {tiposActivos.has('prepago') && (
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('alta.prepago')}</label>
+                            <input
+                              type="number"
+                              value={formData.mesesPrepago}
+                              onChange={(e) => setFormData({...formData, mesesPrepago: e.target.value})}
+                              className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
+                              placeholder="1"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div className="pt-6 border-t border-white/5 flex flex-col md:flex-row justify-between items-center gap-6">
                       <div className="text-center md:text-left">
-                        <p className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.3em] mb-1">Monto Final Proyectado</p>
+                        <p className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.3em] mb-1">{t('alta.montoFinal')}</p>
                         <h4 className="text-4xl font-black text-blue-500">
-                          ${FitnessBusinessLogic.calcularImporte(
-                            parseInt(formData.edad) || 0, 
-                            formData.membresia, 
-                            formData.metodoPago
-                          ).toFixed(0)}
+                          {moneda(Math.round(desglose.total))}
                         </h4>
+                        <div className="mt-3 max-w-xs">
+                          <PriceBreakdown desglose={desglose} etiquetaBase={t('alta.plan', { plan: nombrePlan(formData.membresia), sede: formData.sede })} regional={regional} />
+                        </div>
                       </div>
                       <button 
                         type="submit"
                         className="w-full md:w-auto bg-blue-600 hover:bg-blue-500 text-white font-black px-12 py-5 rounded-3xl shadow-2xl shadow-blue-600/30 transition-all active:scale-95 text-sm uppercase tracking-widest"
                       >
-                        Validar y Registrar
+                        {t('alta.registrar')}
                       </button>
                     </div>
                   </form>
                 </AnimatedCard>
               </motion.div>
             )}
+
+            {view === 'billing' && (
+              <BillingView socios={sociosVisibles} ledger={ledger} regional={regional} onPagar={handlePago} />
+            )}
+
+            {view === 'access' && (
+              <AccessView
+                sedes={sedes}
+                sedesPermitidas={sedesPermitidas}
+                socios={socios}
+                ledger={ledger}
+                asistencias={asistencias}
+                regional={regional}
+                onAsistencia={handleAsistencia}
+              />
+            )}
+
+            {view === 'agenda' && (
+              <AgendaView
+                clases={clases}
+                reservas={reservas}
+                socios={sociosVisibles}
+                sedes={sedes}
+                sedesPermitidas={sedesPermitidas}
+                planes={precios.planes}
+                empleados={empleados}
+                puedeGestionar={AuthLogic.puede(usuario, 'clases.gestionar')}
+                ahora={ahora}
+                regional={regional}
+                onReservas={handleReservas}
+                onGuardarClases={handleGuardarClases}
+              />
+            )}
+
+            {view === 'staff' && AuthLogic.puede(usuario, 'personal.gestionar') && (
+              <PersonalView
+                empleados={empleados}
+                clases={clases}
+                socios={socios}
+                ledger={ledger}
+                sedes={sedes}
+                sedesPermitidas={sedesPermitidas}
+                auditoria={repos.auditoria}
+                ahora={ahora}
+                regional={regional}
+                onSave={handleGuardarPersonal}
+              />
+            )}
+
+            {view === 'notifications' && configAvisos && AuthLogic.puede(usuario, 'notificaciones.gestionar') && (
+              <NotificacionesView
+                config={configAvisos}
+                notificador={notificador}
+                regional={regional}
+                onGuardar={handleGuardarAvisos}
+                onRevisar={revisarAvisos}
+              />
+            )}
+
+            {view === 'requests' && (
+              <SolicitudesView
+                solicitudes={solicitudesVisibles}
+                regional={regional}
+                nombrePlan={nombrePlan}
+                importeActual={(s) => {
+                  const socio = socios.find(x => x.id === s.socioId);
+                  return socio ? FitnessBusinessLogic.cotizar(precios, { ...socio, membresia: s.planNuevo }).total : null;
+                }}
+                onResolver={handleResolverSolicitud}
+              />
+            )}
+
+            {view === 'users' && AuthLogic.puede(usuario, 'usuarios.gestionar') && (
+              <UsersView auth={auth} organizacionId={organizacion.id} sedes={sedesParaAlta} usuarioActual={usuario} regional={regional} />
+            )}
+
+            {view === 'orgs' && AuthLogic.puede(usuario, 'organizaciones.gestionar') && (
+              <OrganizacionesView
+                organizaciones={tenant.organizaciones}
+                actualId={organizacion.id}
+                regional={regional}
+                onGuardar={tenant.guardar}
+                onEntrar={tenant.cambiar}
+              />
+            )}
+
+            {view === 'reports' && AuthLogic.puede(usuario, 'reportes.ver') && (
+              <ReportesView
+                ledger={ledger}
+                socios={sociosVisibles}
+                sedes={sedes}
+                precios={precios}
+                auditoria={repos.auditoria}
+                ahora={ahora}
+                regional={regional}
+              />
+            )}
+
+            {view === 'sedes' && AuthLogic.puede(usuario, 'sedes.gestionar') && (
+              <SedesView sedes={sedes} socios={socios} regional={regional} onSave={handleGuardarSedes} />
+            )}
+
+            {view === 'pricing' && AuthLogic.puede(usuario, 'precios.editar') && (
+              <PricingView
+                config={precios}
+                sedes={sedes.map(s => s.codigo)}
+                planesEnUso={new Set(socios.map(s => s.membresia))}
+                regional={regional}
+                onSave={handleGuardarPrecios}
+              />
+            )}
           </AnimatePresence>
         </div>
       </main>
 
+      <AnimatePresence>
+        {credencialSocio && <CredencialModal socio={credencialSocio} nombrePlan={nombrePlan(credencialSocio.membresia)} organizacion={organizacion} regional={regional} onClose={() => setCredencialSocio(null)} />}
+        {importando && (
+          <ImportWizardModal
+            socios={socios}
+            sedes={sedes}
+            sedesPermitidas={sedesParaAlta}
+            precios={precios}
+            regional={regional}
+            onImportar={handleImportar}
+            onClose={() => setImportando(false)}
+          />
+        )}
+        {editandoSocio && (
+          <EditSocioModal
+            socio={editandoSocio}
+            socios={socios}
+            sedes={sedesParaAlta}
+            precios={precios}
+            regional={regional}
+            onSave={(actualizado) => {
+              const error = handleUpdate(actualizado);
+              if (!error) setEditandoSocio(null);
+              return error;
+            }}
+            onClose={() => setEditandoSocio(null)}
+          />
+        )}
+        {historialSocio && (
+          <HistorialModal socio={historialSocio} auditoria={repos.auditoria} regional={regional} onClose={() => setHistorialSocio(null)} />
+        )}
+        {membresiaSocio && (
+          <MembresiaModal
+            socio={membresiaSocio}
+            puedeCancelar={AuthLogic.puede(usuario, 'socios.eliminar')}
+            regional={regional}
+            onSave={handleMembresia}
+            onClose={() => setMembresiaSocio(null)}
+          />
+        )}
+        {viendoConflictos && sincronizacion && (
+          <ConflictosModal
+            conflictos={sincronizacion.conflictos}
+            regional={regional}
+            onResolver={handleResolverConflicto}
+            onClose={() => setViendoConflictos(false)}
+          />
+        )}
+      </AnimatePresence>
+
       <footer className="fixed bottom-0 right-0 p-8 text-zinc-700 pointer-events-none z-0 hidden lg:block">
         <div className="flex items-center gap-3">
           <Code2 className="w-4 h-4" />
@@ -572,4 +1151,29 @@ const App = () => {
   );
 };
 
-createRoot(document.getElementById('root')!).render(<App />);
\ No newline at end of file
+registrarServiceWorker();
+
+const organizaciones = crearOrganizacionRepository();
+const auth = crearAuthService();
+
+// /portal es el área de socios: otra entrada, sin la sesión del personal.
+// La App se vuelve a montar entera al cambiar de usuario o de gimnasio: no queda estado de otra organización.
+createRoot(document.getElementById('root')!).render(window.location.pathname.startsWith('/portal') ? (
+  <PortalGate />
+) : (
+  <AuthGate auth={auth}>
+    {(usuario, onLogout) => (
+      <TenantGate organizaciones={organizaciones} usuario={usuario} onLogout={onLogout}>
+        {tenant => (
+          <App
+            key={`${usuario.id}:${tenant.organizacion.id}`}
+            tenant={tenant}
+            auth={auth}
+            usuario={usuario}
+            onLogout={onLogout}
+          />
+        )}
+      </TenantGate>
+    )}
+  </AuthGate>
+));
\ No newline at end of file
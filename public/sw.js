@@ -0,0 +1,70 @@
+/**
+ * Service worker de la recepción: guarda la App para abrirla sin internet.
+ * - Al instalarse guarda todo el build (lo que lista asset-manifest.json),
+ *   así la App abre sin red aunque nunca se haya visitado cada pantalla.
+ * - Cada build tiene su caché (la versión llega en ?v= al registrarlo); al
+ *   activarse, el nuevo borra las de builds anteriores.
+ * - Navegación: primero la red (para tomar versiones nuevas), si no la copia.
+ * - Archivos estáticos (JS/CSS con hash, íconos): primero la copia.
+ * - /api nunca pasa por acá: de los datos se ocupa la cola de src/offline.
+ */
+const VERSION = new URL(self.location.href).searchParams.get('v') ?? 'dev';
+const CACHE = `fitnessplus-${VERSION}`;
+const APP = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Cada entrada del manifiesto de Vite trae su archivo, su CSS y los assets que importa.
+const archivosDelBuild = async () => {
+  const res = await fetch('/asset-manifest.json', { cache: 'no-store' });
+  if (!res.ok) return [];
+  const manifiesto = await res.json();
+  const archivos = Object.values(manifiesto).flatMap((e) => [e.file, ...(e.css ?? []), ...(e.assets ?? [])]);
+  return [...new Set(archivos)].map((a) => `/${a}`);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE), archivosDelBuild()])
+      .then(([cache, archivos]) => cache.addAll([...APP, ...archivos]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((claves) => Promise.all(claves.filter((c) => c.startsWith('fitnessplus-') && c !== CACHE).map((c) => caches.delete(c))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((res) => {
+          const copia = res.clone();
+          caches.open(CACHE).then((cache) => cache.put('/index.html', copia));
+          return res;
+        })
+        .catch(() => caches.match('/index.html', { cacheName: CACHE }))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE }).then((guardada) =>
+      guardada ??
+      fetch(request).then((res) => {
+        if (res.ok) {
+          const copia = res.clone();
+          caches.open(CACHE).then((cache) => cache.put(request, copia));
+        }
+        return res;
+      })
+    )
+  );
+});
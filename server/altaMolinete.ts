@@ -0,0 +1,58 @@
+import { parseArgs } from 'node:util';
+import { TokenStore } from './tokenStore';
+import { OrganizacionStore } from './organizacionStore';
+import { RegistroStore } from './registroStore';
+import { esIdOrganizacion, esObjeto, esTexto } from './esquemas';
+import { ORGANIZACION_PRINCIPAL_ID } from '../src/tenancy/organizacion';
+import { SEDES_POR_DEFECTO } from '../src/domain/sede';
+
+/**
+ * --- ALTA DE MOLINETES ---
+ * Cada controlador de molinete se identifica con su propio token, que se
+ * genera acá, en la máquina del servidor, y se copia una sola vez a la
+ * configuración del equipo. Con ese token solo puede validar credenciales y
+ * reportar pasos de SU organización, y siempre en la sede donde se dio de
+ * alta: un equipo no puede decir que está en otra. Si un equipo se pierde
+ * o se muda, --baja revoca sus tokens.
+ *
+ *   npm run alta-molinete -- --dispositivo cba-1 --sede CBA
+ *   npm run alta-molinete -- --dispositivo ros-1 --sede ROS --org mi-gimnasio
+ *   npm run alta-molinete -- --dispositivo ros-1 --org mi-gimnasio --baja
+ */
+const { values: opciones } = parseArgs({
+  options: {
+    org: { type: 'string', default: ORGANIZACION_PRINCIPAL_ID },
+    dispositivo: { type: 'string' },
+    sede: { type: 'string' },
+    baja: { type: 'boolean', default: false }
+  }
+});
+
+const archivo = process.env.FITNESS_DB ?? 'server/fitness.db';
+const { org, dispositivo, sede, baja } = opciones;
+
+if (!esIdOrganizacion(org) || !esTexto(dispositivo) || (!baja && !esTexto(sede))) {
+  console.error('Uso: npm run alta-molinete -- --dispositivo <id> --sede <código> [--org <organización>] [--baja]');
+  process.exit(1);
+}
+if (!new OrganizacionStore(archivo).buscar(org)) {
+  console.error(`No existe la organización "${org}".`);
+  process.exit(1);
+}
+
+// Las sedes que guardó la App; mientras nadie las cambie, las de fábrica.
+const guardadas = new RegistroStore(archivo).listar(org, 'configuracion').find(r => r.id === 'sedes')?.datos;
+const sedes = Array.isArray(guardadas) && guardadas.length > 0 ? guardadas : SEDES_POR_DEFECTO;
+if (!baja && !sedes.some(s => esObjeto(s) && s.codigo === sede)) {
+  console.error(`No existe la sede "${sede}" en ${org}.`);
+  process.exit(1);
+}
+
+const tokens = new TokenStore(archivo);
+tokens.revocarSujeto('dispositivo', org, dispositivo); // Un token vigente por equipo
+if (baja) {
+  console.log(`Molinete ${dispositivo} dado de baja en ${org}.`);
+} else {
+  console.log(`Token del molinete ${dispositivo} (${org}, sede ${sede}), guardalo en el equipo; no se vuelve a mostrar:`);
+  console.log(tokens.emitir({ tipo: 'dispositivo', organizacion: org, sujeto: dispositivo, sede }, null));
+}
@@ -0,0 +1,38 @@
+import Database from 'better-sqlite3';
+import type { Asistencia } from '../src/attendance/attendance';
+
+/**
+ * Bitácora de ingresos compartida. Como el padrón, cada fila es JSON y
+ * pertenece a una organización. Registrar dos veces el mismo id no hace
+ * nada: una recepción que vuelve de un corte puede reenviar su cola tranquila.
+ */
+export class AsistenciaStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS asistencias (
+        id           TEXT PRIMARY KEY,
+        organizacion TEXT NOT NULL,
+        fecha        TEXT NOT NULL,
+        datos        TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS asistencias_organizacion ON asistencias (organizacion, fecha);
+    `);
+  }
+
+  listar(organizacion: string): Asistencia[] {
+    const filas = this.db
+      .prepare('SELECT datos FROM asistencias WHERE organizacion = ? ORDER BY fecha DESC')
+      .all(organizacion) as { datos: string }[];
+    return filas.map(f => JSON.parse(f.datos));
+  }
+
+  registrar(organizacion: string, asistencia: Asistencia): void {
+    this.db
+      .prepare('INSERT OR IGNORE INTO asistencias (id, organizacion, fecha, datos) VALUES (?, ?, ?, ?)')
+      .run(asistencia.id, organizacion, asistencia.fecha, JSON.stringify(asistencia));
+  }
+}
@@ -0,0 +1,86 @@
+import type { Organizacion } from '../src/tenancy/organizacion';
+import type { Socio } from '../src/domain/socio';
+import type { Registro } from '../src/offline/sincronizacion';
+import type { PadronAcceso } from '../src/access/molinete';
+import type { Asistencia } from '../src/attendance/attendance';
+import { migrarRegistro, validarSocio, VERSION_ACTUAL } from '../src/persistence/schema';
+import { esEstadoMembresia } from '../src/membership/membresia';
+
+/**
+ * Lo que llega por la red no es confiable: antes de guardar algo se
+ * comprueba que tenga la forma esperada, campo por campo (lo mismo que hace
+ * el consultor con la respuesta del modelo).
+ */
+export const esObjeto = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const esTexto = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+export const esIdOrganizacion = (v: unknown): v is string => typeof v === 'string' && /^[a-z0-9-]+$/.test(v);
+
+export const esOrganizacion = (v: unknown): v is Organizacion =>
+  esObjeto(v)
+  && esIdOrganizacion(v.id)
+  && esTexto(v.nombre)
+  && (v.logoUrl === null || typeof v.logoUrl === 'string')
+  && typeof v.activa === 'boolean'
+  && typeof v.creada === 'string'
+  && (v.regional === undefined || (esObjeto(v.regional) && esTexto(v.regional.pais) && esTexto(v.regional.idioma) && esTexto(v.regional.moneda)));
+
+export const esRegistros = (v: unknown): v is Registro[] =>
+  Array.isArray(v) && v.every(r => esObjeto(r) && esTexto(r.id) && r.datos !== undefined && r.datos !== null);
+
+// Claves de avisos a reclamar ("<socio>|<clave>"): una revisión no junta más que unos cientos.
+export const esClavesAviso = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.length <= 2000 && v.every(c => typeof c === 'string' && c.includes('|') && c.length <= 200);
+
+const esHora = (v: unknown) => typeof v === 'string' && /^\d{2}:\d{2}$/.test(v);
+
+const esDia = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+const esSedeAcceso = (v: unknown) =>
+  esObjeto(v)
+  && esTexto(v.codigo)
+  && typeof v.activa === 'boolean'
+  && esObjeto(v.horario)
+  && esHora(v.horario.abre)
+  && esHora(v.horario.cierra)
+  && Array.isArray(v.horario.dias) && v.horario.dias.every(d => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6);
+
+const esSocioAcceso = (v: unknown) =>
+  esObjeto(v)
+  && esTexto(v.id)
+  && typeof v.nombre === 'string'
+  && esTexto(v.sede)
+  && esEstadoMembresia(v.estado)
+  && (v.vence === null || esDia(v.vence))
+  && Array.isArray(v.congelamientos) && v.congelamientos.every(c => esObjeto(c) && esDia(c.desde) && esDia(c.hasta))
+  && Array.isArray(v.vencimientosImpagos) && v.vencimientosImpagos.every(esDia);
+
+/** La foto que decide quién entra: un padrón mal formado no reemplaza al último bueno. */
+export const esPadron = (v: unknown): v is PadronAcceso =>
+  esObjeto(v)
+  && typeof v.generado === 'string'
+  && Array.isArray(v.sedes) && v.sedes.every(esSedeAcceso)
+  && Array.isArray(v.socios) && v.socios.every(esSocioAcceso);
+
+export const esAsistencia = (v: unknown): v is Asistencia =>
+  esObjeto(v)
+  && esTexto(v.id)
+  && esTexto(v.socioId)
+  && esTexto(v.sede)
+  && typeof v.fecha === 'string' && !Number.isNaN(Date.parse(v.fecha));
+
+/**
+ * Un socio escrito con el esquema 'version', llevado al actual: así se
+ * controla igual lo que manda una App vieja y lo que ya estaba guardado.
+ * null si no tiene forma de Socio.
+ */
+export const socioActual = (v: unknown, version: number): Socio | null => {
+  if (!Number.isInteger(version) || version < 1 || version > VERSION_ACTUAL) return null;
+  try {
+    const migrado = migrarRegistro(v, version);
+    return validarSocio(migrado) === null ? migrado as Socio : null;
+  } catch {
+    return null;
+  }
+};
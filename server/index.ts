@@ -0,0 +1,594 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { SocioStore } from './socioStore';
+import { AsistenciaStore } from './asistenciaStore';
+import { GatewayMolinetes, esPedidoValido } from './molinetes';
+import { aceptarWebSocket } from './webSocket';
+import { Token, TokenStore } from './tokenStore';
+import { RegistroStore } from './registroStore';
+import { UsuarioStore } from './usuarioStore';
+import { OrganizacionStore } from './organizacionStore';
+import { PortalSocios } from './portal';
+import { esAsistencia, esClavesAviso, esIdOrganizacion, esObjeto, esOrganizacion, esPadron, esRegistros, socioActual } from './esquemas';
+import { ReclamoStore } from './reclamoStore';
+import { ORGANIZACION_PRINCIPAL_ID } from '../src/tenancy/organizacion';
+import { FitnessBusinessLogic } from '../src/domain/socio';
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from '../src/pricing/pricing';
+import { AuthLogic, DURACION_SESION_MS, Permiso, Rol, Usuario } from '../src/auth/auth';
+import { PROTOCOLO_WS } from '../src/access/molinete';
+import { COLECCIONES, COLECCIONES_SOLO_AGREGAR, Coleccion, DocumentoConfiguracion } from '../src/offline/sincronizacion';
+import { DURACION_SESION_PORTAL_MS } from '../src/portal/portal';
+import { ProveedorMensajeria } from '../src/notifications/notificaciones';
+import { HttpMensajeriaProvider } from '../src/notifications/HttpMensajeriaProvider';
+import { DURACION_RECLAMO_AVISO_MS } from '../src/persistence/AvisoRepository';
+import { ErrorNegocio, MotivoError } from '../src/domain/errores';
+import { I18nLogic } from '../src/i18n/i18n';
+
+/**
+ * --- SERVIDOR LOCAL DE RECEPCIÓN ---
+ * Un proceso Node chiquito que expone el padrón por HTTP para que varias
+ * recepciones compartan los mismos datos. Sin frameworks: solo node:http.
+ *
+ * Sin token (para entrar):
+ *   GET    /api/instalacion -> { hayUsuarios }
+ *   POST   /api/instalacion -> crea el Super Admin (solo si no hay ningún usuario)
+ *   POST   /api/sesion      -> { usuario, password } -> { token, usuario, expira }
+ *
+ * Con "Authorization: Bearer <token>":
+ *   GET    /api/sesion      -> el usuario del token; DELETE la cierra
+ *   GET    /api/organizaciones      -> las visibles para el usuario
+ *   PUT    /api/organizaciones/:id  -> alta o edición (solo Super Admin)
+ *   GET    /api/usuarios      -> usuarios de la organización; POST alta; DELETE /:id baja
+ *   GET    /api/socios      -> { version, socio }[]
+ *   PUT    /api/socios/:id  -> inserta o reemplaza (header X-Schema-Version; 400 si no tiene forma de Socio)
+ *   DELETE /api/socios/:id  -> elimina
+ *   GET    /api/asistencias      -> Asistencia[] (más reciente primero)
+ *   PUT    /api/asistencias/:id  -> registra un ingreso (repetirlo no duplica; 400 sin socioId, sede o fecha)
+ *   GET    /api/registros/:coleccion -> { id, datos }[] (cobranzas, agenda, auditoría, configuración)
+ *   PUT    /api/registros/:coleccion -> guarda una tanda { id, datos }[]
+ *   POST   /api/avisos/reclamar -> { claves } -> { claves } (las que esta recepción manda; las otras ya las tiene otra)
+ *   POST   /api/avisos/liberar  -> { claves } -> 204 (avisos que fallaron: se reintentan)
+ *
+ * Gateway de molinetes (protocolo completo en el README). Los molinetes usan
+ * su propio token (npm run alta-molinete) y solo pueden validar y reportar pasos:
+ *   PUT    /api/molinetes/padron   -> la App publica la foto del padrón (PadronAcceso)
+ *   POST   /api/molinetes/validar  -> { credencial } (+ dispositivo y sede desde la recepción) -> Decision (503 sin padrón)
+ *   POST   /api/molinetes/pasos    -> { validacionId, paso } -> 204 (404 si venció o no existe)
+ *   GET    /api/molinetes/eventos  -> EventoPuerta[] (los últimos 200)
+ *   WS     /api/molinetes/ws       -> los mismos mensajes "validar"/"paso" y los eventos en vivo
+ *
+ * Portal de socios (el socio entra con su documento y un código de un solo uso):
+ *   GET    /api/portal/organizacion/:org -> nombre e idioma del gimnasio (404 si no existe o está suspendido)
+ *   POST   /api/portal/codigo   -> { organizacion, dni } -> { destino } (manda el código)
+ *   POST   /api/portal/sesion   -> { organizacion, dni, codigo } -> { token, socioId, expira }
+ * y con el token del socio, siempre solo lo suyo (DatosPortal):
+ *   DELETE /api/portal/sesion   -> cierra la sesión
+ *   GET    /api/portal/datos    -> su ficha, su cuenta, las clases de su sede, sus solicitudes
+ *   POST   /api/portal/reservas -> { claseId, fecha }; DELETE /api/portal/reservas/:id cancela
+ *   POST   /api/portal/solicitudes -> { planNuevo } (el importe lo cotiza el servidor)
+ * Los códigos salen por el gateway de MENSAJERIA_URL; sin él, se escriben
+ * en la consola del servidor (para probar).
+ *
+ * La organización de cada pedido sale del token: la del usuario. Solo el
+ * Super Admin puede trabajar en otra, pidiéndola con X-Organizacion (o ?org=
+ * en el WebSocket, que desde el navegador no admite headers); si otro
+ * usuario pide una organización que no es la suya, se rechaza con 403.
+ *
+ * Un recepcionista solo ve y escribe los socios de su sede, y lo que es de
+ * ellos (asistencias, cobranzas, reservas, auditoría, avisos, solicitudes).
+ * Tampoco puede ponerle a un socio otro importe que el que da el motor de
+ * precios, ni cambiar el de una factura emitida.
+ *
+ * Un cuerpo de más de 1 MB (16 MB el padrón de molinetes) se rechaza con 413.
+ *
+ * CORS: solo los orígenes de FITNESS_ORIGENES (separados por coma) pueden
+ * llamar desde otro sitio. La App en desarrollo pasa por el proxy de Vite y
+ * no lo necesita.
+ */
+const PORT = Number(process.env.PORT ?? 8787);
+const archivo = process.env.FITNESS_DB ?? 'server/fitness.db';
+const store = new SocioStore(archivo);
+const asistencias = new AsistenciaStore(archivo);
+const molinetes = new GatewayMolinetes(archivo, asistencias);
+const tokens = new TokenStore(archivo);
+const usuarios = new UsuarioStore(archivo);
+const organizaciones = new OrganizacionStore(archivo);
+const registros = new RegistroStore(archivo);
+const reclamos = new ReclamoStore(archivo);
+const mensajeria: ProveedorMensajeria = process.env.MENSAJERIA_URL
+  ? new HttpMensajeriaProvider(process.env.MENSAJERIA_URL)
+  : { nombre: 'Consola', enviar: async m => console.log(`[${m.canal} a ${m.destino}] ${m.cuerpo}`) };
+const portal = new PortalSocios(archivo, store, registros, mensajeria);
+const origenes = (process.env.FITNESS_ORIGENES ?? '').split(',').map(o => o.trim()).filter(Boolean);
+
+// Se lanza dentro de una ruta y el manejador la convierte en la respuesta.
+// Si viene de una regla de negocio, el código viaja junto al texto para que la App lo traduzca.
+class ErrorHttp extends Error {
+  constructor(readonly status: number, mensaje: string, readonly motivo?: MotivoError) {
+    super(mensaje);
+  }
+}
+
+const responder = (res: ServerResponse, status: number, cuerpo?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(cuerpo === undefined ? undefined : JSON.stringify(cuerpo));
+};
+
+// Los headers quedan cargados en res y writeHead los suma a los de la respuesta.
+const habilitarCors = (req: IncomingMessage, res: ServerResponse) => {
+  const origen = req.headers.origin;
+  res.setHeader('Vary', 'Origin');
+  if (!origen || !origenes.includes(origen)) return;
+  res.setHeader('Access-Control-Allow-Origin', origen);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Schema-Version, X-Organizacion');
+};
+
+const MAX_CUERPO = 1024 * 1024;       // Un socio o un ingreso ocupan pocos KB
+const MAX_CUERPO_PADRON = 16 * 1024 * 1024; // La foto del padrón crece con la cantidad de socios
+
+/** El cuerpo JSON del pedido. Si supera el límite se deja de juntar (413) y el resto se descarta. */
+const leerJson = (req: IncomingMessage, limite = MAX_CUERPO): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const demasiado = new ErrorHttp(413, 'El cuerpo del pedido es demasiado grande');
+    if (Number(req.headers['content-length'] ?? 0) > limite) {
+      req.resume();
+      return reject(demasiado);
+    }
+    const partes: Buffer[] = [];
+    let largo = 0;
+    req.on('data', (chunk: Buffer) => {
+      largo += chunk.length;
+      if (largo > limite) return reject(demasiado);
+      partes.push(chunk);
+    });
+    req.on('end', () => {
+      if (largo > limite) return;
+      try { resolve(JSON.parse(Buffer.concat(partes).toString('utf8'))); } catch (e) { reject(e); }
+    });
+    req.on('error', reject);
+  });
+
+// Las reglas de negocio lanzan errores para el usuario: viajan como 400, con el código y el texto en castellano.
+const regla = async <T>(accion: () => T | Promise<T>): Promise<T> => {
+  try {
+    return await accion();
+  } catch (e) {
+    if (e instanceof ErrorNegocio) {
+      const motivo = { codigo: e.codigo, variables: e.variables };
+      throw new ErrorHttp(400, I18nLogic.motivo(I18nLogic.traductor('es'), motivo), motivo);
+    }
+    throw new ErrorHttp(400, (e as Error).message);
+  }
+};
+
+/** "Authorization: Bearer <token>", o el token ofrecido como subprotocolo del WebSocket. */
+const tokenDe = (req: IncomingMessage): string | null => {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  if (bearer) return bearer[1];
+  const protocolos = String(req.headers['sec-websocket-protocol'] ?? '').split(',').map(p => p.trim());
+  return protocolos[0] === PROTOCOLO_WS && protocolos[1] ? protocolos[1] : null;
+};
+
+const usuarioDe = (token: string | null): Usuario | null => {
+  const datos = token ? tokens.resolver(token) : null;
+  const credencial = datos?.tipo === 'usuario' ? usuarios.buscar(datos.sujeto) : null;
+  return credencial ? AuthLogic.publico(credencial) : null;
+};
+
+/** El token de un molinete, si su organización sigue activa. Uno sin sede es de antes: hay que volver a darlo de alta. */
+const molineteDe = (token: string | null): Token | null => {
+  const datos = token ? tokens.resolver(token) : null;
+  return datos?.tipo === 'dispositivo' && datos.sede !== null && organizaciones.buscar(datos.organizacion)?.activa ? datos : null;
+};
+
+/** En qué organización trabaja el pedido. Nunca la elige el cliente, salvo el Super Admin. */
+const organizacionDe = (usuario: Usuario, pedida: string | null): string => {
+  const superAdmin = AuthLogic.puede(usuario, 'organizaciones.gestionar');
+  const id = pedida || usuario.organizacionId;
+  if (id !== usuario.organizacionId && !superAdmin) throw new ErrorHttp(403, 'No tenés acceso a esa organización');
+  const organizacion = organizaciones.buscar(id);
+  if (!organizacion) throw new ErrorHttp(404, 'Organización inexistente');
+  if (!organizacion.activa && !superAdmin) throw new ErrorHttp(403, 'La organización está suspendida');
+  return id;
+};
+
+/** El token de un socio del portal, si su organización sigue activa. */
+const socioDe = (token: string | null): Token | null => {
+  const datos = token ? tokens.resolver(token) : null;
+  return datos?.tipo === 'socio' && organizaciones.buscar(datos.organizacion)?.activa ? datos : null;
+};
+
+/** Una organización que puede atender socios: existe y no está suspendida. */
+const organizacionPortal = (id: unknown) => {
+  const organizacion = esIdOrganizacion(id) ? organizaciones.buscar(id) : null;
+  if (!organizacion?.activa) throw new ErrorHttp(404, 'Organización inexistente');
+  return organizacion;
+};
+
+const esDni = (v: unknown): v is number => Number.isSafeInteger(v) && (v as number) > 0;
+
+const exigir = (usuario: Usuario, permiso: Permiso) => {
+  if (!AuthLogic.puede(usuario, permiso)) throw new ErrorHttp(403, 'Tu usuario no tiene permiso para esto');
+};
+
+const ROLES_ALTA: Rol[] = ['admin', 'recepcionista'];
+
+// Cada documento de configuración lo cambia solo quien puede hacerlo desde la App.
+const PERMISO_CONFIGURACION: Record<DocumentoConfiguracion, Permiso> = {
+  precios: 'precios.editar',
+  sedes: 'sedes.gestionar',
+  clases: 'clases.gestionar',
+  personal: 'personal.gestionar',
+  notificaciones: 'notificaciones.gestionar'
+};
+
+/** La sede de cada socio de la organización (los registros ilegibles no tienen). */
+const sedesDeSocios = (organizacion: string): Map<string, string> => {
+  const sedes = new Map<string, string>();
+  for (const { socio } of store.listar(organizacion)) {
+    if (esObjeto(socio) && typeof socio.id === 'string' && typeof socio.sede === 'string') sedes.set(socio.id, socio.sede);
+  }
+  return sedes;
+};
+
+// Fuera de la configuración, cada registro es de un socio: su ciclo, sus facturas, sus reservas...
+const esDeSuSede = (usuario: Usuario, sedes: Map<string, string>, datos: unknown): boolean => {
+  const sede = esObjeto(datos) && typeof datos.socioId === 'string' ? sedes.get(datos.socioId) : undefined;
+  return sede !== undefined && AuthLogic.veSede(usuario, sede);
+};
+
+const preciosDe = (organizacion: string): ConfigPrecios =>
+  (registros.listar(organizacion, 'configuracion').find(r => r.id === 'precios')?.datos as ConfigPrecios | undefined) ?? PRECIOS_POR_DEFECTO;
+
+/** Lo que manda un molinete, con el dispositivo y la sede de su token en lugar de los que diga. */
+const pedidoDe = (mensaje: unknown, molinete: Token | null): unknown =>
+  molinete && esObjeto(mensaje) ? { ...mensaje, dispositivo: molinete.sujeto, sede: molinete.sede } : mensaje;
+
+// El display del molinete muestra los mensajes en el idioma del gimnasio.
+const traductorDe = (organizacion: string) => I18nLogic.traductor(organizaciones.buscar(organizacion)?.regional?.idioma ?? 'es');
+
+/**
+ * Validar una credencial y reportar el paso: lo que pide un molinete, con su
+ * token o con la sesión de la recepción. Un molinete no puede hacerse pasar
+ * por otro ni por uno de otra sede: el dispositivo y la sede son los de su token.
+ */
+const atenderMolinete = async (req: IncomingMessage, res: ServerResponse, organizacion: string, accion: string, molinete: Token | null) => {
+  if (req.method === 'POST' && accion === 'validar') {
+    const pedido = pedidoDe(await leerJson(req), molinete);
+    if (!esPedidoValido(pedido)) return responder(res, 400, { error: 'Faltan dispositivo, sede o credencial' });
+    const decision = molinetes.validar(organizacion, pedido, traductorDe(organizacion));
+    return decision ? responder(res, 200, decision) : responder(res, 503, { error: 'El gateway todavía no recibió el padrón' });
+  }
+  if (req.method === 'POST' && accion === 'pasos') {
+    const { validacionId, paso } = await leerJson(req);
+    const evento = molinetes.reportarPaso(organizacion, String(validacionId), paso !== false);
+    return evento ? responder(res, 204) : responder(res, 404, { error: 'Validación vencida o inexistente' });
+  }
+  return molinete
+    ? responder(res, 403, { error: 'Un molinete solo valida credenciales y reporta pasos' })
+    : responder(res, 404, { error: 'Ruta inexistente' });
+};
+
+/**
+ * El portal de socios. Pedir el código y entrar no llevan token; lo demás
+ * lleva el del socio, y de ese token salen la organización y el socio: no
+ * hay forma de pedir los datos de otro.
+ */
+const atenderPortal = async (req: IncomingMessage, res: ServerResponse, accion: string, id: string | undefined) => {
+  if (req.method === 'GET' && accion === 'organizacion' && id) {
+    return responder(res, 200, organizacionPortal(decodeURIComponent(id)));
+  }
+  if (req.method === 'POST' && accion === 'codigo') {
+    const { organizacion, dni } = await leerJson(req) ?? {};
+    const gimnasio = organizacionPortal(organizacion);
+    if (!esDni(dni)) return responder(res, 400, { error: 'Documento inválido' });
+    return responder(res, 200, { destino: await regla(() => portal.solicitarCodigo(gimnasio.id, gimnasio.nombre, dni)) });
+  }
+  if (req.method === 'POST' && accion === 'sesion') {
+    const { organizacion, dni, codigo } = await leerJson(req) ?? {};
+    const gimnasio = organizacionPortal(organizacion);
+    if (!esDni(dni) || typeof codigo !== 'string') return responder(res, 400, { error: 'Faltan el documento o el código' });
+    const socioId = await regla(() => portal.verificar(gimnasio.id, dni, codigo));
+    const token = tokens.emitir({ tipo: 'socio', organizacion: gimnasio.id, sujeto: socioId }, DURACION_SESION_PORTAL_MS);
+    return responder(res, 200, { token, socioId, expira: new Date(Date.now() + DURACION_SESION_PORTAL_MS).toISOString() });
+  }
+
+  const token = tokenDe(req);
+  const sesion = socioDe(token);
+  const socio = sesion ? portal.socio(sesion.organizacion, sesion.sujeto) : null;
+  if (!sesion || !socio) {
+    // Un socio dado de baja pierde la sesión que tenía abierta.
+    if (sesion) tokens.revocarSujeto('socio', sesion.organizacion, sesion.sujeto);
+    return responder(res, 401, { error: 'Sesión inválida o vencida' });
+  }
+  const organizacion = sesion.organizacion;
+
+  if (req.method === 'DELETE' && accion === 'sesion') {
+    tokens.revocar(token!);
+    return responder(res, 204);
+  }
+  if (req.method === 'GET' && accion === 'datos') return responder(res, 200, portal.datos(organizacion, socio));
+  if (req.method === 'POST' && accion === 'reservas' && !id) {
+    const { claseId, fecha } = await leerJson(req) ?? {};
+    if (typeof claseId !== 'string' || typeof fecha !== 'string') return responder(res, 400, { error: 'Faltan la clase o la fecha' });
+    return responder(res, 200, await regla(() => portal.reservar(organizacion, socio, claseId, fecha)));
+  }
+  if (req.method === 'DELETE' && accion === 'reservas' && id) {
+    return responder(res, 200, await regla(() => portal.cancelarReserva(organizacion, socio, decodeURIComponent(id))));
+  }
+  if (req.method === 'POST' && accion === 'solicitudes') {
+    const { planNuevo } = await leerJson(req) ?? {};
+    if (typeof planNuevo !== 'string') return responder(res, 400, { error: 'Falta el plan' });
+    return responder(res, 200, await regla(() => portal.solicitarPlan(organizacion, socio, planNuevo)));
+  }
+  return responder(res, 404, { error: 'Ruta inexistente' });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const [, api, recurso, id, subId] = url.pathname.split('/');
+  const recursos = ['instalacion', 'sesion', 'organizaciones', 'usuarios', 'socios', 'asistencias', 'registros', 'avisos', 'molinetes', 'portal'];
+
+  habilitarCors(req, res);
+  if (req.method === 'OPTIONS') return responder(res, 204);
+  if (api !== 'api' || !recursos.includes(recurso)) return responder(res, 404, { error: 'Ruta inexistente' });
+
+  try {
+    if (recurso === 'portal') return await atenderPortal(req, res, id, subId);
+
+    if (recurso === 'instalacion') {
+      if (req.method === 'GET') return responder(res, 200, { hayUsuarios: usuarios.hayUsuarios() });
+      if (req.method === 'POST') {
+        // El primer usuario es el dueño de la instalación; después nadie más puede crearse así.
+        if (usuarios.hayUsuarios()) return responder(res, 409, { error: 'La instalación ya tiene usuarios' });
+        const cuerpo = await leerJson(req);
+        const credencial = await regla(() => AuthLogic.nuevaCredencial({
+          usuario: String(cuerpo?.usuario ?? ''),
+          nombre: String(cuerpo?.nombre ?? ''),
+          password: String(cuerpo?.password ?? ''),
+          rol: 'superadmin',
+          sede: null,
+          organizacionId: ORGANIZACION_PRINCIPAL_ID
+        }, []));
+        usuarios.agregar(credencial);
+        return responder(res, 201, AuthLogic.publico(credencial));
+      }
+      return responder(res, 405, { error: 'Método no permitido' });
+    }
+
+    if (recurso === 'sesion' && req.method === 'POST') {
+      const { usuario, password } = await leerJson(req) ?? {};
+      const credencial = typeof usuario === 'string' ? usuarios.porNombre(usuario) : null;
+      // Mismo mensaje en ambos casos para no revelar qué usuarios existen.
+      if (!credencial || typeof password !== 'string' || !(await AuthLogic.passwordCorrecta(credencial, password))) {
+        return responder(res, 401, { error: 'Usuario o contraseña incorrectos.', codigo: 'credenciales_incorrectas' });
+      }
+      const token = tokens.emitir({ tipo: 'usuario', organizacion: credencial.organizacionId, sujeto: credencial.id }, DURACION_SESION_MS);
+      const expira = new Date(Date.now() + DURACION_SESION_MS).toISOString();
+      return responder(res, 200, { token, usuario: AuthLogic.publico(credencial), expira });
+    }
+
+    // De acá en adelante, todo pedido necesita un token válido: el de un molinete o una sesión.
+    const token = tokenDe(req);
+    const molinete = molineteDe(token);
+    if (molinete) {
+      if (recurso !== 'molinetes') return responder(res, 403, { error: 'Un molinete solo valida credenciales y reporta pasos' });
+      return await atenderMolinete(req, res, molinete.organizacion, id, molinete);
+    }
+    const usuario = usuarioDe(token);
+    if (!usuario) return responder(res, 401, { error: 'Sesión inválida o vencida' });
+
+    if (recurso === 'sesion') {
+      if (req.method === 'GET') return responder(res, 200, usuario);
+      if (req.method === 'DELETE') {
+        tokens.revocar(token!);
+        return responder(res, 204);
+      }
+      return responder(res, 405, { error: 'Método no permitido' });
+    }
+
+    const pedida = req.headers['x-organizacion'];
+    if (pedida !== undefined && !esIdOrganizacion(pedida)) return responder(res, 400, { error: 'Organización inválida' });
+    const organizacion = organizacionDe(usuario, pedida ?? null);
+
+    if (recurso === 'organizaciones') {
+      if (req.method === 'GET' && !id) {
+        return responder(res, 200, AuthLogic.puede(usuario, 'organizaciones.gestionar')
+          ? organizaciones.listar()
+          : organizaciones.listar().filter(o => o.id === usuario.organizacionId));
+      }
+      if (req.method === 'PUT' && id) {
+        exigir(usuario, 'organizaciones.gestionar');
+        const datos = await leerJson(req);
+        if (!esOrganizacion(datos) || datos.id !== decodeURIComponent(id)) return responder(res, 400, { error: 'Organización inválida' });
+        organizaciones.guardar(datos);
+        return responder(res, 204);
+      }
+      return responder(res, 405, { error: 'Método no permitido' });
+    }
+
+    if (recurso === 'usuarios') {
+      exigir(usuario, 'usuarios.gestionar');
+      if (req.method === 'GET' && !id) {
+        return responder(res, 200, usuarios.todos().filter(u => u.organizacionId === organizacion).map(AuthLogic.publico));
+      }
+      if (req.method === 'POST' && !id) {
+        const cuerpo = await leerJson(req);
+        if (!esObjeto(cuerpo) || !ROLES_ALTA.includes(cuerpo.rol as Rol)) return responder(res, 400, { error: 'Rol inválido' });
+        const credencial = await regla(() => AuthLogic.nuevaCredencial({
+          usuario: String(cuerpo.usuario ?? ''),
+          nombre: String(cuerpo.nombre ?? ''),
+          password: String(cuerpo.password ?? ''),
+          rol: cuerpo.rol as Rol,
+          sede: typeof cuerpo.sede === 'string' && cuerpo.sede ? cuerpo.sede : null,
+          organizacionId: organizacion
+        }, usuarios.todos()));
+        usuarios.agregar(credencial);
+        return responder(res, 201, AuthLogic.publico(credencial));
+      }
+      if (req.method === 'DELETE' && id) {
+        const baja = await regla(() => AuthLogic.validarBaja(decodeURIComponent(id), organizacion, usuarios.todos()));
+        usuarios.eliminar(baja.id);
+        tokens.revocarSujeto('usuario', baja.organizacionId, baja.id);
+        return responder(res, 204);
+      }
+      return responder(res, 405, { error: 'Método no permitido' });
+    }
+
+    if (recurso === 'molinetes') {
+      const accion = id;
+      if (req.method === 'PUT' && accion === 'padron') {
+        const padron = await leerJson(req, MAX_CUERPO_PADRON);
+        if (!esPadron(padron)) return responder(res, 400, { error: 'Padrón inválido' });
+        molinetes.publicarPadron(organizacion, padron);
+        return responder(res, 204);
+      }
+      if (req.method === 'GET' && accion === 'eventos') return responder(res, 200, molinetes.ultimosEventos(organizacion));
+      return await atenderMolinete(req, res, organizacion, accion, null);
+    }
+
+    if (recurso === 'registros') {
+      const coleccion = id as Coleccion;
+      if (!COLECCIONES.includes(coleccion)) return responder(res, 404, { error: 'Colección inexistente' });
+      const restringido = coleccion !== 'configuracion' && AuthLogic.sedeFija(usuario) !== null;
+      if (req.method === 'GET') {
+        const todos = registros.listar(organizacion, coleccion);
+        if (!restringido) return responder(res, 200, todos);
+        const sedes = sedesDeSocios(organizacion);
+        return responder(res, 200, todos.filter(r => esDeSuSede(usuario, sedes, r.datos)));
+      }
+      if (req.method === 'PUT') {
+        const tanda = await leerJson(req);
+        if (!esRegistros(tanda)) return responder(res, 400, { error: 'Se esperaba una lista de { id, datos }' });
+        if (coleccion === 'configuracion') {
+          for (const r of tanda) {
+            if (!Object.hasOwn(PERMISO_CONFIGURACION, r.id)) return responder(res, 400, { error: `Documento de configuración desconocido: ${r.id}` });
+            exigir(usuario, PERMISO_CONFIGURACION[r.id as DocumentoConfiguracion]);
+          }
+        }
+        if (restringido) {
+          const sedes = sedesDeSocios(organizacion);
+          if (!tanda.every(r => esDeSuSede(usuario, sedes, r.datos))) return responder(res, 403, { error: 'Hay registros de socios de otra sede' });
+        }
+        if (coleccion === 'facturas' && !AuthLogic.puede(usuario, 'precios.editar')) {
+          // La App solo le suma el recargo a una factura emitida; el importe lo corrige un administrador.
+          const emitidas = new Map(registros.listar(organizacion, 'facturas').map(r => [r.id, r.datos]));
+          const cambiada = tanda.find(r => {
+            const anterior = emitidas.get(r.id);
+            return esObjeto(anterior) && (!esObjeto(r.datos) || r.datos.importe !== anterior.importe);
+          });
+          if (cambiada) return responder(res, 403, { error: 'Solo un administrador puede cambiar el importe de una factura' });
+        }
+        registros.guardar(organizacion, coleccion, tanda, COLECCIONES_SOLO_AGREGAR.includes(coleccion));
+        return responder(res, 204);
+      }
+      return responder(res, 405, { error: 'Método no permitido' });
+    }
+
+    // Cada aviso lo manda una sola recepción: la primera que reclama su clave.
+    if (recurso === 'avisos' && req.method === 'POST' && (id === 'reclamar' || id === 'liberar')) {
+      const { claves } = await leerJson(req) ?? {};
+      if (!esClavesAviso(claves)) return responder(res, 400, { error: 'Se esperaba { claves } con "<socio>|<clave>"' });
+      if (AuthLogic.sedeFija(usuario) !== null) {
+        const sedes = sedesDeSocios(organizacion);
+        if (!claves.every(c => esDeSuSede(usuario, sedes, { socioId: c.split('|')[0] }))) {
+          return responder(res, 403, { error: 'Hay avisos de socios de otra sede' });
+        }
+      }
+      if (id === 'liberar') {
+        reclamos.liberar(organizacion, claves);
+        return responder(res, 204);
+      }
+      return responder(res, 200, { claves: reclamos.reclamar(organizacion, claves, DURACION_RECLAMO_AVISO_MS) });
+    }
+
+    if (recurso === 'asistencias') {
+      if (req.method === 'GET' && !id) return responder(res, 200, AuthLogic.filtrarPorSede(usuario, asistencias.listar(organizacion)));
+      if (req.method === 'PUT' && id) {
+        const asistencia = await leerJson(req);
+        if (!esAsistencia(asistencia)) return responder(res, 400, { error: 'Faltan socioId, sede o fecha' });
+        if (asistencia.id !== decodeURIComponent(id)) return responder(res, 400, { error: 'El id no coincide' });
+        if (!AuthLogic.veSede(usuario, asistencia.sede)) return responder(res, 403, { error: 'Esa sede no es la tuya' });
+        asistencias.registrar(organizacion, { id: asistencia.id, socioId: asistencia.socioId, sede: asistencia.sede, fecha: asistencia.fecha });
+        return responder(res, 204);
+      }
+      return responder(res, 405, { error: 'Método no permitido' });
+    }
+
+    if (req.method === 'GET' && !id) {
+      const filas = store.listar(organizacion);
+      if (AuthLogic.sedeFija(usuario) === null) return responder(res, 200, filas);
+      // Un registro ilegible no dice de qué sede es: lo ve (y lo manda a cuarentena) solo quien ve todas.
+      return responder(res, 200, filas.filter(f => esObjeto(f.socio) && typeof f.socio.sede === 'string' && AuthLogic.veSede(usuario, f.socio.sede)));
+    }
+
+    if (req.method === 'PUT' && id) {
+      const cuerpo = await leerJson(req);
+      const version = Number(req.headers['x-schema-version'] ?? 3);
+      if (!Number.isInteger(version)) return responder(res, 400, { error: 'Versión de esquema inválida' });
+      const socio = socioActual(cuerpo, version);
+      if (!socio) return responder(res, 400, { error: 'Socio inválido' });
+      if (socio.id !== decodeURIComponent(id)) return responder(res, 400, { error: 'El id no coincide' });
+      const fila = store.buscar(organizacion, socio.id);
+      const anterior = fila ? socioActual(fila.socio, fila.version) : null;
+      // Ni dar de alta en otra sede, ni pasar a la propia un socio ajeno (un registro ilegible no dice de qué sede es).
+      if (!AuthLogic.veSede(usuario, socio.sede) || (fila && !AuthLogic.veSede(usuario, anterior?.sede ?? ''))) {
+        return responder(res, 403, { error: 'Ese socio es de otra sede' });
+      }
+      if (!AuthLogic.puede(usuario, 'precios.editar') && !FitnessBusinessLogic.importeCorrecto(preciosDe(organizacion), socio, anterior)) {
+        return responder(res, 403, { error: 'Solo un administrador puede cambiar el importe' });
+      }
+      if (!store.guardar(organizacion, cuerpo, version)) return responder(res, 409, { error: 'El id pertenece a otra organización' });
+      return responder(res, 204);
+    }
+
+    if (req.method === 'DELETE' && id) {
+      exigir(usuario, 'socios.eliminar');
+      store.eliminar(organizacion, decodeURIComponent(id));
+      return responder(res, 204);
+    }
+
+    responder(res, 405, { error: 'Método no permitido' });
+  } catch (e) {
+    if (e instanceof ErrorHttp) return responder(res, e.status, { error: e.message, ...e.motivo });
+    console.error(e);
+    responder(res, 400, { error: 'Solicitud inválida' });
+  }
+});
+
+// Un molinete (o el panel del Dashboard) conectado por WebSocket recibe cada evento de su organización.
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const token = tokenDe(req);
+  const molinete = molineteDe(token);
+  const usuario = molinete ? null : usuarioDe(token);
+  const pedida = url.searchParams.get('org');
+  if (url.pathname !== '/api/molinetes/ws' || (!molinete && !usuario) || (pedida !== null && !esIdOrganizacion(pedida))) return void socket.destroy();
+  let organizacion: string;
+  try {
+    organizacion = molinete ? molinete.organizacion : organizacionDe(usuario!, pedida);
+  } catch {
+    return void socket.destroy();
+  }
+  if (pedida !== null && pedida !== organizacion) return void socket.destroy();
+
+  const conexion = aceptarWebSocket(req, socket, PROTOCOLO_WS);
+  if (!conexion) return;
+  conexion.alCerrar(molinetes.suscribir(organizacion, evento => conexion.enviar({ tipo: 'evento', evento })));
+  conexion.alRecibir(mensaje => {
+    if (!esObjeto(mensaje)) return conexion.enviar({ tipo: 'error', error: 'Mensaje inválido' });
+    const ref = mensaje.ref; // El molinete lo elige para emparejar la respuesta con su pedido
+    if (mensaje.tipo === 'validar') {
+      const pedido = pedidoDe(mensaje, molinete);
+      if (!esPedidoValido(pedido)) return conexion.enviar({ tipo: 'error', ref, error: 'Faltan dispositivo, sede o credencial' });
+      const decision = molinetes.validar(organizacion, pedido, traductorDe(organizacion));
+      conexion.enviar(decision
+        ? { tipo: 'decision', ref, ...decision }
+        : { tipo: 'error', ref, error: 'El gateway todavía no recibió el padrón' });
+    } else if (mensaje.tipo === 'paso') {
+      molinetes.reportarPaso(organizacion, String(mensaje.validacionId), mensaje.paso !== false);
+    }
+  });
+});
+
+server.listen(PORT, () => console.log(`FitnessPlus API escuchando en http://localhost:${PORT}`));
@@ -0,0 +1,126 @@
+import Database from 'better-sqlite3';
+import type { Decision, EventoPuerta, PadronAcceso, PedidoValidacion } from '../src/access/molinete';
+import { MolineteLogic } from '../src/access/molinete';
+import type { Traductor } from '../src/i18n/i18n';
+import { AsistenciaStore } from './asistenciaStore';
+import { esObjeto, esPadron, esTexto } from './esquemas';
+
+interface Validacion {
+  organizacion: string;
+  pedido: PedidoValidacion;
+  decision: Decision;
+  vence: number;
+}
+
+const VIGENCIA_VALIDACION_MS = 30 * 1000; // Tiempo para reportar si la persona pasó
+const MAX_EVENTOS = 200;
+
+export const esPedidoValido = (pedido: unknown): pedido is PedidoValidacion =>
+  esObjeto(pedido) && esTexto(pedido.dispositivo) && esTexto(pedido.sede) && esTexto(pedido.credencial);
+
+/**
+ * Gateway de molinetes: decide con la última foto del padrón que publicó la
+ * App (guardada en SQLite para sobrevivir a un reinicio), registra el
+ * ingreso recién cuando el molinete avisa que la persona PASÓ y reparte cada
+ * evento a quien esté mirando (el panel "Puertas" del Dashboard).
+ */
+export class GatewayMolinetes {
+  private readonly db: Database.Database;
+  private readonly validaciones = new Map<string, Validacion>();
+  private readonly eventos = new Map<string, EventoPuerta[]>();
+  private readonly oyentes = new Map<string, Set<(evento: EventoPuerta) => void>>();
+
+  constructor(archivo: string, private readonly asistencias: AsistenciaStore) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS padrones_acceso (
+        organizacion TEXT PRIMARY KEY,
+        datos        TEXT NOT NULL
+      )
+    `);
+  }
+
+  publicarPadron(organizacion: string, padron: PadronAcceso): void {
+    this.db
+      .prepare('INSERT INTO padrones_acceso (organizacion, datos) VALUES (?, ?) ON CONFLICT(organizacion) DO UPDATE SET datos = excluded.datos')
+      .run(organizacion, JSON.stringify(padron));
+  }
+
+  /** null si todavía ninguna recepción publicó el padrón: sin datos no se abre. */
+  validar(organizacion: string, pedido: PedidoValidacion, t: Traductor, ahora = new Date()): Decision | null {
+    const padron = this.padron(organizacion);
+    if (!padron) return null;
+    this.depurar(ahora.getTime());
+
+    const decision = MolineteLogic.decidir(padron, pedido, t, ahora);
+    if (decision.permitido) {
+      this.validaciones.set(decision.validacionId, { organizacion, pedido, decision, vence: ahora.getTime() + VIGENCIA_VALIDACION_MS });
+    }
+    this.emitir(organizacion, {
+      id: decision.validacionId,
+      fecha: ahora.toISOString(),
+      tipo: decision.permitido ? 'permitido' : 'denegado',
+      dispositivo: pedido.dispositivo,
+      sede: pedido.sede,
+      socioId: decision.socioId,
+      nombre: decision.nombre,
+      motivo: decision.motivo ?? undefined
+    });
+    return decision;
+  }
+
+  /**
+   * El molinete confirma si la persona pasó. Solo entonces hay asistencia;
+   * con el id de la validación, así un reenvío no la duplica.
+   */
+  reportarPaso(organizacion: string, validacionId: string, paso: boolean, ahora = new Date()): EventoPuerta | null {
+    const validacion = this.validaciones.get(validacionId);
+    if (!validacion || validacion.organizacion !== organizacion) return null;
+    this.validaciones.delete(validacionId);
+
+    const { pedido, decision } = validacion;
+    if (paso && decision.socioId) {
+      this.asistencias.registrar(organizacion, { id: validacionId, socioId: decision.socioId, sede: pedido.sede, fecha: ahora.toISOString() });
+    }
+    const evento: EventoPuerta = {
+      id: crypto.randomUUID(),
+      fecha: ahora.toISOString(),
+      tipo: paso ? 'paso' : 'sin_paso',
+      dispositivo: pedido.dispositivo,
+      sede: pedido.sede,
+      socioId: decision.socioId,
+      nombre: decision.nombre
+    };
+    this.emitir(organizacion, evento);
+    return evento;
+  }
+
+  /** Los últimos eventos de la organización, el más reciente primero. */
+  ultimosEventos(organizacion: string): EventoPuerta[] {
+    return this.eventos.get(organizacion) ?? [];
+  }
+
+  suscribir(organizacion: string, oyente: (evento: EventoPuerta) => void): () => void {
+    const oyentes = this.oyentes.get(organizacion) ?? new Set();
+    oyentes.add(oyente);
+    this.oyentes.set(organizacion, oyentes);
+    return () => { oyentes.delete(oyente); };
+  }
+
+  // Un padrón guardado por una versión anterior no tiene las fechas: cuenta como ninguno hasta que la App publique otro.
+  private padron(organizacion: string): PadronAcceso | null {
+    const fila = this.db.prepare('SELECT datos FROM padrones_acceso WHERE organizacion = ?').get(organizacion) as { datos: string } | undefined;
+    const padron: unknown = fila ? JSON.parse(fila.datos) : null;
+    return esPadron(padron) ? padron : null;
+  }
+
+  private emitir(organizacion: string, evento: EventoPuerta): void {
+    this.eventos.set(organizacion, [evento, ...this.ultimosEventos(organizacion)].slice(0, MAX_EVENTOS));
+    this.oyentes.get(organizacion)?.forEach(o => o(evento));
+  }
+
+  private depurar(ahora: number): void {
+    for (const [id, v] of this.validaciones) if (v.vence < ahora) this.validaciones.delete(id);
+  }
+}
@@ -0,0 +1,35 @@
+import Database from 'better-sqlite3';
+import { ORGANIZACION_PRINCIPAL, Organizacion } from '../src/tenancy/organizacion';
+
+/** Catálogo de organizaciones: el único dato del servidor que no pertenece a ningún gimnasio. */
+export class OrganizacionStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS organizaciones (
+        id    TEXT PRIMARY KEY,
+        datos TEXT NOT NULL
+      )
+    `);
+  }
+
+  // La principal existe siempre, aunque nunca se haya guardado el catálogo.
+  listar(): Organizacion[] {
+    const filas = this.db.prepare('SELECT datos FROM organizaciones ORDER BY rowid').all() as { datos: string }[];
+    const guardadas: Organizacion[] = filas.map(f => JSON.parse(f.datos));
+    return guardadas.some(o => o.id === ORGANIZACION_PRINCIPAL.id) ? guardadas : [ORGANIZACION_PRINCIPAL, ...guardadas];
+  }
+
+  buscar(id: string): Organizacion | null {
+    return this.listar().find(o => o.id === id) ?? null;
+  }
+
+  guardar(organizacion: Organizacion): void {
+    this.db
+      .prepare('INSERT INTO organizaciones (id, datos) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET datos = excluded.datos')
+      .run(organizacion.id, JSON.stringify(organizacion));
+  }
+}
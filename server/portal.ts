@@ -0,0 +1,151 @@
+import Database from 'better-sqlite3';
+import type { Socio } from '../src/domain/socio';
+import type { CicloFacturacion, Factura, Pago } from '../src/billing/billing';
+import type { Clase, Reserva } from '../src/classes/clases';
+import type { ProveedorMensajeria } from '../src/notifications/notificaciones';
+import type { Coleccion } from '../src/offline/sincronizacion';
+import { AuthLogic } from '../src/auth/auth';
+import { ErrorNegocio } from '../src/domain/errores';
+import { cargarSocios } from '../src/persistence/schema';
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from '../src/pricing/pricing';
+import {
+  DatosPortal, ESPERA_REENVIO_MS, FuentesPortal, MAX_INTENTOS_CODIGO, PortalLogic, SolicitudPlan, VIGENCIA_CODIGO_MS
+} from '../src/portal/portal';
+import { SocioStore } from './socioStore';
+import { RegistroStore } from './registroStore';
+
+interface CodigoPendiente {
+  salt: string;
+  hash: string;
+  expira: number;
+  intentos: number;
+  enviado: number;
+}
+
+/**
+ * Portal de socios del lado del servidor: el código de ingreso se genera,
+ * se guarda (solo su hash) y se verifica acá, y cada pedido del portal
+ * devuelve solo lo del socio de la sesión. Las reglas son las mismas de
+ * PortalLogic que usa el modo local; los errores traen un mensaje para el
+ * socio y viajan como 400.
+ */
+export class PortalSocios {
+  private readonly db: Database.Database;
+
+  constructor(
+    archivo: string,
+    private readonly socios: SocioStore,
+    private readonly registros: RegistroStore,
+    private readonly mensajeria: ProveedorMensajeria
+  ) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS portal_codigos (
+        organizacion TEXT NOT NULL,
+        dni          INTEGER NOT NULL,
+        salt         TEXT NOT NULL,
+        hash         TEXT NOT NULL,
+        expira       INTEGER NOT NULL,
+        intentos     INTEGER NOT NULL,
+        enviado      INTEGER NOT NULL,
+        PRIMARY KEY (organizacion, dni)
+      )
+    `);
+  }
+
+  /** Manda el código y devuelve a dónde fue, enmascarado. */
+  async solicitarCodigo(organizacion: string, gimnasio: string, dni: number, ahora = Date.now()): Promise<string> {
+    const socio = PortalLogic.buscarSocio(this.padron(organizacion), dni);
+    const previo = this.pendiente(organizacion, dni);
+    if (previo && ahora - previo.enviado < ESPERA_REENVIO_MS) throw new ErrorNegocio('codigo_reciente');
+
+    const codigo = PortalLogic.generarCodigo();
+    const mensaje = PortalLogic.mensajeCodigo(socio, gimnasio, codigo);
+    const salt = AuthLogic.nuevaSal();
+    const hash = await AuthLogic.hashPassword(codigo, salt);
+    await this.mensajeria.enviar(mensaje);
+
+    this.db.prepare('DELETE FROM portal_codigos WHERE expira < ?').run(ahora);
+    this.db
+      .prepare(`
+        INSERT INTO portal_codigos (organizacion, dni, salt, hash, expira, intentos, enviado) VALUES (?, ?, ?, ?, ?, 0, ?)
+        ON CONFLICT DO UPDATE SET salt = excluded.salt, hash = excluded.hash, expira = excluded.expira, intentos = 0, enviado = excluded.enviado
+      `)
+      .run(organizacion, dni, salt, hash, ahora + VIGENCIA_CODIGO_MS, ahora);
+    return PortalLogic.ocultar(mensaje.destino);
+  }
+
+  /** El id del socio si el código es correcto. Un solo uso: al entrar se borra. */
+  async verificar(organizacion: string, dni: number, codigo: string, ahora = Date.now()): Promise<string> {
+    const pendiente = this.pendiente(organizacion, dni);
+    if (!pendiente || pendiente.expira < ahora) throw new ErrorNegocio('codigo_vencido');
+    if (pendiente.intentos >= MAX_INTENTOS_CODIGO) throw new ErrorNegocio('demasiados_intentos');
+    // El intento se cuenta antes de comparar: dos pedidos a la vez no esquivan el límite.
+    this.db.prepare('UPDATE portal_codigos SET intentos = intentos + 1 WHERE organizacion = ? AND dni = ?').run(organizacion, dni);
+    if ((await AuthLogic.hashPassword(codigo.trim(), pendiente.salt)) !== pendiente.hash) throw new ErrorNegocio('codigo_incorrecto');
+
+    this.db.prepare('DELETE FROM portal_codigos WHERE organizacion = ? AND dni = ?').run(organizacion, dni);
+    return PortalLogic.buscarSocio(this.padron(organizacion), dni).id;
+  }
+
+  /** El socio de una sesión, o null si ya no puede entrar (lo cancelaron o lo borraron). */
+  socio(organizacion: string, socioId: string): Socio | null {
+    return this.padron(organizacion).find(s => s.id === socioId && s.estado !== 'cancelada') ?? null;
+  }
+
+  datos(organizacion: string, socio: Socio): DatosPortal {
+    return PortalLogic.recortar(socio, this.fuentes(organizacion));
+  }
+
+  reservar(organizacion: string, socio: Socio, claseId: string, fecha: string): DatosPortal {
+    const fuentes = this.fuentes(organizacion);
+    const { reservas, cambiadas } = PortalLogic.reservar(socio, fuentes, claseId, fecha, new Date());
+    this.guardarReservas(organizacion, cambiadas);
+    return PortalLogic.recortar(socio, { ...fuentes, reservas });
+  }
+
+  cancelarReserva(organizacion: string, socio: Socio, reservaId: string): DatosPortal {
+    const fuentes = this.fuentes(organizacion);
+    const { reservas, cambiadas } = PortalLogic.cancelar(socio, fuentes, reservaId, new Date());
+    this.guardarReservas(organizacion, cambiadas);
+    return PortalLogic.recortar(socio, { ...fuentes, reservas });
+  }
+
+  solicitarPlan(organizacion: string, socio: Socio, planNuevo: string): DatosPortal {
+    const fuentes = this.fuentes(organizacion);
+    const solicitud = PortalLogic.pedirCambio(socio, fuentes, planNuevo, new Date());
+    this.registros.guardar(organizacion, 'solicitudes', [{ id: solicitud.id, datos: solicitud }], false);
+    return PortalLogic.recortar(socio, { ...fuentes, solicitudes: [solicitud, ...fuentes.solicitudes] });
+  }
+
+  // Las filas se guardan con la versión de esquema de quien las escribió: se migran al leerlas.
+  private padron(organizacion: string): Socio[] {
+    return this.socios.listar(organizacion).flatMap(f => cargarSocios([f.socio], f.version).socios);
+  }
+
+  private pendiente(organizacion: string, dni: number): CodigoPendiente | null {
+    const fila = this.db
+      .prepare('SELECT salt, hash, expira, intentos, enviado FROM portal_codigos WHERE organizacion = ? AND dni = ?')
+      .get(organizacion, dni) as CodigoPendiente | undefined;
+    return fila ?? null;
+  }
+
+  private fuentes(organizacion: string): FuentesPortal {
+    const lista = <T>(coleccion: Coleccion) =>
+      this.registros.listar(organizacion, coleccion).map(r => r.datos as T);
+    const configuracion = this.registros.listar(organizacion, 'configuracion');
+    const clases = configuracion.find(r => r.id === 'clases')?.datos;
+    return {
+      ledger: { ciclos: lista<CicloFacturacion>('ciclos'), facturas: lista<Factura>('facturas'), pagos: lista<Pago>('pagos') },
+      precios: (configuracion.find(r => r.id === 'precios')?.datos as ConfigPrecios | undefined) ?? PRECIOS_POR_DEFECTO,
+      clases: Array.isArray(clases) ? (clases as Clase[]) : [],
+      reservas: lista<Reserva>('reservas'),
+      solicitudes: lista<SolicitudPlan>('solicitudes')
+    };
+  }
+
+  private guardarReservas(organizacion: string, reservas: Reserva[]) {
+    this.registros.guardar(organizacion, 'reservas', reservas.map(r => ({ id: r.id, datos: r })), false);
+  }
+}
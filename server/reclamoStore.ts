@@ -0,0 +1,42 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Quién manda cada aviso a un socio. Antes de enviar, cada recepción
+ * reclama las claves de sus avisos pendientes; SQLite inserta una sola vez
+ * cada clave, así que si dos recepciones revisan a la vez cada aviso sale
+ * por una sola. Un reclamo dura lo suficiente para que el registro de avisos
+ * de quien lo mandó llegue al servidor; uno que falló se libera enseguida
+ * para reintentarlo en la próxima revisión.
+ */
+export class ReclamoStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS avisos_reclamados (
+        organizacion TEXT NOT NULL,
+        clave        TEXT NOT NULL,
+        vence        INTEGER NOT NULL,
+        PRIMARY KEY (organizacion, clave)
+      )
+    `);
+  }
+
+  /** Las claves que quedaron para este pedido; las demás ya las tiene otra recepción. */
+  reclamar(organizacion: string, claves: string[], duracionMs: number, ahora = Date.now()): string[] {
+    const insertar = this.db.prepare('INSERT OR IGNORE INTO avisos_reclamados (organizacion, clave, vence) VALUES (?, ?, ?)');
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM avisos_reclamados WHERE vence < ?').run(ahora);
+      return claves.filter(clave => insertar.run(organizacion, clave, ahora + duracionMs).changes === 1);
+    })();
+  }
+
+  liberar(organizacion: string, claves: string[]): void {
+    const borrar = this.db.prepare('DELETE FROM avisos_reclamados WHERE organizacion = ? AND clave = ?');
+    this.db.transaction(() => {
+      for (const clave of claves) borrar.run(organizacion, clave);
+    })();
+  }
+}
@@ -0,0 +1,42 @@
+import Database from 'better-sqlite3';
+import type { Coleccion, Registro } from '../src/offline/sincronizacion';
+
+/**
+ * Todo lo demás que comparten las recepciones (cobranzas, agenda, auditoría,
+ * configuración) en una sola tabla: cada registro es JSON, pertenece a una
+ * organización y a una colección, y se identifica por su id dentro de ellas.
+ */
+export class RegistroStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS registros (
+        organizacion TEXT NOT NULL,
+        coleccion    TEXT NOT NULL,
+        id           TEXT NOT NULL,
+        datos        TEXT NOT NULL,
+        PRIMARY KEY (organizacion, coleccion, id)
+      )
+    `);
+  }
+
+  listar(organizacion: string, coleccion: Coleccion): Registro[] {
+    const filas = this.db
+      .prepare('SELECT id, datos FROM registros WHERE organizacion = ? AND coleccion = ? ORDER BY rowid')
+      .all(organizacion, coleccion) as { id: string; datos: string }[];
+    return filas.map(f => ({ id: f.id, datos: JSON.parse(f.datos) }));
+  }
+
+  /** Todo o nada: una tanda a medio guardar dejaría el libro descuadrado. soloAgregar = un id que ya está no se pisa. */
+  guardar(organizacion: string, coleccion: Coleccion, registros: Registro[], soloAgregar: boolean): void {
+    const sentencia = this.db.prepare(soloAgregar
+      ? 'INSERT OR IGNORE INTO registros (organizacion, coleccion, id, datos) VALUES (?, ?, ?, ?)'
+      : 'INSERT INTO registros (organizacion, coleccion, id, datos) VALUES (?, ?, ?, ?) ON CONFLICT DO UPDATE SET datos = excluded.datos');
+    this.db.transaction(() => {
+      for (const r of registros) sentencia.run(organizacion, coleccion, r.id, JSON.stringify(r.datos));
+    })();
+  }
+}
@@ -0,0 +1,62 @@
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import type { Decision } from '../src/access/molinete';
+
+/**
+ * --- SIMULADOR DE MOLINETE ---
+ * Hace de controlador de un molinete para probar el gateway sin hardware:
+ * cada línea que se tipea es una credencial leída (el texto del QR o el id
+ * del socio). Si el gateway habilita, "pasa" al segundo; con --no-pasa
+ * simula a alguien que se arrepiente frente al molinete. Usa el token que
+ * entrega "npm run alta-molinete" (la organización, el dispositivo y la sede
+ * salen de ese token).
+ *
+ *   npm run molinete -- --token <token>
+ *   npm run molinete -- --token <token> --url http://192.168.0.10:8787
+ */
+const { values: opciones } = parseArgs({
+  options: {
+    url: { type: 'string', default: `http://localhost:${process.env.PORT ?? 8787}` },
+    token: { type: 'string', default: process.env.FITNESS_TOKEN_MOLINETE },
+    'no-pasa': { type: 'boolean', default: false }
+  }
+});
+
+if (!opciones.token) {
+  console.error('Falta --token: generalo con "npm run alta-molinete -- --dispositivo <id> --sede <código>".');
+  process.exit(1);
+}
+
+const pedir = async (ruta: string, cuerpo: unknown): Promise<Response> =>
+  fetch(`${opciones.url}/api/molinetes/${ruta}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${opciones.token}` },
+    body: JSON.stringify(cuerpo)
+  });
+
+const esperar = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const consola = createInterface({ input: process.stdin, output: process.stdout });
+console.log(`Molinete simulado → ${opciones.url} (Ctrl+D para salir)`);
+
+for await (const linea of consola) {
+  const credencial = linea.trim();
+  if (!credencial) continue;
+  try {
+    const res = await pedir('validar', { credencial });
+    if (!res.ok) {
+      console.log(`✖ Gateway respondió ${res.status}: ${((await res.json()) as { error: string }).error}`);
+      continue;
+    }
+    const decision = (await res.json()) as Decision;
+    console.log(decision.permitido ? `✔ ${decision.mensaje} (abierto ${decision.abrirMs / 1000}s)` : `✖ ${decision.mensaje}`);
+    if (!decision.permitido) continue;
+
+    await esperar(1000);
+    const paso = !opciones['no-pasa'];
+    await pedir('pasos', { validacionId: decision.validacionId, paso });
+    console.log(paso ? '  → pasó' : '  → no pasó');
+  } catch (e) {
+    console.log(`✖ Sin conexión con el gateway: ${(e as Error).message}`);
+  }
+}
@@ -0,0 +1,80 @@
+import Database from 'better-sqlite3';
+import type { Socio } from '../src/domain/socio';
+import { ORGANIZACION_PRINCIPAL_ID } from '../src/tenancy/organizacion';
+
+export interface FilaSocio {
+  version: number;
+  socio: unknown;
+}
+
+const aFila = (f: { datos: string; version: number }): FilaSocio => {
+  try {
+    return { version: f.version, socio: JSON.parse(f.datos) };
+  } catch {
+    // Se devuelve tal cual: el cliente lo manda a cuarentena.
+    return { version: f.version, socio: f.datos };
+  }
+};
+
+/**
+ * Tabla única: el socio se guarda como JSON para que agregar un campo a la
+ * interfaz Socio no obligue a alterar el esquema de SQLite. La columna
+ * 'version' dice con qué esquema se escribió; migrar es trabajo del cliente.
+ * Cada fila pertenece a una organización y todas las consultas filtran por
+ * ella: un gimnasio no puede leer, pisar ni borrar socios de otro.
+ */
+export class SocioStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS socios (
+        id     TEXT PRIMARY KEY,
+        datos  TEXT NOT NULL,
+        creado INTEGER NOT NULL
+      )
+    `);
+    const columnas = this.db.prepare('PRAGMA table_info(socios)').all() as { name: string }[];
+    if (!columnas.some(c => c.name === 'version')) {
+      // Las filas previas a esta columna se escribieron con el esquema v3.
+      this.db.exec('ALTER TABLE socios ADD COLUMN version INTEGER NOT NULL DEFAULT 3');
+    }
+    if (!columnas.some(c => c.name === 'organizacion')) {
+      // Antes de las organizaciones había un único gimnasio: el principal.
+      this.db.exec(`ALTER TABLE socios ADD COLUMN organizacion TEXT NOT NULL DEFAULT '${ORGANIZACION_PRINCIPAL_ID}'`);
+      this.db.exec('CREATE INDEX IF NOT EXISTS socios_organizacion ON socios (organizacion)');
+    }
+  }
+
+  listar(organizacion: string): FilaSocio[] {
+    const filas = this.db
+      .prepare('SELECT datos, version FROM socios WHERE organizacion = ? ORDER BY creado DESC, rowid DESC')
+      .all(organizacion) as { datos: string; version: number }[];
+    return filas.map(aFila);
+  }
+
+  buscar(organizacion: string, id: string): FilaSocio | null {
+    const fila = this.db
+      .prepare('SELECT datos, version FROM socios WHERE id = ? AND organizacion = ?')
+      .get(id, organizacion) as { datos: string; version: number } | undefined;
+    return fila ? aFila(fila) : null;
+  }
+
+  /** false si el id ya existe en otra organización (no se toca esa fila). */
+  guardar(organizacion: string, socio: Socio, version: number): boolean {
+    const resultado = this.db
+      .prepare(`
+        INSERT INTO socios (id, datos, creado, version, organizacion) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET datos = excluded.datos, version = excluded.version
+        WHERE socios.organizacion = excluded.organizacion
+      `)
+      .run(socio.id, JSON.stringify(socio), Date.now(), version, organizacion);
+    return resultado.changes > 0;
+  }
+
+  eliminar(organizacion: string, id: string): void {
+    this.db.prepare('DELETE FROM socios WHERE id = ? AND organizacion = ?').run(id, organizacion);
+  }
+}
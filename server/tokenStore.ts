@@ -0,0 +1,71 @@
+import Database from 'better-sqlite3';
+import { createHash, randomBytes } from 'node:crypto';
+
+export type TipoToken = 'usuario' | 'dispositivo' | 'socio';
+
+export interface Token {
+  tipo: TipoToken;
+  organizacion: string; // La organización sale siempre del token, nunca de lo que diga el cliente
+  sujeto: string;       // Id del usuario, nombre del molinete o id del socio
+  sede: string | null;  // Solo los molinetes: la sede donde se instaló, que no la elige el equipo
+  expira: number | null; // null = no vence (los molinetes); se revoca a mano
+}
+
+const hashDe = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/**
+ * Tokens de acceso al servidor: sesiones de la recepción, credenciales de
+ * molinetes y sesiones del portal de socios. Se entregan una sola vez y acá
+ * se guarda solo su hash, como las contraseñas: quien lea la base no puede
+ * hacerse pasar por nadie.
+ */
+export class TokenStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tokens (
+        hash         TEXT PRIMARY KEY,
+        tipo         TEXT NOT NULL,
+        organizacion TEXT NOT NULL,
+        sujeto       TEXT NOT NULL,
+        expira       INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS tokens_sujeto ON tokens (tipo, organizacion, sujeto);
+    `);
+    const columnas = this.db.prepare('PRAGMA table_info(tokens)').all() as { name: string }[];
+    if (!columnas.some(c => c.name === 'sede')) {
+      // Los molinetes dados de alta antes quedan sin sede: hay que volver a darlos de alta.
+      this.db.exec('ALTER TABLE tokens ADD COLUMN sede TEXT');
+    }
+  }
+
+  emitir(datos: Omit<Token, 'expira' | 'sede'> & { sede?: string }, vigenciaMs: number | null, ahora = Date.now()): string {
+    this.db.prepare('DELETE FROM tokens WHERE expira IS NOT NULL AND expira < ?').run(ahora);
+    const token = randomBytes(32).toString('hex');
+    this.db
+      .prepare('INSERT INTO tokens (hash, tipo, organizacion, sujeto, sede, expira) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(hashDe(token), datos.tipo, datos.organizacion, datos.sujeto, datos.sede ?? null, vigenciaMs === null ? null : ahora + vigenciaMs);
+    return token;
+  }
+
+  /** Lo que habilita el token, o null si no existe o venció. */
+  resolver(token: string, ahora = Date.now()): Token | null {
+    const fila = this.db
+      .prepare('SELECT tipo, organizacion, sujeto, sede, expira FROM tokens WHERE hash = ?')
+      .get(hashDe(token)) as Token | undefined;
+    if (!fila || (fila.expira !== null && fila.expira < ahora)) return null;
+    return fila;
+  }
+
+  revocar(token: string): void {
+    this.db.prepare('DELETE FROM tokens WHERE hash = ?').run(hashDe(token));
+  }
+
+  /** Cierra todas las sesiones de alguien (un usuario eliminado, un molinete dado de baja). */
+  revocarSujeto(tipo: TipoToken, organizacion: string, sujeto: string): void {
+    this.db.prepare('DELETE FROM tokens WHERE tipo = ? AND organizacion = ? AND sujeto = ?').run(tipo, organizacion, sujeto);
+  }
+}
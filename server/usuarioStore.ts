@@ -0,0 +1,53 @@
+import Database from 'better-sqlite3';
+import type { Credencial } from '../src/auth/auth';
+
+/**
+ * Usuarios del servicio (Super Admin, administradores y recepcionistas) con
+ * su contraseña hasheada. El nombre de usuario es único en todo el servicio:
+ * el login no pregunta de qué gimnasio sos.
+ */
+export class UsuarioStore {
+  private readonly db: Database.Database;
+
+  constructor(archivo: string) {
+    this.db = new Database(archivo);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usuarios (
+        id           TEXT PRIMARY KEY,
+        usuario      TEXT NOT NULL UNIQUE,
+        organizacion TEXT NOT NULL,
+        datos        TEXT NOT NULL
+      )
+    `);
+  }
+
+  hayUsuarios(): boolean {
+    return this.db.prepare('SELECT 1 FROM usuarios LIMIT 1').get() !== undefined;
+  }
+
+  todos(): Credencial[] {
+    const filas = this.db.prepare('SELECT datos FROM usuarios ORDER BY rowid').all() as { datos: string }[];
+    return filas.map(f => JSON.parse(f.datos));
+  }
+
+  buscar(id: string): Credencial | null {
+    const fila = this.db.prepare('SELECT datos FROM usuarios WHERE id = ?').get(id) as { datos: string } | undefined;
+    return fila ? JSON.parse(fila.datos) : null;
+  }
+
+  porNombre(usuario: string): Credencial | null {
+    const fila = this.db.prepare('SELECT datos FROM usuarios WHERE usuario = ?').get(usuario.trim().toLowerCase()) as { datos: string } | undefined;
+    return fila ? JSON.parse(fila.datos) : null;
+  }
+
+  agregar(credencial: Credencial): void {
+    this.db
+      .prepare('INSERT INTO usuarios (id, usuario, organizacion, datos) VALUES (?, ?, ?, ?)')
+      .run(credencial.id, credencial.usuario, credencial.organizacionId, JSON.stringify(credencial));
+  }
+
+  eliminar(id: string): void {
+    this.db.prepare('DELETE FROM usuarios WHERE id = ?').run(id);
+  }
+}
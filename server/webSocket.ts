@@ -0,0 +1,104 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'; // Fijo en el RFC 6455
+const MAX_MENSAJE = 64 * 1024;
+
+export interface ConexionWs {
+  enviar(datos: unknown): void;
+  alRecibir(oyente: (mensaje: unknown) => void): void;
+  alCerrar(oyente: () => void): void;
+}
+
+/**
+ * WebSocket mínimo sobre node:http, sin dependencias: alcanza para mensajes
+ * JSON de texto sin fragmentar, que es todo lo que hablan los molinetes y el
+ * panel. Un frame es un encabezado de 2 a 14 bytes y los datos (enmascarados
+ * con XOR cuando vienen del cliente): se arma y se lee a mano, como en C.
+ */
+export const aceptarWebSocket = (req: IncomingMessage, socket: Duplex, protocolo?: string): ConexionWs | null => {
+  const clave = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof clave !== 'string') {
+    socket.destroy();
+    return null;
+  }
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${createHash('sha1').update(clave + GUID).digest('base64')}`,
+    // El navegador cierra la conexión si ofreció subprotocolos y no se le confirma uno.
+    ...(protocolo ? [`Sec-WebSocket-Protocol: ${protocolo}`] : []),
+    '', ''
+  ].join('\r\n'));
+
+  const receptores: ((mensaje: unknown) => void)[] = [];
+  const cierres: (() => void)[] = [];
+  let pendiente = Buffer.alloc(0);
+
+  const enviarFrame = (opcode: number, datos: Buffer) => {
+    if (socket.destroyed) return;
+    let encabezado: Buffer;
+    if (datos.length < 126) {
+      encabezado = Buffer.from([0x80 | opcode, datos.length]);
+    } else if (datos.length < 65536) {
+      encabezado = Buffer.from([0x80 | opcode, 126, datos.length >> 8, datos.length & 0xff]);
+    } else {
+      encabezado = Buffer.alloc(10);
+      encabezado[0] = 0x80 | opcode;
+      encabezado[1] = 127;
+      encabezado.writeBigUInt64BE(BigInt(datos.length), 2);
+    }
+    socket.write(Buffer.concat([encabezado, datos]));
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    pendiente = Buffer.concat([pendiente, chunk]);
+    while (pendiente.length >= 2) {
+      const opcode = pendiente[0] & 0x0f;
+      const enmascarado = (pendiente[1] & 0x80) !== 0;
+      let largo = pendiente[1] & 0x7f;
+      let desde = 2;
+      if (largo === 126) {
+        if (pendiente.length < 4) return;
+        largo = pendiente.readUInt16BE(2);
+        desde = 4;
+      } else if (largo === 127) {
+        if (pendiente.length < 10) return;
+        largo = Number(pendiente.readBigUInt64BE(2));
+        desde = 10;
+      }
+      if (largo > MAX_MENSAJE) return void socket.destroy();
+      if (pendiente.length < desde + (enmascarado ? 4 : 0) + largo) return; // Falta que llegue el resto
+
+      const mascara = enmascarado ? pendiente.subarray(desde, desde + 4) : null;
+      if (mascara) desde += 4;
+      const datos = Buffer.from(pendiente.subarray(desde, desde + largo));
+      if (mascara) for (let i = 0; i < datos.length; i++) datos[i] ^= mascara[i % 4];
+      pendiente = pendiente.subarray(desde + largo);
+
+      if (opcode === 0x8) { // close
+        enviarFrame(0x8, Buffer.alloc(0));
+        return void socket.end();
+      }
+      if (opcode === 0x9) enviarFrame(0xa, datos); // ping -> pong
+      if (opcode === 0x1) {
+        try {
+          const mensaje: unknown = JSON.parse(datos.toString('utf8'));
+          receptores.forEach(r => r(mensaje));
+        } catch {
+          enviarFrame(0x1, Buffer.from(JSON.stringify({ tipo: 'error', error: 'Se esperaba JSON' })));
+        }
+      }
+    }
+  });
+  socket.on('close', () => cierres.forEach(c => c()));
+  socket.on('error', () => socket.destroy());
+
+  return {
+    enviar: datos => enviarFrame(0x1, Buffer.from(JSON.stringify(datos))),
+    alRecibir: oyente => { receptores.push(oyente); },
+    alCerrar: oyente => { cierres.push(oyente); }
+  };
+};
@@ -0,0 +1,53 @@
+import { EventoPuerta, PadronAcceso, PROTOCOLO_WS } from './molinete';
+import { ClienteApi } from '../persistence/ClienteApi';
+
+const REINTENTO_MS = 5000;
+
+/**
+ * Lo que la App habla con el gateway de molinetes del servidor: le publica
+ * la foto del padrón y escucha los eventos de las puertas en vivo.
+ */
+export class ConexionMolinetes {
+  constructor(private readonly api: ClienteApi) {}
+
+  async publicarPadron(padron: PadronAcceso): Promise<void> {
+    await this.api.enviar('/api/molinetes/padron', 'PUT', padron);
+  }
+
+  async eventos(): Promise<EventoPuerta[]> {
+    const res = await this.api.pedir('/api/molinetes/eventos');
+    return res.json();
+  }
+
+  /**
+   * Abre el WebSocket (y lo reabre si se corta). Devuelve la función para
+   * cerrarlo. El navegador no deja mandar headers al abrirlo: el token viaja
+   * como subprotocolo, que a diferencia de la URL no queda en ningún log.
+   */
+  escuchar(oyente: (evento: EventoPuerta) => void): () => void {
+    const url = this.api.urlWebSocket('/api/molinetes/ws');
+
+    let socket: WebSocket | null = null;
+    let timer: number | undefined;
+    let cerrado = false;
+    const conectar = () => {
+      const token = this.api.token();
+      socket = new WebSocket(url, token ? [PROTOCOLO_WS, token] : [PROTOCOLO_WS]);
+      socket.onmessage = (e) => {
+        try {
+          const mensaje = JSON.parse(e.data);
+          if (mensaje.tipo === 'evento') oyente(mensaje.evento);
+        } catch (err) {
+          console.error("Mensaje ilegible del gateway:", err);
+        }
+      };
+      socket.onclose = () => { if (!cerrado) timer = window.setTimeout(conectar, REINTENTO_MS); };
+    };
+    conectar();
+    return () => {
+      cerrado = true;
+      clearTimeout(timer);
+      socket?.close();
+    };
+  }
+}
@@ -0,0 +1,83 @@
+import { Socio } from '../domain/socio';
+import { BillingLogic, LedgerFacturacion } from '../billing/billing';
+import { Asistencia } from '../attendance/attendance';
+import { Sede, SedeLogic } from '../domain/sede';
+import { EstadoMembresia, MembresiaLogic } from '../membership/membresia';
+
+/**
+ * --- CONTROL DE ACCESO ---
+ * La credencial es un QR con el id del socio y un prefijo propio, para que el
+ * lector no confunda nuestro código con cualquier otro QR. Los lectores tipo
+ * "teclado" (keyboard-wedge) tipean ese mismo texto seguido de Enter.
+ */
+export const PREFIJO_CREDENCIAL = 'FITNESSPLUS:';
+
+export type MotivoRechazo = 'desconocido' | 'inactivo' | 'congelada' | 'vencida' | 'otra_sede' | 'impago' | 'fuera_de_horario';
+
+export type ResultadoAcceso =
+  | { permitido: true; socio: Socio; asistencia: Asistencia }
+  | { permitido: false; socio: Socio | null; motivo: MotivoRechazo };
+
+export class AccesoLogic {
+  static codigoCredencial(socio: Socio): string {
+    return `${PREFIJO_CREDENCIAL}${socio.id}`;
+  }
+
+  // Acepta el código completo o el id suelto (por si se tipea a mano).
+  static leerCodigo(texto: string): string {
+    const limpio = texto.trim();
+    return limpio.startsWith(PREFIJO_CREDENCIAL) ? limpio.slice(PREFIJO_CREDENCIAL.length) : limpio;
+  }
+
+  static debeCuotas(ledger: LedgerFacturacion, socioId: string, ahora: Date): boolean {
+    return ledger.facturas.some(f => f.socioId === socioId && BillingLogic.estado(ledger, f, ahora) === 'vencida');
+  }
+
+  /**
+   * Las reglas de entrada, en orden: las usa el puesto de recepción y también
+   * el gateway de molinetes (que solo tiene una foto resumida del padrón).
+   * Una sede que no figura en la lista no se controla por horario.
+   */
+  static motivoRechazo(
+    socio: { estado: EstadoMembresia; sede: string } | null,
+    sede: string,
+    debeCuotas: boolean,
+    sedes: Sede[],
+    ahora: Date
+  ): MotivoRechazo | null {
+    if (!socio) return 'desconocido';
+    if (socio.estado === 'congelada' || socio.estado === 'vencida') return socio.estado;
+    if (!MembresiaLogic.habilitado(socio)) return 'inactivo';
+    if (socio.sede !== sede) return 'otra_sede';
+    if (debeCuotas) return 'impago';
+    const datosSede = SedeLogic.buscar(sedes, sede);
+    if (datosSede && !SedeLogic.estaAbierta(datosSede, ahora)) return 'fuera_de_horario';
+    return null;
+  }
+
+  static validar(
+    codigo: string,
+    sede: string,
+    socios: Socio[],
+    ledger: LedgerFacturacion,
+    sedes: Sede[],
+    ahora: Date
+  ): ResultadoAcceso {
+    const id = AccesoLogic.leerCodigo(codigo);
+    const socio = socios.find(s => s.id === id) ?? null;
+
+    if (!socio) return { permitido: false, socio: null, motivo: 'desconocido' };
+    // El estado se mira a la fecha: un pase que venció anoche no entra aunque todavía no se haya guardado.
+    const vigente = { ...socio, estado: MembresiaLogic.estadoAl(socio, ahora) };
+    const motivo = AccesoLogic.motivoRechazo(vigente, sede, AccesoLogic.debeCuotas(ledger, socio.id, ahora), sedes, ahora);
+    if (motivo) return { permitido: false, socio, motivo };
+
+    const asistencia: Asistencia = {
+      id: crypto.randomUUID(),
+      socioId: socio.id,
+      sede,
+      fecha: ahora.toISOString()
+    };
+    return { permitido: true, socio, asistencia };
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+
+import { MolineteLogic, PadronAcceso, SocioAcceso } from './molinete';
+import { Socio } from '../domain/socio';
+import { SEDES_POR_DEFECTO } from '../domain/sede';
+import { BillingLogic, LEDGER_VACIO } from '../billing/billing';
+import { I18nLogic } from '../i18n/i18n';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const enPadron = (cambios: Partial<SocioAcceso> = {}): SocioAcceso =>
+  ({ id: 's1', nombre: 'Ana Pérez', sede: 'CBA', estado: 'activa', vence: null, congelamientos: [], vencimientosImpagos: [], ...cambios });
+
+const padron = (...socios: SocioAcceso[]): PadronAcceso => ({ generado: '2026-03-16T10:00:00.000Z', sedes: SEDES_POR_DEFECTO, socios });
+
+// Lunes a media mañana: todas las sedes abiertas.
+const lunes = new Date(2026, 2, 16, 10);
+
+const decidir = (p: PadronAcceso, credencial: string, sede = 'CBA', ahora = lunes) =>
+  MolineteLogic.decidir(p, { dispositivo: 'cba-1', sede, credencial }, I18nLogic.traductor('es'), ahora);
+
+describe('MolineteLogic.padron', () => {
+  it('resume a cada socio con las fechas para decidir, sin los motivos de sus congelamientos', () => {
+    const ana = unSocio({ congelamientos: [{ desde: '2026-04-01', hasta: '2026-04-10', motivo: 'medico' }] });
+    const luis = unSocio({ id: 's2', nombre: 'Luis Díaz', estado: 'prueba', vence: '2026-03-15' });
+    const ledger = BillingLogic.registrarPago(BillingLogic.sincronizar(LEDGER_VACIO, [ana], new Date(2026, 1, 1)), 's1:2026-01', 'efectivo', lunes);
+    const impaga = ledger.facturas.find(f => f.id === 's1:2026-02')!;
+
+    expect(MolineteLogic.padron([ana, luis], ledger, SEDES_POR_DEFECTO, lunes).socios).toEqual([
+      enPadron({ congelamientos: [{ desde: '2026-04-01', hasta: '2026-04-10' }], vencimientosImpagos: [impaga.vencimiento] }),
+      enPadron({ id: 's2', nombre: 'Luis Díaz', estado: 'prueba', vence: '2026-03-15' })
+    ]);
+  });
+});
+
+describe('MolineteLogic.decidir', () => {
+  it('habilita con el QR o con el id suelto y libera el molinete', () => {
+    const decision = decidir(padron(enPadron()), 'FITNESSPLUS:s1');
+
+    expect(decision).toMatchObject({ permitido: true, motivo: null, mensaje: 'Bienvenido/a, Ana', socioId: 's1', abrirMs: 5000 });
+    expect(decidir(padron(enPadron()), ' s1 ').permitido).toBe(true);
+  });
+
+  it('deniega con el motivo que corresponde y no abre', () => {
+    const motivo = (p: PadronAcceso, sede = 'CBA', ahora = lunes) => decidir(p, 's1', sede, ahora).motivo;
+
+    expect(motivo(padron())).toBe('desconocido');
+    expect(motivo(padron(enPadron({ estado: 'cancelada' })))).toBe('inactivo');
+    expect(motivo(padron(enPadron({ estado: 'congelada', congelamientos: [{ desde: '2026-03-10', hasta: '2026-03-20' }] })))).toBe('congelada');
+    expect(motivo(padron(enPadron({ estado: 'vencida' })))).toBe('vencida');
+    expect(motivo(padron(enPadron()), 'ROS')).toBe('otra_sede');
+    expect(motivo(padron(enPadron({ vencimientosImpagos: ['2026-03-10'] })))).toBe('impago');
+    expect(motivo(padron(enPadron()), 'CBA', new Date(2026, 2, 15, 10))).toBe('fuera_de_horario');
+    expect(decidir(padron(), 's1')).toMatchObject({ permitido: false, mensaje: 'Credencial no registrada', socioId: null, abrirMs: 0 });
+  });
+
+  it('decide con la hora del pedido aunque el padrón sea de antes', () => {
+    const motivo = (socio: SocioAcceso, ahora: Date) => decidir(padron(socio), 's1', 'CBA', ahora).motivo;
+    const martes = new Date(2026, 2, 17, 10);
+
+    expect(motivo(enPadron({ estado: 'prueba', vence: '2026-03-16' }), lunes)).toBeNull();
+    expect(motivo(enPadron({ estado: 'prueba', vence: '2026-03-16' }), martes)).toBe('vencida');
+    expect(motivo(enPadron({ vencimientosImpagos: ['2026-03-16'] }), lunes)).toBeNull();
+    expect(motivo(enPadron({ vencimientosImpagos: ['2026-03-16'] }), martes)).toBe('impago');
+    expect(motivo(enPadron({ congelamientos: [{ desde: '2026-03-17', hasta: '2026-03-20' }] }), martes)).toBe('congelada');
+  });
+
+  it('cada validación tiene su propio id para reportar el paso', () => {
+    const p = padron(enPadron());
+
+    expect(decidir(p, 's1').validacionId).not.toBe(decidir(p, 's1').validacionId);
+  });
+});
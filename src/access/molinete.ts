@@ -0,0 +1,107 @@
+import { Socio } from '../domain/socio';
+import { Sede } from '../domain/sede';
+import { BillingLogic, formatearFecha, LedgerFacturacion } from '../billing/billing';
+import { AccesoLogic, MotivoRechazo } from './acceso';
+import { EstadoMembresia, MembresiaLogic } from '../membership/membresia';
+import { Traductor } from '../i18n/i18n';
+
+/**
+ * --- MOLINETES (HARDWARE) ---
+ * El controlador del molinete (una Raspberry Pi, por ejemplo) no conoce el
+ * padrón ni el libro de cobranzas: le pregunta al gateway del servidor. El
+ * gateway decide con una FOTO resumida que le publica la App (la membresía
+ * de cada socio, su sede, las facturas que tiene sin pagar y los horarios de
+ * cada sede), así sigue respondiendo aunque ninguna recepción esté abierta.
+ * La foto trae fechas y no conclusiones: si nadie la vuelve a publicar, un
+ * pase que vence esta noche o una cuota que vence mañana igual se cuentan
+ * con la hora del pedido.
+ */
+export interface SocioAcceso {
+  id: string;
+  nombre: string;
+  sede: string;
+  estado: EstadoMembresia; // El guardado; el del momento se calcula al validar
+  vence: string | null;
+  congelamientos: { desde: string; hasta: string }[];
+  vencimientosImpagos: string[]; // El vencimiento de cada factura con saldo
+}
+
+export interface PadronAcceso {
+  generado: string;
+  sedes: Sede[];
+  socios: SocioAcceso[];
+}
+
+export interface PedidoValidacion {
+  dispositivo: string; // Id del molinete, lo elige quien lo instala ("cba-entrada-1")
+  sede: string;        // La de su alta: el molinete no la elige
+  credencial: string;  // Lo que leyó el lector: "FITNESSPLUS:<id>" o el id suelto
+}
+
+export interface Decision {
+  validacionId: string; // Se devuelve al reportar si la persona pasó o no
+  permitido: boolean;
+  motivo: MotivoRechazo | null;
+  mensaje: string;      // Para el display del molinete
+  socioId: string | null;
+  nombre: string | null;
+  abrirMs: number;      // Cuánto tiempo liberar el molinete (0 si se deniega)
+}
+
+export type TipoEventoPuerta = 'permitido' | 'denegado' | 'paso' | 'sin_paso';
+
+export interface EventoPuerta {
+  id: string;
+  fecha: string;
+  tipo: TipoEventoPuerta;
+  dispositivo: string;
+  sede: string;
+  socioId: string | null;
+  nombre: string | null;
+  motivo?: MotivoRechazo;
+}
+
+export const APERTURA_MS = 5000;
+
+// Subprotocolo del WebSocket; el segundo valor que ofrece el cliente es su token.
+export const PROTOCOLO_WS = 'fitnessplus';
+
+export class MolineteLogic {
+  /** La foto que se publica al gateway cada vez que cambia el padrón, el libro o las sedes. */
+  static padron(socios: Socio[], ledger: LedgerFacturacion, sedes: Sede[], ahora: Date): PadronAcceso {
+    return {
+      generado: ahora.toISOString(),
+      sedes,
+      socios: socios.map(s => ({
+        id: s.id,
+        nombre: s.nombre,
+        sede: s.sede,
+        estado: s.estado,
+        vence: s.vence,
+        congelamientos: (s.congelamientos ?? []).map(({ desde, hasta }) => ({ desde, hasta })),
+        vencimientosImpagos: ledger.facturas
+          .filter(f => f.socioId === s.id && BillingLogic.saldo(ledger, f) > 0)
+          .map(f => f.vencimiento)
+      }))
+    };
+  }
+
+  /** El mensaje para el display del molinete sale en el idioma del gimnasio (t). */
+  static decidir(padron: PadronAcceso, pedido: PedidoValidacion, t: Traductor, ahora: Date): Decision {
+    const id = AccesoLogic.leerCodigo(pedido.credencial);
+    const socio = padron.socios.find(s => s.id === id) ?? null;
+    const hoy = formatearFecha(ahora);
+    const vigente = socio && { ...socio, estado: MembresiaLogic.estadoAl(socio, ahora) };
+    const debeCuotas = socio?.vencimientosImpagos.some(v => hoy > v) ?? false;
+    const motivo = AccesoLogic.motivoRechazo(vigente, pedido.sede, debeCuotas, padron.sedes, ahora);
+    return {
+      validacionId: crypto.randomUUID(),
+      permitido: motivo === null,
+      motivo,
+      mensaje: motivo ? t(`acceso.${motivo}`) : t('acceso.bienvenida', { nombre: socio!.nombre.split(' ')[0] }),
+      socioId: socio?.id ?? null,
+      nombre: socio?.nombre ?? null,
+      abrirMs: motivo ? 0 : APERTURA_MS
+    };
+  }
+}
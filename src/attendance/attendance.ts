@@ -0,0 +1,94 @@
+import { Socio } from '../domain/socio';
+
+/**
+ * --- ASISTENCIA ---
+ * Cada ingreso por el molinete/recepción es un evento: quién, en qué sede y
+ * cuándo. Con esa "bitácora" calculamos todo lo demás (ocupación, horarios
+ * pico, socios que dejaron de venir) sin guardar contadores aparte.
+ */
+export interface Asistencia {
+  id: string;
+  socioId: string;
+  sede: string;
+  fecha: string;
+}
+
+export interface RiesgoAbandono {
+  socio: Socio;
+  ultimaVisita: string | null;
+  diasSinVenir: number | null; // null = nunca vino
+}
+
+// No registramos salidas: se estima que cada visita dura lo mismo.
+export const ESTADIA_PROMEDIO_MIN = 90;
+
+const MS_DIA = 24 * 60 * 60 * 1000;
+
+const inicioDelDia = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+export class AsistenciaLogic {
+  static deSede(asistencias: Asistencia[], sede: string | null): Asistencia[] {
+    return sede ? asistencias.filter(a => a.sede === sede) : asistencias;
+  }
+
+  /** Personas que entraron hace menos de una estadía promedio. */
+  static ocupacionActual(asistencias: Asistencia[], sede: string, ahora: Date): number {
+    const desde = ahora.getTime() - ESTADIA_PROMEDIO_MIN * 60 * 1000;
+    const adentro = new Set(
+      asistencias
+        .filter(a => a.sede === sede)
+        .filter(a => {
+          const t = new Date(a.fecha).getTime();
+          return t >= desde && t <= ahora.getTime();
+        })
+        .map(a => a.socioId)
+    );
+    return adentro.size;
+  }
+
+  /** Visitas de los últimos 'dias' días (incluye hoy), de la más vieja a la más nueva. */
+  static visitasPorDia(asistencias: Asistencia[], dias: number, hoy: Date): { fecha: Date; total: number }[] {
+    const base = inicioDelDia(hoy).getTime();
+    const conteo = new Array(dias).fill(0);
+    for (const a of asistencias) {
+      const atras = Math.floor((base - inicioDelDia(new Date(a.fecha)).getTime()) / MS_DIA);
+      if (atras >= 0 && atras < dias) conteo[dias - 1 - atras]++;
+    }
+    return conteo.map((total, i) => ({ fecha: new Date(base - (dias - 1 - i) * MS_DIA), total }));
+  }
+
+  /**
+   * Matriz [díaSemana][hora] con la cantidad de ingresos de las últimas
+   * 'semanas' semanas. díaSemana 0 = lunes.
+   */
+  static mapaDeCalor(asistencias: Asistencia[], semanas: number, hoy: Date): number[][] {
+    const desde = inicioDelDia(hoy).getTime() - (semanas * 7 - 1) * MS_DIA;
+    const matriz = Array.from({ length: 7 }, () => new Array(24).fill(0));
+    for (const a of asistencias) {
+      const d = new Date(a.fecha);
+      if (d.getTime() < desde) continue;
+      matriz[(d.getDay() + 6) % 7][d.getHours()]++;
+    }
+    return matriz;
+  }
+
+  /** Socios sin visitas en los últimos 'dias' días, los más ausentes primero. */
+  static riesgoAbandono(socios: Socio[], asistencias: Asistencia[], dias: number, hoy: Date): RiesgoAbandono[] {
+    const ultima = new Map<string, string>();
+    for (const a of asistencias) {
+      const previa = ultima.get(a.socioId);
+      if (!previa || a.fecha > previa) ultima.set(a.socioId, a.fecha);
+    }
+
+    return socios
+      .map(socio => {
+        const ultimaVisita = ultima.get(socio.id) ?? null;
+        const diasSinVenir = ultimaVisita
+          ? Math.floor((inicioDelDia(hoy).getTime() - inicioDelDia(new Date(ultimaVisita)).getTime()) / MS_DIA)
+          : null;
+        return { socio, ultimaVisita, diasSinVenir };
+      })
+      .filter(r => r.diasSinVenir === null || r.diasSinVenir >= dias)
+      .sort((a, b) => (b.diasSinVenir ?? Infinity) - (a.diasSinVenir ?? Infinity));
+  }
+}
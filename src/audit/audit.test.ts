@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+import { AuditLogic } from './audit';
+import { Socio } from '../domain/socio';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+describe('AuditLogic.diferencias', () => {
+  it('anota los campos que cambiaron y los que se borraron', () => {
+    const cancelado = unSocio({ estado: 'cancelada', fechaCancelacion: '2026-03-01', motivoCancelacion: 'Se mudó' });
+    const { fechaCancelacion, motivoCancelacion, ...reactivado } = { ...cancelado, estado: 'activa' as const };
+
+    expect(AuditLogic.diferencias(cancelado, reactivado)).toEqual([
+      { campo: 'estado', antes: 'cancelada', despues: 'activa' },
+      { campo: 'fechaCancelacion', antes: fechaCancelacion, despues: undefined },
+      { campo: 'motivoCancelacion', antes: motivoCancelacion, despues: undefined }
+    ]);
+  });
+
+  it('una lista igual pero copiada no es un cambio', () => {
+    const congelamientos = [{ desde: '2026-03-10', hasta: '2026-03-20', motivo: 'vacaciones' as const }];
+    const socio = unSocio({ congelamientos, sinAvisos: ['email'] });
+
+    expect(AuditLogic.diferencias(socio, { ...socio, congelamientos: congelamientos.map(c => ({ ...c })), sinAvisos: ['email'] })).toEqual([]);
+    expect(AuditLogic.diferencias(socio, { ...socio, sinAvisos: ['email', 'sms'] })).toEqual([
+      { campo: 'sinAvisos', antes: ['email'], despues: ['email', 'sms'] }
+    ]);
+  });
+});
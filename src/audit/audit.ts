@@ -0,0 +1,116 @@
+import { Socio } from '../domain/socio';
+import { Usuario } from '../auth/auth';
+import { ClaveMensaje } from '../i18n/mensajes/es';
+import { Traductor } from '../i18n/i18n';
+
+/**
+ * --- AUDITORÍA ---
+ * Cada cambio sobre un socio deja un asiento: quién, cuándo, qué acción y el
+ * antes/después de cada campo tocado. Es un log de solo-agregar: los asientos
+ * nunca se editan ni se borran, ni siquiera cuando el socio se da de baja.
+ */
+export type AccionAuditoria =
+  | 'alta' | 'edicion' | 'cambio_plan' | 'baja' | 'reactivacion'
+  | 'conversion' | 'congelamiento' | 'vencimiento';
+
+export interface CambioCampo {
+  campo: keyof Socio;
+  antes: unknown;
+  despues: unknown;
+}
+
+export interface EventoAuditoria {
+  id: string;
+  socioId: string;
+  fecha: string;
+  usuarioId: string;
+  usuarioNombre: string;
+  accion: AccionAuditoria;
+  cambios: CambioCampo[];
+}
+
+// Los cambios que hace la App sola (ej.: vencer una membresía) quedan a nombre del sistema.
+export const USUARIO_SISTEMA: Pick<Usuario, 'id' | 'nombre'> = { id: 'sistema', nombre: 'Sistema' };
+
+export const CAMPO_CLAVE: Partial<Record<keyof Socio, ClaveMensaje>> = {
+  nombre: 'campo.nombre',
+  dni: 'campo.dni',
+  fechaNacimiento: 'campo.fechaNacimiento',
+  sede: 'campo.sede',
+  membresia: 'campo.membresia',
+  metodoPago: 'campo.metodoPago',
+  importe: 'campo.importe',
+  estado: 'campo.estado',
+  inicio: 'campo.inicio',
+  vence: 'campo.vence',
+  congelamientos: 'campo.congelamientos',
+  fechaCancelacion: 'campo.fechaCancelacion',
+  motivoCancelacion: 'campo.motivoCancelacion',
+  codigoPromo: 'campo.codigoPromo',
+  integrantesGrupo: 'campo.integrantesGrupo',
+  mesesPrepago: 'campo.mesesPrepago',
+  vendedorId: 'campo.vendedorId',
+  sinAvisos: 'campo.sinAvisos',
+  telefono: 'campo.telefono',
+  email: 'campo.email',
+  contactoEmergenciaNombre: 'campo.contactoEmergenciaNombre',
+  contactoEmergenciaTelefono: 'campo.contactoEmergenciaTelefono',
+  aptoMedicoVence: 'campo.aptoMedicoVence',
+  fechaNacimientoEstimada: 'campo.fechaNacimientoEstimada'
+};
+
+const igual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export class AuditLogic {
+  /** Los campos sin nombre traducido (ej.: uno nuevo) se muestran como están en el modelo. */
+  static nombreCampo(campo: keyof Socio, t: Traductor): string {
+    const clave = CAMPO_CLAVE[campo];
+    return clave ? t(clave) : campo;
+  }
+
+  /**
+   * Los campos de los dos lados: uno que se borró (ej.: el motivo de
+   * cancelación al reactivar) también es un cambio. Las listas se comparan
+   * por contenido, no por referencia.
+   */
+  static diferencias(antes: Socio, despues: Socio): CambioCampo[] {
+    const campos = new Set([...Object.keys(antes), ...Object.keys(despues)] as (keyof Socio)[]);
+    return [...campos]
+      .filter(campo => campo !== 'id' && !igual(antes[campo], despues[campo]))
+      .map(campo => ({ campo, antes: antes[campo], despues: despues[campo] }));
+  }
+
+  /** La acción más significativa entre los cambios (una baja pesa más que un typo). */
+  static clasificar(antes: Socio, despues: Socio): AccionAuditoria {
+    if (antes.estado !== despues.estado) {
+      if (despues.estado === 'cancelada') return 'baja';
+      if (despues.estado === 'vencida') return 'vencimiento';
+      if (antes.estado === 'cancelada' || antes.estado === 'vencida') return 'reactivacion';
+      if (antes.estado === 'prueba') return 'conversion';
+      return 'congelamiento';
+    }
+    if (antes.congelamientos !== despues.congelamientos) return 'congelamiento';
+    if (antes.membresia !== despues.membresia) return 'cambio_plan';
+    return 'edicion';
+  }
+
+  // En el alta no hay "antes": se registra la foto inicial de cada campo.
+  static alta(usuario: Usuario, socio: Socio): EventoAuditoria {
+    const cambios = (Object.keys(socio) as (keyof Socio)[])
+      .filter(campo => campo !== 'id')
+      .map(campo => ({ campo, antes: null, despues: socio[campo] }));
+    return AuditLogic.evento(usuario, socio.id, 'alta', cambios);
+  }
+
+  static evento(usuario: Pick<Usuario, 'id' | 'nombre'>, socioId: string, accion: AccionAuditoria, cambios: CambioCampo[]): EventoAuditoria {
+    return {
+      id: crypto.randomUUID(),
+      socioId,
+      fecha: new Date().toISOString(),
+      usuarioId: usuario.id,
+      usuarioNombre: usuario.nombre,
+      accion,
+      cambios
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import React, { useState } from 'react';
+
+import { Usuario } from './auth';
+import { AuthService } from './AuthService';
+import { LoginView } from '../views/LoginView';
+
+/**
+ * Nada de la App se monta sin sesión: el padrón (con sus DNI) ni siquiera
+ * se carga hasta que alguien se identifica.
+ */
+export const AuthGate: React.FC<{
+  auth: AuthService;
+  children: (usuario: Usuario, onLogout: () => void) => React.ReactNode;
+}> = ({ auth, children }) => {
+  const [usuario, setUsuario] = useState<Usuario | null>(() => auth.sesionActual());
+
+  if (!usuario) return <LoginView auth={auth} onLogin={setUsuario} />;
+
+  return <>{children(usuario, () => { auth.logout(); setUsuario(null); })}</>;
+};
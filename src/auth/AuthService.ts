@@ -0,0 +1,18 @@
+import { NuevoUsuario, Usuario } from './auth';
+
+/**
+ * Lo que la App necesita para identificar a quien la usa. En modo local las
+ * credenciales viven en esta terminal; con el servidor compartido, el
+ * servidor las guarda y es quien decide: la sesión local solo recuerda el
+ * token y a quién pertenece, para pintar la pantalla.
+ */
+export interface AuthService {
+  hayUsuarios(): Promise<boolean>;
+  listar(organizacionId: string): Promise<Usuario[]>;
+  registrar(datos: NuevoUsuario): Promise<Usuario>;
+  eliminar(id: string, organizacionId: string): Promise<void>;
+  login(usuario: string, password: string): Promise<Usuario>;
+  logout(): void;
+  /** Usuario de la sesión guardada, o null si no hay o expiró. */
+  sesionActual(): Usuario | null;
+}
@@ -0,0 +1,75 @@
+import { NuevoUsuario, Usuario } from './auth';
+import { AuthService } from './AuthService';
+import { CLAVE_SESION_API, ClienteApi } from '../persistence/ClienteApi';
+
+interface SesionApi {
+  token: string;
+  usuario: Usuario;
+  expira: string;
+}
+
+/**
+ * Autenticación contra el servidor compartido: las contraseñas se verifican
+ * allá y el servidor entrega un token que acompaña cada pedido. Lo que se
+ * guarda en esta terminal es solo ese token y a quién pertenece; editarlo
+ * a mano no da acceso a nada, porque el servidor rechaza un token que no emitió.
+ */
+export class HttpAuthService implements AuthService {
+  private readonly api: ClienteApi;
+
+  constructor(
+    private readonly baseUrl = '',
+    private readonly claveSesion = CLAVE_SESION_API
+  ) {
+    this.api = new ClienteApi(baseUrl, null, claveSesion);
+  }
+
+  async hayUsuarios(): Promise<boolean> {
+    const res = await this.api.pedir('/api/instalacion');
+    return (await res.json()).hayUsuarios === true;
+  }
+
+  async listar(organizacionId: string): Promise<Usuario[]> {
+    const res = await this.en(organizacionId).pedir('/api/usuarios');
+    return res.json();
+  }
+
+  // El Super Admin solo se crea una vez, al instalar; el resto los da de alta un administrador.
+  async registrar(datos: NuevoUsuario): Promise<Usuario> {
+    const { organizacionId, ...cuerpo } = datos;
+    const res = datos.rol === 'superadmin'
+      ? await this.api.enviar('/api/instalacion', 'POST', cuerpo)
+      : await this.en(organizacionId).enviar('/api/usuarios', 'POST', cuerpo);
+    return res.json();
+  }
+
+  async eliminar(id: string, organizacionId: string): Promise<void> {
+    await this.en(organizacionId).pedir(`/api/usuarios/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  async login(usuario: string, password: string): Promise<Usuario> {
+    const res = await this.api.enviar('/api/sesion', 'POST', { usuario, password });
+    const sesion: SesionApi = await res.json();
+    localStorage.setItem(this.claveSesion, JSON.stringify(sesion));
+    return sesion.usuario;
+  }
+
+  logout(): void {
+    this.api.pedir('/api/sesion', { method: 'DELETE' }).catch(e => console.error("Error cerrando la sesión:", e));
+    localStorage.removeItem(this.claveSesion);
+  }
+
+  sesionActual(): Usuario | null {
+    try {
+      const sesion: SesionApi | null = JSON.parse(localStorage.getItem(this.claveSesion) ?? 'null');
+      if (!sesion?.usuario || new Date(sesion.expira).getTime() < Date.now()) return null;
+      return sesion.usuario;
+    } catch {
+      return null;
+    }
+  }
+
+  private en(organizacionId: string): ClienteApi {
+    return new ClienteApi(this.baseUrl, organizacionId, this.claveSesion);
+  }
+}
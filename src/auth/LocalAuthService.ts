@@ -0,0 +1,96 @@
+import { AuthLogic, Credencial, DURACION_SESION_MS, NuevoUsuario, Sesion, Usuario } from './auth';
+import { AuthService } from './AuthService';
+import { ORGANIZACION_PRINCIPAL_ID } from '../tenancy/organizacion';
+import { ErrorNegocio } from '../domain/errores';
+
+/**
+ * Autenticación local: las credenciales (hasheadas) y la sesión viven en
+ * localStorage de esta terminal. Los errores se lanzan con un mensaje listo
+ * para mostrar en pantalla.
+ *
+ * Los nombres de usuario son únicos en todo el servicio (el login no pregunta
+ * de qué gimnasio sos), pero listar y eliminar siempre van acotados a una
+ * organización.
+ */
+export class LocalAuthService implements AuthService {
+  constructor(
+    private readonly claveUsuarios = 'fitness_plus_usuarios',
+    private readonly claveSesion = 'fitness_plus_sesion'
+  ) {}
+
+  async hayUsuarios(): Promise<boolean> {
+    return this.leer().length > 0;
+  }
+
+  async listar(organizacionId: string): Promise<Usuario[]> {
+    return this.leer().filter(u => u.organizacionId === organizacionId).map(AuthLogic.publico);
+  }
+
+  async registrar(datos: NuevoUsuario): Promise<Usuario> {
+    const usuarios = this.leer();
+    const credencial = await AuthLogic.nuevaCredencial(datos, usuarios);
+    this.escribir([...usuarios, credencial]);
+    return AuthLogic.publico(credencial);
+  }
+
+  async eliminar(id: string, organizacionId: string): Promise<void> {
+    const usuarios = this.leer();
+    AuthLogic.validarBaja(id, organizacionId, usuarios);
+    this.escribir(usuarios.filter(u => u.id !== id));
+  }
+
+  async login(usuario: string, password: string): Promise<Usuario> {
+    const credencial = this.leer().find(u => u.usuario === usuario.trim().toLowerCase());
+    // Mismo mensaje en ambos casos para no revelar qué usuarios existen.
+    if (!credencial || !(await AuthLogic.passwordCorrecta(credencial, password))) {
+      throw new ErrorNegocio('credenciales_incorrectas');
+    }
+    const sesion: Sesion = {
+      token: crypto.randomUUID(),
+      usuarioId: credencial.id,
+      expira: new Date(Date.now() + DURACION_SESION_MS).toISOString()
+    };
+    localStorage.setItem(this.claveSesion, JSON.stringify(sesion));
+    return AuthLogic.publico(credencial);
+  }
+
+  logout(): void {
+    localStorage.removeItem(this.claveSesion);
+  }
+
+  /** Usuario de la sesión guardada, o null si no hay, expiró o el usuario ya no existe. */
+  sesionActual(): Usuario | null {
+    try {
+      const sesion: Sesion | null = JSON.parse(localStorage.getItem(this.claveSesion) ?? 'null');
+      if (!sesion || new Date(sesion.expira).getTime() < Date.now()) return null;
+      const credencial = this.leer().find(u => u.id === sesion.usuarioId);
+      return credencial ? AuthLogic.publico(credencial) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Usuarios creados antes de las organizaciones: pertenecen a la principal,
+   * y si no hay Super Admin, el primer administrador pasa a serlo (era el
+   * dueño de la instalación).
+   */
+  private leer(): Credencial[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.claveUsuarios) ?? '[]');
+      if (!Array.isArray(datos)) return [];
+      const usuarios: Credencial[] = datos.map(u => ({ ...u, organizacionId: u.organizacionId ?? ORGANIZACION_PRINCIPAL_ID }));
+      if (!usuarios.some(u => u.rol === 'superadmin')) {
+        const duenio = usuarios.find(u => u.rol === 'admin');
+        if (duenio) duenio.rol = 'superadmin';
+      }
+      return usuarios;
+    } catch {
+      return [];
+    }
+  }
+
+  private escribir(usuarios: Credencial[]) {
+    localStorage.setItem(this.claveUsuarios, JSON.stringify(usuarios));
+  }
+}
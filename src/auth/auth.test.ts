@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import { AuthLogic, Credencial, NuevoUsuario, Usuario } from './auth';
+
+const admin: Usuario = { id: 'u1', usuario: 'admin', nombre: 'Dueña', rol: 'admin', sede: null, organizacionId: 'principal' };
+const recepcion: Usuario = { id: 'u2', usuario: 'ros', nombre: 'Recepción Rosario', rol: 'recepcionista', sede: 'ROS', organizacionId: 'principal' };
+
+describe('AuthLogic.puede', () => {
+  it('el Admin puede todo y el Recepcionista nada de lo restringido', () => {
+    expect(AuthLogic.puede(admin, 'socios.eliminar')).toBe(true);
+    expect(AuthLogic.puede(admin, 'usuarios.gestionar')).toBe(true);
+    expect(AuthLogic.puede(recepcion, 'socios.eliminar')).toBe(false);
+    expect(AuthLogic.puede(recepcion, 'precios.editar')).toBe(false);
+  });
+});
+
+describe('AuthLogic por sede', () => {
+  const socios = [{ id: 'a', sede: 'CBA' }, { id: 'b', sede: 'ROS' }, { id: 'c', sede: 'ROS' }];
+
+  it('el Recepcionista solo ve su sede', () => {
+    expect(AuthLogic.sedesPermitidas(recepcion, ['CBA', 'ROS', 'MDP'])).toEqual(['ROS']);
+    expect(AuthLogic.filtrarPorSede(recepcion, socios).map(s => s.id)).toEqual(['b', 'c']);
+  });
+
+  it('el Admin ve todas', () => {
+    expect(AuthLogic.sedesPermitidas(admin, ['CBA', 'ROS'])).toEqual(['CBA', 'ROS']);
+    expect(AuthLogic.filtrarPorSede(admin, socios)).toBe(socios);
+  });
+
+  it('la sede fija es la del Recepcionista; un Admin no tiene', () => {
+    expect(AuthLogic.sedeFija(recepcion)).toBe('ROS');
+    expect(AuthLogic.sedeFija({ ...admin, sede: 'CBA' })).toBeNull();
+    expect([AuthLogic.veSede(recepcion, 'ROS'), AuthLogic.veSede(recepcion, 'CBA'), AuthLogic.veSede(admin, 'CBA')]).toEqual([true, false, true]);
+  });
+});
+
+describe('AuthLogic.hashPassword', () => {
+  it('la misma contraseña con la misma sal da el mismo hash, y con otra sal no', async () => {
+    const sal = AuthLogic.nuevaSal();
+    const hash = await AuthLogic.hashPassword('secreta', sal);
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await AuthLogic.hashPassword('secreta', sal)).toBe(hash);
+    expect(await AuthLogic.hashPassword('secreta', AuthLogic.nuevaSal())).not.toBe(hash);
+    expect(await AuthLogic.hashPassword('Secreta', sal)).not.toBe(hash);
+  });
+});
+
+describe('AuthLogic.nuevaCredencial', () => {
+  const alta = (cambios: Partial<NuevoUsuario> = {}): NuevoUsuario =>
+    ({ usuario: ' Ros ', nombre: '', password: 'secreta', rol: 'recepcionista', sede: 'ROS', organizacionId: 'principal', ...cambios });
+
+  it('normaliza el usuario y guarda solo el hash de la contraseña', async () => {
+    const credencial = await AuthLogic.nuevaCredencial(alta(), []);
+
+    expect(credencial).toMatchObject({ usuario: 'ros', nombre: 'ros', rol: 'recepcionista', sede: 'ROS', organizacionId: 'principal' });
+    expect(JSON.stringify(credencial)).not.toContain('secreta');
+    expect(await AuthLogic.passwordCorrecta(credencial, 'secreta')).toBe(true);
+    expect(await AuthLogic.passwordCorrecta(credencial, 'otra')).toBe(false);
+    expect(AuthLogic.publico(credencial)).not.toHaveProperty('hash');
+  });
+
+  it('rechaza los datos incompletos o repetidos', async () => {
+    const existente = await AuthLogic.nuevaCredencial(alta(), []);
+
+    await expect(AuthLogic.nuevaCredencial(alta({ usuario: '  ' }), [])).rejects.toThrow('usuario_obligatorio');
+    await expect(AuthLogic.nuevaCredencial(alta({ password: '123' }), [])).rejects.toThrow('password_corta');
+    await expect(AuthLogic.nuevaCredencial(alta({ usuario: 'ROS' }), [existente])).rejects.toThrow('usuario_repetido');
+    await expect(AuthLogic.nuevaCredencial(alta({ sede: null }), [])).rejects.toThrow('recepcionista_sin_sede');
+  });
+});
+
+describe('AuthLogic.validarBaja', () => {
+  const credencial = (id: string, rol: Usuario['rol'], organizacionId = 'principal'): Credencial =>
+    ({ id, usuario: id, nombre: id, rol, sede: null, organizacionId, salt: '', hash: '' });
+  const usuarios = [credencial('super', 'superadmin'), credencial('a1', 'admin'), credencial('r1', 'recepcionista'), credencial('a2', 'admin', 'otra')];
+
+  it('solo da de baja usuarios de la misma organización', () => {
+    expect(AuthLogic.validarBaja('r1', 'principal', usuarios).id).toBe('r1');
+    expect(() => AuthLogic.validarBaja('a2', 'principal', usuarios)).toThrow('usuario_inexistente');
+  });
+
+  it('protege al Super Admin y al último administrador', () => {
+    expect(() => AuthLogic.validarBaja('super', 'principal', usuarios)).toThrow('superadmin_no_se_elimina');
+    expect(() => AuthLogic.validarBaja('a1', 'principal', usuarios)).toThrow('ultimo_admin');
+  });
+});
@@ -0,0 +1,152 @@
+import { ErrorNegocio } from '../domain/errores';
+
+/**
+ * --- ROLES Y PERMISOS ---
+ * Un Admin puede todo. Un Recepcionista trabaja solo con los socios de su
+ * sede, no puede eliminar socios ni tocar precios. Los permisos son una tabla
+ * fija por rol: preguntar "¿puede?" es buscar en la tabla, como un switch en C.
+ * El Super Admin es el dueño del servicio: además puede crear gimnasios
+ * (organizaciones) y entrar a cualquiera de ellos.
+ */
+export type Rol = 'superadmin' | 'admin' | 'recepcionista';
+
+export type Permiso =
+  | 'socios.eliminar'
+  | 'socios.importar'
+  | 'precios.editar'
+  | 'usuarios.gestionar'
+  | 'sedes.gestionar'
+  | 'sedes.todas'
+  | 'reportes.ver'
+  | 'clases.gestionar'
+  | 'personal.gestionar'
+  | 'notificaciones.gestionar'
+  | 'organizaciones.gestionar';
+
+export interface Usuario {
+  id: string;
+  usuario: string;
+  nombre: string;
+  rol: Rol;
+  sede: string | null; // null = todas las sedes
+  organizacionId: string;
+}
+
+// Lo que se persiste: nunca la contraseña, solo su hash con sal.
+export interface Credencial extends Usuario {
+  salt: string;
+  hash: string;
+}
+
+export interface NuevoUsuario {
+  usuario: string;
+  nombre: string;
+  password: string;
+  rol: Rol;
+  sede: string | null;
+  organizacionId: string;
+}
+
+export interface Sesion {
+  token: string;
+  usuarioId: string;
+  expira: string;
+}
+
+const PERMISOS_ADMIN: Permiso[] = [
+  'socios.eliminar', 'socios.importar', 'precios.editar', 'usuarios.gestionar', 'sedes.gestionar', 'sedes.todas', 'reportes.ver', 'clases.gestionar', 'personal.gestionar', 'notificaciones.gestionar'
+];
+
+const PERMISOS: Record<Rol, Permiso[]> = {
+  superadmin: [...PERMISOS_ADMIN, 'organizaciones.gestionar'],
+  admin: PERMISOS_ADMIN,
+  recepcionista: []
+};
+
+export const DURACION_SESION_MS = 12 * 60 * 60 * 1000; // Un turno largo de recepción
+
+const ITERACIONES_PBKDF2 = 100_000;
+
+const aHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+export class AuthLogic {
+  static publico({ salt, hash, ...usuario }: Credencial): Usuario {
+    return usuario;
+  }
+
+  /**
+   * Arma la credencial de un usuario nuevo o lanza un error listo para
+   * mostrar. La usan la terminal (modo local) y el servidor por igual.
+   */
+  static async nuevaCredencial(datos: NuevoUsuario, existentes: Credencial[]): Promise<Credencial> {
+    const nombreUsuario = datos.usuario.trim().toLowerCase();
+    if (!nombreUsuario) throw new ErrorNegocio('usuario_obligatorio');
+    if (datos.password.length < 6) throw new ErrorNegocio('password_corta', { min: 6 });
+    if (existentes.some(u => u.usuario === nombreUsuario)) throw new ErrorNegocio('usuario_repetido');
+    if (datos.rol === 'recepcionista' && !datos.sede) throw new ErrorNegocio('recepcionista_sin_sede');
+
+    const salt = AuthLogic.nuevaSal();
+    return {
+      id: crypto.randomUUID(),
+      usuario: nombreUsuario,
+      nombre: datos.nombre.trim() || nombreUsuario,
+      rol: datos.rol,
+      sede: datos.rol === 'recepcionista' ? datos.sede : null,
+      organizacionId: datos.organizacionId,
+      salt,
+      hash: await AuthLogic.hashPassword(datos.password, salt)
+    };
+  }
+
+  /** El usuario que se puede eliminar de la organización, o un error si no se puede. */
+  static validarBaja(id: string, organizacionId: string, usuarios: Credencial[]): Credencial {
+    const usuario = usuarios.find(u => u.id === id && u.organizacionId === organizacionId);
+    if (!usuario) throw new ErrorNegocio('usuario_inexistente');
+    if (usuario.rol === 'superadmin') throw new ErrorNegocio('superadmin_no_se_elimina');
+    const admins = usuarios.filter(u => u.organizacionId === organizacionId && u.rol === 'admin');
+    if (usuario.rol === 'admin' && admins.length === 1) throw new ErrorNegocio('ultimo_admin');
+    return usuario;
+  }
+
+  static async passwordCorrecta(credencial: Credencial, password: string): Promise<boolean> {
+    return (await AuthLogic.hashPassword(password, credencial.salt)) === credencial.hash;
+  }
+
+  static puede(usuario: Usuario, permiso: Permiso): boolean {
+    return PERMISOS[usuario.rol].includes(permiso);
+  }
+
+  /** La sede a la que está limitado el usuario, o null si trabaja con todas. */
+  static sedeFija(usuario: Usuario): string | null {
+    return AuthLogic.puede(usuario, 'sedes.todas') ? null : usuario.sede;
+  }
+
+  static veSede(usuario: Usuario, sede: string): boolean {
+    const fija = AuthLogic.sedeFija(usuario);
+    return fija === null || sede === fija;
+  }
+
+  static sedesPermitidas(usuario: Usuario, sedes: string[]): string[] {
+    return AuthLogic.sedeFija(usuario) === null ? sedes : sedes.filter(s => AuthLogic.veSede(usuario, s));
+  }
+
+  static filtrarPorSede<T extends { sede: string }>(usuario: Usuario, items: T[]): T[] {
+    return AuthLogic.sedeFija(usuario) === null ? items : items.filter(i => AuthLogic.veSede(usuario, i.sede));
+  }
+
+  static nuevaSal(): string {
+    return aHex(crypto.getRandomValues(new Uint8Array(16)));
+  }
+
+  // PBKDF2 de la Web Crypto API: lento a propósito para frenar ataques de fuerza bruta.
+  static async hashPassword(password: string, salt: string): Promise<string> {
+    const clave = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: ITERACIONES_PBKDF2 },
+      clave,
+      256
+    );
+    return aHex(bits);
+  }
+}
@@ -0,0 +1,10 @@
+import { AuthService } from './AuthService';
+import { LocalAuthService } from './LocalAuthService';
+import { HttpAuthService } from './HttpAuthService';
+import { TipoPersistencia } from '../persistence/crearSocioRepository';
+
+// Con el servidor compartido, los usuarios viven en el servidor igual que el padrón.
+export const crearAuthService = (
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local'
+): AuthService =>
+  tipo === 'http' ? new HttpAuthService(import.meta.env.VITE_API_URL ?? '') : new LocalAuthService();
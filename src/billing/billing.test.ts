@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+
+import { BillingLogic, LEDGER_VACIO, LedgerFacturacion } from './billing';
+import { Socio } from '../domain/socio';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+describe('BillingLogic.sincronizar', () => {
+  it('abre el ciclo de un socio nuevo con el día de hoy como vencimiento', () => {
+    const ledger = BillingLogic.sincronizar(LEDGER_VACIO, [unSocio()], new Date(2026, 2, 15));
+
+    expect(ledger.ciclos).toEqual([{ socioId: 's1', diaVencimiento: 15, desde: '2026-03' }]);
+    expect(ledger.facturas).toEqual([
+      { id: expect.any(String), socioId: 's1', periodo: '2026-03', vencimiento: '2026-03-15', importe: 18000, recargo: 0 }
+    ]);
+  });
+
+  it('el vencimiento nunca pasa del 28, para que exista en febrero', () => {
+    const ledger = BillingLogic.sincronizar(LEDGER_VACIO, [unSocio()], new Date(2026, 0, 31));
+
+    expect(ledger.ciclos[0].diaVencimiento).toBe(28);
+    expect(ledger.facturas[0].vencimiento).toBe('2026-01-28');
+  });
+
+  it('es idempotente', () => {
+    const socios = [unSocio()];
+    const hoy = new Date(2026, 2, 15);
+    const una = BillingLogic.sincronizar(LEDGER_VACIO, socios, hoy);
+
+    expect(BillingLogic.sincronizar(una, socios, hoy)).toEqual(una);
+  });
+
+  it('emite los meses que faltan y recarga los vencidos impagos', () => {
+    const previo: LedgerFacturacion = { ...LEDGER_VACIO, ciclos: [{ socioId: 's1', diaVencimiento: 5, desde: '2026-01' }] };
+    const ledger = BillingLogic.sincronizar(previo, [unSocio()], new Date(2026, 2, 3));
+
+    expect(ledger.facturas.map(f => [f.periodo, f.recargo])).toEqual([
+      ['2026-01', 1800],
+      ['2026-02', 1800],
+      ['2026-03', 0]
+    ]);
+  });
+
+  it('no recarga una factura ya pagada', () => {
+    const hoy = new Date(2026, 0, 5);
+    const emitido = BillingLogic.sincronizar(LEDGER_VACIO, [unSocio()], hoy);
+    const pagado = BillingLogic.registrarPago(emitido, emitido.facturas[0].id, 'efectivo', hoy);
+    const despues = BillingLogic.sincronizar(pagado, [unSocio()], new Date(2026, 0, 20));
+
+    expect(despues.facturas[0].recargo).toBe(0);
+    expect(BillingLogic.estado(despues, despues.facturas[0], new Date(2026, 0, 20))).toBe('pagada');
+  });
+
+  it('solo las membresías activas generan cuotas', () => {
+    const socios = [unSocio({ estado: 'prueba' }), unSocio({ id: 's2', estado: 'congelada' }), unSocio({ id: 's3', estado: 'cancelada' })];
+
+    expect(BillingLogic.sincronizar(LEDGER_VACIO, socios, new Date(2026, 2, 15))).toEqual(LEDGER_VACIO);
+  });
+
+  it('no cobra los meses anteriores a la última reactivación', () => {
+    const previo: LedgerFacturacion = { ...LEDGER_VACIO, ciclos: [{ socioId: 's1', diaVencimiento: 10, desde: '2025-11' }] };
+    const ledger = BillingLogic.sincronizar(previo, [unSocio({ inicio: '2026-02-20' })], new Date(2026, 2, 15));
+
+    expect(ledger.facturas.map(f => f.periodo)).toEqual(['2026-02', '2026-03']);
+  });
+
+  it('descuenta los días congelados de la cuota de su mes y no factura un mes congelado entero', () => {
+    const previo: LedgerFacturacion = { ...LEDGER_VACIO, ciclos: [{ socioId: 's1', diaVencimiento: 10, desde: '2026-01' }] };
+    const socio = unSocio({
+      congelamientos: [
+        { desde: '2026-02-15', hasta: '2026-02-28', motivo: 'vacaciones' },
+        { desde: '2026-03-01', hasta: '2026-03-31', motivo: 'medico' },
+        { desde: '2026-04-01', hasta: '2026-04-03', motivo: 'medico' }
+      ]
+    });
+    const ledger = BillingLogic.sincronizar(previo, [socio], new Date(2026, 3, 15));
+
+    // Febrero: 14 de 28 días; abril: 27 de 30.
+    expect(ledger.facturas.map(f => [f.periodo, f.importe])).toEqual([['2026-01', 18000], ['2026-02', 9000], ['2026-04', 16200]]);
+  });
+
+  it('factura el prepago en una sola cuota y no vuelve a cobrar los meses que cubre', () => {
+    const socio = unSocio({ importe: 15000, mesesPrepago: 12 });
+    const alta = BillingLogic.sincronizar(LEDGER_VACIO, [socio], new Date(2026, 0, 10));
+
+    expect(alta.facturas).toEqual([
+      { id: 's1:2026-01', socioId: 's1', periodo: '2026-01', vencimiento: '2026-01-10', importe: 180000, recargo: 0, meses: 12 }
+    ]);
+    expect(BillingLogic.etiquetaPeriodo(alta.facturas[0])).toBe('2026-01 – 2026-12');
+
+    const pagado = BillingLogic.registrarPago(alta, 's1:2026-01', 'tarjeta', new Date(2026, 0, 10));
+    const finDeAnio = BillingLogic.sincronizar(pagado, [socio], new Date(2026, 11, 20));
+    expect(finDeAnio.facturas).toHaveLength(1);
+
+    const renovacion = BillingLogic.sincronizar(finDeAnio, [socio], new Date(2027, 0, 5));
+    expect(renovacion.facturas.map(f => f.periodo)).toEqual(['2026-01', '2027-01']);
+  });
+});
+
+describe('BillingLogic.registrarPago', () => {
+  const hoy = new Date(2026, 2, 15);
+  const emitido = BillingLogic.sincronizar(LEDGER_VACIO, [unSocio()], hoy);
+  const factura = emitido.facturas[0];
+
+  it('acepta pagos parciales y nunca cobra de más', () => {
+    const parcial = BillingLogic.registrarPago(emitido, factura.id, 'efectivo', hoy, 8000);
+    expect(BillingLogic.saldo(parcial, factura)).toBe(10000);
+    expect(BillingLogic.estado(parcial, factura, hoy)).toBe('pendiente');
+
+    const total = BillingLogic.registrarPago(parcial, factura.id, 'efectivo', hoy, 50000);
+    expect(total.pagos.map(p => p.monto)).toEqual([8000, 10000]);
+    expect(BillingLogic.registrarPago(total, factura.id, 'efectivo', hoy)).toBe(total);
+  });
+
+  it('ignora una factura que no existe', () => {
+    expect(BillingLogic.registrarPago(emitido, 'no-existe', 'efectivo', hoy)).toBe(emitido);
+  });
+});
+
+describe('BillingLogic.resumen', () => {
+  it('cuenta lo facturado, lo cobrado y lo vencido solo de los socios del padrón', () => {
+    const previo: LedgerFacturacion = {
+      ...LEDGER_VACIO,
+      ciclos: [{ socioId: 's1', diaVencimiento: 5, desde: '2026-02' }, { socioId: 's2', diaVencimiento: 5, desde: '2026-03' }]
+    };
+    const hoy = new Date(2026, 2, 10);
+    const emitido = BillingLogic.sincronizar(previo, [unSocio(), unSocio({ id: 's2', importe: 12000 })], hoy);
+    const marzo = emitido.facturas.find(f => f.socioId === 's1' && f.periodo === '2026-03')!;
+    const ledger = BillingLogic.registrarPago(emitido, marzo.id, 'tarjeta', hoy);
+
+    expect(BillingLogic.resumen(ledger, [unSocio()], hoy)).toEqual({
+      periodo: '2026-03',
+      esperado: 19800,
+      cobrado: 19800,
+      vencido: 19800
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { Socio } from '../domain/socio';
+import { MembresiaLogic } from '../membership/membresia';
+
+/**
+ * --- FACTURACIÓN MENSUAL (LIBRO DE COBRANZAS) ---
+ * Cada socio tiene un ciclo con un día fijo de vencimiento. Por cada mes
+ * (periodo "YYYY-MM") se emite una factura; los pagos se registran aparte,
+ * como los asientos de un libro contable, y el saldo se deriva de ellos.
+ */
+export type MetodoPago = 'efectivo' | 'tarjeta';
+export type EstadoFactura = 'pagada' | 'pendiente' | 'vencida';
+
+export interface CicloFacturacion {
+  socioId: string;
+  diaVencimiento: number;
+  desde: string;
+}
+
+export interface Factura {
+  id: string;
+  socioId: string;
+  periodo: string;
+  vencimiento: string;
+  importe: number;
+  recargo: number;
+  meses?: number; // Cuotas que cubre desde 'periodo': más de una si el socio pagó por adelantado
+}
+
+export interface Pago {
+  id: string;
+  facturaId: string;
+  socioId: string;
+  fecha: string;
+  monto: number;
+  metodo: MetodoPago;
+}
+
+export interface LedgerFacturacion {
+  ciclos: CicloFacturacion[];
+  facturas: Factura[];
+  pagos: Pago[];
+}
+
+export interface ResumenCobranza {
+  periodo: string;
+  esperado: number;
+  cobrado: number;
+  vencido: number;
+}
+
+export const LEDGER_VACIO: LedgerFacturacion = { ciclos: [], facturas: [], pagos: [] };
+
+export const RECARGO_MORA = 0.1; // 10% sobre el importe al pasar el vencimiento
+const DIA_VENCIMIENTO_MAX = 28; // Así el vencimiento existe en todos los meses
+
+const dosDigitos = (n: number) => n.toString().padStart(2, '0');
+
+// El día 0 del mes siguiente es el último de este.
+const diasDelMes = (periodo: string) => {
+  const [anio, mes] = periodo.split('-').map(Number);
+  return new Date(anio, mes, 0).getDate();
+};
+
+export const formatearFecha = (d: Date): string =>
+  `${d.getFullYear()}-${dosDigitos(d.getMonth() + 1)}-${dosDigitos(d.getDate())}`;
+
+export class BillingLogic {
+  static periodoDe(fecha: Date): string {
+    return `${fecha.getFullYear()}-${dosDigitos(fecha.getMonth() + 1)}`;
+  }
+
+  static siguientePeriodo(periodo: string): string {
+    return BillingLogic.sumarMeses(periodo, 1);
+  }
+
+  static sumarMeses(periodo: string, meses: number): string {
+    const [anio, mes] = periodo.split('-').map(Number);
+    const indice = anio * 12 + (mes - 1) + meses;
+    return `${Math.floor(indice / 12)}-${dosDigitos((indice % 12) + 1)}`;
+  }
+
+  /** Si la factura incluye la cuota de ese periodo (una prepaga cubre varios). */
+  static cubre(f: Factura, periodo: string): boolean {
+    return f.periodo <= periodo && periodo < BillingLogic.sumarMeses(f.periodo, f.meses ?? 1);
+  }
+
+  // "2026-03", o "2026-03 – 2027-02" si la factura cubre un año prepago.
+  static etiquetaPeriodo(f: Factura): string {
+    const meses = f.meses ?? 1;
+    return meses > 1 ? `${f.periodo} – ${BillingLogic.sumarMeses(f.periodo, meses - 1)}` : f.periodo;
+  }
+
+  // Cada mes que cubre la factura cuenta la parte que no estuvo congelada: 14 días congelados de 28 son media cuota.
+  private static cuotasACobrar(socio: Socio, periodo: string, meses: number): number {
+    let cuotas = 0;
+    for (let i = 0; i < meses; i++) {
+      const mes = BillingLogic.sumarMeses(periodo, i);
+      const dias = diasDelMes(mes);
+      cuotas += (dias - MembresiaLogic.diasCongelados(socio, `${mes}-01`, `${mes}-${dosDigitos(dias)}`)) / dias;
+    }
+    return cuotas;
+  }
+
+  static totalFactura(f: Factura): number {
+    return f.importe + f.recargo;
+  }
+
+  static pagado(ledger: LedgerFacturacion, facturaId: string): number {
+    return ledger.pagos
+      .filter(p => p.facturaId === facturaId)
+      .reduce((acc, p) => acc + p.monto, 0);
+  }
+
+  static saldo(ledger: LedgerFacturacion, f: Factura): number {
+    return Math.max(0, BillingLogic.totalFactura(f) - BillingLogic.pagado(ledger, f.id));
+  }
+
+  static estado(ledger: LedgerFacturacion, f: Factura, hoy: Date): EstadoFactura {
+    if (BillingLogic.saldo(ledger, f) === 0) return 'pagada';
+    return formatearFecha(hoy) > f.vencimiento ? 'vencida' : 'pendiente';
+  }
+
+  /**
+   * Pone el libro al día: abre ciclo a los socios nuevos, emite las facturas
+   * faltantes hasta el periodo actual y aplica el recargo por mora a las
+   * facturas impagas vencidas. Solo las membresías activas generan cuotas
+   * nuevas, y no se cobra un mes anterior a la última reactivación. Los días
+   * congelados se descuentan de la cuota de su mes al emitirla (un mes
+   * congelado entero no se factura). Quien paga por adelantado recibe una
+   * sola factura por todos esos meses, y los meses que ya cubre no vuelven a
+   * facturarse.
+   * Es idempotente: llamarla dos veces no duplica nada.
+   */
+  static sincronizar(ledger: LedgerFacturacion, socios: Socio[], hoy: Date): LedgerFacturacion {
+    const periodoActual = BillingLogic.periodoDe(hoy);
+    const ciclos = [...ledger.ciclos];
+    const facturas = [...ledger.facturas];
+
+    for (const socio of socios.filter(s => MembresiaLogic.facturable(s))) {
+      const meses = Math.max(1, Math.floor(socio.mesesPrepago ?? 1));
+      let ciclo = ciclos.find(c => c.socioId === socio.id);
+      if (!ciclo) {
+        ciclo = {
+          socioId: socio.id,
+          diaVencimiento: Math.min(hoy.getDate(), DIA_VENCIMIENTO_MAX),
+          desde: periodoActual
+        };
+        ciclos.push(ciclo);
+      }
+
+      for (let periodo = ciclo.desde; periodo <= periodoActual; periodo = BillingLogic.siguientePeriodo(periodo)) {
+        if (facturas.some(f => f.socioId === socio.id && BillingLogic.cubre(f, periodo))) continue;
+        if (periodo < socio.inicio.slice(0, 7)) continue;
+        const cuotas = BillingLogic.cuotasACobrar(socio, periodo, meses);
+        if (cuotas === 0) continue;
+        facturas.push({
+          // Id fijo por socio y periodo: dos recepciones que emiten la misma cuota emiten la misma factura.
+          id: `${socio.id}:${periodo}`,
+          socioId: socio.id,
+          periodo,
+          vencimiento: `${periodo}-${dosDigitos(ciclo.diaVencimiento)}`,
+          importe: Math.round(socio.importe * cuotas),
+          recargo: 0,
+          ...(meses > 1 ? { meses } : {})
+        });
+      }
+    }
+
+    const conRecargos = facturas.map(f =>
+      f.recargo === 0 && BillingLogic.estado(ledger, f, hoy) === 'vencida'
+        ? { ...f, recargo: Math.round(f.importe * RECARGO_MORA) }
+        : f
+    );
+
+    return { ...ledger, ciclos, facturas: conRecargos };
+  }
+
+  static registrarPago(
+    ledger: LedgerFacturacion,
+    facturaId: string,
+    metodo: MetodoPago,
+    hoy: Date,
+    monto?: number
+  ): LedgerFacturacion {
+    const factura = ledger.facturas.find(f => f.id === facturaId);
+    if (!factura) return ledger;
+
+    const saldo = BillingLogic.saldo(ledger, factura);
+    const importePago = Math.min(monto ?? saldo, saldo);
+    if (importePago <= 0) return ledger;
+
+    const pago: Pago = {
+      id: crypto.randomUUID(),
+      facturaId,
+      socioId: factura.socioId,
+      fecha: hoy.toISOString(),
+      monto: importePago,
+      metodo
+    };
+    return { ...ledger, pagos: [...ledger.pagos, pago] };
+  }
+
+  // Saldo impago de facturas vencidas, por socio (los que están al día no figuran).
+  static deudaPorSocio(ledger: LedgerFacturacion, hoy: Date): Map<string, number> {
+    const deudas = new Map<string, number>();
+    for (const f of ledger.facturas) {
+      if (BillingLogic.estado(ledger, f, hoy) !== 'vencida') continue;
+      deudas.set(f.socioId, (deudas.get(f.socioId) ?? 0) + BillingLogic.saldo(ledger, f));
+    }
+    return deudas;
+  }
+
+  /**
+   * Esperado: lo facturado en el periodo actual. Cobrado: los pagos recibidos
+   * este mes (de cualquier periodo). Vencido: saldo impago de facturas vencidas.
+   * Solo cuenta socios que siguen en el padrón.
+   */
+  static resumen(ledger: LedgerFacturacion, socios: Socio[], hoy: Date): ResumenCobranza {
+    const periodo = BillingLogic.periodoDe(hoy);
+    const ids = new Set(socios.map(s => s.id));
+    const facturas = ledger.facturas.filter(f => ids.has(f.socioId));
+
+    const esperado = facturas
+      .filter(f => f.periodo === periodo)
+      .reduce((acc, f) => acc + BillingLogic.totalFactura(f), 0);
+    const cobrado = ledger.pagos
+      .filter(p => ids.has(p.socioId) && BillingLogic.periodoDe(new Date(p.fecha)) === periodo)
+      .reduce((acc, p) => acc + p.monto, 0);
+    const vencido = facturas
+      .filter(f => BillingLogic.estado(ledger, f, hoy) === 'vencida')
+      .reduce((acc, f) => acc + BillingLogic.saldo(ledger, f), 0);
+
+    return { periodo, esperado, cobrado, vencido };
+  }
+}
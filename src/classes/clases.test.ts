@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { Clase, ClasesLogic, Reserva } from './clases';
+import { Socio } from '../domain/socio';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+// Martes 19:00 en Córdoba, con dos lugares.
+const unaClase = (cambios: Partial<Clase> = {}): Clase => ({
+  id: 'spinning', nombre: 'Spinning', sede: 'CBA', instructor: 'Caro', sala: 'Sala 1', dia: 2, hora: '19:00',
+  duracionMin: 60, capacidad: 2, membresiasPermitidas: [], activa: true, ...cambios
+});
+
+const MARTES = '2026-03-17';
+const lunes = new Date(2026, 2, 16, 10);
+const minuto = (n: number) => new Date(2026, 2, 16, 10, n);
+
+// Reserva a cada socio un minuto después del anterior, para que el orden de llegada sea claro.
+const reservarTodos = (clase: Clase, ...ids: string[]): Reserva[] =>
+  ids.reduce<Reserva[]>(
+    (reservas, id, i) => ClasesLogic.reservar(reservas, clase, unSocio({ id, nombre: id }), MARTES, minuto(i)).reservas,
+    []
+  );
+
+const estados = (reservas: Reserva[]) => Object.fromEntries(reservas.map(r => [r.socioId, r.estado]));
+
+describe('ClasesLogic calendario', () => {
+  it('la semana arranca el lunes y las ocurrencias salen ordenadas por horario', () => {
+    const domingo = unaClase({ id: 'yoga', dia: 0, hora: '09:00' });
+    const inactiva = unaClase({ id: 'box', dia: 1, activa: false });
+    const ocurrencias = ClasesLogic.ocurrenciasSemana([domingo, unaClase(), inactiva], ClasesLogic.inicioSemana(new Date(2026, 2, 19)));
+
+    expect(ClasesLogic.inicioSemana(new Date(2026, 2, 22))).toEqual(new Date(2026, 2, 16));
+    expect(ocurrencias.map(o => [o.clase.id, o.fecha])).toEqual([['spinning', MARTES], ['yoga', '2026-03-22']]);
+  });
+
+  it('detecta dos clases en la misma sala que se pisan', () => {
+    const existente = unaClase();
+
+    expect(ClasesLogic.superpuesta([existente], unaClase({ id: 'funcional', hora: '19:30', sala: ' sala 1 ' }))).toBe(existente);
+    expect(ClasesLogic.superpuesta([existente], unaClase({ id: 'funcional', hora: '20:00' }))).toBeUndefined();
+    expect(ClasesLogic.superpuesta([existente], unaClase({ id: 'funcional', sala: 'Sala 2' }))).toBeUndefined();
+  });
+});
+
+describe('ClasesLogic.reservar', () => {
+  it('confirma mientras haya cupo y después anota en lista de espera', () => {
+    const reservas = reservarTodos(unaClase(), 'a', 'b', 'c');
+
+    expect(estados(reservas)).toEqual({ a: 'confirmada', b: 'confirmada', c: 'espera' });
+  });
+
+  it('explica por qué no deja reservar', () => {
+    const clase = unaClase({ membresiasPermitidas: ['PRE'] });
+    const socio = unSocio({ membresia: 'PRE' });
+    const anotado = ClasesLogic.reservar([], clase, socio, MARTES, lunes).reservas;
+
+    expect(ClasesLogic.motivoRechazo(clase, unSocio(), [], MARTES, lunes)).toEqual({ codigo: 'plan_sin_clase', variables: { clase: 'Spinning' } });
+    expect(ClasesLogic.motivoRechazo(clase, unSocio({ membresia: 'PRE', estado: 'cancelada' }), [], MARTES, lunes))
+      .toEqual({ codigo: 'reserva_no_habilitada', variables: { nombre: 'Ana Pérez', estado: { clave: 'membresia.cancelada' } } });
+    expect(ClasesLogic.motivoRechazo(clase, socio, [], MARTES, new Date(2026, 2, 17, 19))).toEqual({ codigo: 'clase_empezada' });
+    expect(ClasesLogic.motivoRechazo(clase, socio, anotado, MARTES, lunes)).toEqual({ codigo: 'ya_anotado', variables: { nombre: 'Ana Pérez' } });
+    expect(() => ClasesLogic.reservar([], unaClase({ activa: false }), socio, MARTES, lunes)).toThrow('clase_inactiva');
+  });
+});
+
+describe('ClasesLogic.cancelar', () => {
+  it('al liberar un lugar sube el primero de la lista de espera', () => {
+    const clase = unaClase();
+    const reservas = reservarTodos(clase, 'a', 'b', 'c', 'd');
+    const deA = reservas.find(r => r.socioId === 'a')!;
+    const { reservas: despues, cambiadas } = ClasesLogic.cancelar(reservas, clase, deA.id, minuto(10));
+
+    expect(estados(despues)).toEqual({ a: 'cancelada', b: 'confirmada', c: 'confirmada', d: 'espera' });
+    expect(cambiadas.map(r => r.socioId)).toEqual(['a', 'c']);
+  });
+
+  it('cancelar alguien en espera no promueve a nadie', () => {
+    const clase = unaClase();
+    const reservas = reservarTodos(clase, 'a', 'b', 'c', 'd');
+    const deC = reservas.find(r => r.socioId === 'c')!;
+
+    expect(estados(ClasesLogic.cancelar(reservas, clase, deC.id, minuto(10)).reservas)).toEqual({ a: 'confirmada', b: 'confirmada', c: 'cancelada', d: 'espera' });
+  });
+
+  it('si se amplió el cupo, suben tantos como lugares haya', () => {
+    const reservas = reservarTodos(unaClase(), 'a', 'b', 'c', 'd');
+    const ampliada = unaClase({ capacidad: 4 });
+    const deA = reservas.find(r => r.socioId === 'a')!;
+
+    expect(estados(ClasesLogic.cancelar(reservas, ampliada, deA.id, minuto(10)).reservas)).toEqual({ a: 'cancelada', b: 'confirmada', c: 'confirmada', d: 'confirmada' });
+  });
+
+  it('cancelar dos veces no cambia nada', () => {
+    const clase = unaClase();
+    const reservas = reservarTodos(clase, 'a');
+    const { reservas: canceladas } = ClasesLogic.cancelar(reservas, clase, reservas[0].id, minuto(10));
+
+    expect(ClasesLogic.cancelar(canceladas, clase, reservas[0].id, minuto(11)).cambiadas).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { Socio } from '../domain/socio';
+import { formatearFecha } from '../billing/billing';
+import { MembresiaLogic } from '../membership/membresia';
+import { ErrorNegocio, MotivoError } from '../domain/errores';
+
+/**
+ * --- CLASES Y RESERVAS ---
+ * Una clase es una plantilla semanal (todos los martes 19:00 en CBA); cada
+ * fecha concreta es una "ocurrencia" y las reservas apuntan a clase + fecha.
+ * Cuando se llena el cupo, las reservas nuevas entran en lista de espera y
+ * al cancelarse una confirmada sube la primera de la lista, por orden de
+ * llegada: como una cola (FIFO) en C.
+ */
+export type EstadoReserva = 'confirmada' | 'espera' | 'cancelada';
+
+export interface Clase {
+  id: string;
+  nombre: string;
+  sede: string;
+  instructor: string;
+  instructorId?: string;          // Empleado que la dicta (para la liquidación)
+  sala: string;
+  dia: number;                    // 0 = domingo ... 6 = sábado (como Date.getDay())
+  hora: string;                   // "HH:MM"
+  duracionMin: number;
+  capacidad: number;
+  membresiasPermitidas: string[]; // vacío = cualquier plan
+  activa: boolean;
+}
+
+export interface Reserva {
+  id: string;
+  claseId: string;
+  fecha: string;    // "YYYY-MM-DD" de la ocurrencia
+  socioId: string;
+  estado: EstadoReserva;
+  creada: string;
+  actualizada: string;
+}
+
+export interface Ocurrencia {
+  clase: Clase;
+  fecha: string;
+  inicio: Date;
+}
+
+export interface ResultadoReserva {
+  reservas: Reserva[];
+  cambiadas: Reserva[]; // Lo que hay que persistir
+}
+
+// La semana del calendario arranca el lunes.
+export const ORDEN_SEMANA = [1, 2, 3, 4, 5, 6, 0];
+
+export class ClasesLogic {
+  static inicioSemana(fecha: Date): Date {
+    const lunes = new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate());
+    lunes.setDate(lunes.getDate() - ((lunes.getDay() + 6) % 7));
+    return lunes;
+  }
+
+  static inicio(clase: Clase, fecha: string): Date {
+    return new Date(`${fecha}T${clase.hora}:00`);
+  }
+
+  static ocurrenciasSemana(clases: Clase[], lunes: Date): Ocurrencia[] {
+    return clases
+      .filter(c => c.activa)
+      .map(clase => {
+        const dia = new Date(lunes);
+        dia.setDate(lunes.getDate() + ORDEN_SEMANA.indexOf(clase.dia));
+        const fecha = formatearFecha(dia);
+        return { clase, fecha, inicio: ClasesLogic.inicio(clase, fecha) };
+      })
+      .sort((a, b) => a.inicio.getTime() - b.inicio.getTime());
+  }
+
+  /** Reservas vigentes de una ocurrencia, por orden de llegada. */
+  static deOcurrencia(reservas: Reserva[], claseId: string, fecha: string): Reserva[] {
+    return reservas
+      .filter(r => r.claseId === claseId && r.fecha === fecha && r.estado !== 'cancelada')
+      .sort((a, b) => a.creada.localeCompare(b.creada));
+  }
+
+  static confirmadas(reservas: Reserva[], claseId: string, fecha: string): Reserva[] {
+    return ClasesLogic.deOcurrencia(reservas, claseId, fecha).filter(r => r.estado === 'confirmada');
+  }
+
+  static enEspera(reservas: Reserva[], claseId: string, fecha: string): Reserva[] {
+    return ClasesLogic.deOcurrencia(reservas, claseId, fecha).filter(r => r.estado === 'espera');
+  }
+
+  /** Motivo por el que el socio no puede reservar, o null si puede. */
+  static motivoRechazo(clase: Clase, socio: Socio, reservas: Reserva[], fecha: string, ahora: Date): MotivoError | null {
+    if (!clase.activa) return { codigo: 'clase_inactiva' };
+    if (!MembresiaLogic.habilitado(socio)) {
+      return { codigo: 'reserva_no_habilitada', variables: { nombre: socio.nombre, estado: { clave: `membresia.${socio.estado}` } } };
+    }
+    if (ClasesLogic.inicio(clase, fecha).getTime() <= ahora.getTime()) return { codigo: 'clase_empezada' };
+    if (clase.membresiasPermitidas.length > 0 && !clase.membresiasPermitidas.includes(socio.membresia)) {
+      return { codigo: 'plan_sin_clase', variables: { clase: clase.nombre } };
+    }
+    if (ClasesLogic.deOcurrencia(reservas, clase.id, fecha).some(r => r.socioId === socio.id)) {
+      return { codigo: 'ya_anotado', variables: { nombre: socio.nombre } };
+    }
+    return null;
+  }
+
+  /** Confirma si hay cupo; si no, la reserva entra a la lista de espera. */
+  static reservar(reservas: Reserva[], clase: Clase, socio: Socio, fecha: string, ahora: Date): ResultadoReserva {
+    const motivo = ClasesLogic.motivoRechazo(clase, socio, reservas, fecha, ahora);
+    if (motivo) throw new ErrorNegocio(motivo.codigo, motivo.variables);
+
+    const hayCupo = ClasesLogic.confirmadas(reservas, clase.id, fecha).length < clase.capacidad;
+    const reserva: Reserva = {
+      id: crypto.randomUUID(),
+      claseId: clase.id,
+      fecha,
+      socioId: socio.id,
+      estado: hayCupo ? 'confirmada' : 'espera',
+      creada: ahora.toISOString(),
+      actualizada: ahora.toISOString()
+    };
+    return { reservas: [...reservas, reserva], cambiadas: [reserva] };
+  }
+
+  /**
+   * Cancela una reserva. Si liberó un lugar confirmado, sube a la primera
+   * persona de la lista de espera (y a más, si se había ampliado el cupo).
+   */
+  static cancelar(reservas: Reserva[], clase: Clase, reservaId: string, ahora: Date): ResultadoReserva {
+    const reserva = reservas.find(r => r.id === reservaId);
+    if (!reserva || reserva.estado === 'cancelada') return { reservas, cambiadas: [] };
+
+    const cancelada: Reserva = { ...reserva, estado: 'cancelada', actualizada: ahora.toISOString() };
+    let resultado = reservas.map(r => (r.id === reservaId ? cancelada : r));
+    const cambiadas = [cancelada];
+
+    const libres = clase.capacidad - ClasesLogic.confirmadas(resultado, clase.id, reserva.fecha).length;
+    for (const promovida of ClasesLogic.enEspera(resultado, clase.id, reserva.fecha).slice(0, Math.max(0, libres))) {
+      const confirmada: Reserva = { ...promovida, estado: 'confirmada', actualizada: ahora.toISOString() };
+      resultado = resultado.map(r => (r.id === promovida.id ? confirmada : r));
+      cambiadas.push(confirmada);
+    }
+    return { reservas: resultado, cambiadas };
+  }
+
+  // Dos clases en la misma sala y día no pueden superponerse.
+  static superpuesta(clases: Clase[], clase: Clase): Clase | undefined {
+    const minutos = (hora: string) => {
+      const [h, m] = hora.split(':').map(Number);
+      return h * 60 + m;
+    };
+    const desde = minutos(clase.hora);
+    const hasta = desde + clase.duracionMin;
+    return clases.find(c =>
+      c.id !== clase.id && c.activa && c.sede === clase.sede && c.dia === clase.dia
+      && c.sala.trim().toLowerCase() === clase.sala.trim().toLowerCase()
+      && minutos(c.hora) < hasta && desde < minutos(c.hora) + c.duracionMin
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { Insight, ProveedorConsultor, SnapshotNegocio } from './consultor';
+import { LocalConsultorProvider } from './LocalConsultorProvider';
+import { GeminiConsultorProvider } from './GeminiConsultorProvider';
+import { InsightRepository } from '../persistence/InsightRepository';
+
+/**
+ * Pide el análisis al proveedor principal y, si falla (sin red, cuota
+ * agotada, respuesta inválida), al de respaldo. El resultado queda en el
+ * historial con el nombre de quien lo generó.
+ */
+export class ConsultorService {
+  constructor(
+    private readonly proveedor: ProveedorConsultor,
+    private readonly historial: InsightRepository,
+    private readonly respaldo: ProveedorConsultor | null = null
+  ) {}
+
+  async analizar(snapshot: SnapshotNegocio): Promise<Insight> {
+    let proveedor = this.proveedor;
+    let recomendaciones;
+    try {
+      recomendaciones = await proveedor.recomendar(snapshot);
+    } catch (e) {
+      if (!this.respaldo) throw e;
+      console.error(`Error en ${proveedor.nombre}, usando ${this.respaldo.nombre}:`, e);
+      proveedor = this.respaldo;
+      recomendaciones = await proveedor.recomendar(snapshot);
+    }
+
+    const insight: Insight = {
+      id: crypto.randomUUID(),
+      fecha: snapshot.fecha,
+      proveedor: proveedor.nombre,
+      recomendaciones,
+      snapshot
+    };
+    await this.historial.registrar(insight);
+    return insight;
+  }
+
+  historialReciente(): Promise<Insight[]> {
+    return this.historial.listar();
+  }
+}
+
+/**
+ * Con VITE_API_KEY usa Gemini (modelo en VITE_GEMINI_MODEL) con el analista
+ * local de respaldo; sin clave, directamente el analista local.
+ */
+export const crearConsultor = (historial: InsightRepository): ConsultorService => {
+  const env = import.meta.env;
+  const apiKey = env.VITE_API_KEY;
+  const local = new LocalConsultorProvider();
+  if (!apiKey || apiKey === "TU_KEY_AQUI") return new ConsultorService(local, historial);
+  return new ConsultorService(new GeminiConsultorProvider(apiKey, env.VITE_GEMINI_MODEL || undefined), historial, local);
+};
@@ -0,0 +1,66 @@
+import { GoogleGenAI, Type } from "@google/genai";
+
+import { ConsultorLogic, MAX_RECOMENDACIONES, ProveedorConsultor, Recomendacion, SnapshotNegocio } from './consultor';
+import { ConfigRegional, Idioma, PAISES } from '../i18n/regional';
+
+const IDIOMA_RESPUESTA: Record<Idioma, string> = { es: 'español', en: 'inglés', pt: 'portugués' };
+
+// El país, el idioma y la moneda salen de la configuración del gimnasio (regional viaja también en el snapshot).
+const instrucciones = (regional: ConfigRegional) => `Sos un consultor de negocios para cadenas de gimnasios en ${PAISES[regional.pais]?.nombre ?? regional.pais}.
+Recibís un snapshot en JSON con datos reales del gimnasio; los importes están en ${regional.moneda}.
+Devolvé hasta ${MAX_RECOMENDACIONES} recomendaciones accionables, en ${regional.idioma === 'es' && regional.pais === 'AR' ? 'español rioplatense' : IDIOMA_RESPUESTA[regional.idioma]}.
+Cada una tiene que citar en "metricas" los valores del snapshot que la justifican, copiados tal cual.
+No inventes datos que no estén en el snapshot.`;
+
+// Le pedimos a Gemini JSON con esta forma exacta, así no hay que "parsear" texto libre.
+const ESQUEMA = {
+  type: Type.OBJECT,
+  properties: {
+    recomendaciones: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          titulo: { type: Type.STRING },
+          detalle: { type: Type.STRING },
+          prioridad: { type: Type.STRING, enum: ['alta', 'media', 'baja'] },
+          metricas: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { nombre: { type: Type.STRING }, valor: { type: Type.STRING } },
+              required: ['nombre', 'valor']
+            }
+          }
+        },
+        required: ['titulo', 'detalle', 'prioridad', 'metricas']
+      }
+    }
+  },
+  required: ['recomendaciones']
+};
+
+export class GeminiConsultorProvider implements ProveedorConsultor {
+  readonly nombre: string;
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string, private readonly modelo = 'gemini-2.5-flash') {
+    this.ai = new GoogleGenAI({ apiKey });
+    this.nombre = `Gemini (${modelo})`;
+  }
+
+  async recomendar(snapshot: SnapshotNegocio): Promise<Recomendacion[]> {
+    const response = await this.ai.models.generateContent({
+      model: this.modelo,
+      contents: JSON.stringify(snapshot),
+      config: {
+        systemInstruction: instrucciones(snapshot.regional),
+        responseMimeType: 'application/json',
+        responseSchema: ESQUEMA,
+        temperature: 0.2
+      }
+    });
+    if (!response.text) throw new Error('Gemini devolvió una respuesta vacía.');
+    return ConsultorLogic.normalizarRespuesta(JSON.parse(response.text));
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+
+import { LocalConsultorProvider } from './LocalConsultorProvider';
+import { ConsultorLogic, SedeSnapshot, SnapshotNegocio } from './consultor';
+import { REGIONAL_POR_DEFECTO } from '../i18n/regional';
+
+const sede = (codigo: string, nombre: string, socios: number, capacidad: number, ingresoMensual: number): SedeSnapshot =>
+  ({ codigo, nombre, socios, capacidad, ocupacion: (socios / capacidad) * 100, ingresoMensual, deudaVencida: 0 });
+
+// Un gimnasio sin alertas: cada prueba rompe solo el indicador que le importa.
+const snapshot = (cambios: Partial<SnapshotNegocio> = {}): SnapshotNegocio => ({
+  fecha: '2026-03-15T12:00:00.000Z',
+  regional: REGIONAL_POR_DEFECTO,
+  sociosActivos: 120,
+  sociosEnPrueba: 0,
+  sociosCongelados: 0,
+  sociosDeBaja: 10,
+  ingresoMensualEsperado: 2_000_000,
+  ticketPromedio: 16667,
+  cobranza: { periodo: '2026-03', esperado: 2_000_000, cobrado: 1_500_000, vencido: 50_000 },
+  morosos: 3,
+  deudaVencida: 50_000,
+  aptosVencidos: 0,
+  sedes: [sede('CBA', 'Córdoba', 70, 120, 1_200_000), sede('ROS', 'Rosario', 50, 90, 800_000)],
+  planes: [],
+  metodosPago: [{ clave: 'efectivo', nombre: 'Efectivo / Débito', socios: 90, porcentaje: 75 }, { clave: 'tarjeta', nombre: 'Tarjeta', socios: 30, porcentaje: 25 }],
+  tendencia: [
+    { periodo: 'Enero 2026', ingresos: 1_900_000, altas: 5, bajas: 2 },
+    { periodo: 'Febrero 2026', ingresos: 1_950_000, altas: 4, bajas: 3 },
+    { periodo: 'Marzo 2026', ingresos: 1_960_000, altas: 3, bajas: 3 }
+  ],
+  ...cambios
+});
+
+const analista = new LocalConsultorProvider();
+
+describe('LocalConsultorProvider', () => {
+  it('con los indicadores sanos sugiere probar novedades en la sede que más factura', async () => {
+    const [unica, ...resto] = await analista.recomendar(snapshot());
+
+    expect(resto).toEqual([]);
+    expect(unica).toMatchObject({ titulo: 'Los indicadores están sanos', prioridad: 'baja' });
+    expect(unica.detalle).toContain('Córdoba');
+    expect(unica.metricas).toEqual([{ nombre: 'Facturación mensual Córdoba', valor: '$\u00a01.200.000' }]);
+  });
+
+  it('sin socios activos propone una campaña de lanzamiento', async () => {
+    const [unica] = await analista.recomendar(snapshot({ sociosActivos: 0 }));
+
+    expect(unica.titulo).toBe('Lanzar campaña de fundadores');
+  });
+
+  it('cada alerta trae las métricas que la justifican', async () => {
+    const tendencia = [
+      { periodo: 'Enero 2026', ingresos: 1_900_000, altas: 1, bajas: 4 },
+      { periodo: 'Febrero 2026', ingresos: 2_000_000, altas: 1, bajas: 4 },
+      { periodo: 'Marzo 2026', ingresos: 1_700_000, altas: 1, bajas: 4 }
+    ];
+    const recomendaciones = await analista.recomendar(snapshot({ tendencia, deudaVencida: 300_000, morosos: 12 }));
+
+    expect(recomendaciones.map(r => r.titulo)).toEqual([
+      'Los ingresos cayeron respecto del mes pasado',
+      'Reforzar la cobranza de cuotas vencidas',
+      'Se van más socios de los que entran'
+    ]);
+    expect(recomendaciones[0].metricas).toContainEqual({ nombre: 'Variación', valor: '-15.0%' });
+    expect(recomendaciones[1].metricas).toEqual([
+      { nombre: 'Socios con deuda', valor: '12' },
+      { nombre: 'Deuda vencida', valor: '$\u00a0300.000' },
+      { nombre: 'Sobre facturación mensual', valor: '15.0%' }
+    ]);
+  });
+
+  it('avisa de las sedes llenas y de las vacías', async () => {
+    const sedes = [sede('CBA', 'Córdoba', 110, 120, 1_500_000), sede('ROS', 'Rosario', 20, 90, 300_000)];
+    const titulos = (await analista.recomendar(snapshot({ sedes }))).map(r => r.titulo);
+
+    expect(titulos).toEqual(['Córdoba está cerca de su cupo', 'Rosario tiene lugar de sobra']);
+  });
+
+  it('ordena por prioridad y no devuelve más de cinco', async () => {
+    const recomendaciones = await analista.recomendar(snapshot({
+      deudaVencida: 300_000,
+      aptosVencidos: 8,
+      sedes: [sede('CBA', 'Córdoba', 110, 120, 1_500_000), sede('ROS', 'Rosario', 20, 90, 300_000), sede('MDP', 'Mar del Plata', 5, 70, 80_000)],
+      metodosPago: [{ clave: 'tarjeta', nombre: 'Tarjeta', socios: 60, porcentaje: 50 }]
+    }));
+
+    expect(recomendaciones.map(r => r.prioridad)).toEqual(['alta', 'media', 'media', 'media', 'baja']);
+  });
+
+  it('con los mismos números responde siempre lo mismo', async () => {
+    const datos = snapshot({ deudaVencida: 300_000, aptosVencidos: 2 });
+
+    expect(await analista.recomendar(datos)).toEqual(await analista.recomendar(datos));
+  });
+});
+
+describe('ConsultorLogic.normalizarRespuesta', () => {
+  it('descarta lo que no tiene la forma esperada', () => {
+    const recomendaciones = ConsultorLogic.normalizarRespuesta({
+      recomendaciones: [
+        { titulo: ' Subir precios ', detalle: 'La demanda lo permite.', prioridad: 'urgente', metricas: [{ nombre: 'Ocupación', valor: 95 }, { nombre: '' }] },
+        { titulo: 'Sin detalle' },
+        'basura'
+      ]
+    });
+
+    expect(recomendaciones).toEqual([
+      { titulo: 'Subir precios', detalle: 'La demanda lo permite.', prioridad: 'media', metricas: [{ nombre: 'Ocupación', valor: '95' }] }
+    ]);
+  });
+
+  it('si no queda ninguna recomendación usable, falla para que actúe el respaldo', () => {
+    expect(() => ConsultorLogic.normalizarRespuesta({ recomendaciones: [{ titulo: '' }] })).toThrow();
+    expect(() => ConsultorLogic.normalizarRespuesta('no es JSON')).toThrow();
+  });
+});
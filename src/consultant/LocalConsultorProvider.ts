@@ -0,0 +1,150 @@
+import { ConsultorLogic, ProveedorConsultor, Recomendacion, SnapshotNegocio } from './consultor';
+import { FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const OCUPACION_ALTA = 90;     // % del cupo: conviene ampliar
+const OCUPACION_BAJA = 40;     // % del cupo: hay que salir a buscar socios
+const MOROSIDAD_ALERTA = 10;   // % de la facturación mensual que está vencida
+const TARJETA_ALTA = 40;       // % de socios que pagan con tarjeta
+const CAIDA_INGRESOS = -10;    // % de variación mes contra mes
+
+const pct = (n: number) => `${n.toFixed(1)}%`;
+
+/**
+ * --- LECCIÓN UTN 7: IA DETERMINÍSTICA (BASADA EN REGLAS) ---
+ * No toda "IA" necesita un servidor gigante. Aquí creamos un "Analista Local".
+ * Usamos la lógica de programación (if/else avanzados) para dar consejos reales
+ * basados en tus datos de socios. Es lo que en C harías con un motor de reglas.
+ *
+ * Sin azar ni red: con los mismos números siempre recomienda lo mismo, así
+ * que sirve de respaldo cuando Gemini no está configurado o falla.
+ */
+export class LocalConsultorProvider implements ProveedorConsultor {
+  readonly nombre = 'Analista local';
+
+  async recomendar(s: SnapshotNegocio): Promise<Recomendacion[]> {
+    const recomendaciones: Recomendacion[] = [];
+    const moneda = (n: number) => FormatoLogic.moneda(Math.round(n), s.regional);
+    const t = I18nLogic.traductor(s.regional.idioma);
+
+    if (s.sociosActivos === 0) {
+      return [{
+        titulo: t('analista.fundadores'),
+        detalle: t('analista.fundadoresDetalle'),
+        prioridad: 'alta',
+        metricas: [{ nombre: t('analista.sociosActivos'), valor: '0' }]
+      }];
+    }
+
+    const [previo, actual] = s.tendencia.slice(-2);
+    const variacion = previo && previo.ingresos > 0 ? ((actual.ingresos - previo.ingresos) / previo.ingresos) * 100 : null;
+    if (variacion !== null && variacion <= CAIDA_INGRESOS) {
+      recomendaciones.push({
+        titulo: t('analista.caida'),
+        detalle: t('analista.caidaDetalle'),
+        prioridad: 'alta',
+        metricas: [
+          { nombre: t('analista.cobrado', { periodo: previo.periodo }), valor: moneda(previo.ingresos) },
+          { nombre: t('analista.cobrado', { periodo: actual.periodo }), valor: moneda(actual.ingresos) },
+          { nombre: t('analista.variacion'), valor: pct(variacion) }
+        ]
+      });
+    }
+
+    const morosidad = s.ingresoMensualEsperado ? (s.deudaVencida / s.ingresoMensualEsperado) * 100 : 0;
+    if (morosidad >= MOROSIDAD_ALERTA) {
+      recomendaciones.push({
+        titulo: t('analista.cobranza'),
+        detalle: t('analista.cobranzaDetalle'),
+        prioridad: 'alta',
+        metricas: [
+          { nombre: t('analista.sociosConDeuda'), valor: String(s.morosos) },
+          { nombre: t('analista.deudaVencida'), valor: moneda(s.deudaVencida) },
+          { nombre: t('analista.sobreFacturacion'), valor: pct(morosidad) }
+        ]
+      });
+    }
+
+    const bajasTrimestre = s.tendencia.reduce((acc, m) => acc + m.bajas, 0);
+    const altasTrimestre = s.tendencia.reduce((acc, m) => acc + m.altas, 0);
+    if (bajasTrimestre > altasTrimestre) {
+      recomendaciones.push({
+        titulo: t('analista.retencion'),
+        detalle: t('analista.retencionDetalle'),
+        prioridad: 'alta',
+        metricas: [
+          { nombre: t('analista.altas', { meses: s.tendencia.length }), valor: String(altasTrimestre) },
+          { nombre: t('analista.bajas', { meses: s.tendencia.length }), valor: String(bajasTrimestre) }
+        ]
+      });
+    }
+
+    for (const sede of s.sedes) {
+      if (sede.capacidad > 0 && sede.ocupacion >= OCUPACION_ALTA) {
+        recomendaciones.push({
+          titulo: t('analista.sedeLlena', { sede: sede.nombre }),
+          detalle: t('analista.sedeLlenaDetalle'),
+          prioridad: 'media',
+          metricas: [
+            { nombre: t('analista.sociosCupo'), valor: `${sede.socios}/${sede.capacidad}` },
+            { nombre: t('analista.ocupacion'), valor: pct(sede.ocupacion) }
+          ]
+        });
+      } else if (sede.capacidad > 0 && sede.ocupacion < OCUPACION_BAJA) {
+        recomendaciones.push({
+          titulo: t('analista.sedeVacia', { sede: sede.nombre }),
+          detalle: t('analista.sedeVaciaDetalle'),
+          prioridad: 'media',
+          metricas: [
+            { nombre: t('analista.sociosCupo'), valor: `${sede.socios}/${sede.capacidad}` },
+            { nombre: t('analista.ocupacion'), valor: pct(sede.ocupacion) }
+          ]
+        });
+      }
+    }
+
+    const tarjeta = s.metodosPago.find(m => m.clave === 'tarjeta');
+    if (tarjeta && tarjeta.porcentaje >= TARJETA_ALTA) {
+      recomendaciones.push({
+        titulo: t('analista.tarjeta'),
+        detalle: t('analista.tarjetaDetalle'),
+        prioridad: 'baja',
+        metricas: [{ nombre: t('analista.sociosTarjeta'), valor: `${tarjeta.socios} (${pct(tarjeta.porcentaje)})` }]
+      });
+    }
+
+    if (s.sociosEnPrueba > 0) {
+      recomendaciones.push({
+        titulo: t('analista.prueba'),
+        detalle: t('analista.pruebaDetalle'),
+        prioridad: 'media',
+        metricas: [{ nombre: t('analista.sociosPrueba'), valor: String(s.sociosEnPrueba) }]
+      });
+    }
+
+    if (s.aptosVencidos > 0) {
+      recomendaciones.push({
+        titulo: t('analista.aptos'),
+        detalle: t('analista.aptosDetalle'),
+        prioridad: 'baja',
+        metricas: [{ nombre: t('analista.sinApto'), valor: String(s.aptosVencidos) }]
+      });
+    }
+
+    if (recomendaciones.length === 0) {
+      const mejor = s.sedes.reduce((a, b) => (b.ingresoMensual > a.ingresoMensual ? b : a), s.sedes[0]);
+      recomendaciones.push({
+        titulo: t('analista.sanos'),
+        detalle: mejor
+          ? t('analista.mejorSede', { sede: mejor.nombre })
+          : t('analista.sinAlertas'),
+        prioridad: 'baja',
+        metricas: mejor
+          ? [{ nombre: t('analista.facturacionSede', { sede: mejor.nombre }), valor: moneda(mejor.ingresoMensual) }]
+          : [{ nombre: t('analista.sociosActivos'), valor: String(s.sociosActivos) }]
+      });
+    }
+
+    return ConsultorLogic.ordenar(recomendaciones);
+  }
+}
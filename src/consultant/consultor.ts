@@ -0,0 +1,208 @@
+import { Socio } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { BillingLogic, LedgerFacturacion, ResumenCobranza } from '../billing/billing';
+import { ConfigPrecios } from '../pricing/pricing';
+import { EventoAuditoria } from '../audit/audit';
+import { ValidacionLogic } from '../validation/validacion';
+import { ReportesLogic } from '../reports/reportes';
+import { MembresiaLogic } from '../membership/membresia';
+import { ConfigRegional, REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+/**
+ * --- CONSULTOR DE NEGOCIO ---
+ * El consultor no "adivina": primero armamos una foto con números reales del
+ * gimnasio (el snapshot) y se la damos a un proveedor, que devuelve
+ * recomendaciones junto con las métricas que las justifican.
+ *
+ * LECCIÓN UTN: el proveedor es una interfaz, igual que los repositorios.
+ * Gemini es una implementación; el analista local es otra, determinística,
+ * que funciona sin internet y siempre da la misma respuesta para los mismos
+ * datos (ideal para probar).
+ */
+export interface SedeSnapshot {
+  codigo: string;
+  nombre: string;
+  socios: number;          // Los que ocupan cupo: también pruebas y congelados
+  capacidad: number;
+  ocupacion: number;       // % del cupo de socios
+  ingresoMensual: number;  // Suma de cuotas de sus socios activos
+  deudaVencida: number;
+}
+
+export interface ParticipacionSnapshot {
+  clave: string;
+  nombre: string;
+  socios: number;
+  porcentaje: number;
+}
+
+export interface TendenciaSnapshot {
+  periodo: string;
+  ingresos: number;
+  altas: number;
+  bajas: number;
+}
+
+export interface SnapshotNegocio {
+  fecha: string;
+  regional: ConfigRegional; // Los importes están en regional.moneda
+  sociosActivos: number;    // Membresías activas (las que pagan cuota)
+  sociosEnPrueba: number;
+  sociosCongelados: number;
+  sociosDeBaja: number;     // Vencidas o canceladas
+  ingresoMensualEsperado: number;
+  ticketPromedio: number;
+  cobranza: ResumenCobranza;
+  morosos: number;
+  deudaVencida: number;
+  aptosVencidos: number;
+  sedes: SedeSnapshot[];
+  planes: ParticipacionSnapshot[];
+  metodosPago: ParticipacionSnapshot[];
+  tendencia: TendenciaSnapshot[]; // Del mes más viejo al actual
+}
+
+export type Prioridad = 'alta' | 'media' | 'baja';
+
+export interface MetricaRespaldo {
+  nombre: string;
+  valor: string;
+}
+
+export interface Recomendacion {
+  titulo: string;
+  detalle: string;
+  prioridad: Prioridad;
+  metricas: MetricaRespaldo[];
+}
+
+export interface Insight {
+  id: string;
+  fecha: string;
+  proveedor: string;
+  recomendaciones: Recomendacion[];
+  snapshot: SnapshotNegocio;
+}
+
+export interface ProveedorConsultor {
+  readonly nombre: string;
+  recomendar(snapshot: SnapshotNegocio): Promise<Recomendacion[]>;
+}
+
+export interface DatosConsultor {
+  socios: Socio[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  precios: ConfigPrecios;
+  ledger: LedgerFacturacion;
+  eventos: EventoAuditoria[]; // Auditoría de los últimos MESES_TENDENCIA meses
+  regional?: ConfigRegional;
+}
+
+export const MESES_TENDENCIA = 3;
+export const MAX_RECOMENDACIONES = 5;
+
+export const PRIORIDAD_ORDEN: Record<Prioridad, number> = { alta: 0, media: 1, baja: 2 };
+
+// Guardas de tipo para leer la respuesta del modelo sin confiar en su forma.
+const esObjeto = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const esPrioridad = (v: unknown): v is Prioridad => typeof v === 'string' && Object.hasOwn(PRIORIDAD_ORDEN, v);
+const texto = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+
+const porcentaje = (parte: number, total: number) => (total ? Math.round((parte / total) * 1000) / 10 : 0);
+
+const participacion = (socios: Socio[], clave: (s: Socio) => string, nombre: (c: string) => string): ParticipacionSnapshot[] => {
+  const conteo = new Map<string, number>();
+  socios.forEach(s => conteo.set(clave(s), (conteo.get(clave(s)) ?? 0) + 1));
+  return [...conteo.entries()]
+    .map(([c, n]) => ({ clave: c, nombre: nombre(c), socios: n, porcentaje: porcentaje(n, socios.length) }))
+    .sort((a, b) => b.socios - a.socios);
+};
+
+export class ConsultorLogic {
+  static snapshot(datos: DatosConsultor, hoy: Date): SnapshotNegocio {
+    const activos = datos.socios.filter(s => MembresiaLogic.facturable(s));
+    const conLugar = datos.socios.filter(s => MembresiaLogic.ocupaLugar(s));
+    const deudas = BillingLogic.deudaPorSocio(datos.ledger, hoy);
+    const ids = new Set(datos.socios.map(s => s.id));
+    const deudaDe = (socios: Socio[]) => socios.reduce((acc, s) => acc + (deudas.get(s.id) ?? 0), 0);
+    const ingresoMensualEsperado = Math.round(activos.reduce((acc, s) => acc + s.importe, 0));
+    const regional = datos.regional ?? REGIONAL_POR_DEFECTO;
+
+    const sedes = datos.sedesPermitidas.map(codigo => {
+      const deSede = activos.filter(s => s.sede === codigo);
+      const ocupadas = SedeLogic.ocupadas(conLugar, codigo);
+      const capacidad = SedeLogic.buscar(datos.sedes, codigo)?.capacidadSocios ?? 0;
+      return {
+        codigo,
+        nombre: SedeLogic.nombre(datos.sedes, codigo),
+        socios: ocupadas,
+        capacidad,
+        ocupacion: porcentaje(ocupadas, capacidad),
+        ingresoMensual: Math.round(deSede.reduce((acc, s) => acc + s.importe, 0)),
+        deudaVencida: deudaDe(datos.socios.filter(s => s.sede === codigo))
+      };
+    });
+
+    const datosReporte = { ledger: datos.ledger, socios: datos.socios, sedes: datos.sedes, precios: datos.precios, eventos: datos.eventos, regional: datos.regional };
+    const mesActual = ReportesLogic.periodoDe(hoy, 'mes');
+    const tendencia = Array.from({ length: MESES_TENDENCIA }, (_, i) => {
+      const reporte = ReportesLogic.generar(datosReporte, ReportesLogic.desplazar(mesActual, i - MESES_TENDENCIA + 1));
+      return { periodo: reporte.etiqueta, ingresos: reporte.ingresos, altas: reporte.altas, bajas: reporte.bajas };
+    });
+
+    return {
+      fecha: hoy.toISOString(),
+      regional,
+      sociosActivos: activos.length,
+      sociosEnPrueba: datos.socios.filter(s => s.estado === 'prueba').length,
+      sociosCongelados: datos.socios.filter(s => s.estado === 'congelada').length,
+      sociosDeBaja: datos.socios.length - conLugar.length,
+      ingresoMensualEsperado,
+      ticketPromedio: activos.length ? Math.round(ingresoMensualEsperado / activos.length) : 0,
+      cobranza: BillingLogic.resumen(datos.ledger, datos.socios, hoy),
+      morosos: [...deudas.keys()].filter(id => ids.has(id)).length,
+      deudaVencida: deudaDe(datos.socios),
+      aptosVencidos: activos.filter(s => !ValidacionLogic.aptoVigente(s, hoy)).length,
+      sedes,
+      planes: participacion(activos, s => s.membresia, id => datos.precios.planes.find(p => p.id === id)?.nombre ?? id),
+      metodosPago: participacion(activos, s => s.metodoPago, m =>
+        (m === 'efectivo' || m === 'tarjeta' ? I18nLogic.traducir(regional.idioma, `metodo.${m}`) : m)),
+      tendencia
+    };
+  }
+
+  /**
+   * Lo que devuelve un modelo externo no es confiable: se valida campo por
+   * campo y se descarta lo que no tenga la forma esperada. Si no queda
+   * ninguna recomendación utilizable, se lanza un error.
+   */
+  static normalizarRespuesta(respuesta: unknown): Recomendacion[] {
+    const lista = Array.isArray(respuesta)
+      ? respuesta
+      : esObjeto(respuesta) ? respuesta.recomendaciones : undefined;
+    if (!Array.isArray(lista)) throw new Error('La respuesta no trae recomendaciones.');
+
+    const recomendaciones = lista
+      .filter(esObjeto)
+      .map((r): Recomendacion => ({
+        titulo: texto(r.titulo),
+        detalle: texto(r.detalle),
+        prioridad: esPrioridad(r.prioridad) ? r.prioridad : 'media',
+        metricas: (Array.isArray(r.metricas) ? r.metricas : [])
+          .filter(esObjeto)
+          .map(m => ({ nombre: texto(m.nombre), valor: texto(String(m.valor ?? '')) }))
+          .filter(m => m.nombre && m.valor)
+      }))
+      .filter(r => r.titulo && r.detalle);
+    if (recomendaciones.length === 0) throw new Error('La respuesta no trae recomendaciones válidas.');
+    return ConsultorLogic.ordenar(recomendaciones);
+  }
+
+  static ordenar(recomendaciones: Recomendacion[]): Recomendacion[] {
+    return [...recomendaciones]
+      .sort((a, b) => PRIORIDAD_ORDEN[a.prioridad] - PRIORIDAD_ORDEN[b.prioridad])
+      .slice(0, MAX_RECOMENDACIONES);
+  }
+}
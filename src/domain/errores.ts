@@ -0,0 +1,39 @@
+import type { ClaveMensaje } from '../i18n/mensajes/es';
+
+/**
+ * --- ERRORES CON CÓDIGO ---
+ * La lógica no escribe el mensaje de un error: dice QUÉ pasó con un código
+ * y los datos que hagan falta (el tope de días, el nombre del socio), igual
+ * que los avisos del motor de precios. La pantalla lo traduce al idioma del
+ * gimnasio con I18nLogic.error. Un dato que también se traduce (el estado
+ * de una membresía) viaja como { clave }.
+ */
+export const CODIGOS_ERROR = [
+  'congelamiento_pasado', 'fechas_invertidas', 'congelamiento_largo', 'congelamiento_superpuesto', 'vence_antes',
+  'sin_congelamiento', 'cancelacion_sin_motivo', 'membresia_vigente', 'vencimiento_pasado', 'transicion_invalida',
+  'usuario_obligatorio', 'password_corta', 'usuario_repetido', 'recepcionista_sin_sede', 'usuario_inexistente',
+  'superadmin_no_se_elimina', 'ultimo_admin', 'credenciales_incorrectas', 'solo_superadmin',
+  'socio_no_encontrado', 'sin_contacto', 'clase_otra_sede', 'clase_otro_dia', 'reserva_inexistente', 'plan_inexistente',
+  'cambio_no_habilitado', 'mismo_plan', 'cambio_pendiente',
+  'codigo_reciente', 'codigo_vencido', 'demasiados_intentos', 'codigo_incorrecto', 'sesion_vencida',
+  'clase_inactiva', 'reserva_no_habilitada', 'clase_empezada', 'plan_sin_clase', 'ya_anotado',
+  'planilla_grande', 'sin_email', 'sin_telefono', 'gateway_mensajeria', 'envio_fallido'
+] as const;
+
+export type CodigoError = typeof CODIGOS_ERROR[number];
+
+export type VariablesError = Record<string, string | number | { clave: ClaveMensaje }>;
+
+export interface MotivoError {
+  codigo: CodigoError;
+  variables?: VariablesError;
+}
+
+export const esCodigoError = (v: unknown): v is CodigoError => CODIGOS_ERROR.some(c => c === v);
+
+export class ErrorNegocio extends Error implements MotivoError {
+  constructor(readonly codigo: CodigoError, readonly variables: VariablesError = {}) {
+    super(codigo);
+    this.name = 'ErrorNegocio';
+  }
+}
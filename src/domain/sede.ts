@@ -0,0 +1,75 @@
+import { Socio } from './socio';
+import { MembresiaLogic } from '../membership/membresia';
+
+/**
+ * --- SEDES ---
+ * Antes las sedes eran un arreglo fijo de códigos y la capacidad un único
+ * número global. Ahora cada sede es un registro propio que el Admin puede
+ * crear, renombrar o cerrar. El 'codigo' nunca cambia: es lo que guarda cada
+ * Socio, así que renombrar o cerrar una sede no rompe a los socios viejos.
+ */
+export interface HorarioSede {
+  abre: string;   // "HH:MM"
+  cierra: string; // "HH:MM"
+  dias: number[]; // 0 = domingo ... 6 = sábado (como Date.getDay())
+}
+
+export interface Sede {
+  codigo: string;
+  nombre: string;
+  direccion: string;
+  horario: HorarioSede;
+  capacidadSocios: number; // Socios activos que admite la sede
+  capacidadSala: number;   // Personas a la vez en el salón (habilitación municipal)
+  activa: boolean;         // false = cerrada: no admite altas, conserva su padrón
+}
+
+const HORARIO_COMERCIAL: HorarioSede = { abre: '07:00', cierra: '23:00', dias: [1, 2, 3, 4, 5, 6] };
+
+// Las cuatro sedes históricas; entre todas suman el viejo tope global de 390 socios.
+export const SEDES_POR_DEFECTO: Sede[] = [
+  { codigo: 'CBA', nombre: 'Córdoba', direccion: '', horario: HORARIO_COMERCIAL, capacidadSocios: 120, capacidadSala: 120, activa: true },
+  { codigo: 'ROS', nombre: 'Rosario', direccion: '', horario: HORARIO_COMERCIAL, capacidadSocios: 90, capacidadSala: 90, activa: true },
+  { codigo: 'MDP', nombre: 'Mar del Plata', direccion: '', horario: HORARIO_COMERCIAL, capacidadSocios: 70, capacidadSala: 70, activa: true },
+  { codigo: 'BUE', nombre: 'Buenos Aires', direccion: '', horario: HORARIO_COMERCIAL, capacidadSocios: 110, capacidadSala: 150, activa: true }
+];
+
+const minutos = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export class SedeLogic {
+  static buscar(sedes: Sede[], codigo: string): Sede | undefined {
+    return sedes.find(s => s.codigo === codigo);
+  }
+
+  // Un código que ya no está en la lista (datos viejos) se muestra tal cual.
+  static nombre(sedes: Sede[], codigo: string): string {
+    return SedeLogic.buscar(sedes, codigo)?.nombre ?? codigo;
+  }
+
+  static codigosActivos(sedes: Sede[]): string[] {
+    return sedes.filter(s => s.activa).map(s => s.codigo);
+  }
+
+  static ocupadas(socios: Pick<Socio, 'sede' | 'estado'>[], codigo: string): number {
+    return socios.filter(s => MembresiaLogic.ocupaLugar(s) && s.sede === codigo).length;
+  }
+
+  /** ¿Entra un socio más en la sede? Una sede cerrada o desconocida no admite altas. */
+  static hayCupo(sedes: Sede[], socios: Pick<Socio, 'sede' | 'estado'>[], codigo: string): boolean {
+    const sede = SedeLogic.buscar(sedes, codigo);
+    if (!sede || !sede.activa) return false;
+    return SedeLogic.ocupadas(socios, codigo) < sede.capacidadSocios;
+  }
+
+  static estaAbierta(sede: Sede, fecha: Date): boolean {
+    if (!sede.activa || !sede.horario.dias.includes(fecha.getDay())) return false;
+    const ahora = fecha.getHours() * 60 + fecha.getMinutes();
+    const abre = minutos(sede.horario.abre);
+    const cierra = minutos(sede.horario.cierra);
+    // Horario que cruza la medianoche (ej.: 06:00 a 01:00)
+    return abre <= cierra ? ahora >= abre && ahora < cierra : ahora >= abre || ahora < cierra;
+  }
+}
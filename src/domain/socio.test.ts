@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+
+import { FitnessBusinessLogic, Socio } from './socio';
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const hoy = new Date(2026, 2, 15);
+
+describe('FitnessBusinessLogic.edad', () => {
+  it('el cumpleaños de hoy ya cuenta; una fecha incompleta no tiene edad', () => {
+    expect(FitnessBusinessLogic.edad('1990-03-15', hoy)).toBe(36);
+    expect(FitnessBusinessLogic.edad('1990-03-16', hoy)).toBe(35);
+    expect(FitnessBusinessLogic.edad('1990-03', hoy)).toBeNaN();
+  });
+});
+
+describe('FitnessBusinessLogic.importeCorrecto', () => {
+  // Los precios subieron después del alta de Ana.
+  const aumento: ConfigPrecios = { ...PRECIOS_POR_DEFECTO, planes: PRECIOS_POR_DEFECTO.planes.map(p => ({ ...p, precioBase: p.precioBase + 2000 })) };
+  const ana = unSocio();
+
+  it('en un alta, el importe tiene que ser el del motor de precios', () => {
+    expect(FitnessBusinessLogic.importeCorrecto(aumento, unSocio({ importe: 20000 }), null, hoy)).toBe(true);
+    expect(FitnessBusinessLogic.importeCorrecto(aumento, unSocio({ importe: 1 }), null, hoy)).toBe(false);
+  });
+
+  it('si no cambió nada que entre en el precio, conserva el de antes', () => {
+    expect(FitnessBusinessLogic.importeCorrecto(aumento, { ...ana, telefono: '3515550000' }, ana, hoy)).toBe(true);
+    expect(FitnessBusinessLogic.importeCorrecto(aumento, { ...ana, importe: 20000 }, ana, hoy)).toBe(false);
+  });
+
+  it('si cambió el plan o el método de pago, se cotiza de nuevo', () => {
+    expect(FitnessBusinessLogic.importeCorrecto(aumento, { ...ana, membresia: 'PRE', importe: 27000 }, ana, hoy)).toBe(true);
+    expect(FitnessBusinessLogic.importeCorrecto(aumento, { ...ana, membresia: 'PRE' }, ana, hoy)).toBe(false);
+  });
+});
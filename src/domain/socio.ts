@@ -0,0 +1,92 @@
+import { ConfigPrecios, DesglosePrecio, PricingEngine, PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+import { Congelamiento, EstadoMembresia } from '../membership/membresia';
+
+/**
+ * --- LECCIÓN UTN 1: TIPADO DE DATOS (REEMPLAZA STRUCTS DE C) ---
+ * En C usamos múltiples arreglos o un 'struct' para agrupar datos:
+ * struct Socio { char nombre[100]; int dni; ... };
+ *
+ * En TypeScript usamos una 'interface'. Es mucho más potente porque permite
+ * opcionalidad y tipos dinámicos. Esto garantiza "Type Safety": el compilador
+ * nos avisará si intentamos meter un texto donde va un número, evitando
+ * los famosos "segmentation faults" que tendrías en C.
+ */
+export interface Socio {
+  id: string;
+  nombre: string;
+  dni: number;
+  fechaNacimiento: string; // "YYYY-MM-DD"; la edad se calcula, así nunca queda desactualizada
+  sede: string;
+  membresia: string;
+  metodoPago: string;
+  importe: number;
+  estado: EstadoMembresia; // Las canceladas se conservan para el historial
+  inicio: string;          // "YYYY-MM-DD" del alta o de la última reactivación
+  vence: string | null;    // Último día incluido; null = se renueva cada mes hasta que se cancele
+  telefono: string;
+  email: string;
+  contactoEmergenciaNombre: string;
+  contactoEmergenciaTelefono: string;
+  aptoMedicoVence: string | null; // "YYYY-MM-DD"; null = todavía no presentó el apto médico
+  fechaNacimientoEstimada?: boolean; // Socios migrados desde la vieja 'edad': hay que pedirles la fecha real
+  // Datos que usa el motor de precios; ausentes en socios anteriores a las reglas.
+  codigoPromo?: string;
+  integrantesGrupo?: number;
+  mesesPrepago?: number;
+  vendedorId?: string; // Empleado que hizo la venta (comisiones)
+  sinAvisos?: ('email' | 'sms' | 'whatsapp')[]; // Canales por los que pidió no recibir avisos
+  congelamientos?: Congelamiento[];
+  fechaCancelacion?: string;
+  motivoCancelacion?: string;
+}
+
+// Lo que el motor de precios necesita saber de un socio (o de un alta en curso).
+export type DatosPrecioSocio = Pick<Socio, 'fechaNacimiento' | 'sede' | 'membresia' | 'metodoPago' | 'codigoPromo' | 'integrantesGrupo' | 'mesesPrepago'>;
+
+// Campos que entran en el precio; si ninguno cambia, el socio conserva su importe.
+export const CAMPOS_PRECIO = ['fechaNacimiento', 'sede', 'membresia', 'metodoPago', 'codigoPromo', 'integrantesGrupo', 'mesesPrepago'] as const;
+
+/**
+ * --- LECCIÓN UTN 2: LÓGICA DE NEGOCIO ENCAPSULADA ---
+ * Esta clase es el "cerebro". Imagina que es tu archivo 'logic.c' con sus funciones.
+ * Separamos la matemática (Backend-ish) de la visualización (Frontend).
+ */
+export class FitnessBusinessLogic {
+  // Años cumplidos a la fecha dada (el cumpleaños de hoy ya cuenta). NaN si la fecha no está completa.
+  static edad(fechaNacimiento: string, hoy = new Date()): number {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fechaNacimiento)) return NaN;
+    const [anio, mes, dia] = fechaNacimiento.split('-').map(Number);
+    const cumplioEsteAnio = hoy.getMonth() + 1 > mes || (hoy.getMonth() + 1 === mes && hoy.getDate() >= dia);
+    return hoy.getFullYear() - anio - (cumplioEsteAnio ? 0 : 1);
+  }
+
+  /**
+   * Los if/else que antes hacías en C ahora son reglas configurables: esta
+   * función solo arma el contexto y le pregunta al motor de precios.
+   */
+  static cotizar(config: ConfigPrecios, socio: DatosPrecioSocio, fecha = new Date()): DesglosePrecio {
+    const { fechaNacimiento, ...datos } = socio;
+    const edad = FitnessBusinessLogic.edad(fechaNacimiento, fecha);
+    return PricingEngine.calcular(config, { ...datos, edad: Number.isNaN(edad) ? null : edad, fecha });
+  }
+
+  // Con los precios de fábrica: solo para migrar registros viejos sin importe.
+  static calcularImporte(edad: number, membresiaId: string, metodoPago: string): number {
+    return PricingEngine.calcular(PRECIOS_POR_DEFECTO, { edad, membresia: membresiaId, sede: '', metodoPago, fecha: new Date() }).total;
+  }
+
+  // Tras editar fecha de nacimiento, plan, sede o método de pago, el importe se vuelve a calcular.
+  static recalcular(config: ConfigPrecios, socio: Socio): Socio {
+    return { ...socio, importe: FitnessBusinessLogic.cotizar(config, socio).total };
+  }
+
+  /**
+   * Si el importe es el que le corresponde: el de antes si no cambió nada
+   * que entre en el precio, o el que da el motor si cambió (o si es un alta).
+   * Es lo que el servidor le exige a quien no puede editar precios.
+   */
+  static importeCorrecto(config: ConfigPrecios, socio: Socio, anterior: Socio | null, fecha = new Date()): boolean {
+    if (anterior && CAMPOS_PRECIO.every(c => socio[c] === anterior[c])) return socio.importe === anterior.importe;
+    return socio.importe === FitnessBusinessLogic.cotizar(config, socio, fecha).total;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { I18nLogic } from './i18n';
+import { ErrorNegocio } from '../domain/errores';
+import { FormatoLogic, REGIONAL_POR_DEFECTO } from './regional';
+
+describe('I18nLogic.traducir', () => {
+  it('busca la clave en el idioma pedido y completa las variables', () => {
+    expect(I18nLogic.traducir('es', 'sync.pendientes', { n: 3 })).toBe('3 sin enviar');
+    expect(I18nLogic.traducir('pt', 'sync.pendientes', { n: 3 })).toBe('3 não enviados');
+    expect(I18nLogic.traductor('en')('nav.socios')).toBe('Members');
+  });
+
+  it('una variable que no se pasó queda a la vista', () => {
+    expect(I18nLogic.traducir('en', 'sync.pendientes')).toBe('{{n}} not sent');
+  });
+});
+
+describe('I18nLogic.error', () => {
+  it('un error de negocio se escribe en el idioma del gimnasio, con sus datos traducidos', () => {
+    const error = new ErrorNegocio('transicion_invalida', { desde: { clave: 'membresia.prueba' }, hasta: { clave: 'membresia.congelada' } });
+
+    expect(I18nLogic.error(I18nLogic.traductor('pt'), error)).toBe('Não é possível passar de "Passe experimental" para "Trancada".');
+    expect(I18nLogic.motivo(I18nLogic.traductor('es'), { codigo: 'ya_anotado', variables: { nombre: 'Ana' } })).toBe('Ana ya está anotado en esta clase.');
+  });
+
+  it('cualquier otro error se muestra tal cual', () => {
+    expect(I18nLogic.error(I18nLogic.traductor('en'), new Error('Servidor respondió 500'))).toBe('Servidor respondió 500');
+  });
+});
+
+describe('FormatoLogic', () => {
+  const brasil = { pais: 'BR', idioma: 'pt' as const, moneda: 'BRL' };
+
+  it('los importes enteros van sin centavos, en la moneda y con las convenciones del país', () => {
+    expect(FormatoLogic.moneda(15000, REGIONAL_POR_DEFECTO)).toBe('$\u00a015.000');
+    expect(FormatoLogic.moneda(15000.5, brasil)).toBe('R$\u00a015.000,50');
+  });
+
+  it('un día suelto se lee como día local, no como medianoche UTC', () => {
+    expect(FormatoLogic.fecha('2026-03-01', REGIONAL_POR_DEFECTO)).toBe('01/03/2026');
+    expect(FormatoLogic.fecha('2026-03-01', { pais: 'US', idioma: 'en', moneda: 'USD' })).toBe('03/01/2026');
+  });
+});
@@ -0,0 +1,52 @@
+import { Idioma } from './regional';
+import { ClaveMensaje, es, Mensajes } from './mensajes/es';
+import { en } from './mensajes/en';
+import { pt } from './mensajes/pt';
+import { ErrorNegocio, MotivoError } from '../domain/errores';
+
+/**
+ * --- TEXTOS TRADUCIDOS ---
+ * La interfaz no escribe los textos: los pide por clave ('nav.socios') al
+ * diccionario del idioma del gimnasio. Los valores variables van como
+ * {{n}}, igual que en las plantillas de avisos, porque el orden de las
+ * palabras cambia de un idioma a otro y no se puede armar la frase
+ * concatenando.
+ */
+export type VariablesMensaje = Record<string, string | number>;
+
+export type Traductor = (clave: ClaveMensaje, variables?: VariablesMensaje) => string;
+
+const DICCIONARIOS: Record<Idioma, Mensajes> = { es, en, pt };
+
+export class I18nLogic {
+  // Una variable que no se pasó queda a la vista ("{{n}}") en vez de desaparecer en silencio.
+  static traducir(idioma: Idioma, clave: ClaveMensaje, variables: VariablesMensaje = {}): string {
+    const texto = (DICCIONARIOS[idioma] ?? es)[clave] ?? es[clave];
+    return texto.replace(/\{\{(\w+)\}\}/g, (marca, nombre: string) => (Object.hasOwn(variables, nombre) ? String(variables[nombre]) : marca));
+  }
+
+  /** Antes del login todavía no hay gimnasio: se usa el idioma del navegador, si es uno de los que hay. */
+  static idiomaNavegador(): Idioma {
+    // El servidor también importa este módulo y ahí no hay navegador.
+    const idioma = ((globalThis as { navigator?: { language: string } }).navigator?.language ?? '').slice(0, 2);
+    return Object.hasOwn(DICCIONARIOS, idioma) ? idioma as Idioma : 'es';
+  }
+
+  /** El texto de un error de negocio (o de un motivo que no llegó a lanzarse), a partir de su código. */
+  static motivo(t: Traductor, { codigo, variables = {} }: MotivoError): string {
+    const valores = Object.fromEntries(Object.entries(variables).map(([nombre, valor]) =>
+      [nombre, typeof valor === 'object' ? t(valor.clave) : valor]));
+    return t(`error.${codigo}`, valores);
+  }
+
+  /** Lo que se muestra de un error atrapado: si no es de negocio (la red, el navegador), su mensaje tal cual. */
+  static error(t: Traductor, e: unknown): string {
+    if (e instanceof ErrorNegocio) return I18nLogic.motivo(t, e);
+    return e instanceof Error ? e.message : String(e);
+  }
+
+  /** La función 't' de cada pantalla, ya atada al idioma. */
+  static traductor(idioma: Idioma): Traductor {
+    return (clave, variables) => I18nLogic.traducir(idioma, clave, variables);
+  }
+}
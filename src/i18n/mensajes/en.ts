@@ -0,0 +1,733 @@
+import { Mensajes } from './es';
+
+export const en: Mensajes = {
+  'nav.dashboard': 'Dashboard',
+  'nav.socios': 'Members',
+  'nav.alta': 'New Member',
+  'nav.cobranzas': 'Billing',
+  'nav.acceso': 'Check-in',
+  'nav.clases': 'Classes',
+  'nav.solicitudes': 'Requests',
+  'nav.solicitudesPendientes': 'Requests ({{n}})',
+  'nav.reportes': 'Reports',
+  'nav.personal': 'Staff',
+  'nav.avisos': 'Notifications',
+  'nav.sedes': 'Locations',
+  'nav.precios': 'Pricing',
+  'nav.usuarios': 'Users',
+  'nav.gimnasios': 'Gyms',
+  'nav.cambiarGimnasio': 'Switch gym',
+  'nav.suspendida': '(suspended)',
+  'nav.cerrarSesion': 'Log out',
+  'nav.capacidad': 'Capacity',
+
+  'sync.enLinea': 'Online',
+  'sync.sinConexion': 'Offline',
+  'sync.pendientes': '{{n}} not sent',
+  'sync.todoEnviado': 'All sent',
+  'sync.conflictos': '{{n}} conflicts',
+  'sync.sincronizar': 'Sync now',
+
+  'dash.titulo': 'Global',
+  'dash.tituloResaltado': 'Overview',
+  'dash.subtitulo': 'Real-time performance and profitability.',
+  'dash.cuarentena': '{{n}} quarantined records',
+  'dash.cobrado': 'Collected {{periodo}}',
+  'dash.esperado': 'Expected {{importe}}',
+  'dash.vencido': 'Overdue {{importe}}',
+  'dash.sociosActivos': 'Active Members',
+  'dash.enPrueba': '{{n}} on trial',
+  'dash.congelados': '{{n}} frozen',
+  'dash.rendimientoSede': 'Performance by Location',
+  'dash.socios': '{{n}} members',
+  'dash.enSala': 'On the floor {{ocupacion}}/{{capacidad}}',
+
+  'alta.titulo': 'Member',
+  'alta.tituloResaltado': 'Sign-up',
+  'alta.subtitulo': 'Fill in the fields to add a new member.',
+  'alta.nombre': 'Full Name',
+  'alta.nombreEjemplo': 'e.g. Jane Smith',
+  'alta.nacimiento': 'Date of Birth',
+  'alta.telefono': 'Phone',
+  'alta.telefonoEjemplo': 'e.g. 555 123-4567',
+  'alta.email': 'Email',
+  'alta.emergencia': 'Emergency Contact',
+  'alta.emergenciaNombre': 'Name',
+  'alta.emergenciaTelefono': 'Emergency Phone',
+  'alta.apto': 'Medical Clearance Expires',
+  'alta.sede': 'Location',
+  'alta.membresia': 'Membership Plan',
+  'alta.metodoPago': 'Payment Method',
+  'alta.efectivo': 'Cash / Debit',
+  'alta.tarjeta': 'Credit Card',
+  'alta.prueba': 'Free {{dias}}-day trial pass (not billed until converted to a membership)',
+  'alta.vendedor': 'Sold by',
+  'alta.sinVendedor': 'No salesperson',
+  'alta.promo': 'Promo Code',
+  'alta.grupo': 'Group Size',
+  'alta.prepago': 'Months Paid in Advance',
+  'alta.montoFinal': 'Projected Total',
+  'alta.plan': '{{plan}} plan ({{sede}})',
+  'alta.registrar': 'Validate and Register',
+  'alta.sinAccesoSede': 'You do not have access to that location.',
+  'alta.sedeLlena': '{{sede}} has reached its maximum capacity.',
+
+  'membresia.prueba': 'Trial pass',
+  'membresia.activa': 'Active',
+  'membresia.congelada': 'Frozen',
+  'membresia.vencida': 'Expired',
+  'membresia.cancelada': 'Cancelled',
+  'solicitud.pendiente': 'Pending',
+  'solicitud.aprobada': 'Approved',
+  'solicitud.rechazada': 'Rejected',
+  'factura.pagada': 'Paid',
+  'factura.pendiente': 'Pending',
+  'factura.vencida': 'Overdue',
+
+  'portal.titulo': 'Member portal',
+  'portal.noDisponible': 'This gym\'s portal is not available. Please ask at the front desk.',
+  'portal.codigoEnviado': 'We sent a code to',
+  'portal.codigo': '6-digit code',
+  'portal.unMomento': 'One moment...',
+  'portal.ingresar': 'Sign in',
+  'portal.recibirCodigo': 'Get code',
+  'portal.cambiarDocumento': 'Change {{documento}}',
+  'portal.reenviar': 'Resend code',
+  'portal.hola': 'Hi,',
+  'portal.salir': 'Sign out',
+  'portal.tuPlan': 'Your plan',
+  'portal.planDetalle': '{{sede}} location • {{importe}}/month',
+  'portal.venceEl': 'expires on {{fecha}}',
+  'portal.saldo': 'Balance',
+  'portal.vencido': '{{importe}} overdue',
+  'portal.alDia': 'You are up to date',
+  'portal.credencial': 'Member card',
+  'portal.mostrarQr': 'Show QR',
+  'portal.clases': 'Classes',
+  'portal.confirmada': 'Confirmed',
+  'portal.enEspera': 'Waitlisted (#{{posicion}})',
+  'portal.cancelar': 'Cancel',
+  'portal.reservar': 'Book ({{n}} spots)',
+  'portal.listaEspera': 'Join waitlist',
+  'portal.sinClases': 'There are no classes scheduled at your location.',
+  'portal.cambiarPlan': 'Change plan',
+  'portal.nuevoPlan': 'New plan',
+  'portal.elegiPlan': 'Choose a plan',
+  'portal.porMes': '{{importe}}/month',
+  'portal.pedirCambio': 'Request change',
+  'portal.pedidoEnviado': 'Request sent: the front desk will let you know once it is approved.',
+  'portal.tusPagos': 'Your payments',
+  'portal.periodo': 'Period',
+  'portal.vence': 'Due',
+  'portal.total': 'Total',
+  'portal.estado': 'Status',
+  'portal.recibos': 'Receipts',
+  'portal.resta': '{{importe}} left',
+  'portal.sinCuotas': 'No invoices have been issued yet.',
+  'recibo.titulo': 'Receipt {{periodo}}',
+  'recibo.numero': 'Receipt #{{numero}}',
+  'recibo.cuota': 'Fee {{periodo}} (due {{vencimiento}})',
+  'recibo.fechaPago': 'Payment date: {{fecha}}',
+
+  'validacion.nombreObligatorio': 'Name is required.',
+  'validacion.documentoInvalido': 'Invalid {{documento}}.',
+  'validacion.documentoRepetido': 'Already registered: {{nombre}} ({{sede}}).',
+  'validacion.documentoRepetidoBaja': 'Already registered: {{nombre}} ({{sede}}, cancelled).',
+  'validacion.fechaNacimiento': 'Invalid date of birth.',
+  'validacion.nacimientoFuturo': 'The date of birth is in the future.',
+  'validacion.telefono': 'Invalid phone number (8 to 15 digits).',
+  'validacion.email': 'Invalid email.',
+  'validacion.contactoSinNombre': 'Whose phone number is this?',
+  'validacion.contactoSinTelefono': 'The emergency phone number is missing.',
+  'validacion.aptoMedico': 'Invalid expiry date.',
+  'documento.sigla': 'ID',
+  'documento.nombre': 'Identity document',
+  'documento.ayuda': 'Numbers only',
+
+  'metodo.efectivo': 'Cash / Debit',
+  'metodo.tarjeta': 'Card',
+  'reporte.trimestre': 'Q{{n}} {{anio}}',
+  'reporte.trimestreCorto': 'Q{{n}} {{anio}}',
+  'reporte.titulo': 'Financial report',
+  'reporte.generado': '{{periodo}} · generated on {{fecha}}',
+  'reporte.concepto': 'Item',
+  'reporte.pagos': 'Payments',
+  'reporte.monto': 'Amount',
+  'reporte.sinMovimientos': 'No activity',
+  'reporte.ingresos': 'Revenue',
+  'reporte.vsAnterior': '{{variacion}} vs. previous period',
+  'reporte.ticketPromedio': 'Average ticket',
+  'reporte.cantidadPagos': '{{n}} payments',
+  'reporte.recargos': 'Surcharges',
+  'reporte.detalleRecargos': 'Card {{tarjeta}} · Late fees {{mora}}',
+  'reporte.socios': 'Members',
+  'reporte.altasBajas': 'New / cancelled in the period',
+  'reporte.evolucion': 'Revenue trend',
+  'reporte.porSede': 'By location',
+  'reporte.porPlan': 'By plan',
+  'reporte.porMetodo': 'By payment method',
+
+  'cobranzas.titulo': 'Billing',
+  'cobranzas.tituloResaltado': 'Ledger',
+  'cobranzas.verTodas': 'Show all',
+  'cobranzas.soloImpagas': 'Unpaid only',
+  'cobranzas.socio': 'Member',
+  'cobranzas.periodo': 'Period',
+  'cobranzas.vence': 'Due',
+  'cobranzas.total': 'Total',
+  'cobranzas.saldo': 'Balance',
+  'cobranzas.cobrar': 'Collect',
+  'cobranzas.inclRecargo': 'incl. surcharge {{importe}}',
+  'cobranzas.vacio': 'No invoices pending collection.',
+
+  'padron.titulo': 'Member',
+  'padron.tituloResaltado': 'Roster',
+  'padron.exportar': 'Export the filtered list to {{formato}}',
+  'padron.importar': 'Import',
+  'padron.buscar': 'Search by {{documento}} or name...',
+  'padron.todoPago': 'Any payment',
+  'padron.activos': 'Active',
+  'padron.bajas': 'Cancelled',
+  'padron.activosYBajas': 'Active and cancelled',
+  'padron.soloEstado': 'Only: {{estado}}',
+  'padron.conYSinDeuda': 'With or without debt',
+  'padron.conDeuda': 'With debt',
+  'padron.alDia': 'Up to date',
+  'padron.edad': 'Age',
+  'padron.desde': 'from',
+  'padron.hasta': 'to',
+  'padron.ordenar': 'Click to sort • Shift+click to add a criterion',
+  'padron.nombre': 'Name',
+  'padron.ubicacion': 'Location',
+  'padron.membresia': 'Membership',
+  'padron.deuda': 'Debt',
+  'padron.importe': 'Amount',
+  'padron.acciones': 'Actions',
+  'padron.anios': '{{edad}} years',
+  'padron.aprox': ' (approx.)',
+  'padron.aptoVencido': 'Medical clearance expired',
+  'padron.sinApto': 'No medical clearance',
+  'padron.vence': 'due {{fecha}}',
+  'padron.editar': 'Edit',
+  'padron.historial': 'History',
+  'padron.credencial': 'QR card',
+  'padron.membresiaAcciones': 'Membership: freeze, cancel, reactivate',
+  'padron.vacio': 'No records found.',
+  'padron.pagina': '{{total}} members • Page {{pagina}} of {{paginas}}',
+
+  'agenda.titulo': 'Class',
+  'agenda.tituloResaltado': 'Schedule',
+  'agenda.hoy': 'Today',
+  'agenda.nuevaClase': 'New class',
+  'agenda.editarClase': 'Edit class',
+  'agenda.sinClases': 'There are no classes at this location.',
+  'agenda.inactivas': 'Inactive:',
+  'agenda.enEspera': '+{{n}} waiting',
+  'agenda.cancelar': 'Cancel',
+  'agenda.solo': 'Only {{planes}}',
+  'agenda.anotar': 'Book a member: {{documento}} or name',
+  'agenda.llena': 'Class full: new bookings go to the waiting list.',
+  'agenda.confirmados': 'Confirmed ({{n}}/{{capacidad}})',
+  'agenda.nadie': 'No one booked yet.',
+  'agenda.listaEspera': 'Waiting list',
+  'agenda.obligatorios': 'Name, instructor and room are required.',
+  'agenda.mayorACero': 'Capacity and duration must be greater than zero.',
+  'agenda.superpuesta': 'It overlaps with {{clase}} ({{dia}} {{hora}}) in the same room.',
+  'agenda.nombre': 'Name',
+  'agenda.instructor': 'Instructor',
+  'agenda.elegir': 'Choose…',
+  'agenda.sala': 'Room',
+  'agenda.salaEjemplo': 'Room 1',
+  'agenda.sede': 'Location',
+  'agenda.dia': 'Day',
+  'agenda.hora': 'Time',
+  'agenda.duracion': 'Duration (min)',
+  'agenda.cupo': 'Capacity',
+  'agenda.planes': 'Allowed plans (none = all)',
+  'agenda.activa': 'Active (inactive classes are hidden from the schedule; their bookings are kept)',
+  'agenda.guardar': 'Save',
+
+  'sedes.titulo': 'Manage',
+  'sedes.tituloResaltado': 'Locations',
+  'sedes.guardar': 'Save',
+  'sedes.repetida': 'A location with code {{codigo}} already exists.',
+  'sedes.unaAbierta': 'At least one location must stay open.',
+  'sedes.sinNombre': 'Every location needs a name.',
+  'sedes.capacidades': 'Capacities must be greater than zero.',
+  'sedes.ocupadas': '{{n}} members taking up capacity',
+  'sedes.cerrar': 'Close location',
+  'sedes.reabrir': 'Reopen',
+  'sedes.nombre': 'Name',
+  'sedes.direccion': 'Address',
+  'sedes.cupoSocios': 'Member capacity',
+  'sedes.capacidadSala': 'Floor capacity',
+  'sedes.abre': 'Opens',
+  'sedes.cierra': 'Closes',
+  'sedes.cupoExcedido': 'Capacity is below the current members: no sign-ups will be accepted until that drops.',
+  'sedes.codigo': 'Code (e.g. NYC)',
+  'sedes.nueva': 'Location',
+  'asistencia.titulo': 'Attendance',
+  'asistencia.todasLasSedes': 'All locations',
+  'asistencia.visitas': 'Visits, last 14 days',
+  'asistencia.pico': 'Peak hours (last 4 weeks)',
+  'asistencia.celda': '{{dia}} {{hora}}h: {{n}}',
+  'asistencia.riesgo': 'Churn Risk',
+  'asistencia.dias': '{{n}} days',
+  'asistencia.umbral': '{{n}}+ days',
+  'asistencia.nuncaVino': 'never came',
+  'asistencia.todosVinieron': 'Every member came in the last {{n}} days.',
+
+  'rol.superadmin': 'Super Admin',
+  'rol.admin': 'Administrator',
+  'rol.recepcionista': 'Front desk',
+  'usuarios.titulo': 'Staff',
+  'usuarios.tituloResaltado': 'Accounts',
+  'usuarios.nombreUsuario': 'Name / Username',
+  'usuarios.rol': 'Role',
+  'usuarios.sede': 'Location',
+  'usuarios.acciones': 'Actions',
+  'usuarios.todas': 'All',
+  'usuarios.nuevo': 'New User',
+  'usuarios.nombre': 'Full name',
+  'usuarios.usuario': 'Username',
+  'usuarios.password': 'Password',
+  'usuarios.crear': 'Create User',
+
+  'regla.edad': 'Age range',
+  'regla.grupo': 'Group / family',
+  'regla.promo': 'Promo code',
+  'regla.prepago': 'Prepayment',
+  'regla.metodo_pago': 'Payment method',
+  'precios.titulo': 'Plans and',
+  'precios.tituloResaltado': 'Pricing',
+  'precios.guardar': 'Save',
+  'precios.planRepetido': 'A plan with code {{codigo}} already exists.',
+  'precios.unPlan': 'At least one plan must remain.',
+  'precios.planIncompleto': 'Every plan needs a name and a price above zero.',
+  'precios.planes': 'Plans',
+  'precios.codigo': 'Code',
+  'precios.nombre': 'Name',
+  'precios.precioBase': 'Base price',
+  'precios.base': 'base',
+  'precios.eliminarPlan': 'Delete plan',
+  'precios.codigoPlan': 'Code (e.g. ELT)',
+  'precios.plan': 'Plan',
+  'precios.reglas': 'Rules',
+  'precios.regla': 'Rule',
+  'precios.porcentaje': '% (− disc.)',
+  'precios.desdeEdad': 'From age',
+  'precios.hastaEdad': 'Up to age',
+  'precios.minIntegrantes': 'Minimum members',
+  'precios.vence': 'Expires',
+  'precios.meses': 'Months paid ahead (min.)',
+  'precios.metodo': 'Method',
+  'precios.desactivar': 'Disable',
+  'precios.activar': 'Enable',
+  'precios.eliminarRegla': 'Delete rule',
+
+  'reportes.titulo': 'Financial',
+  'reportes.tituloResaltado': 'Reports',
+  'reportes.mensual': 'Monthly',
+  'reportes.trimestral': 'Quarterly',
+  'reportes.sinDatoPrevio': 'no prior data',
+  'reportes.sinCobros': 'No payments in the period.',
+  'reportes.recargoTarjeta': 'Card surcharge',
+  'reportes.mora': 'Late fees {{importe}}',
+  'reportes.altasBajas': 'Sign-ups / Cancellations',
+  'reportes.ventanaBloqueada': 'The browser blocked the report window. Allow pop-ups.',
+
+  'empleado.instructor': 'Instructor',
+  'empleado.vendedor': 'Sales',
+  'empleado.recepcion': 'Front desk',
+  'empleado.administracion': 'Administration',
+  'personal.titulo': 'Staff and',
+  'personal.tituloResaltado': 'Payroll',
+  'personal.guardar': 'Save changes',
+  'personal.nombre': 'Name',
+  'personal.rol': 'Role',
+  'personal.sede': 'Location',
+  'personal.tarifa': '$ / hour',
+  'personal.comisionPct': 'Commission %',
+  'personal.activo': 'Active',
+  'personal.vacio': 'No staff added yet.',
+  'personal.nuevo': 'Employee name',
+  'personal.agregar': 'Add',
+  'personal.liquidacion': 'Monthly payroll',
+  'personal.empleado': 'Employee',
+  'personal.clases': 'Classes',
+  'personal.horas': 'Hours',
+  'personal.porHoras': 'Hourly',
+  'personal.altas': 'Sign-ups',
+  'personal.facturado': 'Billed',
+  'personal.comision': 'Commission',
+  'personal.total': 'Total',
+  'personal.sinPersonal': 'No staff to pay.',
+  'personal.totalLiquidar': 'Total payroll',
+  'personal.nota': 'Hours come from the active classes in the schedule and only those that have started count. Commission is calculated on the first invoiced fee of each sign-up in the month: a trial pass does not count.',
+
+  'acceso.desconocido': 'Card not registered',
+  'acceso.inactivo': 'The member has cancelled',
+  'acceso.congelada': 'The membership is frozen',
+  'acceso.vencida': 'The membership has expired',
+  'acceso.otra_sede': 'The membership belongs to another location',
+  'acceso.impago': 'There are unpaid overdue fees',
+  'acceso.fuera_de_horario': 'The location is closed at this time',
+  'acceso.titulo': 'Access',
+  'acceso.tituloResaltado': 'Control',
+  'acceso.puesto': 'Desk {{sede}}',
+  'acceso.escanear': 'Scan the card...',
+  'acceso.apagarCamara': 'Turn camera off',
+  'acceso.usarCamara': 'Use camera',
+  'acceso.adelante': 'Welcome',
+  'acceso.denegado': 'Access denied',
+  'acceso.ultimos': 'Latest Check-ins',
+  'acceso.socioEliminado': 'Deleted member',
+  'acceso.nadie': 'No one has checked in at this location yet.',
+  'puertas.titulo': 'Gates',
+  'puertas.enVivo': '● Live',
+  'puertas.desconocida': 'Unknown card',
+  'puertas.permitido': 'Allowed',
+  'puertas.denegado': 'Denied',
+  'puertas.paso': 'Passed',
+  'puertas.sin_paso': 'Did not pass',
+  'puertas.sinMovimiento': 'No turnstile activity.',
+
+  'login.sinServidor': 'Could not reach the server: {{error}}',
+  'login.primeraVez': 'Initial setup: create the Super Admin',
+  'login.restringido': 'Restricted access',
+  'login.nombre': 'Full name',
+  'login.usuario': 'Username',
+  'login.password': 'Password',
+  'login.verificando': 'Checking...',
+  'login.crearYEntrar': 'Create and Sign In',
+  'login.ingresar': 'Sign In',
+  'tenant.noHabilitado': 'Your gym is not enabled. Contact the service administrator.',
+  'tenant.salir': 'Sign out',
+
+  'app.sinCupo': '{{sede}} has no capacity left.',
+  'app.sinPermisoCancelar': 'You are not allowed to cancel memberships.',
+  'app.preciosGuardados': 'Prices updated. They apply to new sign-ups and to members when they are edited.',
+  'app.sedesGuardadas': 'Locations updated.',
+  'app.personalGuardado': 'Staff updated.',
+  'app.solicitudNoVigente': 'The member\'s membership is not current: reject the request.',
+  'app.alerta': 'Warning: {{error}}',
+  'app.avisosGuardados': 'Notifications updated.',
+  'app.importados': '{{n}} members imported.',
+  'dash.escalabilidad': 'Scalability (advanced UTN)',
+  'dash.escalabilidadDetalle': 'This system shows how to move from sequential data to a distributed architecture.',
+
+  'auditoria.alta': 'Sign-up',
+  'auditoria.edicion': 'Details edited',
+  'auditoria.cambio_plan': 'Plan change',
+  'auditoria.baja': 'Cancellation',
+  'auditoria.reactivacion': 'Reactivation',
+  'auditoria.conversion': 'Trial pass converted',
+  'auditoria.congelamiento': 'Freeze',
+  'auditoria.vencimiento': 'Expiry',
+  'campo.nombre': 'Name',
+  'campo.dni': 'ID document',
+  'campo.fechaNacimiento': 'Date of birth',
+  'campo.sede': 'Location',
+  'campo.membresia': 'Membership',
+  'campo.metodoPago': 'Payment method',
+  'campo.importe': 'Amount',
+  'campo.estado': 'Membership status',
+  'campo.inicio': 'Membership start',
+  'campo.vence': 'Membership expiry',
+  'campo.congelamientos': 'Freezes',
+  'campo.fechaCancelacion': 'Cancellation date',
+  'campo.motivoCancelacion': 'Cancellation reason',
+  'campo.codigoPromo': 'Promo code',
+  'campo.integrantesGrupo': 'Group members',
+  'campo.mesesPrepago': 'Months paid ahead',
+  'campo.vendedorId': 'Salesperson',
+  'campo.sinAvisos': 'Notifications off',
+  'campo.telefono': 'Phone',
+  'campo.email': 'Email',
+  'campo.contactoEmergenciaNombre': 'Emergency contact',
+  'campo.contactoEmergenciaTelefono': 'Emergency phone',
+  'campo.aptoMedicoVence': 'Medical clearance expiry',
+  'campo.fechaNacimientoEstimada': 'Estimated date of birth',
+  'comun.si': 'Yes',
+  'comun.no': 'No',
+  'historial.titulo': 'History',
+  'historial.por': 'by {{usuario}}',
+  'historial.vacio': 'No recorded changes.',
+  'credencial.titulo': 'Access Card',
+  'credencial.qrDe': 'QR for {{nombre}}',
+  'credencial.generando': 'Generating...',
+  'credencial.descargar': 'Download',
+  'credencial.imprimir': 'Print',
+  'credencial.documentoSede': '{{documento}} • Location {{sede}}',
+  'credencial.ventana': 'Card {{nombre}}',
+  'conflictos.titulo': 'Sync conflicts',
+  'conflictos.edicion': 'Another front desk changed the same data',
+  'conflictos.eliminado': 'Another front desk cancelled the member',
+  'conflictos.rechazado': 'The server rejected the change',
+  'conflictos.campo': '{{campo}}: here',
+  'conflictos.servidor': 'server',
+  'conflictos.realta': 'Sign them up again',
+  'conflictos.usarMio': 'Keep mine',
+  'conflictos.usarServidor': 'Use the server\'s',
+  'conflictos.vacio': 'No pending conflicts.',
+  'consultor.titulo': 'Business Advisor',
+  'consultor.anteriores': 'Previous analyses',
+  'consultor.error': 'The analysis could not be completed. Try again in a while.',
+  'consultor.procesando': 'Processing Data...',
+  'consultor.nuevo': 'New Analysis',
+  'consultor.descripcion': 'Analyses locations, plans, payment methods, collections and the trend of recent months.',
+  'consultor.consultar': 'Get Strategy',
+  'prioridad.alta': 'high',
+  'prioridad.media': 'medium',
+  'prioridad.baja': 'low',
+
+  'congelamiento.vacaciones': 'Vacation',
+  'congelamiento.medico': 'Medical leave',
+  'membresiaModal.titulo': 'Membership',
+  'membresiaModal.estado': 'Status',
+  'membresiaModal.desde': 'Since',
+  'membresiaModal.vence': 'Expires',
+  'membresiaModal.renuevaMes': 'Renews every month',
+  'membresiaModal.canceladaEl': 'Cancelled on {{fecha}}',
+  'membresiaModal.congelamientos': 'Freezes',
+  'membresiaModal.programado': 'scheduled',
+  'membresiaModal.enCurso': 'in progress',
+  'membresiaModal.convertir': 'Convert to member (starts paying today)',
+  'membresiaModal.congelarAyuda': 'Freeze (max. {{dias}} days; pushes back the expiry and frozen days are taken off the fee)',
+  'membresiaModal.congelar': 'Freeze',
+  'membresiaModal.terminarHoy': 'End the freeze today',
+  'membresiaModal.anular': 'Cancel the scheduled freeze',
+  'membresiaModal.reactivarAyuda': 'Reactivate from today (optional expiry)',
+  'membresiaModal.reactivar': 'Reactivate',
+  'membresiaModal.cancelarTitulo': 'Cancel membership',
+  'membresiaModal.motivo': 'Reason (e.g. moved, cost, injury)',
+  'membresiaModal.cancelar': 'Cancel',
+
+  'solicitudes.titulo': 'Member',
+  'solicitudes.tituloResaltado': 'Requests',
+  'solicitudes.subtitulo': 'Plan changes requested from the portal (/portal).',
+  'solicitudes.fechaSede': '{{fecha}} • Location {{sede}}',
+  'solicitudes.porMes': '{{importe}}/month',
+  'solicitudes.seLeMostro': '(was shown {{importe}})',
+  'solicitudes.nota': 'Note (optional)',
+  'solicitudes.aprobar': 'Approve',
+  'solicitudes.rechazar': 'Reject',
+  'solicitudes.vacio': 'No pending requests.',
+  'solicitudes.socio': 'Member',
+  'solicitudes.cambio': 'Change',
+  'solicitudes.estado': 'Status',
+  'solicitudes.resueltaPor': 'Resolved by',
+
+  'aviso.cuota_por_vencer': 'Fee due soon',
+  'aviso.cuota_vencida': 'Overdue fee',
+  'aviso.apto_medico': 'Medical clearance expiring',
+  'aviso.inactividad': 'Inactivity',
+  'aviso.cumpleanios': 'Birthday',
+  'aviso.enviado': 'Sent',
+  'aviso.fallido': 'Failed',
+  'aviso.omitido': 'Skipped',
+  'avisos.titulo': 'Member',
+  'avisos.tituloResaltado': 'Notifications',
+  'avisos.subtitulo': 'Checked when the App opens and once an hour · Sent through: {{proveedor}}',
+  'avisos.modoPrueba': ' (test mode: members do not receive them)',
+  'avisos.sinPendientes': 'No pending notifications.',
+  'avisos.resultado': '{{enviados}} sent, {{sinEnviar}} not sent.',
+  'avisos.bandeja': 'Outbox',
+  'avisos.revisar': 'Check now',
+  'avisos.guardar': 'Save changes',
+  'avisos.diasAnticipoCuota': 'Fee reminder, days before',
+  'avisos.diasAnticipoApto': 'Clearance reminder, days before',
+  'avisos.diasInactividad': 'Inactive after (days)',
+  'avisos.asunto': 'Subject',
+  'avisos.variables': 'Available variables: {{variables}}.',
+  'avisos.preferencias': 'Members who opt out of a channel are marked when editing them.',
+  'avisos.registro': 'Notification log',
+  'avisos.buscar': 'Search member',
+  'avisos.fecha': 'Date',
+  'avisos.socio': 'Member',
+  'avisos.aviso': 'Notification',
+  'avisos.canal': 'Channel',
+  'avisos.estado': 'Status',
+  'avisos.vacio': 'No notifications sent yet.',
+
+  'orgs.titulo': 'Client',
+  'orgs.tituloResaltado': 'Gyms',
+  'orgs.faltaNombre': 'Every organization needs a name.',
+  'orgs.principalActiva': 'The main organization cannot be suspended.',
+  'orgs.nombre': 'Name',
+  'orgs.logo': 'Logo URL',
+  'orgs.pais': 'Country',
+  'orgs.idioma': 'Language',
+  'orgs.moneda': 'Currency',
+  'orgs.habilitada': 'Enabled',
+  'orgs.guardar': 'Save',
+  'orgs.entrar': 'Enter',
+  'orgs.nuevo': 'New Gym',
+  'orgs.nuevoDetalle': 'It starts with no members or users. Enter it to create its first administrator.',
+  'orgs.nombreComercial': 'Business name',
+  'orgs.crear': 'Create',
+
+  'campo.edad': 'Age (if no date)',
+  'editar.titulo': 'Edit',
+  'editar.tituloResaltado': 'Member',
+  'editar.nacimiento': 'Birth date',
+  'editar.estimado': ' (estimated)',
+  'editar.emergencia': 'Emergency',
+  'editar.telEmergencia': 'Emergency phone',
+  'editar.apto': 'Clearance expires',
+  'editar.sinAvisos': 'Does not want notifications by',
+  'editar.sede': 'Location',
+  'editar.membresia': 'Membership',
+  'editar.pago': 'Payment',
+  'editar.promo': 'Promo code',
+  'editar.grupo': 'Group members',
+  'editar.prepago': 'Prepaid months',
+  'editar.precioPlan': 'Plan price',
+  'editar.nuevoImporte': 'New amount',
+  'editar.upgrade': ' • Upgrade',
+  'editar.downgrade': ' • Downgrade',
+  'editar.guardar': 'Save',
+  'importar.titulo': 'Import',
+  'importar.tituloResaltado': 'Roster',
+  'importar.muyGrande': 'The spreadsheet exceeds 10 MB. Split it into several.',
+  'importar.sinFilas': 'The spreadsheet has no data rows.',
+  'importar.ilegible': 'The file could not be read. Is it a valid CSV or XLSX?',
+  'importar.elegir': 'Choose a .csv or .xlsx file',
+  'importar.encabezados': 'The first row must contain the headers.',
+  'importar.filas': '{{n}} rows. Choose which column holds each field.',
+  'importar.noViene': '— Not included —',
+  'importar.columna': 'Column {{n}}',
+  'importar.sedeDefecto': 'Location if missing',
+  'importar.membresiaDefecto': 'Membership if missing',
+  'importar.pagoDefecto': 'Payment if missing',
+  'importar.faltan': 'Still to assign: {{campos}}',
+  'importar.simular': 'Simulate',
+  'importar.seImportan': '{{n}} to import',
+  'importar.duplicados': '{{n}} duplicates',
+  'importar.conErrores': '{{n}} with errors',
+  'importar.fila': 'Row',
+  'importar.socio': 'Member',
+  'importar.resultado': 'Result',
+  'importar.motivo': 'Reason',
+  'importar.hojaErrores': 'Errors',
+  'importar.valida': 'Valid',
+  'importar.duplicada': 'Duplicate',
+  'importar.error': 'Error',
+  'importar.volver': 'Back',
+  'importar.descargarErrores': 'Download errors',
+  'importar.importar': 'Import {{n}}',
+
+  'precios.promo_vencida': 'Code {{codigo}} has expired.',
+  'precios.promo_inexistente': 'Promo code does not exist.',
+
+  'analista.fundadores': 'Launch a founders campaign',
+  'analista.fundadoresDetalle': 'There are no active members yet. A launch discount for the first 50 members speeds up the start.',
+  'analista.sociosActivos': 'Active members',
+  'analista.caida': 'Revenue fell compared to last month',
+  'analista.caidaDetalle': 'Review pending collections and recent cancellations before month end to recover revenue.',
+  'analista.cobrado': 'Collected {{periodo}}',
+  'analista.variacion': 'Change',
+  'analista.cobranza': 'Step up collection of overdue fees',
+  'analista.cobranzaDetalle': 'Overdue debt is high relative to billing. Contact members in arrears and offer automatic debit.',
+  'analista.sociosConDeuda': 'Members in debt',
+  'analista.deudaVencida': 'Overdue debt',
+  'analista.sobreFacturacion': 'Of monthly billing',
+  'analista.retencion': 'More members leave than join',
+  'analista.retencionDetalle': 'Build a retention plan: call those who stop coming and offer a renewal benefit.',
+  'analista.altas': 'Sign-ups last {{meses}} months',
+  'analista.bajas': 'Cancellations last {{meses}} months',
+  'analista.sedeLlena': '{{sede}} is close to capacity',
+  'analista.sedeLlenaDetalle': 'Consider raising capacity or extending hours before turning sign-ups away.',
+  'analista.sedeVacia': '{{sede}} has plenty of room',
+  'analista.sedeVaciaDetalle': 'A promo code for this location only helps fill the idle capacity.',
+  'analista.sociosCupo': 'Members / capacity',
+  'analista.ocupacion': 'Occupancy',
+  'analista.tarjeta': 'Many members pay by card',
+  'analista.tarjetaDetalle': 'A benefit for switching to debit or cash cuts the financial cost and the surcharge the member pays.',
+  'analista.sociosTarjeta': 'Members paying by card',
+  'analista.prueba': 'There are trial passes in progress',
+  'analista.pruebaDetalle': 'Call those on trial before their pass expires and offer the first month at a discount.',
+  'analista.sociosPrueba': 'Members on trial',
+  'analista.aptos': 'There are expired or missing medical clearances',
+  'analista.aptosDetalle': 'Ask for the clearance at reception when checking in; it is a legal requirement to train.',
+  'analista.sinApto': 'Members without valid clearance',
+  'analista.sanos': 'The indicators are healthy',
+  'analista.mejorSede': '{{sede}} is the top-billing location: the best place to try a new plan or extended hours.',
+  'analista.sinAlertas': 'No alerts for now. Check again at month end.',
+  'analista.facturacionSede': 'Monthly billing {{sede}}',
+  'acceso.bienvenida': 'Welcome, {{nombre}}',
+  'importar.yaEnPadron': 'Already on the roster as {{nombre}}.',
+  'importar.documentoRepetido': 'Duplicate document in row {{fila}}.',
+  'importar.sedeDesconocida': 'Unknown or inaccessible location: "{{valor}}".',
+  'importar.membresiaDesconocida': 'Unknown membership: "{{valor}}".',
+  'importar.pagoDesconocido': 'Unknown payment method: "{{valor}}".',
+  'importar.sinCupo': '{{sede}} has no capacity left.',
+  'planilla.hoja': 'Roster',
+  'planilla.nombre': 'Name',
+  'planilla.dni': 'ID document',
+  'planilla.fechaNacimiento': 'Birthdate',
+  'planilla.edad': 'Age',
+  'planilla.telefono': 'Phone',
+  'planilla.email': 'Email',
+  'planilla.aptoMedicoVence': 'Medical clearance expires',
+  'planilla.sede': 'Location',
+  'planilla.membresia': 'Membership',
+  'planilla.metodoPago': 'Payment method',
+  'planilla.importe': 'Amount',
+  'planilla.estado': 'Status',
+  'planilla.inicio': 'Start',
+  'planilla.vence': 'Expires',
+  'plantilla.cuota_por_vencer.asunto': 'Your fee is due soon',
+  'plantilla.cuota_por_vencer.cuerpo': 'Hi {{nombre}}! A reminder that your {{periodo}} fee ({{importe}}) is due on {{vencimiento}}. {{gimnasio}}',
+  'plantilla.cuota_vencida.asunto': 'Overdue fee',
+  'plantilla.cuota_vencida.cuerpo': 'Hi {{nombre}}, your {{periodo}} fee was due on {{vencimiento}} and {{importe}} is still unpaid. You can pay it at the front desk. {{gimnasio}}',
+  'plantilla.apto_medico.asunto': 'Renew your medical clearance',
+  'plantilla.apto_medico.cuerpo': 'Hi {{nombre}}, your medical clearance expires on {{vencimiento}}. Bring us a new one to keep training. {{gimnasio}}',
+  'plantilla.inactividad.asunto': 'We miss you',
+  'plantilla.inactividad.cuerpo': 'Hi {{nombre}}, we haven\'t seen you for {{dias}} days. We\'re waiting for you at {{gimnasio}}!',
+  'plantilla.cumpleanios.asunto': 'Happy birthday!',
+  'plantilla.cumpleanios.cuerpo': 'Happy birthday, {{nombre}}! Best wishes from the whole {{gimnasio}} team.',
+  'error.congelamiento_pasado': 'A freeze cannot start in the past.',
+  'error.fechas_invertidas': 'The end date is before the start date.',
+  'error.congelamiento_largo': 'A freeze cannot last more than {{dias}} days.',
+  'error.congelamiento_superpuesto': 'It overlaps another freeze.',
+  'error.vence_antes': 'The membership expires before that date.',
+  'error.sin_congelamiento': 'There is no current or scheduled freeze.',
+  'error.cancelacion_sin_motivo': 'Enter the reason for the cancellation.',
+  'error.membresia_vigente': 'The membership is already active.',
+  'error.vencimiento_pasado': 'The new expiry date has already passed.',
+  'error.transicion_invalida': 'Cannot change from "{{desde}}" to "{{hasta}}".',
+  'error.usuario_obligatorio': 'The username is required.',
+  'error.password_corta': 'The password must have at least {{min}} characters.',
+  'error.usuario_repetido': 'That username already exists.',
+  'error.recepcionista_sin_sede': 'A receptionist needs a location.',
+  'error.usuario_inexistente': 'The user does not exist in this organization.',
+  'error.superadmin_no_se_elimina': 'The Super Admin cannot be deleted.',
+  'error.ultimo_admin': 'The last administrator cannot be deleted.',
+  'error.credenciales_incorrectas': 'Wrong username or password.',
+  'error.solo_superadmin': 'Only the Super Admin manages organizations.',
+  'error.socio_no_encontrado': 'We could not find a member with that document.',
+  'error.sin_contacto': 'We have no phone or email for you: ask at the front desk.',
+  'error.clase_otra_sede': 'That class is not at your location.',
+  'error.clase_otro_dia': 'That class is not held on that day.',
+  'error.reserva_inexistente': 'We could not find that booking.',
+  'error.plan_inexistente': 'That plan does not exist.',
+  'error.cambio_no_habilitado': 'Your membership is "{{estado}}": please come to the front desk.',
+  'error.mismo_plan': 'You already have that plan.',
+  'error.cambio_pendiente': 'You already have a plan change awaiting approval.',
+  'error.codigo_reciente': 'We sent you a code less than a minute ago.',
+  'error.codigo_vencido': 'The code has expired. Request a new one.',
+  'error.demasiados_intentos': 'Too many attempts. Request a new code.',
+  'error.codigo_incorrecto': 'Wrong code.',
+  'error.sesion_vencida': 'Your session has expired. Sign in again.',
+  'error.clase_inactiva': 'The class is not active.',
+  'error.reserva_no_habilitada': '{{nombre}}\'s membership does not allow bookings ("{{estado}}").',
+  'error.clase_empezada': 'The class has already started.',
+  'error.plan_sin_clase': 'Their plan does not include {{clase}}.',
+  'error.ya_anotado': '{{nombre}} is already booked for this class.',
+  'error.planilla_grande': 'The spreadsheet is larger than {{mb}} MB.',
+  'error.sin_email': 'No email on file',
+  'error.sin_telefono': 'No phone on file',
+  'error.gateway_mensajeria': 'The gateway responded {{status}}',
+  'error.envio_fallido': 'Could not send: {{detalle}}'
+};
@@ -0,0 +1,773 @@
+/**
+ * Textos de la interfaz en español, el idioma original de FitnessPlus. Es
+ * el diccionario de referencia: sus claves son las que tienen que tener
+ * los demás idiomas (si falta una, no compila).
+ */
+export const es = {
+  // Menú lateral
+  'nav.dashboard': 'Dashboard',
+  'nav.socios': 'Gestión Socios',
+  'nav.alta': 'Nueva Alta',
+  'nav.cobranzas': 'Cobranzas',
+  'nav.acceso': 'Acceso',
+  'nav.clases': 'Clases',
+  'nav.solicitudes': 'Solicitudes',
+  'nav.solicitudesPendientes': 'Solicitudes ({{n}})',
+  'nav.reportes': 'Reportes',
+  'nav.personal': 'Personal',
+  'nav.avisos': 'Avisos',
+  'nav.sedes': 'Sedes',
+  'nav.precios': 'Precios',
+  'nav.usuarios': 'Usuarios',
+  'nav.gimnasios': 'Gimnasios',
+  'nav.cambiarGimnasio': 'Cambiar de gimnasio',
+  'nav.suspendida': '(suspendida)',
+  'nav.cerrarSesion': 'Cerrar sesión',
+  'nav.capacidad': 'Capacidad',
+
+  // Sincronización
+  'sync.enLinea': 'En línea',
+  'sync.sinConexion': 'Sin conexión',
+  'sync.pendientes': '{{n}} sin enviar',
+  'sync.todoEnviado': 'Todo enviado',
+  'sync.conflictos': '{{n}} conflictos',
+  'sync.sincronizar': 'Sincronizar ahora',
+
+  // Dashboard
+  'dash.titulo': 'Visión',
+  'dash.tituloResaltado': 'Global',
+  'dash.subtitulo': 'Análisis de rendimiento y rentabilidad en tiempo real.',
+  'dash.cuarentena': '{{n}} registros en cuarentena',
+  'dash.cobrado': 'Cobrado {{periodo}}',
+  'dash.esperado': 'Esperado {{importe}}',
+  'dash.vencido': 'Vencido {{importe}}',
+  'dash.sociosActivos': 'Socios Activos',
+  'dash.enPrueba': '{{n}} en prueba',
+  'dash.congelados': '{{n}} congelados',
+  'dash.rendimientoSede': 'Rendimiento por Sede',
+  'dash.socios': '{{n}} socios',
+  'dash.enSala': 'En sala {{ocupacion}}/{{capacidad}}',
+
+  // Alta de socio
+  'alta.titulo': 'Registro de',
+  'alta.tituloResaltado': 'Elite',
+  'alta.subtitulo': 'Complete los campos para integrar un nuevo socio al sistema.',
+  'alta.nombre': 'Nombre Completo del Cliente',
+  'alta.nombreEjemplo': 'Ej: Marcelo Alexander Sosa',
+  'alta.nacimiento': 'Fecha de Nacimiento',
+  'alta.telefono': 'Teléfono',
+  'alta.telefonoEjemplo': 'Ej: 351 555-1234',
+  'alta.email': 'Email',
+  'alta.emergencia': 'Contacto de Emergencia',
+  'alta.emergenciaNombre': 'Nombre',
+  'alta.emergenciaTelefono': 'Tel. de Emergencia',
+  'alta.apto': 'Apto Médico Vence',
+  'alta.sede': 'Sede Asignada',
+  'alta.membresia': 'Categoría Membresía',
+  'alta.metodoPago': 'Método de Pago',
+  'alta.efectivo': 'Efectivo / Deb',
+  'alta.tarjeta': 'Tarjeta',
+  'alta.prueba': 'Pase de prueba gratis por {{dias}} días (no se factura hasta convertirlo en socio)',
+  'alta.vendedor': 'Vendido por',
+  'alta.sinVendedor': 'Sin vendedor',
+  'alta.promo': 'Código Promo',
+  'alta.grupo': 'Integrantes del Grupo',
+  'alta.prepago': 'Meses Pagados por Adelantado',
+  'alta.montoFinal': 'Monto Final Proyectado',
+  'alta.plan': 'Plan {{plan}} ({{sede}})',
+  'alta.registrar': 'Validar y Registrar',
+  'alta.sinAccesoSede': 'No tiene acceso a esa sede.',
+  'alta.sedeLlena': '{{sede}} alcanzó su capacidad máxima.',
+
+  // Estados de membresía y de pedidos, para el portal
+  'membresia.prueba': 'Pase de prueba',
+  'membresia.activa': 'Activa',
+  'membresia.congelada': 'Congelada',
+  'membresia.vencida': 'Vencida',
+  'membresia.cancelada': 'Cancelada',
+  'solicitud.pendiente': 'Pendiente',
+  'solicitud.aprobada': 'Aprobada',
+  'solicitud.rechazada': 'Rechazada',
+  'factura.pagada': 'Pagada',
+  'factura.pendiente': 'Pendiente',
+  'factura.vencida': 'Vencida',
+
+  // Portal del socio
+  'portal.titulo': 'Portal del socio',
+  'portal.noDisponible': 'El portal de este gimnasio no está disponible. Consultá en la recepción.',
+  'portal.codigoEnviado': 'Te mandamos un código a',
+  'portal.codigo': 'Código de 6 dígitos',
+  'portal.unMomento': 'Un momento...',
+  'portal.ingresar': 'Ingresar',
+  'portal.recibirCodigo': 'Recibir código',
+  'portal.cambiarDocumento': 'Cambiar {{documento}}',
+  'portal.reenviar': 'Reenviar código',
+  'portal.hola': 'Hola,',
+  'portal.salir': 'Salir',
+  'portal.tuPlan': 'Tu plan',
+  'portal.planDetalle': 'Sede {{sede}} • {{importe}}/mes',
+  'portal.venceEl': 'vence el {{fecha}}',
+  'portal.saldo': 'Saldo',
+  'portal.vencido': '{{importe}} vencido',
+  'portal.alDia': 'Estás al día',
+  'portal.credencial': 'Credencial',
+  'portal.mostrarQr': 'Mostrar QR',
+  'portal.clases': 'Clases',
+  'portal.confirmada': 'Confirmada',
+  'portal.enEspera': 'En espera ({{posicion}}°)',
+  'portal.cancelar': 'Cancelar',
+  'portal.reservar': 'Reservar ({{n}} lugares)',
+  'portal.listaEspera': 'Lista de espera',
+  'portal.sinClases': 'No hay clases programadas en tu sede.',
+  'portal.cambiarPlan': 'Cambiar de plan',
+  'portal.nuevoPlan': 'Nuevo plan',
+  'portal.elegiPlan': 'Elegí un plan',
+  'portal.porMes': '{{importe}}/mes',
+  'portal.pedirCambio': 'Pedir cambio',
+  'portal.pedidoEnviado': 'Pedido enviado: te avisamos en la recepción cuando lo aprueben.',
+  'portal.tusPagos': 'Tus pagos',
+  'portal.periodo': 'Periodo',
+  'portal.vence': 'Vence',
+  'portal.total': 'Total',
+  'portal.estado': 'Estado',
+  'portal.recibos': 'Recibos',
+  'portal.resta': 'Resta {{importe}}',
+  'portal.sinCuotas': 'Todavía no hay cuotas emitidas.',
+  'recibo.titulo': 'Recibo {{periodo}}',
+  'recibo.numero': 'Recibo N° {{numero}}',
+  'recibo.cuota': 'Cuota {{periodo}} (vence {{vencimiento}})',
+  'recibo.fechaPago': 'Fecha de pago: {{fecha}}',
+
+  // Validación de socios y documento genérico
+  'validacion.nombreObligatorio': 'El nombre es obligatorio.',
+  'validacion.documentoInvalido': '{{documento}} inválido.',
+  'validacion.documentoRepetido': 'Ya está registrado: {{nombre}} ({{sede}}).',
+  'validacion.documentoRepetidoBaja': 'Ya está registrado: {{nombre}} ({{sede}}, de baja).',
+  'validacion.fechaNacimiento': 'Fecha de nacimiento inválida.',
+  'validacion.nacimientoFuturo': 'La fecha de nacimiento está en el futuro.',
+  'validacion.telefono': 'Teléfono inválido (8 a 15 dígitos).',
+  'validacion.email': 'Email inválido.',
+  'validacion.contactoSinNombre': '¿A quién corresponde este teléfono?',
+  'validacion.contactoSinTelefono': 'Falta el teléfono de emergencia.',
+  'validacion.aptoMedico': 'Fecha de vencimiento inválida.',
+  'documento.sigla': 'Doc.',
+  'documento.nombre': 'Documento de identidad',
+  'documento.ayuda': 'Solo números',
+
+  // Reportes financieros
+  'metodo.efectivo': 'Efectivo / Débito',
+  'metodo.tarjeta': 'Tarjeta',
+  'reporte.trimestre': '{{n}}º trimestre {{anio}}',
+  'reporte.trimestreCorto': 'T{{n}} {{anio}}',
+  'reporte.titulo': 'Reporte financiero',
+  'reporte.generado': '{{periodo}} · generado el {{fecha}}',
+  'reporte.concepto': 'Concepto',
+  'reporte.pagos': 'Pagos',
+  'reporte.monto': 'Monto',
+  'reporte.sinMovimientos': 'Sin movimientos',
+  'reporte.ingresos': 'Ingresos',
+  'reporte.vsAnterior': '{{variacion}} vs. periodo anterior',
+  'reporte.ticketPromedio': 'Ticket promedio',
+  'reporte.cantidadPagos': '{{n}} pagos',
+  'reporte.recargos': 'Recargos',
+  'reporte.detalleRecargos': 'Tarjeta {{tarjeta}} · Mora {{mora}}',
+  'reporte.socios': 'Socios',
+  'reporte.altasBajas': 'Altas / bajas del periodo',
+  'reporte.evolucion': 'Evolución de ingresos',
+  'reporte.porSede': 'Por sede',
+  'reporte.porPlan': 'Por plan',
+  'reporte.porMetodo': 'Por método de pago',
+
+  // Cobranzas
+  'cobranzas.titulo': 'Libro de',
+  'cobranzas.tituloResaltado': 'Cobranzas',
+  'cobranzas.verTodas': 'Ver todas',
+  'cobranzas.soloImpagas': 'Solo impagas',
+  'cobranzas.socio': 'Socio',
+  'cobranzas.periodo': 'Periodo',
+  'cobranzas.vence': 'Vence',
+  'cobranzas.total': 'Total',
+  'cobranzas.saldo': 'Saldo',
+  'cobranzas.cobrar': 'Cobrar',
+  'cobranzas.inclRecargo': 'incl. recargo {{importe}}',
+  'cobranzas.vacio': 'No hay facturas pendientes de cobro.',
+
+  // Padrón de socios
+  'padron.titulo': 'Padrón',
+  'padron.tituloResaltado': 'Elite',
+  'padron.exportar': 'Exportar lo filtrado a {{formato}}',
+  'padron.importar': 'Importar',
+  'padron.buscar': 'Buscar por {{documento}} o Nombre...',
+  'padron.todoPago': 'Todo pago',
+  'padron.activos': 'Activos',
+  'padron.bajas': 'Bajas',
+  'padron.activosYBajas': 'Activos y bajas',
+  'padron.soloEstado': 'Solo: {{estado}}',
+  'padron.conYSinDeuda': 'Con y sin deuda',
+  'padron.conDeuda': 'Con deuda',
+  'padron.alDia': 'Al día',
+  'padron.edad': 'Edad',
+  'padron.desde': 'desde',
+  'padron.hasta': 'hasta',
+  'padron.ordenar': 'Click para ordenar • Shift+click para agregar criterio',
+  'padron.nombre': 'Nombre',
+  'padron.ubicacion': 'Ubicación',
+  'padron.membresia': 'Membresía',
+  'padron.deuda': 'Deuda',
+  'padron.importe': 'Importe',
+  'padron.acciones': 'Acciones',
+  'padron.anios': '{{edad}} años',
+  'padron.aprox': ' (aprox.)',
+  'padron.aptoVencido': 'Apto vencido',
+  'padron.sinApto': 'Sin apto',
+  'padron.vence': 'vence {{fecha}}',
+  'padron.editar': 'Editar',
+  'padron.historial': 'Historial',
+  'padron.credencial': 'Credencial QR',
+  'padron.membresiaAcciones': 'Membresía: congelar, cancelar, reactivar',
+  'padron.vacio': 'No se encontraron registros en la base de datos.',
+  'padron.pagina': '{{total}} socios • Página {{pagina}} de {{paginas}}',
+
+  // Agenda de clases
+  'agenda.titulo': 'Agenda de',
+  'agenda.tituloResaltado': 'Clases',
+  'agenda.hoy': 'Hoy',
+  'agenda.nuevaClase': 'Nueva clase',
+  'agenda.editarClase': 'Editar clase',
+  'agenda.sinClases': 'No hay clases cargadas en esta sede.',
+  'agenda.inactivas': 'Inactivas:',
+  'agenda.enEspera': '+{{n}} en espera',
+  'agenda.cancelar': 'Cancelar',
+  'agenda.solo': 'Solo {{planes}}',
+  'agenda.anotar': 'Anotar socio: {{documento}} o nombre',
+  'agenda.llena': 'Clase llena: las nuevas reservas van a la lista de espera.',
+  'agenda.confirmados': 'Confirmados ({{n}}/{{capacidad}})',
+  'agenda.nadie': 'Nadie anotado todavía.',
+  'agenda.listaEspera': 'Lista de espera',
+  'agenda.obligatorios': 'Nombre, instructor y sala son obligatorios.',
+  'agenda.mayorACero': 'El cupo y la duración tienen que ser mayores a cero.',
+  'agenda.superpuesta': 'Se superpone con {{clase}} ({{dia}} {{hora}}) en la misma sala.',
+  'agenda.nombre': 'Nombre',
+  'agenda.instructor': 'Instructor',
+  'agenda.elegir': 'Elegir…',
+  'agenda.sala': 'Sala',
+  'agenda.salaEjemplo': 'Salón 1',
+  'agenda.sede': 'Sede',
+  'agenda.dia': 'Día',
+  'agenda.hora': 'Hora',
+  'agenda.duracion': 'Duración (min)',
+  'agenda.cupo': 'Cupo',
+  'agenda.planes': 'Planes habilitados (ninguno = todos)',
+  'agenda.activa': 'Activa (las inactivas no aparecen en la agenda; sus reservas se conservan)',
+  'agenda.guardar': 'Guardar',
+
+  // Sedes y asistencia
+  'sedes.titulo': 'Gestión de',
+  'sedes.tituloResaltado': 'Sedes',
+  'sedes.guardar': 'Guardar',
+  'sedes.repetida': 'Ya existe una sede con código {{codigo}}.',
+  'sedes.unaAbierta': 'Tiene que quedar al menos una sede abierta.',
+  'sedes.sinNombre': 'Cada sede necesita un nombre.',
+  'sedes.capacidades': 'Las capacidades tienen que ser mayores a cero.',
+  'sedes.ocupadas': '{{n}} socios ocupando cupo',
+  'sedes.cerrar': 'Cerrar sede',
+  'sedes.reabrir': 'Reabrir',
+  'sedes.nombre': 'Nombre',
+  'sedes.direccion': 'Dirección',
+  'sedes.cupoSocios': 'Cupo de socios',
+  'sedes.capacidadSala': 'Capacidad del salón',
+  'sedes.abre': 'Abre',
+  'sedes.cierra': 'Cierra',
+  'sedes.cupoExcedido': 'El cupo quedó por debajo de los socios actuales: no se aceptarán altas hasta que bajen.',
+  'sedes.codigo': 'Código (ej: MZA)',
+  'sedes.nueva': 'Sede',
+  'asistencia.titulo': 'Asistencia',
+  'asistencia.todasLasSedes': 'Todas las sedes',
+  'asistencia.visitas': 'Visitas últimos 14 días',
+  'asistencia.pico': 'Horarios pico (últimas 4 semanas)',
+  'asistencia.celda': '{{dia}} {{hora}}hs: {{n}}',
+  'asistencia.riesgo': 'Riesgo de Abandono',
+  'asistencia.dias': '{{n}} días',
+  'asistencia.umbral': '{{n}}+ días',
+  'asistencia.nuncaVino': 'nunca vino',
+  'asistencia.todosVinieron': 'Todos los socios vinieron en los últimos {{n}} días.',
+
+  // Usuarios del equipo
+  'rol.superadmin': 'Super Admin',
+  'rol.admin': 'Administrador',
+  'rol.recepcionista': 'Recepcionista',
+  'usuarios.titulo': 'Equipo de',
+  'usuarios.tituloResaltado': 'Trabajo',
+  'usuarios.nombreUsuario': 'Nombre / Usuario',
+  'usuarios.rol': 'Rol',
+  'usuarios.sede': 'Sede',
+  'usuarios.acciones': 'Acciones',
+  'usuarios.todas': 'Todas',
+  'usuarios.nuevo': 'Nuevo Usuario',
+  'usuarios.nombre': 'Nombre y apellido',
+  'usuarios.usuario': 'Usuario',
+  'usuarios.password': 'Contraseña',
+  'usuarios.crear': 'Crear Usuario',
+
+  // Planes y precios
+  'regla.edad': 'Franja de edad',
+  'regla.grupo': 'Grupo / familiar',
+  'regla.promo': 'Código promocional',
+  'regla.prepago': 'Pago adelantado',
+  'regla.metodo_pago': 'Método de pago',
+  'precios.titulo': 'Planes y',
+  'precios.tituloResaltado': 'Precios',
+  'precios.guardar': 'Guardar',
+  'precios.planRepetido': 'Ya existe un plan con código {{codigo}}.',
+  'precios.unPlan': 'Tiene que quedar al menos un plan.',
+  'precios.planIncompleto': 'Cada plan necesita nombre y precio mayor a cero.',
+  'precios.planes': 'Planes',
+  'precios.codigo': 'Código',
+  'precios.nombre': 'Nombre',
+  'precios.precioBase': 'Precio base',
+  'precios.base': 'base',
+  'precios.eliminarPlan': 'Eliminar plan',
+  'precios.codigoPlan': 'Código (ej: ELT)',
+  'precios.plan': 'Plan',
+  'precios.reglas': 'Reglas',
+  'precios.regla': 'Regla',
+  'precios.porcentaje': '% (− desc.)',
+  'precios.desdeEdad': 'Desde edad',
+  'precios.hastaEdad': 'Hasta edad',
+  'precios.minIntegrantes': 'Mínimo integrantes',
+  'precios.vence': 'Vence',
+  'precios.meses': 'Meses adelantados (mín.)',
+  'precios.metodo': 'Método',
+  'precios.desactivar': 'Desactivar',
+  'precios.activar': 'Activar',
+  'precios.eliminarRegla': 'Eliminar regla',
+
+  // Pantalla de reportes
+  'reportes.titulo': 'Reportes',
+  'reportes.tituloResaltado': 'Financieros',
+  'reportes.mensual': 'Mensual',
+  'reportes.trimestral': 'Trimestral',
+  'reportes.sinDatoPrevio': 'sin dato previo',
+  'reportes.sinCobros': 'Sin cobros en el periodo.',
+  'reportes.recargoTarjeta': 'Recargo tarjeta',
+  'reportes.mora': 'Mora {{importe}}',
+  'reportes.altasBajas': 'Altas / Bajas',
+  'reportes.ventanaBloqueada': 'El navegador bloqueó la ventana del reporte. Permití las ventanas emergentes.',
+
+  // Personal y liquidación
+  'empleado.instructor': 'Instructor',
+  'empleado.vendedor': 'Vendedor',
+  'empleado.recepcion': 'Recepción',
+  'empleado.administracion': 'Administración',
+  'personal.titulo': 'Personal y',
+  'personal.tituloResaltado': 'Liquidación',
+  'personal.guardar': 'Guardar cambios',
+  'personal.nombre': 'Nombre',
+  'personal.rol': 'Rol',
+  'personal.sede': 'Sede',
+  'personal.tarifa': '$ / hora',
+  'personal.comisionPct': 'Comisión %',
+  'personal.activo': 'Activo',
+  'personal.vacio': 'Todavía no hay personal cargado.',
+  'personal.nuevo': 'Nombre del empleado',
+  'personal.agregar': 'Agregar',
+  'personal.liquidacion': 'Liquidación mensual',
+  'personal.empleado': 'Empleado',
+  'personal.clases': 'Clases',
+  'personal.horas': 'Horas',
+  'personal.porHoras': 'Por horas',
+  'personal.altas': 'Altas',
+  'personal.facturado': 'Facturado',
+  'personal.comision': 'Comisión',
+  'personal.total': 'Total',
+  'personal.sinPersonal': 'Sin personal para liquidar.',
+  'personal.totalLiquidar': 'Total a liquidar',
+  'personal.nota': 'Las horas salen de las clases activas de la Agenda y solo cuentan las ya empezadas. La comisión se calcula sobre la primera cuota facturada de cada alta del mes: un pase de prueba no suma.',
+
+  // Control de acceso y molinetes
+  'acceso.desconocido': 'Credencial no registrada',
+  'acceso.inactivo': 'El socio está dado de baja',
+  'acceso.congelada': 'La membresía está congelada',
+  'acceso.vencida': 'La membresía está vencida',
+  'acceso.otra_sede': 'Su membresía corresponde a otra sede',
+  'acceso.impago': 'Tiene cuotas vencidas sin pagar',
+  'acceso.fuera_de_horario': 'La sede está cerrada en este horario',
+  'acceso.titulo': 'Control de',
+  'acceso.tituloResaltado': 'Acceso',
+  'acceso.puesto': 'Puesto {{sede}}',
+  'acceso.escanear': 'Escanee la credencial...',
+  'acceso.apagarCamara': 'Apagar cámara',
+  'acceso.usarCamara': 'Usar cámara',
+  'acceso.adelante': 'Adelante',
+  'acceso.denegado': 'Acceso denegado',
+  'acceso.ultimos': 'Últimos Ingresos',
+  'acceso.socioEliminado': 'Socio eliminado',
+  'acceso.nadie': 'Todavía no ingresó nadie en esta sede.',
+  'puertas.titulo': 'Puertas',
+  'puertas.enVivo': '● En vivo',
+  'puertas.desconocida': 'Credencial desconocida',
+  'puertas.permitido': 'Habilitado',
+  'puertas.denegado': 'Denegado',
+  'puertas.paso': 'Pasó',
+  'puertas.sin_paso': 'No pasó',
+  'puertas.sinMovimiento': 'Sin movimiento en los molinetes.',
+
+  // Ingreso y organización
+  'login.sinServidor': 'No se pudo contactar al servidor: {{error}}',
+  'login.primeraVez': 'Configuración inicial: crear Super Admin',
+  'login.restringido': 'Acceso restringido',
+  'login.nombre': 'Nombre y apellido',
+  'login.usuario': 'Usuario',
+  'login.password': 'Contraseña',
+  'login.verificando': 'Verificando...',
+  'login.crearYEntrar': 'Crear y Entrar',
+  'login.ingresar': 'Ingresar',
+  'tenant.noHabilitado': 'Tu gimnasio no está habilitado. Comunicate con el administrador del servicio.',
+  'tenant.salir': 'Salir',
+
+  // Avisos de la App
+  'app.sinCupo': '{{sede}} no tiene cupo disponible.',
+  'app.sinPermisoCancelar': 'No tiene permiso para cancelar membresías.',
+  'app.preciosGuardados': 'Precios actualizados. Se aplican a las altas y a los socios que se editen.',
+  'app.sedesGuardadas': 'Sedes actualizadas.',
+  'app.personalGuardado': 'Personal actualizado.',
+  'app.solicitudNoVigente': 'La membresía del socio no está vigente: rechazá la solicitud.',
+  'app.alerta': 'Alerta: {{error}}',
+  'app.avisosGuardados': 'Avisos actualizados.',
+  'app.importados': 'Se importaron {{n}} socios.',
+  'dash.escalabilidad': 'Escalabilidad (UTN Avanzado)',
+  'dash.escalabilidadDetalle': 'Este sistema demuestra cómo pasar de datos secuenciales a una arquitectura distribuida.',
+
+  // Historial, credencial, conflictos y consultor
+  'auditoria.alta': 'Alta',
+  'auditoria.edicion': 'Edición de datos',
+  'auditoria.cambio_plan': 'Cambio de plan',
+  'auditoria.baja': 'Baja',
+  'auditoria.reactivacion': 'Reactivación',
+  'auditoria.conversion': 'Pase de prueba convertido',
+  'auditoria.congelamiento': 'Congelamiento',
+  'auditoria.vencimiento': 'Vencimiento',
+  'campo.nombre': 'Nombre',
+  'campo.dni': 'Documento',
+  'campo.fechaNacimiento': 'Fecha de nacimiento',
+  'campo.sede': 'Sede',
+  'campo.membresia': 'Membresía',
+  'campo.metodoPago': 'Método de pago',
+  'campo.importe': 'Importe',
+  'campo.estado': 'Estado de la membresía',
+  'campo.inicio': 'Inicio de la membresía',
+  'campo.vence': 'Vencimiento de la membresía',
+  'campo.congelamientos': 'Congelamientos',
+  'campo.fechaCancelacion': 'Fecha de cancelación',
+  'campo.motivoCancelacion': 'Motivo de cancelación',
+  'campo.codigoPromo': 'Código promocional',
+  'campo.integrantesGrupo': 'Integrantes del grupo',
+  'campo.mesesPrepago': 'Meses de pago adelantado',
+  'campo.vendedorId': 'Vendedor',
+  'campo.sinAvisos': 'Avisos desactivados',
+  'campo.telefono': 'Teléfono',
+  'campo.email': 'Email',
+  'campo.contactoEmergenciaNombre': 'Contacto de emergencia',
+  'campo.contactoEmergenciaTelefono': 'Teléfono de emergencia',
+  'campo.aptoMedicoVence': 'Vencimiento apto médico',
+  'campo.fechaNacimientoEstimada': 'Fecha de nacimiento estimada',
+  'comun.si': 'Sí',
+  'comun.no': 'No',
+  'historial.titulo': 'Historial',
+  'historial.por': 'por {{usuario}}',
+  'historial.vacio': 'Sin cambios registrados.',
+  'credencial.titulo': 'Credencial de Acceso',
+  'credencial.qrDe': 'QR de {{nombre}}',
+  'credencial.generando': 'Generando...',
+  'credencial.descargar': 'Descargar',
+  'credencial.imprimir': 'Imprimir',
+  'credencial.documentoSede': '{{documento}} • Sede {{sede}}',
+  'credencial.ventana': 'Credencial {{nombre}}',
+  'conflictos.titulo': 'Conflictos de sincronización',
+  'conflictos.edicion': 'Otra recepción cambió los mismos datos',
+  'conflictos.eliminado': 'Otra recepción dio de baja al socio',
+  'conflictos.rechazado': 'El servidor no aceptó el cambio',
+  'conflictos.campo': '{{campo}}: acá',
+  'conflictos.servidor': 'servidor',
+  'conflictos.realta': 'Volver a darlo de alta',
+  'conflictos.usarMio': 'Usar lo mío',
+  'conflictos.usarServidor': 'Usar el servidor',
+  'conflictos.vacio': 'No hay conflictos pendientes.',
+  'consultor.titulo': 'Consultor de Negocio',
+  'consultor.anteriores': 'Análisis anteriores',
+  'consultor.error': 'No se pudo completar el análisis. Probá de nuevo en un rato.',
+  'consultor.procesando': 'Procesando Datos...',
+  'consultor.nuevo': 'Nuevo Análisis',
+  'consultor.descripcion': 'Analiza sedes, planes, medios de pago, cobranza y la tendencia de los últimos meses.',
+  'consultor.consultar': 'Consultar Estrategia',
+  'prioridad.alta': 'alta',
+  'prioridad.media': 'media',
+  'prioridad.baja': 'baja',
+
+  // Ciclo de vida de la membresía
+  'congelamiento.vacaciones': 'Vacaciones',
+  'congelamiento.medico': 'Licencia médica',
+  'membresiaModal.titulo': 'Membresía',
+  'membresiaModal.estado': 'Estado',
+  'membresiaModal.desde': 'Desde',
+  'membresiaModal.vence': 'Vence',
+  'membresiaModal.renuevaMes': 'Se renueva cada mes',
+  'membresiaModal.canceladaEl': 'Cancelada el {{fecha}}',
+  'membresiaModal.congelamientos': 'Congelamientos',
+  'membresiaModal.programado': 'programado',
+  'membresiaModal.enCurso': 'en curso',
+  'membresiaModal.convertir': 'Convertir en socio (empieza a pagar hoy)',
+  'membresiaModal.congelarAyuda': 'Congelar (máx. {{dias}} días; corre el vencimiento y no se cobran los días congelados)',
+  'membresiaModal.congelar': 'Congelar',
+  'membresiaModal.terminarHoy': 'Terminar el congelamiento hoy',
+  'membresiaModal.anular': 'Anular el congelamiento programado',
+  'membresiaModal.reactivarAyuda': 'Reactivar desde hoy (vencimiento opcional)',
+  'membresiaModal.reactivar': 'Reactivar',
+  'membresiaModal.cancelarTitulo': 'Cancelar membresía',
+  'membresiaModal.motivo': 'Motivo (ej.: se mudó, costo, lesión)',
+  'membresiaModal.cancelar': 'Cancelar',
+
+  // Bandeja de solicitudes
+  'solicitudes.titulo': 'Solicitudes de',
+  'solicitudes.tituloResaltado': 'Socios',
+  'solicitudes.subtitulo': 'Cambios de plan pedidos desde el portal (/portal).',
+  'solicitudes.fechaSede': '{{fecha}} • Sede {{sede}}',
+  'solicitudes.porMes': '{{importe}}/mes',
+  'solicitudes.seLeMostro': '(se le mostró {{importe}})',
+  'solicitudes.nota': 'Nota (opcional)',
+  'solicitudes.aprobar': 'Aprobar',
+  'solicitudes.rechazar': 'Rechazar',
+  'solicitudes.vacio': 'No hay pedidos pendientes.',
+  'solicitudes.socio': 'Socio',
+  'solicitudes.cambio': 'Cambio',
+  'solicitudes.estado': 'Estado',
+  'solicitudes.resueltaPor': 'Resuelta por',
+
+  // Avisos automáticos
+  'aviso.cuota_por_vencer': 'Cuota por vencer',
+  'aviso.cuota_vencida': 'Cuota vencida',
+  'aviso.apto_medico': 'Apto médico por vencer',
+  'aviso.inactividad': 'Inactividad',
+  'aviso.cumpleanios': 'Cumpleaños',
+  'aviso.enviado': 'Enviado',
+  'aviso.fallido': 'Fallido',
+  'aviso.omitido': 'Omitido',
+  'avisos.titulo': 'Avisos a',
+  'avisos.tituloResaltado': 'Socios',
+  'avisos.subtitulo': 'Se revisan al abrir la App y una vez por hora · Salen por: {{proveedor}}',
+  'avisos.modoPrueba': ' (modo prueba: no llegan a los socios)',
+  'avisos.sinPendientes': 'No hay avisos pendientes.',
+  'avisos.resultado': '{{enviados}} enviados, {{sinEnviar}} sin enviar.',
+  'avisos.bandeja': 'Bandeja',
+  'avisos.revisar': 'Revisar ahora',
+  'avisos.guardar': 'Guardar cambios',
+  'avisos.diasAnticipoCuota': 'Avisar cuota, días antes',
+  'avisos.diasAnticipoApto': 'Avisar apto, días antes',
+  'avisos.diasInactividad': 'Inactivo después de (días)',
+  'avisos.asunto': 'Asunto',
+  'avisos.variables': 'Variables disponibles: {{variables}}.',
+  'avisos.preferencias': 'Los socios que no quieren avisos por un canal se marcan al editarlos.',
+  'avisos.registro': 'Registro de avisos',
+  'avisos.buscar': 'Buscar socio',
+  'avisos.fecha': 'Fecha',
+  'avisos.socio': 'Socio',
+  'avisos.aviso': 'Aviso',
+  'avisos.canal': 'Canal',
+  'avisos.estado': 'Estado',
+  'avisos.vacio': 'Todavía no se mandó ningún aviso.',
+
+  // Gimnasios clientes
+  'orgs.titulo': 'Gimnasios',
+  'orgs.tituloResaltado': 'Clientes',
+  'orgs.faltaNombre': 'Cada organización necesita un nombre.',
+  'orgs.principalActiva': 'La organización principal no se puede suspender.',
+  'orgs.nombre': 'Nombre',
+  'orgs.logo': 'URL del logo',
+  'orgs.pais': 'País',
+  'orgs.idioma': 'Idioma',
+  'orgs.moneda': 'Moneda',
+  'orgs.habilitada': 'Habilitada',
+  'orgs.guardar': 'Guardar',
+  'orgs.entrar': 'Entrar',
+  'orgs.nuevo': 'Nuevo Gimnasio',
+  'orgs.nuevoDetalle': 'Arranca sin socios ni usuarios. Entrá a él para crear su primer administrador.',
+  'orgs.nombreComercial': 'Nombre comercial',
+  'orgs.crear': 'Crear',
+
+  // Edición e importación de socios
+  'campo.edad': 'Edad (si no hay fecha)',
+  'editar.titulo': 'Editar',
+  'editar.tituloResaltado': 'Socio',
+  'editar.nacimiento': 'Nacimiento',
+  'editar.estimado': ' (estimado)',
+  'editar.emergencia': 'Emergencia',
+  'editar.telEmergencia': 'Tel. emergencia',
+  'editar.apto': 'Apto vence',
+  'editar.sinAvisos': 'No quiere recibir avisos por',
+  'editar.sede': 'Sede',
+  'editar.membresia': 'Membresía',
+  'editar.pago': 'Pago',
+  'editar.promo': 'Código promo',
+  'editar.grupo': 'Integrantes grupo',
+  'editar.prepago': 'Meses prepagos',
+  'editar.precioPlan': 'Precio del plan',
+  'editar.nuevoImporte': 'Nuevo importe',
+  'editar.upgrade': ' • Upgrade',
+  'editar.downgrade': ' • Downgrade',
+  'editar.guardar': 'Guardar',
+  'importar.titulo': 'Importar',
+  'importar.tituloResaltado': 'Padrón',
+  'importar.muyGrande': 'La planilla supera los 10 MB. Partila en varias.',
+  'importar.sinFilas': 'La planilla no tiene filas de datos.',
+  'importar.ilegible': 'No se pudo leer el archivo. ¿Es un CSV o XLSX válido?',
+  'importar.elegir': 'Elegí un archivo .csv o .xlsx',
+  'importar.encabezados': 'La primera fila tiene que tener los encabezados.',
+  'importar.filas': '{{n}} filas. Indicá qué columna corresponde a cada dato.',
+  'importar.noViene': '— No viene —',
+  'importar.columna': 'Columna {{n}}',
+  'importar.sedeDefecto': 'Sede si no viene',
+  'importar.membresiaDefecto': 'Membresía si no viene',
+  'importar.pagoDefecto': 'Pago si no viene',
+  'importar.faltan': 'Falta asignar: {{campos}}',
+  'importar.simular': 'Simular',
+  'importar.seImportan': '{{n}} se importan',
+  'importar.duplicados': '{{n}} duplicados',
+  'importar.conErrores': '{{n}} con errores',
+  'importar.fila': 'Fila',
+  'importar.socio': 'Socio',
+  'importar.resultado': 'Resultado',
+  'importar.motivo': 'Motivo',
+  'importar.hojaErrores': 'Errores',
+  'importar.valida': 'Válida',
+  'importar.duplicada': 'Duplicada',
+  'importar.error': 'Error',
+  'importar.volver': 'Volver',
+  'importar.descargarErrores': 'Descargar errores',
+  'importar.importar': 'Importar {{n}}',
+
+  // Avisos del motor de precios
+  'precios.promo_vencida': 'El código {{codigo}} está vencido.',
+  'precios.promo_inexistente': 'Código promocional inexistente.',
+
+  // Analista local
+  'analista.fundadores': 'Lanzar campaña de fundadores',
+  'analista.fundadoresDetalle': 'Todavía no hay socios activos. Un descuento de lanzamiento para los primeros 50 socios acelera el arranque.',
+  'analista.sociosActivos': 'Socios activos',
+  'analista.caida': 'Los ingresos cayeron respecto del mes pasado',
+  'analista.caidaDetalle': 'Revisá cobranzas pendientes y bajas recientes antes de fin de mes para recuperar la recaudación.',
+  'analista.cobrado': 'Cobrado {{periodo}}',
+  'analista.variacion': 'Variación',
+  'analista.cobranza': 'Reforzar la cobranza de cuotas vencidas',
+  'analista.cobranzaDetalle': 'La deuda vencida es alta en relación a la facturación. Contactá a los morosos y ofrecé débito automático.',
+  'analista.sociosConDeuda': 'Socios con deuda',
+  'analista.deudaVencida': 'Deuda vencida',
+  'analista.sobreFacturacion': 'Sobre facturación mensual',
+  'analista.retencion': 'Se van más socios de los que entran',
+  'analista.retencionDetalle': 'Armá un plan de retención: llamado a quienes dejan de venir y un beneficio por renovar.',
+  'analista.altas': 'Altas últimos {{meses}} meses',
+  'analista.bajas': 'Bajas últimos {{meses}} meses',
+  'analista.sedeLlena': '{{sede}} está cerca de su cupo',
+  'analista.sedeLlenaDetalle': 'Evaluá ampliar el cupo o extender el horario antes de empezar a rechazar altas.',
+  'analista.sedeVacia': '{{sede}} tiene lugar de sobra',
+  'analista.sedeVaciaDetalle': 'Una promoción con código solo para esta sede ayuda a llenar el cupo ocioso.',
+  'analista.sociosCupo': 'Socios / cupo',
+  'analista.ocupacion': 'Ocupación',
+  'analista.tarjeta': 'Muchos socios pagan con tarjeta',
+  'analista.tarjetaDetalle': 'Un beneficio por pasar a débito o efectivo reduce el costo financiero y el recargo que paga el socio.',
+  'analista.sociosTarjeta': 'Socios con tarjeta',
+  'analista.prueba': 'Hay pases de prueba en curso',
+  'analista.pruebaDetalle': 'Llamá a quienes están probando antes de que venza el pase y ofreceles el primer mes con descuento.',
+  'analista.sociosPrueba': 'Socios en prueba',
+  'analista.aptos': 'Hay aptos médicos vencidos o faltantes',
+  'analista.aptosDetalle': 'Pedí el apto en recepción al registrar el ingreso; es un requisito legal para entrenar.',
+  'analista.sinApto': 'Socios sin apto vigente',
+  'analista.sanos': 'Los indicadores están sanos',
+  'analista.mejorSede': '{{sede}} es la sede que más factura: es el mejor lugar para probar un plan nuevo o un horario extendido.',
+  'analista.sinAlertas': 'Sin alertas por ahora. Volvé a consultar a fin de mes.',
+  'analista.facturacionSede': 'Facturación mensual {{sede}}',
+
+  // Bienvenida del molinete, motivos de importación y encabezados de la planilla
+  'acceso.bienvenida': 'Bienvenido/a, {{nombre}}',
+  'importar.yaEnPadron': 'Ya está en el padrón como {{nombre}}.',
+  'importar.documentoRepetido': 'Documento repetido en la fila {{fila}}.',
+  'importar.sedeDesconocida': 'Sede desconocida o sin acceso: "{{valor}}".',
+  'importar.membresiaDesconocida': 'Membresía desconocida: "{{valor}}".',
+  'importar.pagoDesconocido': 'Método de pago desconocido: "{{valor}}".',
+  'importar.sinCupo': '{{sede}} no tiene cupo disponible.',
+  'planilla.hoja': 'Padrón',
+  'planilla.nombre': 'Nombre',
+  'planilla.dni': 'DNI',
+  'planilla.fechaNacimiento': 'Fecha de nacimiento',
+  'planilla.edad': 'Edad',
+  'planilla.telefono': 'Teléfono',
+  'planilla.email': 'Email',
+  'planilla.aptoMedicoVence': 'Apto médico vence',
+  'planilla.sede': 'Sede',
+  'planilla.membresia': 'Membresía',
+  'planilla.metodoPago': 'Método de pago',
+  'planilla.importe': 'Importe',
+  'planilla.estado': 'Estado',
+  'planilla.inicio': 'Inicio',
+  'planilla.vence': 'Vence',
+
+  // Textos de fábrica de los avisos automáticos
+  'plantilla.cuota_por_vencer.asunto': 'Tu cuota vence pronto',
+  'plantilla.cuota_por_vencer.cuerpo': 'Hola {{nombre}}! Te recordamos que la cuota de {{periodo}} ({{importe}}) vence el {{vencimiento}}. {{gimnasio}}',
+  'plantilla.cuota_vencida.asunto': 'Cuota vencida',
+  'plantilla.cuota_vencida.cuerpo': 'Hola {{nombre}}, la cuota de {{periodo}} venció el {{vencimiento}} y quedan {{importe}} por abonar. Podés pagarla en recepción. {{gimnasio}}',
+  'plantilla.apto_medico.asunto': 'Renová tu apto médico',
+  'plantilla.apto_medico.cuerpo': 'Hola {{nombre}}, tu apto médico vence el {{vencimiento}}. Acercanos uno nuevo para seguir entrenando. {{gimnasio}}',
+  'plantilla.inactividad.asunto': 'Te extrañamos',
+  'plantilla.inactividad.cuerpo': 'Hola {{nombre}}, hace {{dias}} días que no te vemos. ¡Te esperamos en {{gimnasio}}!',
+  'plantilla.cumpleanios.asunto': '¡Feliz cumpleaños!',
+  'plantilla.cumpleanios.cuerpo': '¡Feliz cumpleaños, {{nombre}}! Todo el equipo de {{gimnasio}} te saluda.',
+
+  // Errores de las reglas de negocio (ErrorNegocio)
+  'error.congelamiento_pasado': 'El congelamiento no puede empezar en el pasado.',
+  'error.fechas_invertidas': 'La fecha de fin es anterior a la de inicio.',
+  'error.congelamiento_largo': 'Un congelamiento no puede superar los {{dias}} días.',
+  'error.congelamiento_superpuesto': 'Se superpone con otro congelamiento.',
+  'error.vence_antes': 'La membresía vence antes de esa fecha.',
+  'error.sin_congelamiento': 'No tiene congelamientos en curso ni programados.',
+  'error.cancelacion_sin_motivo': 'Indicá el motivo de la cancelación.',
+  'error.membresia_vigente': 'La membresía ya está vigente.',
+  'error.vencimiento_pasado': 'La nueva fecha de vencimiento ya pasó.',
+  'error.transicion_invalida': 'No se puede pasar de "{{desde}}" a "{{hasta}}".',
+  'error.usuario_obligatorio': 'El usuario es obligatorio.',
+  'error.password_corta': 'La contraseña debe tener al menos {{min}} caracteres.',
+  'error.usuario_repetido': 'Ese usuario ya existe.',
+  'error.recepcionista_sin_sede': 'Un recepcionista necesita una sede.',
+  'error.usuario_inexistente': 'El usuario no existe en esta organización.',
+  'error.superadmin_no_se_elimina': 'El Super Admin no se puede eliminar.',
+  'error.ultimo_admin': 'No se puede eliminar al último administrador.',
+  'error.credenciales_incorrectas': 'Usuario o contraseña incorrectos.',
+  'error.solo_superadmin': 'Solo el Super Admin administra organizaciones.',
+  'error.socio_no_encontrado': 'No encontramos un socio con ese documento.',
+  'error.sin_contacto': 'No tenemos un teléfono ni un email tuyo: pedí el alta en la recepción.',
+  'error.clase_otra_sede': 'Esa clase no está en tu sede.',
+  'error.clase_otro_dia': 'Esa clase no se dicta ese día.',
+  'error.reserva_inexistente': 'No encontramos esa reserva.',
+  'error.plan_inexistente': 'Ese plan no existe.',
+  'error.cambio_no_habilitado': 'Tu membresía está en "{{estado}}": acercate a la recepción.',
+  'error.mismo_plan': 'Ya tenés ese plan.',
+  'error.cambio_pendiente': 'Ya tenés un cambio de plan esperando aprobación.',
+  'error.codigo_reciente': 'Ya te mandamos un código hace menos de un minuto.',
+  'error.codigo_vencido': 'El código venció. Pedí uno nuevo.',
+  'error.demasiados_intentos': 'Demasiados intentos. Pedí un código nuevo.',
+  'error.codigo_incorrecto': 'Código incorrecto.',
+  'error.sesion_vencida': 'Tu sesión venció. Volvé a ingresar.',
+  'error.clase_inactiva': 'La clase no está activa.',
+  'error.reserva_no_habilitada': 'La membresía de {{nombre}} no permite reservar ("{{estado}}").',
+  'error.clase_empezada': 'La clase ya empezó.',
+  'error.plan_sin_clase': 'Su plan no incluye {{clase}}.',
+  'error.ya_anotado': '{{nombre}} ya está anotado en esta clase.',
+  'error.planilla_grande': 'La planilla supera los {{mb}} MB.',
+  'error.sin_email': 'Sin email cargado',
+  'error.sin_telefono': 'Sin teléfono cargado',
+  'error.gateway_mensajeria': 'El gateway respondió {{status}}',
+  'error.envio_fallido': 'No se pudo enviar: {{detalle}}'
+} as const;
+
+export type ClaveMensaje = keyof typeof es;
+
+export type Mensajes = Record<ClaveMensaje, string>;
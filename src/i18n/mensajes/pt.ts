@@ -0,0 +1,733 @@
+import { Mensajes } from './es';
+
+export const pt: Mensajes = {
+  'nav.dashboard': 'Painel',
+  'nav.socios': 'Alunos',
+  'nav.alta': 'Nova Matrícula',
+  'nav.cobranzas': 'Cobranças',
+  'nav.acceso': 'Acesso',
+  'nav.clases': 'Aulas',
+  'nav.solicitudes': 'Solicitações',
+  'nav.solicitudesPendientes': 'Solicitações ({{n}})',
+  'nav.reportes': 'Relatórios',
+  'nav.personal': 'Equipe',
+  'nav.avisos': 'Avisos',
+  'nav.sedes': 'Unidades',
+  'nav.precios': 'Preços',
+  'nav.usuarios': 'Usuários',
+  'nav.gimnasios': 'Academias',
+  'nav.cambiarGimnasio': 'Trocar de academia',
+  'nav.suspendida': '(suspensa)',
+  'nav.cerrarSesion': 'Sair',
+  'nav.capacidad': 'Capacidade',
+
+  'sync.enLinea': 'On-line',
+  'sync.sinConexion': 'Sem conexão',
+  'sync.pendientes': '{{n}} não enviados',
+  'sync.todoEnviado': 'Tudo enviado',
+  'sync.conflictos': '{{n}} conflitos',
+  'sync.sincronizar': 'Sincronizar agora',
+
+  'dash.titulo': 'Visão',
+  'dash.tituloResaltado': 'Geral',
+  'dash.subtitulo': 'Desempenho e rentabilidade em tempo real.',
+  'dash.cuarentena': '{{n}} registros em quarentena',
+  'dash.cobrado': 'Recebido {{periodo}}',
+  'dash.esperado': 'Previsto {{importe}}',
+  'dash.vencido': 'Vencido {{importe}}',
+  'dash.sociosActivos': 'Alunos Ativos',
+  'dash.enPrueba': '{{n}} em aula experimental',
+  'dash.congelados': '{{n}} trancados',
+  'dash.rendimientoSede': 'Desempenho por Unidade',
+  'dash.socios': '{{n}} alunos',
+  'dash.enSala': 'Na academia {{ocupacion}}/{{capacidad}}',
+
+  'alta.titulo': 'Nova',
+  'alta.tituloResaltado': 'Matrícula',
+  'alta.subtitulo': 'Preencha os campos para cadastrar um novo aluno.',
+  'alta.nombre': 'Nome Completo',
+  'alta.nombreEjemplo': 'Ex.: João da Silva',
+  'alta.nacimiento': 'Data de Nascimento',
+  'alta.telefono': 'Telefone',
+  'alta.telefonoEjemplo': 'Ex.: 11 91234-5678',
+  'alta.email': 'E-mail',
+  'alta.emergencia': 'Contato de Emergência',
+  'alta.emergenciaNombre': 'Nome',
+  'alta.emergenciaTelefono': 'Tel. de Emergência',
+  'alta.apto': 'Atestado Médico Vence',
+  'alta.sede': 'Unidade',
+  'alta.membresia': 'Plano',
+  'alta.metodoPago': 'Forma de Pagamento',
+  'alta.efectivo': 'Dinheiro / Débito',
+  'alta.tarjeta': 'Cartão de Crédito',
+  'alta.prueba': 'Passe experimental grátis por {{dias}} dias (sem cobrança até virar matrícula)',
+  'alta.vendedor': 'Vendido por',
+  'alta.sinVendedor': 'Sem vendedor',
+  'alta.promo': 'Cupom',
+  'alta.grupo': 'Integrantes do Grupo',
+  'alta.prepago': 'Meses Pagos Antecipadamente',
+  'alta.montoFinal': 'Valor Final Previsto',
+  'alta.plan': 'Plano {{plan}} ({{sede}})',
+  'alta.registrar': 'Validar e Cadastrar',
+  'alta.sinAccesoSede': 'Você não tem acesso a essa unidade.',
+  'alta.sedeLlena': '{{sede}} atingiu a capacidade máxima.',
+
+  'membresia.prueba': 'Passe experimental',
+  'membresia.activa': 'Ativa',
+  'membresia.congelada': 'Trancada',
+  'membresia.vencida': 'Vencida',
+  'membresia.cancelada': 'Cancelada',
+  'solicitud.pendiente': 'Pendente',
+  'solicitud.aprobada': 'Aprovada',
+  'solicitud.rechazada': 'Recusada',
+  'factura.pagada': 'Paga',
+  'factura.pendiente': 'Pendente',
+  'factura.vencida': 'Vencida',
+
+  'portal.titulo': 'Portal do aluno',
+  'portal.noDisponible': 'O portal desta academia não está disponível. Informe-se na recepção.',
+  'portal.codigoEnviado': 'Enviamos um código para',
+  'portal.codigo': 'Código de 6 dígitos',
+  'portal.unMomento': 'Um momento...',
+  'portal.ingresar': 'Entrar',
+  'portal.recibirCodigo': 'Receber código',
+  'portal.cambiarDocumento': 'Trocar {{documento}}',
+  'portal.reenviar': 'Reenviar código',
+  'portal.hola': 'Olá,',
+  'portal.salir': 'Sair',
+  'portal.tuPlan': 'Seu plano',
+  'portal.planDetalle': 'Unidade {{sede}} • {{importe}}/mês',
+  'portal.venceEl': 'vence em {{fecha}}',
+  'portal.saldo': 'Saldo',
+  'portal.vencido': '{{importe}} vencido',
+  'portal.alDia': 'Você está em dia',
+  'portal.credencial': 'Carteirinha',
+  'portal.mostrarQr': 'Mostrar QR',
+  'portal.clases': 'Aulas',
+  'portal.confirmada': 'Confirmada',
+  'portal.enEspera': 'Na fila ({{posicion}}º)',
+  'portal.cancelar': 'Cancelar',
+  'portal.reservar': 'Reservar ({{n}} vagas)',
+  'portal.listaEspera': 'Fila de espera',
+  'portal.sinClases': 'Não há aulas programadas na sua unidade.',
+  'portal.cambiarPlan': 'Trocar de plano',
+  'portal.nuevoPlan': 'Novo plano',
+  'portal.elegiPlan': 'Escolha um plano',
+  'portal.porMes': '{{importe}}/mês',
+  'portal.pedirCambio': 'Solicitar troca',
+  'portal.pedidoEnviado': 'Solicitação enviada: a recepção avisa quando for aprovada.',
+  'portal.tusPagos': 'Seus pagamentos',
+  'portal.periodo': 'Período',
+  'portal.vence': 'Vence',
+  'portal.total': 'Total',
+  'portal.estado': 'Situação',
+  'portal.recibos': 'Recibos',
+  'portal.resta': 'Faltam {{importe}}',
+  'portal.sinCuotas': 'Ainda não há mensalidades emitidas.',
+  'recibo.titulo': 'Recibo {{periodo}}',
+  'recibo.numero': 'Recibo Nº {{numero}}',
+  'recibo.cuota': 'Mensalidade {{periodo}} (vence {{vencimiento}})',
+  'recibo.fechaPago': 'Data do pagamento: {{fecha}}',
+
+  'validacion.nombreObligatorio': 'O nome é obrigatório.',
+  'validacion.documentoInvalido': '{{documento}} inválido.',
+  'validacion.documentoRepetido': 'Já está cadastrado: {{nombre}} ({{sede}}).',
+  'validacion.documentoRepetidoBaja': 'Já está cadastrado: {{nombre}} ({{sede}}, cancelado).',
+  'validacion.fechaNacimiento': 'Data de nascimento inválida.',
+  'validacion.nacimientoFuturo': 'A data de nascimento está no futuro.',
+  'validacion.telefono': 'Telefone inválido (8 a 15 dígitos).',
+  'validacion.email': 'E-mail inválido.',
+  'validacion.contactoSinNombre': 'De quem é este telefone?',
+  'validacion.contactoSinTelefono': 'Falta o telefone de emergência.',
+  'validacion.aptoMedico': 'Data de vencimento inválida.',
+  'documento.sigla': 'Doc.',
+  'documento.nombre': 'Documento de identidade',
+  'documento.ayuda': 'Somente números',
+
+  'metodo.efectivo': 'Dinheiro / Débito',
+  'metodo.tarjeta': 'Cartão',
+  'reporte.trimestre': '{{n}}º trimestre {{anio}}',
+  'reporte.trimestreCorto': 'T{{n}} {{anio}}',
+  'reporte.titulo': 'Relatório financeiro',
+  'reporte.generado': '{{periodo}} · gerado em {{fecha}}',
+  'reporte.concepto': 'Item',
+  'reporte.pagos': 'Pagamentos',
+  'reporte.monto': 'Valor',
+  'reporte.sinMovimientos': 'Sem movimentação',
+  'reporte.ingresos': 'Receita',
+  'reporte.vsAnterior': '{{variacion}} vs. período anterior',
+  'reporte.ticketPromedio': 'Ticket médio',
+  'reporte.cantidadPagos': '{{n}} pagamentos',
+  'reporte.recargos': 'Acréscimos',
+  'reporte.detalleRecargos': 'Cartão {{tarjeta}} · Multa {{mora}}',
+  'reporte.socios': 'Alunos',
+  'reporte.altasBajas': 'Matrículas / cancelamentos do período',
+  'reporte.evolucion': 'Evolução da receita',
+  'reporte.porSede': 'Por unidade',
+  'reporte.porPlan': 'Por plano',
+  'reporte.porMetodo': 'Por forma de pagamento',
+
+  'cobranzas.titulo': 'Livro de',
+  'cobranzas.tituloResaltado': 'Cobranças',
+  'cobranzas.verTodas': 'Ver todas',
+  'cobranzas.soloImpagas': 'Só em aberto',
+  'cobranzas.socio': 'Aluno',
+  'cobranzas.periodo': 'Período',
+  'cobranzas.vence': 'Vence',
+  'cobranzas.total': 'Total',
+  'cobranzas.saldo': 'Saldo',
+  'cobranzas.cobrar': 'Receber',
+  'cobranzas.inclRecargo': 'incl. acréscimo {{importe}}',
+  'cobranzas.vacio': 'Não há faturas a receber.',
+
+  'padron.titulo': 'Cadastro de',
+  'padron.tituloResaltado': 'alunos',
+  'padron.exportar': 'Exportar a lista filtrada para {{formato}}',
+  'padron.importar': 'Importar',
+  'padron.buscar': 'Buscar por {{documento}} ou nome...',
+  'padron.todoPago': 'Qualquer pagamento',
+  'padron.activos': 'Ativos',
+  'padron.bajas': 'Cancelados',
+  'padron.activosYBajas': 'Ativos e cancelados',
+  'padron.soloEstado': 'Só: {{estado}}',
+  'padron.conYSinDeuda': 'Com e sem dívida',
+  'padron.conDeuda': 'Com dívida',
+  'padron.alDia': 'Em dia',
+  'padron.edad': 'Idade',
+  'padron.desde': 'de',
+  'padron.hasta': 'até',
+  'padron.ordenar': 'Clique para ordenar • Shift+clique para adicionar critério',
+  'padron.nombre': 'Nome',
+  'padron.ubicacion': 'Unidade',
+  'padron.membresia': 'Plano',
+  'padron.deuda': 'Dívida',
+  'padron.importe': 'Valor',
+  'padron.acciones': 'Ações',
+  'padron.anios': '{{edad}} anos',
+  'padron.aprox': ' (aprox.)',
+  'padron.aptoVencido': 'Atestado vencido',
+  'padron.sinApto': 'Sem atestado',
+  'padron.vence': 'vence {{fecha}}',
+  'padron.editar': 'Editar',
+  'padron.historial': 'Histórico',
+  'padron.credencial': 'Carteirinha QR',
+  'padron.membresiaAcciones': 'Plano: trancar, cancelar, reativar',
+  'padron.vacio': 'Nenhum registro encontrado.',
+  'padron.pagina': '{{total}} alunos • Página {{pagina}} de {{paginas}}',
+
+  'agenda.titulo': 'Agenda de',
+  'agenda.tituloResaltado': 'aulas',
+  'agenda.hoy': 'Hoje',
+  'agenda.nuevaClase': 'Nova aula',
+  'agenda.editarClase': 'Editar aula',
+  'agenda.sinClases': 'Não há aulas cadastradas nesta unidade.',
+  'agenda.inactivas': 'Inativas:',
+  'agenda.enEspera': '+{{n}} na espera',
+  'agenda.cancelar': 'Cancelar',
+  'agenda.solo': 'Só {{planes}}',
+  'agenda.anotar': 'Inscrever aluno: {{documento}} ou nome',
+  'agenda.llena': 'Aula lotada: as novas reservas vão para a lista de espera.',
+  'agenda.confirmados': 'Confirmados ({{n}}/{{capacidad}})',
+  'agenda.nadie': 'Ninguém inscrito ainda.',
+  'agenda.listaEspera': 'Lista de espera',
+  'agenda.obligatorios': 'Nome, instrutor e sala são obrigatórios.',
+  'agenda.mayorACero': 'A capacidade e a duração devem ser maiores que zero.',
+  'agenda.superpuesta': 'Coincide com {{clase}} ({{dia}} {{hora}}) na mesma sala.',
+  'agenda.nombre': 'Nome',
+  'agenda.instructor': 'Instrutor',
+  'agenda.elegir': 'Escolher…',
+  'agenda.sala': 'Sala',
+  'agenda.salaEjemplo': 'Sala 1',
+  'agenda.sede': 'Unidade',
+  'agenda.dia': 'Dia',
+  'agenda.hora': 'Hora',
+  'agenda.duracion': 'Duração (min)',
+  'agenda.cupo': 'Vagas',
+  'agenda.planes': 'Planos permitidos (nenhum = todos)',
+  'agenda.activa': 'Ativa (as inativas não aparecem na agenda; suas reservas são mantidas)',
+  'agenda.guardar': 'Salvar',
+
+  'sedes.titulo': 'Gestão de',
+  'sedes.tituloResaltado': 'unidades',
+  'sedes.guardar': 'Salvar',
+  'sedes.repetida': 'Já existe uma unidade com o código {{codigo}}.',
+  'sedes.unaAbierta': 'Pelo menos uma unidade deve ficar aberta.',
+  'sedes.sinNombre': 'Cada unidade precisa de um nome.',
+  'sedes.capacidades': 'As capacidades devem ser maiores que zero.',
+  'sedes.ocupadas': '{{n}} alunos ocupando vagas',
+  'sedes.cerrar': 'Fechar unidade',
+  'sedes.reabrir': 'Reabrir',
+  'sedes.nombre': 'Nome',
+  'sedes.direccion': 'Endereço',
+  'sedes.cupoSocios': 'Vagas de alunos',
+  'sedes.capacidadSala': 'Capacidade do salão',
+  'sedes.abre': 'Abre',
+  'sedes.cierra': 'Fecha',
+  'sedes.cupoExcedido': 'As vagas ficaram abaixo dos alunos atuais: não serão aceitas matrículas até que diminuam.',
+  'sedes.codigo': 'Código (ex: SPO)',
+  'sedes.nueva': 'Unidade',
+  'asistencia.titulo': 'Frequência',
+  'asistencia.todasLasSedes': 'Todas as unidades',
+  'asistencia.visitas': 'Visitas nos últimos 14 dias',
+  'asistencia.pico': 'Horários de pico (últimas 4 semanas)',
+  'asistencia.celda': '{{dia}} {{hora}}h: {{n}}',
+  'asistencia.riesgo': 'Risco de Evasão',
+  'asistencia.dias': '{{n}} dias',
+  'asistencia.umbral': '{{n}}+ dias',
+  'asistencia.nuncaVino': 'nunca veio',
+  'asistencia.todosVinieron': 'Todos os alunos vieram nos últimos {{n}} dias.',
+
+  'rol.superadmin': 'Super Admin',
+  'rol.admin': 'Administrador',
+  'rol.recepcionista': 'Recepcionista',
+  'usuarios.titulo': 'Equipe de',
+  'usuarios.tituloResaltado': 'trabalho',
+  'usuarios.nombreUsuario': 'Nome / Usuário',
+  'usuarios.rol': 'Função',
+  'usuarios.sede': 'Unidade',
+  'usuarios.acciones': 'Ações',
+  'usuarios.todas': 'Todas',
+  'usuarios.nuevo': 'Novo Usuário',
+  'usuarios.nombre': 'Nome e sobrenome',
+  'usuarios.usuario': 'Usuário',
+  'usuarios.password': 'Senha',
+  'usuarios.crear': 'Criar Usuário',
+
+  'regla.edad': 'Faixa etária',
+  'regla.grupo': 'Grupo / família',
+  'regla.promo': 'Código promocional',
+  'regla.prepago': 'Pagamento antecipado',
+  'regla.metodo_pago': 'Forma de pagamento',
+  'precios.titulo': 'Planos e',
+  'precios.tituloResaltado': 'preços',
+  'precios.guardar': 'Salvar',
+  'precios.planRepetido': 'Já existe um plano com o código {{codigo}}.',
+  'precios.unPlan': 'Pelo menos um plano deve permanecer.',
+  'precios.planIncompleto': 'Cada plano precisa de nome e preço maior que zero.',
+  'precios.planes': 'Planos',
+  'precios.codigo': 'Código',
+  'precios.nombre': 'Nome',
+  'precios.precioBase': 'Preço base',
+  'precios.base': 'base',
+  'precios.eliminarPlan': 'Excluir plano',
+  'precios.codigoPlan': 'Código (ex: ELT)',
+  'precios.plan': 'Plano',
+  'precios.reglas': 'Regras',
+  'precios.regla': 'Regra',
+  'precios.porcentaje': '% (− desc.)',
+  'precios.desdeEdad': 'A partir da idade',
+  'precios.hastaEdad': 'Até a idade',
+  'precios.minIntegrantes': 'Mínimo de integrantes',
+  'precios.vence': 'Vence',
+  'precios.meses': 'Meses antecipados (mín.)',
+  'precios.metodo': 'Forma',
+  'precios.desactivar': 'Desativar',
+  'precios.activar': 'Ativar',
+  'precios.eliminarRegla': 'Excluir regra',
+
+  'reportes.titulo': 'Relatórios',
+  'reportes.tituloResaltado': 'financeiros',
+  'reportes.mensual': 'Mensal',
+  'reportes.trimestral': 'Trimestral',
+  'reportes.sinDatoPrevio': 'sem dado anterior',
+  'reportes.sinCobros': 'Sem recebimentos no período.',
+  'reportes.recargoTarjeta': 'Acréscimo cartão',
+  'reportes.mora': 'Juros {{importe}}',
+  'reportes.altasBajas': 'Matrículas / Cancelamentos',
+  'reportes.ventanaBloqueada': 'O navegador bloqueou a janela do relatório. Permita as janelas pop-up.',
+
+  'empleado.instructor': 'Instrutor',
+  'empleado.vendedor': 'Vendedor',
+  'empleado.recepcion': 'Recepção',
+  'empleado.administracion': 'Administração',
+  'personal.titulo': 'Equipe e',
+  'personal.tituloResaltado': 'folha',
+  'personal.guardar': 'Salvar alterações',
+  'personal.nombre': 'Nome',
+  'personal.rol': 'Função',
+  'personal.sede': 'Unidade',
+  'personal.tarifa': '$ / hora',
+  'personal.comisionPct': 'Comissão %',
+  'personal.activo': 'Ativo',
+  'personal.vacio': 'Ainda não há funcionários cadastrados.',
+  'personal.nuevo': 'Nome do funcionário',
+  'personal.agregar': 'Adicionar',
+  'personal.liquidacion': 'Folha mensal',
+  'personal.empleado': 'Funcionário',
+  'personal.clases': 'Aulas',
+  'personal.horas': 'Horas',
+  'personal.porHoras': 'Por hora',
+  'personal.altas': 'Matrículas',
+  'personal.facturado': 'Faturado',
+  'personal.comision': 'Comissão',
+  'personal.total': 'Total',
+  'personal.sinPersonal': 'Sem funcionários para pagar.',
+  'personal.totalLiquidar': 'Total a pagar',
+  'personal.nota': 'As horas vêm das aulas ativas da Agenda e só contam as já iniciadas. A comissão é calculada sobre a primeira mensalidade faturada de cada matrícula do mês: um passe experimental não conta.',
+
+  'acceso.desconocido': 'Carteirinha não cadastrada',
+  'acceso.inactivo': 'O aluno está cancelado',
+  'acceso.congelada': 'O plano está trancado',
+  'acceso.vencida': 'O plano está vencido',
+  'acceso.otra_sede': 'O plano pertence a outra unidade',
+  'acceso.impago': 'Há mensalidades vencidas sem pagar',
+  'acceso.fuera_de_horario': 'A unidade está fechada neste horário',
+  'acceso.titulo': 'Controle de',
+  'acceso.tituloResaltado': 'acesso',
+  'acceso.puesto': 'Posto {{sede}}',
+  'acceso.escanear': 'Escaneie a carteirinha...',
+  'acceso.apagarCamara': 'Desligar câmera',
+  'acceso.usarCamara': 'Usar câmera',
+  'acceso.adelante': 'Pode entrar',
+  'acceso.denegado': 'Acesso negado',
+  'acceso.ultimos': 'Últimas Entradas',
+  'acceso.socioEliminado': 'Aluno excluído',
+  'acceso.nadie': 'Ninguém entrou nesta unidade ainda.',
+  'puertas.titulo': 'Catracas',
+  'puertas.enVivo': '● Ao vivo',
+  'puertas.desconocida': 'Carteirinha desconhecida',
+  'puertas.permitido': 'Liberado',
+  'puertas.denegado': 'Negado',
+  'puertas.paso': 'Passou',
+  'puertas.sin_paso': 'Não passou',
+  'puertas.sinMovimiento': 'Sem movimento nas catracas.',
+
+  'login.sinServidor': 'Não foi possível contatar o servidor: {{error}}',
+  'login.primeraVez': 'Configuração inicial: criar Super Admin',
+  'login.restringido': 'Acesso restrito',
+  'login.nombre': 'Nome e sobrenome',
+  'login.usuario': 'Usuário',
+  'login.password': 'Senha',
+  'login.verificando': 'Verificando...',
+  'login.crearYEntrar': 'Criar e Entrar',
+  'login.ingresar': 'Entrar',
+  'tenant.noHabilitado': 'Sua academia não está habilitada. Fale com o administrador do serviço.',
+  'tenant.salir': 'Sair',
+
+  'app.sinCupo': '{{sede}} não tem vagas disponíveis.',
+  'app.sinPermisoCancelar': 'Você não tem permissão para cancelar planos.',
+  'app.preciosGuardados': 'Preços atualizados. Valem para as novas matrículas e para os alunos que forem editados.',
+  'app.sedesGuardadas': 'Unidades atualizadas.',
+  'app.personalGuardado': 'Equipe atualizada.',
+  'app.solicitudNoVigente': 'O plano do aluno não está vigente: recuse a solicitação.',
+  'app.alerta': 'Alerta: {{error}}',
+  'app.avisosGuardados': 'Avisos atualizados.',
+  'app.importados': '{{n}} alunos importados.',
+  'dash.escalabilidad': 'Escalabilidade (UTN avançado)',
+  'dash.escalabilidadDetalle': 'Este sistema mostra como passar de dados sequenciais para uma arquitetura distribuída.',
+
+  'auditoria.alta': 'Matrícula',
+  'auditoria.edicion': 'Edição de dados',
+  'auditoria.cambio_plan': 'Troca de plano',
+  'auditoria.baja': 'Cancelamento',
+  'auditoria.reactivacion': 'Reativação',
+  'auditoria.conversion': 'Aula experimental convertida',
+  'auditoria.congelamiento': 'Trancamento',
+  'auditoria.vencimiento': 'Vencimento',
+  'campo.nombre': 'Nome',
+  'campo.dni': 'Documento',
+  'campo.fechaNacimiento': 'Data de nascimento',
+  'campo.sede': 'Unidade',
+  'campo.membresia': 'Plano',
+  'campo.metodoPago': 'Forma de pagamento',
+  'campo.importe': 'Valor',
+  'campo.estado': 'Situação do plano',
+  'campo.inicio': 'Início do plano',
+  'campo.vence': 'Vencimento do plano',
+  'campo.congelamientos': 'Trancamentos',
+  'campo.fechaCancelacion': 'Data de cancelamento',
+  'campo.motivoCancelacion': 'Motivo do cancelamento',
+  'campo.codigoPromo': 'Código promocional',
+  'campo.integrantesGrupo': 'Integrantes do grupo',
+  'campo.mesesPrepago': 'Meses pagos antecipadamente',
+  'campo.vendedorId': 'Vendedor',
+  'campo.sinAvisos': 'Avisos desativados',
+  'campo.telefono': 'Telefone',
+  'campo.email': 'E-mail',
+  'campo.contactoEmergenciaNombre': 'Contato de emergência',
+  'campo.contactoEmergenciaTelefono': 'Telefone de emergência',
+  'campo.aptoMedicoVence': 'Vencimento do atestado',
+  'campo.fechaNacimientoEstimada': 'Data de nascimento estimada',
+  'comun.si': 'Sim',
+  'comun.no': 'Não',
+  'historial.titulo': 'Histórico',
+  'historial.por': 'por {{usuario}}',
+  'historial.vacio': 'Sem alterações registradas.',
+  'credencial.titulo': 'Carteirinha de Acesso',
+  'credencial.qrDe': 'QR de {{nombre}}',
+  'credencial.generando': 'Gerando...',
+  'credencial.descargar': 'Baixar',
+  'credencial.imprimir': 'Imprimir',
+  'credencial.documentoSede': '{{documento}} • Unidade {{sede}}',
+  'credencial.ventana': 'Carteirinha {{nombre}}',
+  'conflictos.titulo': 'Conflitos de sincronização',
+  'conflictos.edicion': 'Outra recepção alterou os mesmos dados',
+  'conflictos.eliminado': 'Outra recepção cancelou o aluno',
+  'conflictos.rechazado': 'O servidor não aceitou a alteração',
+  'conflictos.campo': '{{campo}}: aqui',
+  'conflictos.servidor': 'servidor',
+  'conflictos.realta': 'Matricular de novo',
+  'conflictos.usarMio': 'Usar o meu',
+  'conflictos.usarServidor': 'Usar o do servidor',
+  'conflictos.vacio': 'Não há conflitos pendentes.',
+  'consultor.titulo': 'Consultor de Negócios',
+  'consultor.anteriores': 'Análises anteriores',
+  'consultor.error': 'Não foi possível concluir a análise. Tente de novo daqui a pouco.',
+  'consultor.procesando': 'Processando Dados...',
+  'consultor.nuevo': 'Nova Análise',
+  'consultor.descripcion': 'Analisa unidades, planos, formas de pagamento, cobrança e a tendência dos últimos meses.',
+  'consultor.consultar': 'Consultar Estratégia',
+  'prioridad.alta': 'alta',
+  'prioridad.media': 'média',
+  'prioridad.baja': 'baixa',
+
+  'congelamiento.vacaciones': 'Férias',
+  'congelamiento.medico': 'Licença médica',
+  'membresiaModal.titulo': 'Plano',
+  'membresiaModal.estado': 'Situação',
+  'membresiaModal.desde': 'Desde',
+  'membresiaModal.vence': 'Vence',
+  'membresiaModal.renuevaMes': 'Renova todo mês',
+  'membresiaModal.canceladaEl': 'Cancelado em {{fecha}}',
+  'membresiaModal.congelamientos': 'Trancamentos',
+  'membresiaModal.programado': 'agendado',
+  'membresiaModal.enCurso': 'em andamento',
+  'membresiaModal.convertir': 'Converter em aluno (começa a pagar hoje)',
+  'membresiaModal.congelarAyuda': 'Trancar (máx. {{dias}} dias; adia o vencimento e os dias trancados não são cobrados)',
+  'membresiaModal.congelar': 'Trancar',
+  'membresiaModal.terminarHoy': 'Encerrar o trancamento hoje',
+  'membresiaModal.anular': 'Anular o trancamento agendado',
+  'membresiaModal.reactivarAyuda': 'Reativar a partir de hoje (vencimento opcional)',
+  'membresiaModal.reactivar': 'Reativar',
+  'membresiaModal.cancelarTitulo': 'Cancelar plano',
+  'membresiaModal.motivo': 'Motivo (ex.: mudou, custo, lesão)',
+  'membresiaModal.cancelar': 'Cancelar',
+
+  'solicitudes.titulo': 'Solicitações de',
+  'solicitudes.tituloResaltado': 'alunos',
+  'solicitudes.subtitulo': 'Trocas de plano pedidas pelo portal (/portal).',
+  'solicitudes.fechaSede': '{{fecha}} • Unidade {{sede}}',
+  'solicitudes.porMes': '{{importe}}/mês',
+  'solicitudes.seLeMostro': '(foi mostrado {{importe}})',
+  'solicitudes.nota': 'Nota (opcional)',
+  'solicitudes.aprobar': 'Aprovar',
+  'solicitudes.rechazar': 'Recusar',
+  'solicitudes.vacio': 'Não há pedidos pendentes.',
+  'solicitudes.socio': 'Aluno',
+  'solicitudes.cambio': 'Troca',
+  'solicitudes.estado': 'Situação',
+  'solicitudes.resueltaPor': 'Resolvida por',
+
+  'aviso.cuota_por_vencer': 'Mensalidade a vencer',
+  'aviso.cuota_vencida': 'Mensalidade vencida',
+  'aviso.apto_medico': 'Atestado médico a vencer',
+  'aviso.inactividad': 'Inatividade',
+  'aviso.cumpleanios': 'Aniversário',
+  'aviso.enviado': 'Enviado',
+  'aviso.fallido': 'Falhou',
+  'aviso.omitido': 'Omitido',
+  'avisos.titulo': 'Avisos aos',
+  'avisos.tituloResaltado': 'alunos',
+  'avisos.subtitulo': 'Verificados ao abrir o App e uma vez por hora · Enviados por: {{proveedor}}',
+  'avisos.modoPrueba': ' (modo teste: não chegam aos alunos)',
+  'avisos.sinPendientes': 'Não há avisos pendentes.',
+  'avisos.resultado': '{{enviados}} enviados, {{sinEnviar}} não enviados.',
+  'avisos.bandeja': 'Caixa',
+  'avisos.revisar': 'Verificar agora',
+  'avisos.guardar': 'Salvar alterações',
+  'avisos.diasAnticipoCuota': 'Avisar mensalidade, dias antes',
+  'avisos.diasAnticipoApto': 'Avisar atestado, dias antes',
+  'avisos.diasInactividad': 'Inativo depois de (dias)',
+  'avisos.asunto': 'Assunto',
+  'avisos.variables': 'Variáveis disponíveis: {{variables}}.',
+  'avisos.preferencias': 'Os alunos que não querem avisos por um canal são marcados ao editá-los.',
+  'avisos.registro': 'Registro de avisos',
+  'avisos.buscar': 'Buscar aluno',
+  'avisos.fecha': 'Data',
+  'avisos.socio': 'Aluno',
+  'avisos.aviso': 'Aviso',
+  'avisos.canal': 'Canal',
+  'avisos.estado': 'Situação',
+  'avisos.vacio': 'Nenhum aviso enviado ainda.',
+
+  'orgs.titulo': 'Academias',
+  'orgs.tituloResaltado': 'clientes',
+  'orgs.faltaNombre': 'Cada organização precisa de um nome.',
+  'orgs.principalActiva': 'A organização principal não pode ser suspensa.',
+  'orgs.nombre': 'Nome',
+  'orgs.logo': 'URL do logo',
+  'orgs.pais': 'País',
+  'orgs.idioma': 'Idioma',
+  'orgs.moneda': 'Moeda',
+  'orgs.habilitada': 'Habilitada',
+  'orgs.guardar': 'Salvar',
+  'orgs.entrar': 'Entrar',
+  'orgs.nuevo': 'Nova Academia',
+  'orgs.nuevoDetalle': 'Começa sem alunos nem usuários. Entre nela para criar o primeiro administrador.',
+  'orgs.nombreComercial': 'Nome comercial',
+  'orgs.crear': 'Criar',
+
+  'campo.edad': 'Idade (se não houver data)',
+  'editar.titulo': 'Editar',
+  'editar.tituloResaltado': 'aluno',
+  'editar.nacimiento': 'Nascimento',
+  'editar.estimado': ' (estimado)',
+  'editar.emergencia': 'Emergência',
+  'editar.telEmergencia': 'Tel. emergência',
+  'editar.apto': 'Atestado vence',
+  'editar.sinAvisos': 'Não quer receber avisos por',
+  'editar.sede': 'Unidade',
+  'editar.membresia': 'Plano',
+  'editar.pago': 'Pagamento',
+  'editar.promo': 'Código promocional',
+  'editar.grupo': 'Integrantes do grupo',
+  'editar.prepago': 'Meses pré-pagos',
+  'editar.precioPlan': 'Preço do plano',
+  'editar.nuevoImporte': 'Novo valor',
+  'editar.upgrade': ' • Upgrade',
+  'editar.downgrade': ' • Downgrade',
+  'editar.guardar': 'Salvar',
+  'importar.titulo': 'Importar',
+  'importar.tituloResaltado': 'Cadastro',
+  'importar.muyGrande': 'A planilha passa de 10 MB. Divida-a em várias.',
+  'importar.sinFilas': 'A planilha não tem linhas de dados.',
+  'importar.ilegible': 'Não foi possível ler o arquivo. É um CSV ou XLSX válido?',
+  'importar.elegir': 'Escolha um arquivo .csv ou .xlsx',
+  'importar.encabezados': 'A primeira linha precisa ter os cabeçalhos.',
+  'importar.filas': '{{n}} linhas. Indique qual coluna corresponde a cada dado.',
+  'importar.noViene': '— Não vem —',
+  'importar.columna': 'Coluna {{n}}',
+  'importar.sedeDefecto': 'Unidade se não vier',
+  'importar.membresiaDefecto': 'Plano se não vier',
+  'importar.pagoDefecto': 'Pagamento se não vier',
+  'importar.faltan': 'Falta atribuir: {{campos}}',
+  'importar.simular': 'Simular',
+  'importar.seImportan': '{{n}} serão importados',
+  'importar.duplicados': '{{n}} duplicados',
+  'importar.conErrores': '{{n}} com erros',
+  'importar.fila': 'Linha',
+  'importar.socio': 'Aluno',
+  'importar.resultado': 'Resultado',
+  'importar.motivo': 'Motivo',
+  'importar.hojaErrores': 'Erros',
+  'importar.valida': 'Válida',
+  'importar.duplicada': 'Duplicada',
+  'importar.error': 'Erro',
+  'importar.volver': 'Voltar',
+  'importar.descargarErrores': 'Baixar erros',
+  'importar.importar': 'Importar {{n}}',
+
+  'precios.promo_vencida': 'O código {{codigo}} está vencido.',
+  'precios.promo_inexistente': 'Código promocional inexistente.',
+
+  'analista.fundadores': 'Lançar campanha de fundadores',
+  'analista.fundadoresDetalle': 'Ainda não há alunos ativos. Um desconto de lançamento para os primeiros 50 alunos acelera o início.',
+  'analista.sociosActivos': 'Alunos ativos',
+  'analista.caida': 'A receita caiu em relação ao mês passado',
+  'analista.caidaDetalle': 'Revise cobranças pendentes e cancelamentos recentes antes do fim do mês para recuperar a arrecadação.',
+  'analista.cobrado': 'Recebido {{periodo}}',
+  'analista.variacion': 'Variação',
+  'analista.cobranza': 'Reforçar a cobrança de mensalidades vencidas',
+  'analista.cobranzaDetalle': 'A dívida vencida é alta em relação ao faturamento. Contate os inadimplentes e ofereça débito automático.',
+  'analista.sociosConDeuda': 'Alunos com dívida',
+  'analista.deudaVencida': 'Dívida vencida',
+  'analista.sobreFacturacion': 'Sobre o faturamento mensal',
+  'analista.retencion': 'Saem mais alunos do que entram',
+  'analista.retencionDetalle': 'Monte um plano de retenção: ligue para quem deixa de vir e ofereça um benefício pela renovação.',
+  'analista.altas': 'Matrículas últimos {{meses}} meses',
+  'analista.bajas': 'Cancelamentos últimos {{meses}} meses',
+  'analista.sedeLlena': '{{sede}} está perto da lotação',
+  'analista.sedeLlenaDetalle': 'Avalie ampliar a lotação ou estender o horário antes de recusar matrículas.',
+  'analista.sedeVacia': '{{sede}} tem vagas de sobra',
+  'analista.sedeVaciaDetalle': 'Uma promoção com código só para esta unidade ajuda a preencher as vagas ociosas.',
+  'analista.sociosCupo': 'Alunos / lotação',
+  'analista.ocupacion': 'Ocupação',
+  'analista.tarjeta': 'Muitos alunos pagam com cartão',
+  'analista.tarjetaDetalle': 'Um benefício para passar a débito ou dinheiro reduz o custo financeiro e a taxa que o aluno paga.',
+  'analista.sociosTarjeta': 'Alunos com cartão',
+  'analista.prueba': 'Há passes de teste em andamento',
+  'analista.pruebaDetalle': 'Ligue para quem está testando antes de o passe vencer e ofereça o primeiro mês com desconto.',
+  'analista.sociosPrueba': 'Alunos em teste',
+  'analista.aptos': 'Há atestados médicos vencidos ou faltando',
+  'analista.aptosDetalle': 'Peça o atestado na recepção ao registrar a entrada; é um requisito legal para treinar.',
+  'analista.sinApto': 'Alunos sem atestado vigente',
+  'analista.sanos': 'Os indicadores estão saudáveis',
+  'analista.mejorSede': '{{sede}} é a unidade que mais fatura: o melhor lugar para testar um plano novo ou um horário estendido.',
+  'analista.sinAlertas': 'Sem alertas por enquanto. Consulte de novo no fim do mês.',
+  'analista.facturacionSede': 'Faturamento mensal {{sede}}',
+  'acceso.bienvenida': 'Bem-vindo(a), {{nombre}}',
+  'importar.yaEnPadron': 'Já está no cadastro como {{nombre}}.',
+  'importar.documentoRepetido': 'Documento repetido na linha {{fila}}.',
+  'importar.sedeDesconocida': 'Unidade desconhecida ou sem acesso: "{{valor}}".',
+  'importar.membresiaDesconocida': 'Plano desconhecido: "{{valor}}".',
+  'importar.pagoDesconocido': 'Forma de pagamento desconhecida: "{{valor}}".',
+  'importar.sinCupo': '{{sede}} não tem vagas disponíveis.',
+  'planilla.hoja': 'Cadastro',
+  'planilla.nombre': 'Nome',
+  'planilla.dni': 'Documento',
+  'planilla.fechaNacimiento': 'Data de nascimento',
+  'planilla.edad': 'Idade',
+  'planilla.telefono': 'Telefone',
+  'planilla.email': 'Email',
+  'planilla.aptoMedicoVence': 'Atestado vence',
+  'planilla.sede': 'Unidade',
+  'planilla.membresia': 'Plano',
+  'planilla.metodoPago': 'Forma de pagamento',
+  'planilla.importe': 'Valor',
+  'planilla.estado': 'Situação',
+  'planilla.inicio': 'Início',
+  'planilla.vence': 'Vence',
+  'plantilla.cuota_por_vencer.asunto': 'Sua mensalidade vence em breve',
+  'plantilla.cuota_por_vencer.cuerpo': 'Olá {{nombre}}! Lembramos que a mensalidade de {{periodo}} ({{importe}}) vence em {{vencimiento}}. {{gimnasio}}',
+  'plantilla.cuota_vencida.asunto': 'Mensalidade vencida',
+  'plantilla.cuota_vencida.cuerpo': 'Olá {{nombre}}, a mensalidade de {{periodo}} venceu em {{vencimiento}} e faltam {{importe}} a pagar. Você pode pagá-la na recepção. {{gimnasio}}',
+  'plantilla.apto_medico.asunto': 'Renove seu atestado médico',
+  'plantilla.apto_medico.cuerpo': 'Olá {{nombre}}, seu atestado médico vence em {{vencimiento}}. Traga um novo para continuar treinando. {{gimnasio}}',
+  'plantilla.inactividad.asunto': 'Sentimos sua falta',
+  'plantilla.inactividad.cuerpo': 'Olá {{nombre}}, faz {{dias}} dias que não te vemos. Esperamos você na {{gimnasio}}!',
+  'plantilla.cumpleanios.asunto': 'Feliz aniversário!',
+  'plantilla.cumpleanios.cuerpo': 'Feliz aniversário, {{nombre}}! Toda a equipe da {{gimnasio}} te deseja parabéns.',
+  'error.congelamiento_pasado': 'O congelamento não pode começar no passado.',
+  'error.fechas_invertidas': 'A data de término é anterior à de início.',
+  'error.congelamiento_largo': 'Um congelamento não pode passar de {{dias}} dias.',
+  'error.congelamiento_superpuesto': 'Coincide com outro congelamento.',
+  'error.vence_antes': 'O plano vence antes dessa data.',
+  'error.sin_congelamiento': 'Não há congelamentos em curso nem programados.',
+  'error.cancelacion_sin_motivo': 'Informe o motivo do cancelamento.',
+  'error.membresia_vigente': 'O plano já está vigente.',
+  'error.vencimiento_pasado': 'A nova data de vencimento já passou.',
+  'error.transicion_invalida': 'Não é possível passar de "{{desde}}" para "{{hasta}}".',
+  'error.usuario_obligatorio': 'O usuário é obrigatório.',
+  'error.password_corta': 'A senha deve ter pelo menos {{min}} caracteres.',
+  'error.usuario_repetido': 'Esse usuário já existe.',
+  'error.recepcionista_sin_sede': 'Um recepcionista precisa de uma unidade.',
+  'error.usuario_inexistente': 'O usuário não existe nesta organização.',
+  'error.superadmin_no_se_elimina': 'O Super Admin não pode ser excluído.',
+  'error.ultimo_admin': 'Não é possível excluir o último administrador.',
+  'error.credenciales_incorrectas': 'Usuário ou senha incorretos.',
+  'error.solo_superadmin': 'Só o Super Admin administra organizações.',
+  'error.socio_no_encontrado': 'Não encontramos um aluno com esse documento.',
+  'error.sin_contacto': 'Não temos seu telefone nem seu email: peça o cadastro na recepção.',
+  'error.clase_otra_sede': 'Essa aula não é na sua unidade.',
+  'error.clase_otro_dia': 'Essa aula não acontece nesse dia.',
+  'error.reserva_inexistente': 'Não encontramos essa reserva.',
+  'error.plan_inexistente': 'Esse plano não existe.',
+  'error.cambio_no_habilitado': 'Seu plano está "{{estado}}": procure a recepção.',
+  'error.mismo_plan': 'Você já tem esse plano.',
+  'error.cambio_pendiente': 'Você já tem uma troca de plano aguardando aprovação.',
+  'error.codigo_reciente': 'Enviamos um código há menos de um minuto.',
+  'error.codigo_vencido': 'O código expirou. Peça um novo.',
+  'error.demasiados_intentos': 'Tentativas demais. Peça um novo código.',
+  'error.codigo_incorrecto': 'Código incorreto.',
+  'error.sesion_vencida': 'Sua sessão expirou. Entre novamente.',
+  'error.clase_inactiva': 'A aula não está ativa.',
+  'error.reserva_no_habilitada': 'O plano de {{nombre}} não permite reservar ("{{estado}}").',
+  'error.clase_empezada': 'A aula já começou.',
+  'error.plan_sin_clase': 'O plano não inclui {{clase}}.',
+  'error.ya_anotado': '{{nombre}} já está inscrito nesta aula.',
+  'error.planilla_grande': 'A planilha passa de {{mb}} MB.',
+  'error.sin_email': 'Sem email cadastrado',
+  'error.sin_telefono': 'Sem telefone cadastrado',
+  'error.gateway_mensajeria': 'O gateway respondeu {{status}}',
+  'error.envio_fallido': 'Não foi possível enviar: {{detalle}}'
+};
@@ -0,0 +1,99 @@
+/**
+ * --- CONFIGURACIÓN REGIONAL ---
+ * Cada gimnasio elige país, idioma y moneda. El país decide qué documento
+ * se valida y cómo se escriben fechas y números; la moneda es solo cómo se
+ * muestran los importes: la App no convierte entre monedas, cada gimnasio
+ * carga sus precios en la suya.
+ */
+export type Idioma = 'es' | 'en' | 'pt';
+
+export interface ConfigRegional {
+  pais: string;   // ISO 3166-1 alfa-2 ("AR", "BR", "US")
+  idioma: Idioma;
+  moneda: string; // ISO 4217 ("ARS", "BRL", "USD")
+}
+
+export interface DatosPais {
+  nombre: string;
+  idioma: Idioma;
+  moneda: string;
+}
+
+export const IDIOMA_TEXTO: Record<Idioma, string> = {
+  es: 'Español',
+  en: 'English',
+  pt: 'Português'
+};
+
+// Elegir un país completa idioma y moneda; después se pueden cambiar por separado.
+export const PAISES: Record<string, DatosPais> = {
+  AR: { nombre: 'Argentina', idioma: 'es', moneda: 'ARS' },
+  UY: { nombre: 'Uruguay', idioma: 'es', moneda: 'UYU' },
+  CL: { nombre: 'Chile', idioma: 'es', moneda: 'CLP' },
+  MX: { nombre: 'México', idioma: 'es', moneda: 'MXN' },
+  ES: { nombre: 'España', idioma: 'es', moneda: 'EUR' },
+  BR: { nombre: 'Brasil', idioma: 'pt', moneda: 'BRL' },
+  PT: { nombre: 'Portugal', idioma: 'pt', moneda: 'EUR' },
+  US: { nombre: 'Estados Unidos', idioma: 'en', moneda: 'USD' }
+};
+
+export const MONEDAS = ['ARS', 'UYU', 'CLP', 'MXN', 'BRL', 'EUR', 'USD'];
+
+// Los gimnasios creados antes de esta configuración siguen como estaban: Argentina y pesos.
+export const REGIONAL_POR_DEFECTO: ConfigRegional = { pais: 'AR', idioma: 'es', moneda: 'ARS' };
+
+const FORMATO_DIA = /^\d{4}-\d{2}-\d{2}$/;
+
+// Un "YYYY-MM-DD" suelto es un día local; new Date() lo leería como medianoche UTC (el día anterior en Argentina).
+const aFecha = (valor: string | Date): Date => {
+  if (valor instanceof Date) return valor;
+  if (!FORMATO_DIA.test(valor)) return new Date(valor);
+  const [a, m, d] = valor.split('-').map(Number);
+  return new Date(a, m - 1, d);
+};
+
+export class FormatoLogic {
+  /** "es" + "AR" -> "es-AR": el idioma de los textos con las convenciones del país. */
+  static locale(regional: ConfigRegional): string {
+    return `${regional.idioma}-${regional.pais}`;
+  }
+
+  /** Los importes enteros se muestran sin centavos ("$ 15.000"); los que tienen decimales, con los de la moneda. */
+  static moneda(valor: number, regional: ConfigRegional): string {
+    return new Intl.NumberFormat(FormatoLogic.locale(regional), {
+      style: 'currency',
+      currency: regional.moneda,
+      minimumFractionDigits: Number.isInteger(valor) ? 0 : undefined
+    }).format(valor);
+  }
+
+  static numero(valor: number, regional: ConfigRegional, decimales = 0): string {
+    return new Intl.NumberFormat(FormatoLogic.locale(regional), {
+      minimumFractionDigits: decimales,
+      maximumFractionDigits: decimales
+    }).format(valor);
+  }
+
+  static fecha(valor: string | Date, regional: ConfigRegional, opciones: Intl.DateTimeFormatOptions = { day: '2-digit', month: '2-digit', year: 'numeric' }): string {
+    return aFecha(valor).toLocaleDateString(FormatoLogic.locale(regional), opciones);
+  }
+
+  static fechaHora(valor: string | Date, regional: ConfigRegional): string {
+    return aFecha(valor).toLocaleString(FormatoLogic.locale(regional), { dateStyle: 'short', timeStyle: 'short' });
+  }
+
+  static hora(valor: string | Date, regional: ConfigRegional): string {
+    return aFecha(valor).toLocaleTimeString(FormatoLogic.locale(regional), { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  }
+
+  /** Nombre corto de un día de la semana, 0 = domingo como en Date.getDay() ("Lun", "Mon", "Seg"). */
+  static diaSemana(dia: number, regional: ConfigRegional): string {
+    const nombre = new Date(2024, 0, 7 + dia).toLocaleDateString(FormatoLogic.locale(regional), { weekday: 'short' }).replace('.', '');
+    return nombre.charAt(0).toUpperCase() + nombre.slice(1);
+  }
+
+  /** Nombre de un país en el idioma del gimnasio ("Estados Unidos", "United States"). */
+  static pais(codigo: string, regional: ConfigRegional): string {
+    return new Intl.DisplayNames([FormatoLogic.locale(regional)], { type: 'region' }).of(codigo) ?? PAISES[codigo]?.nombre ?? codigo;
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { MembresiaLogic } from './membresia';
+import { Socio } from '../domain/socio';
+import { ErrorNegocio } from '../domain/errores';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const hoy = new Date(2026, 2, 15, 10);
+
+describe('MembresiaLogic.alta', () => {
+  it('el pase de prueba incluye el último día; la membresía paga se renueva sola', () => {
+    expect(MembresiaLogic.alta(hoy, true)).toEqual({ estado: 'prueba', inicio: '2026-03-15', vence: '2026-03-21' });
+    expect(MembresiaLogic.alta(hoy)).toEqual({ estado: 'activa', inicio: '2026-03-15', vence: null });
+  });
+});
+
+describe('MembresiaLogic.estadoAl', () => {
+  it('vence recién al día siguiente de la fecha de vencimiento', () => {
+    const pase = unSocio({ estado: 'prueba', vence: '2026-03-15' });
+
+    expect(MembresiaLogic.estadoAl(pase, hoy)).toBe('prueba');
+    expect(MembresiaLogic.estadoAl(pase, new Date(2026, 2, 16))).toBe('vencida');
+  });
+
+  it('un congelamiento programado empieza y termina solo', () => {
+    const socio = unSocio({ congelamientos: [{ desde: '2026-03-20', hasta: '2026-03-31', motivo: 'vacaciones' }] });
+
+    expect(MembresiaLogic.estadoAl(socio, hoy)).toBe('activa');
+    expect(MembresiaLogic.estadoAl(socio, new Date(2026, 2, 20))).toBe('congelada');
+    expect(MembresiaLogic.estadoAl({ ...socio, estado: 'congelada' }, new Date(2026, 3, 1))).toBe('activa');
+  });
+
+  it('una cancelación solo se deshace reactivando', () => {
+    const cancelado = unSocio({ estado: 'cancelada', congelamientos: [{ desde: '2026-03-01', hasta: '2026-03-31', motivo: 'medico' }] });
+
+    expect(MembresiaLogic.estadoAl(cancelado, hoy)).toBe('cancelada');
+  });
+
+  it('actualizar devuelve el mismo socio si no cambió nada', () => {
+    const socio = unSocio();
+
+    expect(MembresiaLogic.actualizar(socio, hoy)).toBe(socio);
+    expect(MembresiaLogic.actualizar(unSocio({ vence: '2026-03-01' }), hoy).estado).toBe('vencida');
+  });
+});
+
+describe('MembresiaLogic.congelar', () => {
+  it('corre el vencimiento tantos días como dure', () => {
+    const socio = MembresiaLogic.congelar(unSocio({ vence: '2026-06-30' }), '2026-03-15', '2026-03-24', 'vacaciones', hoy);
+
+    expect(socio).toMatchObject({ estado: 'congelada', vence: '2026-07-10' });
+    expect(socio.congelamientos).toEqual([{ desde: '2026-03-15', hasta: '2026-03-24', motivo: 'vacaciones' }]);
+  });
+
+  it('rechaza fechas pasadas, invertidas, largas o superpuestas', () => {
+    const socio = unSocio({ congelamientos: [{ desde: '2026-04-01', hasta: '2026-04-10', motivo: 'medico' }] });
+
+    expect(() => MembresiaLogic.congelar(socio, '2026-03-14', '2026-03-20', 'vacaciones', hoy)).toThrow('congelamiento_pasado');
+    expect(() => MembresiaLogic.congelar(socio, '2026-03-20', '2026-03-16', 'vacaciones', hoy)).toThrow('fechas_invertidas');
+    expect(() => MembresiaLogic.congelar(socio, '2026-05-01', '2026-07-30', 'vacaciones', hoy)).toThrow('congelamiento_largo');
+    expect(() => MembresiaLogic.congelar(socio, '2026-03-25', '2026-04-02', 'vacaciones', hoy)).toThrow('congelamiento_superpuesto');
+  });
+
+  it('solo se congela una membresía paga y en curso', () => {
+    expect(() => MembresiaLogic.congelar(unSocio({ estado: 'prueba' }), '2026-03-20', '2026-03-25', 'vacaciones', hoy))
+      .toThrow(new ErrorNegocio('transicion_invalida', { desde: { clave: 'membresia.prueba' }, hasta: { clave: 'membresia.congelada' } }));
+  });
+
+  it('descongelar antes devuelve los días que no se usaron', () => {
+    const congelado = MembresiaLogic.congelar(unSocio({ vence: '2026-06-30' }), '2026-03-15', '2026-03-24', 'vacaciones', hoy);
+    const socio = MembresiaLogic.descongelar(congelado, new Date(2026, 2, 18));
+
+    expect(socio).toMatchObject({ estado: 'activa', vence: '2026-07-03' });
+    expect(socio.congelamientos).toEqual([{ desde: '2026-03-15', hasta: '2026-03-17', motivo: 'vacaciones' }]);
+  });
+});
+
+describe('MembresiaLogic cancelar y reactivar', () => {
+  it('cancelar pide un motivo y lo guarda con la fecha', () => {
+    expect(() => MembresiaLogic.cancelar(unSocio(), '  ', hoy)).toThrow('cancelacion_sin_motivo');
+    expect(MembresiaLogic.cancelar(unSocio(), ' Se mudó ', hoy)).toMatchObject({ estado: 'cancelada', fechaCancelacion: '2026-03-15', motivoCancelacion: 'Se mudó' });
+  });
+
+  it('reactivar vuelve a empezar desde hoy y borra los datos de la cancelación', () => {
+    const cancelado = MembresiaLogic.cancelar(unSocio(), 'Se mudó', new Date(2026, 0, 10));
+    const socio = MembresiaLogic.reactivar(cancelado, hoy, '2026-12-31');
+
+    expect(socio).toMatchObject({ estado: 'activa', inicio: '2026-03-15', vence: '2026-12-31' });
+    expect('motivoCancelacion' in socio).toBe(false);
+    expect(() => MembresiaLogic.reactivar(unSocio(), hoy)).toThrow('membresia_vigente');
+  });
+
+  it('la prueba se convierte en membresía paga desde hoy', () => {
+    expect(MembresiaLogic.convertir(unSocio({ estado: 'prueba', vence: '2026-03-20' }), hoy)).toMatchObject({ estado: 'activa', inicio: '2026-03-15', vence: null });
+  });
+});
@@ -0,0 +1,199 @@
+import { Socio } from '../domain/socio';
+import { ErrorNegocio } from '../domain/errores';
+
+/**
+ * --- CICLO DE VIDA DE LA MEMBRESÍA ---
+ * Un socio no está solo "activo" o "de baja": pasa por estados, y no de
+ * cualquiera a cualquiera. Es una máquina de estados como las del switch
+ * de C, con la tabla de transiciones permitidas escrita una sola vez
+ * (TRANSICIONES). Vencer y empezar o terminar un congelamiento pasan solos
+ * con la fecha; convertir la prueba, congelar, cancelar y reactivar los
+ * hace alguien del gimnasio.
+ *
+ * Las fechas son "YYYY-MM-DD" e incluyen el último día: un pase que vence
+ * el 10 sirve todo el 10.
+ */
+export type EstadoMembresia = 'prueba' | 'activa' | 'congelada' | 'vencida' | 'cancelada';
+
+export type MotivoCongelamiento = 'vacaciones' | 'medico';
+
+export interface Congelamiento {
+  desde: string;
+  hasta: string;
+  motivo: MotivoCongelamiento;
+}
+
+export const ESTADOS_MEMBRESIA: EstadoMembresia[] = ['prueba', 'activa', 'congelada', 'vencida', 'cancelada'];
+
+export const esEstadoMembresia = (v: unknown): v is EstadoMembresia => ESTADOS_MEMBRESIA.some(e => e === v);
+
+export const MOTIVOS_CONGELAMIENTO: MotivoCongelamiento[] = ['vacaciones', 'medico'];
+
+export const TRANSICIONES: Record<EstadoMembresia, EstadoMembresia[]> = {
+  prueba: ['activa', 'vencida', 'cancelada'],
+  activa: ['congelada', 'vencida', 'cancelada'],
+  congelada: ['activa', 'vencida', 'cancelada'],
+  vencida: ['activa', 'cancelada'],
+  cancelada: ['activa']
+};
+
+export const DIAS_PRUEBA = 7;
+export const MAX_DIAS_CONGELAMIENTO = 90;
+
+const dosDigitos = (n: number) => String(n).padStart(2, '0');
+
+const fecha = (d: Date) => `${d.getFullYear()}-${dosDigitos(d.getMonth() + 1)}-${dosDigitos(d.getDate())}`;
+
+// Se cuenta en UTC para que un cambio de horario no coma ni duplique un día.
+const sumarDias = (dia: string, dias: number): string => {
+  const [a, m, d] = dia.split('-').map(Number);
+  return new Date(Date.UTC(a, m - 1, d + dias)).toISOString().slice(0, 10);
+};
+
+const diasEntre = (desde: string, hasta: string): number => {
+  const utc = (dia: string) => { const [a, m, d] = dia.split('-').map(Number); return Date.UTC(a, m - 1, d); };
+  return Math.round((utc(hasta) - utc(desde)) / 86400000);
+};
+
+type DatosMembresia = Pick<Socio, 'estado' | 'inicio' | 'vence'>;
+
+/** Lo justo para saber el estado a una fecha (el padrón de molinetes publica esto, sin los motivos). */
+export type DatosVigencia = Pick<Socio, 'estado' | 'vence'> & { congelamientos?: Pick<Congelamiento, 'desde' | 'hasta'>[] };
+
+export class MembresiaLogic {
+  /** Los datos de ciclo de vida de un alta nueva: un pase gratis de unos días o una membresía que se renueva sola. */
+  static alta(hoy: Date, prueba = false, diasPrueba = DIAS_PRUEBA): DatosMembresia {
+    const inicio = fecha(hoy);
+    return prueba
+      ? { estado: 'prueba', inicio, vence: sumarDias(inicio, diasPrueba - 1) }
+      : { estado: 'activa', inicio, vence: null };
+  }
+
+  /** Puede entrar al gimnasio y reservar clases. */
+  static habilitado(socio: Pick<Socio, 'estado'>): boolean {
+    return socio.estado === 'prueba' || socio.estado === 'activa';
+  }
+
+  /** Cuenta para el cupo de la sede: una membresía congelada guarda su lugar. */
+  static ocupaLugar(socio: Pick<Socio, 'estado'>): boolean {
+    return socio.estado === 'prueba' || socio.estado === 'activa' || socio.estado === 'congelada';
+  }
+
+  // El pase de prueba es gratis y el congelamiento suspende la cuota.
+  static facturable(socio: Pick<Socio, 'estado'>): boolean {
+    return socio.estado === 'activa';
+  }
+
+  static congelamientoEn<C extends Pick<Congelamiento, 'desde' | 'hasta'>>(socio: { congelamientos?: C[] }, dia: string): C | undefined {
+    return socio.congelamientos?.find(c => c.desde <= dia && dia <= c.hasta);
+  }
+
+  /** Cuántos días entre 'desde' y 'hasta' (incluidos) estuvo o va a estar congelada. */
+  static diasCongelados(socio: Socio, desde: string, hasta: string): number {
+    return (socio.congelamientos ?? []).reduce((dias, c) => {
+      const inicio = c.desde > desde ? c.desde : desde;
+      const fin = c.hasta < hasta ? c.hasta : hasta;
+      return fin < inicio ? dias : dias + diasEntre(inicio, fin) + 1;
+    }, 0);
+  }
+
+  /**
+   * El estado que corresponde a la fecha: vence solo al pasar 'vence', y
+   * un congelamiento programado empieza y termina sin que nadie lo toque.
+   * Una cancelación o un vencimiento solo se deshacen reactivando.
+   */
+  static estadoAl(socio: DatosVigencia, hoy: Date): EstadoMembresia {
+    if (socio.estado === 'cancelada' || socio.estado === 'vencida') return socio.estado;
+    const dia = fecha(hoy);
+    if (socio.vence && dia > socio.vence) return 'vencida';
+    if (socio.estado === 'prueba') return 'prueba';
+    return MembresiaLogic.congelamientoEn(socio, dia) ? 'congelada' : 'activa';
+  }
+
+  /** Devuelve el mismo objeto si no cambió nada, así se sabe qué hay que guardar. */
+  static actualizar(socio: Socio, hoy: Date): Socio {
+    const estado = MembresiaLogic.estadoAl(socio, hoy);
+    return estado === socio.estado ? socio : { ...socio, estado };
+  }
+
+  static puedePasar(desde: EstadoMembresia, hasta: EstadoMembresia): boolean {
+    return TRANSICIONES[desde].includes(hasta);
+  }
+
+  /** El pase de prueba se convierte en membresía paga desde hoy. */
+  static convertir(socio: Socio, hoy: Date): Socio {
+    MembresiaLogic.exigir(socio, 'prueba', 'activa');
+    return { ...socio, ...MembresiaLogic.alta(hoy) };
+  }
+
+  /**
+   * Congela entre dos fechas (hoy o más adelante) y corre el vencimiento
+   * tantos días como dure: el socio no pierde lo que pagó. Solo una
+   * membresía paga y en curso se puede congelar, y sin superponer períodos.
+   */
+  static congelar(socio: Socio, desde: string, hasta: string, motivo: MotivoCongelamiento, hoy: Date): Socio {
+    MembresiaLogic.exigir(socio, 'activa', 'congelada');
+    if (desde < fecha(hoy)) throw new ErrorNegocio('congelamiento_pasado');
+    if (hasta < desde) throw new ErrorNegocio('fechas_invertidas');
+    const dias = diasEntre(desde, hasta) + 1;
+    if (dias > MAX_DIAS_CONGELAMIENTO) throw new ErrorNegocio('congelamiento_largo', { dias: MAX_DIAS_CONGELAMIENTO });
+    if (socio.congelamientos?.some(c => c.desde <= hasta && desde <= c.hasta)) {
+      throw new ErrorNegocio('congelamiento_superpuesto');
+    }
+    if (socio.vence && desde > socio.vence) throw new ErrorNegocio('vence_antes');
+
+    const congelado: Socio = {
+      ...socio,
+      congelamientos: [...(socio.congelamientos ?? []), { desde, hasta, motivo }],
+      vence: socio.vence ? sumarDias(socio.vence, dias) : null
+    };
+    return MembresiaLogic.actualizar(congelado, hoy);
+  }
+
+  /**
+   * Termina antes el congelamiento en curso (o anula uno programado) y
+   * devuelve al vencimiento los días que no se usaron.
+   */
+  static descongelar(socio: Socio, hoy: Date): Socio {
+    const dia = fecha(hoy);
+    const congelamiento = (socio.congelamientos ?? [])
+      .filter(c => c.hasta >= dia)
+      .sort((a, b) => a.desde.localeCompare(b.desde))[0];
+    if (!congelamiento) throw new ErrorNegocio('sin_congelamiento');
+
+    const nuevoHasta = sumarDias(dia, -1);
+    const anulado = congelamiento.desde >= dia;
+    const sinUsar = diasEntre(anulado ? congelamiento.desde : dia, congelamiento.hasta) + 1;
+    const congelamientos = (socio.congelamientos ?? [])
+      .filter(c => c !== congelamiento || !anulado)
+      .map(c => (c === congelamiento ? { ...c, hasta: nuevoHasta } : c));
+
+    return {
+      ...socio,
+      estado: socio.estado === 'congelada' ? 'activa' : socio.estado,
+      congelamientos,
+      vence: socio.vence ? sumarDias(socio.vence, -sinUsar) : null
+    };
+  }
+
+  static cancelar(socio: Socio, motivo: string, hoy: Date): Socio {
+    MembresiaLogic.exigir(socio, socio.estado, 'cancelada');
+    if (!motivo.trim()) throw new ErrorNegocio('cancelacion_sin_motivo');
+    return { ...socio, estado: 'cancelada', fechaCancelacion: fecha(hoy), motivoCancelacion: motivo.trim() };
+  }
+
+  /** Vuelve a empezar desde hoy: con fecha de fin (ej.: un plan por temporada) o renovándose sola. */
+  static reactivar(socio: Socio, hoy: Date, vence: string | null = null): Socio {
+    if (socio.estado !== 'vencida' && socio.estado !== 'cancelada') throw new ErrorNegocio('membresia_vigente');
+    const inicio = fecha(hoy);
+    if (vence !== null && vence < inicio) throw new ErrorNegocio('vencimiento_pasado');
+    const { fechaCancelacion, motivoCancelacion, ...resto } = socio;
+    return { ...resto, estado: 'activa', inicio, vence };
+  }
+
+  private static exigir(socio: Socio, desde: EstadoMembresia, hasta: EstadoMembresia): void {
+    if (socio.estado !== desde || !MembresiaLogic.puedePasar(desde, hasta)) {
+      throw new ErrorNegocio('transicion_invalida', { desde: { clave: `membresia.${socio.estado}` }, hasta: { clave: `membresia.${hasta}` } });
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { MensajeSaliente, ProveedorMensajeria } from './notificaciones';
+
+const MAX_BANDEJA = 500;
+
+/**
+ * Proveedor de prueba: no manda nada. Escribe cada mensaje en la consola y
+ * lo guarda en una bandeja de salida local que se puede descargar como
+ * archivo de texto para revisar qué les habría llegado a los socios.
+ */
+export class BandejaLocalProvider implements ProveedorMensajeria {
+  readonly nombre = 'Bandeja local';
+
+  constructor(private readonly clave = 'fitness_plus_bandeja_v1') {}
+
+  async enviar(mensaje: MensajeSaliente): Promise<void> {
+    console.info(`[${mensaje.canal}] → ${mensaje.destino}: ${mensaje.cuerpo}`);
+    const registro = { ...mensaje, fecha: new Date().toISOString() };
+    localStorage.setItem(this.clave, JSON.stringify([registro, ...this.leer()].slice(0, MAX_BANDEJA)));
+  }
+
+  leer(): (MensajeSaliente & { fecha: string })[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /** La bandeja como archivo .txt, un mensaje por bloque. */
+  descargar(): void {
+    const texto = this.leer()
+      .map(m => `${m.fecha}  [${m.canal}] ${m.destino}\n${m.canal === 'email' ? `Asunto: ${m.asunto}\n` : ''}${m.cuerpo}\n`)
+      .join('\n');
+    const url = URL.createObjectURL(new Blob([texto], { type: 'text/plain;charset=utf-8' }));
+    const enlace = document.createElement('a');
+    enlace.href = url;
+    enlace.download = `bandeja-avisos-${new Date().toISOString().slice(0, 10)}.txt`;
+    enlace.click();
+    URL.revokeObjectURL(url);
+  }
+}
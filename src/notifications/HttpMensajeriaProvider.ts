@@ -0,0 +1,22 @@
+import { MensajeSaliente, ProveedorMensajeria } from './notificaciones';
+import { ErrorNegocio } from '../domain/errores';
+
+/**
+ * Entrega los mensajes a un gateway propio (un webhook que a su vez habla
+ * con el servicio de email, SMS o WhatsApp que contrate el gimnasio). Así
+ * las credenciales de esos servicios nunca llegan al navegador.
+ */
+export class HttpMensajeriaProvider implements ProveedorMensajeria {
+  readonly nombre = 'Gateway de mensajería';
+
+  constructor(private readonly url: string) {}
+
+  async enviar(mensaje: MensajeSaliente): Promise<void> {
+    const respuesta = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(mensaje)
+    });
+    if (!respuesta.ok) throw new ErrorNegocio('gateway_mensajeria', { status: respuesta.status });
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  Aviso, ConfigNotificaciones, DatosNotificaciones, NotificacionesLogic, ProveedorMensajeria
+} from './notificaciones';
+import { BandejaLocalProvider } from './BandejaLocalProvider';
+import { HttpMensajeriaProvider } from './HttpMensajeriaProvider';
+import { AvisoRepository } from '../persistence/AvisoRepository';
+import { TenantLogic } from '../tenancy/organizacion';
+import { REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { ErrorNegocio } from '../domain/errores';
+
+/**
+ * Corre el disparador: calcula los avisos pendientes contra el registro
+ * guardado, los entrega uno por uno y anota el resultado de cada uno. Un
+ * aviso fallido se reintenta en la próxima revisión; uno enviado, nunca.
+ * Con varias recepciones abiertas cada una revisa por su cuenta: solo manda
+ * los avisos cuya clave pudo reclamar en el registro.
+ */
+export class NotificacionesService {
+  private enCurso: Promise<Aviso[]> | null = null;
+
+  constructor(
+    readonly proveedor: ProveedorMensajeria,
+    private readonly registro: AvisoRepository
+  ) {}
+
+  // Si ya hay una revisión en marcha se devuelve esa: dos a la vez mandarían todo dos veces.
+  revisar(datos: Omit<DatosNotificaciones, 'registro'>, config: ConfigNotificaciones, ahora: Date): Promise<Aviso[]> {
+    if (!this.enCurso) {
+      this.enCurso = this.procesar(datos, config, ahora).finally(() => { this.enCurso = null; });
+    }
+    return this.enCurso;
+  }
+
+  historial(): Promise<Aviso[]> {
+    return this.registro.listar();
+  }
+
+  private async procesar(datos: Omit<DatosNotificaciones, 'registro'>, config: ConfigNotificaciones, ahora: Date): Promise<Aviso[]> {
+    const registro = await this.registro.listar();
+    const avisos: Aviso[] = [];
+    const idioma = (datos.regional ?? REGIONAL_POR_DEFECTO).idioma;
+
+    const pendientes = NotificacionesLogic.pendientes({ ...datos, registro }, config, ahora);
+    const reclamados = new Set(await this.registro.reclamar(pendientes.map(p => NotificacionesLogic.reclamo(p.socio.id, p.clave))));
+
+    for (const pendiente of pendientes.filter(p => reclamados.has(NotificacionesLogic.reclamo(p.socio.id, p.clave)))) {
+      const plantilla = config.plantillas[pendiente.tipo];
+      const mensaje = NotificacionesLogic.mensaje(pendiente, config, idioma);
+      const base = {
+        id: crypto.randomUUID(),
+        socioId: pendiente.socio.id,
+        socioNombre: pendiente.socio.nombre,
+        tipo: pendiente.tipo,
+        clave: pendiente.clave,
+        fecha: new Date().toISOString(),
+        proveedor: this.proveedor.nombre
+      };
+
+      if (!mensaje) {
+        const motivo = { codigo: plantilla.canal === 'email' ? 'sin_email' : 'sin_telefono' } as const;
+        avisos.push({ ...base, canal: plantilla.canal, destino: '', asunto: '', cuerpo: '', estado: 'omitido', motivo });
+        continue;
+      }
+      try {
+        await this.proveedor.enviar(mensaje);
+        avisos.push({ ...base, ...mensaje, estado: 'enviado' });
+      } catch (e) {
+        const motivo = e instanceof ErrorNegocio
+          ? { codigo: e.codigo, variables: e.variables }
+          : { codigo: 'envio_fallido' as const, variables: { detalle: (e as Error).message } };
+        avisos.push({ ...base, ...mensaje, estado: 'fallido', motivo });
+      }
+    }
+
+    if (avisos.length > 0) await this.registro.registrar(avisos);
+    await this.registro.liberar(avisos.filter(a => a.estado === 'fallido').map(a => NotificacionesLogic.reclamo(a.socioId, a.clave)));
+    return avisos;
+  }
+}
+
+/**
+ * Con VITE_MENSAJERIA_URL los mensajes (avisos, códigos del portal) salen por
+ * ese gateway; sin ella quedan en la bandeja local de la organización (modo prueba).
+ */
+export const crearProveedorMensajeria = (organizacionId: string): ProveedorMensajeria => {
+  const url = import.meta.env.VITE_MENSAJERIA_URL;
+  return url
+    ? new HttpMensajeriaProvider(url)
+    : new BandejaLocalProvider(TenantLogic.clave('fitness_plus_bandeja_v1', organizacionId));
+};
+
+export const crearNotificador = (registro: AvisoRepository, organizacionId: string): NotificacionesService =>
+  new NotificacionesService(crearProveedorMensajeria(organizacionId), registro);
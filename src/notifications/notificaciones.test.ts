@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+
+import { Aviso, CONFIG_NOTIFICACIONES_POR_DEFECTO, ConfigNotificaciones, DatosNotificaciones, MensajeSaliente, NotificacionesLogic } from './notificaciones';
+import { Socio } from '../domain/socio';
+import { Factura } from '../billing/billing';
+import { NotificacionesService } from './NotificacionesService';
+import { InMemoryAvisoRepository } from '../persistence/InMemoryAvisoRepository';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const factura = (id: string, vencimiento: string, importe = 18000): Factura =>
+  ({ id, socioId: 's1', periodo: vencimiento.slice(0, 7), vencimiento, importe, recargo: 0 });
+
+const registrado = (clave: string, estado: Aviso['estado']): Aviso => ({
+  id: clave, socioId: 's1', socioNombre: 'Ana Pérez', tipo: 'cuota_por_vencer', clave, fecha: '2026-03-14T10:00:00.000Z',
+  estado, proveedor: 'bandeja', canal: 'whatsapp', destino: '3515551234', asunto: '', cuerpo: ''
+});
+
+const ahora = new Date(2026, 2, 15, 10);
+
+const datos = (cambios: Partial<DatosNotificaciones> = {}): DatosNotificaciones => ({
+  socios: [unSocio()],
+  ledger: { ciclos: [], facturas: [], pagos: [] },
+  asistencias: [],
+  registro: [],
+  gimnasio: 'FitnessPlus',
+  ...cambios
+});
+
+const conPlantilla = (tipo: keyof ConfigNotificaciones['plantillas'], cambios: object): ConfigNotificaciones => ({
+  ...CONFIG_NOTIFICACIONES_POR_DEFECTO,
+  plantillas: { ...CONFIG_NOTIFICACIONES_POR_DEFECTO.plantillas, [tipo]: { ...CONFIG_NOTIFICACIONES_POR_DEFECTO.plantillas[tipo], ...cambios } }
+});
+
+const claves = (d: DatosNotificaciones, config = CONFIG_NOTIFICACIONES_POR_DEFECTO) =>
+  NotificacionesLogic.pendientes(d, config, ahora).map(p => p.clave);
+
+describe('NotificacionesLogic.pendientes', () => {
+  it('avisa las cuotas por vencer y las vencidas hace poco, no las pagadas ni las viejas', () => {
+    const ledger = {
+      ciclos: [],
+      facturas: [factura('f-pronto', '2026-03-17'), factura('f-lejos', '2026-03-25'), factura('f-vencida', '2026-03-01'), factura('f-vieja', '2026-01-10'), factura('f-paga', '2026-03-16')],
+      pagos: [{ id: 'p1', facturaId: 'f-paga', socioId: 's1', fecha: '2026-03-10T12:00:00.000Z', monto: 18000, metodo: 'efectivo' as const }]
+    };
+
+    expect(claves(datos({ ledger }))).toEqual(['cuota:f-pronto', 'deuda:f-vencida']);
+  });
+
+  it('arma las variables de la plantilla con el saldo y la fecha legibles', () => {
+    const ledger = { ciclos: [], facturas: [factura('f1', '2026-03-17', 19800)], pagos: [] };
+    const [pendiente] = NotificacionesLogic.pendientes(datos({ ledger }), CONFIG_NOTIFICACIONES_POR_DEFECTO, ahora);
+
+    expect(pendiente.variables).toEqual({ nombre: 'Ana', gimnasio: 'FitnessPlus', periodo: '2026-03', importe: '$\u00a019.800', vencimiento: '17/03/2026' });
+  });
+
+  it('apto médico por vencer y cumpleaños, salvo que la fecha de nacimiento sea estimada', () => {
+    const socio = unSocio({ aptoMedicoVence: '2026-03-25', fechaNacimiento: '1990-03-15' });
+
+    expect(claves(datos({ socios: [socio] }))).toEqual(['apto:2026-03-25', 'cumple:2026']);
+    expect(claves(datos({ socios: [{ ...socio, fechaNacimientoEstimada: true }] }))).toEqual(['apto:2026-03-25']);
+  });
+
+  it('un aviso por racha de inactividad, si la plantilla está activa', () => {
+    const asistencias = [{ id: 'a1', socioId: 's1', sede: 'CBA', fecha: '2026-02-20T18:00:00.000Z' }];
+    const config = conPlantilla('inactividad', { activa: true });
+
+    expect(claves(datos({ asistencias }))).toEqual([]);
+    expect(claves(datos({ asistencias }), config)).toEqual(['inactividad:2026-02-20']);
+  });
+
+  it('no repite lo ya enviado u omitido, pero reintenta lo que falló', () => {
+    const ledger = { ciclos: [], facturas: [factura('f1', '2026-03-17'), factura('f2', '2026-03-16')], pagos: [] };
+    const registro = [registrado('cuota:f1', 'enviado'), registrado('cuota:f2', 'fallido')];
+
+    expect(claves(datos({ ledger, registro }))).toEqual(['cuota:f2']);
+  });
+
+  it('deja afuera a los dados de baja y los canales que el socio rechazó', () => {
+    const ledger = { ciclos: [], facturas: [factura('f1', '2026-03-17')], pagos: [] };
+
+    expect(claves(datos({ ledger, socios: [unSocio({ estado: 'cancelada' })] }))).toEqual([]);
+    expect(claves(datos({ ledger, socios: [unSocio({ sinAvisos: ['whatsapp'] })] }))).toEqual([]);
+    expect(claves(datos({ ledger }), conPlantilla('cuota_por_vencer', { activa: false }))).toEqual([]);
+  });
+});
+
+describe('NotificacionesLogic.mensaje', () => {
+  it('completa la plantilla y deja a la vista las variables desconocidas', () => {
+    const config = conPlantilla('cumpleanios', { asunto: 'Hola {{nombre}}', cuerpo: '{{nombre}} {{apodo}}' });
+    const mensaje = NotificacionesLogic.mensaje({ socio: unSocio(), tipo: 'cumpleanios', clave: 'cumple:2026', variables: { nombre: 'Ana' } }, config);
+
+    expect(mensaje).toEqual({ canal: 'email', destino: 'ana@mail.com', asunto: 'Hola Ana', cuerpo: 'Ana {{apodo}}' });
+  });
+
+  it('sin texto propio usa el de fábrica en el idioma del gimnasio', () => {
+    const pendiente = { socio: unSocio(), tipo: 'cumpleanios' as const, clave: 'cumple:2026', variables: { nombre: 'Ana', gimnasio: 'Fitness Plus' } };
+
+    expect(NotificacionesLogic.mensaje(pendiente, CONFIG_NOTIFICACIONES_POR_DEFECTO, 'en')).toMatchObject({
+      asunto: 'Happy birthday!',
+      cuerpo: 'Happy birthday, Ana! Best wishes from the whole Fitness Plus team.'
+    });
+  });
+
+  it('sin email o teléfono no hay a quién mandarlo', () => {
+    const pendiente = { socio: unSocio({ email: '  ' }), tipo: 'cumpleanios' as const, clave: 'cumple:2026', variables: {} };
+
+    expect(NotificacionesLogic.mensaje(pendiente, CONFIG_NOTIFICACIONES_POR_DEFECTO)).toBeNull();
+  });
+});
+
+describe('NotificacionesService', () => {
+  const ledger = { ciclos: [], facturas: [factura('f1', '2026-03-17'), factura('f2', '2026-03-16')], pagos: [] };
+  const revision = datos({ ledger });
+
+  it('dos recepciones que revisan a la vez mandan cada aviso una sola vez', async () => {
+    const enviados: string[] = [];
+    const proveedor = { nombre: 'prueba', enviar: async (m: MensajeSaliente) => { enviados.push(m.destino); } };
+    const registro = new InMemoryAvisoRepository();
+    const recepciones = [new NotificacionesService(proveedor, registro), new NotificacionesService(proveedor, registro)];
+
+    const [a, b] = await Promise.all(recepciones.map(r => r.revisar(revision, CONFIG_NOTIFICACIONES_POR_DEFECTO, ahora)));
+
+    expect(enviados).toHaveLength(2);
+    expect([...a, ...b].map(x => x.clave).sort()).toEqual(['cuota:f1', 'cuota:f2']);
+  });
+
+  it('lo que falló se libera y sale en la próxima revisión', async () => {
+    let caido = true;
+    const proveedor = { nombre: 'prueba', enviar: async () => { if (caido) throw new Error('sin señal'); } };
+    const servicio = new NotificacionesService(proveedor, new InMemoryAvisoRepository());
+
+    const fallidos = await servicio.revisar(revision, CONFIG_NOTIFICACIONES_POR_DEFECTO, ahora);
+    caido = false;
+    const reintentos = await servicio.revisar(revision, CONFIG_NOTIFICACIONES_POR_DEFECTO, ahora);
+
+    expect(fallidos.map(x => [x.estado, x.motivo])).toEqual([
+      ['fallido', { codigo: 'envio_fallido', variables: { detalle: 'sin señal' } }],
+      ['fallido', { codigo: 'envio_fallido', variables: { detalle: 'sin señal' } }]
+    ]);
+    expect(reintentos.map(x => x.estado)).toEqual(['enviado', 'enviado']);
+  });
+});
@@ -0,0 +1,228 @@
+import { Socio } from '../domain/socio';
+import { BillingLogic, LedgerFacturacion, formatearFecha } from '../billing/billing';
+import { Asistencia, AsistenciaLogic } from '../attendance/attendance';
+import { MembresiaLogic } from '../membership/membresia';
+import { ConfigRegional, FormatoLogic, Idioma, REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { MotivoError } from '../domain/errores';
+
+/**
+ * --- AVISOS AUTOMÁTICOS A SOCIOS ---
+ * Un "disparador" revisa los datos (cuotas, aptos, asistencias, cumpleaños)
+ * y arma la lista de avisos que corresponde mandar hoy. Cada aviso lleva una
+ * 'clave' (por ejemplo "deuda:<factura>") que queda en el registro: si ya
+ * se mandó, no se repite aunque el disparador corra cada hora.
+ */
+export type Canal = 'email' | 'sms' | 'whatsapp';
+
+export type TipoAviso = 'cuota_por_vencer' | 'cuota_vencida' | 'apto_medico' | 'inactividad' | 'cumpleanios';
+
+export type EstadoAviso = 'enviado' | 'fallido' | 'omitido';
+
+export const CANAL_TEXTO: Record<Canal, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp'
+};
+
+export const TIPOS_AVISO: TipoAviso[] = ['cuota_por_vencer', 'cuota_vencida', 'apto_medico', 'inactividad', 'cumpleanios'];
+
+export interface Plantilla {
+  activa: boolean;
+  canal: Canal;
+  asunto: string;  // Solo se usa en email. Vacío = el texto de fábrica en el idioma del gimnasio
+  cuerpo: string;  // Admite {{nombre}}, {{gimnasio}}, {{importe}}, {{periodo}}, {{vencimiento}}, {{dias}}. Vacío = el de fábrica
+}
+
+export interface ConfigNotificaciones {
+  plantillas: Record<TipoAviso, Plantilla>;
+  diasAnticipoCuota: number;
+  diasAnticipoApto: number;
+  diasInactividad: number;
+}
+
+/** Lo que va a salir: el proveedor solo ve esto, no al Socio. */
+export interface MensajeSaliente {
+  canal: Canal;
+  destino: string;
+  asunto: string;
+  cuerpo: string;
+}
+
+/** Registro de lo que se intentó mandar a cada socio. */
+export interface Aviso extends MensajeSaliente {
+  id: string;
+  socioId: string;
+  socioNombre: string;
+  tipo: TipoAviso;
+  clave: string;
+  fecha: string;
+  estado: EstadoAviso;
+  proveedor: string;
+  motivo?: MotivoError; // Por qué falló o se omitió
+  detalle?: string; // El motivo ya escrito, en los avisos registrados antes de que hubiera códigos
+}
+
+/**
+ * Quien entrega los mensajes (un gateway de email/SMS/WhatsApp, o la bandeja
+ * local para pruebas). Si no puede entregar, tira un Error con el motivo.
+ */
+export interface ProveedorMensajeria {
+  readonly nombre: string;
+  enviar(mensaje: MensajeSaliente): Promise<void>;
+}
+
+export interface AvisoPendiente {
+  socio: Socio;
+  tipo: TipoAviso;
+  clave: string;
+  variables: Record<string, string>;
+}
+
+export interface DatosNotificaciones {
+  socios: Socio[];
+  ledger: LedgerFacturacion;
+  asistencias: Asistencia[];
+  registro: Aviso[];
+  gimnasio: string;
+  regional?: ConfigRegional; // Cómo se escriben {{importe}} y {{vencimiento}}
+}
+
+export const CONFIG_NOTIFICACIONES_POR_DEFECTO: ConfigNotificaciones = {
+  plantillas: {
+    cuota_por_vencer: {
+      activa: true,
+      canal: 'whatsapp',
+      asunto: '',
+      cuerpo: ''
+    },
+    cuota_vencida: {
+      activa: true,
+      canal: 'whatsapp',
+      asunto: '',
+      cuerpo: ''
+    },
+    apto_medico: {
+      activa: true,
+      canal: 'email',
+      asunto: '',
+      cuerpo: ''
+    },
+    inactividad: {
+      activa: false,
+      canal: 'whatsapp',
+      asunto: '',
+      cuerpo: ''
+    },
+    cumpleanios: {
+      activa: true,
+      canal: 'email',
+      asunto: '',
+      cuerpo: ''
+    }
+  },
+  diasAnticipoCuota: 3,
+  diasAnticipoApto: 15,
+  diasInactividad: 14
+};
+
+// Una deuda vieja no se avisa al activar el módulo: solo las que vencieron hace poco.
+const MAX_DIAS_CUOTA_VENCIDA = 30;
+
+const MS_DIA = 24 * 60 * 60 * 1000;
+
+// Días de 'desde' a 'hasta' ("YYYY-MM-DD"), negativo si 'hasta' ya pasó.
+const diasEntre = (desde: string, hasta: string) =>
+  Math.round((new Date(`${hasta}T00:00:00`).getTime() - new Date(`${desde}T00:00:00`).getTime()) / MS_DIA);
+
+
+export class NotificacionesLogic {
+  static destino(socio: Socio, canal: Canal): string | null {
+    const valor = canal === 'email' ? socio.email : socio.telefono;
+    return valor.trim() || null;
+  }
+
+  static aceptaCanal(socio: Socio, canal: Canal): boolean {
+    return !(socio.sinAvisos ?? []).includes(canal);
+  }
+
+  /** Identifica un aviso en el registro y en los reclamos de las recepciones. */
+  static reclamo(socioId: string, clave: string): string {
+    return `${socioId}|${clave}`;
+  }
+
+  static renderizar(texto: string, variables: Record<string, string>): string {
+    return texto.replace(/\{\{(\w+)\}\}/g, (original, nombre) => variables[nombre] ?? original);
+  }
+
+  /**
+   * Avisos que corresponde mandar hoy y todavía no se mandaron. Los socios
+   * con la membresía congelada, vencida o cancelada y los que pidieron no recibir avisos por ese canal quedan
+   * afuera: ni siquiera aparecen en el registro.
+   */
+  static pendientes(datos: DatosNotificaciones, config: ConfigNotificaciones, ahora: Date): AvisoPendiente[] {
+    const hoy = formatearFecha(ahora);
+    const regional = datos.regional ?? REGIONAL_POR_DEFECTO;
+    const fechaCorta = (fecha: string) => FormatoLogic.fecha(fecha, regional);
+    const moneda = (n: number) => FormatoLogic.moneda(Math.round(n), regional);
+    const yaResueltos = new Set(
+      datos.registro.filter(a => a.estado !== 'fallido').map(a => NotificacionesLogic.reclamo(a.socioId, a.clave))
+    );
+    const socios = new Map(datos.socios.filter(s => MembresiaLogic.habilitado(s)).map(s => [s.id, s]));
+    const pendientes: AvisoPendiente[] = [];
+    const agregar = (socio: Socio, tipo: TipoAviso, clave: string, variables: Record<string, string>) => {
+      const plantilla = config.plantillas[tipo];
+      if (!plantilla.activa || !NotificacionesLogic.aceptaCanal(socio, plantilla.canal)) return;
+      if (yaResueltos.has(NotificacionesLogic.reclamo(socio.id, clave))) return;
+      pendientes.push({
+        socio, tipo, clave,
+        variables: { nombre: socio.nombre.split(' ')[0], gimnasio: datos.gimnasio, ...variables }
+      });
+    };
+
+    for (const factura of datos.ledger.facturas) {
+      const socio = socios.get(factura.socioId);
+      const saldo = BillingLogic.saldo(datos.ledger, factura);
+      if (!socio || saldo === 0) continue;
+      const dias = diasEntre(hoy, factura.vencimiento);
+      const variables = { periodo: BillingLogic.etiquetaPeriodo(factura), importe: moneda(saldo), vencimiento: fechaCorta(factura.vencimiento) };
+      if (dias >= 0 && dias <= config.diasAnticipoCuota) {
+        agregar(socio, 'cuota_por_vencer', `cuota:${factura.id}`, variables);
+      } else if (dias < 0 && -dias <= MAX_DIAS_CUOTA_VENCIDA) {
+        agregar(socio, 'cuota_vencida', `deuda:${factura.id}`, variables);
+      }
+    }
+
+    for (const socio of socios.values()) {
+      if (socio.aptoMedicoVence) {
+        const dias = diasEntre(hoy, socio.aptoMedicoVence);
+        if (dias >= 0 && dias <= config.diasAnticipoApto) {
+          agregar(socio, 'apto_medico', `apto:${socio.aptoMedicoVence}`, { vencimiento: fechaCorta(socio.aptoMedicoVence), dias: String(dias) });
+        }
+      }
+      if (socio.fechaNacimiento.slice(5) === hoy.slice(5) && !socio.fechaNacimientoEstimada) {
+        agregar(socio, 'cumpleanios', `cumple:${hoy.slice(0, 4)}`, {});
+      }
+    }
+
+    // Uno por racha de ausencia: si vuelve y deja de venir otra vez, hay aviso nuevo.
+    for (const r of AsistenciaLogic.riesgoAbandono([...socios.values()], datos.asistencias, config.diasInactividad, ahora)) {
+      if (r.ultimaVisita === null || r.diasSinVenir === null) continue;
+      agregar(r.socio, 'inactividad', `inactividad:${r.ultimaVisita.slice(0, 10)}`, { dias: String(r.diasSinVenir) });
+    }
+
+    return pendientes;
+  }
+
+  static mensaje(pendiente: AvisoPendiente, config: ConfigNotificaciones, idioma: Idioma = REGIONAL_POR_DEFECTO.idioma): MensajeSaliente | null {
+    const plantilla = config.plantillas[pendiente.tipo];
+    const destino = NotificacionesLogic.destino(pendiente.socio, plantilla.canal);
+    if (!destino) return null;
+    return {
+      canal: plantilla.canal,
+      destino,
+      asunto: NotificacionesLogic.renderizar(plantilla.asunto || I18nLogic.traducir(idioma, `plantilla.${pendiente.tipo}.asunto`), pendiente.variables),
+      cuerpo: NotificacionesLogic.renderizar(plantilla.cuerpo || I18nLogic.traducir(idioma, `plantilla.${pendiente.tipo}.cuerpo`), pendiente.variables)
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { Socio } from '../domain/socio';
+import { Asistencia } from '../attendance/attendance';
+import { Coleccion, Conflicto, Mutacion, Registro } from './sincronizacion';
+
+interface DocumentoOffline {
+  servidor: Socio[];
+  cola: Mutacion[];
+  conflictos: Conflicto[];
+  ultima: string | null;
+}
+
+const VACIO: DocumentoOffline = { servidor: [], cola: [], conflictos: [], ultima: null };
+
+/**
+ * Lo que la recepción necesita para trabajar sin red, en localStorage: la
+ * copia del padrón del servidor, la cola de cambios y los conflictos. Los
+ * ingresos y cada colección van en claves aparte porque crecen mucho más rápido.
+ */
+export class AlmacenOffline {
+  constructor(private readonly clave = 'fitness_plus_offline_v1') {}
+
+  leer(): DocumentoOffline {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? 'null');
+      return datos && Array.isArray(datos.cola) ? { ...VACIO, ...datos } : VACIO;
+    } catch (e) {
+      console.error("Datos sin conexión ilegibles:", e);
+      return VACIO;
+    }
+  }
+
+  actualizar(cambios: Partial<DocumentoOffline>): void {
+    localStorage.setItem(this.clave, JSON.stringify({ ...this.leer(), ...cambios }));
+  }
+
+  asistencias(): Asistencia[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(`${this.clave}_asistencias`) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+
+  guardarAsistencias(asistencias: Asistencia[]): void {
+    localStorage.setItem(`${this.clave}_asistencias`, JSON.stringify(asistencias));
+  }
+
+  registros(coleccion: Coleccion): Registro[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(`${this.clave}_${coleccion}`) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+
+  guardarRegistros(coleccion: Coleccion, registros: Registro[]): void {
+    localStorage.setItem(`${this.clave}_${coleccion}`, JSON.stringify(registros));
+  }
+}
@@ -0,0 +1,235 @@
+import { Socio } from '../domain/socio';
+import { Asistencia } from '../attendance/attendance';
+import { SocioRepository } from '../persistence/SocioRepository';
+import { AsistenciaRepository } from '../persistence/AsistenciaRepository';
+import { RegistroRepository } from '../persistence/RegistroRepository';
+import { AlmacenOffline } from './AlmacenOffline';
+import { Coleccion, Conflicto, EstadoSincronizacion, Mutacion, Registro, SyncLogic } from './sincronizacion';
+
+const REINTENTO_MS = 30 * 1000;
+
+// fetch rechaza con TypeError cuando no hay red; un error del servidor llega como respuesta.
+const sinConexion = (e: unknown) => e instanceof TypeError;
+
+/**
+ * Vacía la cola contra el servidor: al volver la conexión, cada 30 segundos
+ * mientras quede algo pendiente, y después de cada cambio. Nunca corren dos
+ * sincronizaciones a la vez (mandarían la cola dos veces).
+ */
+export class Sincronizador {
+  private enCurso: Promise<void> | null = null;
+  private enLinea = typeof navigator === 'undefined' ? true : navigator.onLine;
+  private oyentes = new Set<(estado: EstadoSincronizacion) => void>();
+
+  constructor(
+    private readonly socios: SocioRepository,
+    private readonly asistencias: AsistenciaRepository,
+    private readonly registros: RegistroRepository,
+    private readonly almacen: AlmacenOffline
+  ) {}
+
+  estado(): EstadoSincronizacion {
+    const { cola, conflictos, ultima } = this.almacen.leer();
+    return { enLinea: this.enLinea, sincronizando: this.enCurso !== null, pendientes: cola.length, conflictos, ultima };
+  }
+
+  suscribir(oyente: (estado: EstadoSincronizacion) => void): () => void {
+    this.oyentes.add(oyente);
+    return () => { this.oyentes.delete(oyente); };
+  }
+
+  /** Escucha la conexión y reintenta solo. Devuelve la función para apagarlo. */
+  iniciar(): () => void {
+    const alVolver = () => { this.enLinea = true; this.sincronizar(); };
+    const alCortarse = () => { this.enLinea = false; this.emitir(); };
+    window.addEventListener('online', alVolver);
+    window.addEventListener('offline', alCortarse);
+    const timer = window.setInterval(() => {
+      if (this.almacen.leer().cola.length > 0) this.sincronizar();
+    }, REINTENTO_MS);
+    this.sincronizar();
+    return () => {
+      window.removeEventListener('online', alVolver);
+      window.removeEventListener('offline', alCortarse);
+      clearInterval(timer);
+    };
+  }
+
+  encolar(m: Mutacion): void {
+    const { cola } = this.almacen.leer();
+    this.almacen.actualizar({ cola: SyncLogic.encolar(cola, m) });
+    this.emitir();
+    this.sincronizar();
+  }
+
+  /** Lo último que se sabe del socio en el servidor (null = alta que todavía no llegó). */
+  copiaServidor(socioId: string): Socio | null {
+    return this.almacen.leer().servidor.find(s => s.id === socioId) ?? null;
+  }
+
+  async listarSocios(): Promise<Socio[]> {
+    try {
+      this.almacen.actualizar({ servidor: await this.socios.listar() });
+      this.marcar(true);
+    } catch (e) {
+      if (!sinConexion(e)) throw e;
+      this.marcar(false);
+    }
+    const { servidor, cola } = this.almacen.leer();
+    return SyncLogic.aplicar(servidor, cola);
+  }
+
+  async listarAsistencias(): Promise<Asistencia[]> {
+    try {
+      this.almacen.guardarAsistencias(await this.asistencias.listar());
+      this.marcar(true);
+    } catch (e) {
+      if (!sinConexion(e)) throw e;
+      this.marcar(false);
+    }
+    return SyncLogic.asistencias(this.almacen.asistencias(), this.almacen.leer().cola);
+  }
+
+  /** Una colección compartida: del servidor si se puede, si no de la última copia; siempre con la cola encima. */
+  async listarRegistros(coleccion: Coleccion): Promise<Registro[]> {
+    try {
+      this.almacen.guardarRegistros(coleccion, await this.registros.listar(coleccion));
+      this.marcar(true);
+    } catch (e) {
+      if (!sinConexion(e)) throw e;
+      this.marcar(false);
+    }
+    return this.registrosLocales(coleccion);
+  }
+
+  /** Lo que esta recepción ya conoce de la colección, sin ir a la red: contra esto se calcula qué cambió. */
+  registrosLocales(coleccion: Coleccion): Registro[] {
+    return SyncLogic.registros(this.almacen.registros(coleccion), this.almacen.leer().cola, coleccion);
+  }
+
+  guardarRegistros(coleccion: Coleccion, registros: Registro[]): void {
+    if (registros.length === 0) return;
+    this.encolar({ id: crypto.randomUUID(), fecha: new Date().toISOString(), tipo: 'guardar_registros', coleccion, registros });
+  }
+
+  sincronizar(): Promise<void> {
+    if (!this.enCurso) {
+      this.enCurso = this.vaciarCola()
+        .catch(e => console.error("Error sincronizando:", e))
+        .finally(() => { this.enCurso = null; this.emitir(); });
+      this.emitir();
+    }
+    return this.enCurso;
+  }
+
+  /**
+   * "Usar lo mío" vuelve a encolar la versión de esta recepción sobre lo que
+   * hoy tiene el servidor; "usar el servidor" solo descarta el conflicto.
+   */
+  resolver(conflictoId: string, eleccion: 'mio' | 'servidor'): void {
+    const { conflictos, servidor } = this.almacen.leer();
+    const conflicto = conflictos.find(c => c.id === conflictoId);
+    if (!conflicto) return;
+    this.almacen.actualizar({ conflictos: conflictos.filter(c => c.id !== conflictoId) });
+    if (eleccion === 'servidor') return this.emitir();
+
+    const actual = servidor.find(s => s.id === conflicto.socioId) ?? null;
+    const socio: Socio = actual && conflicto.motivo === 'edicion'
+      ? { ...actual, ...Object.fromEntries(conflicto.campos.map(c => [c.campo, c.mio])) }
+      : conflicto.mio;
+    this.encolar({ id: crypto.randomUUID(), fecha: new Date().toISOString(), tipo: 'guardar_socio', socio, base: actual });
+  }
+
+  private async vaciarCola(): Promise<void> {
+    if (this.almacen.leer().cola.length === 0) return;
+
+    let servidor: Map<string, Socio>;
+    try {
+      servidor = new Map((await this.socios.listar()).map(s => [s.id, s]));
+      this.marcar(true);
+    } catch (e) {
+      if (sinConexion(e)) return this.marcar(false);
+      throw e;
+    }
+
+    while (true) {
+      const { cola, conflictos } = this.almacen.leer();
+      const m = cola[0];
+      if (!m) break;
+      const nuevos: Conflicto[] = [];
+      try {
+        nuevos.push(...await this.enviar(m, servidor));
+      } catch (e) {
+        if (sinConexion(e)) return this.marcar(false);
+        // El servidor respondió con error (ej.: 409): el cambio no va a entrar nunca tal cual.
+        if (m.tipo === 'guardar_socio') nuevos.push(this.conflicto(m.socio, 'rechazado', [], (e as Error).message));
+        else console.error("Cambio descartado por el servidor:", m, e);
+      }
+      // Se relee la cola: mientras se enviaba pudieron encolarse cambios nuevos.
+      let resto = this.almacen.leer().cola.filter(x => x.id !== m.id);
+      const enviado = m.tipo === 'guardar_socio' ? servidor.get(m.socio.id) : undefined;
+      if (enviado) resto = SyncLogic.rebasar(resto, enviado);
+      this.almacen.actualizar({ cola: resto, conflictos: [...nuevos, ...conflictos] });
+      this.emitir();
+    }
+
+    this.almacen.actualizar({ servidor: await this.socios.listar(), ultima: new Date().toISOString() });
+  }
+
+  private async enviar(m: Mutacion, servidor: Map<string, Socio>): Promise<Conflicto[]> {
+    if (m.tipo === 'registrar_asistencia') {
+      await this.asistencias.registrar(m.asistencia);
+      return [];
+    }
+    if (m.tipo === 'guardar_registros') {
+      await this.registros.guardar(m.coleccion, m.registros);
+      // La copia local ya los incluye: la pantalla no pierde nada hasta la próxima lectura del servidor.
+      this.almacen.guardarRegistros(m.coleccion, SyncLogic.registros(this.almacen.registros(m.coleccion), [m], m.coleccion));
+      return [];
+    }
+    if (m.tipo === 'eliminar_socio') {
+      // Borrar gana: es una acción de Admin y deliberada.
+      await this.socios.eliminar(m.socioId);
+      servidor.delete(m.socioId);
+      return [];
+    }
+
+    const actual = servidor.get(m.socio.id) ?? null;
+    if (m.base && !actual) return [this.conflicto(m.socio, 'eliminado', [])];
+
+    let socio = m.socio;
+    let campos: Conflicto['campos'] = [];
+    if (m.base && actual && !SyncLogic.iguales(m.base, actual)) {
+      ({ resultado: socio, campos } = SyncLogic.fusionar(m.base, m.socio, actual));
+    }
+    if (!SyncLogic.iguales(socio, actual)) {
+      await this.socios.guardar(socio);
+      servidor.set(socio.id, socio);
+    }
+    return campos.length > 0 ? [this.conflicto(m.socio, 'edicion', campos)] : [];
+  }
+
+  private conflicto(mio: Socio, motivo: Conflicto['motivo'], campos: Conflicto['campos'], detalle?: string): Conflicto {
+    return {
+      id: crypto.randomUUID(),
+      socioId: mio.id,
+      socioNombre: mio.nombre,
+      fecha: new Date().toISOString(),
+      motivo,
+      campos,
+      mio,
+      detalle
+    };
+  }
+
+  private marcar(enLinea: boolean): void {
+    if (this.enLinea === enLinea) return;
+    this.enLinea = enLinea;
+    this.emitir();
+  }
+
+  private emitir(): void {
+    const estado = this.estado();
+    for (const oyente of this.oyentes) oyente(estado);
+  }
+}
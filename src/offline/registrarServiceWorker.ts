@@ -0,0 +1,13 @@
+/**
+ * Registra public/sw.js para que la App se pueda instalar y abrir sin red.
+ * Solo en el build de producción: en desarrollo cachearía los módulos de Vite.
+ * La versión del build viaja en la URL: cada build nuevo instala un service
+ * worker nuevo, que guarda sus archivos y borra la caché del anterior.
+ */
+export const registrarServiceWorker = (): void => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`/sw.js?v=${encodeURIComponent(import.meta.env.VITE_VERSION_APP)}`)
+      .catch(e => console.error("Error registrando el service worker:", e));
+  });
+};
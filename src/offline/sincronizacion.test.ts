@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import { Mutacion, SyncLogic } from './sincronizacion';
+import { Socio } from '../domain/socio';
+import { Asistencia } from '../attendance/attendance';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const guardar = (id: string, cambios: Partial<Socio>, base: Socio | null = unSocio()): Mutacion =>
+  ({ id, fecha: '2026-03-15T10:00:00.000Z', tipo: 'guardar_socio', socio: unSocio(cambios), base });
+
+const ingreso = (id: string, fecha: string): Asistencia => ({ id, socioId: 's1', sede: 'CBA', fecha });
+
+describe('SyncLogic.fusionar', () => {
+  const base = unSocio();
+
+  it('toma de cada lado lo que cambió solo ahí', () => {
+    const mio = { ...base, telefono: '3515550000' };
+    const servidor = { ...base, email: 'nuevo@mail.com' };
+    const { resultado, campos } = SyncLogic.fusionar(base, mio, servidor);
+
+    expect(campos).toEqual([]);
+    expect(resultado).toEqual({ ...base, telefono: '3515550000', email: 'nuevo@mail.com' });
+  });
+
+  it('el mismo cambio en los dos lados no es conflicto', () => {
+    const mio = { ...base, sede: 'ROS' };
+
+    expect(SyncLogic.fusionar(base, mio, { ...mio }).campos).toEqual([]);
+  });
+
+  it('un campo cambiado distinto en los dos lados es conflicto y queda el del servidor', () => {
+    const { resultado, campos } = SyncLogic.fusionar(base, { ...base, sede: 'ROS' }, { ...base, sede: 'MDP' });
+
+    expect(campos).toEqual([{ campo: 'sede', mio: 'ROS', servidor: 'MDP' }]);
+    expect(resultado.sede).toBe('MDP');
+  });
+
+  it('no deja claves vacías cuando un lado borró un campo opcional', () => {
+    const conPromo = { ...base, codigoPromo: 'VERANO' };
+    const { resultado } = SyncLogic.fusionar(conPromo, { ...conPromo, codigoPromo: undefined }, conPromo);
+
+    expect('codigoPromo' in resultado).toBe(false);
+  });
+});
+
+describe('SyncLogic.encolar', () => {
+  it('compacta dos ediciones seguidas del mismo socio conservando la base de la primera', () => {
+    const cola = SyncLogic.encolar([guardar('m1', { telefono: '1' })], guardar('m2', { telefono: '2' }, unSocio({ telefono: '1' })));
+
+    expect(cola).toHaveLength(1);
+    expect(cola[0]).toMatchObject({ id: 'm2', base: unSocio() });
+    expect(SyncLogic.aplicar([unSocio()], cola)[0].telefono).toBe('2');
+  });
+
+  it('borrar un alta que nunca llegó al servidor la saca de la cola', () => {
+    const cola = SyncLogic.encolar([guardar('m1', {}, null)], { id: 'm2', fecha: '2026-03-15T10:05:00.000Z', tipo: 'eliminar_socio', socioId: 's1' });
+
+    expect(cola).toEqual([]);
+  });
+
+  it('borrar un socio del servidor descarta sus ediciones pendientes y encola la baja', () => {
+    const baja: Mutacion = { id: 'm2', fecha: '2026-03-15T10:05:00.000Z', tipo: 'eliminar_socio', socioId: 's1' };
+
+    expect(SyncLogic.encolar([guardar('m1', { telefono: '1' })], baja)).toEqual([baja]);
+  });
+
+  it('después de enviar, lo que quedó en cola parte de lo enviado', () => {
+    const enviado = unSocio({ telefono: '1' });
+
+    expect(SyncLogic.rebasar([guardar('m2', { telefono: '2' })], enviado)[0]).toMatchObject({ base: enviado });
+  });
+});
+
+describe('SyncLogic.registros', () => {
+  it('en el historial un id que ya existe no se pisa; en el resto gana la cola', () => {
+    const servidor = [{ id: 'r1', datos: 'servidor' }];
+    const cola: Mutacion[] = [
+      { id: 'm1', fecha: '2026-03-15T10:00:00.000Z', tipo: 'guardar_registros', coleccion: 'pagos', registros: [{ id: 'r1', datos: 'mio' }, { id: 'r2', datos: 'nuevo' }] },
+      { id: 'm2', fecha: '2026-03-15T10:00:00.000Z', tipo: 'guardar_registros', coleccion: 'facturas', registros: [{ id: 'r1', datos: 'mio' }] }
+    ];
+
+    expect(SyncLogic.registros(servidor, cola, 'pagos')).toEqual([{ id: 'r1', datos: 'servidor' }, { id: 'r2', datos: 'nuevo' }]);
+    expect(SyncLogic.registros(servidor, cola, 'facturas')).toEqual([{ id: 'r1', datos: 'mio' }]);
+  });
+
+  it('solo envía los registros nuevos o distintos', () => {
+    const anteriores = [{ id: 'a', datos: { n: 1 } }, { id: 'b', datos: { n: 2 } }];
+    const nuevos = [{ id: 'a', datos: { n: 1 } }, { id: 'b', datos: { n: 3 } }, { id: 'c', datos: { n: 4 } }];
+
+    expect(SyncLogic.cambiados(anteriores, nuevos).map(r => r.id)).toEqual(['b', 'c']);
+  });
+});
+
+describe('SyncLogic.asistencias', () => {
+  it('suma los ingresos de la cola que el servidor no tiene, del más reciente al más viejo', () => {
+    const servidor = [ingreso('a1', '2026-03-15T09:00:00.000Z')];
+    const cola: Mutacion[] = [
+      { id: 'm1', fecha: '2026-03-15T10:00:00.000Z', tipo: 'registrar_asistencia', asistencia: ingreso('a2', '2026-03-15T10:00:00.000Z') },
+      { id: 'm2', fecha: '2026-03-15T09:00:00.000Z', tipo: 'registrar_asistencia', asistencia: ingreso('a1', '2026-03-15T09:00:00.000Z') }
+    ];
+
+    expect(SyncLogic.asistencias(servidor, cola).map(a => a.id)).toEqual(['a2', 'a1']);
+  });
+});
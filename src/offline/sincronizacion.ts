@@ -0,0 +1,171 @@
+import { Socio } from '../domain/socio';
+import { Asistencia } from '../attendance/attendance';
+
+/**
+ * --- TRABAJO SIN CONEXIÓN ---
+ * Con el servidor compartido, cada recepción guarda una copia de lo último
+ * que vio del servidor y una COLA de cambios hechos desde entonces (altas,
+ * ediciones, ingresos). La pantalla muestra "copia + cola", así que sin
+ * internet se sigue trabajando igual; al volver la conexión la cola se
+ * envía en orden, como un buffer de escritura en C que se vacía con fflush.
+ */
+export type Mutacion =
+  | { id: string; fecha: string; tipo: 'guardar_socio'; socio: Socio; base: Socio | null } // base = lo que había en el servidor al editar
+  | { id: string; fecha: string; tipo: 'eliminar_socio'; socioId: string }
+  | { id: string; fecha: string; tipo: 'registrar_asistencia'; asistencia: Asistencia }
+  | { id: string; fecha: string; tipo: 'guardar_registros'; coleccion: Coleccion; registros: Registro[] };
+
+/**
+ * El resto de lo que comparten las recepciones (cobranzas, agenda, auditoría,
+ * configuración) viaja como registros sueltos de una colección: cada uno con
+ * su id y sus datos. En 'configuracion' cada registro es un documento entero
+ * (los precios, las sedes...) y su id es el nombre del documento.
+ */
+export type Coleccion = 'ciclos' | 'facturas' | 'pagos' | 'auditoria' | 'avisos' | 'reservas' | 'solicitudes' | 'configuracion';
+
+export const COLECCIONES: Coleccion[] = ['ciclos', 'facturas', 'pagos', 'auditoria', 'avisos', 'reservas', 'solicitudes', 'configuracion'];
+
+// Historial: un id que ya está no se pisa. Dos recepciones que abren el mismo ciclo o reenvían un pago no se contradicen.
+export const COLECCIONES_SOLO_AGREGAR: Coleccion[] = ['ciclos', 'pagos', 'auditoria', 'avisos'];
+
+export type DocumentoConfiguracion = 'precios' | 'sedes' | 'clases' | 'personal' | 'notificaciones';
+
+export interface Registro<T = unknown> {
+  id: string;
+  datos: T;
+}
+
+export interface CampoEnConflicto {
+  campo: keyof Socio;
+  mio: unknown;
+  servidor: unknown;
+}
+
+/**
+ * Lo que no se pudo unir solo: el mismo campo cambiado distinto en dos
+ * recepciones, un socio editado acá y borrado allá, o un cambio que el
+ * servidor rechazó. Mientras no se resuelve, vale lo del servidor.
+ */
+export interface Conflicto {
+  id: string;
+  socioId: string;
+  socioNombre: string;
+  fecha: string;
+  motivo: 'edicion' | 'eliminado' | 'rechazado';
+  campos: CampoEnConflicto[];
+  mio: Socio;
+  detalle?: string;
+}
+
+export interface EstadoSincronizacion {
+  enLinea: boolean;
+  sincronizando: boolean;
+  pendientes: number;
+  conflictos: Conflicto[];
+  ultima: string | null; // Última vez que la cola se vació contra el servidor
+}
+
+const igual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export class SyncLogic {
+  /**
+   * Agrega un cambio a la cola compactándola: dos ediciones seguidas del
+   * mismo socio viajan como una sola (con la base de la primera), y borrar
+   * un alta que nunca llegó al servidor la saca de la cola sin más.
+   */
+  static encolar(cola: Mutacion[], m: Mutacion): Mutacion[] {
+    if (m.tipo === 'guardar_socio') {
+      const previa = cola.findIndex(x => x.tipo === 'guardar_socio' && x.socio.id === m.socio.id);
+      const ultimaDelSocio = [...cola].reverse().find(x => SyncLogic.socioDe(x) === m.socio.id);
+      if (previa >= 0 && ultimaDelSocio === cola[previa]) {
+        // Toma el id nuevo: si la previa se está enviando en este momento, esta no se pierde con ella.
+        return cola.map((x, i) => (i === previa ? { ...x, id: m.id, socio: m.socio, fecha: m.fecha } : x));
+      }
+    }
+    if (m.tipo === 'eliminar_socio') {
+      const altaLocal = cola.some(x => x.tipo === 'guardar_socio' && x.socio.id === m.socioId && x.base === null);
+      const resto = cola.filter(x => !(x.tipo === 'guardar_socio' && x.socio.id === m.socioId));
+      return altaLocal ? resto : [...resto, m];
+    }
+    return [...cola, m];
+  }
+
+  static socioDe(m: Mutacion): string | null {
+    if (m.tipo === 'guardar_socio') return m.socio.id;
+    if (m.tipo === 'eliminar_socio') return m.socioId;
+    return null;
+  }
+
+  /** Después de enviar un socio, lo que quede en cola de ese socio parte de lo enviado. */
+  static rebasar(cola: Mutacion[], enviado: Socio): Mutacion[] {
+    return cola.map(x => (x.tipo === 'guardar_socio' && x.socio.id === enviado.id ? { ...x, base: enviado } : x));
+  }
+
+  /** Lo que ve la pantalla: la copia del servidor con la cola aplicada encima. */
+  static aplicar(servidor: Socio[], cola: Mutacion[]): Socio[] {
+    let socios = servidor;
+    for (const m of cola) {
+      if (m.tipo === 'guardar_socio') {
+        socios = socios.some(s => s.id === m.socio.id)
+          ? socios.map(s => (s.id === m.socio.id ? m.socio : s))
+          : [m.socio, ...socios];
+      } else if (m.tipo === 'eliminar_socio') {
+        socios = socios.filter(s => s.id !== m.socioId);
+      }
+    }
+    return socios;
+  }
+
+  /** Los registros de una colección con la cola aplicada encima, en el orden en que llegaron. */
+  static registros(servidor: Registro[], cola: Mutacion[], coleccion: Coleccion): Registro[] {
+    const soloAgregar = COLECCIONES_SOLO_AGREGAR.includes(coleccion);
+    const registros = new Map(servidor.map(r => [r.id, r]));
+    for (const m of cola) {
+      if (m.tipo !== 'guardar_registros' || m.coleccion !== coleccion) continue;
+      for (const r of m.registros) if (!soloAgregar || !registros.has(r.id)) registros.set(r.id, r);
+    }
+    return [...registros.values()];
+  }
+
+  /** Lo que hay que enviar: los registros nuevos o distintos de los que ya se conocen. */
+  static cambiados<T>(anteriores: Registro<T>[], nuevos: Registro<T>[]): Registro<T>[] {
+    const previos = new Map(anteriores.map(r => [r.id, r.datos]));
+    return nuevos.filter(r => !previos.has(r.id) || !igual(previos.get(r.id), r.datos));
+  }
+
+  static asistencias(servidor: Asistencia[], cola: Mutacion[]): Asistencia[] {
+    const ids = new Set(servidor.map(a => a.id));
+    const locales = cola
+      .flatMap(m => (m.tipo === 'registrar_asistencia' && !ids.has(m.asistencia.id) ? [m.asistencia] : []));
+    return [...locales, ...servidor].sort((a, b) => b.fecha.localeCompare(a.fecha));
+  }
+
+  /**
+   * Fusión de tres vías, campo por campo: lo que cambió solo de un lado se
+   * toma de ese lado; lo que cambió distinto en los dos es un conflicto y
+   * queda el valor del servidor hasta que alguien elija.
+   */
+  static fusionar(base: Socio, mio: Socio, servidor: Socio): { resultado: Socio; campos: CampoEnConflicto[] } {
+    const campos: CampoEnConflicto[] = [];
+    const resultado: Record<string, unknown> = { ...servidor };
+    const claves = new Set([...Object.keys(base), ...Object.keys(mio), ...Object.keys(servidor)]) as Set<keyof Socio>;
+
+    for (const campo of claves) {
+      if (campo === 'id') continue;
+      const cambioMio = !igual(base[campo], mio[campo]);
+      const cambioServidor = !igual(base[campo], servidor[campo]);
+      if (cambioMio && !cambioServidor) {
+        resultado[campo] = mio[campo];
+      } else if (cambioMio && cambioServidor && !igual(mio[campo], servidor[campo])) {
+        campos.push({ campo, mio: mio[campo], servidor: servidor[campo] });
+      }
+    }
+    // Un campo opcional que quedó 'undefined' no debe viajar como clave vacía.
+    for (const campo of Object.keys(resultado)) if (resultado[campo] === undefined) delete resultado[campo];
+    return { resultado: resultado as unknown as Socio, campos };
+  }
+
+  static iguales(a: Socio | null | undefined, b: Socio | null | undefined): boolean {
+    return igual(a ?? null, b ?? null);
+  }
+}
@@ -0,0 +1,8 @@
+import { Asistencia } from '../attendance/attendance';
+
+/** Bitácora de ingresos: solo se agregan eventos, nunca se editan. */
+export interface AsistenciaRepository {
+  /** Devuelve los ingresos, del más reciente al más antiguo. */
+  listar(): Promise<Asistencia[]>;
+  registrar(asistencia: Asistencia): Promise<void>;
+}
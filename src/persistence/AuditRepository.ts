@@ -0,0 +1,10 @@
+import { EventoAuditoria } from '../audit/audit';
+
+/** Log de auditoría: solo se agregan asientos; no hay editar ni eliminar. */
+export interface AuditRepository {
+  registrar(evento: EventoAuditoria): Promise<void>;
+  /** Historial de un socio, del cambio más reciente al más antiguo. */
+  listarPorSocio(socioId: string): Promise<EventoAuditoria[]>;
+  /** Asientos de todos los socios con fecha en [desde, hasta), para los reportes. */
+  listarEntre(desde: Date, hasta: Date): Promise<EventoAuditoria[]>;
+}
@@ -0,0 +1,35 @@
+import { Aviso } from '../notifications/notificaciones';
+
+/**
+ * Registro de avisos a socios, del más reciente al más antiguo. Antes de
+ * mandar, quien revisa reclama las claves de los avisos (socio|clave): las
+ * que devuelve reclamar son suyas y ninguna otra terminal las va a mandar.
+ */
+export interface AvisoRepository {
+  registrar(avisos: Aviso[]): Promise<void>;
+  listar(): Promise<Aviso[]>;
+  reclamar(claves: string[]): Promise<string[]>;
+  liberar(claves: string[]): Promise<void>; // Las de los avisos que fallaron, para reintentarlos
+}
+
+// Un reclamo tiene que durar hasta que el registro de quien mandó el aviso llegue a las demás terminales.
+export const DURACION_RECLAMO_AVISO_MS = 24 * 60 * 60 * 1000;
+
+// Pasado un año el registro se depura: alcanza para no repetir avisos y para consultar.
+export const DIAS_REGISTRO_AVISOS = 365;
+
+export const depurarAvisos = (avisos: Aviso[], ahora: Date): Aviso[] => {
+  const limite = new Date(ahora.getTime() - DIAS_REGISTRO_AVISOS * 24 * 60 * 60 * 1000).toISOString();
+  return avisos.filter(a => a.fecha >= limite);
+};
+
+/** Reclamos guardados como { clave: vence }: los vencidos se descartan y cada clave se entrega una sola vez. */
+export const reclamarClaves = (reclamos: Record<string, number>, claves: string[], ahora: number) => {
+  const vigentes = Object.fromEntries(Object.entries(reclamos).filter(([, vence]) => vence >= ahora));
+  const ganadas = claves.filter(clave => {
+    if (Object.hasOwn(vigentes, clave)) return false;
+    vigentes[clave] = ahora + DURACION_RECLAMO_AVISO_MS;
+    return true;
+  });
+  return { reclamos: vigentes, ganadas };
+};
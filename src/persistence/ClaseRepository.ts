@@ -0,0 +1,7 @@
+import { Clase } from '../classes/clases';
+
+/** Grilla de clases: se guarda como una única lista, igual que las sedes. */
+export interface ClaseRepository {
+  listar(): Promise<Clase[]>;
+  guardar(clases: Clase[]): Promise<void>;
+}
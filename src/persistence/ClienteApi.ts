@@ -0,0 +1,59 @@
+import { ErrorNegocio, esCodigoError, VariablesError } from '../domain/errores';
+
+export const CLAVE_SESION_API = 'fitness_plus_sesion_api';
+
+const esObjeto = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Todo lo que la App le pide al servidor compartido pasa por acá: cada
+ * pedido lleva el token de la sesión (Authorization) y la organización en
+ * la que se trabaja (X-Organizacion). El servidor no le cree al header: lo
+ * contrasta con el usuario del token, y solo el Super Admin puede pedir una
+ * organización que no sea la suya.
+ */
+export class ClienteApi {
+  constructor(
+    readonly baseUrl = '',
+    private readonly organizacionId: string | null = null,
+    private readonly claveSesion = CLAVE_SESION_API
+  ) {}
+
+  token(): string | null {
+    try {
+      const sesion = JSON.parse(localStorage.getItem(this.claveSesion) ?? 'null');
+      return typeof sesion?.token === 'string' ? sesion.token : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async pedir(ruta: string, init?: RequestInit): Promise<Response> {
+    const headers = new Headers(init?.headers);
+    const token = this.token();
+    if (token) headers.set('Authorization', `Bearer ${token}`);
+    if (this.organizacionId) headers.set('X-Organizacion', this.organizacionId);
+    const res = await fetch(`${this.baseUrl}${ruta}`, { ...init, headers });
+    // Sesión vencida o revocada: se olvida, y al recargar se vuelve a pedir el login.
+    if (res.status === 401) localStorage.removeItem(this.claveSesion);
+    if (!res.ok) {
+      const cuerpo: { error?: unknown; codigo?: unknown; variables?: unknown } | null = await res.json().catch(() => null);
+      // Un error de regla de negocio vuelve con su código: la pantalla lo muestra en su idioma.
+      if (esCodigoError(cuerpo?.codigo)) {
+        throw new ErrorNegocio(cuerpo.codigo, esObjeto(cuerpo.variables) ? cuerpo.variables as VariablesError : {});
+      }
+      throw new Error(typeof cuerpo?.error === 'string' ? cuerpo.error : `Servidor respondió ${res.status} en ${ruta}`);
+    }
+    return res;
+  }
+
+  enviar(ruta: string, metodo: 'POST' | 'PUT', cuerpo: unknown): Promise<Response> {
+    return this.pedir(ruta, { method: metodo, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(cuerpo) });
+  }
+
+  /** URL ws:// o wss:// del mismo servidor, con la organización en ?org=. */
+  urlWebSocket(ruta: string): string {
+    const base = new URL(this.baseUrl || window.location.origin);
+    base.protocol = base.protocol === 'https:' ? 'wss:' : 'ws:';
+    return `${base.origin}${ruta}${this.organizacionId ? `?org=${encodeURIComponent(this.organizacionId)}` : ''}`;
+  }
+}
@@ -0,0 +1,7 @@
+import { Empleado } from '../staff/personal';
+
+/** Legajos del personal: lista completa, como las sedes y las clases. */
+export interface EmpleadoRepository {
+  listar(): Promise<Empleado[]>;
+  guardar(empleados: Empleado[]): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Asistencia } from '../attendance/attendance';
+import { AsistenciaRepository } from './AsistenciaRepository';
+import { ClienteApi } from './ClienteApi';
+
+/**
+ * Ingresos en el servidor compartido. Registrar es idempotente (PUT por id):
+ * si una recepción reenvía un ingreso después de un corte, no se duplica.
+ */
+export class HttpAsistenciaRepository implements AsistenciaRepository {
+  constructor(private readonly api: ClienteApi) {}
+
+  async listar(): Promise<Asistencia[]> {
+    const res = await this.api.pedir('/api/asistencias');
+    return res.json();
+  }
+
+  async registrar(asistencia: Asistencia): Promise<void> {
+    await this.api.enviar(`/api/asistencias/${encodeURIComponent(asistencia.id)}`, 'PUT', asistencia);
+  }
+}
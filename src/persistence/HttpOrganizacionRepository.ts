@@ -0,0 +1,20 @@
+import { Organizacion } from '../tenancy/organizacion';
+import { OrganizacionRepository } from './OrganizacionRepository';
+import { ClienteApi } from './ClienteApi';
+
+/**
+ * Catálogo de organizaciones en el servidor. El servidor decide qué se ve:
+ * el Super Admin recibe todas; cualquier otro usuario, solo la suya.
+ */
+export class HttpOrganizacionRepository implements OrganizacionRepository {
+  constructor(private readonly api: ClienteApi) {}
+
+  async listar(): Promise<Organizacion[]> {
+    const res = await this.api.pedir('/api/organizaciones');
+    return res.json();
+  }
+
+  async guardar(organizacion: Organizacion): Promise<void> {
+    await this.api.enviar(`/api/organizaciones/${encodeURIComponent(organizacion.id)}`, 'PUT', organizacion);
+  }
+}
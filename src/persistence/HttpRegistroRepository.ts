@@ -0,0 +1,21 @@
+import { Coleccion, Registro } from '../offline/sincronizacion';
+import { RegistroRepository } from './RegistroRepository';
+import { ClienteApi } from './ClienteApi';
+
+// El servidor rechaza cuerpos de más de 1 MB: la primera subida de un libro grande va en tandas.
+const POR_TANDA = 500;
+
+export class HttpRegistroRepository implements RegistroRepository {
+  constructor(private readonly api: ClienteApi) {}
+
+  async listar(coleccion: Coleccion): Promise<Registro[]> {
+    const res = await this.api.pedir(`/api/registros/${coleccion}`);
+    return res.json();
+  }
+
+  async guardar(coleccion: Coleccion, registros: Registro[]): Promise<void> {
+    for (let i = 0; i < registros.length; i += POR_TANDA) {
+      await this.api.enviar(`/api/registros/${coleccion}`, 'PUT', registros.slice(i, i + POR_TANDA));
+    }
+  }
+}
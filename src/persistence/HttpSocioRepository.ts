@@ -0,0 +1,49 @@
+import { Socio } from '../domain/socio';
+import { SocioRepository } from './SocioRepository';
+import { cargarSocios, RegistroEnCuarentena, VERSION_ACTUAL } from './schema';
+import { ClienteApi } from './ClienteApi';
+
+/**
+ * Habla con el servidor local (server/index.ts). Todas las recepciones que
+ * apunten a la misma URL comparten el mismo padrón. El servidor guarda la
+ * versión de cada registro y la migración corre de este lado, al listar.
+ * Cada pedido viaja con el token de la sesión; el servidor solo devuelve y
+ * modifica filas de la organización de ese usuario.
+ */
+export class HttpSocioRepository implements SocioRepository {
+  private ultimaCuarentena: RegistroEnCuarentena[] = [];
+
+  constructor(private readonly api: ClienteApi) {}
+
+  async listar(): Promise<Socio[]> {
+    const res = await this.api.pedir('/api/socios');
+    const filas: { version: number; socio: unknown }[] = await res.json();
+
+    const socios: Socio[] = [];
+    const cuarentena: RegistroEnCuarentena[] = [];
+    for (const fila of filas) {
+      const resultado = cargarSocios([fila.socio], fila.version);
+      socios.push(...resultado.socios);
+      cuarentena.push(...resultado.cuarentena);
+    }
+    this.ultimaCuarentena = cuarentena;
+    return socios;
+  }
+
+  async guardar(socio: Socio): Promise<void> {
+    await this.api.pedir(`/api/socios/${encodeURIComponent(socio.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Schema-Version': String(VERSION_ACTUAL) },
+      body: JSON.stringify(socio)
+    });
+  }
+
+  async eliminar(id: string): Promise<void> {
+    await this.api.pedir(`/api/socios/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+
+  // Los registros inválidos quedan en el servidor: otra terminal más nueva podría leerlos.
+  async cuarentena(): Promise<RegistroEnCuarentena[]> {
+    return this.ultimaCuarentena;
+  }
+}
@@ -0,0 +1,18 @@
+import { Asistencia } from '../attendance/attendance';
+import { AsistenciaRepository } from './AsistenciaRepository';
+
+export class InMemoryAsistenciaRepository implements AsistenciaRepository {
+  private asistencias: Asistencia[];
+
+  constructor(iniciales: Asistencia[] = []) {
+    this.asistencias = [...iniciales];
+  }
+
+  async listar(): Promise<Asistencia[]> {
+    return [...this.asistencias];
+  }
+
+  async registrar(asistencia: Asistencia): Promise<void> {
+    this.asistencias.unshift(asistencia);
+  }
+}
@@ -0,0 +1,20 @@
+import { EventoAuditoria } from '../audit/audit';
+import { AuditRepository } from './AuditRepository';
+
+export class InMemoryAuditRepository implements AuditRepository {
+  private eventos: EventoAuditoria[] = [];
+
+  async registrar(evento: EventoAuditoria): Promise<void> {
+    this.eventos.unshift(evento);
+  }
+
+  async listarPorSocio(socioId: string): Promise<EventoAuditoria[]> {
+    return this.eventos.filter(e => e.socioId === socioId);
+  }
+
+  async listarEntre(desde: Date, hasta: Date): Promise<EventoAuditoria[]> {
+    const inicio = desde.toISOString();
+    const fin = hasta.toISOString();
+    return this.eventos.filter(e => e.fecha >= inicio && e.fecha < fin);
+  }
+}
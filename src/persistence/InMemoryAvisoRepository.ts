@@ -0,0 +1,25 @@
+import { Aviso } from '../notifications/notificaciones';
+import { AvisoRepository, depurarAvisos, reclamarClaves } from './AvisoRepository';
+
+export class InMemoryAvisoRepository implements AvisoRepository {
+  private avisos: Aviso[] = [];
+  private reclamos: Record<string, number> = {};
+
+  async registrar(avisos: Aviso[]): Promise<void> {
+    this.avisos = depurarAvisos([...avisos, ...this.avisos], new Date());
+  }
+
+  async listar(): Promise<Aviso[]> {
+    return [...this.avisos];
+  }
+
+  async reclamar(claves: string[]): Promise<string[]> {
+    const { reclamos, ganadas } = reclamarClaves(this.reclamos, claves, Date.now());
+    this.reclamos = reclamos;
+    return ganadas;
+  }
+
+  async liberar(claves: string[]): Promise<void> {
+    claves.forEach(clave => delete this.reclamos[clave]);
+  }
+}
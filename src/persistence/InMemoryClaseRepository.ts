@@ -0,0 +1,14 @@
+import { Clase } from '../classes/clases';
+import { ClaseRepository } from './ClaseRepository';
+
+export class InMemoryClaseRepository implements ClaseRepository {
+  constructor(private clases: Clase[] = []) {}
+
+  async listar(): Promise<Clase[]> {
+    return this.clases;
+  }
+
+  async guardar(clases: Clase[]): Promise<void> {
+    this.clases = clases;
+  }
+}
@@ -0,0 +1,14 @@
+import { Empleado } from '../staff/personal';
+import { EmpleadoRepository } from './EmpleadoRepository';
+
+export class InMemoryEmpleadoRepository implements EmpleadoRepository {
+  constructor(private empleados: Empleado[] = []) {}
+
+  async listar(): Promise<Empleado[]> {
+    return this.empleados;
+  }
+
+  async guardar(empleados: Empleado[]): Promise<void> {
+    this.empleados = empleados;
+  }
+}
@@ -0,0 +1,14 @@
+import { Insight } from '../consultant/consultor';
+import { InsightRepository, MAX_INSIGHTS } from './InsightRepository';
+
+export class InMemoryInsightRepository implements InsightRepository {
+  private insights: Insight[] = [];
+
+  async registrar(insight: Insight): Promise<void> {
+    this.insights = [insight, ...this.insights].slice(0, MAX_INSIGHTS);
+  }
+
+  async listar(): Promise<Insight[]> {
+    return this.insights;
+  }
+}
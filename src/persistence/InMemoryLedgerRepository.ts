@@ -0,0 +1,14 @@
+import { LEDGER_VACIO, LedgerFacturacion } from '../billing/billing';
+import { LedgerRepository } from './LedgerRepository';
+
+export class InMemoryLedgerRepository implements LedgerRepository {
+  constructor(private ledger: LedgerFacturacion = LEDGER_VACIO) {}
+
+  async obtener(): Promise<LedgerFacturacion> {
+    return this.ledger;
+  }
+
+  async guardar(ledger: LedgerFacturacion): Promise<void> {
+    this.ledger = ledger;
+  }
+}
@@ -0,0 +1,14 @@
+import { CONFIG_NOTIFICACIONES_POR_DEFECTO, ConfigNotificaciones } from '../notifications/notificaciones';
+import { NotificacionesRepository } from './NotificacionesRepository';
+
+export class InMemoryNotificacionesRepository implements NotificacionesRepository {
+  constructor(private config: ConfigNotificaciones = CONFIG_NOTIFICACIONES_POR_DEFECTO) {}
+
+  async obtener(): Promise<ConfigNotificaciones> {
+    return this.config;
+  }
+
+  async guardar(config: ConfigNotificaciones): Promise<void> {
+    this.config = config;
+  }
+}
@@ -0,0 +1,18 @@
+import { ORGANIZACION_PRINCIPAL, Organizacion } from '../tenancy/organizacion';
+import { OrganizacionRepository } from './OrganizacionRepository';
+
+export class InMemoryOrganizacionRepository implements OrganizacionRepository {
+  private organizaciones: Organizacion[];
+
+  constructor(iniciales: Organizacion[] = [ORGANIZACION_PRINCIPAL]) {
+    this.organizaciones = [...iniciales];
+  }
+
+  async listar(): Promise<Organizacion[]> {
+    return [...this.organizaciones];
+  }
+
+  async guardar(organizacion: Organizacion): Promise<void> {
+    this.organizaciones = [...this.organizaciones.filter(o => o.id !== organizacion.id), organizacion];
+  }
+}
@@ -0,0 +1,14 @@
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+import { PreciosRepository } from './PreciosRepository';
+
+export class InMemoryPreciosRepository implements PreciosRepository {
+  constructor(private config: ConfigPrecios = PRECIOS_POR_DEFECTO) {}
+
+  async obtener(): Promise<ConfigPrecios> {
+    return this.config;
+  }
+
+  async guardar(config: ConfigPrecios): Promise<void> {
+    this.config = config;
+  }
+}
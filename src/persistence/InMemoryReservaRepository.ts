@@ -0,0 +1,15 @@
+import { Reserva } from '../classes/clases';
+import { ReservaRepository } from './ReservaRepository';
+
+export class InMemoryReservaRepository implements ReservaRepository {
+  private reservas: Reserva[] = [];
+
+  async listar(): Promise<Reserva[]> {
+    return [...this.reservas];
+  }
+
+  async guardar(reservas: Reserva[]): Promise<void> {
+    const ids = new Set(reservas.map(r => r.id));
+    this.reservas = [...this.reservas.filter(r => !ids.has(r.id)), ...reservas];
+  }
+}
@@ -0,0 +1,14 @@
+import { Sede, SEDES_POR_DEFECTO } from '../domain/sede';
+import { SedeRepository } from './SedeRepository';
+
+export class InMemorySedeRepository implements SedeRepository {
+  constructor(private sedes: Sede[] = SEDES_POR_DEFECTO) {}
+
+  async listar(): Promise<Sede[]> {
+    return this.sedes;
+  }
+
+  async guardar(sedes: Sede[]): Promise<void> {
+    this.sedes = sedes;
+  }
+}
@@ -0,0 +1,30 @@
+import { Socio } from '../domain/socio';
+import { SocioRepository } from './SocioRepository';
+import { RegistroEnCuarentena } from './schema';
+
+// Sin persistencia: ideal para pruebas de la UI y demos que no deben dejar rastro.
+export class InMemorySocioRepository implements SocioRepository {
+  private socios: Socio[];
+
+  constructor(iniciales: Socio[] = []) {
+    this.socios = [...iniciales];
+  }
+
+  async listar(): Promise<Socio[]> {
+    return [...this.socios];
+  }
+
+  async guardar(socio: Socio): Promise<void> {
+    const idx = this.socios.findIndex(s => s.id === socio.id);
+    if (idx >= 0) this.socios[idx] = socio;
+    else this.socios.unshift(socio);
+  }
+
+  async eliminar(id: string): Promise<void> {
+    this.socios = this.socios.filter(s => s.id !== id);
+  }
+
+  async cuarentena(): Promise<RegistroEnCuarentena[]> {
+    return [];
+  }
+}
@@ -0,0 +1,14 @@
+import { SolicitudPlan } from '../portal/portal';
+import { SolicitudRepository } from './SolicitudRepository';
+
+export class InMemorySolicitudRepository implements SolicitudRepository {
+  private solicitudes: SolicitudPlan[] = [];
+
+  async listar(): Promise<SolicitudPlan[]> {
+    return [...this.solicitudes];
+  }
+
+  async guardar(solicitud: SolicitudPlan): Promise<void> {
+    this.solicitudes = [solicitud, ...this.solicitudes.filter(s => s.id !== solicitud.id)];
+  }
+}
@@ -0,0 +1,94 @@
+import { Socio } from '../domain/socio';
+import { SocioRepository } from './SocioRepository';
+import { cargarSocios, RegistroEnCuarentena, VERSION_ACTUAL } from './schema';
+
+interface RegistroSocio {
+  id: string;
+  orden: number;
+  version?: number; // Ausente en registros anteriores al versionado (v3)
+  socio: unknown;
+}
+
+const STORE = 'socios';
+const STORE_CUARENTENA = 'cuarentena';
+
+// IndexedDB habla con callbacks (onsuccess/onerror); lo envolvemos en Promesas.
+const promesa = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/**
+ * Base de datos del navegador: soporta padrones mucho más grandes que
+ * localStorage y no bloquea la pantalla al leer o escribir. Cada registro
+ * lleva su versión; al listar se migran y los inválidos se mueven al
+ * store de cuarentena.
+ */
+export class IndexedDbSocioRepository implements SocioRepository {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly nombreDb = 'fitness_plus') {}
+
+  async listar(): Promise<Socio[]> {
+    const tx = await this.transaccion('readwrite');
+    const store = tx.objectStore(STORE);
+    const registros = await promesa<RegistroSocio[]>(store.index('orden').getAll());
+
+    const socios: Socio[] = [];
+    for (const r of registros.reverse()) {
+      const version = r.version ?? 3;
+      const resultado = cargarSocios([r.socio], version);
+      if (resultado.socios.length > 0) {
+        socios.push(resultado.socios[0]);
+        if (version !== VERSION_ACTUAL) {
+          await promesa(store.put({ ...r, version: VERSION_ACTUAL, socio: resultado.socios[0] }));
+        }
+      } else {
+        await promesa(tx.objectStore(STORE_CUARENTENA).add(resultado.cuarentena[0]));
+        await promesa(store.delete(r.id));
+      }
+    }
+    return socios;
+  }
+
+  async guardar(socio: Socio): Promise<void> {
+    const store = (await this.transaccion('readwrite')).objectStore(STORE);
+    const previo = await promesa<RegistroSocio | undefined>(store.get(socio.id));
+    // Conservamos el orden original al editar, para no "subir" al socio en la lista.
+    const registro: RegistroSocio = { id: socio.id, orden: previo?.orden ?? Date.now(), version: VERSION_ACTUAL, socio };
+    await promesa(store.put(registro));
+  }
+
+  async eliminar(id: string): Promise<void> {
+    const store = (await this.transaccion('readwrite')).objectStore(STORE);
+    await promesa(store.delete(id));
+  }
+
+  async cuarentena(): Promise<RegistroEnCuarentena[]> {
+    const store = (await this.transaccion('readonly')).objectStore(STORE_CUARENTENA);
+    return promesa<RegistroEnCuarentena[]>(store.getAll());
+  }
+
+  private async transaccion(modo: IDBTransactionMode): Promise<IDBTransaction> {
+    const db = await this.abrir();
+    return db.transaction([STORE, STORE_CUARENTENA], modo);
+  }
+
+  private abrir(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = indexedDB.open(this.nombreDb, 2);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('orden', 'orden');
+        }
+        if (!db.objectStoreNames.contains(STORE_CUARENTENA)) {
+          db.createObjectStore(STORE_CUARENTENA, { autoIncrement: true });
+        }
+      };
+      this.db = promesa(req);
+    }
+    return this.db;
+  }
+}
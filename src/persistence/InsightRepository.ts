@@ -0,0 +1,10 @@
+import { Insight } from '../consultant/consultor';
+
+/** Historial de análisis del consultor, del más reciente al más antiguo. */
+export interface InsightRepository {
+  registrar(insight: Insight): Promise<void>;
+  listar(): Promise<Insight[]>;
+}
+
+// Guardamos solo los últimos análisis: el historial es para comparar, no un archivo.
+export const MAX_INSIGHTS = 20;
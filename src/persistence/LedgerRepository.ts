@@ -0,0 +1,7 @@
+import { LedgerFacturacion } from '../billing/billing';
+
+/** Libro de cobranzas: ciclos, facturas y pagos se guardan como un único documento. */
+export interface LedgerRepository {
+  obtener(): Promise<LedgerFacturacion>;
+  guardar(ledger: LedgerFacturacion): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Asistencia } from '../attendance/attendance';
+import { AsistenciaRepository } from './AsistenciaRepository';
+
+export class LocalStorageAsistenciaRepository implements AsistenciaRepository {
+  constructor(private readonly clave = 'fitness_plus_asistencias_v1') {}
+
+  async listar(): Promise<Asistencia[]> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async registrar(asistencia: Asistencia): Promise<void> {
+    const asistencias = await this.listar();
+    localStorage.setItem(this.clave, JSON.stringify([asistencia, ...asistencias]));
+  }
+}
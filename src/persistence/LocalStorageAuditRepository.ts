@@ -0,0 +1,29 @@
+import { EventoAuditoria } from '../audit/audit';
+import { AuditRepository } from './AuditRepository';
+
+export class LocalStorageAuditRepository implements AuditRepository {
+  constructor(private readonly clave = 'fitness_plus_auditoria_v1') {}
+
+  async registrar(evento: EventoAuditoria): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify([evento, ...this.leer()]));
+  }
+
+  async listarPorSocio(socioId: string): Promise<EventoAuditoria[]> {
+    return this.leer().filter(e => e.socioId === socioId);
+  }
+
+  async listarEntre(desde: Date, hasta: Date): Promise<EventoAuditoria[]> {
+    const inicio = desde.toISOString();
+    const fin = hasta.toISOString();
+    return this.leer().filter(e => e.fecha >= inicio && e.fecha < fin);
+  }
+
+  private leer(): EventoAuditoria[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { Aviso } from '../notifications/notificaciones';
+import { AvisoRepository, depurarAvisos, reclamarClaves } from './AvisoRepository';
+
+// Sin servidor la única terminal es este navegador: los reclamos cubren dos pestañas abiertas a la vez.
+export class LocalStorageAvisoRepository implements AvisoRepository {
+  constructor(private readonly clave = 'fitness_plus_avisos_v1') {}
+
+  async registrar(avisos: Aviso[]): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(depurarAvisos([...avisos, ...this.leer()], new Date())));
+  }
+
+  async listar(): Promise<Aviso[]> {
+    return this.leer();
+  }
+
+  async reclamar(claves: string[]): Promise<string[]> {
+    const { reclamos, ganadas } = reclamarClaves(this.leerReclamos(), claves, Date.now());
+    localStorage.setItem(`${this.clave}_reclamos`, JSON.stringify(reclamos));
+    return ganadas;
+  }
+
+  async liberar(claves: string[]): Promise<void> {
+    const reclamos = this.leerReclamos();
+    claves.forEach(clave => delete reclamos[clave]);
+    localStorage.setItem(`${this.clave}_reclamos`, JSON.stringify(reclamos));
+  }
+
+  private leer(): Aviso[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private leerReclamos(): Record<string, number> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(`${this.clave}_reclamos`) ?? '{}');
+      return typeof datos === 'object' && datos !== null && !Array.isArray(datos) ? datos : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { Clase } from '../classes/clases';
+import { ClaseRepository } from './ClaseRepository';
+
+export class LocalStorageClaseRepository implements ClaseRepository {
+  constructor(private readonly clave = 'fitness_plus_clases_v1') {}
+
+  async listar(): Promise<Clase[]> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch (e) {
+      console.error("Grilla de clases ilegible:", e);
+      return [];
+    }
+  }
+
+  async guardar(clases: Clase[]): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(clases));
+  }
+}
@@ -0,0 +1,20 @@
+import { Empleado } from '../staff/personal';
+import { EmpleadoRepository } from './EmpleadoRepository';
+
+export class LocalStorageEmpleadoRepository implements EmpleadoRepository {
+  constructor(private readonly clave = 'fitness_plus_personal_v1') {}
+
+  async listar(): Promise<Empleado[]> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch (e) {
+      console.error("Legajos del personal ilegibles:", e);
+      return [];
+    }
+  }
+
+  async guardar(empleados: Empleado[]): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(empleados));
+  }
+}
@@ -0,0 +1,23 @@
+import { Insight } from '../consultant/consultor';
+import { InsightRepository, MAX_INSIGHTS } from './InsightRepository';
+
+export class LocalStorageInsightRepository implements InsightRepository {
+  constructor(private readonly clave = 'fitness_plus_insights_v1') {}
+
+  async registrar(insight: Insight): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify([insight, ...this.leer()].slice(0, MAX_INSIGHTS)));
+  }
+
+  async listar(): Promise<Insight[]> {
+    return this.leer();
+  }
+
+  private leer(): Insight[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+}
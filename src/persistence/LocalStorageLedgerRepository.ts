@@ -0,0 +1,20 @@
+import { LEDGER_VACIO, LedgerFacturacion } from '../billing/billing';
+import { LedgerRepository } from './LedgerRepository';
+
+export class LocalStorageLedgerRepository implements LedgerRepository {
+  constructor(private readonly clave = 'fitness_plus_billing_v1') {}
+
+  async obtener(): Promise<LedgerFacturacion> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? 'null');
+      if (datos && Array.isArray(datos.facturas)) return datos;
+    } catch (e) {
+      console.error("Libro de cobranzas ilegible, se empieza vacío:", e);
+    }
+    return LEDGER_VACIO;
+  }
+
+  async guardar(ledger: LedgerFacturacion): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(ledger));
+  }
+}
@@ -0,0 +1,27 @@
+import { CONFIG_NOTIFICACIONES_POR_DEFECTO, ConfigNotificaciones } from '../notifications/notificaciones';
+import { NotificacionesRepository } from './NotificacionesRepository';
+
+export class LocalStorageNotificacionesRepository implements NotificacionesRepository {
+  constructor(private readonly clave = 'fitness_plus_notificaciones_v1') {}
+
+  // Las plantillas que falten (tipos de aviso nuevos) se completan con las de fábrica.
+  async obtener(): Promise<ConfigNotificaciones> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? 'null');
+      if (datos && typeof datos.plantillas === 'object') {
+        return {
+          ...CONFIG_NOTIFICACIONES_POR_DEFECTO,
+          ...datos,
+          plantillas: { ...CONFIG_NOTIFICACIONES_POR_DEFECTO.plantillas, ...datos.plantillas }
+        };
+      }
+    } catch (e) {
+      console.error("Configuración de avisos ilegible, usando valores de fábrica:", e);
+    }
+    return CONFIG_NOTIFICACIONES_POR_DEFECTO;
+  }
+
+  async guardar(config: ConfigNotificaciones): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(config));
+  }
+}
@@ -0,0 +1,29 @@
+import { ORGANIZACION_PRINCIPAL, Organizacion } from '../tenancy/organizacion';
+import { OrganizacionRepository } from './OrganizacionRepository';
+
+export class LocalStorageOrganizacionRepository implements OrganizacionRepository {
+  constructor(private readonly clave = 'fitness_plus_organizaciones') {}
+
+  // La principal existe siempre, aunque nunca se haya guardado el catálogo.
+  async listar(): Promise<Organizacion[]> {
+    const guardadas = this.leer();
+    return guardadas.some(o => o.id === ORGANIZACION_PRINCIPAL.id) ? guardadas : [ORGANIZACION_PRINCIPAL, ...guardadas];
+  }
+
+  async guardar(organizacion: Organizacion): Promise<void> {
+    const todas = await this.listar();
+    const idx = todas.findIndex(o => o.id === organizacion.id);
+    if (idx >= 0) todas[idx] = organizacion;
+    else todas.push(organizacion);
+    localStorage.setItem(this.clave, JSON.stringify(todas));
+  }
+
+  private leer(): Organizacion[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+import { PreciosRepository } from './PreciosRepository';
+
+export class LocalStoragePreciosRepository implements PreciosRepository {
+  constructor(private readonly clave = 'fitness_plus_precios_v1') {}
+
+  // Sin configuración guardada (o ilegible) se usan los precios de fábrica.
+  async obtener(): Promise<ConfigPrecios> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? 'null');
+      if (datos && Array.isArray(datos.planes) && Array.isArray(datos.reglas)) return datos;
+    } catch (e) {
+      console.error("Configuración de precios ilegible, usando valores de fábrica:", e);
+    }
+    return PRECIOS_POR_DEFECTO;
+  }
+
+  async guardar(config: ConfigPrecios): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(config));
+  }
+}
@@ -0,0 +1,24 @@
+import { Reserva } from '../classes/clases';
+import { ReservaRepository } from './ReservaRepository';
+
+export class LocalStorageReservaRepository implements ReservaRepository {
+  constructor(private readonly clave = 'fitness_plus_reservas_v1') {}
+
+  async listar(): Promise<Reserva[]> {
+    return this.leer();
+  }
+
+  async guardar(reservas: Reserva[]): Promise<void> {
+    const ids = new Set(reservas.map(r => r.id));
+    localStorage.setItem(this.clave, JSON.stringify([...this.leer().filter(r => !ids.has(r.id)), ...reservas]));
+  }
+
+  private leer(): Reserva[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { Sede, SEDES_POR_DEFECTO } from '../domain/sede';
+import { SedeRepository } from './SedeRepository';
+
+export class LocalStorageSedeRepository implements SedeRepository {
+  constructor(private readonly clave = 'fitness_plus_sedes_v1') {}
+
+  // Sin sedes guardadas (o ilegibles) arrancamos con las cuatro históricas.
+  async listar(): Promise<Sede[]> {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? 'null');
+      if (Array.isArray(datos) && datos.length > 0) return datos;
+    } catch (e) {
+      console.error("Sedes ilegibles, usando las de fábrica:", e);
+    }
+    return SEDES_POR_DEFECTO;
+  }
+
+  async guardar(sedes: Sede[]): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify(sedes));
+  }
+}
@@ -0,0 +1,85 @@
+import { Socio } from '../domain/socio';
+import { SocioRepository } from './SocioRepository';
+import { cargarSocios, RegistroEnCuarentena, SobreVersionado, VERSION_ACTUAL } from './schema';
+
+// Claves usadas por versiones anteriores, de la más nueva a la más vieja.
+const CLAVES_LEGADAS: [string, number][] = [
+  ['fitness_plus_elite_v3', 3],
+  ['fitness_plus_elite_v2', 2],
+  ['fitness_plus_elite_v1', 1]
+];
+
+/**
+ * En C usarías fopen/fwrite. En la web usamos localStorage: el padrón se
+ * serializa dentro de un sobre versionado bajo una única clave. Si solo
+ * existe una clave vieja, se migra en la primera lectura (la vieja queda
+ * intacta como respaldo).
+ */
+export class LocalStorageSocioRepository implements SocioRepository {
+  constructor(
+    private readonly clave = 'fitness_plus_elite',
+    private readonly migrarLegadas = true
+  ) {}
+
+  async listar(): Promise<Socio[]> {
+    return this.leer().socios;
+  }
+
+  async guardar(socio: Socio): Promise<void> {
+    const { socios, cuarentena } = this.leer();
+    const idx = socios.findIndex(s => s.id === socio.id);
+    if (idx >= 0) socios[idx] = socio;
+    else socios.unshift(socio);
+    this.escribir(socios, cuarentena);
+  }
+
+  async eliminar(id: string): Promise<void> {
+    const { socios, cuarentena } = this.leer();
+    this.escribir(socios.filter(s => s.id !== id), cuarentena);
+  }
+
+  async cuarentena(): Promise<RegistroEnCuarentena[]> {
+    return this.leer().cuarentena;
+  }
+
+  private leer(): { socios: Socio[]; cuarentena: RegistroEnCuarentena[] } {
+    const saved = localStorage.getItem(this.clave);
+    const legada = saved || !this.migrarLegadas ? null : CLAVES_LEGADAS.find(([clave]) => localStorage.getItem(clave) !== null);
+    const crudo = saved ?? (legada ? localStorage.getItem(legada[0]) : null);
+    if (crudo === null) return { socios: [], cuarentena: [] };
+
+    let previa: RegistroEnCuarentena[] = [];
+    let registros: unknown[];
+    let version: number;
+    try {
+      const datos = JSON.parse(crudo);
+      if (Array.isArray(datos)) {
+        // Arreglo suelto: formato anterior al sobre.
+        registros = datos;
+        version = legada ? legada[1] : 3;
+      } else {
+        const sobre = datos as SobreVersionado;
+        registros = Array.isArray(sobre.socios) ? sobre.socios : [];
+        version = typeof sobre.version === 'number' ? sobre.version : VERSION_ACTUAL;
+        previa = Array.isArray(sobre.cuarentena) ? sobre.cuarentena : [];
+      }
+    } catch {
+      const motivo = 'JSON ilegible';
+      const cuarentena = [{ registro: crudo, version: 0, motivo, fecha: new Date().toISOString() }];
+      this.escribir([], cuarentena);
+      return { socios: [], cuarentena };
+    }
+
+    const resultado = cargarSocios(registros, version);
+    const cuarentena = [...previa, ...resultado.cuarentena];
+    if (!saved || version !== VERSION_ACTUAL || resultado.cuarentena.length > 0) {
+      this.escribir(resultado.socios, cuarentena);
+    }
+    return { socios: resultado.socios, cuarentena };
+  }
+
+  private escribir(socios: Socio[], cuarentena: RegistroEnCuarentena[]) {
+    const sobre: SobreVersionado = { version: VERSION_ACTUAL, socios, cuarentena };
+    localStorage.setItem(this.clave, JSON.stringify(sobre));
+  }
+}
@@ -0,0 +1,23 @@
+import { SolicitudPlan } from '../portal/portal';
+import { SolicitudRepository } from './SolicitudRepository';
+
+export class LocalStorageSolicitudRepository implements SolicitudRepository {
+  constructor(private readonly clave = 'fitness_plus_solicitudes_v1') {}
+
+  async listar(): Promise<SolicitudPlan[]> {
+    return this.leer();
+  }
+
+  async guardar(solicitud: SolicitudPlan): Promise<void> {
+    localStorage.setItem(this.clave, JSON.stringify([solicitud, ...this.leer().filter(s => s.id !== solicitud.id)]));
+  }
+
+  private leer(): SolicitudPlan[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.clave) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+}
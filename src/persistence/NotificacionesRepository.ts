@@ -0,0 +1,7 @@
+import { ConfigNotificaciones } from '../notifications/notificaciones';
+
+/** Plantillas y plazos de los avisos automáticos: un único documento, como los precios. */
+export interface NotificacionesRepository {
+  obtener(): Promise<ConfigNotificaciones>;
+  guardar(config: ConfigNotificaciones): Promise<void>;
+}
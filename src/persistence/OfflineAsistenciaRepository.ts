@@ -0,0 +1,16 @@
+import { Asistencia } from '../attendance/attendance';
+import { AsistenciaRepository } from './AsistenciaRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+/** Ingresos del servidor con la misma cola que el padrón: el molinete no se frena por un corte. */
+export class OfflineAsistenciaRepository implements AsistenciaRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  listar(): Promise<Asistencia[]> {
+    return this.sincronizador.listarAsistencias();
+  }
+
+  async registrar(asistencia: Asistencia): Promise<void> {
+    this.sincronizador.encolar({ id: crypto.randomUUID(), fecha: asistencia.fecha, tipo: 'registrar_asistencia', asistencia });
+  }
+}
@@ -0,0 +1,27 @@
+import { EventoAuditoria } from '../audit/audit';
+import { AuditRepository } from './AuditRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+/** La auditoría de todas las recepciones en un solo log, con la cola del Sincronizador. */
+export class OfflineAuditRepository implements AuditRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async registrar(evento: EventoAuditoria): Promise<void> {
+    this.sincronizador.guardarRegistros('auditoria', [{ id: evento.id, datos: evento }]);
+  }
+
+  async listarPorSocio(socioId: string): Promise<EventoAuditoria[]> {
+    return (await this.leer()).filter(e => e.socioId === socioId);
+  }
+
+  async listarEntre(desde: Date, hasta: Date): Promise<EventoAuditoria[]> {
+    const inicio = desde.toISOString();
+    const fin = hasta.toISOString();
+    return (await this.leer()).filter(e => e.fecha >= inicio && e.fecha < fin);
+  }
+
+  private async leer(): Promise<EventoAuditoria[]> {
+    const registros = await this.sincronizador.listarRegistros('auditoria');
+    return registros.map(r => r.datos as EventoAuditoria).sort((a, b) => b.fecha.localeCompare(a.fecha));
+  }
+}
@@ -0,0 +1,44 @@
+import { Aviso } from '../notifications/notificaciones';
+import { AvisoRepository, depurarAvisos } from './AvisoRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+import { ClienteApi } from './ClienteApi';
+
+/**
+ * Registro de avisos compartido: un aviso que mandó otra recepción no se
+ * vuelve a mandar. Los reclamos los reparte el servidor; sin conexión no se
+ * reclama nada y los avisos esperan a la próxima revisión.
+ */
+export class OfflineAvisoRepository implements AvisoRepository {
+  constructor(
+    private readonly sincronizador: Sincronizador,
+    private readonly api: ClienteApi
+  ) {}
+
+  async registrar(avisos: Aviso[]): Promise<void> {
+    this.sincronizador.guardarRegistros('avisos', avisos.map(a => ({ id: a.id, datos: a })));
+  }
+
+  async listar(): Promise<Aviso[]> {
+    const registros = await this.sincronizador.listarRegistros('avisos');
+    const avisos = registros.map(r => r.datos as Aviso).sort((a, b) => b.fecha.localeCompare(a.fecha));
+    return depurarAvisos(avisos, new Date());
+  }
+
+  async reclamar(claves: string[]): Promise<string[]> {
+    if (claves.length === 0) return [];
+    try {
+      const res = await this.api.enviar('/api/avisos/reclamar', 'POST', { claves });
+      const { claves: ganadas } = await res.json();
+      return Array.isArray(ganadas) ? ganadas : [];
+    } catch (e) {
+      if (e instanceof TypeError) return [];
+      throw e;
+    }
+  }
+
+  // Si no llega, el reclamo vence solo y el aviso se reintenta al día siguiente.
+  async liberar(claves: string[]): Promise<void> {
+    if (claves.length === 0) return;
+    await this.api.enviar('/api/avisos/liberar', 'POST', { claves }).catch(e => console.error("No se pudieron liberar los avisos:", e));
+  }
+}
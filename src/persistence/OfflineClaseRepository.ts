@@ -0,0 +1,17 @@
+import { Clase } from '../classes/clases';
+import { ClaseRepository } from './ClaseRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+export class OfflineClaseRepository implements ClaseRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async listar(): Promise<Clase[]> {
+    const registros = await this.sincronizador.listarRegistros('configuracion');
+    const clases = registros.find(r => r.id === 'clases')?.datos;
+    return Array.isArray(clases) ? clases : [];
+  }
+
+  async guardar(clases: Clase[]): Promise<void> {
+    this.sincronizador.guardarRegistros('configuracion', [{ id: 'clases', datos: clases }]);
+  }
+}
@@ -0,0 +1,17 @@
+import { Empleado } from '../staff/personal';
+import { EmpleadoRepository } from './EmpleadoRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+export class OfflineEmpleadoRepository implements EmpleadoRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async listar(): Promise<Empleado[]> {
+    const registros = await this.sincronizador.listarRegistros('configuracion');
+    const empleados = registros.find(r => r.id === 'personal')?.datos;
+    return Array.isArray(empleados) ? empleados : [];
+  }
+
+  async guardar(empleados: Empleado[]): Promise<void> {
+    this.sincronizador.guardarRegistros('configuracion', [{ id: 'personal', datos: empleados }]);
+  }
+}
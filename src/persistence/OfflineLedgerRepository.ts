@@ -0,0 +1,38 @@
+import { CicloFacturacion, Factura, LedgerFacturacion, Pago } from '../billing/billing';
+import { LedgerRepository } from './LedgerRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+import { Registro, SyncLogic } from '../offline/sincronizacion';
+
+const ciclos = (l: LedgerFacturacion): Registro<CicloFacturacion>[] => l.ciclos.map(c => ({ id: c.socioId, datos: c }));
+const facturas = (l: LedgerFacturacion): Registro<Factura>[] => l.facturas.map(f => ({ id: f.id, datos: f }));
+const pagos = (l: LedgerFacturacion): Registro<Pago>[] => l.pagos.map(p => ({ id: p.id, datos: p }));
+
+/**
+ * El libro de cobranzas compartido por todas las recepciones. Para la App
+ * sigue siendo un único documento, pero viaja como tres colecciones
+ * (ciclos, facturas y pagos): al guardar se encola solo lo que cambió, así
+ * dos recepciones que cobran a la vez no se pisan el libro entero.
+ */
+export class OfflineLedgerRepository implements LedgerRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async obtener(): Promise<LedgerFacturacion> {
+    const [c, f, p] = await Promise.all([
+      this.sincronizador.listarRegistros('ciclos'),
+      this.sincronizador.listarRegistros('facturas'),
+      this.sincronizador.listarRegistros('pagos')
+    ]);
+    return {
+      ciclos: c.map(r => r.datos as CicloFacturacion),
+      facturas: f.map(r => r.datos as Factura),
+      pagos: p.map(r => r.datos as Pago)
+    };
+  }
+
+  async guardar(ledger: LedgerFacturacion): Promise<void> {
+    const conocido = (coleccion: 'ciclos' | 'facturas' | 'pagos') => this.sincronizador.registrosLocales(coleccion);
+    this.sincronizador.guardarRegistros('ciclos', SyncLogic.cambiados(conocido('ciclos'), ciclos(ledger)));
+    this.sincronizador.guardarRegistros('facturas', SyncLogic.cambiados(conocido('facturas'), facturas(ledger)));
+    this.sincronizador.guardarRegistros('pagos', SyncLogic.cambiados(conocido('pagos'), pagos(ledger)));
+  }
+}
@@ -0,0 +1,23 @@
+import { CONFIG_NOTIFICACIONES_POR_DEFECTO, ConfigNotificaciones } from '../notifications/notificaciones';
+import { NotificacionesRepository } from './NotificacionesRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+export class OfflineNotificacionesRepository implements NotificacionesRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  // Las plantillas que falten (tipos de aviso nuevos) se completan con las de fábrica.
+  async obtener(): Promise<ConfigNotificaciones> {
+    const registros = await this.sincronizador.listarRegistros('configuracion');
+    const datos = registros.find(r => r.id === 'notificaciones')?.datos as ConfigNotificaciones | undefined;
+    if (!datos) return CONFIG_NOTIFICACIONES_POR_DEFECTO;
+    return {
+      ...CONFIG_NOTIFICACIONES_POR_DEFECTO,
+      ...datos,
+      plantillas: { ...CONFIG_NOTIFICACIONES_POR_DEFECTO.plantillas, ...datos.plantillas }
+    };
+  }
+
+  async guardar(config: ConfigNotificaciones): Promise<void> {
+    this.sincronizador.guardarRegistros('configuracion', [{ id: 'notificaciones', datos: config }]);
+  }
+}
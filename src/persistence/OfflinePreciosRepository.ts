@@ -0,0 +1,17 @@
+import { ConfigPrecios, PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+import { PreciosRepository } from './PreciosRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+/** Los precios del gimnasio son uno solo para todas las recepciones: un documento de 'configuracion'. */
+export class OfflinePreciosRepository implements PreciosRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async obtener(): Promise<ConfigPrecios> {
+    const registros = await this.sincronizador.listarRegistros('configuracion');
+    return (registros.find(r => r.id === 'precios')?.datos as ConfigPrecios | undefined) ?? PRECIOS_POR_DEFECTO;
+  }
+
+  async guardar(config: ConfigPrecios): Promise<void> {
+    this.sincronizador.guardarRegistros('configuracion', [{ id: 'precios', datos: config }]);
+  }
+}
@@ -0,0 +1,16 @@
+import { Reserva } from '../classes/clases';
+import { ReservaRepository } from './ReservaRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+export class OfflineReservaRepository implements ReservaRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async listar(): Promise<Reserva[]> {
+    const registros = await this.sincronizador.listarRegistros('reservas');
+    return registros.map(r => r.datos as Reserva);
+  }
+
+  async guardar(reservas: Reserva[]): Promise<void> {
+    this.sincronizador.guardarRegistros('reservas', reservas.map(r => ({ id: r.id, datos: r })));
+  }
+}
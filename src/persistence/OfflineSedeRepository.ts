@@ -0,0 +1,18 @@
+import { Sede, SEDES_POR_DEFECTO } from '../domain/sede';
+import { SedeRepository } from './SedeRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+export class OfflineSedeRepository implements SedeRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  // Hasta que alguien guarde las sedes en el servidor, todas las recepciones ven las de fábrica.
+  async listar(): Promise<Sede[]> {
+    const registros = await this.sincronizador.listarRegistros('configuracion');
+    const sedes = registros.find(r => r.id === 'sedes')?.datos;
+    return Array.isArray(sedes) && sedes.length > 0 ? sedes : SEDES_POR_DEFECTO;
+  }
+
+  async guardar(sedes: Sede[]): Promise<void> {
+    this.sincronizador.guardarRegistros('configuracion', [{ id: 'sedes', datos: sedes }]);
+  }
+}
@@ -0,0 +1,38 @@
+import { Socio } from '../domain/socio';
+import { SocioRepository } from './SocioRepository';
+import { RegistroEnCuarentena } from './schema';
+import { Sincronizador } from '../offline/Sincronizador';
+
+/**
+ * El padrón del servidor, pero a prueba de cortes: lee del servidor si
+ * puede (y si no, de la última copia) y los cambios pasan por la cola del
+ * Sincronizador en lugar de ir directo a la red.
+ */
+export class OfflineSocioRepository implements SocioRepository {
+  constructor(
+    private readonly sincronizador: Sincronizador,
+    private readonly remoto: SocioRepository
+  ) {}
+
+  listar(): Promise<Socio[]> {
+    return this.sincronizador.listarSocios();
+  }
+
+  async guardar(socio: Socio): Promise<void> {
+    this.sincronizador.encolar({
+      id: crypto.randomUUID(),
+      fecha: new Date().toISOString(),
+      tipo: 'guardar_socio',
+      socio,
+      base: this.sincronizador.copiaServidor(socio.id)
+    });
+  }
+
+  async eliminar(id: string): Promise<void> {
+    this.sincronizador.encolar({ id: crypto.randomUUID(), fecha: new Date().toISOString(), tipo: 'eliminar_socio', socioId: id });
+  }
+
+  cuarentena(): Promise<RegistroEnCuarentena[]> {
+    return this.remoto.cuarentena();
+  }
+}
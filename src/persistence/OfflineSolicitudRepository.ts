@@ -0,0 +1,16 @@
+import { SolicitudPlan } from '../portal/portal';
+import { SolicitudRepository } from './SolicitudRepository';
+import { Sincronizador } from '../offline/Sincronizador';
+
+export class OfflineSolicitudRepository implements SolicitudRepository {
+  constructor(private readonly sincronizador: Sincronizador) {}
+
+  async listar(): Promise<SolicitudPlan[]> {
+    const registros = await this.sincronizador.listarRegistros('solicitudes');
+    return registros.map(r => r.datos as SolicitudPlan).sort((a, b) => b.fecha.localeCompare(a.fecha));
+  }
+
+  async guardar(solicitud: SolicitudPlan): Promise<void> {
+    this.sincronizador.guardarRegistros('solicitudes', [{ id: solicitud.id, datos: solicitud }]);
+  }
+}
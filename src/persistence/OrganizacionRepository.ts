@@ -0,0 +1,10 @@
+import { Organizacion } from '../tenancy/organizacion';
+
+/**
+ * Catálogo de organizaciones. Es el único almacenamiento compartido entre
+ * gimnasios y solo lo administra el Super Admin.
+ */
+export interface OrganizacionRepository {
+  listar(): Promise<Organizacion[]>;
+  guardar(organizacion: Organizacion): Promise<void>;
+}
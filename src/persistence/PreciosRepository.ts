@@ -0,0 +1,7 @@
+import { ConfigPrecios } from '../pricing/pricing';
+
+/** Planes y reglas de precios del gimnasio: un único documento de configuración. */
+export interface PreciosRepository {
+  obtener(): Promise<ConfigPrecios>;
+  guardar(config: ConfigPrecios): Promise<void>;
+}
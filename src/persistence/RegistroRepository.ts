@@ -0,0 +1,8 @@
+import { Coleccion, Registro } from '../offline/sincronizacion';
+
+/** Colecciones compartidas en el servidor: cobranzas, agenda, auditoría y configuración. */
+export interface RegistroRepository {
+  listar(coleccion: Coleccion): Promise<Registro[]>;
+  /** Inserta o reemplaza por id (en las colecciones de solo agregar, un id repetido se ignora). */
+  guardar(coleccion: Coleccion, registros: Registro[]): Promise<void>;
+}
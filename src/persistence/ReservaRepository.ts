@@ -0,0 +1,8 @@
+import { Reserva } from '../classes/clases';
+
+/** Reservas de clases. Las canceladas no se borran: quedan como historial. */
+export interface ReservaRepository {
+  listar(): Promise<Reserva[]>;
+  /** Inserta o reemplaza por id. */
+  guardar(reservas: Reserva[]): Promise<void>;
+}
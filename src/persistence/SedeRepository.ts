@@ -0,0 +1,7 @@
+import { Sede } from '../domain/sede';
+
+/** Sedes del gimnasio: se guardan como una única lista, igual que los precios. */
+export interface SedeRepository {
+  listar(): Promise<Sede[]>;
+  guardar(sedes: Sede[]): Promise<void>;
+}
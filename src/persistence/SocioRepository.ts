@@ -0,0 +1,18 @@
+import { Socio } from '../domain/socio';
+import { RegistroEnCuarentena } from './schema';
+
+/**
+ * --- REPOSITORIO DE SOCIOS ---
+ * El "contrato" que cualquier almacenamiento tiene que cumplir, como un .h en C:
+ * App solo conoce estas tres funciones y no sabe si detrás hay localStorage,
+ * IndexedDB o un servidor compartido por todas las recepciones.
+ */
+export interface SocioRepository {
+  /** Devuelve el padrón completo, del alta más reciente a la más antigua. */
+  listar(): Promise<Socio[]>;
+  /** Inserta o reemplaza el socio con ese id. */
+  guardar(socio: Socio): Promise<void>;
+  eliminar(id: string): Promise<void>;
+  /** Registros guardados que no pasaron la migración/validación y quedaron apartados. */
+  cuarentena(): Promise<RegistroEnCuarentena[]>;
+}
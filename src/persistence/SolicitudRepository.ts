@@ -0,0 +1,8 @@
+import { SolicitudPlan } from '../portal/portal';
+
+/** Pedidos de cambio de plan hechos desde el portal. Las resueltas quedan como historial. */
+export interface SolicitudRepository {
+  listar(): Promise<SolicitudPlan[]>;
+  /** Inserta o reemplaza por id. */
+  guardar(solicitud: SolicitudPlan): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { AsistenciaRepository } from './AsistenciaRepository';
+import { LocalStorageAsistenciaRepository } from './LocalStorageAsistenciaRepository';
+import { InMemoryAsistenciaRepository } from './InMemoryAsistenciaRepository';
+import { HttpAsistenciaRepository } from './HttpAsistenciaRepository';
+import { ClienteApi } from './ClienteApi';
+import { TipoPersistencia } from './crearSocioRepository';
+import { ORGANIZACION_PRINCIPAL_ID, TenantLogic } from '../tenancy/organizacion';
+
+// Con 'http' los ingresos se comparten como el padrón; IndexedDB todavía guarda solo socios.
+export const crearAsistenciaRepository = (
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local',
+  organizacionId = ORGANIZACION_PRINCIPAL_ID
+): AsistenciaRepository => {
+  switch (tipo) {
+    case 'http': return new HttpAsistenciaRepository(new ClienteApi(import.meta.env.VITE_API_URL ?? '', organizacionId));
+    case 'memoria': return new InMemoryAsistenciaRepository();
+    default: return new LocalStorageAsistenciaRepository(TenantLogic.clave('fitness_plus_asistencias_v1', organizacionId));
+  }
+};
@@ -0,0 +1,145 @@
+import { SocioRepository } from './SocioRepository';
+import { AsistenciaRepository } from './AsistenciaRepository';
+import { AuditRepository } from './AuditRepository';
+import { PreciosRepository } from './PreciosRepository';
+import { SedeRepository } from './SedeRepository';
+import { InsightRepository } from './InsightRepository';
+import { LedgerRepository } from './LedgerRepository';
+import { ClaseRepository } from './ClaseRepository';
+import { ReservaRepository } from './ReservaRepository';
+import { EmpleadoRepository } from './EmpleadoRepository';
+import { AvisoRepository } from './AvisoRepository';
+import { NotificacionesRepository } from './NotificacionesRepository';
+import { SolicitudRepository } from './SolicitudRepository';
+import { crearSocioRepository, TipoPersistencia } from './crearSocioRepository';
+import { crearAsistenciaRepository } from './crearAsistenciaRepository';
+import { LocalStorageAuditRepository } from './LocalStorageAuditRepository';
+import { InMemoryAuditRepository } from './InMemoryAuditRepository';
+import { LocalStoragePreciosRepository } from './LocalStoragePreciosRepository';
+import { InMemoryPreciosRepository } from './InMemoryPreciosRepository';
+import { LocalStorageSedeRepository } from './LocalStorageSedeRepository';
+import { InMemorySedeRepository } from './InMemorySedeRepository';
+import { LocalStorageInsightRepository } from './LocalStorageInsightRepository';
+import { InMemoryInsightRepository } from './InMemoryInsightRepository';
+import { LocalStorageLedgerRepository } from './LocalStorageLedgerRepository';
+import { InMemoryLedgerRepository } from './InMemoryLedgerRepository';
+import { LocalStorageClaseRepository } from './LocalStorageClaseRepository';
+import { InMemoryClaseRepository } from './InMemoryClaseRepository';
+import { LocalStorageReservaRepository } from './LocalStorageReservaRepository';
+import { InMemoryReservaRepository } from './InMemoryReservaRepository';
+import { LocalStorageEmpleadoRepository } from './LocalStorageEmpleadoRepository';
+import { InMemoryEmpleadoRepository } from './InMemoryEmpleadoRepository';
+import { LocalStorageAvisoRepository } from './LocalStorageAvisoRepository';
+import { InMemoryAvisoRepository } from './InMemoryAvisoRepository';
+import { LocalStorageNotificacionesRepository } from './LocalStorageNotificacionesRepository';
+import { InMemoryNotificacionesRepository } from './InMemoryNotificacionesRepository';
+import { LocalStorageSolicitudRepository } from './LocalStorageSolicitudRepository';
+import { InMemorySolicitudRepository } from './InMemorySolicitudRepository';
+import { OrganizacionRepository } from './OrganizacionRepository';
+import { LocalStorageOrganizacionRepository } from './LocalStorageOrganizacionRepository';
+import { InMemoryOrganizacionRepository } from './InMemoryOrganizacionRepository';
+import { HttpOrganizacionRepository } from './HttpOrganizacionRepository';
+import { OfflineSocioRepository } from './OfflineSocioRepository';
+import { OfflineAsistenciaRepository } from './OfflineAsistenciaRepository';
+import { OfflineLedgerRepository } from './OfflineLedgerRepository';
+import { OfflineAuditRepository } from './OfflineAuditRepository';
+import { OfflineAvisoRepository } from './OfflineAvisoRepository';
+import { OfflineReservaRepository } from './OfflineReservaRepository';
+import { OfflinePreciosRepository } from './OfflinePreciosRepository';
+import { OfflineSedeRepository } from './OfflineSedeRepository';
+import { OfflineClaseRepository } from './OfflineClaseRepository';
+import { OfflineEmpleadoRepository } from './OfflineEmpleadoRepository';
+import { OfflineNotificacionesRepository } from './OfflineNotificacionesRepository';
+import { OfflineSolicitudRepository } from './OfflineSolicitudRepository';
+import { HttpRegistroRepository } from './HttpRegistroRepository';
+import { ORGANIZACION_PRINCIPAL_ID, TenantLogic } from '../tenancy/organizacion';
+import { Sincronizador } from '../offline/Sincronizador';
+import { AlmacenOffline } from '../offline/AlmacenOffline';
+import { ConexionMolinetes } from '../access/ConexionMolinetes';
+import { ClienteApi } from './ClienteApi';
+
+/**
+ * Todos los almacenamientos que usa la App, elegidos con la misma
+ * configuración y atados a una sola organización: no hay forma de leer
+ * datos de otro gimnasio con estos repositorios. Con el servidor compartido,
+ * todo lo que ven varias recepciones pasa por la cola del Sincronizador; solo
+ * el historial del consultor queda en cada terminal.
+ */
+export interface Repositorios {
+  socios: SocioRepository;
+  asistencias: AsistenciaRepository;
+  auditoria: AuditRepository;
+  precios: PreciosRepository;
+  sedes: SedeRepository;
+  insights: InsightRepository;
+  ledger: LedgerRepository;
+  clases: ClaseRepository;
+  reservas: ReservaRepository;
+  personal: EmpleadoRepository;
+  avisos: AvisoRepository;
+  notificaciones: NotificacionesRepository;
+  solicitudes: SolicitudRepository;
+  sincronizacion: Sincronizador | null; // Solo con el servidor compartido: lo local ya funciona sin red
+  molinetes: ConexionMolinetes | null;  // El gateway de molinetes vive en el servidor compartido
+}
+
+export const crearRepositorios = (
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local',
+  organizacionId = ORGANIZACION_PRINCIPAL_ID
+): Repositorios => {
+  const clave = (base: string) => TenantLogic.clave(base, organizacionId);
+  const memoria = tipo === 'memoria';
+  const socios = crearSocioRepository(tipo, organizacionId);
+  const asistencias = crearAsistenciaRepository(tipo, organizacionId);
+  const api = new ClienteApi(import.meta.env.VITE_API_URL ?? '', organizacionId);
+  const sincronizacion = tipo === 'http'
+    ? new Sincronizador(socios, asistencias, new HttpRegistroRepository(api), new AlmacenOffline(clave('fitness_plus_offline_v1')))
+    : null;
+  if (sincronizacion) {
+    return {
+      socios: new OfflineSocioRepository(sincronizacion, socios),
+      asistencias: new OfflineAsistenciaRepository(sincronizacion),
+      auditoria: new OfflineAuditRepository(sincronizacion),
+      precios: new OfflinePreciosRepository(sincronizacion),
+      sedes: new OfflineSedeRepository(sincronizacion),
+      insights: new LocalStorageInsightRepository(clave('fitness_plus_insights_v1')),
+      ledger: new OfflineLedgerRepository(sincronizacion),
+      clases: new OfflineClaseRepository(sincronizacion),
+      reservas: new OfflineReservaRepository(sincronizacion),
+      personal: new OfflineEmpleadoRepository(sincronizacion),
+      avisos: new OfflineAvisoRepository(sincronizacion, api),
+      notificaciones: new OfflineNotificacionesRepository(sincronizacion),
+      solicitudes: new OfflineSolicitudRepository(sincronizacion),
+      sincronizacion,
+      molinetes: new ConexionMolinetes(api)
+    };
+  }
+  return {
+    socios,
+    asistencias,
+    auditoria: memoria ? new InMemoryAuditRepository() : new LocalStorageAuditRepository(clave('fitness_plus_auditoria_v1')),
+    precios: memoria ? new InMemoryPreciosRepository() : new LocalStoragePreciosRepository(clave('fitness_plus_precios_v1')),
+    sedes: memoria ? new InMemorySedeRepository() : new LocalStorageSedeRepository(clave('fitness_plus_sedes_v1')),
+    insights: memoria ? new InMemoryInsightRepository() : new LocalStorageInsightRepository(clave('fitness_plus_insights_v1')),
+    ledger: memoria ? new InMemoryLedgerRepository() : new LocalStorageLedgerRepository(clave('fitness_plus_billing_v1')),
+    clases: memoria ? new InMemoryClaseRepository() : new LocalStorageClaseRepository(clave('fitness_plus_clases_v1')),
+    reservas: memoria ? new InMemoryReservaRepository() : new LocalStorageReservaRepository(clave('fitness_plus_reservas_v1')),
+    personal: memoria ? new InMemoryEmpleadoRepository() : new LocalStorageEmpleadoRepository(clave('fitness_plus_personal_v1')),
+    avisos: memoria ? new InMemoryAvisoRepository() : new LocalStorageAvisoRepository(clave('fitness_plus_avisos_v1')),
+    notificaciones: memoria ? new InMemoryNotificacionesRepository() : new LocalStorageNotificacionesRepository(clave('fitness_plus_notificaciones_v1')),
+    solicitudes: memoria ? new InMemorySolicitudRepository() : new LocalStorageSolicitudRepository(clave('fitness_plus_solicitudes_v1')),
+    sincronizacion: null,
+    molinetes: null
+  };
+};
+
+// El catálogo de organizaciones es global: no pertenece a ningún gimnasio.
+export const crearOrganizacionRepository = (
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local'
+): OrganizacionRepository => {
+  switch (tipo) {
+    case 'http': return new HttpOrganizacionRepository(new ClienteApi(import.meta.env.VITE_API_URL ?? ''));
+    case 'memoria': return new InMemoryOrganizacionRepository();
+    default: return new LocalStorageOrganizacionRepository();
+  }
+};
@@ -0,0 +1,28 @@
+import { SocioRepository } from './SocioRepository';
+import { LocalStorageSocioRepository } from './LocalStorageSocioRepository';
+import { IndexedDbSocioRepository } from './IndexedDbSocioRepository';
+import { HttpSocioRepository } from './HttpSocioRepository';
+import { InMemorySocioRepository } from './InMemorySocioRepository';
+import { ClienteApi } from './ClienteApi';
+import { ORGANIZACION_PRINCIPAL_ID, TenantLogic } from '../tenancy/organizacion';
+
+export type TipoPersistencia = 'local' | 'indexeddb' | 'http' | 'memoria';
+
+/**
+ * Elige el almacenamiento según VITE_PERSISTENCIA (por defecto 'local').
+ * Con 'http', VITE_API_URL apunta al servidor; vacío usa el proxy de Vite.
+ * Cada organización tiene su propia clave, base o espacio en el servidor.
+ */
+export const crearSocioRepository = (
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local',
+  organizacionId = ORGANIZACION_PRINCIPAL_ID
+): SocioRepository => {
+  const principal = organizacionId === ORGANIZACION_PRINCIPAL_ID;
+  switch (tipo) {
+    case 'indexeddb': return new IndexedDbSocioRepository(TenantLogic.clave('fitness_plus', organizacionId));
+    case 'http': return new HttpSocioRepository(new ClienteApi(import.meta.env.VITE_API_URL ?? '', organizacionId));
+    case 'memoria': return new InMemorySocioRepository();
+    // Solo la principal hereda las claves de versiones viejas: un gimnasio nuevo arranca vacío.
+    default: return new LocalStorageSocioRepository(TenantLogic.clave('fitness_plus_elite', organizacionId), principal);
+  }
+};
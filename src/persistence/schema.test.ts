@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { cargarSocios, VERSION_ACTUAL } from './schema';
+import { Socio } from '../domain/socio';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+describe('cargarSocios', () => {
+  it('deja pasar sin cambios un socio de la versión actual', () => {
+    const socio = unSocio();
+
+    expect(cargarSocios([socio], VERSION_ACTUAL)).toEqual({ socios: [socio], cuarentena: [] });
+  });
+
+  it('sube un registro v1 hasta la forma actual', () => {
+    const v1 = { nombre: 'Juan Gómez', dni: '25.123.456', edad: 15, sede: 'CBA', membresia: 'BAS' };
+    const { socios, cuarentena } = cargarSocios([v1], 1);
+
+    expect(cuarentena).toEqual([]);
+    expect(socios[0]).toMatchObject({
+      nombre: 'Juan Gómez',
+      dni: 25123456,
+      metodoPago: 'efectivo',
+      importe: 9600, // Básica con el descuento de menores
+      fechaNacimientoEstimada: true,
+      aptoMedicoVence: null
+    });
+    expect(socios[0].id).toEqual(expect.any(String));
+    expect(socios[0]).not.toHaveProperty('edad');
+  });
+
+  it('los registros anteriores a las bajas quedan activos', () => {
+    const v4 = { id: 's1', nombre: 'Ana Pérez', dni: 30123456, edad: 35, sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000 };
+
+    expect(cargarSocios([v4], 4).socios[0].estado).toBe('activa');
+  });
+
+  it('manda a cuarentena lo que no es un socio, sin cortar la carga del resto', () => {
+    const roto = { ...unSocio({ id: 's2' }), metodoPago: 'cheque' };
+    const { socios, cuarentena } = cargarSocios([unSocio(), roto, 'basura'], VERSION_ACTUAL);
+
+    expect(socios.map(s => s.id)).toEqual(['s1']);
+    expect(cuarentena.map(c => [c.registro, c.motivo])).toEqual([
+      [roto, 'Método de pago desconocido'],
+      ['basura', 'No es un objeto']
+    ]);
+  });
+
+  it('valida después de migrar: un DNI viejo sin números no entra', () => {
+    const { cuarentena } = cargarSocios([{ nombre: 'Sin DNI', dni: 's/d', edad: 40, sede: 'CBA', membresia: 'BAS' }], 1);
+
+    expect(cuarentena[0].motivo).toBe('DNI inválido');
+  });
+
+  it('un estado con el nombre de algo heredado de Object no es un estado', () => {
+    const { cuarentena } = cargarSocios([{ ...unSocio(), estado: 'constructor' }, { ...unSocio({ id: 's2' }), estado: '__proto__' }], VERSION_ACTUAL);
+
+    expect(cuarentena.map(c => c.motivo)).toEqual(['Estado de membresía inválido', 'Estado de membresía inválido']);
+  });
+});
@@ -0,0 +1,138 @@
+import { Socio, FitnessBusinessLogic } from '../domain/socio';
+import { ValidacionLogic } from '../validation/validacion';
+import { formatearFecha } from '../billing/billing';
+import { esEstadoMembresia } from '../membership/membresia';
+
+/**
+ * --- VERSIONADO DEL ESQUEMA ---
+ * Lo que está guardado puede venir de una versión vieja de la app. Antes de
+ * confiar en un registro lo pasamos por dos etapas, como un parser en C:
+ *   1. Migración: lo subimos paso a paso (v1 -> v2 -> ... -> actual).
+ *   2. Validación: si aun así no tiene forma de Socio, va a cuarentena
+ *      en lugar de romper la App.
+ *
+ * Historial:
+ *   v1: sin 'metodoPago'; el DNI a veces se guardaba como texto.
+ *   v2: sin 'importe' (se calculaba al mostrar) y sin 'id' en algunos registros.
+ *   v3: forma actual de Socio, guardada como arreglo suelto.
+ *   v4: el arreglo se guarda dentro de un sobre { version, socios, cuarentena }.
+ *   v5: campo 'activo' (las bajas dejan de borrar al socio).
+ *   v6: 'fechaNacimiento' reemplaza a 'edad'; teléfono, email, contacto de
+ *       emergencia y vencimiento del apto médico.
+ *   v7: 'estado' de la membresía (prueba, activa, congelada, vencida,
+ *       cancelada) con fechas de inicio y vencimiento; reemplaza a 'activo'.
+ */
+export const VERSION_ACTUAL = 7;
+
+export interface SobreVersionado {
+  version: number;
+  socios: unknown[];
+  cuarentena: RegistroEnCuarentena[];
+}
+
+export interface RegistroEnCuarentena {
+  registro: unknown;
+  version: number;
+  motivo: string;
+  fecha: string;
+}
+
+export interface ResultadoCarga {
+  socios: Socio[];
+  cuarentena: RegistroEnCuarentena[];
+}
+
+type Migracion = (registro: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRACIONES[n] lleva un registro de la versión n a la n+1.
+const MIGRACIONES: Record<number, Migracion> = {
+  1: r => ({
+    ...r,
+    dni: typeof r.dni === 'string' ? Number(r.dni.replace(/\D/g, '')) : r.dni,
+    metodoPago: r.metodoPago ?? 'efectivo'
+  }),
+  2: r => ({
+    ...r,
+    id: r.id ?? crypto.randomUUID(),
+    importe: r.importe ?? FitnessBusinessLogic.calcularImporte(Number(r.edad), String(r.membresia), String(r.metodoPago))
+  }),
+  3: r => r,
+  4: r => ({ ...r, activo: r.activo ?? true }),
+  // Solo conocemos la edad: estimamos que cumple años el día de la migración y lo marcamos para corregir.
+  5: ({ edad, ...r }) => {
+    const hoy = new Date();
+    const nacimiento = new Date(hoy.getFullYear() - Number(edad), hoy.getMonth(), hoy.getDate());
+    return {
+      ...r,
+      fechaNacimiento: formatearFecha(nacimiento),
+      fechaNacimientoEstimada: true,
+      telefono: '',
+      email: '',
+      contactoEmergenciaNombre: '',
+      contactoEmergenciaTelefono: '',
+      aptoMedicoVence: null
+    };
+  },
+  // No sabemos desde cuándo es socio: la membresía arranca el día de la migración y se renueva sola.
+  6: ({ activo, ...r }) => ({
+    ...r,
+    estado: activo ? 'activa' : 'cancelada',
+    inicio: formatearFecha(new Date()),
+    vence: null
+  })
+};
+
+const esObjeto = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const esTexto = (v: unknown) => typeof v === 'string' && v.trim() !== '';
+const esNumero = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+/** Devuelve el motivo por el que el registro no es un Socio válido, o null si lo es. */
+export const validarSocio = (r: unknown): string | null => {
+  if (!esObjeto(r)) return 'No es un objeto';
+  if (!esTexto(r.id)) return 'Falta el id';
+  if (!esTexto(r.nombre)) return 'Falta el nombre';
+  if (!esNumero(r.dni) || !Number.isInteger(r.dni) || (r.dni as number) <= 0) return 'DNI inválido';
+  if (typeof r.fechaNacimiento !== 'string' || !ValidacionLogic.esFecha(r.fechaNacimiento)) return 'Fecha de nacimiento inválida';
+  if (!esTexto(r.sede)) return 'Falta la sede';
+  if (!esTexto(r.membresia)) return 'Falta la membresía';
+  if (r.metodoPago !== 'efectivo' && r.metodoPago !== 'tarjeta') return 'Método de pago desconocido';
+  if (!esNumero(r.importe) || (r.importe as number) < 0) return 'Importe inválido';
+  if (!esEstadoMembresia(r.estado)) return 'Estado de membresía inválido';
+  if (typeof r.inicio !== 'string' || !ValidacionLogic.esFecha(r.inicio)) return 'Fecha de inicio inválida';
+  if (r.vence !== null && (typeof r.vence !== 'string' || !ValidacionLogic.esFecha(r.vence))) return 'Fecha de vencimiento inválida';
+  const contacto = [r.telefono, r.email, r.contactoEmergenciaNombre, r.contactoEmergenciaTelefono];
+  if (contacto.some(v => typeof v !== 'string')) return 'Datos de contacto inválidos';
+  if (r.aptoMedicoVence !== null && (typeof r.aptoMedicoVence !== 'string' || !ValidacionLogic.esFecha(r.aptoMedicoVence))) return 'Vencimiento de apto médico inválido';
+  return null;
+};
+
+export const migrarRegistro = (registro: unknown, desde: number): unknown => {
+  if (!esObjeto(registro)) return registro;
+  let actual = registro;
+  for (let v = desde; v < VERSION_ACTUAL; v++) actual = MIGRACIONES[v](actual);
+  return actual;
+};
+
+/** Migra y valida un lote de registros crudos; nunca lanza excepciones. */
+export const cargarSocios = (registros: unknown[], version: number): ResultadoCarga => {
+  const socios: Socio[] = [];
+  const cuarentena: RegistroEnCuarentena[] = [];
+
+  for (const registro of registros) {
+    let motivo: string | null;
+    let migrado: unknown = registro;
+    try {
+      migrado = migrarRegistro(registro, version);
+      motivo = validarSocio(migrado);
+    } catch (e) {
+      motivo = `Falló la migración: ${(e as Error).message}`;
+    }
+
+    if (motivo) cuarentena.push({ registro, version, motivo, fecha: new Date().toISOString() });
+    else socios.push(migrado as Socio);
+  }
+
+  return { socios, cuarentena };
+};
@@ -0,0 +1,73 @@
+import { ClienteApi } from '../persistence/ClienteApi';
+import { DatosPortal } from './portal';
+import { PortalService } from './PortalService';
+
+interface SesionPortal {
+  token: string;
+  socioId: string;
+  expira: string;
+}
+
+/**
+ * Portal contra el servidor compartido. El código lo genera y lo verifica
+ * el servidor; lo que queda en el teléfono del socio es solo el token que
+ * entrega al entrar, y con ese token el servidor devuelve únicamente lo de
+ * ese socio: nunca viaja el padrón ni el libro de cobranzas completo.
+ */
+export class HttpPortalService implements PortalService {
+  private readonly api: ClienteApi;
+
+  constructor(
+    baseUrl: string,
+    private readonly organizacionId: string,
+    private readonly claveSesion = 'fitness_plus_portal_sesion'
+  ) {
+    this.api = new ClienteApi(baseUrl, null, claveSesion);
+  }
+
+  async solicitarCodigo(dni: number): Promise<string> {
+    const res = await this.api.enviar('/api/portal/codigo', 'POST', { organizacion: this.organizacionId, dni });
+    return (await res.json()).destino;
+  }
+
+  async verificar(dni: number, codigo: string): Promise<string> {
+    const res = await this.api.enviar('/api/portal/sesion', 'POST', { organizacion: this.organizacionId, dni, codigo });
+    const sesion: SesionPortal = await res.json();
+    localStorage.setItem(this.claveSesion, JSON.stringify(sesion));
+    return sesion.socioId;
+  }
+
+  logout(): void {
+    this.api.pedir('/api/portal/sesion', { method: 'DELETE' }).catch(e => console.error("Error cerrando la sesión:", e));
+    localStorage.removeItem(this.claveSesion);
+  }
+
+  sesionActual(): string | null {
+    try {
+      const sesion: SesionPortal | null = JSON.parse(localStorage.getItem(this.claveSesion) ?? 'null');
+      return sesion?.socioId && new Date(sesion.expira).getTime() > Date.now() ? sesion.socioId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async datos(): Promise<DatosPortal> {
+    const res = await this.api.pedir('/api/portal/datos');
+    return res.json();
+  }
+
+  async reservar(claseId: string, fecha: string): Promise<DatosPortal> {
+    const res = await this.api.enviar('/api/portal/reservas', 'POST', { claseId, fecha });
+    return res.json();
+  }
+
+  async cancelarReserva(reservaId: string): Promise<DatosPortal> {
+    const res = await this.api.pedir(`/api/portal/reservas/${encodeURIComponent(reservaId)}`, { method: 'DELETE' });
+    return res.json();
+  }
+
+  async solicitarPlan(planNuevo: string): Promise<DatosPortal> {
+    const res = await this.api.enviar('/api/portal/solicitudes', 'POST', { planNuevo });
+    return res.json();
+  }
+}
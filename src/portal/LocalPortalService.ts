@@ -0,0 +1,157 @@
+import { Socio } from '../domain/socio';
+import { AuthLogic } from '../auth/auth';
+import { ErrorNegocio } from '../domain/errores';
+import { ProveedorMensajeria } from '../notifications/notificaciones';
+import { Repositorios } from '../persistence/crearRepositorios';
+import {
+  DatosPortal, DURACION_SESION_PORTAL_MS, ESPERA_REENVIO_MS, FuentesPortal, MAX_INTENTOS_CODIGO,
+  PortalLogic, VIGENCIA_CODIGO_MS
+} from './portal';
+import { PortalService } from './PortalService';
+
+interface CodigoPendiente {
+  dni: number;
+  salt: string;
+  hash: string; // Como las contraseñas: el código nunca se guarda en claro
+  expira: string;
+  intentos: number;
+  enviado: string;
+}
+
+interface SesionPortal {
+  socioId: string;
+  expira: string;
+}
+
+/**
+ * Portal sin servidor: los códigos y la sesión quedan en el localStorage de
+ * este navegador y los datos salen de los mismos repositorios locales que
+ * usa la recepción. Sirve para probar el portal en el equipo del gimnasio;
+ * para que los socios entren desde sus teléfonos hace falta el servidor
+ * compartido (HttpPortalService).
+ */
+export class LocalPortalService implements PortalService {
+  constructor(
+    private readonly repos: Repositorios,
+    private readonly proveedor: ProveedorMensajeria,
+    private readonly gimnasio: string,
+    private readonly claveCodigos = 'fitness_plus_portal_codigos',
+    private readonly claveSesion = 'fitness_plus_portal_sesion'
+  ) {}
+
+  async solicitarCodigo(dni: number): Promise<string> {
+    const socio = PortalLogic.buscarSocio(await this.repos.socios.listar(), dni);
+    const codigos = this.leer();
+    const previo = codigos.find(c => c.dni === dni);
+    if (previo && Date.now() - new Date(previo.enviado).getTime() < ESPERA_REENVIO_MS) {
+      throw new ErrorNegocio('codigo_reciente');
+    }
+
+    const codigo = PortalLogic.generarCodigo();
+    const mensaje = PortalLogic.mensajeCodigo(socio, this.gimnasio, codigo);
+    const salt = AuthLogic.nuevaSal();
+    await this.proveedor.enviar(mensaje);
+
+    const ahora = Date.now();
+    this.escribir([
+      ...codigos.filter(c => c.dni !== dni && new Date(c.expira).getTime() > ahora),
+      {
+        dni,
+        salt,
+        hash: await AuthLogic.hashPassword(codigo, salt),
+        expira: new Date(ahora + VIGENCIA_CODIGO_MS).toISOString(),
+        intentos: 0,
+        enviado: new Date(ahora).toISOString()
+      }
+    ]);
+    return PortalLogic.ocultar(mensaje.destino);
+  }
+
+  async verificar(dni: number, codigo: string): Promise<string> {
+    const codigos = this.leer();
+    const pendiente = codigos.find(c => c.dni === dni);
+    if (!pendiente || new Date(pendiente.expira).getTime() < Date.now()) {
+      throw new ErrorNegocio('codigo_vencido');
+    }
+    if (pendiente.intentos >= MAX_INTENTOS_CODIGO) throw new ErrorNegocio('demasiados_intentos');
+
+    if ((await AuthLogic.hashPassword(codigo.trim(), pendiente.salt)) !== pendiente.hash) {
+      this.escribir(codigos.map(c => (c === pendiente ? { ...c, intentos: c.intentos + 1 } : c)));
+      throw new ErrorNegocio('codigo_incorrecto');
+    }
+    // Un solo uso: el código se borra al entrar.
+    this.escribir(codigos.filter(c => c !== pendiente));
+
+    const socio = PortalLogic.buscarSocio(await this.repos.socios.listar(), dni);
+    const sesion: SesionPortal = { socioId: socio.id, expira: new Date(Date.now() + DURACION_SESION_PORTAL_MS).toISOString() };
+    localStorage.setItem(this.claveSesion, JSON.stringify(sesion));
+    return socio.id;
+  }
+
+  logout(): void {
+    localStorage.removeItem(this.claveSesion);
+  }
+
+  sesionActual(): string | null {
+    try {
+      const sesion: SesionPortal | null = JSON.parse(localStorage.getItem(this.claveSesion) ?? 'null');
+      return sesion && new Date(sesion.expira).getTime() > Date.now() ? sesion.socioId : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async datos(): Promise<DatosPortal> {
+    const { socio, fuentes } = await this.cargar();
+    return PortalLogic.recortar(socio, fuentes);
+  }
+
+  async reservar(claseId: string, fecha: string): Promise<DatosPortal> {
+    const { socio, fuentes } = await this.cargar();
+    const { reservas, cambiadas } = PortalLogic.reservar(socio, fuentes, claseId, fecha, new Date());
+    await this.repos.reservas.guardar(cambiadas);
+    return PortalLogic.recortar(socio, { ...fuentes, reservas });
+  }
+
+  async cancelarReserva(reservaId: string): Promise<DatosPortal> {
+    const { socio, fuentes } = await this.cargar();
+    const { reservas, cambiadas } = PortalLogic.cancelar(socio, fuentes, reservaId, new Date());
+    await this.repos.reservas.guardar(cambiadas);
+    return PortalLogic.recortar(socio, { ...fuentes, reservas });
+  }
+
+  async solicitarPlan(planNuevo: string): Promise<DatosPortal> {
+    const { socio, fuentes } = await this.cargar();
+    const solicitud = PortalLogic.pedirCambio(socio, fuentes, planNuevo, new Date());
+    await this.repos.solicitudes.guardar(solicitud);
+    return PortalLogic.recortar(socio, { ...fuentes, solicitudes: [solicitud, ...fuentes.solicitudes] });
+  }
+
+  // Si lo dieron de baja mientras tenía la sesión abierta, la sesión se cierra.
+  private async cargar(): Promise<{ socio: Socio; fuentes: FuentesPortal }> {
+    const socioId = this.sesionActual();
+    const [socios, ledger, precios, clases, reservas, solicitudes] = await Promise.all([
+      this.repos.socios.listar(), this.repos.ledger.obtener(), this.repos.precios.obtener(),
+      this.repos.clases.listar(), this.repos.reservas.listar(), this.repos.solicitudes.listar()
+    ]);
+    const socio = socios.find(s => s.id === socioId && s.estado !== 'cancelada');
+    if (!socio) {
+      this.logout();
+      throw new ErrorNegocio('sesion_vencida');
+    }
+    return { socio, fuentes: { ledger, precios, clases, reservas, solicitudes } };
+  }
+
+  private leer(): CodigoPendiente[] {
+    try {
+      const datos = JSON.parse(localStorage.getItem(this.claveCodigos) ?? '[]');
+      return Array.isArray(datos) ? datos : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private escribir(codigos: CodigoPendiente[]) {
+    localStorage.setItem(this.claveCodigos, JSON.stringify(codigos));
+  }
+}
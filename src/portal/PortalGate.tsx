@@ -0,0 +1,57 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Building2 } from 'lucide-react';
+
+import { Organizacion, ORGANIZACION_PRINCIPAL_ID } from '../tenancy/organizacion';
+import { buscarOrganizacionPortal, crearPortalService } from './crearPortalService';
+import { PortalLoginView } from '../views/PortalLoginView';
+import { PortalView } from '../views/PortalView';
+import { REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+/**
+ * Entrada del portal de socios (/portal?org=<id>; sin org, la principal).
+ * No comparte sesión con la App del gimnasio: un socio solo ve lo suyo.
+ */
+export const PortalGate: React.FC = () => {
+  const organizacionId = new URLSearchParams(window.location.search).get('org') ?? ORGANIZACION_PRINCIPAL_ID;
+  const [organizacion, setOrganizacion] = useState<Organizacion | null | undefined>(undefined);
+
+  useEffect(() => {
+    buscarOrganizacionPortal(organizacionId)
+      .then(setOrganizacion)
+      .catch(e => console.error("Error cargando organizaciones:", e));
+  }, [organizacionId]);
+
+  const portal = useMemo(() => (organizacion ? crearPortalService(organizacion) : null), [organizacion?.id]);
+  // undefined = todavía no se miró la sesión guardada.
+  const [sesion, setSesion] = useState<string | null | undefined>(undefined);
+  const socioId = sesion === undefined ? portal?.sesionActual() ?? null : sesion;
+
+  if (organizacion === undefined) return null;
+  const regional = organizacion?.regional ?? REGIONAL_POR_DEFECTO;
+
+  if (!organizacion || !portal) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 text-zinc-100">
+        <div className="max-w-md text-center space-y-6">
+          <div className="w-16 h-16 bg-zinc-900 rounded-2xl flex items-center justify-center mx-auto border border-white/5">
+            <Building2 className="text-zinc-600" />
+          </div>
+          <p className="text-zinc-400 font-medium">{I18nLogic.traducir(regional.idioma, 'portal.noDisponible')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!socioId) return <PortalLoginView portal={portal} gimnasio={organizacion.nombre} regional={regional} onLogin={setSesion} />;
+
+  return (
+    <PortalView
+      key={socioId}
+      socioId={socioId}
+      organizacion={organizacion}
+      portal={portal}
+      onLogout={() => { portal.logout(); setSesion(null); }}
+    />
+  );
+};
@@ -0,0 +1,22 @@
+import { DatosPortal } from './portal';
+
+/**
+ * Lo que usa el portal del socio. En modo local todo vive en esta terminal
+ * (una demo de un solo equipo); con el servidor compartido, el código se
+ * emite y se verifica allá, la sesión es un token del servidor y cada
+ * pedido devuelve solo lo del socio de ese token. Los errores traen un
+ * mensaje listo para mostrar en pantalla.
+ */
+export interface PortalService {
+  /** Manda el código y devuelve a dónde fue, enmascarado. */
+  solicitarCodigo(dni: number): Promise<string>;
+  /** Abre la sesión y devuelve el id del socio. */
+  verificar(dni: number, codigo: string): Promise<string>;
+  logout(): void;
+  /** Id del socio con sesión abierta, o null si no hay o expiró. */
+  sesionActual(): string | null;
+  datos(): Promise<DatosPortal>;
+  reservar(claseId: string, fecha: string): Promise<DatosPortal>;
+  cancelarReserva(reservaId: string): Promise<DatosPortal>;
+  solicitarPlan(planNuevo: string): Promise<DatosPortal>;
+}
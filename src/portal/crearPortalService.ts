@@ -0,0 +1,45 @@
+import { Organizacion, TenantLogic } from '../tenancy/organizacion';
+import { TipoPersistencia } from '../persistence/crearSocioRepository';
+import { crearOrganizacionRepository, crearRepositorios } from '../persistence/crearRepositorios';
+import { ClienteApi } from '../persistence/ClienteApi';
+import { crearProveedorMensajeria } from '../notifications/NotificacionesService';
+import { PortalService } from './PortalService';
+import { LocalPortalService } from './LocalPortalService';
+import { HttpPortalService } from './HttpPortalService';
+
+/**
+ * El gimnasio del portal, si existe y está activo. Con el servidor
+ * compartido se pide sin sesión: el socio todavía no entró.
+ */
+export const buscarOrganizacionPortal = async (
+  id: string,
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local'
+): Promise<Organizacion | null> => {
+  if (tipo === 'http') {
+    const api = new ClienteApi(import.meta.env.VITE_API_URL ?? '');
+    return api.pedir(`/api/portal/organizacion/${encodeURIComponent(id)}`)
+      .then(res => res.json())
+      .catch(e => {
+        console.error("Error buscando la organización:", e);
+        return null;
+      });
+  }
+  const todas = await crearOrganizacionRepository(tipo).listar();
+  return todas.find(o => o.id === id && o.activa) ?? null;
+};
+
+export const crearPortalService = (
+  organizacion: Organizacion,
+  tipo: TipoPersistencia = import.meta.env.VITE_PERSISTENCIA ?? 'local'
+): PortalService => {
+  const claveSesion = TenantLogic.clave('fitness_plus_portal_sesion', organizacion.id);
+  return tipo === 'http'
+    ? new HttpPortalService(import.meta.env.VITE_API_URL ?? '', organizacion.id, claveSesion)
+    : new LocalPortalService(
+        crearRepositorios(tipo, organizacion.id),
+        crearProveedorMensajeria(organizacion.id),
+        organizacion.nombre,
+        TenantLogic.clave('fitness_plus_portal_codigos', organizacion.id),
+        claveSesion
+      );
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import { FuentesPortal, PortalLogic, SolicitudPlan } from './portal';
+import { Socio } from '../domain/socio';
+import { BillingLogic, LEDGER_VACIO } from '../billing/billing';
+import { Clase, Reserva } from '../classes/clases';
+import { PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+// Lunes 19:00.
+const unaClase = (id: string, sede: string): Clase => ({
+  id, nombre: 'Spinning', sede, instructor: 'Eva', sala: 'A', dia: 1, hora: '19:00', duracionMin: 50, capacidad: 10, membresiasPermitidas: [], activa: true
+});
+
+const reserva = (id: string, claseId: string, socioId: string): Reserva => ({
+  id, claseId, socioId, fecha: '2026-03-16', estado: 'confirmada', creada: '2026-03-15T10:00:00.000Z', actualizada: '2026-03-15T10:00:00.000Z'
+});
+
+const solicitud = (id: string, socioId: string): SolicitudPlan => ({
+  id, socioId, socioNombre: '', sede: 'CBA', planActual: 'STD', planNuevo: 'PRE', importeEstimado: 25000, fecha: '2026-03-15T10:00:00.000Z', estado: 'pendiente'
+});
+
+const ana = unSocio();
+const luis = unSocio({ id: 's2', dni: 28999888, nombre: 'Luis Díaz' });
+const hoy = new Date(2026, 2, 15, 10);
+const emitido = BillingLogic.sincronizar(LEDGER_VACIO, [ana, luis], hoy);
+
+const fuentes: FuentesPortal = {
+  ledger: BillingLogic.registrarPago(BillingLogic.registrarPago(emitido, 's1:2026-03', 'efectivo', hoy), 's2:2026-03', 'efectivo', hoy),
+  precios: PRECIOS_POR_DEFECTO,
+  clases: [unaClase('c1', 'CBA'), unaClase('c2', 'ROS')],
+  reservas: [reserva('r1', 'c1', 's1'), reserva('r2', 'c1', 's2'), reserva('r3', 'c2', 's3')],
+  solicitudes: [solicitud('q1', 's1'), solicitud('q2', 's2')]
+};
+
+describe('PortalLogic.recortar', () => {
+  it('le da al socio solo su cuenta y sus pedidos', () => {
+    const datos = PortalLogic.recortar(ana, fuentes);
+
+    expect(datos.socio).toBe(ana);
+    expect(datos.ledger.ciclos.map(c => c.socioId)).toEqual(['s1']);
+    expect(datos.ledger.facturas.map(f => f.id)).toEqual(['s1:2026-03']);
+    expect(datos.ledger.pagos.map(p => p.socioId)).toEqual(['s1']);
+    expect(datos.solicitudes.map(s => s.id)).toEqual(['q1']);
+  });
+
+  it('muestra las clases de su sede y cuántos cupos hay tomados, pero no de quién', () => {
+    const datos = PortalLogic.recortar(ana, fuentes);
+
+    expect(datos.clases.map(c => c.id)).toEqual(['c1']);
+    expect(datos.reservas.map(r => [r.id, r.socioId])).toEqual([['r1', 's1'], ['r2', '']]);
+  });
+});
+
+describe('PortalLogic reservas', () => {
+  const sinReservas = { ...fuentes, reservas: [] };
+
+  it('reserva solo clases de su sede y en un día en que se dictan', () => {
+    const { reservas } = PortalLogic.reservar(ana, sinReservas, 'c1', '2026-03-16', hoy);
+
+    expect(reservas.map(r => [r.socioId, r.estado])).toEqual([['s1', 'confirmada']]);
+    expect(() => PortalLogic.reservar(ana, sinReservas, 'c2', '2026-03-16', hoy)).toThrow('clase_otra_sede');
+    expect(() => PortalLogic.reservar(ana, sinReservas, 'c1', '2026-03-17', hoy)).toThrow('clase_otro_dia');
+  });
+
+  it('un socio solo cancela sus propias reservas', () => {
+    expect(PortalLogic.cancelar(ana, fuentes, 'r1', hoy).cambiadas.map(r => r.id)).toEqual(['r1']);
+    expect(() => PortalLogic.cancelar(ana, fuentes, 'r2', hoy)).toThrow('reserva_inexistente');
+  });
+});
+
+describe('PortalLogic.pedirCambio', () => {
+  it('cotiza el plan nuevo con los precios vigentes', () => {
+    const pedido = PortalLogic.pedirCambio(ana, { ...fuentes, solicitudes: [] }, 'PRE', hoy);
+
+    expect(pedido).toMatchObject({ socioId: 's1', planActual: 'STD', planNuevo: 'PRE', importeEstimado: 25000, estado: 'pendiente' });
+  });
+
+  it('no acepta el mismo plan, un plan inexistente ni un segundo pedido pendiente', () => {
+    const libre = { ...fuentes, solicitudes: [] };
+
+    expect(() => PortalLogic.pedirCambio(ana, libre, 'STD', hoy)).toThrow('mismo_plan');
+    expect(() => PortalLogic.pedirCambio(ana, libre, 'VIP', hoy)).toThrow('plan_inexistente');
+    expect(() => PortalLogic.pedirCambio(ana, fuentes, 'BAS', hoy)).toThrow('cambio_pendiente');
+    expect(() => PortalLogic.pedirCambio(unSocio({ estado: 'congelada' }), libre, 'PRE', hoy)).toThrow('cambio_no_habilitado');
+  });
+});
+
+describe('PortalLogic acceso', () => {
+  it('entran todos menos los cancelados', () => {
+    expect(PortalLogic.buscarSocio([ana, luis], 28999888)).toBe(luis);
+    expect(PortalLogic.buscarSocio([unSocio({ estado: 'congelada' })], 30123456).id).toBe('s1');
+    expect(() => PortalLogic.buscarSocio([unSocio({ estado: 'cancelada' })], 30123456)).toThrow('socio_no_encontrado');
+  });
+
+  it('el destino del código se reconoce sin exponerlo', () => {
+    expect(PortalLogic.ocultar('3515551234')).toBe('35••••••34');
+    expect(PortalLogic.ocultar('ana@mail.com')).toBe('a••@mail.com');
+  });
+});
+
+describe('PortalLogic.estadoCuenta', () => {
+  it('suma lo adeudado y separa lo vencido', () => {
+    const abril = new Date(2026, 3, 20);
+    const cuenta = PortalLogic.estadoCuenta(BillingLogic.sincronizar(fuentes.ledger, [ana], abril), 's1', abril);
+
+    expect(cuenta.lineas.map(l => [l.factura.periodo, l.estado])).toEqual([['2026-04', 'vencida'], ['2026-03', 'pagada']]);
+    expect(cuenta).toMatchObject({ saldo: 19800, vencido: 19800 }); // La de abril, con el recargo por mora
+  });
+});
@@ -0,0 +1,196 @@
+import { FitnessBusinessLogic, Socio } from '../domain/socio';
+import { BillingLogic, EstadoFactura, Factura, LedgerFacturacion, Pago } from '../billing/billing';
+import { ConfigPrecios } from '../pricing/pricing';
+import { Clase, ClasesLogic, Reserva, ResultadoReserva } from '../classes/clases';
+import { Usuario } from '../auth/auth';
+import { MembresiaLogic } from '../membership/membresia';
+import { ErrorNegocio, MotivoError } from '../domain/errores';
+import { MensajeSaliente } from '../notifications/notificaciones';
+
+/**
+ * --- PORTAL DEL SOCIO ---
+ * El socio entra con su DNI y un código de un solo uso; ve su plan, su
+ * cuenta, su credencial y sus clases. Lo que cambia el precio (pasarse de
+ * plan) no se aplica solo: queda como SOLICITUD hasta que alguien del
+ * gimnasio la aprueba, como una bandeja de entrada.
+ */
+export type EstadoSolicitud = 'pendiente' | 'aprobada' | 'rechazada';
+
+export interface SolicitudPlan {
+  id: string;
+  socioId: string;
+  socioNombre: string;
+  sede: string;
+  planActual: string;
+  planNuevo: string;
+  importeEstimado: number; // Lo que se le mostró al socio al pedirla
+  fecha: string;
+  estado: EstadoSolicitud;
+  resueltaPor?: string;
+  resueltaEn?: string;
+  nota?: string;           // Motivo del rechazo, por ejemplo
+}
+
+/** Lo del gimnasio de donde sale lo que ve un socio. */
+export interface FuentesPortal {
+  ledger: LedgerFacturacion;
+  precios: ConfigPrecios;
+  clases: Clase[];
+  reservas: Reserva[];
+  solicitudes: SolicitudPlan[];
+}
+
+/**
+ * Lo que recibe el portal: solo lo del socio. Del libro, sus facturas y
+ * pagos; de la agenda, las clases de su sede, y de las reservas ajenas solo
+ * cuántas hay (sin socioId), para mostrar el cupo.
+ */
+export interface DatosPortal extends FuentesPortal {
+  socio: Socio;
+}
+
+export const VIGENCIA_CODIGO_MS = 10 * 60 * 1000;
+export const ESPERA_REENVIO_MS = 60 * 1000;
+export const MAX_INTENTOS_CODIGO = 5;
+export const DURACION_SESION_PORTAL_MS = 2 * 60 * 60 * 1000;
+const DIGITOS_CODIGO = 6;
+
+export interface LineaCuenta {
+  factura: Factura;
+  estado: EstadoFactura;
+  pagado: number;
+  saldo: number;
+  pagos: Pago[];
+}
+
+export interface EstadoCuenta {
+  lineas: LineaCuenta[]; // La más reciente primero
+  saldo: number;         // Total adeudado (vencido o no)
+  vencido: number;
+}
+
+export class PortalLogic {
+  /** El socio que puede entrar con ese documento (los cancelados no). */
+  static buscarSocio(socios: Socio[], dni: number): Socio {
+    const socio = socios.find(s => s.dni === dni && s.estado !== 'cancelada');
+    if (!socio) throw new ErrorNegocio('socio_no_encontrado');
+    return socio;
+  }
+
+  static generarCodigo(): string {
+    return String(crypto.getRandomValues(new Uint32Array(1))[0] % 10 ** DIGITOS_CODIGO).padStart(DIGITOS_CODIGO, '0');
+  }
+
+  /** Por WhatsApp si hay teléfono; si no, por email. */
+  static mensajeCodigo(socio: Socio, gimnasio: string, codigo: string): MensajeSaliente {
+    const canal = socio.telefono ? 'whatsapp' : socio.email ? 'email' : null;
+    if (!canal) throw new ErrorNegocio('sin_contacto');
+    return {
+      canal,
+      destino: canal === 'whatsapp' ? socio.telefono : socio.email,
+      asunto: `Tu código de acceso a ${gimnasio}`,
+      cuerpo: `Tu código para entrar al portal de ${gimnasio} es ${codigo}. Vence en 10 minutos.`
+    };
+  }
+
+  static recortar(socio: Socio, fuentes: FuentesPortal): DatosPortal {
+    const facturas = fuentes.ledger.facturas.filter(f => f.socioId === socio.id);
+    const ids = new Set(facturas.map(f => f.id));
+    const clases = fuentes.clases.filter(c => c.sede === socio.sede);
+    const propias = new Set(clases.map(c => c.id));
+    return {
+      socio,
+      ledger: { ciclos: fuentes.ledger.ciclos.filter(c => c.socioId === socio.id), facturas, pagos: fuentes.ledger.pagos.filter(p => ids.has(p.facturaId)) },
+      precios: fuentes.precios,
+      clases,
+      reservas: fuentes.reservas
+        .filter(r => propias.has(r.claseId))
+        .map(r => (r.socioId === socio.id ? r : { ...r, socioId: '' })),
+      solicitudes: fuentes.solicitudes.filter(s => s.socioId === socio.id)
+    };
+  }
+
+  /** Reserva desde el portal: solo clases de su sede, en un día en que se dictan. */
+  static reservar(socio: Socio, fuentes: FuentesPortal, claseId: string, fecha: string, ahora: Date): ResultadoReserva {
+    const clase = fuentes.clases.find(c => c.id === claseId && c.sede === socio.sede);
+    if (!clase) throw new ErrorNegocio('clase_otra_sede');
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(fecha) || ClasesLogic.inicio(clase, fecha).getDay() !== clase.dia) {
+      throw new ErrorNegocio('clase_otro_dia');
+    }
+    return ClasesLogic.reservar(fuentes.reservas, clase, socio, fecha, ahora);
+  }
+
+  /** Un socio solo cancela sus reservas; si libera un lugar, sube alguien de la lista de espera. */
+  static cancelar(socio: Socio, fuentes: FuentesPortal, reservaId: string, ahora: Date): ResultadoReserva {
+    const reserva = fuentes.reservas.find(r => r.id === reservaId && r.socioId === socio.id);
+    const clase = reserva && fuentes.clases.find(c => c.id === reserva.claseId);
+    if (!reserva || !clase) throw new ErrorNegocio('reserva_inexistente');
+    return ClasesLogic.cancelar(fuentes.reservas, clase, reserva.id, ahora);
+  }
+
+  /** La solicitud con el importe cotizado con los precios vigentes. */
+  static pedirCambio(socio: Socio, fuentes: FuentesPortal, planNuevo: string, ahora: Date): SolicitudPlan {
+    const motivo = PortalLogic.motivoRechazo(fuentes.solicitudes, socio, planNuevo);
+    if (motivo) throw new ErrorNegocio(motivo.codigo, motivo.variables);
+    if (!fuentes.precios.planes.some(p => p.id === planNuevo)) throw new ErrorNegocio('plan_inexistente');
+    const importe = FitnessBusinessLogic.cotizar(fuentes.precios, { ...socio, membresia: planNuevo }, ahora).total;
+    return PortalLogic.solicitar(socio, planNuevo, importe, ahora);
+  }
+
+  static estadoCuenta(ledger: LedgerFacturacion, socioId: string, hoy: Date): EstadoCuenta {
+    const lineas = ledger.facturas
+      .filter(f => f.socioId === socioId)
+      .sort((a, b) => b.periodo.localeCompare(a.periodo))
+      .map(factura => ({
+        factura,
+        estado: BillingLogic.estado(ledger, factura, hoy),
+        pagado: BillingLogic.pagado(ledger, factura.id),
+        saldo: BillingLogic.saldo(ledger, factura),
+        pagos: ledger.pagos.filter(p => p.facturaId === factura.id)
+      }));
+    return {
+      lineas,
+      saldo: lineas.reduce((acc, l) => acc + l.saldo, 0),
+      vencido: lineas.filter(l => l.estado === 'vencida').reduce((acc, l) => acc + l.saldo, 0)
+    };
+  }
+
+  /** null si el socio puede pedir el cambio; si no, el motivo para mostrarle. */
+  static motivoRechazo(solicitudes: SolicitudPlan[], socio: Socio, planNuevo: string): MotivoError | null {
+    if (!MembresiaLogic.habilitado(socio)) return { codigo: 'cambio_no_habilitado', variables: { estado: { clave: `membresia.${socio.estado}` } } };
+    if (planNuevo === socio.membresia) return { codigo: 'mismo_plan' };
+    if (solicitudes.some(s => s.socioId === socio.id && s.estado === 'pendiente')) return { codigo: 'cambio_pendiente' };
+    return null;
+  }
+
+  static solicitar(socio: Socio, planNuevo: string, importeEstimado: number, ahora: Date): SolicitudPlan {
+    return {
+      id: crypto.randomUUID(),
+      socioId: socio.id,
+      socioNombre: socio.nombre,
+      sede: socio.sede,
+      planActual: socio.membresia,
+      planNuevo,
+      importeEstimado,
+      fecha: ahora.toISOString(),
+      estado: 'pendiente'
+    };
+  }
+
+  static resolver(solicitud: SolicitudPlan, aprobada: boolean, usuario: Usuario, ahora: Date, nota?: string): SolicitudPlan {
+    return {
+      ...solicitud,
+      estado: aprobada ? 'aprobada' : 'rechazada',
+      resueltaPor: usuario.nombre,
+      resueltaEn: ahora.toISOString(),
+      nota: nota?.trim() || undefined
+    };
+  }
+
+  // "11223344" -> "11•••••44", "ana@mail.com" -> "a••@mail.com": se reconoce sin exponerlo.
+  static ocultar(destino: string): string {
+    const [usuario, dominio] = destino.split('@');
+    if (dominio !== undefined) return `${usuario.slice(0, 1)}••@${dominio}`;
+    return destino.length <= 4 ? '••••' : `${destino.slice(0, 2)}${'•'.repeat(destino.length - 4)}${destino.slice(-2)}`;
+  }
+}
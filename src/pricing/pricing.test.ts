@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+
+import { ConfigPrecios, ContextoPrecio, PRECIOS_POR_DEFECTO, PricingEngine, Regla } from './pricing';
+
+const ctx = (cambios: Partial<ContextoPrecio> = {}): ContextoPrecio => ({
+  edad: 30,
+  membresia: 'BAS',
+  sede: 'CBA',
+  metodoPago: 'efectivo',
+  fecha: new Date(2026, 2, 15),
+  ...cambios
+});
+
+const conReglas = (...reglas: Regla[]): ConfigPrecios => ({ planes: PRECIOS_POR_DEFECTO.planes, reglas });
+
+describe('PricingEngine.precioBase', () => {
+  it('usa el precio de la sede si el plan tiene uno', () => {
+    const config: ConfigPrecios = {
+      planes: [{ id: 'BAS', nombre: 'Básica', precioBase: 12000, preciosPorSede: { ROS: 10000 } }],
+      reglas: []
+    };
+
+    expect(PricingEngine.precioBase(config, 'BAS', 'ROS')).toBe(10000);
+    expect(PricingEngine.precioBase(config, 'BAS', 'CBA')).toBe(12000);
+    expect(PricingEngine.precioBase(config, 'XXX', 'CBA')).toBe(0);
+  });
+});
+
+describe('PricingEngine.calcular', () => {
+  it('reproduce los precios históricos: el recargo por tarjeta va sobre el monto ya descontado', () => {
+    const desglose = PricingEngine.calcular(PRECIOS_POR_DEFECTO, ctx({ edad: 15, metodoPago: 'tarjeta' }));
+
+    expect(desglose.lineas.map(l => l.monto)).toEqual([-2400, 480]);
+    expect(desglose.total).toBe(10080);
+  });
+
+  it('dentro de un mismo tipo gana la regla más conveniente', () => {
+    const config = conReglas(
+      { id: 'a', tipo: 'edad', nombre: 'Joven', activa: true, porcentaje: -10, edadMin: null, edadMax: 25 },
+      { id: 'b', tipo: 'edad', nombre: 'Estudiante', activa: true, porcentaje: -25, edadMin: 18, edadMax: 30 }
+    );
+    const desglose = PricingEngine.calcular(config, ctx({ edad: 20 }));
+
+    expect(desglose.lineas).toEqual([{ concepto: 'Estudiante (-25%)', monto: -3000 }]);
+  });
+
+  it('ignora las reglas inactivas', () => {
+    const config = conReglas({ id: 'g', tipo: 'grupo', nombre: 'Grupo', activa: false, porcentaje: -15, minIntegrantes: 3 });
+
+    expect(PricingEngine.calcular(config, ctx({ integrantesGrupo: 4 })).total).toBe(12000);
+  });
+
+  it('aplica los descuentos en orden y acumula sobre el monto anterior', () => {
+    const config = conReglas(
+      { id: 'p', tipo: 'prepago', nombre: 'Anual', activa: true, porcentaje: -10, meses: 12 },
+      { id: 'g', tipo: 'grupo', nombre: 'Grupo', activa: true, porcentaje: -50, minIntegrantes: 3 }
+    );
+    const desglose = PricingEngine.calcular(config, ctx({ integrantesGrupo: 3, mesesPrepago: 12 }));
+
+    expect(desglose.lineas.map(l => l.concepto)).toEqual(['Grupo (-50%)', 'Anual (-10%)']);
+    expect(desglose.total).toBe(5400);
+  });
+
+  describe('códigos promocionales', () => {
+    const config = conReglas({ id: 'v', tipo: 'promo', nombre: 'Verano', activa: true, porcentaje: -20, codigo: 'VERANO', vence: '2026-03-15' });
+
+    it('aplica el código sin distinguir mayúsculas, hasta el último día inclusive', () => {
+      const desglose = PricingEngine.calcular(config, ctx({ codigoPromo: ' verano ', fecha: new Date(2026, 2, 15, 22) }));
+
+      expect(desglose.total).toBe(9600);
+      expect(desglose.avisos).toEqual([]);
+    });
+
+    it('avisa si el código venció', () => {
+      const desglose = PricingEngine.calcular(config, ctx({ codigoPromo: 'verano', fecha: new Date(2026, 2, 16) }));
+
+      expect(desglose.total).toBe(12000);
+      expect(desglose.avisos).toEqual([{ tipo: 'promo_vencida', codigo: 'VERANO' }]);
+    });
+
+    it('avisa si el código no existe', () => {
+      expect(PricingEngine.calcular(config, ctx({ codigoPromo: 'OTOÑO' })).avisos).toEqual([{ tipo: 'promo_inexistente' }]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * --- MOTOR DE PRECIOS ---
+ * Los precios ya no están escritos en el código: cada gimnasio define sus
+ * planes (con precio distinto por sede si quiere) y una lista de reglas.
+ * El motor arranca del precio base y aplica las reglas que corresponden,
+ * una por una, devolviendo cada paso como una línea del desglose.
+ *
+ * Orden de aplicación: primero los descuentos (edad, grupo, promo, prepago)
+ * y al final los recargos por método de pago, que se cobran sobre el monto
+ * ya descontado (igual que hacía el viejo cálculo: 0.8 * 1.05).
+ */
+export interface Plan {
+  id: string;
+  nombre: string;
+  precioBase: number;
+  preciosPorSede: Record<string, number>; // Sobrescribe precioBase en esa sede
+}
+
+interface ReglaBase {
+  id: string;
+  nombre: string;
+  activa: boolean;
+  porcentaje: number; // Negativo = descuento, positivo = recargo
+}
+
+export type Regla =
+  | (ReglaBase & { tipo: 'edad'; edadMin: number | null; edadMax: number | null })
+  | (ReglaBase & { tipo: 'grupo'; minIntegrantes: number })
+  | (ReglaBase & { tipo: 'promo'; codigo: string; vence: string })
+  | (ReglaBase & { tipo: 'prepago'; meses: number })
+  | (ReglaBase & { tipo: 'metodo_pago'; metodo: string });
+
+export type TipoRegla = Regla['tipo'];
+
+export interface ConfigPrecios {
+  planes: Plan[];
+  reglas: Regla[];
+}
+
+export interface ContextoPrecio {
+  edad: number | null; // null = todavía no se conoce (alta a medio cargar)
+  membresia: string;
+  sede: string;
+  metodoPago: string;
+  codigoPromo?: string;
+  integrantesGrupo?: number;
+  mesesPrepago?: number;
+  fecha: Date;
+}
+
+export interface LineaPrecio {
+  concepto: string;
+  monto: number;
+}
+
+// Lo que el motor no pudo aplicar; la pantalla lo muestra en el idioma del gimnasio.
+export type AvisoPrecio = { tipo: 'promo_vencida'; codigo: string } | { tipo: 'promo_inexistente' };
+
+export interface DesglosePrecio {
+  base: number;
+  lineas: LineaPrecio[];
+  avisos: AvisoPrecio[];
+  total: number;
+}
+
+export const TIPOS_REGLA: TipoRegla[] = ['edad', 'grupo', 'promo', 'prepago', 'metodo_pago'];
+
+// Reproduce los precios y reglas históricos: nadie ve cambios al actualizar.
+export const PRECIOS_POR_DEFECTO: ConfigPrecios = {
+  planes: [
+    { id: "BAS", nombre: "Básica", precioBase: 12000, preciosPorSede: {} },
+    { id: "STD", nombre: "Standard", precioBase: 18000, preciosPorSede: {} },
+    { id: "PRE", nombre: "Premium", precioBase: 25000, preciosPorSede: {} }
+  ],
+  reglas: [
+    { id: 'menores', tipo: 'edad', nombre: 'Descuento menores', activa: true, porcentaje: -20, edadMin: null, edadMax: 17 },
+    { id: 'tarjeta', tipo: 'metodo_pago', nombre: 'Recargo tarjeta', activa: true, porcentaje: 5, metodo: 'tarjeta' }
+  ]
+};
+
+const ORDEN_TIPO: Record<TipoRegla, number> = { edad: 0, grupo: 1, promo: 2, prepago: 3, metodo_pago: 4 };
+
+export class PricingEngine {
+  static precioBase(config: ConfigPrecios, membresia: string, sede: string): number {
+    const plan = config.planes.find(p => p.id === membresia);
+    if (!plan) return 0;
+    return plan.preciosPorSede[sede] ?? plan.precioBase;
+  }
+
+  static aplica(regla: Regla, ctx: ContextoPrecio): boolean {
+    if (!regla.activa) return false;
+    switch (regla.tipo) {
+      case 'edad':
+        return ctx.edad !== null
+          && (regla.edadMin === null || ctx.edad >= regla.edadMin) && (regla.edadMax === null || ctx.edad <= regla.edadMax);
+      case 'grupo':
+        return (ctx.integrantesGrupo ?? 1) >= regla.minIntegrantes;
+      case 'promo':
+        return !!ctx.codigoPromo && ctx.codigoPromo.trim().toUpperCase() === regla.codigo.toUpperCase()
+          && PricingEngine.promoVigente(regla, ctx.fecha);
+      case 'prepago':
+        return (ctx.mesesPrepago ?? 1) >= regla.meses;
+      case 'metodo_pago':
+        return ctx.metodoPago === regla.metodo;
+    }
+  }
+
+  static promoVigente(regla: { vence: string }, fecha: Date): boolean {
+    // 'vence' es el último día válido, inclusive.
+    return new Date(`${regla.vence}T23:59:59`).getTime() >= fecha.getTime();
+  }
+
+  static calcular(config: ConfigPrecios, ctx: ContextoPrecio): DesglosePrecio {
+    const base = PricingEngine.precioBase(config, ctx.membresia, ctx.sede);
+    const lineas: LineaPrecio[] = [];
+    const avisos: AvisoPrecio[] = [];
+
+    // Dentro de un mismo tipo gana la regla más conveniente (ej.: dos franjas de edad superpuestas).
+    const aplicables = config.reglas
+      .filter(r => PricingEngine.aplica(r, ctx))
+      .sort((a, b) => ORDEN_TIPO[a.tipo] - ORDEN_TIPO[b.tipo] || a.porcentaje - b.porcentaje)
+      .filter((r, i, todas) => todas.findIndex(o => o.tipo === r.tipo) === i);
+
+    let total = base;
+    for (const regla of aplicables) {
+      const monto = total * (regla.porcentaje / 100);
+      lineas.push({ concepto: `${regla.nombre} (${regla.porcentaje > 0 ? '+' : ''}${regla.porcentaje}%)`, monto });
+      total += monto;
+    }
+
+    if (ctx.codigoPromo?.trim() && !aplicables.some(r => r.tipo === 'promo')) {
+      const promo = config.reglas
+        .filter((r): r is Extract<Regla, { tipo: 'promo' }> => r.tipo === 'promo')
+        .find(r => r.codigo.toUpperCase() === ctx.codigoPromo!.trim().toUpperCase());
+      avisos.push(promo && promo.activa ? { tipo: 'promo_vencida', codigo: promo.codigo.toUpperCase() } : { tipo: 'promo_inexistente' });
+    }
+
+    return { base, lineas, avisos, total };
+  }
+}
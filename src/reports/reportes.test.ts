@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+
+import { DatosReporte, PeriodoReporte, ReportesLogic } from './reportes';
+import { Socio } from '../domain/socio';
+import { SEDES_POR_DEFECTO } from '../domain/sede';
+import { Factura, Pago } from '../billing/billing';
+import { PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+import { AccionAuditoria, EventoAuditoria } from '../audit/audit';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const factura = (id: string, socioId: string, importe: number, recargo = 0): Factura =>
+  ({ id, socioId, periodo: '2026-03', vencimiento: '2026-03-10', importe, recargo });
+
+const pago = (id: string, facturaId: string, socioId: string, fecha: Date, monto: number, metodo: Pago['metodo']): Pago =>
+  ({ id, facturaId, socioId, fecha: fecha.toISOString(), monto, metodo });
+
+const evento = (socioId: string, accion: AccionAuditoria, fecha: Date): EventoAuditoria =>
+  ({ id: `${socioId}-${accion}`, socioId, fecha: fecha.toISOString(), usuarioId: 'u1', usuarioNombre: 'Admin', accion, cambios: [] });
+
+const marzo: PeriodoReporte = { tipo: 'mes', anio: 2026, numero: 3 };
+
+const datos: DatosReporte = {
+  ledger: {
+    ciclos: [],
+    facturas: [factura('f1', 's1', 18900), factura('f2', 's2', 12000, 1200), factura('f3', 's3', 12000)],
+    pagos: [
+      pago('p1', 'f1', 's1', new Date(2026, 2, 10), 18900, 'tarjeta'),
+      pago('p2', 'f2', 's2', new Date(2026, 2, 12), 13200, 'efectivo'),
+      pago('p3', 'f3', 's3', new Date(2026, 2, 12), 12000, 'efectivo'), // De otra sede: no es visible
+      pago('p4', 'f1', 's1', new Date(2026, 1, 28, 23, 59), 100, 'efectivo')
+    ]
+  },
+  socios: [unSocio({ metodoPago: 'tarjeta' }), unSocio({ id: 's2', sede: 'ROS', membresia: 'BAS', estado: 'cancelada' })],
+  sedes: SEDES_POR_DEFECTO,
+  precios: PRECIOS_POR_DEFECTO,
+  eventos: [
+    evento('s1', 'alta', new Date(2026, 2, 1)),
+    evento('s2', 'baja', new Date(2026, 2, 31, 23)),
+    evento('s3', 'alta', new Date(2026, 2, 5)),
+    evento('s2', 'alta', new Date(2025, 11, 1))
+  ]
+};
+
+describe('ReportesLogic periodos', () => {
+  it('el trimestre agrupa tres meses y los desplazamientos cruzan el año', () => {
+    const t1 = ReportesLogic.periodoDe(new Date(2026, 2, 31), 'trimestre');
+
+    expect(t1).toEqual({ tipo: 'trimestre', anio: 2026, numero: 1 });
+    expect(ReportesLogic.rango(t1)).toEqual({ desde: new Date(2026, 0, 1), hasta: new Date(2026, 3, 1) });
+    expect(ReportesLogic.desplazar(t1, -1)).toEqual({ tipo: 'trimestre', anio: 2025, numero: 4 });
+    expect(ReportesLogic.desplazar(marzo, 10)).toEqual({ tipo: 'mes', anio: 2027, numero: 1 });
+  });
+
+  it('etiquetas larga y corta', () => {
+    expect(ReportesLogic.etiqueta(marzo)).toBe('Marzo 2026');
+    expect(ReportesLogic.etiquetaCorta({ tipo: 'trimestre', anio: 2026, numero: 2 })).toBe('T2 26');
+  });
+});
+
+describe('ReportesLogic.generar', () => {
+  const reporte = ReportesLogic.generar(datos, marzo);
+
+  it('suma solo los pagos del periodo de los socios visibles', () => {
+    expect(reporte).toMatchObject({ etiqueta: 'Marzo 2026', ingresos: 32100, cantidadPagos: 2, ticketPromedio: 16050 });
+  });
+
+  it('abre los ingresos por sede, plan y método de pago, de mayor a menor', () => {
+    expect(reporte.porSede).toEqual([
+      { clave: 'CBA', nombre: 'Córdoba', monto: 18900, pagos: 1 },
+      { clave: 'ROS', nombre: 'Rosario', monto: 13200, pagos: 1 }
+    ]);
+    expect(reporte.porPlan.map(f => f.nombre)).toEqual(['Standard', 'Básica']);
+    expect(reporte.porMetodo.map(f => [f.clave, f.nombre])).toEqual([['tarjeta', 'Tarjeta'], ['efectivo', 'Efectivo / Débito']]);
+  });
+
+  it('separa el recargo por tarjeta incluido en el monto y la mora cobrada', () => {
+    expect(reporte.recargoTarjeta).toBe(900);
+    expect(reporte.recargoMora).toBe(1200);
+  });
+
+  it('cuenta las altas y bajas del log de auditoría', () => {
+    expect([reporte.altas, reporte.bajas]).toEqual([1, 1]);
+  });
+});
+
+describe('ReportesLogic.comparar', () => {
+  it('sin nada en el periodo anterior no hay variación que calcular', () => {
+    const anterior = ReportesLogic.generar(datos, ReportesLogic.desplazar(marzo, -1));
+    const variaciones = ReportesLogic.comparar(ReportesLogic.generar(datos, marzo), anterior);
+
+    expect(variaciones.ingresos).toBe(32000);
+    expect(variaciones.altas).toBeNull();
+  });
+});
+
+describe('ReportesLogic.aHtml', () => {
+  it('escapa los nombres que vienen de los datos', () => {
+    const conSedeRara = { ...datos, sedes: SEDES_POR_DEFECTO.map(s => (s.codigo === 'CBA' ? { ...s, nombre: '<b>Centro</b>' } : s)) };
+    const reporte = ReportesLogic.generar(conSedeRara, marzo);
+    const html = ReportesLogic.aHtml(reporte, ReportesLogic.comparar(reporte, reporte), []);
+
+    expect(html).toContain('&lt;b&gt;Centro&lt;/b&gt;');
+    expect(html).not.toContain('<b>Centro</b>');
+  });
+});
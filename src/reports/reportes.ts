@@ -0,0 +1,273 @@
+import { Socio } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { BillingLogic, LedgerFacturacion, MetodoPago } from '../billing/billing';
+import { ConfigPrecios, Regla } from '../pricing/pricing';
+import { EventoAuditoria } from '../audit/audit';
+import { ConfigRegional, FormatoLogic, REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+/**
+ * --- REPORTES FINANCIEROS ---
+ * El dashboard muestra una foto del momento; el contador necesita periodos
+ * cerrados. Un reporte toma los pagos del libro de cobranzas con fecha dentro
+ * del mes o trimestre elegido y los abre por sede, plan y método de pago.
+ * Las altas y bajas salen del log de auditoría.
+ *
+ * Sede y plan son los que el socio tiene hoy: el libro no guarda una copia
+ * por pago. Los recargos por tarjeta se estiman con las reglas de precios
+ * vigentes.
+ */
+export type TipoPeriodo = 'mes' | 'trimestre';
+
+export interface PeriodoReporte {
+  tipo: TipoPeriodo;
+  anio: number;
+  numero: number; // 1-12 para meses, 1-4 para trimestres
+}
+
+export interface FilaDesglose {
+  clave: string;
+  nombre: string;
+  monto: number;
+  pagos: number;
+}
+
+export interface ReporteFinanciero {
+  periodo: PeriodoReporte;
+  etiqueta: string;
+  ingresos: number;
+  cantidadPagos: number;
+  ticketPromedio: number;
+  recargoTarjeta: number;
+  recargoMora: number;
+  altas: number;
+  bajas: number;
+  porSede: FilaDesglose[];
+  porPlan: FilaDesglose[];
+  porMetodo: FilaDesglose[];
+}
+
+export interface PuntoSerie {
+  etiqueta: string;
+  ingresos: number;
+}
+
+// Variación porcentual contra el periodo anterior; null si antes no hubo nada con qué comparar.
+export type Variaciones = Record<'ingresos' | 'ticketPromedio' | 'cantidadPagos' | 'altas' | 'bajas', number | null>;
+
+export interface DatosReporte {
+  ledger: LedgerFacturacion;
+  socios: Socio[];   // Los visibles para el usuario, incluidas las bajas
+  sedes: Sede[];
+  precios: ConfigPrecios;
+  eventos: EventoAuditoria[];
+  regional?: ConfigRegional; // Idioma de los meses y de los métodos de pago; sin indicarlo, el de Argentina
+}
+
+const MESES_POR_PERIODO: Record<TipoPeriodo, number> = { mes: 1, trimestre: 3 };
+
+// Los nombres de los meses los da el idioma del gimnasio ("octubre", "October"): van con mayúscula por ser un título.
+const nombreMes = (periodo: PeriodoReporte, regional: ConfigRegional, mes: 'long' | 'short') => {
+  const nombre = FormatoLogic.fecha(new Date(periodo.anio, periodo.numero - 1, 1), regional, { month: mes }).replace('.', '');
+  return nombre.charAt(0).toUpperCase() + nombre.slice(1);
+};
+
+/** Para los datos que van dentro del HTML que se imprime (reportes, recibos, credenciales). */
+const ENTIDADES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+export const escaparHtml = (texto: string) => texto.replace(/[&<>"']/g, c => ENTIDADES[c]);
+
+export class ReportesLogic {
+  static periodoDe(fecha: Date, tipo: TipoPeriodo): PeriodoReporte {
+    const mes = fecha.getMonth();
+    return { tipo, anio: fecha.getFullYear(), numero: tipo === 'mes' ? mes + 1 : Math.floor(mes / 3) + 1 };
+  }
+
+  /** Rango [desde, hasta) en hora local: del primer día del periodo al primero del siguiente. */
+  static rango(periodo: PeriodoReporte): { desde: Date; hasta: Date } {
+    const meses = MESES_POR_PERIODO[periodo.tipo];
+    const mesInicial = (periodo.numero - 1) * meses;
+    return {
+      desde: new Date(periodo.anio, mesInicial, 1),
+      hasta: new Date(periodo.anio, mesInicial + meses, 1)
+    };
+  }
+
+  static desplazar(periodo: PeriodoReporte, cantidad: number): PeriodoReporte {
+    const porAnio = periodo.tipo === 'mes' ? 12 : 4;
+    const indice = periodo.anio * porAnio + (periodo.numero - 1) + cantidad;
+    return { tipo: periodo.tipo, anio: Math.floor(indice / porAnio), numero: (indice % porAnio) + 1 };
+  }
+
+  static etiqueta(periodo: PeriodoReporte, regional: ConfigRegional = REGIONAL_POR_DEFECTO): string {
+    return periodo.tipo === 'mes'
+      ? `${nombreMes(periodo, regional, 'long')} ${periodo.anio}`
+      : I18nLogic.traducir(regional.idioma, 'reporte.trimestre', { n: periodo.numero, anio: periodo.anio });
+  }
+
+  static etiquetaCorta(periodo: PeriodoReporte, regional: ConfigRegional = REGIONAL_POR_DEFECTO): string {
+    const anio = String(periodo.anio).slice(2);
+    return periodo.tipo === 'mes'
+      ? `${nombreMes(periodo, regional, 'short')} ${anio}`
+      : I18nLogic.traducir(regional.idioma, 'reporte.trimestreCorto', { n: periodo.numero, anio });
+  }
+
+  /**
+   * El recargo por tarjeta ya viene incluido en el monto: si la regla suma
+   * un p%, del total cobrado la parte del recargo es p / (100 + p).
+   */
+  static recargoIncluido(precios: ConfigPrecios, metodo: MetodoPago, monto: number): number {
+    const regla = precios.reglas.find(
+      (r): r is Extract<Regla, { tipo: 'metodo_pago' }> => r.tipo === 'metodo_pago' && r.activa && r.metodo === metodo
+    );
+    if (!regla || regla.porcentaje <= 0) return 0;
+    return monto * (regla.porcentaje / (100 + regla.porcentaje));
+  }
+
+  static generar(datos: DatosReporte, periodo: PeriodoReporte): ReporteFinanciero {
+    const regional = datos.regional ?? REGIONAL_POR_DEFECTO;
+    const { desde, hasta } = ReportesLogic.rango(periodo);
+    const socios = new Map(datos.socios.map(s => [s.id, s]));
+    const facturas = new Map(datos.ledger.facturas.map(f => [f.id, f]));
+    const pagos = datos.ledger.pagos.filter(p => {
+      const fecha = new Date(p.fecha);
+      return socios.has(p.socioId) && fecha >= desde && fecha < hasta;
+    });
+
+    const porSede = new Map<string, FilaDesglose>();
+    const porPlan = new Map<string, FilaDesglose>();
+    const porMetodo = new Map<string, FilaDesglose>();
+    const acumular = (mapa: Map<string, FilaDesglose>, clave: string, nombre: string, monto: number) => {
+      const fila = mapa.get(clave) ?? { clave, nombre, monto: 0, pagos: 0 };
+      mapa.set(clave, { ...fila, monto: fila.monto + monto, pagos: fila.pagos + 1 });
+    };
+
+    let recargoTarjeta = 0;
+    let recargoMora = 0;
+    for (const pago of pagos) {
+      const socio = socios.get(pago.socioId)!;
+      acumular(porSede, socio.sede, SedeLogic.nombre(datos.sedes, socio.sede), pago.monto);
+      acumular(porPlan, socio.membresia, datos.precios.planes.find(p => p.id === socio.membresia)?.nombre ?? socio.membresia, pago.monto);
+      acumular(porMetodo, pago.metodo, I18nLogic.traducir(regional.idioma, `metodo.${pago.metodo}`), pago.monto);
+
+      // La mora se reparte en proporción: un pago parcial cubre una parte del recargo.
+      const factura = facturas.get(pago.facturaId);
+      const mora = factura && factura.recargo > 0 ? pago.monto * (factura.recargo / BillingLogic.totalFactura(factura)) : 0;
+      recargoMora += mora;
+      recargoTarjeta += ReportesLogic.recargoIncluido(datos.precios, pago.metodo, pago.monto - mora);
+    }
+
+    const inicio = desde.toISOString();
+    const fin = hasta.toISOString();
+    const eventos = datos.eventos.filter(e => socios.has(e.socioId) && e.fecha >= inicio && e.fecha < fin);
+    const ingresos = pagos.reduce((acc, p) => acc + p.monto, 0);
+    const ordenar = (mapa: Map<string, FilaDesglose>) => [...mapa.values()].sort((a, b) => b.monto - a.monto);
+
+    return {
+      periodo,
+      etiqueta: ReportesLogic.etiqueta(periodo, regional),
+      ingresos,
+      cantidadPagos: pagos.length,
+      ticketPromedio: pagos.length ? ingresos / pagos.length : 0,
+      recargoTarjeta: Math.round(recargoTarjeta),
+      recargoMora: Math.round(recargoMora),
+      altas: eventos.filter(e => e.accion === 'alta').length,
+      bajas: eventos.filter(e => e.accion === 'baja').length,
+      porSede: ordenar(porSede),
+      porPlan: ordenar(porPlan),
+      porMetodo: ordenar(porMetodo)
+    };
+  }
+
+  static variacion(actual: number, anterior: number): number | null {
+    if (anterior === 0) return null;
+    return ((actual - anterior) / anterior) * 100;
+  }
+
+  static comparar(actual: ReporteFinanciero, anterior: ReporteFinanciero): Variaciones {
+    return {
+      ingresos: ReportesLogic.variacion(actual.ingresos, anterior.ingresos),
+      ticketPromedio: ReportesLogic.variacion(actual.ticketPromedio, anterior.ticketPromedio),
+      cantidadPagos: ReportesLogic.variacion(actual.cantidadPagos, anterior.cantidadPagos),
+      altas: ReportesLogic.variacion(actual.altas, anterior.altas),
+      bajas: ReportesLogic.variacion(actual.bajas, anterior.bajas)
+    };
+  }
+
+  /** Ingresos de los últimos `cantidad` periodos, terminando en `hasta` (para el gráfico). */
+  static serie(datos: DatosReporte, hasta: PeriodoReporte, cantidad: number): PuntoSerie[] {
+    return Array.from({ length: cantidad }, (_, i) => {
+      const periodo = ReportesLogic.desplazar(hasta, i - cantidad + 1);
+      return { etiqueta: ReportesLogic.etiquetaCorta(periodo, datos.regional), ingresos: ReportesLogic.generar(datos, periodo).ingresos };
+    });
+  }
+
+  /** Documento HTML autocontenido, pensado para imprimir o guardar como PDF. */
+  static aHtml(reporte: ReporteFinanciero, variaciones: Variaciones, serie: PuntoSerie[], regional: ConfigRegional = REGIONAL_POR_DEFECTO): string {
+    const t = I18nLogic.traductor(regional.idioma);
+    const moneda = (n: number) => FormatoLogic.moneda(Math.round(n), regional);
+    const variacion = (v: number | null) => (v === null ? '—' : `${v >= 0 ? '+' : ''}${FormatoLogic.numero(v, regional, 1)}%`);
+    const maximo = Math.max(1, ...serie.map(p => p.ingresos));
+    const tabla = (titulo: string, filas: FilaDesglose[]) => `
+      <h2>${titulo}</h2>
+      <table>
+        <thead><tr><th>${t('reporte.concepto')}</th><th>${t('reporte.pagos')}</th><th>${t('reporte.monto')}</th><th>%</th></tr></thead>
+        <tbody>
+          ${filas.map(f => `<tr><td>${escaparHtml(f.nombre)}</td><td>${f.pagos}</td><td>${moneda(f.monto)}</td><td>${FormatoLogic.numero(reporte.ingresos ? (f.monto / reporte.ingresos) * 100 : 0, regional, 1)}%</td></tr>`).join('')}
+          ${filas.length === 0 ? `<tr><td colspan="4">${t('reporte.sinMovimientos')}</td></tr>` : ''}
+        </tbody>
+      </table>`;
+
+    return `<!DOCTYPE html>
+<html lang="${regional.idioma}">
+<head>
+<meta charset="utf-8">
+<title>${t('reporte.titulo')} - ${escaparHtml(reporte.etiqueta)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #18181b; margin: 32px; }
+  h1 { margin: 0 0 4px; } h2 { margin-top: 28px; font-size: 15px; text-transform: uppercase; letter-spacing: .05em; }
+  .sub { color: #71717a; font-size: 12px; }
+  .kpis { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 20px; }
+  .kpi { border: 1px solid #e4e4e7; border-radius: 8px; padding: 10px; }
+  .kpi b { display: block; font-size: 18px; } .kpi span { font-size: 11px; color: #71717a; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e4e4e7; }
+  th:not(:first-child), td:not(:first-child) { text-align: right; }
+  .barras { display: flex; align-items: flex-end; gap: 6px; height: 120px; }
+  .barra { flex: 1; text-align: center; font-size: 9px; color: #71717a; }
+  .barra div { background: #2563eb; margin-bottom: 4px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+  <h1>${t('reporte.titulo')}</h1>
+  <div class="sub">${escaparHtml(t('reporte.generado', { periodo: reporte.etiqueta, fecha: FormatoLogic.fechaHora(new Date(), regional) }))}</div>
+  <div class="kpis">
+    <div class="kpi"><span>${t('reporte.ingresos')}</span><b>${moneda(reporte.ingresos)}</b><span>${t('reporte.vsAnterior', { variacion: variacion(variaciones.ingresos) })}</span></div>
+    <div class="kpi"><span>${t('reporte.ticketPromedio')}</span><b>${moneda(reporte.ticketPromedio)}</b><span>${t('reporte.cantidadPagos', { n: reporte.cantidadPagos })} · ${variacion(variaciones.ticketPromedio)}</span></div>
+    <div class="kpi"><span>${t('reporte.recargos')}</span><b>${moneda(reporte.recargoTarjeta + reporte.recargoMora)}</b><span>${t('reporte.detalleRecargos', { tarjeta: moneda(reporte.recargoTarjeta), mora: moneda(reporte.recargoMora) })}</span></div>
+    <div class="kpi"><span>${t('reporte.socios')}</span><b>+${reporte.altas} / −${reporte.bajas}</b><span>${t('reporte.altasBajas')}</span></div>
+  </div>
+  <h2>${t('reporte.evolucion')}</h2>
+  <div class="barras">
+    ${serie.map(p => `<div class="barra"><div style="height:${Math.round((p.ingresos / maximo) * 100)}px"></div>${escaparHtml(p.etiqueta)}</div>`).join('')}
+  </div>
+  ${tabla(t('reporte.porSede'), reporte.porSede)}
+  ${tabla(t('reporte.porPlan'), reporte.porPlan)}
+  ${tabla(t('reporte.porMetodo'), reporte.porMetodo)}
+</body>
+</html>`;
+  }
+
+  /**
+   * Abre el reporte en una ventana nueva y lanza el diálogo de impresión;
+   * desde ahí se elige la impresora o "Guardar como PDF".
+   */
+  static imprimir(html: string): boolean {
+    const ventana = window.open('', '_blank');
+    if (!ventana) return false;
+    ventana.document.write(html);
+    ventana.document.close();
+    ventana.focus();
+    ventana.print();
+    return true;
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+
+import { FILTROS_POR_DEFECTO, FiltrosPadron, PadronQuery } from './padronQuery';
+import { Socio } from '../domain/socio';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const hoy = new Date(2026, 2, 15);
+const filtros = (cambios: Partial<FiltrosPadron> = {}): FiltrosPadron => ({ ...FILTROS_POR_DEFECTO, ...cambios });
+
+describe('PadronQuery.coincide', () => {
+  const socio = unSocio({ nombre: 'María José González' });
+
+  it('no distingue mayúsculas ni tildes y acepta el comienzo de una palabra', () => {
+    expect(PadronQuery.coincide(socio, 'MARIA gonz')).toBe(true);
+    expect(PadronQuery.coincide(socio, 'jose maría')).toBe(true);
+  });
+
+  it('tolera errores de tipeo según el largo de lo buscado', () => {
+    expect(PadronQuery.coincide(socio, 'gonzales')).toBe(true);
+    expect(PadronQuery.coincide(socio, 'gomez')).toBe(false);
+    expect(PadronQuery.coincide(socio, 'mxa')).toBe(false);
+  });
+
+  it('si lo buscado son números, compara contra el DNI', () => {
+    expect(PadronQuery.coincide(unSocio(), '30.123')).toBe(true);
+    expect(PadronQuery.coincide(unSocio(), '999')).toBe(false);
+  });
+});
+
+describe('PadronQuery.filtrar', () => {
+  const socios = [
+    unSocio(),
+    unSocio({ id: 's2', nombre: 'Luis Díaz', dni: 28999888, sede: 'ROS', fechaNacimiento: '2010-01-01' }),
+    unSocio({ id: 's3', nombre: 'Eva Ruiz', dni: 27111222, membresia: 'PRE', estado: 'cancelada' })
+  ];
+  const deudas = new Map([['s2', 19800]]);
+  const ids = (cambios: Partial<FiltrosPadron>) => PadronQuery.filtrar(socios, filtros(cambios), deudas, hoy).map(f => f.socio.id);
+
+  it('por defecto muestra solo los activos', () => {
+    expect(ids({})).toEqual(['s1', 's2']);
+    expect(ids({ estado: 'bajas' })).toEqual(['s3']);
+    expect(ids({ estado: 'todos' })).toEqual(['s1', 's2', 's3']);
+  });
+
+  it('combina sede, plan, edad y deuda', () => {
+    expect(ids({ sedes: ['ROS'] })).toEqual(['s2']);
+    expect(ids({ estado: 'todos', membresias: ['PRE'] })).toEqual(['s3']);
+    expect(ids({ edadMax: 17 })).toEqual(['s2']);
+    expect(ids({ deuda: 'al_dia' })).toEqual(['s1']);
+    expect(ids({ deuda: 'con_deuda', texto: 'luis' })).toEqual(['s2']);
+  });
+
+  it('calcula la edad y la deuda de cada fila', () => {
+    const [fila] = PadronQuery.filtrar(socios, filtros({ sedes: ['ROS'] }), deudas, hoy);
+
+    expect(fila).toMatchObject({ edad: 16, deuda: 19800 });
+  });
+});
+
+describe('PadronQuery.ordenar y paginar', () => {
+  const filas = [
+    { socio: unSocio({ id: 'a', nombre: 'Óscar', sede: 'ROS' }), edad: 30, deuda: 0 },
+    { socio: unSocio({ id: 'b', nombre: 'ana', sede: 'CBA' }), edad: 40, deuda: 0 },
+    { socio: unSocio({ id: 'c', nombre: 'Bruno', sede: 'ROS' }), edad: 20, deuda: 0 }
+  ];
+
+  it('el primer criterio manda y los siguientes desempatan', () => {
+    expect(PadronQuery.ordenar(filas, [{ campo: 'nombre', desc: false }]).map(f => f.socio.id)).toEqual(['b', 'c', 'a']);
+    expect(PadronQuery.ordenar(filas, [{ campo: 'sede', desc: true }, { campo: 'edad', desc: false }]).map(f => f.socio.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('la página pedida se ajusta al rango que existe', () => {
+    expect(PadronQuery.paginar(filas, 5, 2)).toMatchObject({ total: 3, paginas: 2, pagina: 2, filas: [filas[2]] });
+    expect(PadronQuery.paginar([], 3)).toMatchObject({ total: 0, paginas: 1, pagina: 1 });
+  });
+
+  it('Shift + click suma un criterio; click solo reemplaza o invierte', () => {
+    const porNombre = [{ campo: 'nombre' as const, desc: false }];
+
+    expect(PadronQuery.alternarOrden(porNombre, 'nombre', false)).toEqual([{ campo: 'nombre', desc: true }]);
+    expect(PadronQuery.alternarOrden(porNombre, 'sede', false)).toEqual([{ campo: 'sede', desc: false }]);
+    expect(PadronQuery.alternarOrden(porNombre, 'sede', true)).toEqual([...porNombre, { campo: 'sede', desc: false }]);
+  });
+});
+
+describe('PadronQuery en la URL', () => {
+  it('ida y vuelta sin perder nada', () => {
+    const original = filtros({
+      texto: 'pérez', sedes: ['CBA', 'ROS'], membresias: ['PRE'], metodoPago: 'tarjeta', edadMin: 18, edadMax: 30,
+      estado: 'todos', deuda: 'con_deuda', orden: [{ campo: 'deuda', desc: true }, { campo: 'nombre', desc: false }], pagina: 3
+    });
+
+    expect(PadronQuery.desdeQueryString(PadronQuery.aQueryString(original))).toEqual(original);
+  });
+
+  it('los filtros por defecto no ensucian la URL', () => {
+    expect(PadronQuery.aQueryString(FILTROS_POR_DEFECTO)).toBe('');
+  });
+
+  it('lo que no se entiende queda con el valor por defecto', () => {
+    const leidos = PadronQuery.desdeQueryString('estado=borrados&deuda=mucha&edadMin=diez&orden=color:asc&pag=-4');
+
+    expect(leidos).toEqual(FILTROS_POR_DEFECTO);
+  });
+
+  it('los nombres heredados de Object no pasan por campos ni estados', () => {
+    const leidos = PadronQuery.desdeQueryString('estado=__proto__&orden=__proto__:asc,constructor:desc,toString:asc');
+
+    expect(leidos).toEqual(FILTROS_POR_DEFECTO);
+    expect(PadronQuery.desdeQueryString('estado=constructor&orden=hasOwnProperty:asc,dni:desc')).toEqual(filtros({ orden: [{ campo: 'dni', desc: true }] }));
+  });
+
+  it('lee la lista de sedes, planes y criterios separados por comas', () => {
+    const leidos = PadronQuery.desdeQueryString('sede=CBA,,ROS&plan=PRE&estado=congelada&orden=deuda:desc,nombre&pag=2');
+
+    expect(leidos).toEqual(filtros({
+      sedes: ['CBA', 'ROS'], membresias: ['PRE'], estado: 'congelada', pagina: 2,
+      orden: [{ campo: 'deuda', desc: true }, { campo: 'nombre', desc: false }]
+    }));
+  });
+});
@@ -0,0 +1,209 @@
+import { Socio, FitnessBusinessLogic } from '../domain/socio';
+import { esEstadoMembresia, EstadoMembresia, MembresiaLogic } from '../membership/membresia';
+
+/**
+ * --- CONSULTAS SOBRE EL PADRÓN ---
+ * Todo lo que la tabla "Padrón Elite" necesita para mostrar cientos de
+ * socios: filtros combinables, orden por varias columnas, búsqueda tolerante
+ * a tildes y errores de tipeo, y paginado. Son funciones puras sobre el
+ * arreglo de socios; los filtros se pueden serializar a la URL para
+ * compartir o recargar una búsqueda.
+ */
+// 'activos' = los que ocupan cupo (en prueba, activos y congelados); 'bajas' = vencidos y cancelados.
+export type EstadoFiltro = 'activos' | 'bajas' | 'todos' | EstadoMembresia;
+export type DeudaFiltro = 'todos' | 'con_deuda' | 'al_dia';
+export type CampoOrden = 'nombre' | 'dni' | 'edad' | 'sede' | 'membresia' | 'importe' | 'deuda';
+
+export interface Orden {
+  campo: CampoOrden;
+  desc: boolean;
+}
+
+export interface FiltrosPadron {
+  texto: string;
+  sedes: string[];      // vacío = todas
+  membresias: string[]; // vacío = todas
+  metodoPago: string;   // '' = cualquiera
+  edadMin: number | null;
+  edadMax: number | null;
+  estado: EstadoFiltro;
+  deuda: DeudaFiltro;
+  orden: Orden[];       // el primero manda; los siguientes desempatan
+  pagina: number;       // base 1
+}
+
+export interface FilaPadron {
+  socio: Socio;
+  edad: number;
+  deuda: number;
+}
+
+export interface PaginaPadron {
+  filas: FilaPadron[];
+  total: number;
+  paginas: number;
+  pagina: number;
+}
+
+export const TAMANIO_PAGINA = 25;
+
+export const FILTROS_POR_DEFECTO: FiltrosPadron = {
+  texto: '',
+  sedes: [],
+  membresias: [],
+  metodoPago: '',
+  edadMin: null,
+  edadMax: null,
+  estado: 'activos',
+  deuda: 'todos',
+  orden: [{ campo: 'nombre', desc: false }],
+  pagina: 1
+};
+
+/** Minúsculas y sin tildes: "Pérez" y "PEREZ" son la misma palabra. */
+export const normalizar = (texto: string) =>
+  texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Distancia de edición (Levenshtein) con una sola fila de memoria.
+const distancia = (a: string, b: string): number => {
+  let previa = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const actual = [i];
+    for (let j = 1; j <= b.length; j++) {
+      actual[j] = Math.min(previa[j] + 1, actual[j - 1] + 1, previa[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previa = actual;
+  }
+  return previa[b.length];
+};
+
+// Cuántos errores de tipeo toleramos según el largo de lo buscado.
+const toleranciaPara = (termino: string) => (termino.length >= 7 ? 2 : termino.length >= 4 ? 1 : 0);
+
+const CLAVE_ORDEN: Record<CampoOrden, (f: FilaPadron) => string | number> = {
+  nombre: f => normalizar(f.socio.nombre),
+  dni: f => f.socio.dni,
+  edad: f => f.edad,
+  sede: f => f.socio.sede,
+  membresia: f => f.socio.membresia,
+  importe: f => f.socio.importe,
+  deuda: f => f.deuda
+};
+
+export class PadronQuery {
+  /**
+   * Cada palabra buscada tiene que aparecer en el nombre: como prefijo o
+   * subcadena de alguna palabra, o a pocos errores de tipeo de ella
+   * ("gonzales" encuentra a "González"). Si lo buscado son números, se
+   * compara contra el DNI.
+   */
+  static coincide(socio: Socio, texto: string): boolean {
+    const buscado = normalizar(texto);
+    if (!buscado) return true;
+    const soloDigitos = buscado.replace(/[.\s]/g, '');
+    if (/^\d+$/.test(soloDigitos)) return socio.dni.toString().includes(soloDigitos);
+
+    const palabras = normalizar(socio.nombre).split(/\s+/);
+    return buscado.split(/\s+/).every(termino => {
+      const tolerancia = toleranciaPara(termino);
+      return palabras.some(p =>
+        p.includes(termino)
+        || distancia(termino, p) <= tolerancia                          // palabra completa mal escrita
+        || distancia(termino, p.slice(0, termino.length)) <= tolerancia // comienzo de palabra mal escrito
+      );
+    });
+  }
+
+  static coincideEstado(socio: Socio, estado: EstadoFiltro): boolean {
+    if (estado === 'todos') return true;
+    if (estado === 'activos' || estado === 'bajas') return (estado === 'activos') === MembresiaLogic.ocupaLugar(socio);
+    return socio.estado === estado;
+  }
+
+  static filtrar(socios: Socio[], filtros: FiltrosPadron, deudas: Map<string, number>, hoy: Date): FilaPadron[] {
+    return socios
+      .filter(s => PadronQuery.coincideEstado(s, filtros.estado))
+      .filter(s => filtros.sedes.length === 0 || filtros.sedes.includes(s.sede))
+      .filter(s => filtros.membresias.length === 0 || filtros.membresias.includes(s.membresia))
+      .filter(s => !filtros.metodoPago || s.metodoPago === filtros.metodoPago)
+      .map(s => ({ socio: s, edad: FitnessBusinessLogic.edad(s.fechaNacimiento, hoy), deuda: deudas.get(s.id) ?? 0 }))
+      .filter(f => (filtros.edadMin === null || f.edad >= filtros.edadMin) && (filtros.edadMax === null || f.edad <= filtros.edadMax))
+      .filter(f => filtros.deuda === 'todos' || (filtros.deuda === 'con_deuda') === f.deuda > 0)
+      .filter(f => PadronQuery.coincide(f.socio, filtros.texto));
+  }
+
+  static ordenar(filas: FilaPadron[], orden: Orden[]): FilaPadron[] {
+    return [...filas].sort((a, b) => {
+      for (const { campo, desc } of orden) {
+        const x = CLAVE_ORDEN[campo](a);
+        const y = CLAVE_ORDEN[campo](b);
+        const cmp = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+        if (cmp !== 0) return desc ? -cmp : cmp;
+      }
+      return 0;
+    });
+  }
+
+  static paginar(filas: FilaPadron[], pagina: number, tamanio = TAMANIO_PAGINA): PaginaPadron {
+    const paginas = Math.max(1, Math.ceil(filas.length / tamanio));
+    const actual = Math.min(Math.max(1, pagina), paginas);
+    return { filas: filas.slice((actual - 1) * tamanio, actual * tamanio), total: filas.length, paginas, pagina: actual };
+  }
+
+  /**
+   * Click en un encabezado: ordena solo por esa columna (o invierte el
+   * sentido si ya mandaba). Con Shift, la agrega como criterio de desempate.
+   */
+  static alternarOrden(orden: Orden[], campo: CampoOrden, agregar: boolean): Orden[] {
+    const existente = orden.find(o => o.campo === campo);
+    if (!agregar) return [{ campo, desc: orden[0]?.campo === campo ? !orden[0].desc : false }];
+    if (existente) return orden.map(o => (o.campo === campo ? { ...o, desc: !o.desc } : o));
+    return [...orden, { campo, desc: false }];
+  }
+
+  // Solo se escribe en la URL lo que difiere de los valores por defecto.
+  static aQueryString(filtros: FiltrosPadron): string {
+    const params = new URLSearchParams();
+    if (filtros.texto) params.set('q', filtros.texto);
+    if (filtros.sedes.length) params.set('sede', filtros.sedes.join(','));
+    if (filtros.membresias.length) params.set('plan', filtros.membresias.join(','));
+    if (filtros.metodoPago) params.set('pago', filtros.metodoPago);
+    if (filtros.edadMin !== null) params.set('edadMin', String(filtros.edadMin));
+    if (filtros.edadMax !== null) params.set('edadMax', String(filtros.edadMax));
+    if (filtros.estado !== FILTROS_POR_DEFECTO.estado) params.set('estado', filtros.estado);
+    if (filtros.deuda !== FILTROS_POR_DEFECTO.deuda) params.set('deuda', filtros.deuda);
+    const orden = filtros.orden.map(o => `${o.campo}:${o.desc ? 'desc' : 'asc'}`).join(',');
+    if (orden !== 'nombre:asc') params.set('orden', orden);
+    if (filtros.pagina > 1) params.set('pag', String(filtros.pagina));
+    return params.toString();
+  }
+
+  /** Tolerante a URLs editadas a mano: lo que no se entiende queda con el valor por defecto. */
+  static desdeQueryString(query: string): FiltrosPadron {
+    const params = new URLSearchParams(query);
+    const lista = (clave: string) => (params.get(clave) ?? '').split(',').filter(Boolean);
+    const numero = (clave: string) => {
+      const valor = params.get(clave);
+      return valor !== null && valor !== '' && Number.isFinite(Number(valor)) ? Number(valor) : null;
+    };
+    const estado = params.get('estado') as EstadoFiltro | null;
+    const deuda = params.get('deuda') as DeudaFiltro | null;
+    const orden = lista('orden')
+      .map(o => o.split(':'))
+      .filter(([campo]) => Object.hasOwn(CLAVE_ORDEN, campo))
+      .map(([campo, dir]) => ({ campo: campo as CampoOrden, desc: dir === 'desc' }));
+
+    return {
+      texto: params.get('q') ?? '',
+      sedes: lista('sede'),
+      membresias: lista('plan'),
+      metodoPago: params.get('pago') ?? '',
+      edadMin: numero('edadMin'),
+      edadMax: numero('edadMax'),
+      estado: estado && (['activos', 'bajas', 'todos'].includes(estado) || esEstadoMembresia(estado)) ? estado : FILTROS_POR_DEFECTO.estado,
+      deuda: deuda && ['todos', 'con_deuda', 'al_dia'].includes(deuda) ? deuda : FILTROS_POR_DEFECTO.deuda,
+      orden: orden.length ? orden : FILTROS_POR_DEFECTO.orden,
+      pagina: Math.max(1, numero('pag') ?? 1)
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+
+import { ContextoImportacion, Mapeo, Planilla, PlanillaLogic } from './planilla';
+import { Socio } from '../domain/socio';
+import { SEDES_POR_DEFECTO } from '../domain/sede';
+import { PRECIOS_POR_DEFECTO } from '../pricing/pricing';
+import { I18nLogic } from '../i18n/i18n';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const ctx = (cambios: Partial<ContextoImportacion> = {}): ContextoImportacion => ({
+  socios: [],
+  sedes: SEDES_POR_DEFECTO,
+  sedesPermitidas: ['CBA', 'ROS'],
+  precios: PRECIOS_POR_DEFECTO,
+  porDefecto: { sede: 'CBA', membresia: 'BAS', metodoPago: 'efectivo' },
+  ...cambios
+});
+
+const ENCABEZADOS = ['Apellido y Nombre', 'Nro de Documento', 'EDAD', 'Sucursal', 'Plan', 'Forma de pago'];
+const planilla = (...filas: string[][]): Planilla => ({ encabezados: ENCABEZADOS, filas });
+const mapeo = (): Mapeo => PlanillaLogic.mapeoSugerido(ENCABEZADOS);
+
+describe('PlanillaLogic.mapeoSugerido', () => {
+  it('reconoce los encabezados habituales sin importar mayúsculas ni tildes', () => {
+    expect(PlanillaLogic.mapeoSugerido(['Nombre', 'DNI', 'Membresía', 'Observaciones'])).toEqual({
+      nombre: 0, dni: 1, fechaNacimiento: null, edad: null, telefono: null, email: null, aptoMedicoVence: null, sede: null, membresia: 2, metodoPago: null
+    });
+  });
+
+  it('los encabezados exportados se vuelven a importar, en cualquier idioma', () => {
+    for (const idioma of ['es', 'en', 'pt'] as const) {
+      const exportado = Object.keys(PlanillaLogic.aFilas([unSocio()], PRECIOS_POR_DEFECTO, I18nLogic.traductor(idioma))[0]);
+      const sugerido = PlanillaLogic.mapeoSugerido(exportado);
+
+      expect(Object.values(sugerido).every(indice => indice !== null)).toBe(true);
+    }
+  });
+
+  it('el estado sale traducido', () => {
+    const [fila] = PlanillaLogic.aFilas([unSocio({ estado: 'congelada' })], PRECIOS_POR_DEFECTO, I18nLogic.traductor('en'));
+
+    expect(fila).toMatchObject({ Status: 'Frozen', Name: 'Ana Pérez' });
+  });
+
+  it('una celda que Excel tomaría como fórmula sale como texto', () => {
+    const [fila] = PlanillaLogic.aFilas([unSocio({ nombre: '=HYPERLINK("http://x.com","Ana")', telefono: '+5493515551234', email: '@ana' })], PRECIOS_POR_DEFECTO, I18nLogic.traductor('es'));
+
+    expect(fila).toMatchObject({ Nombre: '\'=HYPERLINK("http://x.com","Ana")', 'Teléfono': "'+5493515551234", Email: "'@ana", DNI: 30123456 });
+  });
+});
+
+describe('PlanillaLogic.analizar', () => {
+  it('una fila completa se cotiza con las reglas de precios vigentes', () => {
+    const [fila] = PlanillaLogic.analizar(planilla(['Juan Gómez', '25.123.456', '15', 'Rosario', 'Básica', 'Crédito']), mapeo(), ctx());
+
+    expect(fila).toMatchObject({ numero: 2, estado: 'valida', motivo: null });
+    expect(fila.socio).toMatchObject({ nombre: 'Juan Gómez', dni: 25123456, sede: 'ROS', membresia: 'BAS', metodoPago: 'tarjeta', importe: 10080 });
+  });
+
+  it('los campos sin columna toman el valor por defecto', () => {
+    const soloObligatorios: Mapeo = { ...mapeo(), sede: null, membresia: null, metodoPago: null };
+    const [fila] = PlanillaLogic.analizar(planilla(['Juan Gómez', '25123456', '40', 'Rosario', 'Premium', 'tarjeta']), soloObligatorios, ctx());
+
+    expect(fila.socio).toMatchObject({ sede: 'CBA', membresia: 'BAS', metodoPago: 'efectivo', importe: 12000 });
+  });
+
+  it('explica por qué rechaza cada fila', () => {
+    const filas = PlanillaLogic.analizar(planilla(
+      ['', '25123456', '40', '', '', ''],
+      ['Sin DNI', 'no tiene', '40', '', '', ''],
+      ['Muy Grande', '25123456', '200', '', '', ''],
+      ['Otra Sede', '25123456', '40', 'Mar del Plata', '', ''],
+      ['Otro Plan', '25123457', '40', '', 'Platino', ''],
+      ['Otro Pago', '25123458', '40', '', '', 'cheque']
+    ), mapeo(), ctx());
+
+    expect(filas.map(f => [f.estado, f.motivo])).toEqual([
+      ['error', 'El nombre es obligatorio.'],
+      ['error', 'DNI inválido.'],
+      ['error', 'Fecha de nacimiento inválida.'],
+      ['error', 'Sede desconocida o sin acceso: "Mar del Plata".'],
+      ['error', 'Membresía desconocida: "Platino".'],
+      ['error', 'Método de pago desconocido: "cheque".']
+    ]);
+  });
+
+  it('marca duplicados contra el padrón (incluidas las bajas) y dentro del mismo archivo', () => {
+    const filas = PlanillaLogic.analizar(planilla(
+      ['Ana Pérez', '30123456', '35', '', '', ''],
+      ['Juan Gómez', '25123456', '40', '', '', ''],
+      ['Juan Gomez', '25.123.456', '40', '', '', '']
+    ), mapeo(), ctx({ socios: [unSocio({ estado: 'cancelada' })] }));
+
+    expect(filas.map(f => [f.estado, f.motivo])).toEqual([
+      ['duplicada', 'Ya está en el padrón como Ana Pérez.'],
+      ['valida', null],
+      ['duplicada', 'Documento repetido en la fila 3.']
+    ]);
+  });
+
+  it('descuenta el cupo de la sede a medida que acepta filas', () => {
+    const sedes = SEDES_POR_DEFECTO.map(s => (s.codigo === 'CBA' ? { ...s, capacidadSocios: 2 } : s));
+    const filas = PlanillaLogic.analizar(planilla(
+      ['Juan Gómez', '25123456', '40', '', '', ''],
+      ['Luis Díaz', '28999888', '40', '', '', '']
+    ), mapeo(), ctx({ sedes, socios: [unSocio()] }));
+
+    expect(filas.map(f => [f.estado, f.motivo])).toEqual([
+      ['valida', null],
+      ['error', 'Córdoba no tiene cupo disponible.']
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+import * as XLSX from 'xlsx';
+
+import { Socio, FitnessBusinessLogic } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { ConfigPrecios } from '../pricing/pricing';
+import { ValidacionLogic } from '../validation/validacion';
+import { ValidadorDocumento } from '../validation/documentos';
+import { I18nLogic, Traductor } from '../i18n/i18n';
+import { Idioma, IDIOMA_TEXTO } from '../i18n/regional';
+import { formatearFecha } from '../billing/billing';
+import { normalizar } from '../roster/padronQuery';
+import { MembresiaLogic } from '../membership/membresia';
+import { ErrorNegocio } from '../domain/errores';
+
+/**
+ * --- IMPORTAR / EXPORTAR PLANILLAS ---
+ * Los gimnasios que se pasan a la App traen su padrón en Excel. La planilla
+ * se lee como una matriz de textos (fila 0 = encabezados) y el usuario indica
+ * qué columna es cada dato. Después cada fila pasa por las mismas reglas que
+ * el alta manual, y recién se guarda lo que el usuario confirma tras ver la
+ * simulación ("dry-run").
+ */
+export type CampoImportable =
+  | 'nombre' | 'dni' | 'fechaNacimiento' | 'edad' | 'telefono' | 'email' | 'aptoMedicoVence'
+  | 'sede' | 'membresia' | 'metodoPago';
+
+// Índice de la columna de la planilla que alimenta cada campo (null = no viene).
+export type Mapeo = Record<CampoImportable, number | null>;
+
+export interface Planilla {
+  encabezados: string[];
+  filas: string[][];
+}
+
+export type EstadoFila = 'valida' | 'duplicada' | 'error';
+
+export interface FilaAnalizada {
+  numero: number; // Número de fila como lo ve el usuario en Excel (encabezado = 1)
+  valores: string[];
+  estado: EstadoFila;
+  motivo: string | null;
+  socio: Socio | null;
+}
+
+export interface ContextoImportacion {
+  socios: Socio[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  precios: ConfigPrecios;
+  // Para los campos sin columna asignada
+  porDefecto: { sede: string; membresia: string; metodoPago: string };
+  documento?: ValidadorDocumento;
+  t?: Traductor; // Idioma de los motivos de rechazo (castellano si no viene)
+}
+
+export const CAMPOS_IMPORTABLES: CampoImportable[] = [
+  'nombre', 'dni', 'fechaNacimiento', 'edad', 'telefono', 'email', 'aptoMedicoVence', 'sede', 'membresia', 'metodoPago'
+];
+
+export const CAMPOS_OBLIGATORIOS: CampoImportable[] = ['nombre', 'dni'];
+
+// Encabezados que reconocemos sin que el usuario tenga que mapearlos (ya normalizados).
+const ALIAS: Record<CampoImportable, string[]> = {
+  nombre: ['nombre', 'nombre completo', 'apellido y nombre', 'socio', 'name'],
+  dni: ['dni', 'documento', 'nro documento', 'nro de documento'],
+  fechaNacimiento: ['fecha de nacimiento', 'fecha nacimiento', 'nacimiento', 'fec nac', 'birthdate'],
+  edad: ['edad', 'age'],
+  telefono: ['telefono', 'celular', 'tel', 'phone'],
+  email: ['email', 'e-mail', 'mail', 'correo'],
+  aptoMedicoVence: ['apto medico vence', 'apto medico', 'vencimiento apto'],
+  sede: ['sede', 'sucursal', 'ubicacion', 'branch'],
+  membresia: ['membresia', 'plan', 'membership'],
+  metodoPago: ['metodo de pago', 'forma de pago', 'pago', 'payment']
+};
+
+// Un padrón real pesa unos cientos de KB: más que esto no se intenta parsear.
+export const MAX_BYTES_PLANILLA = 10 * 1024 * 1024;
+
+const METODOS_PAGO: Record<string, string> = {
+  efectivo: 'efectivo', debito: 'efectivo', 'efectivo / deb': 'efectivo',
+  tarjeta: 'tarjeta', credito: 'tarjeta', 'tarjeta de credito': 'tarjeta'
+};
+
+// Excel toma como fórmula una celda que empieza con = + - @ (o tab/enter):
+// un nombre como "=HYPERLINK(...)" se ejecutaría al abrir el CSV. Al exportar
+// va con un apóstrofo adelante, que la marca como texto; al importar se saca.
+const FORMULA = /^[=+\-@\t\r]/;
+const celdaSegura = <T>(valor: T): T | string => (typeof valor === 'string' && FORMULA.test(valor) ? `'${valor}` : valor);
+const sinApostrofo = (celda: string) => (celda.startsWith("'") && FORMULA.test(celda.slice(1)) ? celda.slice(1) : celda);
+
+export class PlanillaLogic {
+  static async leerArchivo(archivo: File): Promise<Planilla> {
+    if (archivo.size > MAX_BYTES_PLANILLA) throw new ErrorNegocio('planilla_grande', { mb: MAX_BYTES_PLANILLA / (1024 * 1024) });
+    // El CSV se lee como texto para no perder las tildes; el XLSX como binario.
+    const libro = /\.csv$/i.test(archivo.name)
+      ? XLSX.read(await archivo.text(), { type: 'string' })
+      : XLSX.read(await archivo.arrayBuffer(), { type: 'array' });
+    const hoja = libro.Sheets[libro.SheetNames[0]];
+    if (!hoja) return { encabezados: [], filas: [] };
+
+    // Las celdas con formato fecha de Excel salen como "YYYY-MM-DD"
+    const matriz = XLSX.utils.sheet_to_json<string[]>(hoja, { header: 1, raw: false, defval: '', dateNF: 'yyyy-mm-dd' });
+    const [encabezados = [], ...filas] = matriz.map(f => f.map(c => sinApostrofo(String(c ?? '').trim())));
+    return { encabezados, filas: filas.filter(f => f.some(c => c !== '')) };
+  }
+
+  /** Reconoce los alias y también los encabezados que exporta la App en cualquiera de sus idiomas. */
+  static mapeoSugerido(encabezados: string[]): Mapeo {
+    const normalizados = encabezados.map(normalizar);
+    const idiomas = Object.keys(IDIOMA_TEXTO) as Idioma[];
+    const mapeo = {} as Mapeo;
+    for (const campo of Object.keys(ALIAS) as CampoImportable[]) {
+      const exportados = idiomas.map(idioma => normalizar(I18nLogic.traducir(idioma, `planilla.${campo}`)));
+      const indice = normalizados.findIndex(e => ALIAS[campo].includes(e) || exportados.includes(e));
+      mapeo[campo] = indice >= 0 ? indice : null;
+    }
+    return mapeo;
+  }
+
+  /** Campos sin columna que impiden simular; la edad sirve de reemplazo de la fecha de nacimiento. */
+  static camposFaltantes(mapeo: Mapeo): CampoImportable[] {
+    const faltantes = CAMPOS_OBLIGATORIOS.filter(c => mapeo[c] === null);
+    if (mapeo.fechaNacimiento === null && mapeo.edad === null) faltantes.push('fechaNacimiento');
+    return faltantes;
+  }
+
+  /**
+   * La simulación: analiza cada fila sin guardar nada, con las mismas reglas
+   * que el alta manual (ValidacionLogic). Los duplicados se buscan contra el
+   * padrón (incluidas las bajas) y contra las filas anteriores del mismo
+   * archivo; el cupo se descuenta a medida que se aceptan filas, así la
+   * simulación predice exactamente lo que va a entrar.
+   */
+  static analizar(planilla: Planilla, mapeo: Mapeo, ctx: ContextoImportacion, fecha = new Date()): FilaAnalizada[] {
+    const t = ctx.t ?? I18nLogic.traductor('es');
+    const aceptados: Socio[] = [];
+    const dnisVistos = new Map<number, number>();
+
+    return planilla.filas.map((valores, i) => {
+      const numero = i + 2;
+      const fila = (estado: EstadoFila, motivo: string | null, socio: Socio | null = null): FilaAnalizada =>
+        ({ numero, valores, estado, motivo, socio });
+      const leer = (campo: CampoImportable) => (mapeo[campo] === null ? '' : valores[mapeo[campo]!] ?? '');
+
+      const dni = Number(leer('dni').replace(/\D/g, '')) || NaN;
+      const existente = ValidacionLogic.socioConDni(ctx.socios, dni);
+      if (existente) return fila('duplicada', t('importar.yaEnPadron', { nombre: existente.nombre }));
+      if (dnisVistos.has(dni)) return fila('duplicada', t('importar.documentoRepetido', { fila: dnisVistos.get(dni)! }));
+
+      const nacimiento = PlanillaLogic.resolverNacimiento(leer('fechaNacimiento'), leer('edad'), fecha);
+      const perfil = {
+        nombre: leer('nombre'),
+        dni,
+        fechaNacimiento: nacimiento?.fecha ?? leer('fechaNacimiento'),
+        telefono: leer('telefono'),
+        email: leer('email'),
+        contactoEmergenciaNombre: '',
+        contactoEmergenciaTelefono: '',
+        aptoMedicoVence: leer('aptoMedicoVence') ? ValidacionLogic.parsearFecha(leer('aptoMedicoVence')) ?? leer('aptoMedicoVence') : null
+      };
+      const errores = ValidacionLogic.validar(perfil, { socios: ctx.socios, hoy: fecha, documento: ctx.documento, t });
+      if (!ValidacionLogic.esValido(errores)) return fila('error', Object.values(errores).join(' '));
+      dnisVistos.set(dni, numero);
+
+      const sede = PlanillaLogic.resolverSede(leer('sede'), ctx);
+      if (!sede) return fila('error', t('importar.sedeDesconocida', { valor: leer('sede') }));
+      const membresia = PlanillaLogic.resolverPlan(leer('membresia'), ctx);
+      if (!membresia) return fila('error', t('importar.membresiaDesconocida', { valor: leer('membresia') }));
+      const metodoPago = leer('metodoPago') ? METODOS_PAGO[normalizar(leer('metodoPago'))] : ctx.porDefecto.metodoPago;
+      if (!metodoPago) return fila('error', t('importar.pagoDesconocido', { valor: leer('metodoPago') }));
+
+      if (!SedeLogic.hayCupo(ctx.sedes, [...ctx.socios, ...aceptados], sede)) {
+        return fila('error', t('importar.sinCupo', { sede: SedeLogic.nombre(ctx.sedes, sede) }));
+      }
+
+      const datos = { fechaNacimiento: perfil.fechaNacimiento, sede, membresia, metodoPago };
+      const socio: Socio = {
+        id: crypto.randomUUID(),
+        ...perfil,
+        ...datos,
+        importe: FitnessBusinessLogic.cotizar(ctx.precios, datos, fecha).total,
+        ...MembresiaLogic.alta(fecha),
+        ...(nacimiento?.estimada ? { fechaNacimientoEstimada: true } : {})
+      };
+      aceptados.push(socio);
+      return fila('valida', null, socio);
+    });
+  }
+
+  // Si la planilla solo trae la edad, estimamos la fecha igual que la migración de esquema v6.
+  private static resolverNacimiento(fechaTexto: string, edadTexto: string, hoy: Date): { fecha: string; estimada: boolean } | null {
+    if (fechaTexto) {
+      const fecha = ValidacionLogic.parsearFecha(fechaTexto);
+      return fecha ? { fecha, estimada: false } : null;
+    }
+    const edad = Number(edadTexto);
+    if (!edadTexto || !Number.isInteger(edad)) return null;
+    return { fecha: formatearFecha(new Date(hoy.getFullYear() - edad, hoy.getMonth(), hoy.getDate())), estimada: true };
+  }
+
+  // Acepta el código ("CBA") o el nombre ("Córdoba") de una sede habilitada para el usuario.
+  private static resolverSede(valor: string, ctx: ContextoImportacion): string | null {
+    if (!valor) return ctx.porDefecto.sede;
+    const buscado = normalizar(valor);
+    const sede = ctx.sedes.find(s => normalizar(s.codigo) === buscado || normalizar(s.nombre) === buscado);
+    return sede && ctx.sedesPermitidas.includes(sede.codigo) ? sede.codigo : null;
+  }
+
+  private static resolverPlan(valor: string, ctx: ContextoImportacion): string | null {
+    if (!valor) return ctx.porDefecto.membresia;
+    const buscado = normalizar(valor);
+    return ctx.precios.planes.find(p => normalizar(p.id) === buscado || normalizar(p.nombre) === buscado)?.id ?? null;
+  }
+
+  /** Los encabezados salen en el idioma del gimnasio y mapeoSugerido los reconoce: lo exportado se puede volver a importar. */
+  static aFilas(socios: Socio[], precios: ConfigPrecios, t: Traductor): Record<string, string | number>[] {
+    return socios.map(s => PlanillaLogic.filaSegura({
+      [t('planilla.nombre')]: s.nombre,
+      [t('planilla.dni')]: s.dni,
+      [t('planilla.fechaNacimiento')]: s.fechaNacimiento,
+      [t('planilla.edad')]: FitnessBusinessLogic.edad(s.fechaNacimiento),
+      [t('planilla.telefono')]: s.telefono,
+      [t('planilla.email')]: s.email,
+      [t('planilla.aptoMedicoVence')]: s.aptoMedicoVence ?? '',
+      [t('planilla.sede')]: s.sede,
+      [t('planilla.membresia')]: precios.planes.find(p => p.id === s.membresia)?.nombre ?? s.membresia,
+      [t('planilla.metodoPago')]: s.metodoPago,
+      [t('planilla.importe')]: Math.round(s.importe),
+      [t('planilla.estado')]: t(`membresia.${s.estado}`),
+      [t('planilla.inicio')]: s.inicio,
+      [t('planilla.vence')]: s.vence ?? ''
+    }));
+  }
+
+  private static filaSegura(fila: Record<string, string | number>): Record<string, string | number> {
+    return Object.fromEntries(Object.entries(fila).map(([columna, valor]) => [columna, celdaSegura(valor)]));
+  }
+
+  static exportar(socios: Socio[], precios: ConfigPrecios, formato: 'csv' | 'xlsx', t: Traductor): void {
+    const libro = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(libro, XLSX.utils.json_to_sheet(PlanillaLogic.aFilas(socios, precios, t)), t('planilla.hoja'));
+    XLSX.writeFile(libro, `padron-${new Date().toISOString().slice(0, 10)}.${formato}`, { bookType: formato });
+  }
+
+  /** Planilla con las filas rechazadas tal como vinieron, más el motivo, para corregirlas y reintentar. */
+  static exportarErrores(planilla: Planilla, filas: FilaAnalizada[], t: Traductor): void {
+    const rechazadas = filas.filter(f => f.estado !== 'valida');
+    const hoja = XLSX.utils.aoa_to_sheet([
+      [t('importar.fila'), t('importar.motivo'), ...planilla.encabezados].map(celdaSegura),
+      ...rechazadas.map(f => [f.numero, f.motivo ?? '', ...f.valores].map(celdaSegura))
+    ]);
+    const libro = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(libro, hoja, t('importar.hojaErrores'));
+    XLSX.writeFile(libro, 'errores-importacion.csv', { bookType: 'csv' });
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+
+import { DatosLiquidacion, Empleado, PersonalLogic } from './personal';
+import { Socio } from '../domain/socio';
+import { Clase } from '../classes/clases';
+import { Factura } from '../billing/billing';
+import { EventoAuditoria } from '../audit/audit';
+import { PeriodoReporte } from '../reports/reportes';
+
+const unSocio = (cambios: Partial<Socio> = {}): Socio => ({
+  id: 's1', nombre: 'Ana Pérez', dni: 30123456, fechaNacimiento: '1990-05-20', sede: 'CBA', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'activa', inicio: '2026-01-01', vence: null,
+  telefono: '3515551234', email: 'ana@mail.com', contactoEmergenciaNombre: '', contactoEmergenciaTelefono: '', aptoMedicoVence: null, ...cambios
+});
+
+const unEmpleado = (cambios: Partial<Empleado> = {}): Empleado => ({
+  id: 'e1', nombre: 'Caro', rol: 'instructor', sede: 'CBA', tarifaHora: 5000, comisionPct: 0, activo: true, ...cambios
+});
+
+// Martes 19:00, una hora y media.
+const unaClase = (cambios: Partial<Clase> = {}): Clase => ({
+  id: 'spinning', nombre: 'Spinning', sede: 'CBA', instructor: 'Caro', instructorId: 'e1', sala: 'Sala 1', dia: 2, hora: '19:00',
+  duracionMin: 90, capacidad: 20, membresiasPermitidas: [], activa: true, ...cambios
+});
+
+const alta = (socioId: string, fecha: Date): EventoAuditoria =>
+  ({ id: `${socioId}-alta`, socioId, fecha: fecha.toISOString(), usuarioId: 'u1', usuarioNombre: 'Admin', accion: 'alta', cambios: [] });
+
+const factura = (socioId: string, periodo: string, importe: number): Factura =>
+  ({ id: `${socioId}-${periodo}`, socioId, periodo, vencimiento: `${periodo}-10`, importe, recargo: 0 });
+
+const marzo: PeriodoReporte = { tipo: 'mes', anio: 2026, numero: 3 };
+// Ya pasaron los martes 3, 10 y 17.
+const ahora = new Date(2026, 2, 18, 10);
+
+const datos = (cambios: Partial<DatosLiquidacion> = {}): DatosLiquidacion => ({
+  empleados: [], clases: [], socios: [], ledger: { ciclos: [], facturas: [], pagos: [] }, eventos: [], ...cambios
+});
+
+describe('PersonalLogic.ocurrenciasDictadas', () => {
+  it('cuenta solo las clases del mes que ya empezaron', () => {
+    expect(PersonalLogic.ocurrenciasDictadas(unaClase(), marzo, ahora)).toBe(3);
+    expect(PersonalLogic.ocurrenciasDictadas(unaClase(), marzo, new Date(2026, 3, 1))).toBe(5);
+    expect(PersonalLogic.ocurrenciasDictadas(unaClase(), marzo, new Date(2026, 2, 3, 18, 59))).toBe(0);
+  });
+});
+
+describe('PersonalLogic.liquidar', () => {
+  it('paga las horas dictadas a la tarifa del instructor', () => {
+    const { filas, total } = PersonalLogic.liquidar(datos({ empleados: [unEmpleado()], clases: [unaClase()] }), marzo, ahora);
+
+    expect(filas[0]).toMatchObject({ clasesDictadas: 3, horas: 4.5, montoHoras: 22500, comision: 0, total: 22500 });
+    expect(total).toBe(22500);
+  });
+
+  it('una clase desactivada ya no suma horas', () => {
+    const clases = [unaClase(), unaClase({ id: 'yoga', nombre: 'Yoga', activa: false })];
+    const { filas } = PersonalLogic.liquidar(datos({ empleados: [unEmpleado()], clases }), marzo, ahora);
+
+    expect(filas[0]).toMatchObject({ clasesDictadas: 3, horas: 4.5, total: 22500 });
+  });
+
+  it('la comisión sale de la primera factura de cada alta vendida en el mes', () => {
+    const vendedor = unEmpleado({ id: 'v1', nombre: 'Beto', rol: 'vendedor', tarifaHora: 0, comisionPct: 10 });
+    const { filas } = PersonalLogic.liquidar(datos({
+      empleados: [vendedor],
+      socios: [unSocio({ vendedorId: 'v1' }), unSocio({ id: 's2', vendedorId: 'v1' })],
+      ledger: { ciclos: [], facturas: [factura('s1', '2026-04', 18000), factura('s1', '2026-03', 16200)], pagos: [] },
+      eventos: [alta('s1', new Date(2026, 2, 5)), alta('s2', new Date(2026, 1, 20))]
+    }), marzo, ahora);
+
+    expect(filas[0]).toMatchObject({ altas: 1, facturado: 16200, comision: 1620, total: 1620 });
+  });
+
+  it('un alta sin factura, como un pase de prueba, no paga comisión', () => {
+    const vendedor = unEmpleado({ id: 'v1', nombre: 'Beto', rol: 'vendedor', tarifaHora: 0, comisionPct: 10 });
+    const { filas } = PersonalLogic.liquidar(datos({
+      empleados: [vendedor],
+      socios: [unSocio({ vendedorId: 'v1', estado: 'prueba', vence: '2026-03-11' })],
+      eventos: [alta('s1', new Date(2026, 2, 5))]
+    }), marzo, ahora);
+
+    expect(filas[0]).toMatchObject({ altas: 1, facturado: 0, comision: 0, total: 0 });
+  });
+
+  it('los que ya no trabajan aparecen solo si tienen algo para cobrar, y primero el que más cobra', () => {
+    const { filas } = PersonalLogic.liquidar(datos({
+      empleados: [
+        unEmpleado({ id: 'r1', nombre: 'Recepción', rol: 'recepcion', tarifaHora: 0 }),
+        unEmpleado({ activo: false }),
+        unEmpleado({ id: 'e2', nombre: 'Dani', activo: false })
+      ],
+      clases: [unaClase()]
+    }), marzo, ahora);
+
+    expect(filas.map(f => f.empleado.nombre)).toEqual(['Caro', 'Recepción']);
+  });
+});
+
+describe('PersonalLogic selectores', () => {
+  it('instructores y vendedores activos de la sede', () => {
+    const empleados = [
+      unEmpleado(),
+      unEmpleado({ id: 'e2', sede: 'ROS' }),
+      unEmpleado({ id: 'e3', activo: false }),
+      unEmpleado({ id: 'v1', rol: 'vendedor' })
+    ];
+
+    expect(PersonalLogic.instructores(empleados, 'CBA').map(e => e.id)).toEqual(['e1']);
+    expect(PersonalLogic.vendedores(empleados, 'CBA').map(e => e.id)).toEqual(['v1']);
+  });
+});
@@ -0,0 +1,118 @@
+import { Socio } from '../domain/socio';
+import { LedgerFacturacion } from '../billing/billing';
+import { EventoAuditoria } from '../audit/audit';
+import { Clase } from '../classes/clases';
+import { PeriodoReporte, ReportesLogic } from '../reports/reportes';
+
+/**
+ * --- PERSONAL Y LIQUIDACIÓN ---
+ * Los empleados NO son usuarios del sistema: un instructor puede no tener
+ * login nunca. Cada uno cobra por hora de clase dictada, por comisión sobre
+ * las altas que vendió, o por las dos cosas (un valor en 0 = no aplica).
+ */
+export type RolEmpleado = 'instructor' | 'vendedor' | 'recepcion' | 'administracion';
+
+export const ROLES_EMPLEADO: RolEmpleado[] = ['instructor', 'vendedor', 'recepcion', 'administracion'];
+
+export interface Empleado {
+  id: string;
+  nombre: string;
+  rol: RolEmpleado;
+  sede: string;
+  tarifaHora: number;   // $ por hora de clase dictada
+  comisionPct: number;  // % sobre lo facturado a los socios que dio de alta
+  activo: boolean;      // false = ya no trabaja; se conserva para liquidaciones viejas
+}
+
+export interface LiquidacionEmpleado {
+  empleado: Empleado;
+  clasesDictadas: number;
+  horas: number;
+  montoHoras: number;
+  altas: number;
+  facturado: number; // Base de la comisión
+  comision: number;
+  total: number;
+}
+
+export interface Liquidacion {
+  periodo: PeriodoReporte;
+  filas: LiquidacionEmpleado[];
+  total: number;
+}
+
+export interface DatosLiquidacion {
+  empleados: Empleado[];
+  clases: Clase[];
+  socios: Socio[];
+  ledger: LedgerFacturacion;
+  eventos: EventoAuditoria[]; // Se usan las altas del mes
+}
+
+export class PersonalLogic {
+  /** Empleados que pueden dictar clases en una sede (para el selector de la agenda). */
+  static instructores(empleados: Empleado[], sede: string): Empleado[] {
+    return empleados.filter(e => e.activo && e.rol === 'instructor' && e.sede === sede);
+  }
+
+  static vendedores(empleados: Empleado[], sede: string): Empleado[] {
+    return empleados.filter(e => e.activo && e.rol === 'vendedor' && e.sede === sede);
+  }
+
+  /**
+   * Clases del mes que ya empezaron. La grilla no guarda historia, así que
+   * se liquida con la grilla actual: conviene cerrar el mes antes de cambiarla.
+   */
+  static ocurrenciasDictadas(clase: Clase, periodo: PeriodoReporte, ahora: Date): number {
+    const { desde, hasta } = ReportesLogic.rango(periodo);
+    let cantidad = 0;
+    for (const dia = new Date(desde); dia < hasta; dia.setDate(dia.getDate() + 1)) {
+      if (dia.getDay() !== clase.dia) continue;
+      const [h, m] = clase.hora.split(':').map(Number);
+      const inicio = new Date(dia.getFullYear(), dia.getMonth(), dia.getDate(), h, m);
+      if (inicio.getTime() <= ahora.getTime()) cantidad++;
+    }
+    return cantidad;
+  }
+
+  /**
+   * Las horas salen de las clases activas de la grilla. La comisión se
+   * calcula sobre la primera factura de cada socio dado de alta en el mes (lo
+   * que efectivamente se le cobró): un pase de prueba que no se facturó, o
+   * una cuota que todavía no se emitió, no suma hasta que haya factura.
+   */
+  static liquidar(datos: DatosLiquidacion, periodo: PeriodoReporte, ahora: Date): Liquidacion {
+    const { desde, hasta } = ReportesLogic.rango(periodo);
+    const inicio = desde.toISOString();
+    const fin = hasta.toISOString();
+    const socios = new Map(datos.socios.map(s => [s.id, s]));
+    const altas = datos.eventos
+      .filter(e => e.accion === 'alta' && e.fecha >= inicio && e.fecha < fin)
+      .map(e => socios.get(e.socioId))
+      .filter((s): s is Socio => !!s?.vendedorId);
+
+    const primeraFactura = (socio: Socio) => datos.ledger.facturas
+      .filter(f => f.socioId === socio.id)
+      .sort((a, b) => a.periodo.localeCompare(b.periodo))[0];
+
+    const filas = datos.empleados.map(empleado => {
+      const suyas = datos.clases.filter(c => c.activa && c.instructorId === empleado.id);
+      const clasesDictadas = suyas.reduce((acc, c) => acc + PersonalLogic.ocurrenciasDictadas(c, periodo, ahora), 0);
+      const horas = suyas.reduce((acc, c) => acc + PersonalLogic.ocurrenciasDictadas(c, periodo, ahora) * c.duracionMin / 60, 0);
+      const vendidos = altas.filter(s => s.vendedorId === empleado.id);
+      const facturado = vendidos.reduce((acc, s) => acc + (primeraFactura(s)?.importe ?? 0), 0);
+      const montoHoras = horas * empleado.tarifaHora;
+      const comision = facturado * empleado.comisionPct / 100;
+      return {
+        empleado, clasesDictadas, horas, montoHoras,
+        altas: vendidos.length, facturado, comision,
+        total: montoHoras + comision
+      };
+    })
+      // Los dados de baja solo aparecen si tienen algo para cobrar ese mes.
+      .filter(f => f.empleado.activo || f.total > 0)
+      .sort((a, b) => b.total - a.total);
+
+    return { periodo, filas, total: filas.reduce((acc, f) => acc + f.total, 0) };
+  }
+}
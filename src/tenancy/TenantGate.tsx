@@ -0,0 +1,80 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Building2, LogOut } from 'lucide-react';
+
+import { AuthLogic, Usuario } from '../auth/auth';
+import { Organizacion } from './organizacion';
+import { OrganizacionRepository } from '../persistence/OrganizacionRepository';
+import { Repositorios, crearRepositorios } from '../persistence/crearRepositorios';
+import { I18nLogic } from '../i18n/i18n';
+import { ErrorNegocio } from '../domain/errores';
+
+const CLAVE_ACTIVA = 'fitness_plus_organizacion_activa';
+
+export interface ContextoTenant {
+  organizacion: Organizacion;
+  organizaciones: Organizacion[]; // Solo el Super Admin ve más de una
+  repos: Repositorios;
+  cambiar: (organizacionId: string) => void;
+  guardar: (organizacion: Organizacion) => Promise<void>;
+}
+
+/**
+ * Después del login, decide en qué organización se trabaja y crea los
+ * repositorios de esa organización. Un usuario común queda fijo en la
+ * suya; el Super Admin puede cambiar y su última elección se recuerda.
+ */
+export const TenantGate: React.FC<{
+  organizaciones: OrganizacionRepository;
+  usuario: Usuario;
+  onLogout: () => void;
+  children: (tenant: ContextoTenant) => React.ReactNode;
+}> = ({ organizaciones, usuario, onLogout, children }) => {
+  const esSuperAdmin = AuthLogic.puede(usuario, 'organizaciones.gestionar');
+  const [todas, setTodas] = useState<Organizacion[] | null>(null);
+  const [activaId, setActivaId] = useState(() =>
+    (esSuperAdmin && localStorage.getItem(CLAVE_ACTIVA)) || usuario.organizacionId
+  );
+
+  useEffect(() => {
+    organizaciones.listar()
+      .then(setTodas)
+      .catch(e => console.error("Error cargando organizaciones:", e));
+  }, [organizaciones]);
+
+  const organizacion = todas?.find(o => o.id === (esSuperAdmin ? activaId : usuario.organizacionId))
+    ?? (esSuperAdmin ? todas?.find(o => o.id === usuario.organizacionId) : undefined);
+  const repos = useMemo(() => (organizacion ? crearRepositorios(undefined, organizacion.id) : null), [organizacion?.id]);
+
+  if (!todas) return null;
+
+  if (!organizacion || !repos || (!organizacion.activa && !esSuperAdmin)) {
+    const t = I18nLogic.traductor(organizacion?.regional?.idioma ?? I18nLogic.idiomaNavegador());
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6 text-zinc-100">
+        <div className="max-w-md text-center space-y-6">
+          <div className="w-16 h-16 bg-zinc-900 rounded-2xl flex items-center justify-center mx-auto border border-white/5">
+            <Building2 className="text-zinc-600" />
+          </div>
+          <p className="text-zinc-400 font-medium">{t('tenant.noHabilitado')}</p>
+          <button onClick={onLogout} className="inline-flex items-center gap-2 text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-white">
+            <LogOut className="w-4 h-4" /> {t('tenant.salir')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const cambiar = (id: string) => {
+    if (!esSuperAdmin) return;
+    localStorage.setItem(CLAVE_ACTIVA, id);
+    setActivaId(id);
+  };
+
+  const guardar = async (org: Organizacion) => {
+    if (!esSuperAdmin) throw new ErrorNegocio('solo_superadmin');
+    await organizaciones.guardar(org);
+    setTodas(await organizaciones.listar());
+  };
+
+  return <>{children({ organizacion, organizaciones: esSuperAdmin ? todas : [organizacion], repos, cambiar, guardar })}</>;
+};
@@ -0,0 +1,54 @@
+import { normalizar } from '../roster/padronQuery';
+import { ConfigRegional } from '../i18n/regional';
+
+/**
+ * --- ORGANIZACIONES (MULTI-GIMNASIO) ---
+ * Cada gimnasio que usa FitnessPlus es una organización con sus propias
+ * sedes, planes, socios, usuarios y marca. El aislamiento no depende de
+ * acordarse de filtrar: los repositorios se crean para UNA organización y
+ * guardan sus datos bajo claves propias, así que la App no tiene forma de
+ * pedir datos de otra.
+ *
+ * La organización 'principal' es la del gimnasio original: conserva las
+ * claves históricas, y los datos existentes no se mueven al actualizar.
+ */
+export interface Organizacion {
+  id: string;
+  nombre: string;
+  logoUrl: string | null;
+  activa: boolean; // Suspendida = sus usuarios no pueden entrar
+  creada: string;
+  regional?: ConfigRegional; // País, idioma y moneda; sin configurar, Argentina en pesos
+}
+
+export const ORGANIZACION_PRINCIPAL_ID = 'principal';
+
+export const ORGANIZACION_PRINCIPAL: Organizacion = {
+  id: ORGANIZACION_PRINCIPAL_ID,
+  nombre: 'Fitness Pro',
+  logoUrl: null,
+  activa: true,
+  creada: '2024-01-01T00:00:00.000Z'
+};
+
+export class TenantLogic {
+  /** Clave de almacenamiento de una organización: la principal usa la clave histórica. */
+  static clave(base: string, organizacionId: string): string {
+    return organizacionId === ORGANIZACION_PRINCIPAL_ID ? base : `${base}__${organizacionId}`;
+  }
+
+  // "Mi Gimnasio Centro" -> "mi-gimnasio-centro"; si ya existe, se numera.
+  static nuevoId(nombre: string, existentes: Organizacion[]): string {
+    const base = normalizar(nombre).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'gimnasio';
+    let id = base;
+    for (let i = 2; existentes.some(o => o.id === id); i++) id = `${base}-${i}`;
+    return id;
+  }
+
+  /** Para el encabezado: la última palabra del nombre va resaltada ("FITNESS" + "PRO"). */
+  static partesNombre(nombre: string): [string, string] {
+    const palabras = nombre.trim().split(/\s+/);
+    if (palabras.length < 2) return [palabras[0] ?? '', ''];
+    return [palabras.slice(0, -1).join(' '), palabras[palabras.length - 1]];
+  }
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { motion } from "framer-motion";
+
+// --- COMPONENTES UI (Pequeñas piezas de legos visuales) ---
+export const AnimatedCard: React.FC<{ children: React.ReactNode; className?: string; delay?: number }> = ({ children, className = "", delay = 0 }) => (
+  <motion.div
+    initial={{ opacity: 0, y: 30, scale: 0.95 }}
+    animate={{ opacity: 1, y: 0, scale: 1 }}
+    transition={{ duration: 0.6, delay, ease: [0.22, 1, 0.36, 1] }}
+    whileHover={{ y: -5, transition: { duration: 0.2 } }}
+    className={`bg-zinc-900/40 backdrop-blur-2xl border border-white/5 rounded-3xl p-6 shadow-2xl ${className}`}
+  >
+    {children}
+  </motion.div>
+);
@@ -0,0 +1,5 @@
+import React from 'react';
+
+/** Mensaje de validación debajo del input que hay que corregir. */
+export const CampoError: React.FC<{ mensaje?: string }> = ({ mensaje }) =>
+  mensaje ? <p className="text-xs font-bold text-red-400">{mensaje}</p> : null;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { motion } from "framer-motion";
+import { X } from 'lucide-react';
+
+import { AuditLogic } from '../audit/audit';
+import { Conflicto } from '../offline/sincronizacion';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic, Traductor } from '../i18n/i18n';
+
+const mostrar = (valor: unknown, t: Traductor) =>
+  typeof valor === 'boolean' ? t(valor ? 'comun.si' : 'comun.no') : valor === undefined || valor === null ? '—' : String(valor);
+
+/**
+ * Cambios de esta recepción que chocaron con los de otra. Mientras no se
+ * elige, el socio queda como está en el servidor.
+ */
+export const ConflictosModal: React.FC<{
+  conflictos: Conflicto[];
+  regional: ConfigRegional;
+  onResolver: (conflictoId: string, eleccion: 'mio' | 'servidor') => void;
+  onClose: () => void;
+}> = ({ conflictos, regional, onResolver, onClose }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[80vh] overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl relative"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <h3 className="font-black text-2xl tracking-tighter mb-6">{t('conflictos.titulo')}</h3>
+
+        <div className="space-y-6">
+          {conflictos.map(c => (
+            <div key={c.id} className="border-l-2 border-amber-500/60 pl-4 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-black">{c.socioNombre}</span>
+                <span className="text-zinc-500 font-mono text-xs">{FormatoLogic.fechaHora(c.fecha, regional)}</span>
+              </div>
+              <div className="text-[10px] text-amber-400 font-bold uppercase tracking-widest">
+                {t(`conflictos.${c.motivo}`)}{c.detalle && ` · ${c.detalle}`}
+              </div>
+              {c.campos.map(campo => (
+                <div key={campo.campo} className="text-xs text-zinc-400">
+                  {t('conflictos.campo', { campo: AuditLogic.nombreCampo(campo.campo, t) })} <span className="text-zinc-200">{mostrar(campo.mio, t)}</span> · {t('conflictos.servidor')} <span className="text-zinc-200">{mostrar(campo.servidor, t)}</span>
+                </div>
+              ))}
+              <div className="flex gap-2 pt-1">
+                <button onClick={() => onResolver(c.id, 'mio')} className="bg-blue-600 hover:bg-blue-500 py-2 px-4 rounded-xl font-bold text-xs">
+                  {t(c.motivo === 'eliminado' ? 'conflictos.realta' : 'conflictos.usarMio')}
+                </button>
+                <button onClick={() => onResolver(c.id, 'servidor')} className="bg-zinc-800 hover:bg-zinc-700 py-2 px-4 rounded-xl font-bold text-xs">
+                  {t('conflictos.usarServidor')}
+                </button>
+              </div>
+            </div>
+          ))}
+          {conflictos.length === 0 && <p className="text-zinc-500 text-sm">{t('conflictos.vacio')}</p>}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from "framer-motion";
+import QRCode from 'qrcode';
+import { Download, Printer, X } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { AccesoLogic } from '../access/acceso';
+import { ConfigRegional } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+import { Organizacion } from '../tenancy/organizacion';
+import { escaparHtml } from '../reports/reportes';
+
+/**
+ * Credencial del socio con su QR y la marca del gimnasio. Se puede descargar
+ * como PNG (para mandarla al celular) o imprimir en tamaño tarjeta.
+ */
+export const CredencialModal: React.FC<{
+  socio: Socio;
+  nombrePlan: string;
+  organizacion: Pick<Organizacion, 'nombre' | 'logoUrl'>;
+  regional: ConfigRegional;
+  onClose: () => void;
+}> = ({ socio, nombrePlan, organizacion, regional, onClose }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
+  const identificacion = `${documento.sigla} ${documento.formatear(socio.dni)}`;
+  const [qr, setQr] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(AccesoLogic.codigoCredencial(socio), { width: 480, margin: 1 })
+      .then(setQr)
+      .catch(e => console.error("Error generando QR:", e));
+  }, [socio]);
+
+  const handlePrint = () => {
+    const ventana = window.open('', '_blank', 'width=420,height=600');
+    if (!ventana || !qr) return;
+    ventana.document.write(`
+      <html><head><title>${escaparHtml(t('credencial.ventana', { nombre: socio.nombre }))}</title></head>
+      <body style="font-family:sans-serif;text-align:center;padding:24px">
+        ${organizacion.logoUrl ? `<img src="${escaparHtml(organizacion.logoUrl)}" alt="" style="height:48px;margin-bottom:8px" />` : ''}
+        <h2 style="margin:0">${escaparHtml(organizacion.nombre)}</h2>
+        <img src="${qr}" style="width:260px;height:260px;margin:16px 0" />
+        <h3 style="margin:0">${escaparHtml(socio.nombre)}</h3>
+        <p style="margin:4px 0">${escaparHtml(t('credencial.documentoSede', { documento: identificacion, sede: socio.sede }))}</p>
+      </body></html>
+    `);
+    ventana.document.close();
+    ventana.onload = () => ventana.print();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-sm bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl text-center relative"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest">{organizacion.nombre} • {t('credencial.titulo')}</span>
+        <div className="bg-white rounded-2xl p-4 my-6 aspect-square flex items-center justify-center">
+          {qr ? <img src={qr} alt={t('credencial.qrDe', { nombre: socio.nombre })} className="w-full" /> : <span className="text-zinc-400 text-sm">{t('credencial.generando')}</span>}
+        </div>
+        <h3 className="font-black text-xl">{socio.nombre}</h3>
+        <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest mt-1">
+          {identificacion} • {socio.sede} • {nombrePlan}
+        </p>
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <a
+            href={qr ?? undefined}
+            download={`credencial-${socio.dni}.png`}
+            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 py-3 rounded-2xl font-bold text-sm transition-all"
+          >
+            <Download className="w-4 h-4" /> {t('credencial.descargar')}
+          </a>
+          <button
+            onClick={handlePrint}
+            className="flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 py-3 rounded-2xl font-bold text-sm transition-all"
+          >
+            <Printer className="w-4 h-4" /> {t('credencial.imprimir')}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
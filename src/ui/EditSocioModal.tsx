@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { X } from 'lucide-react';
+
+import { CAMPOS_PRECIO, Socio, FitnessBusinessLogic } from '../domain/socio';
+import { ConfigPrecios, PricingEngine } from '../pricing/pricing';
+import { ErroresCampo, ValidacionLogic } from '../validation/validacion';
+import { PriceBreakdown } from './PriceBreakdown';
+import { CampoError } from './CampoError';
+import { CANAL_TEXTO, Canal } from '../notifications/notificaciones';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-3 px-5 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+/**
+ * Edición de un socio existente. El importe no se tipea: se recalcula con
+ * el motor de precios, así un cambio de plan sube o baja la cuota solo.
+ */
+export const EditSocioModal: React.FC<{
+  socio: Socio;
+  socios: Socio[];
+  sedes: string[];
+  precios: ConfigPrecios;
+  regional: ConfigRegional;
+  onSave: (actualizado: Socio) => string | null; // Devuelve el error de sede (ej.: sin cupo), si lo hay
+  onClose: () => void;
+}> = ({ socio, socios, sedes, precios, regional, onSave, onClose }) => {
+  const [form, setForm] = useState({
+    nombre: socio.nombre,
+    dni: String(socio.dni),
+    fechaNacimiento: socio.fechaNacimiento,
+    telefono: socio.telefono,
+    email: socio.email,
+    contactoEmergenciaNombre: socio.contactoEmergenciaNombre,
+    contactoEmergenciaTelefono: socio.contactoEmergenciaTelefono,
+    aptoMedicoVence: socio.aptoMedicoVence ?? '',
+    sede: socio.sede,
+    membresia: socio.membresia,
+    metodoPago: socio.metodoPago,
+    codigoPromo: socio.codigoPromo ?? '',
+    integrantesGrupo: String(socio.integrantesGrupo ?? ''),
+    mesesPrepago: String(socio.mesesPrepago ?? '')
+  });
+  const [sinAvisos, setSinAvisos] = useState<Canal[]>(socio.sinAvisos ?? []);
+  const [errores, setErrores] = useState<ErroresCampo>({});
+
+  const editado: Socio = {
+    ...socio,
+    ...form,
+    nombre: form.nombre.trim(),
+    dni: parseInt(form.dni),
+    telefono: form.telefono.trim(),
+    email: form.email.trim(),
+    contactoEmergenciaNombre: form.contactoEmergenciaNombre.trim(),
+    contactoEmergenciaTelefono: form.contactoEmergenciaTelefono.trim(),
+    aptoMedicoVence: form.aptoMedicoVence || null,
+    // Al corregir la fecha estimada en la migración, deja de ser estimada.
+    fechaNacimientoEstimada: form.fechaNacimiento === socio.fechaNacimiento ? socio.fechaNacimientoEstimada : undefined,
+    codigoPromo: form.codigoPromo.trim().toUpperCase() || undefined,
+    integrantesGrupo: parseInt(form.integrantesGrupo) || undefined,
+    mesesPrepago: parseInt(form.mesesPrepago) || undefined,
+    // Mismo arreglo si no se tocó: así la auditoría no registra un cambio que no hubo.
+    sinAvisos: [...sinAvisos].sort().join() === [...(socio.sinAvisos ?? [])].sort().join()
+      ? socio.sinAvisos
+      : (sinAvisos.length ? sinAvisos : undefined)
+  };
+  const cambiaPrecio = CAMPOS_PRECIO.some(c => editado[c] !== socio[c]);
+  const borrador = cambiaPrecio ? FitnessBusinessLogic.recalcular(precios, editado) : editado;
+  const desglose = FitnessBusinessLogic.cotizar(precios, editado);
+  const precioAnterior = PricingEngine.precioBase(precios, socio.membresia, socio.sede);
+  const precioNuevo = PricingEngine.precioBase(precios, form.membresia, form.sede);
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
+  const t = I18nLogic.traductor(regional.idioma);
+  const tipos = new Set(precios.reglas.filter(r => r.activa).map(r => r.tipo));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nuevosErrores = ValidacionLogic.validar(borrador, { socios, idActual: socio.id, hoy: new Date(), documento, t });
+    setErrores(nuevosErrores);
+    if (!ValidacionLogic.esValido(nuevosErrores)) return;
+    const errorSede = onSave(borrador);
+    if (errorSede) setErrores({ sede: errorSede });
+  };
+
+  // Un socio de otra sede puede seguir editándose en la suya, aunque no esté en 'sedes'.
+  const opcionesSede = sedes.includes(socio.sede) ? sedes : [socio.sede, ...sedes];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.form
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        onSubmit={handleSubmit}
+        className="w-full max-w-xl max-h-[90vh] overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl relative space-y-5"
+      >
+        <button type="button" onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <h3 className="font-black text-2xl tracking-tighter">{t('editar.titulo')} <span className="text-blue-500">{t('editar.tituloResaltado')}</span></h3>
+
+        <div className="space-y-2">
+          <label className={labelClass}>{t('alta.nombre')}</label>
+          <input type="text" value={form.nombre} onChange={(e) => setForm({ ...form, nombre: e.target.value })} className={inputClass} />
+          <CampoError mensaje={errores.nombre} />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>{documento.sigla}</label>
+            <input type="number" value={form.dni} onChange={(e) => setForm({ ...form, dni: e.target.value })} className={`${inputClass} font-mono`} />
+            <CampoError mensaje={errores.dni} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.nacimiento')}{socio.fechaNacimientoEstimada && form.fechaNacimiento === socio.fechaNacimiento ? t('editar.estimado') : ''}</label>
+            <input type="date" value={form.fechaNacimiento} onChange={(e) => setForm({ ...form, fechaNacimiento: e.target.value })} className={`${inputClass} font-mono`} />
+            <CampoError mensaje={errores.fechaNacimiento} />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>{t('alta.telefono')}</label>
+            <input type="tel" value={form.telefono} onChange={(e) => setForm({ ...form, telefono: e.target.value })} className={`${inputClass} font-mono`} />
+            <CampoError mensaje={errores.telefono} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('alta.email')}</label>
+            <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className={inputClass} />
+            <CampoError mensaje={errores.email} />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.emergencia')}</label>
+            <input type="text" placeholder={t('alta.emergenciaNombre')} value={form.contactoEmergenciaNombre} onChange={(e) => setForm({ ...form, contactoEmergenciaNombre: e.target.value })} className={inputClass} />
+            <CampoError mensaje={errores.contactoEmergenciaNombre} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.telEmergencia')}</label>
+            <input type="tel" value={form.contactoEmergenciaTelefono} onChange={(e) => setForm({ ...form, contactoEmergenciaTelefono: e.target.value })} className={`${inputClass} font-mono`} />
+            <CampoError mensaje={errores.contactoEmergenciaTelefono} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.apto')}</label>
+            <input type="date" value={form.aptoMedicoVence} onChange={(e) => setForm({ ...form, aptoMedicoVence: e.target.value })} className={`${inputClass} font-mono`} />
+            <CampoError mensaje={errores.aptoMedicoVence} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t('editar.sinAvisos')}</label>
+          <div className="flex gap-4">
+            {(Object.keys(CANAL_TEXTO) as Canal[]).map(canal => (
+              <label key={canal} className="flex items-center gap-2 text-xs font-bold text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={sinAvisos.includes(canal)}
+                  onChange={(e) => setSinAvisos(e.target.checked ? [...sinAvisos, canal] : sinAvisos.filter(c => c !== canal))}
+                />
+                {CANAL_TEXTO[canal]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.sede')}</label>
+            <select value={form.sede} onChange={(e) => setForm({ ...form, sede: e.target.value })} className={`${inputClass} cursor-pointer`}>
+              {opcionesSede.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <CampoError mensaje={errores.sede} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.membresia')}</label>
+            <select value={form.membresia} onChange={(e) => setForm({ ...form, membresia: e.target.value })} className={`${inputClass} cursor-pointer`}>
+              {precios.planes.map(m => <option key={m.id} value={m.id}>{m.nombre}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>{t('editar.pago')}</label>
+            <select value={form.metodoPago} onChange={(e) => setForm({ ...form, metodoPago: e.target.value })} className={`${inputClass} cursor-pointer`}>
+              <option value="efectivo">{t('alta.efectivo')}</option>
+              <option value="tarjeta">{t('alta.tarjeta')}</option>
+            </select>
+          </div>
+        </div>
+        {(tipos.has('promo') || tipos.has('grupo') || tipos.has('prepago')) && (
+          <div className="grid grid-cols-3 gap-4">
+            {tipos.has('promo') && (
+              <div className="space-y-2">
+                <label className={labelClass}>{t('editar.promo')}</label>
+                <input value={form.codigoPromo} onChange={(e) => setForm({ ...form, codigoPromo: e.target.value })} className={`${inputClass} font-mono uppercase`} />
+              </div>
+            )}
+            {tipos.has('grupo') && (
+              <div className="space-y-2">
+                <label className={labelClass}>{t('editar.grupo')}</label>
+                <input type="number" value={form.integrantesGrupo} onChange={(e) => setForm({ ...form, integrantesGrupo: e.target.value })} className={`${inputClass} font-mono`} />
+              </div>
+            )}
+            {tipos.has('prepago') && (
+              <div className="space-y-2">
+                <label className={labelClass}>{t('editar.prepago')}</label>
+                <input type="number" value={form.mesesPrepago} onChange={(e) => setForm({ ...form, mesesPrepago: e.target.value })} className={`${inputClass} font-mono`} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="pt-5 border-t border-white/5 flex justify-between items-end gap-4">
+          <div className="flex-1 space-y-3">
+            {cambiaPrecio && <PriceBreakdown desglose={desglose} etiquetaBase={t('editar.precioPlan')} regional={regional} />}
+            <div>
+              <p className={labelClass}>
+                {t('editar.nuevoImporte')}{precioNuevo > precioAnterior ? t('editar.upgrade') : precioNuevo < precioAnterior ? t('editar.downgrade') : ''}
+              </p>
+              <p className="text-3xl font-black text-blue-500">
+                {FormatoLogic.moneda(Math.round(borrador.importe), regional)}
+                {borrador.importe !== socio.importe && (
+                  <span className="text-sm text-zinc-500 line-through ml-3">{FormatoLogic.moneda(Math.round(socio.importe), regional)}</span>
+                )}
+              </p>
+            </div>
+          </div>
+          <button type="submit" className="bg-blue-600 hover:bg-blue-500 text-white font-black px-8 py-4 rounded-2xl transition-all active:scale-95 text-sm uppercase tracking-widest">
+            {t('editar.guardar')}
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
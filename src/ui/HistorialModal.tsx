@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from "framer-motion";
+import { X } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { AuditLogic, EventoAuditoria } from '../audit/audit';
+import { AuditRepository } from '../persistence/AuditRepository';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic, Traductor } from '../i18n/i18n';
+
+const mostrar = (valor: unknown, t: Traductor): string =>
+  typeof valor === 'boolean' ? t(valor ? 'comun.si' : 'comun.no')
+    : valor === undefined || valor === null ? '—'
+    // Listas de registros (ej.: congelamientos): cada uno como "valor valor valor".
+    : Array.isArray(valor) ? valor.map(v => (typeof v === 'object' && v !== null ? Object.values(v).join(' ') : String(v))).join(', ') || '—'
+    : String(valor);
+
+/** Historial de auditoría de un socio: quién cambió qué y cuándo. */
+export const HistorialModal: React.FC<{ socio: Socio; auditoria: AuditRepository; regional: ConfigRegional; onClose: () => void }> = ({
+  socio, auditoria, regional, onClose
+}) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [eventos, setEventos] = useState<EventoAuditoria[] | null>(null);
+
+  useEffect(() => {
+    auditoria.listarPorSocio(socio.id)
+      .then(setEventos)
+      .catch(e => console.error("Error cargando auditoría:", e));
+  }, [socio, auditoria]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl max-h-[80vh] overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl relative"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <h3 className="font-black text-2xl tracking-tighter mb-1">{t('historial.titulo')}</h3>
+        <p className="text-zinc-500 text-sm font-bold mb-6">{socio.nombre}</p>
+
+        <div className="space-y-4">
+          {eventos?.map(ev => (
+            <div key={ev.id} className="border-l-2 border-blue-500/40 pl-4">
+              <div className="flex justify-between text-sm">
+                <span className="font-black">{t(`auditoria.${ev.accion}`)}</span>
+                <span className="text-zinc-500 font-mono text-xs">{FormatoLogic.fechaHora(ev.fecha, regional)}</span>
+              </div>
+              <div className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest mb-2">{t('historial.por', { usuario: ev.usuarioNombre })}</div>
+              {ev.cambios.map(c => (
+                <div key={c.campo} className="text-xs text-zinc-400">
+                  {AuditLogic.nombreCampo(c.campo, t)}: <span className="line-through text-zinc-600">{mostrar(c.antes, t)}</span> → <span className="text-zinc-200">{mostrar(c.despues, t)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+          {eventos?.length === 0 && <p className="text-zinc-500 text-sm">{t('historial.vacio')}</p>}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
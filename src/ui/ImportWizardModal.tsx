@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from "framer-motion";
+import { FileSpreadsheet, X } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { ConfigPrecios } from '../pricing/pricing';
+import {
+  CampoImportable, CAMPOS_IMPORTABLES, CAMPOS_OBLIGATORIOS, EstadoFila, Mapeo, MAX_BYTES_PLANILLA, Planilla, PlanillaLogic
+} from '../spreadsheet/planilla';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm cursor-pointer";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+const ESTADO_ESTILO: Record<EstadoFila, string> = {
+  valida: 'text-emerald-400 bg-emerald-500/10',
+  duplicada: 'text-amber-400 bg-amber-500/10',
+  error: 'text-red-400 bg-red-500/10'
+};
+
+/**
+ * Asistente de importación en tres pasos: elegir archivo, asignar columnas
+ * y revisar la simulación. Nada se guarda hasta el botón final.
+ */
+export const ImportWizardModal: React.FC<{
+  socios: Socio[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  precios: ConfigPrecios;
+  regional: ConfigRegional;
+  onImportar: (nuevos: Socio[]) => void;
+  onClose: () => void;
+}> = ({ socios, sedes, sedesPermitidas, precios, regional, onImportar, onClose }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
+  const [paso, setPaso] = useState<'archivo' | 'mapeo' | 'simulacion'>('archivo');
+  const [planilla, setPlanilla] = useState<Planilla | null>(null);
+  const [mapeo, setMapeo] = useState<Mapeo | null>(null);
+  const [porDefecto, setPorDefecto] = useState({
+    sede: sedesPermitidas[0] ?? '',
+    membresia: precios.planes[0]?.id ?? '',
+    metodoPago: 'efectivo'
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleArchivo = async (archivo: File | undefined) => {
+    if (!archivo) return;
+    if (archivo.size > MAX_BYTES_PLANILLA) return setError(t('importar.muyGrande'));
+    try {
+      const leida = await PlanillaLogic.leerArchivo(archivo);
+      if (leida.filas.length === 0) return setError(t('importar.sinFilas'));
+      setError(null);
+      setPlanilla(leida);
+      setMapeo(PlanillaLogic.mapeoSugerido(leida.encabezados));
+      setPaso('mapeo');
+    } catch (e) {
+      console.error("Error leyendo planilla:", e);
+      setError(t('importar.ilegible'));
+    }
+  };
+
+  const resultado = useMemo(() => {
+    if (paso !== 'simulacion' || !planilla || !mapeo) return [];
+    return PlanillaLogic.analizar(planilla, mapeo, { socios, sedes, sedesPermitidas, precios, porDefecto, documento, t });
+  }, [paso, planilla, mapeo, socios, sedes, sedesPermitidas, precios, porDefecto, regional.pais, regional.idioma]);
+
+  // El documento lleva la sigla del país del gimnasio (DNI, CPF, SSN...)
+  const nombreCampo = (campo: CampoImportable) => campo === 'dni' ? documento.sigla : t(`campo.${campo}`);
+
+  const validas = resultado.filter(f => f.estado === 'valida');
+  const faltantes = mapeo ? PlanillaLogic.camposFaltantes(mapeo).map(nombreCampo) : [];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl relative space-y-6"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <h3 className="font-black text-2xl tracking-tighter">{t('importar.titulo')} <span className="text-blue-500">{t('importar.tituloResaltado')}</span></h3>
+
+        {paso === 'archivo' && (
+          <label className="block border-2 border-dashed border-white/10 rounded-3xl p-16 text-center cursor-pointer hover:border-blue-500/50 transition-colors">
+            <FileSpreadsheet className="w-10 h-10 text-zinc-500 mx-auto mb-4" />
+            <p className="font-bold text-zinc-300">{t('importar.elegir')}</p>
+            <p className="text-xs text-zinc-500 mt-1">{t('importar.encabezados')}</p>
+            <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={(e) => handleArchivo(e.target.files?.[0])} />
+          </label>
+        )}
+
+        {paso === 'mapeo' && planilla && mapeo && (
+          <>
+            <p className="text-sm text-zinc-400">{t('importar.filas', { n: planilla.filas.length })}</p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {CAMPOS_IMPORTABLES.map(campo => (
+                <div key={campo} className="space-y-1">
+                  <label className={labelClass}>
+                    {nombreCampo(campo)}{CAMPOS_OBLIGATORIOS.includes(campo) ? ' *' : ''}
+                  </label>
+                  <select
+                    value={mapeo[campo] ?? ''}
+                    onChange={(e) => setMapeo({ ...mapeo, [campo]: e.target.value === '' ? null : Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    <option value="">{t('importar.noViene')}</option>
+                    {planilla.encabezados.map((h, i) => <option key={i} value={i}>{h || t('importar.columna', { n: i + 1 })}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 pt-4 border-t border-white/5">
+              <div className="space-y-1">
+                <label className={labelClass}>{t('importar.sedeDefecto')}</label>
+                <select value={porDefecto.sede} onChange={(e) => setPorDefecto({ ...porDefecto, sede: e.target.value })} className={inputClass}>
+                  {sedesPermitidas.map(s => <option key={s} value={s}>{SedeLogic.nombre(sedes, s)}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('importar.membresiaDefecto')}</label>
+                <select value={porDefecto.membresia} onChange={(e) => setPorDefecto({ ...porDefecto, membresia: e.target.value })} className={inputClass}>
+                  {precios.planes.map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('importar.pagoDefecto')}</label>
+                <select value={porDefecto.metodoPago} onChange={(e) => setPorDefecto({ ...porDefecto, metodoPago: e.target.value })} className={inputClass}>
+                  <option value="efectivo">{t('alta.efectivo')}</option>
+                  <option value="tarjeta">{t('alta.tarjeta')}</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-bold text-red-400">
+                {faltantes.length > 0 && t('importar.faltan', { campos: faltantes.join(', ') })}
+              </span>
+              <button
+                disabled={faltantes.length > 0}
+                onClick={() => setPaso('simulacion')}
+                className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white font-black px-8 py-3 rounded-2xl transition-all active:scale-95 text-sm uppercase tracking-widest"
+              >
+                {t('importar.simular')}
+              </button>
+            </div>
+          </>
+        )}
+
+        {paso === 'simulacion' && planilla && (
+          <>
+            <div className="flex gap-3 text-xs font-black uppercase tracking-widest">
+              <span className={`px-3 py-1 rounded-full ${ESTADO_ESTILO.valida}`}>{t('importar.seImportan', { n: validas.length })}</span>
+              <span className={`px-3 py-1 rounded-full ${ESTADO_ESTILO.duplicada}`}>{t('importar.duplicados', { n: resultado.filter(f => f.estado === 'duplicada').length })}</span>
+              <span className={`px-3 py-1 rounded-full ${ESTADO_ESTILO.error}`}>{t('importar.conErrores', { n: resultado.filter(f => f.estado === 'error').length })}</span>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto rounded-2xl border border-white/5">
+              <table className="w-full text-left text-sm">
+                <thead className="sticky top-0 bg-zinc-950">
+                  <tr className={labelClass}>
+                    <th className="px-4 py-3">{t('importar.fila')}</th>
+                    <th className="px-4 py-3">{t('importar.socio')}</th>
+                    <th className="px-4 py-3">{t('importar.resultado')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {resultado.map(f => (
+                    <tr key={f.numero}>
+                      <td className="px-4 py-2 font-mono text-xs text-zinc-500">{f.numero}</td>
+                      <td className="px-4 py-2 font-bold text-zinc-300">
+                        {f.socio ? `${f.socio.nombre} • ${f.socio.sede} • ${FormatoLogic.moneda(Math.round(f.socio.importe), regional)}` : f.valores.join(' · ')}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${ESTADO_ESTILO[f.estado]}`}>
+                          {t(`importar.${f.estado}`)}
+                        </span>
+                        {f.motivo && <span className="text-xs text-zinc-500 ml-2">{f.motivo}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between items-center gap-4">
+              <button onClick={() => setPaso('mapeo')} className="text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-white">
+                {t('importar.volver')}
+              </button>
+              <div className="flex gap-3">
+                {validas.length < resultado.length && (
+                  <button
+                    onClick={() => PlanillaLogic.exportarErrores(planilla, resultado, t)}
+                    className="bg-zinc-800 hover:bg-zinc-700 font-black px-6 py-3 rounded-2xl text-xs uppercase tracking-widest"
+                  >
+                    {t('importar.descargarErrores')}
+                  </button>
+                )}
+                <button
+                  disabled={validas.length === 0}
+                  onClick={() => onImportar(validas.map(f => f.socio!))}
+                  className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white font-black px-8 py-3 rounded-2xl transition-all active:scale-95 text-sm uppercase tracking-widest"
+                >
+                  {t('importar.importar', { n: validas.length })}
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { X } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { formatearFecha } from '../billing/billing';
+import {
+  EstadoMembresia, MAX_DIAS_CONGELAMIENTO, MembresiaLogic, MOTIVOS_CONGELAMIENTO, MotivoCongelamiento
+} from '../membership/membresia';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-3 px-5 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+const botonClass = "shrink-0 rounded-2xl py-3 px-5 text-xs font-black uppercase tracking-widest transition-colors";
+
+export const ESTADO_MEMBRESIA_COLOR: Record<EstadoMembresia, string> = {
+  prueba: 'text-cyan-400',
+  activa: 'text-emerald-400',
+  congelada: 'text-blue-400',
+  vencida: 'text-amber-400',
+  cancelada: 'text-red-400'
+};
+
+/**
+ * El ciclo de vida de la membresía de un socio: solo se ofrecen las
+ * acciones que la máquina de estados permite desde el estado actual. Cada
+ * acción pasa por onSave (cupo y auditoría) como cualquier otra edición.
+ */
+export const MembresiaModal: React.FC<{
+  socio: Socio;
+  puedeCancelar: boolean;
+  regional: ConfigRegional;
+  onSave: (actualizado: Socio) => string | null;
+  onClose: () => void;
+}> = ({ socio, puedeCancelar, regional, onSave, onClose }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const hoy = formatearFecha(new Date());
+  const fecha = (dia: string) => FormatoLogic.fecha(dia, regional);
+  const [desde, setDesde] = useState(hoy);
+  const [hasta, setHasta] = useState('');
+  const [motivo, setMotivo] = useState<MotivoCongelamiento>('vacaciones');
+  const [motivoCancelacion, setMotivoCancelacion] = useState('');
+  const [nuevoVence, setNuevoVence] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const congelamientoPendiente = socio.congelamientos?.some(c => c.hasta >= hoy);
+
+  // Las reglas viven en MembresiaLogic: si una transición no vale, su mensaje se muestra tal cual.
+  const aplicar = (cambio: () => Socio) => {
+    try {
+      const errorSede = onSave(cambio());
+      if (errorSede) setError(errorSede);
+      else onClose();
+    } catch (e) {
+      setError(I18nLogic.error(t, e));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl max-h-[90vh] overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl relative space-y-6"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <div>
+          <h3 className="font-black text-2xl tracking-tighter">{t('membresiaModal.titulo')}</h3>
+          <p className="text-zinc-500 text-sm font-bold">{socio.nombre}</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-sm font-bold">
+          <div>
+            <p className={labelClass}>{t('membresiaModal.estado')}</p>
+            <p className={`font-black ${ESTADO_MEMBRESIA_COLOR[socio.estado]}`}>{t(`membresia.${socio.estado}`)}</p>
+          </div>
+          <div>
+            <p className={labelClass}>{t('membresiaModal.desde')}</p>
+            <p className="font-mono">{fecha(socio.inicio)}</p>
+          </div>
+          <div>
+            <p className={labelClass}>{t('membresiaModal.vence')}</p>
+            <p className="font-mono">{socio.vence ? fecha(socio.vence) : t('membresiaModal.renuevaMes')}</p>
+          </div>
+        </div>
+
+        {socio.estado === 'cancelada' && socio.fechaCancelacion && (
+          <p className="text-xs text-zinc-400 font-bold">
+            {t('membresiaModal.canceladaEl', { fecha: fecha(socio.fechaCancelacion) })}{socio.motivoCancelacion && `: ${socio.motivoCancelacion}`}
+          </p>
+        )}
+
+        {(socio.congelamientos?.length ?? 0) > 0 && (
+          <div className="space-y-1">
+            <p className={labelClass}>{t('membresiaModal.congelamientos')}</p>
+            {socio.congelamientos!.map(c => (
+              <p key={c.desde} className="text-xs text-zinc-400 font-bold">
+                {fecha(c.desde)} → {fecha(c.hasta)} • {t(`congelamiento.${c.motivo}`)}
+                {c.hasta >= hoy && <span className="text-blue-400"> • {t(c.desde > hoy ? 'membresiaModal.programado' : 'membresiaModal.enCurso')}</span>}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {socio.estado === 'prueba' && (
+          <button onClick={() => aplicar(() => MembresiaLogic.convertir(socio, new Date()))} className={`${botonClass} w-full bg-blue-600 hover:bg-blue-500 text-white`}>
+            {t('membresiaModal.convertir')}
+          </button>
+        )}
+
+        {socio.estado === 'activa' && (
+          <div className="space-y-2">
+            <p className={labelClass}>{t('membresiaModal.congelarAyuda', { dias: MAX_DIAS_CONGELAMIENTO })}</p>
+            <div className="grid grid-cols-3 gap-3">
+              <input type="date" value={desde} min={hoy} onChange={(e) => setDesde(e.target.value)} className={`${inputClass} font-mono`} />
+              <input type="date" value={hasta} min={desde} onChange={(e) => setHasta(e.target.value)} className={`${inputClass} font-mono`} />
+              <select value={motivo} onChange={(e) => setMotivo(e.target.value as MotivoCongelamiento)} className={`${inputClass} cursor-pointer`}>
+                {MOTIVOS_CONGELAMIENTO.map(m => <option key={m} value={m}>{t(`congelamiento.${m}`)}</option>)}
+              </select>
+            </div>
+            <button
+              disabled={!desde || !hasta}
+              onClick={() => aplicar(() => MembresiaLogic.congelar(socio, desde, hasta, motivo, new Date()))}
+              className={`${botonClass} w-full bg-zinc-800 hover:bg-blue-500/20 hover:text-blue-400 disabled:opacity-30`}
+            >
+              {t('membresiaModal.congelar')}
+            </button>
+          </div>
+        )}
+
+        {(socio.estado === 'activa' || socio.estado === 'congelada') && congelamientoPendiente && (
+          <button onClick={() => aplicar(() => MembresiaLogic.descongelar(socio, new Date()))} className={`${botonClass} w-full bg-zinc-800 hover:bg-emerald-500/20 hover:text-emerald-400`}>
+            {t(socio.estado === 'congelada' ? 'membresiaModal.terminarHoy' : 'membresiaModal.anular')}
+          </button>
+        )}
+
+        {(socio.estado === 'vencida' || socio.estado === 'cancelada') && (
+          <div className="space-y-2">
+            <p className={labelClass}>{t('membresiaModal.reactivarAyuda')}</p>
+            <div className="flex gap-3">
+              <input type="date" value={nuevoVence} min={hoy} onChange={(e) => setNuevoVence(e.target.value)} className={`${inputClass} font-mono`} />
+              <button onClick={() => aplicar(() => MembresiaLogic.reactivar(socio, new Date(), nuevoVence || null))} className={`${botonClass} bg-emerald-600 hover:bg-emerald-500 text-white`}>
+                {t('membresiaModal.reactivar')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {puedeCancelar && MembresiaLogic.puedePasar(socio.estado, 'cancelada') && (
+          <div className="space-y-2">
+            <p className={labelClass}>{t('membresiaModal.cancelarTitulo')}</p>
+            <div className="flex gap-3">
+              <input
+                placeholder={t('membresiaModal.motivo')}
+                value={motivoCancelacion}
+                onChange={(e) => setMotivoCancelacion(e.target.value)}
+                className={inputClass}
+              />
+              <button
+                onClick={() => aplicar(() => MembresiaLogic.cancelar(socio, motivoCancelacion, new Date()))}
+                className={`${botonClass} bg-red-500/20 text-red-400 hover:bg-red-500/30`}
+              >
+                {t('membresiaModal.cancelar')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+
+import { DesglosePrecio } from '../pricing/pricing';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+/** Desglose línea por línea de lo que devuelve el motor de precios. */
+export const PriceBreakdown: React.FC<{ desglose: DesglosePrecio; etiquetaBase: string; regional: ConfigRegional }> = ({ desglose, etiquetaBase, regional }) => (
+  <div className="space-y-1 text-xs font-bold">
+    <div className="flex justify-between gap-6 text-zinc-400">
+      <span>{etiquetaBase}</span>
+      <span className="font-mono">{FormatoLogic.moneda(Math.round(desglose.base), regional)}</span>
+    </div>
+    {desglose.lineas.map(l => (
+      <div key={l.concepto} className={`flex justify-between gap-6 ${l.monto < 0 ? 'text-emerald-400' : 'text-amber-400'}`}>
+        <span>{l.concepto}</span>
+        <span className="font-mono">{l.monto < 0 ? '-' : '+'}{FormatoLogic.moneda(Math.round(Math.abs(l.monto)), regional)}</span>
+      </div>
+    ))}
+    {desglose.avisos.map(a => (
+      <div key={a.tipo} className="text-red-400">
+        {I18nLogic.traducir(regional.idioma, `precios.${a.tipo}`, a.tipo === 'promo_vencida' ? { codigo: a.codigo } : {})}
+      </div>
+    ))}
+  </div>
+);
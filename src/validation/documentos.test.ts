@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { DNI_MAX, DNI_MIN, DocumentoLogic, documentoGenerico } from './documentos';
+
+describe('DocumentoLogic', () => {
+  it('DNI argentino: solo el rango que aceptamos', () => {
+    const dni = DocumentoLogic.para('AR');
+
+    expect(dni.validar(DNI_MIN)).toBe(true);
+    expect(dni.validar(DNI_MAX)).toBe(true);
+    expect(dni.validar(DNI_MIN - 1)).toBe(false);
+    expect(dni.validar(30123456.5)).toBe(false);
+    expect(dni.formatear(30123456)).toBe('30.123.456');
+  });
+
+  it('CPF brasileño: los dos dígitos verificadores', () => {
+    const cpf = DocumentoLogic.para('BR');
+
+    expect(cpf.validar(52998224725)).toBe(true);
+    expect(cpf.validar(52998224724)).toBe(false);
+    expect(cpf.validar(11111111111)).toBe(false); // Pasa la cuenta, pero no existe
+    expect(cpf.formatear(52998224725)).toBe('529.982.247-25');
+    expect(cpf.formatear(1234567890)).toBe('012.345.678-90');
+  });
+
+  it('CI uruguaya: el dígito verificador con pesos 2987634', () => {
+    const ci = DocumentoLogic.para('UY');
+
+    expect(ci.validar(12345672)).toBe(true);
+    expect(ci.validar(12345673)).toBe(false);
+    expect(ci.formatear(12345672)).toBe('1.234.567-2');
+  });
+
+  it('SSN: rechaza las combinaciones que nunca se emiten', () => {
+    const ssn = DocumentoLogic.para('US');
+
+    expect(ssn.validar(123456789)).toBe(true);
+    expect([666456789, 912456789, 456789, 123006789, 123450000].map(ssn.validar)).toEqual([false, false, false, false, false]);
+    expect(ssn.formatear(123456789)).toBe('123-45-6789');
+  });
+
+  it('sin validador propio usa el genérico, con los textos en el idioma del gimnasio', () => {
+    const generico = DocumentoLogic.para('fr', 'en');
+
+    expect(generico.sigla).toBe(documentoGenerico('en').sigla);
+    expect(generico.sigla).not.toBe(documentoGenerico('es').sigla);
+    expect(generico.validar(999)).toBe(false);
+    expect(generico.validar(123456789012)).toBe(true);
+  });
+
+  it('el código de país no distingue mayúsculas y se pueden sumar países', () => {
+    expect(DocumentoLogic.para('br').sigla).toBe('CPF');
+
+    DocumentoLogic.registrar('cl', { ...documentoGenerico('es'), sigla: 'RUT' });
+    expect(DocumentoLogic.para('CL').sigla).toBe('RUT');
+  });
+});
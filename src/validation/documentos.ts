@@ -0,0 +1,105 @@
+import { Idioma } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+/**
+ * --- DOCUMENTOS DE IDENTIDAD POR PAÍS ---
+ * El campo 'dni' del socio guarda el número de documento del país del
+ * gimnasio, sea un DNI argentino, un CPF brasileño o un SSN. Cada país
+ * enchufa su validador (rango, dígito verificador); los países sin uno
+ * propio usan el genérico, que solo pide un número razonable. Los textos
+ * de cada documento van en el idioma de su país; los del genérico, en el
+ * del gimnasio.
+ */
+export interface ValidadorDocumento {
+  sigla: string;       // Lo que se muestra en etiquetas y errores: "DNI", "CPF"
+  nombre: string;      // "Documento Nacional de Identidad"
+  ayuda: string;       // Placeholder del input
+  validar: (numero: number) => boolean;
+  formatear: (numero: number) => string;
+}
+
+// Rango de DNI argentino que aceptamos (ni documentos provisorios ni números imposibles).
+export const DNI_MIN = 2000000;
+export const DNI_MAX = 59999999;
+
+const digitos = (numero: number, largo: number) => String(numero).padStart(largo, '0');
+
+const DNI_AR: ValidadorDocumento = {
+  sigla: 'DNI',
+  nombre: 'Documento Nacional de Identidad',
+  ayuda: 'Sin puntos',
+  validar: n => Number.isInteger(n) && n >= DNI_MIN && n <= DNI_MAX,
+  formatear: n => n.toLocaleString('es-AR')
+};
+
+// Dos dígitos verificadores módulo 11; un CPF con todos los dígitos iguales pasa la cuenta pero no existe.
+const CPF_BR: ValidadorDocumento = {
+  sigla: 'CPF',
+  nombre: 'Cadastro de Pessoas Físicas',
+  ayuda: '11 dígitos, sem pontos nem traço',
+  validar: n => {
+    if (!Number.isInteger(n) || n <= 0 || n > 99999999999) return false;
+    const d = digitos(n, 11).split('').map(Number);
+    if (d.every(x => x === d[0])) return false;
+    const verificador = (hasta: number) => {
+      const suma = d.slice(0, hasta).reduce((acc, x, i) => acc + x * (hasta + 1 - i), 0);
+      const resto = (suma * 10) % 11;
+      return resto === 10 ? 0 : resto;
+    };
+    return verificador(9) === d[9] && verificador(10) === d[10];
+  },
+  formatear: n => digitos(n, 11).replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4')
+};
+
+// Cédula uruguaya: hasta 7 dígitos más un verificador con pesos 2987634.
+const CI_UY: ValidadorDocumento = {
+  sigla: 'CI',
+  nombre: 'Cédula de Identidad',
+  ayuda: 'Con el dígito verificador, sin puntos ni guion',
+  validar: n => {
+    if (!Number.isInteger(n) || n < 100000 || n > 99999999) return false;
+    const d = digitos(n, 8).split('').map(Number);
+    const suma = [2, 9, 8, 7, 6, 3, 4].reduce((acc, peso, i) => acc + peso * d[i], 0);
+    return (10 - (suma % 10)) % 10 === d[7];
+  },
+  formatear: n => digitos(n, 8).replace(/^0?(\d{1,})(\d{3})(\d{3})(\d)$/, '$1.$2.$3-$4')
+};
+
+// Las combinaciones que la administración de EE.UU. nunca emite.
+const SSN_US: ValidadorDocumento = {
+  sigla: 'SSN',
+  nombre: 'Social Security Number',
+  ayuda: '9 digits, no dashes',
+  validar: n => {
+    if (!Number.isInteger(n) || n <= 0 || n > 999999999) return false;
+    const [area, grupo, serie] = [digitos(n, 9).slice(0, 3), digitos(n, 9).slice(3, 5), digitos(n, 9).slice(5)];
+    return area !== '000' && area !== '666' && area[0] !== '9' && grupo !== '00' && serie !== '0000';
+  },
+  formatear: n => digitos(n, 9).replace(/^(\d{3})(\d{2})(\d{4})$/, '$1-$2-$3')
+};
+
+export const documentoGenerico = (idioma: Idioma): ValidadorDocumento => ({
+  sigla: I18nLogic.traducir(idioma, 'documento.sigla'),
+  nombre: I18nLogic.traducir(idioma, 'documento.nombre'),
+  ayuda: I18nLogic.traducir(idioma, 'documento.ayuda'),
+  validar: n => Number.isInteger(n) && n >= 1000 && n <= 999999999999999,
+  formatear: n => String(n)
+});
+
+const VALIDADORES = new Map<string, ValidadorDocumento>([
+  ['AR', DNI_AR],
+  ['BR', CPF_BR],
+  ['UY', CI_UY],
+  ['US', SSN_US]
+]);
+
+export class DocumentoLogic {
+  /** Para sumar (o reemplazar) el documento de un país sin tocar la validación. */
+  static registrar(pais: string, validador: ValidadorDocumento): void {
+    VALIDADORES.set(pais.toUpperCase(), validador);
+  }
+
+  static para(pais: string, idioma: Idioma = 'es'): ValidadorDocumento {
+    return VALIDADORES.get(pais.toUpperCase()) ?? documentoGenerico(idioma);
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { ContextoValidacion, DatosPerfil, ValidacionLogic } from './validacion';
+import { Socio } from '../domain/socio';
+
+const hoy = new Date(2026, 2, 15);
+const ctx = (cambios: Partial<ContextoValidacion> = {}): ContextoValidacion => ({ socios: [], hoy, ...cambios });
+
+const perfil = (cambios: Partial<DatosPerfil> = {}): DatosPerfil => ({
+  nombre: 'Ana Pérez',
+  dni: 30123456,
+  fechaNacimiento: '1990-05-20',
+  telefono: '3515551234',
+  email: 'ana@mail.com',
+  contactoEmergenciaNombre: '',
+  contactoEmergenciaTelefono: '',
+  aptoMedicoVence: null,
+  ...cambios
+});
+
+describe('ValidacionLogic.validar', () => {
+  it('un perfil completo no tiene errores', () => {
+    expect(ValidacionLogic.validar(perfil(), ctx())).toEqual({});
+  });
+
+  it('devuelve un error por campo', () => {
+    const errores = ValidacionLogic.validar(
+      perfil({ nombre: ' ', dni: 1999999, fechaNacimiento: '2027-01-01', telefono: '123', email: 'ana@', contactoEmergenciaTelefono: '3515550000' }),
+      ctx()
+    );
+
+    expect(errores).toEqual({
+      nombre: 'El nombre es obligatorio.',
+      dni: 'DNI inválido.',
+      fechaNacimiento: 'La fecha de nacimiento está en el futuro.',
+      telefono: 'Teléfono inválido (8 a 15 dígitos).',
+      email: 'Email inválido.',
+      contactoEmergenciaNombre: '¿A quién corresponde este teléfono?'
+    });
+  });
+
+  it('avisa quién tiene ya ese DNI, salvo que sea el socio que se edita', () => {
+    const existente: Socio = {
+      ...perfil(), id: 's9', nombre: 'Luis Díaz', sede: 'ROS', membresia: 'STD', metodoPago: 'efectivo', importe: 18000, estado: 'cancelada', inicio: '2025-01-01', vence: null
+    };
+
+    expect(ValidacionLogic.validar(perfil(), ctx({ socios: [existente] })).dni).toBe('Ya está registrado: Luis Díaz (ROS, de baja).');
+    expect(ValidacionLogic.validar(perfil(), ctx({ socios: [existente], idActual: 's9' })).dni).toBeUndefined();
+  });
+});
+
+describe('ValidacionLogic fechas y teléfonos', () => {
+  it('rechaza fechas que no existen en el calendario', () => {
+    expect(ValidacionLogic.esFecha('2028-02-29')).toBe(true);
+    expect(ValidacionLogic.esFecha('2026-02-29')).toBe(false);
+    expect(ValidacionLogic.esFecha('15/03/2026')).toBe(false);
+  });
+
+  it('lee las fechas como vienen en las planillas', () => {
+    expect(ValidacionLogic.parsearFecha('5/3/2026')).toBe('2026-03-05');
+    expect(ValidacionLogic.parsearFecha(' 2026-03-05 ')).toBe('2026-03-05');
+    expect(ValidacionLogic.parsearFecha('31/02/2026')).toBeNull();
+  });
+
+  it('el teléfono admite separadores y un + inicial', () => {
+    expect(ValidacionLogic.esTelefono('+54 (351) 555-1234')).toBe(true);
+    expect(ValidacionLogic.esTelefono('555-12')).toBe(false);
+  });
+
+  it('el apto médico vale hasta el final del día en que vence', () => {
+    expect(ValidacionLogic.aptoVigente({ aptoMedicoVence: '2026-03-15' }, new Date(2026, 2, 15, 23))).toBe(true);
+    expect(ValidacionLogic.aptoVigente({ aptoMedicoVence: '2026-03-14' }, hoy)).toBe(false);
+    expect(ValidacionLogic.aptoVigente({ aptoMedicoVence: null }, hoy)).toBe(false);
+  });
+});
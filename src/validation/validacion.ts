@@ -0,0 +1,123 @@
+import { Socio, FitnessBusinessLogic } from '../domain/socio';
+import { DocumentoLogic, ValidadorDocumento } from './documentos';
+import { I18nLogic, Traductor } from '../i18n/i18n';
+
+/**
+ * --- VALIDACIÓN DE SOCIOS ---
+ * Un único lugar con las reglas de un socio válido, usado por el alta, la
+ * edición y la importación de planillas. En vez de cortar en el primer error
+ * con un alert(), devolvemos un error por campo para mostrarlo al lado del
+ * input que hay que corregir.
+ */
+export type CampoValidable =
+  | 'nombre'
+  | 'dni'
+  | 'fechaNacimiento'
+  | 'telefono'
+  | 'email'
+  | 'contactoEmergenciaNombre'
+  | 'contactoEmergenciaTelefono'
+  | 'aptoMedicoVence';
+
+export type ErroresCampo = Partial<Record<CampoValidable | 'sede', string>>;
+
+export type DatosPerfil = Pick<Socio, CampoValidable>;
+
+export interface ContextoValidacion {
+  socios: Socio[];   // Padrón completo, de todas las sedes y con las bajas
+  idActual?: string; // Al editar, el propio socio no cuenta como duplicado
+  hoy: Date;
+  documento?: ValidadorDocumento; // El del país del gimnasio; sin indicarlo, el DNI argentino
+  t?: Traductor;                  // Idioma de los mensajes; sin indicarlo, español
+}
+
+export const EDAD_MAX = 110;
+
+const FORMATO_FECHA = /^\d{4}-\d{2}-\d{2}$/;
+const FORMATO_EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class ValidacionLogic {
+  /** true si el texto es una fecha "YYYY-MM-DD" que existe en el calendario. */
+  static esFecha(texto: string): boolean {
+    if (!FORMATO_FECHA.test(texto)) return false;
+    const [anio, mes, dia] = texto.split('-').map(Number);
+    const fecha = new Date(anio, mes - 1, dia);
+    return fecha.getFullYear() === anio && fecha.getMonth() === mes - 1 && fecha.getDate() === dia;
+  }
+
+  /** Acepta "YYYY-MM-DD" o "DD/MM/YYYY" (lo habitual en planillas) y devuelve "YYYY-MM-DD". */
+  static parsearFecha(texto: string): string | null {
+    const limpio = texto.trim();
+    const dma = limpio.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    const iso = dma ? `${dma[3]}-${dma[2].padStart(2, '0')}-${dma[1].padStart(2, '0')}` : limpio;
+    return ValidacionLogic.esFecha(iso) ? iso : null;
+  }
+
+  // Sin espacios, guiones ni paréntesis; un '+' inicial es válido.
+  static normalizarTelefono(telefono: string): string {
+    return telefono.replace(/[\s\-()]/g, '');
+  }
+
+  static esTelefono(telefono: string): boolean {
+    return /^\+?\d{8,15}$/.test(ValidacionLogic.normalizarTelefono(telefono));
+  }
+
+  /** El DNI es único en todo el gimnasio: se busca en todas las sedes, incluidas las bajas. */
+  static socioConDni(socios: Socio[], dni: number, excluirId?: string): Socio | undefined {
+    return socios.find(s => s.dni === dni && s.id !== excluirId);
+  }
+
+  static validar(datos: DatosPerfil, ctx: ContextoValidacion): ErroresCampo {
+    const errores: ErroresCampo = {};
+    const t = ctx.t ?? I18nLogic.traductor('es');
+
+    if (!datos.nombre.trim()) errores.nombre = t('validacion.nombreObligatorio');
+
+    const documento = ctx.documento ?? DocumentoLogic.para('AR');
+    if (!documento.validar(datos.dni)) {
+      errores.dni = t('validacion.documentoInvalido', { documento: documento.sigla });
+    } else {
+      const existente = ValidacionLogic.socioConDni(ctx.socios, datos.dni, ctx.idActual);
+      if (existente) {
+        const clave = existente.estado === 'cancelada' ? 'validacion.documentoRepetidoBaja' : 'validacion.documentoRepetido';
+        errores.dni = t(clave, { nombre: existente.nombre, sede: existente.sede });
+      }
+    }
+
+    if (!ValidacionLogic.esFecha(datos.fechaNacimiento)) {
+      errores.fechaNacimiento = t('validacion.fechaNacimiento');
+    } else {
+      const edad = FitnessBusinessLogic.edad(datos.fechaNacimiento, ctx.hoy);
+      if (edad < 0) errores.fechaNacimiento = t('validacion.nacimientoFuturo');
+      else if (edad > EDAD_MAX) errores.fechaNacimiento = t('validacion.fechaNacimiento');
+    }
+
+    if (datos.telefono && !ValidacionLogic.esTelefono(datos.telefono)) errores.telefono = t('validacion.telefono');
+    if (datos.email && !FORMATO_EMAIL.test(datos.email)) errores.email = t('validacion.email');
+
+    // El contacto de emergencia es opcional, pero si se carga tiene que estar completo.
+    if (datos.contactoEmergenciaTelefono && !datos.contactoEmergenciaNombre.trim()) {
+      errores.contactoEmergenciaNombre = t('validacion.contactoSinNombre');
+    }
+    if (datos.contactoEmergenciaNombre.trim() && !datos.contactoEmergenciaTelefono) {
+      errores.contactoEmergenciaTelefono = t('validacion.contactoSinTelefono');
+    } else if (datos.contactoEmergenciaTelefono && !ValidacionLogic.esTelefono(datos.contactoEmergenciaTelefono)) {
+      errores.contactoEmergenciaTelefono = t('validacion.telefono');
+    }
+
+    if (datos.aptoMedicoVence !== null && !ValidacionLogic.esFecha(datos.aptoMedicoVence)) {
+      errores.aptoMedicoVence = t('validacion.aptoMedico');
+    }
+
+    return errores;
+  }
+
+  static esValido(errores: ErroresCampo): boolean {
+    return Object.keys(errores).length === 0;
+  }
+
+  // El apto vence al terminar el día indicado.
+  static aptoVigente(socio: Pick<Socio, 'aptoMedicoVence'>, hoy: Date): boolean {
+    return socio.aptoMedicoVence !== null && new Date(`${socio.aptoMedicoVence}T23:59:59`).getTime() >= hoy.getTime();
+  }
+}
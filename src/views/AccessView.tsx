@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from "framer-motion";
+import { Camera, CameraOff, CheckCircle2, ScanLine, XCircle } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { LedgerFacturacion } from '../billing/billing';
+import { AccesoLogic, ResultadoAcceso } from '../access/acceso';
+import { Sede } from '../domain/sede';
+import { Asistencia } from '../attendance/attendance';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+// BarcodeDetector (Chrome/Edge/Android) todavía no está en las definiciones de TypeScript.
+interface BarcodeDetectorLike {
+  detect(fuente: CanvasImageSource): Promise<{ rawValue: string }[]>;
+}
+const BarcodeDetectorApi = (window as any).BarcodeDetector as
+  | (new (opciones: { formats: string[] }) => BarcodeDetectorLike)
+  | undefined;
+
+const PAUSA_ENTRE_LECTURAS_MS = 2500; // Evita registrar dos veces al mismo socio frente a la cámara
+
+/**
+ * Puesto de acceso. El campo de texto queda siempre enfocado para recibir
+ * lectores tipo teclado; la cámara es opcional y usa BarcodeDetector.
+ */
+export const AccessView: React.FC<{
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  socios: Socio[];
+  ledger: LedgerFacturacion;
+  asistencias: Asistencia[];
+  regional: ConfigRegional;
+  onAsistencia: (asistencia: Asistencia) => void;
+}> = ({ sedes, sedesPermitidas, socios, ledger, asistencias, regional, onAsistencia }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [sede, setSede] = useState(sedesPermitidas[0]);
+  const [codigo, setCodigo] = useState('');
+  const [resultado, setResultado] = useState<ResultadoAcceso | null>(null);
+  const [camara, setCamara] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const ultimaLectura = useRef({ codigo: '', momento: 0 });
+
+  const procesar = (texto: string) => {
+    if (!texto.trim()) return;
+    const ahora = Date.now();
+    if (texto === ultimaLectura.current.codigo && ahora - ultimaLectura.current.momento < PAUSA_ENTRE_LECTURAS_MS) return;
+    ultimaLectura.current = { codigo: texto, momento: ahora };
+
+    const r = AccesoLogic.validar(texto, sede, socios, ledger, sedes, new Date(ahora));
+    setResultado(r);
+    if (r.permitido) onAsistencia(r.asistencia);
+  };
+
+  // El lector de cámara corre en un intervalo: siempre llama a la versión más nueva.
+  const procesarRef = useRef(procesar);
+  procesarRef.current = procesar;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    procesar(codigo);
+    setCodigo('');
+    inputRef.current?.focus();
+  };
+
+  useEffect(() => {
+    if (!camara || !BarcodeDetectorApi) return;
+    const detector = new BarcodeDetectorApi({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let activo = true;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(s => {
+        stream = s;
+        if (!activo || !videoRef.current) return;
+        videoRef.current.srcObject = s;
+        videoRef.current.play();
+        timer = window.setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const codigos = await detector.detect(videoRef.current);
+          if (codigos[0]) procesarRef.current(codigos[0].rawValue);
+        }, 400);
+      })
+      .catch(e => {
+        console.error("Error abriendo la cámara:", e);
+        setCamara(false);
+      });
+
+    return () => {
+      activo = false;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [camara]);
+
+  const recientes = asistencias
+    .filter(a => a.sede === sede)
+    .slice(0, 8)
+    .map(a => ({ asistencia: a, socio: socios.find(s => s.id === a.socioId) }));
+
+  return (
+    <motion.div
+      key="access"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('acceso.titulo')} <span className="text-blue-500">{t('acceso.tituloResaltado')}</span></h1>
+        <select
+          value={sede}
+          onChange={(e) => setSede(e.target.value)}
+          disabled={sedesPermitidas.length === 1}
+          className="bg-zinc-900/50 border border-white/5 rounded-2xl py-3 px-6 outline-none font-bold cursor-pointer"
+        >
+          {sedesPermitidas.map(s => <option key={s} value={s}>{t('acceso.puesto', { sede: s })}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <AnimatedCard className="space-y-6">
+          <form onSubmit={handleSubmit} className="relative">
+            <ScanLine className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-zinc-500" />
+            <input
+              ref={inputRef}
+              autoFocus
+              type="text"
+              value={codigo}
+              onChange={(e) => setCodigo(e.target.value)}
+              placeholder={t('acceso.escanear')}
+              className="w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 pl-12 pr-4 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-mono"
+            />
+          </form>
+
+          {BarcodeDetectorApi && (
+            <button
+              onClick={() => setCamara(!camara)}
+              className="w-full flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 py-3 rounded-2xl font-bold text-sm transition-all"
+            >
+              {camara ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+              {t(camara ? 'acceso.apagarCamara' : 'acceso.usarCamara')}
+            </button>
+          )}
+          {camara && <video ref={videoRef} muted playsInline className="w-full rounded-2xl border border-white/10" />}
+
+          {resultado && (
+            <div className={`p-6 rounded-2xl border flex items-center gap-4 ${
+              resultado.permitido ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-red-500/10 border-red-500/30'
+            }`}>
+              {resultado.permitido
+                ? <CheckCircle2 className="w-10 h-10 text-emerald-400 shrink-0" />
+                : <XCircle className="w-10 h-10 text-red-400 shrink-0" />}
+              <div>
+                <div className={`text-2xl font-black ${resultado.permitido ? 'text-emerald-400' : 'text-red-400'}`}>
+                  {t(resultado.permitido ? 'acceso.adelante' : 'acceso.denegado')}
+                </div>
+                {resultado.socio && <div className="font-bold text-zinc-200">{resultado.socio.nombre}</div>}
+                {!resultado.permitido && <div className="text-sm text-zinc-400">{t(`acceso.${resultado.motivo}`)}</div>}
+              </div>
+            </div>
+          )}
+        </AnimatedCard>
+
+        <AnimatedCard delay={0.1}>
+          <h3 className="font-black text-xl mb-6">{t('acceso.ultimos')}</h3>
+          <div className="space-y-3">
+            {recientes.map(({ asistencia, socio }) => (
+              <div key={asistencia.id} className="flex justify-between text-sm">
+                <span className="font-bold">{socio?.nombre ?? t('acceso.socioEliminado')}</span>
+                <span className="text-zinc-500 font-mono">{FormatoLogic.hora(asistencia.fecha, regional)}</span>
+              </div>
+            ))}
+            {recientes.length === 0 && <p className="text-zinc-500 text-sm">{t('acceso.nadie')}</p>}
+          </div>
+        </AnimatedCard>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,463 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from "framer-motion";
+import { ChevronLeft, ChevronRight, Pencil, Plus, X } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { Plan } from '../pricing/pricing';
+import { Empleado, PersonalLogic } from '../staff/personal';
+import { Clase, ClasesLogic, ORDEN_SEMANA, Ocurrencia, Reserva, ResultadoReserva } from '../classes/clases';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { normalizar } from '../roster/padronQuery';
+import { MembresiaLogic } from '../membership/membresia';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+const MAX_RESULTADOS = 6;
+
+const claseVacia = (sede: string): Clase => ({
+  id: '', nombre: '', sede, instructor: '', sala: '', dia: 1, hora: '19:00',
+  duracionMin: 60, capacidad: 20, membresiasPermitidas: [], activa: true
+});
+
+/**
+ * Agenda semanal de clases. Recepción anota y da de baja a los socios en
+ * cada clase; el Admin además arma la grilla (día, horario, sala y cupo).
+ */
+export const AgendaView: React.FC<{
+  clases: Clase[];
+  reservas: Reserva[];
+  socios: Socio[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  planes: Plan[];
+  empleados: Empleado[];
+  puedeGestionar: boolean;
+  ahora: Date;
+  regional: ConfigRegional;
+  onReservas: (resultado: ResultadoReserva) => void;
+  onGuardarClases: (clases: Clase[]) => void;
+}> = ({ clases, reservas, socios, sedes, sedesPermitidas, planes, empleados, puedeGestionar, ahora, regional, onReservas, onGuardarClases }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [lunes, setLunes] = useState(() => ClasesLogic.inicioSemana(ahora));
+  const [sede, setSede] = useState(sedesPermitidas[0] ?? '');
+  const [abierta, setAbierta] = useState<{ claseId: string; fecha: string } | null>(null);
+  const [editando, setEditando] = useState<Clase | null>(null);
+
+  const ocurrencias = useMemo(
+    () => ClasesLogic.ocurrenciasSemana(clases.filter(c => c.sede === sede), lunes),
+    [clases, sede, lunes]
+  );
+  const seleccionada = abierta && ocurrencias.find(o => o.clase.id === abierta.claseId && o.fecha === abierta.fecha);
+
+  const moverSemana = (semanas: number) => {
+    const nuevo = new Date(lunes);
+    nuevo.setDate(lunes.getDate() + semanas * 7);
+    setLunes(nuevo);
+  };
+
+  const fin = new Date(lunes);
+  fin.setDate(lunes.getDate() + 6);
+  const inactivas = clases.filter(c => c.sede === sede && !c.activa);
+
+  return (
+    <motion.div
+      key="agenda"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('agenda.titulo')} <span className="text-blue-500">{t('agenda.tituloResaltado')}</span></h1>
+        <div className="flex flex-wrap items-center gap-3">
+          <select value={sede} onChange={(e) => setSede(e.target.value)} className="bg-zinc-900 border border-white/10 rounded-xl py-2 px-3 text-sm font-bold outline-none cursor-pointer">
+            {sedesPermitidas.map(c => <option key={c} value={c}>{SedeLogic.nombre(sedes, c)}</option>)}
+          </select>
+          <div className="flex items-center gap-2 bg-zinc-900 border border-white/10 rounded-xl p-1">
+            <button onClick={() => moverSemana(-1)} className="p-1.5 rounded-lg hover:bg-white/5"><ChevronLeft className="w-4 h-4" /></button>
+            <span className="text-xs font-black uppercase tracking-widest px-2">
+              {FormatoLogic.fecha(lunes, regional, { day: 'numeric', month: 'short' })} – {FormatoLogic.fecha(fin, regional, { day: 'numeric', month: 'short' })}
+            </span>
+            <button onClick={() => moverSemana(1)} className="p-1.5 rounded-lg hover:bg-white/5"><ChevronRight className="w-4 h-4" /></button>
+          </div>
+          <button onClick={() => setLunes(ClasesLogic.inicioSemana(new Date()))} className="text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-white">
+            {t('agenda.hoy')}
+          </button>
+          {puedeGestionar && (
+            <button onClick={() => setEditando(claseVacia(sede))} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 py-2 px-4 rounded-xl font-bold text-sm transition-all active:scale-95">
+              <Plus className="w-4 h-4" /> {t('agenda.nuevaClase')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+        {ORDEN_SEMANA.map((dia, i) => {
+          const fecha = new Date(lunes);
+          fecha.setDate(lunes.getDate() + i);
+          const delDia = ocurrencias.filter(o => o.clase.dia === dia);
+          return (
+            <div key={dia} className="space-y-3">
+              <div className={`text-center text-[10px] font-black uppercase tracking-widest ${fecha.toDateString() === ahora.toDateString() ? 'text-blue-400' : 'text-zinc-500'}`}>
+                {FormatoLogic.diaSemana(dia, regional)} {fecha.getDate()}
+              </div>
+              {delDia.map(o => (
+                <TarjetaClase
+                  key={o.clase.id}
+                  ocurrencia={o}
+                  reservas={reservas}
+                  regional={regional}
+                  pasada={o.inicio.getTime() <= ahora.getTime()}
+                  onAbrir={() => setAbierta({ claseId: o.clase.id, fecha: o.fecha })}
+                />
+              ))}
+              {delDia.length === 0 && <div className="text-center text-xs text-zinc-700 py-6">—</div>}
+            </div>
+          );
+        })}
+      </div>
+      {ocurrencias.length === 0 && (
+        <p className="text-zinc-500 text-sm text-center">{t('agenda.sinClases')}</p>
+      )}
+
+      {puedeGestionar && inactivas.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={labelClass}>{t('agenda.inactivas')}</span>
+          {inactivas.map(c => (
+            <button key={c.id} onClick={() => setEditando(c)} className="px-3 py-1 rounded-full text-xs font-bold border border-white/10 text-zinc-500 hover:text-white">
+              {c.nombre} · {FormatoLogic.diaSemana(c.dia, regional)} {c.hora}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <AnimatePresence>
+        {seleccionada && (
+          <ReservasModal
+            ocurrencia={seleccionada}
+            reservas={reservas}
+            socios={socios}
+            planes={planes}
+            ahora={ahora}
+            regional={regional}
+            puedeGestionar={puedeGestionar}
+            onReservas={onReservas}
+            onEditar={() => { setEditando(seleccionada.clase); setAbierta(null); }}
+            onClose={() => setAbierta(null)}
+          />
+        )}
+        {editando && (
+          <ClaseModal
+            clase={editando}
+            clases={clases}
+            sedes={sedes}
+            sedesPermitidas={sedesPermitidas}
+            planes={planes}
+            empleados={empleados}
+            regional={regional}
+            onGuardar={(clase) => {
+              onGuardarClases(clase.id && clases.some(c => c.id === clase.id)
+                ? clases.map(c => (c.id === clase.id ? clase : c))
+                : [...clases, { ...clase, id: crypto.randomUUID() }]);
+              setEditando(null);
+            }}
+            onClose={() => setEditando(null)}
+          />
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+const TarjetaClase: React.FC<{
+  ocurrencia: Ocurrencia;
+  reservas: Reserva[];
+  regional: ConfigRegional;
+  pasada: boolean;
+  onAbrir: () => void;
+}> = ({ ocurrencia: { clase, fecha }, reservas, regional, pasada, onAbrir }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const anotados = ClasesLogic.confirmadas(reservas, clase.id, fecha).length;
+  const espera = ClasesLogic.enEspera(reservas, clase.id, fecha).length;
+  const llena = anotados >= clase.capacidad;
+  return (
+    <button
+      onClick={onAbrir}
+      className={`w-full text-left bg-zinc-900/60 border rounded-2xl p-3 hover:bg-zinc-800/60 transition-all ${llena ? 'border-orange-500/30' : 'border-white/5'} ${pasada ? 'opacity-50' : ''}`}
+    >
+      <div className="text-xs font-mono text-blue-400">{clase.hora}</div>
+      <div className="font-black text-sm leading-tight">{clase.nombre}</div>
+      <div className="text-[10px] text-zinc-500 font-bold truncate">{clase.instructor} · {clase.sala}</div>
+      <div className="flex justify-between items-center mt-2 text-[10px] font-black uppercase tracking-widest">
+        <span className={llena ? 'text-orange-400' : 'text-zinc-400'}>{anotados}/{clase.capacidad}</span>
+        {espera > 0 && <span className="text-zinc-500">{t('agenda.enEspera', { n: espera })}</span>}
+      </div>
+      {clase.membresiasPermitidas.length > 0 && (
+        <div className="mt-1 text-[9px] font-black uppercase tracking-widest text-purple-400">{clase.membresiasPermitidas.join(' · ')}</div>
+      )}
+    </button>
+  );
+};
+
+const ReservasModal: React.FC<{
+  ocurrencia: Ocurrencia;
+  reservas: Reserva[];
+  socios: Socio[];
+  planes: Plan[];
+  ahora: Date;
+  regional: ConfigRegional;
+  puedeGestionar: boolean;
+  onReservas: (resultado: ResultadoReserva) => void;
+  onEditar: () => void;
+  onClose: () => void;
+}> = ({ ocurrencia: { clase, fecha, inicio }, reservas, socios, planes, ahora, regional, puedeGestionar, onReservas, onEditar, onClose }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [busqueda, setBusqueda] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const confirmadas = ClasesLogic.confirmadas(reservas, clase.id, fecha);
+  const espera = ClasesLogic.enEspera(reservas, clase.id, fecha);
+  const nombreSocio = (id: string) => socios.find(s => s.id === id)?.nombre ?? id;
+  const pasada = inicio.getTime() <= ahora.getTime();
+
+  const candidatos = useMemo(() => {
+    const texto = normalizar(busqueda.trim());
+    if (!texto) return [];
+    return socios
+      .filter(s => MembresiaLogic.habilitado(s) && (String(s.dni).includes(texto) || normalizar(s.nombre).includes(texto)))
+      .slice(0, MAX_RESULTADOS);
+  }, [busqueda, socios]);
+
+  const anotar = (socio: Socio) => {
+    try {
+      onReservas(ClasesLogic.reservar(reservas, clase, socio, fecha, new Date()));
+      setBusqueda('');
+      setError(null);
+    } catch (e) {
+      setError(I18nLogic.error(t, e));
+    }
+  };
+
+  const cancelar = (reservaId: string) => {
+    onReservas(ClasesLogic.cancelar(reservas, clase, reservaId, new Date()));
+  };
+
+  const fila = (r: Reserva, posicion: number) => (
+    <div key={r.id} className="flex justify-between items-center text-sm py-1.5 border-b border-white/5">
+      <span><span className="text-zinc-600 font-mono text-xs mr-2">{posicion}.</span>{nombreSocio(r.socioId)}</span>
+      {!pasada && (
+        <button onClick={() => cancelar(r.id)} className="text-[10px] font-black uppercase tracking-widest text-red-400 hover:text-red-300">
+          {t('agenda.cancelar')}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl max-h-[85vh] overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl relative"
+      >
+        <button onClick={onClose} className="absolute top-4 right-4 w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10">
+          <X className="w-4 h-4" />
+        </button>
+        <h3 className="font-black text-2xl tracking-tighter mb-1 flex items-center gap-3">
+          {clase.nombre}
+          {puedeGestionar && (
+            <button onClick={onEditar} className="text-zinc-500 hover:text-white"><Pencil className="w-4 h-4" /></button>
+          )}
+        </h3>
+        <p className="text-zinc-500 text-sm font-bold mb-6">
+          {FormatoLogic.fecha(inicio, regional, { weekday: 'long', day: 'numeric', month: 'long' })} · {clase.hora} · {clase.duracionMin} min · {clase.instructor} · {clase.sala}
+          {clase.membresiasPermitidas.length > 0 && (
+            <> · {t('agenda.solo', { planes: clase.membresiasPermitidas.map(id => planes.find(p => p.id === id)?.nombre ?? id).join(', ') })}</>
+          )}
+        </p>
+
+        {!pasada && (
+          <div className="space-y-2 mb-6">
+            <input
+              autoFocus
+              placeholder={t('agenda.anotar', { documento: DocumentoLogic.para(regional.pais, regional.idioma).sigla })}
+              value={busqueda}
+              onChange={(e) => { setBusqueda(e.target.value); setError(null); }}
+              className={inputClass}
+            />
+            {error && <p className="text-xs font-bold text-red-400">{error}</p>}
+            {candidatos.map(s => (
+              <button key={s.id} onClick={() => anotar(s)} className="w-full flex justify-between items-center text-left text-sm px-3 py-2 rounded-xl bg-zinc-800/50 hover:bg-zinc-800">
+                <span className="font-bold">{s.nombre}</span>
+                <span className="text-xs text-zinc-500 font-mono">{s.dni} · {s.membresia}</span>
+              </button>
+            ))}
+            {confirmadas.length >= clase.capacidad && (
+              <p className="text-[10px] font-black uppercase tracking-widest text-orange-400">{t('agenda.llena')}</p>
+            )}
+          </div>
+        )}
+
+        <div className={labelClass}>{t('agenda.confirmados', { n: confirmadas.length, capacidad: clase.capacidad })}</div>
+        <div className="mb-6">
+          {confirmadas.map((r, i) => fila(r, i + 1))}
+          {confirmadas.length === 0 && <p className="text-zinc-500 text-sm py-2">{t('agenda.nadie')}</p>}
+        </div>
+
+        {espera.length > 0 && (
+          <>
+            <div className={labelClass}>{t('agenda.listaEspera')}</div>
+            <div>{espera.map((r, i) => fila(r, i + 1))}</div>
+          </>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+const ClaseModal: React.FC<{
+  clase: Clase;
+  clases: Clase[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  planes: Plan[];
+  empleados: Empleado[];
+  regional: ConfigRegional;
+  onGuardar: (clase: Clase) => void;
+  onClose: () => void;
+}> = ({ clase, clases, sedes, sedesPermitidas, planes, empleados, regional, onGuardar, onClose }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [borrador, setBorrador] = useState<Clase>(clase);
+  const [error, setError] = useState<string | null>(null);
+  const instructores = PersonalLogic.instructores(empleados, borrador.sede);
+
+  const actualizar = (cambios: Partial<Clase>) => setBorrador({ ...borrador, ...cambios });
+
+  const alternarPlan = (id: string) => actualizar({
+    membresiasPermitidas: borrador.membresiasPermitidas.includes(id)
+      ? borrador.membresiasPermitidas.filter(p => p !== id)
+      : [...borrador.membresiasPermitidas, id]
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const limpia = { ...borrador, nombre: borrador.nombre.trim(), instructor: borrador.instructor.trim(), sala: borrador.sala.trim() };
+    if (!limpia.nombre || !limpia.instructor || !limpia.sala) return setError(t('agenda.obligatorios'));
+    if (limpia.capacidad < 1 || limpia.duracionMin < 1) return setError(t('agenda.mayorACero'));
+    const choca = limpia.activa && ClasesLogic.superpuesta(clases, limpia);
+    if (choca) return setError(t('agenda.superpuesta', { clase: choca.nombre, dia: FormatoLogic.diaSemana(choca.dia, regional), hora: choca.hora }));
+    onGuardar(limpia);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-xl max-h-[85vh] overflow-y-auto"
+      >
+        <AnimatedCard className="bg-zinc-900">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h3 className="font-black text-2xl tracking-tighter">{t(clase.id ? 'agenda.editarClase' : 'agenda.nuevaClase')}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1 col-span-2">
+                <label className={labelClass}>{t('agenda.nombre')}</label>
+                <input value={borrador.nombre} placeholder="Spinning" onChange={(e) => actualizar({ nombre: e.target.value })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.instructor')}</label>
+                {/* Con legajos cargados se elige de la lista, así las horas cuentan para la liquidación */}
+                {instructores.length > 0 ? (
+                  <select
+                    value={borrador.instructorId ?? ''}
+                    onChange={(e) => actualizar({ instructorId: e.target.value || undefined, instructor: instructores.find(i => i.id === e.target.value)?.nombre ?? '' })}
+                    className={inputClass}
+                  >
+                    <option value="">{t('agenda.elegir')}</option>
+                    {instructores.map(i => <option key={i.id} value={i.id}>{i.nombre}</option>)}
+                  </select>
+                ) : (
+                  <input value={borrador.instructor} onChange={(e) => actualizar({ instructor: e.target.value })} className={inputClass} />
+                )}
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.sala')}</label>
+                <input value={borrador.sala} placeholder={t('agenda.salaEjemplo')} onChange={(e) => actualizar({ sala: e.target.value })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.sede')}</label>
+                <select value={borrador.sede} onChange={(e) => actualizar({ sede: e.target.value })} className={inputClass}>
+                  {sedesPermitidas.map(c => <option key={c} value={c}>{SedeLogic.nombre(sedes, c)}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.dia')}</label>
+                <select value={borrador.dia} onChange={(e) => actualizar({ dia: Number(e.target.value) })} className={inputClass}>
+                  {ORDEN_SEMANA.map(d => <option key={d} value={d}>{FormatoLogic.diaSemana(d, regional)}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.hora')}</label>
+                <input type="time" value={borrador.hora} onChange={(e) => actualizar({ hora: e.target.value })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.duracion')}</label>
+                <input type="number" min={1} value={borrador.duracionMin} onChange={(e) => actualizar({ duracionMin: Number(e.target.value) })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('agenda.cupo')}</label>
+                <input type="number" min={1} value={borrador.capacidad} onChange={(e) => actualizar({ capacidad: Number(e.target.value) })} className={inputClass} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className={labelClass}>{t('agenda.planes')}</label>
+              <div className="flex flex-wrap gap-2">
+                {planes.map(p => (
+                  <button
+                    type="button"
+                    key={p.id}
+                    onClick={() => alternarPlan(p.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-black border transition-all ${borrador.membresiasPermitidas.includes(p.id) ? 'bg-blue-600 border-blue-500 text-white' : 'border-white/10 text-zinc-400 hover:text-white'}`}
+                  >
+                    {p.nombre}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 cursor-pointer">
+              <input type="checkbox" checked={borrador.activa} onChange={(e) => actualizar({ activa: e.target.checked })} />
+              {t('agenda.activa')}
+            </label>
+            {error && <p className="text-xs font-bold text-red-400">{error}</p>}
+            <div className="flex gap-3">
+              <button type="button" onClick={onClose} className="flex-1 bg-zinc-800 hover:bg-zinc-700 font-black py-3 rounded-xl text-xs uppercase tracking-widest">
+                {t('agenda.cancelar')}
+              </button>
+              <button type="submit" className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-black py-3 rounded-xl text-xs uppercase tracking-widest">
+                {t('agenda.guardar')}
+              </button>
+            </div>
+          </form>
+        </AnimatedCard>
+      </motion.div>
+    </motion.div>
+  );
+};
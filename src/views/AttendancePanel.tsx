@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, UserX } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { Asistencia, AsistenciaLogic } from '../attendance/attendance';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const HORAS = Array.from({ length: 18 }, (_, i) => i + 6); // 06 a 23 hs: fuera de eso no abre ninguna sede
+const UMBRALES_ABANDONO = [7, 14, 30];
+
+/**
+ * Panel de asistencia del Dashboard: visitas por día, mapa de calor por
+ * hora y socios en riesgo de abandono (sin venir hace N días).
+ */
+export const AttendancePanel: React.FC<{ sedes: string[]; socios: Socio[]; asistencias: Asistencia[]; ahora: Date; regional: ConfigRegional }> = ({
+  sedes, socios, asistencias, ahora, regional
+}) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [sede, setSede] = useState<string | null>(sedes.length === 1 ? sedes[0] : null);
+  const [umbral, setUmbral] = useState(14);
+
+  const datos = useMemo(() => {
+    const deSede = AsistenciaLogic.deSede(asistencias, sede);
+    const sociosSede = sede ? socios.filter(s => s.sede === sede) : socios;
+    const porDia = AsistenciaLogic.visitasPorDia(deSede, 14, ahora);
+    const calor = AsistenciaLogic.mapaDeCalor(deSede, 4, ahora);
+    return {
+      porDia,
+      maxDia: Math.max(1, ...porDia.map(d => d.total)),
+      calor,
+      maxCalor: Math.max(1, ...calor.flat()),
+      riesgo: AsistenciaLogic.riesgoAbandono(sociosSede, deSede, umbral, ahora)
+    };
+  }, [asistencias, socios, sede, umbral, ahora]);
+
+  // El mapa de calor arranca en lunes; FormatoLogic cuenta desde el domingo.
+  const diaSemana = (fila: number) => FormatoLogic.diaSemana((fila + 1) % 7, regional);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <AnimatedCard delay={0.6} className="lg:col-span-2 space-y-8">
+        <div className="flex justify-between items-center">
+          <h3 className="font-black text-xl flex items-center gap-3">
+            <CalendarClock className="text-blue-400 w-5 h-5" /> {t('asistencia.titulo')}
+          </h3>
+          {sedes.length > 1 && (
+            <select
+              value={sede ?? ''}
+              onChange={(e) => setSede(e.target.value || null)}
+              className="bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-4 text-xs font-bold outline-none cursor-pointer"
+            >
+              <option value="">{t('asistencia.todasLasSedes')}</option>
+              {sedes.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          )}
+        </div>
+
+        <div>
+          <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">{t('asistencia.visitas')}</p>
+          <div className="flex items-end gap-1 h-24">
+            {datos.porDia.map(d => (
+              <div key={d.fecha.toISOString()} className="flex-1 flex flex-col items-center gap-1" title={`${FormatoLogic.fecha(d.fecha, regional)}: ${d.total}`}>
+                <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(d.total / datos.maxDia) * 80}px` }} />
+                <span className="text-[8px] text-zinc-600 font-mono">{d.fecha.getDate()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-3">{t('asistencia.pico')}</p>
+          <div className="space-y-1">
+            {datos.calor.map((fila, dia) => (
+              <div key={dia} className="flex items-center gap-1">
+                <span className="w-8 text-[9px] text-zinc-500 font-bold">{diaSemana(dia)}</span>
+                {HORAS.map(h => (
+                  <div
+                    key={h}
+                    title={t('asistencia.celda', { dia: diaSemana(dia), hora: h, n: fila[h] })}
+                    className="flex-1 h-4 rounded-sm bg-blue-500"
+                    style={{ opacity: 0.08 + (fila[h] / datos.maxCalor) * 0.92 }}
+                  />
+                ))}
+              </div>
+            ))}
+            <div className="flex gap-1 pl-9">
+              {HORAS.map(h => (
+                <span key={h} className="flex-1 text-[8px] text-zinc-600 font-mono text-center">{h % 3 === 0 ? h : ''}</span>
+              ))}
+            </div>
+          </div>
+        </div>
+      </AnimatedCard>
+
+      <AnimatedCard delay={0.7}>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="font-black text-xl flex items-center gap-3">
+            <UserX className="text-red-400 w-5 h-5" /> {t('asistencia.riesgo')}
+          </h3>
+          <select
+            value={umbral}
+            onChange={(e) => setUmbral(Number(e.target.value))}
+            className="bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 text-xs font-bold outline-none cursor-pointer"
+          >
+            {UMBRALES_ABANDONO.map(d => <option key={d} value={d}>{t('asistencia.umbral', { n: d })}</option>)}
+          </select>
+        </div>
+        <div className="space-y-3 max-h-80 overflow-y-auto pr-2">
+          {datos.riesgo.slice(0, 50).map(r => (
+            <div key={r.socio.id} className="flex justify-between text-sm">
+              <span className="font-bold truncate">{r.socio.nombre}</span>
+              <span className="text-zinc-500 font-mono shrink-0 ml-2">
+                {r.diasSinVenir === null ? t('asistencia.nuncaVino') : t('asistencia.dias', { n: r.diasSinVenir })}
+              </span>
+            </div>
+          ))}
+          {datos.riesgo.length === 0 && <p className="text-zinc-500 text-sm">{t('asistencia.todosVinieron', { n: umbral })}</p>}
+        </div>
+      </AnimatedCard>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { Receipt } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { BillingLogic, EstadoFactura, LedgerFacturacion, MetodoPago } from '../billing/billing';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const ESTADO_ESTILO: Record<EstadoFactura, string> = {
+  pagada: 'text-emerald-400 bg-emerald-500/10',
+  pendiente: 'text-amber-400 bg-amber-500/10',
+  vencida: 'text-red-400 bg-red-500/10'
+};
+
+// Vencidas primero: son las que el recepcionista tiene que reclamar.
+const ORDEN_ESTADO: Record<EstadoFactura, number> = { vencida: 0, pendiente: 1, pagada: 2 };
+
+export const BillingView: React.FC<{
+  socios: Socio[];
+  ledger: LedgerFacturacion;
+  regional: ConfigRegional;
+  onPagar: (facturaId: string, metodo: MetodoPago) => void;
+}> = ({ socios, ledger, regional, onPagar }) => {
+  const [soloImpagas, setSoloImpagas] = useState(true);
+  const t = I18nLogic.traductor(regional.idioma);
+  const hoy = new Date();
+
+  const filas = ledger.facturas
+    .map(f => ({
+      factura: f,
+      socio: socios.find(s => s.id === f.socioId),
+      estado: BillingLogic.estado(ledger, f, hoy),
+      saldo: BillingLogic.saldo(ledger, f)
+    }))
+    .filter(r => r.socio && (!soloImpagas || r.estado !== 'pagada'))
+    .sort((a, b) =>
+      ORDEN_ESTADO[a.estado] - ORDEN_ESTADO[b.estado] || b.factura.periodo.localeCompare(a.factura.periodo)
+    );
+
+  return (
+    <motion.div
+      key="billing"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('cobranzas.titulo')} <span className="text-blue-500">{t('cobranzas.tituloResaltado')}</span></h1>
+        <button
+          onClick={() => setSoloImpagas(!soloImpagas)}
+          className="bg-zinc-900/50 border border-white/5 rounded-2xl py-3 px-6 text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-colors"
+        >
+          {soloImpagas ? t('cobranzas.verTodas') : t('cobranzas.soloImpagas')}
+        </button>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-white/5 bg-zinc-900/20 backdrop-blur-xl shadow-2xl">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-zinc-950 text-[10px] font-black text-zinc-500 uppercase tracking-widest border-b border-white/5">
+              <th className="px-8 py-5">{t('cobranzas.socio')}</th>
+              <th className="px-8 py-5">{t('cobranzas.periodo')}</th>
+              <th className="px-8 py-5">{t('cobranzas.vence')}</th>
+              <th className="px-8 py-5 text-right">{t('cobranzas.total')}</th>
+              <th className="px-8 py-5 text-right">{t('cobranzas.saldo')}</th>
+              <th className="px-8 py-5 text-center">{t('cobranzas.cobrar')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {filas.map(({ factura, socio, estado, saldo }) => (
+              <tr key={factura.id} className="hover:bg-white/[0.02] transition-colors">
+                <td className="px-8 py-6">
+                  <div className="font-bold text-zinc-200">{socio!.nombre}</div>
+                  <span className={`text-[10px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${ESTADO_ESTILO[estado]}`}>
+                    {t(`factura.${estado}`)}
+                  </span>
+                </td>
+                <td className="px-8 py-6 font-mono text-xs text-zinc-400">{BillingLogic.etiquetaPeriodo(factura)}</td>
+                <td className="px-8 py-6 font-mono text-xs text-zinc-400">{FormatoLogic.fecha(factura.vencimiento, regional)}</td>
+                <td className="px-8 py-6 text-right">
+                  <div className="font-black text-zinc-200">{FormatoLogic.moneda(BillingLogic.totalFactura(factura), regional)}</div>
+                  {factura.recargo > 0 && (
+                    <div className="text-[10px] text-red-400 font-bold">{t('cobranzas.inclRecargo', { importe: FormatoLogic.moneda(factura.recargo, regional) })}</div>
+                  )}
+                </td>
+                <td className="px-8 py-6 text-right font-black text-emerald-400">{FormatoLogic.moneda(saldo, regional)}</td>
+                <td className="px-8 py-6">
+                  {estado !== 'pagada' && (
+                    <div className="flex justify-center gap-2">
+                      {(['efectivo', 'tarjeta'] as MetodoPago[]).map(metodo => (
+                        <button
+                          key={metodo}
+                          onClick={() => onPagar(factura.id, metodo)}
+                          className="text-[10px] font-black uppercase tracking-widest bg-zinc-800 hover:bg-blue-600 px-3 py-2 rounded-xl transition-colors"
+                        >
+                          {t(`metodo.${metodo}`)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filas.length === 0 && (
+          <div className="p-20 text-center">
+            <div className="w-16 h-16 bg-zinc-900 rounded-2xl flex items-center justify-center mx-auto mb-4 border border-white/5">
+              <Receipt className="text-zinc-600" />
+            </div>
+            <p className="text-zinc-500 font-medium">{t('cobranzas.vacio')}</p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
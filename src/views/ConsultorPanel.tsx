@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BrainCircuit, History } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { Socio } from '../domain/socio';
+import { Sede } from '../domain/sede';
+import { LedgerFacturacion } from '../billing/billing';
+import { ConfigPrecios } from '../pricing/pricing';
+import { ReportesLogic } from '../reports/reportes';
+import { AuditRepository } from '../persistence/AuditRepository';
+import { InsightRepository } from '../persistence/InsightRepository';
+import { ConsultorLogic, Insight, MESES_TENDENCIA, Prioridad } from '../consultant/consultor';
+import { crearConsultor } from '../consultant/ConsultorService';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const PRIORIDAD_ESTILO: Record<Prioridad, string> = {
+  alta: 'text-red-400 bg-red-500/10',
+  media: 'text-amber-400 bg-amber-500/10',
+  baja: 'text-blue-400 bg-blue-500/10'
+};
+
+/**
+ * Tarjeta del Dashboard con el consultor de negocio: arma el snapshot con
+ * los datos que ve el usuario, muestra las recomendaciones con sus métricas
+ * y permite volver a análisis anteriores.
+ */
+export const ConsultorPanel: React.FC<{
+  socios: Socio[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  precios: ConfigPrecios;
+  ledger: LedgerFacturacion;
+  auditoria: AuditRepository;
+  insights: InsightRepository;
+  ahora: Date;
+  regional: ConfigRegional;
+}> = ({ socios, sedes, sedesPermitidas, precios, ledger, auditoria, insights, ahora, regional }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const consultor = useMemo(() => crearConsultor(insights), [insights]);
+  const [historial, setHistorial] = useState<Insight[]>([]);
+  const [actual, setActual] = useState<Insight | null>(null);
+  const [verHistorial, setVerHistorial] = useState(false);
+  const [cargando, setCargando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    consultor.historialReciente()
+      .then(setHistorial)
+      .catch(e => console.error("Error cargando historial del consultor:", e));
+  }, [consultor]);
+
+  const handleConsultar = async () => {
+    setCargando(true);
+    setError(null);
+    try {
+      const mesActual = ReportesLogic.periodoDe(ahora, 'mes');
+      const desde = ReportesLogic.rango(ReportesLogic.desplazar(mesActual, 1 - MESES_TENDENCIA)).desde;
+      const eventos = await auditoria.listarEntre(desde, ReportesLogic.rango(mesActual).hasta);
+      const snapshot = ConsultorLogic.snapshot({ socios, sedes, sedesPermitidas, precios, ledger, eventos, regional }, ahora);
+      const insight = await consultor.analizar(snapshot);
+      setActual(insight);
+      setHistorial(await consultor.historialReciente());
+      setVerHistorial(false);
+    } catch (e) {
+      console.error("Error del consultor:", e);
+      setError(t('consultor.error'));
+    } finally {
+      setCargando(false);
+    }
+  };
+
+  return (
+    <AnimatedCard delay={0.3} className="border-blue-500/30 bg-blue-500/5 group">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <BrainCircuit className={`text-blue-400 w-6 h-6 ${cargando ? 'animate-pulse' : ''}`} />
+          <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest">{t('consultor.titulo')}</span>
+        </div>
+        {historial.length > 0 && (
+          <button
+            onClick={() => setVerHistorial(!verHistorial)}
+            title={t('consultor.anteriores')}
+            className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${verHistorial ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`}
+          >
+            <History className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {verHistorial ? (
+        <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+          {historial.map(h => (
+            <button
+              key={h.id}
+              onClick={() => { setActual(h); setVerHistorial(false); }}
+              className="w-full text-left p-3 rounded-2xl bg-zinc-950/50 border border-white/5 hover:border-blue-500/30 transition-colors"
+            >
+              <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+                {FormatoLogic.fechaHora(h.fecha, regional)} • {h.proveedor}
+              </div>
+              <div className="text-sm font-bold text-zinc-300 truncate">{h.recomendaciones[0]?.titulo}</div>
+            </button>
+          ))}
+        </div>
+      ) : actual ? (
+        <div className="space-y-3">
+          <div className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+            {FormatoLogic.fechaHora(actual.fecha, regional)} • {actual.proveedor}
+          </div>
+          <div className="space-y-3 max-h-72 overflow-y-auto pr-1">
+            {actual.recomendaciones.map((r, i) => (
+              <div key={i} className="bg-zinc-950/50 p-4 rounded-2xl border border-blue-500/20 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <span className="font-bold text-sm text-blue-100">{r.titulo}</span>
+                  <span className={`shrink-0 text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${PRIORIDAD_ESTILO[r.prioridad]}`}>
+                    {t(`prioridad.${r.prioridad}`)}
+                  </span>
+                </div>
+                <p className="text-xs text-zinc-400 leading-relaxed">{r.detalle}</p>
+                {r.metricas.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {r.metricas.map(m => (
+                      <span key={m.nombre} className="text-[10px] font-bold bg-zinc-800 px-2 py-1 rounded-lg text-zinc-300">
+                        {m.nombre}: <span className="font-mono text-white">{m.valor}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleConsultar}
+            disabled={cargando}
+            className="w-full text-center text-[10px] font-black text-zinc-500 hover:text-blue-400 uppercase tracking-widest transition-colors disabled:opacity-50"
+          >
+            {t(cargando ? 'consultor.procesando' : 'consultor.nuevo')}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-[11px] text-zinc-500 font-medium">{t('consultor.descripcion')}</p>
+          <button
+            onClick={handleConsultar}
+            disabled={cargando}
+            className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-2xl font-bold text-sm transition-all shadow-xl shadow-blue-600/20 active:scale-95 disabled:opacity-50"
+          >
+            {t(cargando ? 'consultor.procesando' : 'consultor.consultar')}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs font-bold text-red-400 mt-3">{error}</p>}
+    </AnimatedCard>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from "framer-motion";
+import { Activity, Lock } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { Usuario } from '../auth/auth';
+import { AuthService } from '../auth/AuthService';
+import { ORGANIZACION_PRINCIPAL_ID } from '../tenancy/organizacion';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold";
+
+/**
+ * Pantalla de ingreso. Si la terminal todavía no tiene usuarios, el mismo
+ * formulario crea el Super Admin, dueño de la instalación, dentro de la
+ * organización principal (no hay contraseñas por defecto).
+ */
+export const LoginView: React.FC<{ auth: AuthService; onLogin: (usuario: Usuario) => void }> = ({ auth, onLogin }) => {
+  const t = I18nLogic.traductor(I18nLogic.idiomaNavegador());
+  const [primeraVez, setPrimeraVez] = useState(false);
+  const [form, setForm] = useState({ nombre: '', usuario: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [enviando, setEnviando] = useState(false);
+
+  useEffect(() => {
+    auth.hayUsuarios()
+      .then(hay => setPrimeraVez(!hay))
+      .catch(e => setError(t('login.sinServidor', { error: I18nLogic.error(t, e) })));
+  }, [auth]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEnviando(true);
+    setError(null);
+    try {
+      if (primeraVez) {
+        await auth.registrar({ ...form, rol: 'superadmin', sede: null, organizacionId: ORGANIZACION_PRINCIPAL_ID });
+      }
+      onLogin(await auth.login(form.usuario, form.password));
+    } catch (err) {
+      setError(I18nLogic.error(t, err));
+      setEnviando(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 text-zinc-100">
+      <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-4 mb-10">
+          <div className="w-12 h-12 bg-gradient-to-tr from-blue-600 to-cyan-400 rounded-2xl flex items-center justify-center shadow-2xl shadow-blue-500/40">
+            <Activity className="text-white w-7 h-7" />
+          </div>
+          <h2 className="font-black text-2xl tracking-tighter leading-none">FITNESS<span className="text-blue-500">PRO</span></h2>
+        </div>
+
+        <AnimatedCard className="!p-10 border-blue-500/20">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="flex items-center gap-3">
+              <Lock className="w-5 h-5 text-blue-400" />
+              <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest">
+                {t(primeraVez ? 'login.primeraVez' : 'login.restringido')}
+              </span>
+            </div>
+
+            {primeraVez && (
+              <input
+                type="text"
+                placeholder={t('login.nombre')}
+                value={form.nombre}
+                onChange={(e) => setForm({ ...form, nombre: e.target.value })}
+                className={inputClass}
+              />
+            )}
+            <input
+              required
+              type="text"
+              autoComplete="username"
+              placeholder={t('login.usuario')}
+              value={form.usuario}
+              onChange={(e) => setForm({ ...form, usuario: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              required
+              type="password"
+              autoComplete={primeraVez ? 'new-password' : 'current-password'}
+              placeholder={t('login.password')}
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+              className={inputClass}
+            />
+
+            {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={enviando}
+              className="w-full bg-blue-600 hover:bg-blue-500 text-white font-black py-5 rounded-3xl shadow-2xl shadow-blue-600/30 transition-all active:scale-95 text-sm uppercase tracking-widest disabled:opacity-50"
+            >
+              {t(enviando ? 'login.verificando' : primeraVez ? 'login.crearYEntrar' : 'login.ingresar')}
+            </button>
+          </form>
+        </AnimatedCard>
+      </motion.div>
+    </div>
+  );
+};
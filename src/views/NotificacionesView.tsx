@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from "framer-motion";
+import { Download, Send } from 'lucide-react';
+
+import {
+  Aviso, CANAL_TEXTO, Canal, ConfigNotificaciones, EstadoAviso, Plantilla, TIPOS_AVISO, TipoAviso
+} from '../notifications/notificaciones';
+import { NotificacionesService } from '../notifications/NotificacionesService';
+import { BandejaLocalProvider } from '../notifications/BandejaLocalProvider';
+import { normalizar } from '../roster/padronQuery';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+const MAX_FILAS = 100;
+const VARIABLES = ['nombre', 'gimnasio', 'importe', 'periodo', 'vencimiento', 'dias'].map(v => `{{${v}}}`).join(', ');
+
+const ESTADO_ESTILO: Record<EstadoAviso, string> = {
+  enviado: 'text-green-400',
+  fallido: 'text-red-400',
+  omitido: 'text-zinc-500'
+};
+
+/**
+ * Avisos automáticos (solo Admin): plantillas por tipo de aviso, plazos de
+ * los disparadores y el registro de lo que se mandó a cada socio.
+ */
+export const NotificacionesView: React.FC<{
+  config: ConfigNotificaciones;
+  notificador: NotificacionesService;
+  regional: ConfigRegional;
+  onGuardar: (config: ConfigNotificaciones) => void;
+  onRevisar: () => Promise<Aviso[]>;
+}> = ({ config, notificador, regional, onGuardar, onRevisar }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [borrador, setBorrador] = useState(config);
+  const [historial, setHistorial] = useState<Aviso[]>([]);
+  const [busqueda, setBusqueda] = useState('');
+  const [mensaje, setMensaje] = useState<string | null>(null);
+  const [revisando, setRevisando] = useState(false);
+
+  const cargarHistorial = () => notificador.historial()
+    .then(setHistorial)
+    .catch(e => console.error("Error cargando avisos:", e));
+
+  useEffect(() => { cargarHistorial(); }, [notificador]);
+  useEffect(() => setBorrador(config), [config]);
+
+  const filas = useMemo(() => {
+    const texto = normalizar(busqueda.trim());
+    return historial.filter(a => !texto || normalizar(a.socioNombre).includes(texto)).slice(0, MAX_FILAS);
+  }, [historial, busqueda]);
+
+  const actualizarPlantilla = (tipo: TipoAviso, cambios: Partial<Plantilla>) =>
+    setBorrador({ ...borrador, plantillas: { ...borrador.plantillas, [tipo]: { ...borrador.plantillas[tipo], ...cambios } } });
+
+  const handleRevisar = async () => {
+    setRevisando(true);
+    try {
+      const avisos = await onRevisar();
+      const enviados = avisos.filter(a => a.estado === 'enviado').length;
+      setMensaje(avisos.length === 0 ? t('avisos.sinPendientes') : t('avisos.resultado', { enviados, sinEnviar: avisos.length - enviados }));
+      await cargarHistorial();
+    } finally {
+      setRevisando(false);
+    }
+  };
+
+  const bandeja = notificador.proveedor instanceof BandejaLocalProvider ? notificador.proveedor : null;
+  const hayCambios = JSON.stringify(borrador) !== JSON.stringify(config);
+
+  return (
+    <motion.div
+      key="notifications"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <div>
+          <h1 className="text-4xl font-black tracking-tighter">{t('avisos.titulo')} <span className="text-blue-500">{t('avisos.tituloResaltado')}</span></h1>
+          <p className="text-xs text-zinc-500 font-bold mt-1">
+            {t('avisos.subtitulo', { proveedor: notificador.proveedor.nombre })}
+            {bandeja && t('avisos.modoPrueba')}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {mensaje && <span className="text-sm font-bold text-zinc-400">{mensaje}</span>}
+          {bandeja && (
+            <button onClick={() => bandeja.descargar()} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 py-3 px-4 rounded-2xl font-bold text-sm">
+              <Download className="w-4 h-4" /> {t('avisos.bandeja')}
+            </button>
+          )}
+          <button onClick={handleRevisar} disabled={revisando} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 py-3 px-4 rounded-2xl font-bold text-sm disabled:opacity-50">
+            <Send className="w-4 h-4" /> {t('avisos.revisar')}
+          </button>
+          {hayCambios && (
+            <button onClick={() => onGuardar(borrador)} className="bg-blue-600 hover:bg-blue-500 py-3 px-6 rounded-2xl font-bold text-sm transition-all active:scale-95">
+              {t('avisos.guardar')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {(['diasAnticipoCuota', 'diasAnticipoApto', 'diasInactividad'] as const).map(campo => (
+          <div key={campo} className="space-y-1">
+            <label className={labelClass}>{t(`avisos.${campo}`)}</label>
+            <input
+              type="number"
+              min={0}
+              value={borrador[campo]}
+              onChange={(e) => setBorrador({ ...borrador, [campo]: Math.max(0, Number(e.target.value)) })}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {TIPOS_AVISO.map((tipo, i) => {
+          const p = borrador.plantillas[tipo];
+          return (
+            <AnimatedCard key={tipo} delay={i * 0.05} className={`space-y-3 ${p.activa ? '' : 'opacity-60'}`}>
+              <div className="flex justify-between items-center">
+                <label className="flex items-center gap-2 font-black cursor-pointer">
+                  <input type="checkbox" checked={p.activa} onChange={(e) => actualizarPlantilla(tipo, { activa: e.target.checked })} />
+                  {t(`aviso.${tipo}`)}
+                </label>
+                <select value={p.canal} onChange={(e) => actualizarPlantilla(tipo, { canal: e.target.value as Canal })} className="bg-zinc-950/50 border border-white/10 rounded-xl py-1 px-2 text-xs font-bold outline-none">
+                  {(Object.keys(CANAL_TEXTO) as Canal[]).map(c => <option key={c} value={c}>{CANAL_TEXTO[c]}</option>)}
+                </select>
+              </div>
+              {p.canal === 'email' && (
+                <input value={p.asunto || t(`plantilla.${tipo}.asunto`)} placeholder={t('avisos.asunto')} onChange={(e) => actualizarPlantilla(tipo, { asunto: e.target.value })} className={inputClass} />
+              )}
+              <textarea rows={3} value={p.cuerpo || t(`plantilla.${tipo}.cuerpo`)} onChange={(e) => actualizarPlantilla(tipo, { cuerpo: e.target.value })} className={`${inputClass} font-medium resize-none`} />
+            </AnimatedCard>
+          );
+        })}
+        <p className="text-xs text-zinc-500 self-center">
+          {t('avisos.variables', { variables: VARIABLES })}
+          {' '}{t('avisos.preferencias')}
+        </p>
+      </div>
+
+      <AnimatedCard className="!p-0 overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-white/5 gap-4">
+          <h3 className="font-black text-lg">{t('avisos.registro')}</h3>
+          <input placeholder={t('avisos.buscar')} value={busqueda} onChange={(e) => setBusqueda(e.target.value)} className={`${inputClass} max-w-xs`} />
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead className="bg-zinc-950/50 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+            <tr>
+              <th className="px-6 py-3">{t('avisos.fecha')}</th>
+              <th className="px-6 py-3">{t('avisos.socio')}</th>
+              <th className="px-6 py-3">{t('avisos.aviso')}</th>
+              <th className="px-6 py-3">{t('avisos.canal')}</th>
+              <th className="px-6 py-3">{t('avisos.estado')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {filas.map(a => (
+              <tr key={a.id} title={a.cuerpo}>
+                <td className="px-6 py-3 font-mono text-xs text-zinc-500">{FormatoLogic.fechaHora(a.fecha, regional)}</td>
+                <td className="px-6 py-3 font-bold">{a.socioNombre}</td>
+                <td className="px-6 py-3">{t(`aviso.${a.tipo}`)}</td>
+                <td className="px-6 py-3 text-zinc-400">{CANAL_TEXTO[a.canal]} <span className="font-mono text-xs">{a.destino}</span></td>
+                <td className={`px-6 py-3 font-black text-xs uppercase tracking-widest ${ESTADO_ESTILO[a.estado]}`}>
+                  {t(`aviso.${a.estado}`)}{(a.motivo || a.detalle) && <span className="block normal-case tracking-normal font-bold text-zinc-500">{a.motivo ? I18nLogic.motivo(t, a.motivo) : a.detalle}</span>}
+                </td>
+              </tr>
+            ))}
+            {filas.length === 0 && (
+              <tr><td colSpan={5} className="px-6 py-6 text-zinc-500">{t('avisos.vacio')}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </AnimatedCard>
+    </motion.div>
+  );
+};
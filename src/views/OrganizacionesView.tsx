@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { Activity, LogIn, Plus } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ORGANIZACION_PRINCIPAL_ID, Organizacion, TenantLogic } from '../tenancy/organizacion';
+import { ConfigRegional, FormatoLogic, Idioma, IDIOMA_TEXTO, MONEDAS, PAISES, REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+/**
+ * Panel del Super Admin: alta de gimnasios, su marca (nombre y logo), su
+ * país, idioma y moneda, y suspensión. Para cargar datos o usuarios de un gimnasio hay que entrar
+ * a él: desde acá nunca se ven datos de varias organizaciones a la vez.
+ */
+export const OrganizacionesView: React.FC<{
+  organizaciones: Organizacion[];
+  actualId: string;
+  regional: ConfigRegional;
+  onGuardar: (organizacion: Organizacion) => Promise<void>;
+  onEntrar: (organizacionId: string) => void;
+}> = ({ organizaciones, actualId, regional, onGuardar, onEntrar }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [editando, setEditando] = useState<Record<string, Organizacion>>({});
+  const [nuevoNombre, setNuevoNombre] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const borrador = (o: Organizacion) => editando[o.id] ?? o;
+  const actualizar = (o: Organizacion, cambios: Partial<Organizacion>) =>
+    setEditando({ ...editando, [o.id]: { ...borrador(o), ...cambios } });
+
+  const guardar = async (org: Organizacion) => {
+    if (!org.nombre.trim()) return setError(t('orgs.faltaNombre'));
+    if (org.id === ORGANIZACION_PRINCIPAL_ID && !org.activa) return setError(t('orgs.principalActiva'));
+    setError(null);
+    try {
+      await onGuardar({ ...org, nombre: org.nombre.trim(), logoUrl: org.logoUrl?.trim() || null });
+      const { [org.id]: _, ...resto } = editando;
+      setEditando(resto);
+    } catch (e) {
+      setError(I18nLogic.error(t, e));
+    }
+  };
+
+  const handleCrear = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const nombre = nuevoNombre.trim();
+    if (!nombre) return;
+    await guardar({
+      id: TenantLogic.nuevoId(nombre, organizaciones),
+      nombre,
+      logoUrl: null,
+      activa: true,
+      creada: new Date().toISOString()
+    });
+    setNuevoNombre('');
+  };
+
+  return (
+    <motion.div
+      key="orgs"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('orgs.titulo')} <span className="text-blue-500">{t('orgs.tituloResaltado')}</span></h1>
+        {error && <span className="text-sm font-bold text-red-400">{error}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {organizaciones.map((o, i) => {
+          const org = borrador(o);
+          const [inicio, resaltado] = TenantLogic.partesNombre(org.nombre);
+          const regionalOrg = org.regional ?? REGIONAL_POR_DEFECTO;
+          return (
+            <AnimatedCard key={o.id} delay={i * 0.05} className={`space-y-4 ${o.id === actualId ? 'border-blue-500/40' : ''} ${org.activa ? '' : 'opacity-60'}`}>
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-tr from-blue-600 to-cyan-400 flex items-center justify-center overflow-hidden shrink-0">
+                  {org.logoUrl ? <img src={org.logoUrl} alt="" className="w-full h-full object-cover" /> : <Activity className="text-white w-5 h-5" />}
+                </div>
+                <div className="min-w-0">
+                  <div className="font-black tracking-tighter uppercase truncate">{inicio}<span className="text-blue-500">{resaltado}</span></div>
+                  <div className="text-[10px] font-mono text-zinc-500">{o.id}</div>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('orgs.nombre')}</label>
+                <input value={org.nombre} onChange={(e) => actualizar(o, { nombre: e.target.value })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('orgs.logo')}</label>
+                <input value={org.logoUrl ?? ''} placeholder="https://…" onChange={(e) => actualizar(o, { logoUrl: e.target.value })} className={inputClass} />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('orgs.pais')}</label>
+                  {/* Cambiar de país trae su idioma y su moneda; después se pueden ajustar */}
+                  <select
+                    value={regionalOrg.pais}
+                    onChange={(e) => actualizar(o, { regional: { pais: e.target.value, idioma: PAISES[e.target.value].idioma, moneda: PAISES[e.target.value].moneda } })}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    {Object.keys(PAISES).map(codigo => <option key={codigo} value={codigo}>{FormatoLogic.pais(codigo, regional)}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('orgs.idioma')}</label>
+                  <select value={regionalOrg.idioma} onChange={(e) => actualizar(o, { regional: { ...regionalOrg, idioma: e.target.value as Idioma } })} className={`${inputClass} cursor-pointer`}>
+                    {(Object.keys(IDIOMA_TEXTO) as Idioma[]).map(i => <option key={i} value={i}>{IDIOMA_TEXTO[i]}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('orgs.moneda')}</label>
+                  <select value={regionalOrg.moneda} onChange={(e) => actualizar(o, { regional: { ...regionalOrg, moneda: e.target.value } })} className={`${inputClass} cursor-pointer`}>
+                    {MONEDAS.map(m => <option key={m} value={m}>{m}</option>)}
+                  </select>
+                </div>
+              </div>
+              <p className="text-[10px] text-zinc-500 font-bold">
+                {FormatoLogic.moneda(15000, regionalOrg)} • {FormatoLogic.fecha(new Date(), regionalOrg)} • {DocumentoLogic.para(regionalOrg.pais, regionalOrg.idioma).sigla}
+              </p>
+              <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={org.activa}
+                  disabled={o.id === ORGANIZACION_PRINCIPAL_ID}
+                  onChange={(e) => actualizar(o, { activa: e.target.checked })}
+                />
+                {t('orgs.habilitada')}
+              </label>
+              <div className="flex gap-3">
+                {editando[o.id] && (
+                  <button onClick={() => guardar(org)} className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-black py-2 rounded-xl text-xs uppercase tracking-widest">
+                    {t('orgs.guardar')}
+                  </button>
+                )}
+                {o.id !== actualId && (
+                  <button onClick={() => onEntrar(o.id)} className="flex-1 flex items-center justify-center gap-2 bg-zinc-800 hover:bg-zinc-700 font-black py-2 rounded-xl text-xs uppercase tracking-widest">
+                    <LogIn className="w-4 h-4" /> {t('orgs.entrar')}
+                  </button>
+                )}
+              </div>
+            </AnimatedCard>
+          );
+        })}
+
+        <AnimatedCard className="border-blue-500/20">
+          <form onSubmit={handleCrear} className="space-y-4">
+            <h3 className="font-black text-xl mb-2">{t('orgs.nuevo')}</h3>
+            <p className="text-xs text-zinc-500">{t('orgs.nuevoDetalle')}</p>
+            <input required placeholder={t('orgs.nombreComercial')} value={nuevoNombre} onChange={(e) => setNuevoNombre(e.target.value)} className={inputClass} />
+            <button type="submit" className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 py-3 rounded-2xl font-bold text-sm transition-all active:scale-95">
+              <Plus className="w-4 h-4" /> {t('orgs.crear')}
+            </button>
+          </form>
+        </AnimatedCard>
+      </div>
+    </motion.div>
+  );
+};
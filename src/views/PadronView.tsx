@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from "framer-motion";
+import {
+  ArrowDown, ArrowUp, CalendarDays, ChevronLeft, ChevronRight, Download, History, Pencil, QrCode, Search, Upload, Users
+} from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { ConfigPrecios } from '../pricing/pricing';
+import { BillingLogic, LedgerFacturacion } from '../billing/billing';
+import { ValidacionLogic } from '../validation/validacion';
+import { PlanillaLogic } from '../spreadsheet/planilla';
+import { CampoOrden, FiltrosPadron, PadronQuery } from '../roster/padronQuery';
+import { ESTADOS_MEMBRESIA } from '../membership/membresia';
+import { ESTADO_MEMBRESIA_COLOR } from '../ui/MembresiaModal';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+
+const botonClass = "shrink-0 flex items-center gap-2 bg-zinc-900/50 border border-white/5 rounded-2xl py-3 px-4 text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-colors";
+const filtroClass = "bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-xs";
+const chipClass = (activo: boolean) =>
+  `text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full transition-colors ${activo ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:text-white'}`;
+const accionClass = "w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center transition-all opacity-0 group-hover:opacity-100";
+
+const alternar = (lista: string[], valor: string) =>
+  lista.includes(valor) ? lista.filter(v => v !== valor) : [...lista, valor];
+
+/**
+ * "Padrón Elite": la tabla de socios con filtros, orden por varias columnas
+ * (Shift+click agrega un criterio) y paginado. Los filtros viven en la URL,
+ * así una búsqueda se puede recargar o compartir.
+ */
+export const PadronView: React.FC<{
+  socios: Socio[];
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  precios: ConfigPrecios;
+  ledger: LedgerFacturacion;
+  ahora: Date;
+  regional: ConfigRegional;
+  puedeImportar: boolean;
+  onEditar: (socio: Socio) => void;
+  onHistorial: (socio: Socio) => void;
+  onCredencial: (socio: Socio) => void;
+  onMembresia: (socio: Socio) => void;
+  onImportar: () => void;
+}> = ({
+  socios, sedes, sedesPermitidas, precios, ledger, ahora, regional, puedeImportar,
+  onEditar, onHistorial, onCredencial, onMembresia, onImportar
+}) => {
+  const [filtros, setFiltros] = useState<FiltrosPadron>(() => PadronQuery.desdeQueryString(window.location.search));
+
+  useEffect(() => {
+    const query = PadronQuery.aQueryString(filtros);
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [filtros]);
+
+  // Cualquier cambio de filtro vuelve a la primera página.
+  const filtrar = (cambios: Partial<FiltrosPadron>) => setFiltros({ ...filtros, ...cambios, pagina: 1 });
+
+  const deudas = useMemo(() => BillingLogic.deudaPorSocio(ledger, ahora), [ledger, ahora]);
+  const resultado = useMemo(
+    () => PadronQuery.ordenar(PadronQuery.filtrar(socios, filtros, deudas, ahora), filtros.orden),
+    [socios, filtros, deudas, ahora]
+  );
+  const pagina = PadronQuery.paginar(resultado, filtros.pagina);
+  const nombrePlan = (id: string) => precios.planes.find(m => m.id === id)?.nombre ?? id;
+  const t = I18nLogic.traductor(regional.idioma);
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
+
+  const Encabezado: React.FC<{ campo: CampoOrden; children: React.ReactNode }> = ({ campo, children }) => {
+    const posicion = filtros.orden.findIndex(o => o.campo === campo);
+    const criterio = filtros.orden[posicion];
+    return (
+      <button
+        onClick={(e) => setFiltros({ ...filtros, orden: PadronQuery.alternarOrden(filtros.orden, campo, e.shiftKey) })}
+        title={t('padron.ordenar')}
+        className={`inline-flex items-center gap-1 uppercase tracking-widest hover:text-white ${criterio ? 'text-blue-400' : ''}`}
+      >
+        {children}
+        {criterio && (criterio.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+        {criterio && filtros.orden.length > 1 && <sup>{posicion + 1}</sup>}
+      </button>
+    );
+  };
+
+  return (
+    <motion.div
+      key="list"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('padron.titulo')} <span className="text-blue-500">{t('padron.tituloResaltado')}</span></h1>
+        <div className="flex items-center gap-4 w-full md:w-auto">
+          {(['csv', 'xlsx'] as const).map(formato => (
+            <button
+              key={formato}
+              onClick={() => PlanillaLogic.exportar(resultado.map(f => f.socio), precios, formato, t)}
+              title={t('padron.exportar', { formato: formato.toUpperCase() })}
+              className={botonClass}
+            >
+              <Download className="w-4 h-4" /> {formato}
+            </button>
+          ))}
+          {puedeImportar && (
+            <button onClick={onImportar} className={botonClass}>
+              <Upload className="w-4 h-4" /> {t('padron.importar')}
+            </button>
+          )}
+          <div className="relative w-full md:w-96 group">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500 group-focus-within:text-blue-500 transition-colors" />
+            <input
+              type="text"
+              placeholder={t('padron.buscar', { documento: documento.sigla })}
+              value={filtros.texto}
+              onChange={(e) => filtrar({ texto: e.target.value })}
+              className="w-full bg-zinc-900/50 border border-white/5 rounded-2xl py-3 pl-12 pr-4 outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-medium"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 p-4 rounded-2xl bg-zinc-900/30 border border-white/5">
+        {sedesPermitidas.length > 1 && sedesPermitidas.map(codigo => (
+          <button key={codigo} onClick={() => filtrar({ sedes: alternar(filtros.sedes, codigo) })} className={chipClass(filtros.sedes.includes(codigo))}>
+            {SedeLogic.nombre(sedes, codigo)}
+          </button>
+        ))}
+        <span className="w-px h-6 bg-white/10" />
+        {precios.planes.map(plan => (
+          <button key={plan.id} onClick={() => filtrar({ membresias: alternar(filtros.membresias, plan.id) })} className={chipClass(filtros.membresias.includes(plan.id))}>
+            {plan.nombre}
+          </button>
+        ))}
+        <span className="w-px h-6 bg-white/10" />
+        <select value={filtros.metodoPago} onChange={(e) => filtrar({ metodoPago: e.target.value })} className={filtroClass}>
+          <option value="">{t('padron.todoPago')}</option>
+          <option value="efectivo">{t('alta.efectivo')}</option>
+          <option value="tarjeta">{t('alta.tarjeta')}</option>
+        </select>
+        <select value={filtros.estado} onChange={(e) => filtrar({ estado: e.target.value as FiltrosPadron['estado'] })} className={filtroClass}>
+          <option value="activos">{t('padron.activos')}</option>
+          <option value="bajas">{t('padron.bajas')}</option>
+          <option value="todos">{t('padron.activosYBajas')}</option>
+          {ESTADOS_MEMBRESIA.map(e => <option key={e} value={e}>{t('padron.soloEstado', { estado: t(`membresia.${e}`) })}</option>)}
+        </select>
+        <select value={filtros.deuda} onChange={(e) => filtrar({ deuda: e.target.value as FiltrosPadron['deuda'] })} className={filtroClass}>
+          <option value="todos">{t('padron.conYSinDeuda')}</option>
+          <option value="con_deuda">{t('padron.conDeuda')}</option>
+          <option value="al_dia">{t('padron.alDia')}</option>
+        </select>
+        <div className="flex items-center gap-2 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+          {t('padron.edad')}
+          <input
+            type="number"
+            placeholder={t('padron.desde')}
+            value={filtros.edadMin ?? ''}
+            onChange={(e) => filtrar({ edadMin: e.target.value === '' ? null : Number(e.target.value) })}
+            className={`${filtroClass} w-20 font-mono`}
+          />
+          <input
+            type="number"
+            placeholder={t('padron.hasta')}
+            value={filtros.edadMax ?? ''}
+            onChange={(e) => filtrar({ edadMax: e.target.value === '' ? null : Number(e.target.value) })}
+            className={`${filtroClass} w-20 font-mono`}
+          />
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-3xl border border-white/5 bg-zinc-900/20 backdrop-blur-xl shadow-2xl">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-zinc-950 text-[10px] font-black text-zinc-500 uppercase tracking-widest border-b border-white/5">
+              <th className="px-8 py-5"><Encabezado campo="nombre">{t('padron.nombre')}</Encabezado> / <Encabezado campo="edad">{t('padron.edad')}</Encabezado></th>
+              <th className="px-8 py-5"><Encabezado campo="dni">{documento.sigla}</Encabezado></th>
+              <th className="px-8 py-5"><Encabezado campo="sede">{t('padron.ubicacion')}</Encabezado></th>
+              <th className="px-8 py-5"><Encabezado campo="membresia">{t('padron.membresia')}</Encabezado></th>
+              <th className="px-8 py-5 text-right"><Encabezado campo="deuda">{t('padron.deuda')}</Encabezado></th>
+              <th className="px-8 py-5 text-right"><Encabezado campo="importe">{t('padron.importe')}</Encabezado></th>
+              <th className="px-8 py-5 text-center">{t('padron.acciones')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {pagina.filas.map(({ socio: s, edad, deuda }) => (
+              <tr
+                key={s.id}
+                className={`hover:bg-white/[0.02] transition-colors group ${s.estado === 'vencida' || s.estado === 'cancelada' ? 'opacity-50' : ''}`}
+              >
+                <td className="px-8 py-6">
+                  <div className="font-bold text-zinc-200">{s.nombre}</div>
+                  <div className="text-[10px] text-zinc-500 font-bold uppercase">
+                    {t('padron.anios', { edad })}{s.fechaNacimientoEstimada && t('padron.aprox')}
+                    {!ValidacionLogic.aptoVigente(s, ahora) && <span className="text-amber-400"> • {t(s.aptoMedicoVence ? 'padron.aptoVencido' : 'padron.sinApto')}</span>}
+                    {s.estado !== 'activa' && <span className={ESTADO_MEMBRESIA_COLOR[s.estado]}> • {t(`membresia.${s.estado}`)}</span>}
+                    {s.vence && s.estado !== 'cancelada' && <span> • {t('padron.vence', { fecha: FormatoLogic.fecha(s.vence, regional) })}</span>}
+                  </div>
+                </td>
+                <td className="px-8 py-6 font-mono text-xs text-zinc-400 tracking-tighter">{documento.formatear(s.dni)}</td>
+                <td className="px-8 py-6">
+                  <span className="text-[10px] font-black bg-zinc-800 px-3 py-1 rounded-full text-zinc-300 ring-1 ring-white/5">{s.sede}</span>
+                </td>
+                <td className="px-8 py-6">
+                  <span className={`text-[10px] font-black tracking-widest uppercase ${
+                    s.membresia === 'PRE' ? 'text-amber-400' : 'text-blue-400'
+                  }`}>
+                    {nombrePlan(s.membresia)}
+                  </span>
+                </td>
+                <td className={`px-8 py-6 text-right font-black ${deuda > 0 ? 'text-red-400' : 'text-zinc-600'}`}>
+                  {deuda > 0 ? FormatoLogic.moneda(deuda, regional) : '—'}
+                </td>
+                <td className="px-8 py-6 text-right font-black text-emerald-400">
+                  {FormatoLogic.moneda(Math.round(s.importe), regional)}
+                </td>
+                <td className="px-8 py-6">
+                  <div className="flex justify-center gap-2">
+                    <button onClick={() => onEditar(s)} title={t('padron.editar')} className={`${accionClass} hover:bg-blue-500/20 hover:text-blue-400`}>
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onHistorial(s)} title={t('padron.historial')} className={`${accionClass} hover:bg-blue-500/20 hover:text-blue-400`}>
+                      <History className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onCredencial(s)} title={t('padron.credencial')} className={`${accionClass} hover:bg-blue-500/20 hover:text-blue-400`}>
+                      <QrCode className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onMembresia(s)} title={t('padron.membresiaAcciones')} className={`${accionClass} hover:bg-emerald-500/20 hover:text-emerald-400`}>
+                      <CalendarDays className="w-4 h-4" />
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {pagina.total === 0 && (
+          <div className="p-20 text-center">
+            <div className="w-16 h-16 bg-zinc-900 rounded-2xl flex items-center justify-center mx-auto mb-4 border border-white/5">
+              <Users className="text-zinc-600" />
+            </div>
+            <p className="text-zinc-500 font-medium">{t('padron.vacio')}</p>
+          </div>
+        )}
+        {pagina.total > 0 && (
+          <div className="flex justify-between items-center px-8 py-4 border-t border-white/5 text-xs font-bold text-zinc-500">
+            <span>{t('padron.pagina', { total: pagina.total, pagina: pagina.pagina, paginas: pagina.paginas })}</span>
+            <div className="flex gap-2">
+              <button
+                disabled={pagina.pagina === 1}
+                onClick={() => setFiltros({ ...filtros, pagina: pagina.pagina - 1 })}
+                className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <button
+                disabled={pagina.pagina === pagina.paginas}
+                onClick={() => setFiltros({ ...filtros, pagina: pagina.pagina + 1 })}
+                className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from "framer-motion";
+import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+
+import { Socio } from '../domain/socio';
+import { Sede, SedeLogic } from '../domain/sede';
+import { LedgerFacturacion } from '../billing/billing';
+import { EventoAuditoria } from '../audit/audit';
+import { AuditRepository } from '../persistence/AuditRepository';
+import { Clase } from '../classes/clases';
+import { ReportesLogic } from '../reports/reportes';
+import { Empleado, PersonalLogic, ROLES_EMPLEADO, RolEmpleado } from '../staff/personal';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+/**
+ * Legajos del personal (solo Admin) y liquidación mensual: horas de clase
+ * por la tarifa de cada instructor más la comisión de las altas vendidas.
+ */
+export const PersonalView: React.FC<{
+  empleados: Empleado[];
+  clases: Clase[];
+  socios: Socio[];
+  ledger: LedgerFacturacion;
+  sedes: Sede[];
+  sedesPermitidas: string[];
+  auditoria: AuditRepository;
+  ahora: Date;
+  regional: ConfigRegional;
+  onSave: (empleados: Empleado[]) => void;
+}> = ({ empleados, clases, socios, ledger, sedes, sedesPermitidas, auditoria, ahora, regional, onSave }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const moneda = (n: number) => FormatoLogic.moneda(Math.round(n), regional);
+  const [borrador, setBorrador] = useState<Empleado[]>(empleados);
+  const [nuevoNombre, setNuevoNombre] = useState('');
+  const [periodo, setPeriodo] = useState(() => ReportesLogic.periodoDe(ahora, 'mes'));
+  const [eventos, setEventos] = useState<EventoAuditoria[]>([]);
+
+  useEffect(() => setBorrador(empleados), [empleados]);
+
+  useEffect(() => {
+    const { desde, hasta } = ReportesLogic.rango(periodo);
+    auditoria.listarEntre(desde, hasta)
+      .then(setEventos)
+      .catch(e => console.error("Error cargando auditoría:", e));
+  }, [periodo, auditoria]);
+
+  const liquidacion = useMemo(
+    () => PersonalLogic.liquidar({ empleados, clases, socios, ledger, eventos }, periodo, ahora),
+    [empleados, clases, socios, ledger, eventos, periodo, ahora]
+  );
+
+  const actualizar = (id: string, cambios: Partial<Empleado>) =>
+    setBorrador(borrador.map(e => (e.id === id ? { ...e, ...cambios } : e)));
+
+  const handleAgregar = () => {
+    const nombre = nuevoNombre.trim();
+    if (!nombre) return;
+    setBorrador([...borrador, {
+      id: crypto.randomUUID(),
+      nombre,
+      rol: 'instructor',
+      sede: sedesPermitidas[0] ?? '',
+      tarifaHora: 0,
+      comisionPct: 0,
+      activo: true
+    }]);
+    setNuevoNombre('');
+  };
+
+  const hayCambios = JSON.stringify(borrador) !== JSON.stringify(empleados);
+
+  return (
+    <motion.div
+      key="staff"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('personal.titulo')} <span className="text-blue-500">{t('personal.tituloResaltado')}</span></h1>
+        {hayCambios && (
+          <button onClick={() => onSave(borrador.map(e => ({ ...e, nombre: e.nombre.trim() })))} className="bg-blue-600 hover:bg-blue-500 py-3 px-6 rounded-2xl font-bold text-sm transition-all active:scale-95">
+            {t('personal.guardar')}
+          </button>
+        )}
+      </div>
+
+      <AnimatedCard className="!p-0 overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-zinc-950/50 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+            <tr>
+              <th className="px-6 py-4">{t('personal.nombre')}</th>
+              <th className="px-6 py-4">{t('personal.rol')}</th>
+              <th className="px-6 py-4">{t('personal.sede')}</th>
+              <th className="px-6 py-4">{t('personal.tarifa')}</th>
+              <th className="px-6 py-4">{t('personal.comisionPct')}</th>
+              <th className="px-6 py-4">{t('personal.activo')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {borrador.map(e => (
+              <tr key={e.id} className={e.activo ? '' : 'opacity-50'}>
+                <td className="px-6 py-3"><input value={e.nombre} onChange={(ev) => actualizar(e.id, { nombre: ev.target.value })} className={inputClass} /></td>
+                <td className="px-6 py-3">
+                  <select value={e.rol} onChange={(ev) => actualizar(e.id, { rol: ev.target.value as RolEmpleado })} className={inputClass}>
+                    {ROLES_EMPLEADO.map(r => <option key={r} value={r}>{t(`empleado.${r}`)}</option>)}
+                  </select>
+                </td>
+                <td className="px-6 py-3">
+                  <select value={e.sede} onChange={(ev) => actualizar(e.id, { sede: ev.target.value })} className={inputClass}>
+                    {sedesPermitidas.map(c => <option key={c} value={c}>{SedeLogic.nombre(sedes, c)}</option>)}
+                  </select>
+                </td>
+                <td className="px-6 py-3 w-32"><input type="number" min={0} value={e.tarifaHora} onChange={(ev) => actualizar(e.id, { tarifaHora: Math.max(0, Number(ev.target.value)) })} className={`${inputClass} font-mono`} /></td>
+                <td className="px-6 py-3 w-32"><input type="number" min={0} max={100} value={e.comisionPct} onChange={(ev) => actualizar(e.id, { comisionPct: Math.min(100, Math.max(0, Number(ev.target.value))) })} className={`${inputClass} font-mono`} /></td>
+                <td className="px-6 py-3"><input type="checkbox" checked={e.activo} onChange={(ev) => actualizar(e.id, { activo: ev.target.checked })} /></td>
+              </tr>
+            ))}
+            {borrador.length === 0 && (
+              <tr><td colSpan={6} className="px-6 py-6 text-zinc-500">{t('personal.vacio')}</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="flex gap-3 p-4 border-t border-white/5">
+          <input placeholder={t('personal.nuevo')} value={nuevoNombre} onChange={(e) => setNuevoNombre(e.target.value)} className={inputClass} />
+          <button onClick={handleAgregar} className="flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 px-4 rounded-xl font-bold text-sm shrink-0">
+            <Plus className="w-4 h-4" /> {t('personal.agregar')}
+          </button>
+        </div>
+      </AnimatedCard>
+
+      <div className="flex justify-between items-center">
+        <h3 className="font-black text-2xl tracking-tighter">{t('personal.liquidacion')}</h3>
+        <div className="flex items-center gap-2 bg-zinc-900 border border-white/10 rounded-xl p-1">
+          <button onClick={() => setPeriodo(ReportesLogic.desplazar(periodo, -1))} className="p-1.5 rounded-lg hover:bg-white/5"><ChevronLeft className="w-4 h-4" /></button>
+          <span className="text-xs font-black uppercase tracking-widest px-2">{ReportesLogic.etiqueta(periodo, regional)}</span>
+          <button onClick={() => setPeriodo(ReportesLogic.desplazar(periodo, 1))} className="p-1.5 rounded-lg hover:bg-white/5"><ChevronRight className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <AnimatedCard className="!p-0 overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-zinc-950/50 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+            <tr>
+              <th className="px-6 py-4">{t('personal.empleado')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.clases')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.horas')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.porHoras')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.altas')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.facturado')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.comision')}</th>
+              <th className="px-6 py-4 text-right">{t('personal.total')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 font-mono">
+            {liquidacion.filas.map(f => (
+              <tr key={f.empleado.id}>
+                <td className="px-6 py-3 font-sans font-bold">
+                  {f.empleado.nombre}
+                  <span className="block text-[10px] text-zinc-500 uppercase tracking-widest">{t(`empleado.${f.empleado.rol}`)} · {SedeLogic.nombre(sedes, f.empleado.sede)}</span>
+                </td>
+                <td className="px-6 py-3 text-right">{f.clasesDictadas}</td>
+                <td className="px-6 py-3 text-right">{FormatoLogic.numero(f.horas, regional, 1)}</td>
+                <td className="px-6 py-3 text-right">{moneda(f.montoHoras)}</td>
+                <td className="px-6 py-3 text-right">{f.altas}</td>
+                <td className="px-6 py-3 text-right">{moneda(f.facturado)}</td>
+                <td className="px-6 py-3 text-right">{moneda(f.comision)}</td>
+                <td className="px-6 py-3 text-right font-black text-blue-400">{moneda(f.total)}</td>
+              </tr>
+            ))}
+            {liquidacion.filas.length === 0 && (
+              <tr><td colSpan={8} className="px-6 py-6 text-zinc-500 font-sans">{t('personal.sinPersonal')}</td></tr>
+            )}
+          </tbody>
+          <tfoot className="bg-zinc-950/50">
+            <tr>
+              <td colSpan={7} className="px-6 py-4 text-[10px] font-black text-zinc-500 uppercase tracking-widest">{t('personal.totalLiquidar')}</td>
+              <td className="px-6 py-4 text-right font-mono font-black">{moneda(liquidacion.total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </AnimatedCard>
+      <p className="text-xs text-zinc-500">
+        {t('personal.nota')}
+      </p>
+    </motion.div>
+  );
+};
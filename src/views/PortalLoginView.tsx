@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { Activity, KeyRound } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { PortalService } from '../portal/PortalService';
+import { ConfigRegional } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-4 px-6 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold";
+
+/**
+ * Ingreso al portal en dos pasos: el socio pone su documento, recibe un
+ * código y lo tipea. No hay contraseñas que olvidar.
+ */
+export const PortalLoginView: React.FC<{
+  portal: PortalService;
+  gimnasio: string;
+  regional: ConfigRegional;
+  onLogin: (socioId: string) => void;
+}> = ({ portal, gimnasio, regional, onLogin }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
+  const [dni, setDni] = useState('');
+  const [codigo, setCodigo] = useState('');
+  const [destino, setDestino] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [enviando, setEnviando] = useState(false);
+
+  const ejecutar = async (accion: () => Promise<void>) => {
+    setEnviando(true);
+    setError(null);
+    try {
+      await accion();
+    } catch (err) {
+      setError(I18nLogic.error(t, err));
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  const pedirCodigo = () => ejecutar(async () => {
+    setDestino(await portal.solicitarCodigo(Number(dni)));
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!destino) return void pedirCodigo();
+    ejecutar(async () => onLogin(await portal.verificar(Number(dni), codigo)));
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 text-zinc-100">
+      <motion.div initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }} className="w-full max-w-md">
+        <div className="flex items-center justify-center gap-4 mb-10">
+          <div className="w-12 h-12 bg-gradient-to-tr from-blue-600 to-cyan-400 rounded-2xl flex items-center justify-center shadow-2xl shadow-blue-500/40">
+            <Activity className="text-white w-7 h-7" />
+          </div>
+          <h2 className="font-black text-2xl tracking-tighter leading-none">{gimnasio}</h2>
+        </div>
+
+        <AnimatedCard className="!p-10 border-blue-500/20">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="flex items-center gap-3">
+              <KeyRound className="w-5 h-5 text-blue-400" />
+              <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest">{t('portal.titulo')}</span>
+            </div>
+
+            <input
+              required
+              type="text"
+              inputMode="numeric"
+              placeholder={documento.sigla}
+              value={dni}
+              disabled={!!destino}
+              onChange={(e) => setDni(e.target.value.replace(/\D/g, ''))}
+              className={`${inputClass} disabled:opacity-50`}
+            />
+            {destino && (
+              <>
+                <p className="text-sm text-zinc-400">{t('portal.codigoEnviado')} <span className="font-bold text-zinc-200">{destino}</span>.</p>
+                <input
+                  required
+                  autoFocus
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder={t('portal.codigo')}
+                  maxLength={6}
+                  value={codigo}
+                  onChange={(e) => setCodigo(e.target.value.replace(/\D/g, ''))}
+                  className={`${inputClass} font-mono tracking-[0.5em] text-center`}
+                />
+              </>
+            )}
+
+            {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={enviando}
+              className="w-full bg-blue-600 hover:bg-blue-500 text-white font-black py-5 rounded-3xl shadow-2xl shadow-blue-600/30 transition-all active:scale-95 text-sm uppercase tracking-widest disabled:opacity-50"
+            >
+              {enviando ? t('portal.unMomento') : destino ? t('portal.ingresar') : t('portal.recibirCodigo')}
+            </button>
+            {destino && (
+              <div className="flex justify-between text-xs font-bold text-zinc-500">
+                <button type="button" onClick={() => { setDestino(null); setCodigo(''); }} className="hover:text-white">{t('portal.cambiarDocumento', { documento: documento.sigla })}</button>
+                <button type="button" onClick={pedirCodigo} disabled={enviando} className="hover:text-white">{t('portal.reenviar')}</button>
+              </div>
+            )}
+          </form>
+        </AnimatedCard>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from "framer-motion";
+import { CalendarClock, CreditCard, LogOut, QrCode, Receipt, Repeat } from 'lucide-react';
+
+import { Socio, FitnessBusinessLogic } from '../domain/socio';
+import { BillingLogic, EstadoFactura, Factura, LEDGER_VACIO, Pago } from '../billing/billing';
+import { ClasesLogic } from '../classes/clases';
+import { DatosPortal, PortalLogic } from '../portal/portal';
+import { PortalService } from '../portal/PortalService';
+import { Organizacion } from '../tenancy/organizacion';
+import { ConfigRegional, FormatoLogic, REGIONAL_POR_DEFECTO } from '../i18n/regional';
+import { I18nLogic, Traductor } from '../i18n/i18n';
+import { DocumentoLogic } from '../validation/documentos';
+import { escaparHtml } from '../reports/reportes';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { CredencialModal } from '../ui/CredencialModal';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+const ESTADO_ESTILO: Record<EstadoFactura, string> = {
+  pagada: 'text-green-400',
+  pendiente: 'text-zinc-400',
+  vencida: 'text-red-400'
+};
+
+const SEMANAS_VISIBLES = 2;
+
+// Recibo imprimible (o "guardar como PDF" desde el diálogo de impresión).
+const imprimirRecibo = (gimnasio: string, socio: Socio, factura: Factura, pago: Pago, regional: ConfigRegional, t: Traductor) => {
+  const ventana = window.open('', '_blank', 'width=480,height=640');
+  if (!ventana) return;
+  const documento = DocumentoLogic.para(regional.pais, regional.idioma);
+  ventana.document.write(`
+    <html lang="${regional.idioma}"><head><title>${escaparHtml(t('recibo.titulo', { periodo: BillingLogic.etiquetaPeriodo(factura) }))}</title></head>
+    <body style="font-family:sans-serif;padding:32px">
+      <h2 style="margin:0">${escaparHtml(gimnasio)}</h2>
+      <p style="color:#666;margin:4px 0 24px">${escaparHtml(t('recibo.numero', { numero: pago.id.slice(0, 8).toUpperCase() }))}</p>
+      <p><b>${escaparHtml(socio.nombre)}</b> • ${documento.sigla} ${documento.formatear(socio.dni)}</p>
+      <p>${escaparHtml(t('recibo.cuota', { periodo: BillingLogic.etiquetaPeriodo(factura), vencimiento: FormatoLogic.fecha(factura.vencimiento, regional) }))}</p>
+      <p>${escaparHtml(t('recibo.fechaPago', { fecha: FormatoLogic.fecha(pago.fecha, regional) }))} • ${escaparHtml(pago.metodo)}</p>
+      <h1 style="margin-top:24px">${FormatoLogic.moneda(pago.monto, regional)}</h1>
+    </body></html>
+  `);
+  ventana.document.close();
+  ventana.onload = () => ventana.print();
+};
+
+/**
+ * Lo que ve el socio: su plan, su cuenta con los recibos, la credencial,
+ * las clases de su sede y el pedido de cambio de plan. Todo pasa por el
+ * PortalService, que solo entrega y modifica lo de este socio.
+ */
+export const PortalView: React.FC<{
+  socioId: string;
+  organizacion: Organizacion;
+  portal: PortalService;
+  onLogout: () => void;
+}> = ({ socioId, organizacion, portal, onLogout }) => {
+  const [datos, setDatos] = useState<DatosPortal | null>(null);
+  const [verCredencial, setVerCredencial] = useState(false);
+  const [planNuevo, setPlanNuevo] = useState('');
+  const [mensaje, setMensaje] = useState<string | null>(null);
+  const [ahora] = useState(() => new Date());
+  const regional = organizacion.regional ?? REGIONAL_POR_DEFECTO;
+  const t = I18nLogic.traductor(regional.idioma);
+  const moneda = (valor: number) => FormatoLogic.moneda(valor, regional);
+
+  useEffect(() => {
+    portal.datos()
+      .then(setDatos)
+      .catch(e => {
+        console.error("Error cargando el portal:", e);
+        // Si lo dieron de baja o la sesión venció, vuelve al ingreso.
+        if (!portal.sesionActual()) onLogout();
+      });
+  }, [portal, socioId]);
+
+  const ledger = datos?.ledger ?? LEDGER_VACIO;
+  const cuenta = useMemo(() => PortalLogic.estadoCuenta(ledger, socioId, ahora), [ledger, socioId, ahora]);
+
+  const ocurrencias = useMemo(() => {
+    if (!datos) return [];
+    const lunes = ClasesLogic.inicioSemana(ahora);
+    return Array.from({ length: SEMANAS_VISIBLES }, (_, i) => {
+      const semana = new Date(lunes);
+      semana.setDate(lunes.getDate() + 7 * i);
+      return ClasesLogic.ocurrenciasSemana(datos.clases, semana);
+    }).flat().filter(o => o.inicio.getTime() > ahora.getTime());
+  }, [datos, ahora]);
+
+  if (!datos) return null;
+  const { socio, precios, reservas, solicitudes } = datos;
+
+  const nombrePlan = (id: string) => precios.planes.find(p => p.id === id)?.nombre ?? id;
+  const importeNuevo = planNuevo ? FitnessBusinessLogic.cotizar(precios, { ...socio, membresia: planNuevo }).total : null;
+
+  // Cada acción vuelve con los datos al día (las reservas de otros socios incluidas).
+  const ejecutar = async (accion: () => Promise<DatosPortal>, exito: string | null = null) => {
+    try {
+      setDatos(await accion());
+      setMensaje(exito);
+    } catch (e) {
+      setMensaje(I18nLogic.error(t, e));
+    }
+  };
+
+  const handleSolicitar = () => {
+    const motivo = PortalLogic.motivoRechazo(solicitudes, socio, planNuevo);
+    if (motivo) return setMensaje(I18nLogic.motivo(t, motivo));
+    ejecutar(() => portal.solicitarPlan(planNuevo), t('portal.pedidoEnviado')).then(() => setPlanNuevo(''));
+  };
+
+  return (
+    <div className="min-h-screen text-zinc-100 p-6 lg:p-12">
+      <div className="max-w-4xl mx-auto space-y-8">
+        <header className="flex justify-between items-end gap-4">
+          <div>
+            <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest">{organizacion.nombre}</p>
+            <h1 className="text-4xl font-black tracking-tighter">{t('portal.hola')} <span className="text-blue-500">{socio.nombre.split(' ')[0]}</span></h1>
+          </div>
+          <button onClick={onLogout} className="flex items-center gap-2 text-xs font-black uppercase tracking-widest text-zinc-400 hover:text-white">
+            <LogOut className="w-4 h-4" /> {t('portal.salir')}
+          </button>
+        </header>
+
+        {mensaje && <p className="text-sm font-bold text-amber-400">{mensaje}</p>}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <AnimatedCard className="space-y-2">
+            <CreditCard className="w-6 h-6 text-blue-400" />
+            <p className={labelClass}>{t('portal.tuPlan')}</p>
+            <h3 className="text-2xl font-black">{nombrePlan(socio.membresia)}</h3>
+            <p className="text-sm text-zinc-400 font-bold">{t('portal.planDetalle', { sede: socio.sede, importe: moneda(socio.importe) })}</p>
+            <p className="text-xs text-zinc-500 font-bold">
+              {t(`membresia.${socio.estado}`)}{socio.vence && ` • ${t('portal.venceEl', { fecha: FormatoLogic.fecha(socio.vence, regional) })}`}
+            </p>
+          </AnimatedCard>
+          <AnimatedCard delay={0.05} className="space-y-2">
+            <Receipt className="w-6 h-6 text-emerald-400" />
+            <p className={labelClass}>{t('portal.saldo')}</p>
+            <h3 className={`text-2xl font-black ${cuenta.vencido > 0 ? 'text-red-400' : ''}`}>{moneda(cuenta.saldo)}</h3>
+            <p className="text-sm text-zinc-400 font-bold">
+              {cuenta.vencido > 0 ? t('portal.vencido', { importe: moneda(cuenta.vencido) }) : t('portal.alDia')}
+            </p>
+          </AnimatedCard>
+          <AnimatedCard delay={0.1} className="space-y-2">
+            <QrCode className="w-6 h-6 text-cyan-400" />
+            <p className={labelClass}>{t('portal.credencial')}</p>
+            <button onClick={() => setVerCredencial(true)} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-2xl font-bold text-sm transition-all">
+              {t('portal.mostrarQr')}
+            </button>
+          </AnimatedCard>
+        </div>
+
+        <AnimatedCard className="space-y-4">
+          <div className="flex items-center gap-3">
+            <CalendarClock className="w-5 h-5 text-blue-400" />
+            <h3 className="font-black text-lg">{t('portal.clases')}</h3>
+          </div>
+          <div className="divide-y divide-white/5">
+            {ocurrencias.map(({ clase, fecha, inicio }) => {
+              const propia = ClasesLogic.deOcurrencia(reservas, clase.id, fecha).find(r => r.socioId === socio.id);
+              const libres = clase.capacidad - ClasesLogic.confirmadas(reservas, clase.id, fecha).length;
+              const posicion = propia?.estado === 'espera' ? ClasesLogic.enEspera(reservas, clase.id, fecha).indexOf(propia) + 1 : 0;
+              return (
+                <div key={`${clase.id}|${fecha}`} className="flex justify-between items-center py-3 gap-4">
+                  <div>
+                    <div className="font-bold">{clase.nombre}</div>
+                    <div className="text-xs text-zinc-500 font-bold">
+                      {FormatoLogic.fecha(inicio, regional, { weekday: 'short', day: 'numeric', month: 'numeric' })} {clase.hora} • {clase.instructor} • {clase.sala}
+                    </div>
+                  </div>
+                  {propia ? (
+                    <div className="flex items-center gap-3">
+                      <span className={`text-xs font-black uppercase tracking-widest ${propia.estado === 'confirmada' ? 'text-green-400' : 'text-amber-400'}`}>
+                        {propia.estado === 'confirmada' ? t('portal.confirmada') : t('portal.enEspera', { posicion })}
+                      </span>
+                      <button onClick={() => ejecutar(() => portal.cancelarReserva(propia.id))} className="text-xs font-bold text-zinc-500 hover:text-red-400">
+                        {t('portal.cancelar')}
+                      </button>
+                    </div>
+                  ) : (
+                    <button onClick={() => ejecutar(() => portal.reservar(clase.id, fecha))} className="bg-zinc-800 hover:bg-zinc-700 py-2 px-4 rounded-xl font-bold text-xs">
+                      {libres > 0 ? t('portal.reservar', { n: libres }) : t('portal.listaEspera')}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {ocurrencias.length === 0 && <p className="text-zinc-500 text-sm py-3">{t('portal.sinClases')}</p>}
+          </div>
+        </AnimatedCard>
+
+        <AnimatedCard className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Repeat className="w-5 h-5 text-blue-400" />
+            <h3 className="font-black text-lg">{t('portal.cambiarPlan')}</h3>
+          </div>
+          <div className="flex flex-col md:flex-row gap-3 md:items-end">
+            <div className="flex-1 space-y-1">
+              <label className={labelClass}>{t('portal.nuevoPlan')}</label>
+              <select value={planNuevo} onChange={(e) => setPlanNuevo(e.target.value)} className={`${inputClass} cursor-pointer`}>
+                <option value="">{t('portal.elegiPlan')}</option>
+                {precios.planes.filter(p => p.id !== socio.membresia).map(p => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+              </select>
+            </div>
+            {importeNuevo !== null && <span className="text-sm font-bold text-zinc-400 md:pb-2">{t('portal.porMes', { importe: moneda(importeNuevo) })}</span>}
+            <button onClick={handleSolicitar} disabled={!planNuevo} className="bg-blue-600 hover:bg-blue-500 py-2 px-6 rounded-xl font-bold text-sm disabled:opacity-50">
+              {t('portal.pedirCambio')}
+            </button>
+          </div>
+          {solicitudes.map(s => (
+            <div key={s.id} className="text-xs text-zinc-400 font-bold">
+              {FormatoLogic.fecha(s.fecha, regional)} • {nombrePlan(s.planActual)} → {nombrePlan(s.planNuevo)} •{' '}
+              <span className={s.estado === 'aprobada' ? 'text-green-400' : s.estado === 'rechazada' ? 'text-red-400' : 'text-amber-400'}>
+                {t(`solicitud.${s.estado}`)}
+              </span>
+              {s.nota && <span className="text-zinc-500"> ({s.nota})</span>}
+            </div>
+          ))}
+        </AnimatedCard>
+
+        <AnimatedCard className="!p-0 overflow-hidden">
+          <div className="p-4 border-b border-white/5">
+            <h3 className="font-black text-lg">{t('portal.tusPagos')}</h3>
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="bg-zinc-950/50 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-3">{t('portal.periodo')}</th>
+                <th className="px-6 py-3">{t('portal.vence')}</th>
+                <th className="px-6 py-3">{t('portal.total')}</th>
+                <th className="px-6 py-3">{t('portal.estado')}</th>
+                <th className="px-6 py-3">{t('portal.recibos')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {cuenta.lineas.map(l => (
+                <tr key={l.factura.id}>
+                  <td className="px-6 py-3 font-mono">{BillingLogic.etiquetaPeriodo(l.factura)}</td>
+                  <td className="px-6 py-3 font-mono text-xs text-zinc-500">{FormatoLogic.fecha(l.factura.vencimiento, regional)}</td>
+                  <td className="px-6 py-3 font-bold">{moneda(BillingLogic.totalFactura(l.factura))}</td>
+                  <td className={`px-6 py-3 font-black text-xs uppercase tracking-widest ${ESTADO_ESTILO[l.estado]}`}>
+                    {t(`factura.${l.estado}`)}{l.saldo > 0 && l.pagado > 0 && <span className="block normal-case tracking-normal text-zinc-500">{t('portal.resta', { importe: moneda(l.saldo) })}</span>}
+                  </td>
+                  <td className="px-6 py-3 space-x-3">
+                    {l.pagos.map(p => (
+                      <button key={p.id} onClick={() => imprimirRecibo(organizacion.nombre, socio, l.factura, p, regional, t)} className="text-xs font-bold text-blue-400 hover:underline">
+                        {FormatoLogic.fecha(p.fecha, regional)}
+                      </button>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+              {cuenta.lineas.length === 0 && (
+                <tr><td colSpan={5} className="px-6 py-6 text-zinc-500">{t('portal.sinCuotas')}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </AnimatedCard>
+      </div>
+
+      <AnimatePresence>
+        {verCredencial && <CredencialModal socio={socio} nombrePlan={nombrePlan(socio.membresia)} organizacion={organizacion} regional={regional} onClose={() => setVerCredencial(false)} />}
+      </AnimatePresence>
+    </div>
+  );
+};
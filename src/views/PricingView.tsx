@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { Plus, Trash2 } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigPrecios, Plan, Regla, TipoRegla, TIPOS_REGLA } from '../pricing/pricing';
+import { ConfigRegional } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+const numeroONulo = (valor: string) => (valor === '' ? null : Number(valor));
+
+const reglaNueva = (tipo: TipoRegla, nombre: string): Regla => {
+  const base = { id: crypto.randomUUID(), nombre, activa: true, porcentaje: -10 };
+  switch (tipo) {
+    case 'edad': return { ...base, tipo, edadMin: 65, edadMax: null };
+    case 'grupo': return { ...base, tipo, minIntegrantes: 3 };
+    case 'promo': return { ...base, tipo, codigo: 'PROMO', vence: new Date().toISOString().slice(0, 10) };
+    case 'prepago': return { ...base, tipo, meses: 12 };
+    case 'metodo_pago': return { ...base, tipo, metodo: 'tarjeta', porcentaje: 5 };
+  }
+};
+
+/**
+ * Pantalla de precios (solo Admin). Se edita un borrador y recién al
+ * "Guardar" cambia la configuración; los socios existentes conservan su
+ * importe hasta que se les edite plan, edad, sede o método de pago.
+ */
+export const PricingView: React.FC<{
+  config: ConfigPrecios;
+  sedes: string[];
+  planesEnUso: Set<string>;
+  regional: ConfigRegional;
+  onSave: (config: ConfigPrecios) => void;
+}> = ({ config, sedes, planesEnUso, regional, onSave }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [borrador, setBorrador] = useState<ConfigPrecios>(config);
+  const [nuevoPlanId, setNuevoPlanId] = useState('');
+  const [tipoNuevaRegla, setTipoNuevaRegla] = useState<TipoRegla>('edad');
+  const [error, setError] = useState<string | null>(null);
+
+  const actualizarPlan = (id: string, cambios: Partial<Plan>) =>
+    setBorrador({ ...borrador, planes: borrador.planes.map(p => p.id === id ? { ...p, ...cambios } : p) });
+
+  const actualizarRegla = (id: string, cambios: Record<string, unknown>) =>
+    setBorrador({ ...borrador, reglas: borrador.reglas.map(r => r.id === id ? { ...r, ...cambios } as Regla : r) });
+
+  const handleAgregarPlan = () => {
+    const id = nuevoPlanId.trim().toUpperCase();
+    if (!id) return;
+    if (borrador.planes.some(p => p.id === id)) return setError(t('precios.planRepetido', { codigo: id }));
+    setError(null);
+    setBorrador({ ...borrador, planes: [...borrador.planes, { id, nombre: id, precioBase: 0, preciosPorSede: {} }] });
+    setNuevoPlanId('');
+  };
+
+  const handleGuardar = () => {
+    if (borrador.planes.length === 0) return setError(t('precios.unPlan'));
+    if (borrador.planes.some(p => !p.nombre.trim() || !(p.precioBase > 0))) return setError(t('precios.planIncompleto'));
+    setError(null);
+    onSave(borrador);
+  };
+
+  return (
+    <motion.div
+      key="pricing"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('precios.titulo')} <span className="text-blue-500">{t('precios.tituloResaltado')}</span></h1>
+        <div className="flex items-center gap-4">
+          {error && <span className="text-sm font-bold text-red-400">{error}</span>}
+          <button
+            onClick={handleGuardar}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-black px-8 py-3 rounded-2xl transition-all active:scale-95 text-sm uppercase tracking-widest"
+          >
+            {t('precios.guardar')}
+          </button>
+        </div>
+      </div>
+
+      <AnimatedCard className="overflow-x-auto">
+        <h3 className="font-black text-xl mb-6">{t('precios.planes')}</h3>
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className={labelClass}>
+              <th className="pb-3 pr-3">{t('precios.codigo')}</th>
+              <th className="pb-3 pr-3">{t('precios.nombre')}</th>
+              <th className="pb-3 pr-3">{t('precios.precioBase')}</th>
+              {sedes.map(s => <th key={s} className="pb-3 pr-3">{s}</th>)}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {borrador.planes.map(p => (
+              <tr key={p.id}>
+                <td className="py-2 pr-3 font-mono text-sm text-zinc-400">{p.id}</td>
+                <td className="py-2 pr-3">
+                  <input value={p.nombre} onChange={(e) => actualizarPlan(p.id, { nombre: e.target.value })} className={inputClass} />
+                </td>
+                <td className="py-2 pr-3">
+                  <input type="number" value={p.precioBase} onChange={(e) => actualizarPlan(p.id, { precioBase: Number(e.target.value) })} className={`${inputClass} font-mono`} />
+                </td>
+                {sedes.map(s => (
+                  <td key={s} className="py-2 pr-3">
+                    <input
+                      type="number"
+                      placeholder={t('precios.base')}
+                      value={p.preciosPorSede[s] ?? ''}
+                      onChange={(e) => {
+                        const { [s]: _, ...resto } = p.preciosPorSede;
+                        const valor = numeroONulo(e.target.value);
+                        actualizarPlan(p.id, { preciosPorSede: valor === null ? resto : { ...resto, [s]: valor } });
+                      }}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </td>
+                ))}
+                <td className="py-2">
+                  {!planesEnUso.has(p.id) && (
+                    <button
+                      onClick={() => setBorrador({ ...borrador, planes: borrador.planes.filter(x => x.id !== p.id) })}
+                      title={t('precios.eliminarPlan')}
+                      className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-red-500/20 hover:text-red-500 transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex gap-3 mt-4 max-w-sm">
+          <input placeholder={t('precios.codigoPlan')} value={nuevoPlanId} onChange={(e) => setNuevoPlanId(e.target.value)} className={`${inputClass} font-mono`} />
+          <button onClick={handleAgregarPlan} className="shrink-0 flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 px-4 rounded-xl font-bold text-sm">
+            <Plus className="w-4 h-4" /> {t('precios.plan')}
+          </button>
+        </div>
+      </AnimatedCard>
+
+      <AnimatedCard delay={0.1}>
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="font-black text-xl">{t('precios.reglas')}</h3>
+          <div className="flex gap-3">
+            <select value={tipoNuevaRegla} onChange={(e) => setTipoNuevaRegla(e.target.value as TipoRegla)} className={`${inputClass} cursor-pointer`}>
+              {TIPOS_REGLA.map(tipo => <option key={tipo} value={tipo}>{t(`regla.${tipo}`)}</option>)}
+            </select>
+            <button
+              onClick={() => setBorrador({ ...borrador, reglas: [...borrador.reglas, reglaNueva(tipoNuevaRegla, t(`regla.${tipoNuevaRegla}`))] })}
+              className="shrink-0 flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 px-4 rounded-xl font-bold text-sm"
+            >
+              <Plus className="w-4 h-4" /> {t('precios.regla')}
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {borrador.reglas.map(r => (
+            <div key={r.id} className={`grid grid-cols-2 md:grid-cols-6 gap-3 items-end p-4 rounded-2xl border border-white/5 ${r.activa ? 'bg-zinc-950/40' : 'opacity-50'}`}>
+              <div className="space-y-1 col-span-2">
+                <label className={labelClass}>{t(`regla.${r.tipo}`)}</label>
+                <input value={r.nombre} onChange={(e) => actualizarRegla(r.id, { nombre: e.target.value })} className={inputClass} />
+              </div>
+              <div className="space-y-1">
+                <label className={labelClass}>{t('precios.porcentaje')}</label>
+                <input type="number" value={r.porcentaje} onChange={(e) => actualizarRegla(r.id, { porcentaje: Number(e.target.value) })} className={`${inputClass} font-mono`} />
+              </div>
+
+              {r.tipo === 'edad' && (
+                <>
+                  <div className="space-y-1">
+                    <label className={labelClass}>{t('precios.desdeEdad')}</label>
+                    <input type="number" placeholder="—" value={r.edadMin ?? ''} onChange={(e) => actualizarRegla(r.id, { edadMin: numeroONulo(e.target.value) })} className={`${inputClass} font-mono`} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className={labelClass}>{t('precios.hastaEdad')}</label>
+                    <input type="number" placeholder="—" value={r.edadMax ?? ''} onChange={(e) => actualizarRegla(r.id, { edadMax: numeroONulo(e.target.value) })} className={`${inputClass} font-mono`} />
+                  </div>
+                </>
+              )}
+              {r.tipo === 'grupo' && (
+                <div className="space-y-1 col-span-2">
+                  <label className={labelClass}>{t('precios.minIntegrantes')}</label>
+                  <input type="number" value={r.minIntegrantes} onChange={(e) => actualizarRegla(r.id, { minIntegrantes: Number(e.target.value) })} className={`${inputClass} font-mono`} />
+                </div>
+              )}
+              {r.tipo === 'promo' && (
+                <>
+                  <div className="space-y-1">
+                    <label className={labelClass}>{t('precios.codigo')}</label>
+                    <input value={r.codigo} onChange={(e) => actualizarRegla(r.id, { codigo: e.target.value.toUpperCase() })} className={`${inputClass} font-mono`} />
+                  </div>
+                  <div className="space-y-1">
+                    <label className={labelClass}>{t('precios.vence')}</label>
+                    <input type="date" value={r.vence} onChange={(e) => actualizarRegla(r.id, { vence: e.target.value })} className={`${inputClass} font-mono`} />
+                  </div>
+                </>
+              )}
+              {r.tipo === 'prepago' && (
+                <div className="space-y-1 col-span-2">
+                  <label className={labelClass}>{t('precios.meses')}</label>
+                  <input type="number" value={r.meses} onChange={(e) => actualizarRegla(r.id, { meses: Number(e.target.value) })} className={`${inputClass} font-mono`} />
+                </div>
+              )}
+              {r.tipo === 'metodo_pago' && (
+                <div className="space-y-1 col-span-2">
+                  <label className={labelClass}>{t('precios.metodo')}</label>
+                  <select value={r.metodo} onChange={(e) => actualizarRegla(r.id, { metodo: e.target.value })} className={`${inputClass} cursor-pointer`}>
+                    <option value="efectivo">{t('alta.efectivo')}</option>
+                    <option value="tarjeta">{t('alta.tarjeta')}</option>
+                  </select>
+                </div>
+              )}
+
+              <div className="flex gap-2 justify-end col-span-2 md:col-span-6">
+                <button
+                  onClick={() => actualizarRegla(r.id, { activa: !r.activa })}
+                  className="text-[10px] font-black uppercase tracking-widest bg-zinc-800 hover:bg-zinc-700 px-3 py-2 rounded-xl"
+                >
+                  {t(r.activa ? 'precios.desactivar' : 'precios.activar')}
+                </button>
+                <button
+                  onClick={() => setBorrador({ ...borrador, reglas: borrador.reglas.filter(x => x.id !== r.id) })}
+                  title={t('precios.eliminarRegla')}
+                  className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-red-500/20 hover:text-red-500 transition-all"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </AnimatedCard>
+    </motion.div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { DoorOpen } from 'lucide-react';
+
+import { EventoPuerta, TipoEventoPuerta } from '../access/molinete';
+import { ConexionMolinetes } from '../access/ConexionMolinetes';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const MAX_EVENTOS = 15;
+
+const TIPO_ESTILO: Record<TipoEventoPuerta, string> = {
+  permitido: 'text-blue-400',
+  denegado: 'text-red-400',
+  paso: 'text-emerald-400',
+  sin_paso: 'text-zinc-500'
+};
+
+/**
+ * Lo que pasa en los molinetes, en vivo. Cada "pasó" es un ingreso nuevo:
+ * se avisa para que el Dashboard vuelva a leer la asistencia.
+ */
+export const PuertasPanel: React.FC<{
+  conexion: ConexionMolinetes;
+  sedes: string[];
+  regional: ConfigRegional;
+  onPaso: () => void;
+}> = ({ conexion, sedes, regional, onPaso }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [eventos, setEventos] = useState<EventoPuerta[]>([]);
+  const [enVivo, setEnVivo] = useState(false);
+
+  useEffect(() => {
+    conexion.eventos()
+      .then(setEventos)
+      .catch(e => console.error("Error cargando eventos de molinetes:", e));
+    return conexion.escuchar(evento => {
+      setEnVivo(true);
+      setEventos(anteriores => [evento, ...anteriores].slice(0, MAX_EVENTOS));
+      if (evento.tipo === 'paso') onPaso();
+    });
+  }, [conexion]);
+
+  const visibles = eventos.filter(e => sedes.includes(e.sede)).slice(0, MAX_EVENTOS);
+
+  return (
+    <AnimatedCard delay={0.7} className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-black text-xl flex items-center gap-3">
+          <DoorOpen className="w-5 h-5 text-blue-400" /> {t('puertas.titulo')}
+        </h3>
+        {enVivo && <span className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">{t('puertas.enVivo')}</span>}
+      </div>
+      <div className="space-y-2">
+        {visibles.map(e => (
+          <div key={e.id} className="flex justify-between items-center text-sm gap-4">
+            <div className="min-w-0">
+              <span className="font-bold">{e.nombre ?? t('puertas.desconocida')}</span>
+              <span className="text-zinc-500 text-xs"> • {e.dispositivo} ({e.sede})</span>
+              {e.motivo && <span className="block text-xs text-zinc-500">{t(`acceso.${e.motivo}`)}</span>}
+            </div>
+            <div className="text-right shrink-0">
+              <div className={`text-[10px] font-black uppercase tracking-widest ${TIPO_ESTILO[e.tipo]}`}>{t(`puertas.${e.tipo}`)}</div>
+              <div className="text-zinc-500 font-mono text-xs">{FormatoLogic.hora(e.fecha, regional)}</div>
+            </div>
+          </div>
+        ))}
+        {visibles.length === 0 && <p className="text-zinc-500 text-sm">{t('puertas.sinMovimiento')}</p>}
+      </div>
+    </AnimatedCard>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from "framer-motion";
+import { ArrowDownRight, ArrowUpRight, ChevronLeft, ChevronRight, Printer } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { Socio } from '../domain/socio';
+import { Sede } from '../domain/sede';
+import { LedgerFacturacion } from '../billing/billing';
+import { ConfigPrecios } from '../pricing/pricing';
+import { EventoAuditoria } from '../audit/audit';
+import { AuditRepository } from '../persistence/AuditRepository';
+import { FilaDesglose, ReportesLogic, TipoPeriodo } from '../reports/reportes';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic, Traductor } from '../i18n/i18n';
+
+// Cuántos periodos muestra el gráfico de evolución.
+const LARGO_SERIE: Record<TipoPeriodo, number> = { mes: 12, trimestre: 8 };
+
+const Variacion: React.FC<{ valor: number | null; invertir?: boolean; regional: ConfigRegional }> = ({ valor, invertir = false, regional }) => {
+  if (valor === null) return <span className="text-zinc-600">{I18nLogic.traducir(regional.idioma, 'reportes.sinDatoPrevio')}</span>;
+  const bueno = invertir ? valor <= 0 : valor >= 0;
+  const Flecha = valor >= 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`inline-flex items-center gap-1 ${bueno ? 'text-emerald-400' : 'text-red-400'}`}>
+      <Flecha className="w-3 h-3" /> {valor >= 0 ? '+' : ''}{FormatoLogic.numero(valor, regional, 1)}%
+    </span>
+  );
+};
+
+const Desglose: React.FC<{ titulo: string; filas: FilaDesglose[]; total: number; delay: number; regional: ConfigRegional; t: Traductor }> = ({ titulo, filas, total, delay, regional, t }) => (
+  <AnimatedCard delay={delay}>
+    <h3 className="font-black text-xl mb-6">{titulo}</h3>
+    <div className="space-y-5">
+      {filas.map(f => (
+        <div key={f.clave}>
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-bold">{f.nombre}</span>
+            <span className="text-zinc-500 font-mono">{FormatoLogic.moneda(Math.round(f.monto), regional)}</span>
+          </div>
+          <div className="h-2 w-full bg-zinc-800 rounded-full overflow-hidden">
+            <motion.div
+              initial={{ width: 0 }}
+              animate={{ width: `${(f.monto / (total || 1)) * 100}%` }}
+              className="h-full bg-blue-500"
+            />
+          </div>
+          <div className="text-[10px] font-bold uppercase tracking-widest mt-2 text-zinc-600">{t('reporte.cantidadPagos', { n: f.pagos })}</div>
+        </div>
+      ))}
+      {filas.length === 0 && <p className="text-sm text-zinc-500">{t('reportes.sinCobros')}</p>}
+    </div>
+  </AnimatedCard>
+);
+
+/**
+ * Reportes por mes o trimestre para el dueño y el contador: ingresos por
+ * sede, plan y método de pago, comparados contra el periodo anterior, con
+ * exportación a impresora o PDF.
+ */
+export const ReportesView: React.FC<{
+  ledger: LedgerFacturacion;
+  socios: Socio[];
+  sedes: Sede[];
+  precios: ConfigPrecios;
+  auditoria: AuditRepository;
+  ahora: Date;
+  regional: ConfigRegional;
+}> = ({ ledger, socios, sedes, precios, auditoria, ahora, regional }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const moneda = (n: number) => FormatoLogic.moneda(Math.round(n), regional);
+  const [periodo, setPeriodo] = useState(() => ReportesLogic.periodoDe(ahora, 'mes'));
+  const [eventos, setEventos] = useState<EventoAuditoria[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Alcanza con los asientos del periodo elegido y del anterior (para comparar altas y bajas).
+  useEffect(() => {
+    const desde = ReportesLogic.rango(ReportesLogic.desplazar(periodo, -1)).desde;
+    const hasta = ReportesLogic.rango(periodo).hasta;
+    auditoria.listarEntre(desde, hasta)
+      .then(setEventos)
+      .catch(e => console.error("Error cargando auditoría:", e));
+  }, [periodo, auditoria]);
+
+  const datos = useMemo(() => ({ ledger, socios, sedes, precios, eventos, regional }), [ledger, socios, sedes, precios, eventos, regional]);
+  const reporte = useMemo(() => ReportesLogic.generar(datos, periodo), [datos, periodo]);
+  const anterior = useMemo(() => ReportesLogic.generar(datos, ReportesLogic.desplazar(periodo, -1)), [datos, periodo]);
+  const variaciones = ReportesLogic.comparar(reporte, anterior);
+  const serie = useMemo(() => ReportesLogic.serie(datos, periodo, LARGO_SERIE[periodo.tipo]), [datos, periodo]);
+  const maximo = Math.max(1, ...serie.map(p => p.ingresos));
+  const esActual = ReportesLogic.etiqueta(periodo, regional) === ReportesLogic.etiqueta(ReportesLogic.periodoDe(ahora, periodo.tipo), regional);
+
+  const handleImprimir = () => {
+    const ok = ReportesLogic.imprimir(ReportesLogic.aHtml(reporte, variaciones, serie, regional));
+    setError(ok ? null : t('reportes.ventanaBloqueada'));
+  };
+
+  return (
+    <motion.div
+      key="reports"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('reportes.titulo')} <span className="text-blue-500">{t('reportes.tituloResaltado')}</span></h1>
+        <div className="flex items-center gap-4">
+          {error && <span className="text-sm font-bold text-red-400">{error}</span>}
+          <div className="flex bg-zinc-900/50 border border-white/5 rounded-2xl p-1">
+            {(['mes', 'trimestre'] as TipoPeriodo[]).map(tipo => (
+              <button
+                key={tipo}
+                onClick={() => setPeriodo(ReportesLogic.periodoDe(ReportesLogic.rango(periodo).desde, tipo))}
+                className={`px-4 py-2 rounded-xl text-xs font-black uppercase tracking-widest transition-colors ${
+                  periodo.tipo === tipo ? 'bg-blue-600 text-white' : 'text-zinc-400 hover:text-white'
+                }`}
+              >
+                {t(tipo === 'mes' ? 'reportes.mensual' : 'reportes.trimestral')}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPeriodo(ReportesLogic.desplazar(periodo, -1))}
+              className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="font-black text-sm w-40 text-center">{reporte.etiqueta}</span>
+            <button
+              disabled={esActual}
+              onClick={() => setPeriodo(ReportesLogic.desplazar(periodo, 1))}
+              className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-white/10 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={handleImprimir}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-500 text-white font-black px-6 py-3 rounded-2xl transition-all active:scale-95 text-sm uppercase tracking-widest"
+          >
+            <Printer className="w-4 h-4" /> PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <AnimatedCard delay={0.1}>
+          <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">{t('reporte.ingresos')}</p>
+          <h3 className="text-3xl font-black">{moneda(reporte.ingresos)}</h3>
+          <div className="text-[10px] font-black uppercase tracking-widest mt-2"><Variacion valor={variaciones.ingresos} regional={regional} /></div>
+        </AnimatedCard>
+        <AnimatedCard delay={0.15}>
+          <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">{t('reporte.ticketPromedio')}</p>
+          <h3 className="text-3xl font-black">{moneda(reporte.ticketPromedio)}</h3>
+          <div className="text-[10px] font-black uppercase tracking-widest mt-2 flex gap-3">
+            <span className="text-zinc-500">{t('reporte.cantidadPagos', { n: reporte.cantidadPagos })}</span>
+            <Variacion valor={variaciones.ticketPromedio} regional={regional} />
+          </div>
+        </AnimatedCard>
+        <AnimatedCard delay={0.2}>
+          <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">{t('reportes.recargoTarjeta')}</p>
+          <h3 className="text-3xl font-black">{moneda(reporte.recargoTarjeta)}</h3>
+          <div className="text-[10px] font-black uppercase tracking-widest mt-2 text-zinc-500">{t('reportes.mora', { importe: moneda(reporte.recargoMora) })}</div>
+        </AnimatedCard>
+        <AnimatedCard delay={0.25}>
+          <p className="text-zinc-500 text-xs font-bold uppercase tracking-widest mb-1">{t('reportes.altasBajas')}</p>
+          <h3 className="text-3xl font-black">
+            <span className="text-emerald-400">+{reporte.altas}</span> <span className="text-zinc-600">/</span> <span className="text-red-400">−{reporte.bajas}</span>
+          </h3>
+          <div className="text-[10px] font-black uppercase tracking-widest mt-2 flex gap-3">
+            <Variacion valor={variaciones.altas} regional={regional} />
+            <Variacion valor={variaciones.bajas} invertir regional={regional} />
+          </div>
+        </AnimatedCard>
+      </div>
+
+      <AnimatedCard delay={0.3}>
+        <h3 className="font-black text-xl mb-6">{t('reporte.evolucion')}</h3>
+        <div className="flex items-end gap-3 h-48">
+          {serie.map((p, i) => (
+            <div key={p.etiqueta} className="flex-1 flex flex-col items-center justify-end h-full gap-2" title={moneda(p.ingresos)}>
+              <motion.div
+                initial={{ height: 0 }}
+                animate={{ height: `${(p.ingresos / maximo) * 100}%` }}
+                transition={{ delay: 0.3 + i * 0.03 }}
+                className={`w-full rounded-t-lg ${i === serie.length - 1 ? 'bg-blue-500' : 'bg-zinc-700'}`}
+              />
+              <span className="text-[10px] font-black text-zinc-500 uppercase tracking-widest">{p.etiqueta}</span>
+            </div>
+          ))}
+        </div>
+      </AnimatedCard>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Desglose titulo={t('reporte.porSede')} filas={reporte.porSede} total={reporte.ingresos} delay={0.35} regional={regional} t={t} />
+        <Desglose titulo={t('reporte.porPlan')} filas={reporte.porPlan} total={reporte.ingresos} delay={0.4} regional={regional} t={t} />
+        <Desglose titulo={t('reporte.porMetodo')} filas={reporte.porMetodo} total={reporte.ingresos} delay={0.45} regional={regional} t={t} />
+      </div>
+    </motion.div>
+  );
+};
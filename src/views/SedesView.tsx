@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { Plus } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { Sede, SedeLogic } from '../domain/sede';
+import { Socio } from '../domain/socio';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+const labelClass = "text-[10px] font-black text-zinc-500 uppercase tracking-widest";
+
+/**
+ * Alta, edición y cierre de sedes (solo Admin). Las sedes no se borran: se
+ * cierran, porque sus socios y asistencias siguen apuntando a ese código.
+ */
+export const SedesView: React.FC<{
+  sedes: Sede[];
+  socios: Pick<Socio, 'sede' | 'estado'>[];
+  regional: ConfigRegional;
+  onSave: (sedes: Sede[]) => void;
+}> = ({ sedes, socios, regional, onSave }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [borrador, setBorrador] = useState<Sede[]>(sedes);
+  const [nuevoCodigo, setNuevoCodigo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const actualizar = (codigo: string, cambios: Partial<Sede>) =>
+    setBorrador(borrador.map(s => s.codigo === codigo ? { ...s, ...cambios } : s));
+
+  const alternarDia = (sede: Sede, dia: number) => {
+    const dias = sede.horario.dias.includes(dia)
+      ? sede.horario.dias.filter(d => d !== dia)
+      : [...sede.horario.dias, dia].sort();
+    actualizar(sede.codigo, { horario: { ...sede.horario, dias } });
+  };
+
+  const handleAgregar = () => {
+    const codigo = nuevoCodigo.trim().toUpperCase();
+    if (!codigo) return;
+    if (SedeLogic.buscar(borrador, codigo)) return setError(t('sedes.repetida', { codigo }));
+    setError(null);
+    setBorrador([...borrador, {
+      codigo,
+      nombre: codigo,
+      direccion: '',
+      horario: { abre: '07:00', cierra: '23:00', dias: [1, 2, 3, 4, 5, 6] },
+      capacidadSocios: 100,
+      capacidadSala: 50,
+      activa: true
+    }]);
+    setNuevoCodigo('');
+  };
+
+  const handleGuardar = () => {
+    if (!borrador.some(s => s.activa)) return setError(t('sedes.unaAbierta'));
+    if (borrador.some(s => !s.nombre.trim())) return setError(t('sedes.sinNombre'));
+    if (borrador.some(s => !(s.capacidadSocios > 0) || !(s.capacidadSala > 0))) return setError(t('sedes.capacidades'));
+    setError(null);
+    onSave(borrador);
+  };
+
+  return (
+    <motion.div
+      key="sedes"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
+        <h1 className="text-4xl font-black tracking-tighter">{t('sedes.titulo')} <span className="text-blue-500">{t('sedes.tituloResaltado')}</span></h1>
+        <div className="flex items-center gap-4">
+          {error && <span className="text-sm font-bold text-red-400">{error}</span>}
+          <button
+            onClick={handleGuardar}
+            className="bg-blue-600 hover:bg-blue-500 text-white font-black px-8 py-3 rounded-2xl transition-all active:scale-95 text-sm uppercase tracking-widest"
+          >
+            {t('sedes.guardar')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {borrador.map((s, i) => {
+          const ocupadas = SedeLogic.ocupadas(socios, s.codigo);
+          return (
+            <AnimatedCard key={s.codigo} delay={i * 0.05} className={s.activa ? '' : 'opacity-60'}>
+              <div className="flex justify-between items-start mb-5">
+                <div>
+                  <span className="font-mono text-xs text-zinc-500">{s.codigo}</span>
+                  <p className="text-xs font-bold text-zinc-400 mt-1">{t('sedes.ocupadas', { n: ocupadas })}</p>
+                </div>
+                <button
+                  onClick={() => actualizar(s.codigo, { activa: !s.activa })}
+                  className={`text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-xl transition-colors ${s.activa ? 'bg-zinc-800 hover:bg-red-500/20 hover:text-red-400' : 'bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20'}`}
+                >
+                  {t(s.activa ? 'sedes.cerrar' : 'sedes.reabrir')}
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('sedes.nombre')}</label>
+                  <input value={s.nombre} onChange={(e) => actualizar(s.codigo, { nombre: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('sedes.direccion')}</label>
+                  <input value={s.direccion} onChange={(e) => actualizar(s.codigo, { direccion: e.target.value })} className={inputClass} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('sedes.cupoSocios')}</label>
+                  <input type="number" value={s.capacidadSocios} onChange={(e) => actualizar(s.codigo, { capacidadSocios: Number(e.target.value) })} className={`${inputClass} font-mono`} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('sedes.capacidadSala')}</label>
+                  <input type="number" value={s.capacidadSala} onChange={(e) => actualizar(s.codigo, { capacidadSala: Number(e.target.value) })} className={`${inputClass} font-mono`} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('sedes.abre')}</label>
+                  <input type="time" value={s.horario.abre} onChange={(e) => actualizar(s.codigo, { horario: { ...s.horario, abre: e.target.value } })} className={`${inputClass} font-mono`} />
+                </div>
+                <div className="space-y-1">
+                  <label className={labelClass}>{t('sedes.cierra')}</label>
+                  <input type="time" value={s.horario.cierra} onChange={(e) => actualizar(s.codigo, { horario: { ...s.horario, cierra: e.target.value } })} className={`${inputClass} font-mono`} />
+                </div>
+              </div>
+
+              <div className="flex gap-2 mt-4">
+                {[0, 1, 2, 3, 4, 5, 6].map(d => (
+                  <button
+                    key={d}
+                    onClick={() => alternarDia(s, d)}
+                    className={`flex-1 text-[10px] font-black uppercase py-2 rounded-lg transition-colors ${s.horario.dias.includes(d) ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-500'}`}
+                  >
+                    {FormatoLogic.diaSemana(d, regional)}
+                  </button>
+                ))}
+              </div>
+              {ocupadas > s.capacidadSocios && (
+                <p className="text-xs font-bold text-amber-400 mt-3">{t('sedes.cupoExcedido')}</p>
+              )}
+            </AnimatedCard>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3 max-w-sm">
+        <input placeholder={t('sedes.codigo')} value={nuevoCodigo} onChange={(e) => setNuevoCodigo(e.target.value)} className={`${inputClass} font-mono`} />
+        <button onClick={handleAgregar} className="shrink-0 flex items-center gap-2 bg-zinc-800 hover:bg-zinc-700 px-4 rounded-xl font-bold text-sm">
+          <Plus className="w-4 h-4" /> {t('sedes.nueva')}
+        </button>
+      </div>
+    </motion.div>
+  );
+};
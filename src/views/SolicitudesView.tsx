@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { motion } from "framer-motion";
+import { Check, X } from 'lucide-react';
+
+import { SolicitudPlan } from '../portal/portal';
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { ConfigRegional, FormatoLogic } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const MAX_RESUELTAS = 50;
+
+/**
+ * Bandeja de pedidos del portal de socios. Aprobar cambia el plan del socio
+ * (con el precio de hoy, que puede diferir del estimado) y queda en su
+ * historial como cualquier otra edición.
+ */
+export const SolicitudesView: React.FC<{
+  solicitudes: SolicitudPlan[];
+  regional: ConfigRegional;
+  nombrePlan: (id: string) => string;
+  importeActual: (solicitud: SolicitudPlan) => number | null;
+  onResolver: (solicitud: SolicitudPlan, aprobada: boolean, nota?: string) => void;
+}> = ({ solicitudes, regional, nombrePlan, importeActual, onResolver }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [notas, setNotas] = useState<Record<string, string>>({});
+  const pendientes = solicitudes.filter(s => s.estado === 'pendiente').sort((a, b) => a.fecha.localeCompare(b.fecha));
+  const resueltas = solicitudes.filter(s => s.estado !== 'pendiente').slice(0, MAX_RESUELTAS);
+
+  return (
+    <motion.div
+      key="requests"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <div>
+        <h1 className="text-4xl font-black tracking-tighter">{t('solicitudes.titulo')} <span className="text-blue-500">{t('solicitudes.tituloResaltado')}</span></h1>
+        <p className="text-xs text-zinc-500 font-bold mt-1">{t('solicitudes.subtitulo')}</p>
+      </div>
+
+      <div className="space-y-4">
+        {pendientes.map((s, i) => {
+          const importe = importeActual(s);
+          return (
+            <AnimatedCard key={s.id} delay={i * 0.05} className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+              <div>
+                <div className="font-black text-lg">{s.socioNombre}</div>
+                <div className="text-xs text-zinc-500 font-bold">
+                  {t('solicitudes.fechaSede', { fecha: FormatoLogic.fechaHora(s.fecha, regional), sede: s.sede })}
+                </div>
+                <div className="text-sm text-zinc-300 font-bold mt-1">
+                  {nombrePlan(s.planActual)} → {nombrePlan(s.planNuevo)}
+                  <span className="text-zinc-500"> • {t('solicitudes.porMes', { importe: FormatoLogic.moneda(importe ?? s.importeEstimado, regional) })}</span>
+                  {importe !== null && importe !== s.importeEstimado && (
+                    <span className="text-amber-400 text-xs"> {t('solicitudes.seLeMostro', { importe: FormatoLogic.moneda(s.importeEstimado, regional) })}</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  placeholder={t('solicitudes.nota')}
+                  value={notas[s.id] ?? ''}
+                  onChange={(e) => setNotas({ ...notas, [s.id]: e.target.value })}
+                  className="bg-zinc-950/50 border border-white/10 rounded-xl py-2 px-3 outline-none text-sm font-bold"
+                />
+                <button onClick={() => onResolver(s, true, notas[s.id])} title={t('solicitudes.aprobar')} className="w-10 h-10 rounded-full bg-green-500/20 text-green-400 flex items-center justify-center hover:bg-green-500/30">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => onResolver(s, false, notas[s.id])} title={t('solicitudes.rechazar')} className="w-10 h-10 rounded-full bg-red-500/20 text-red-400 flex items-center justify-center hover:bg-red-500/30">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </AnimatedCard>
+          );
+        })}
+        {pendientes.length === 0 && <p className="text-zinc-500 text-sm">{t('solicitudes.vacio')}</p>}
+      </div>
+
+      {resueltas.length > 0 && (
+        <AnimatedCard className="!p-0 overflow-hidden">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-zinc-950/50 text-[10px] font-black text-zinc-500 uppercase tracking-widest">
+              <tr>
+                <th className="px-6 py-3">{t('solicitudes.socio')}</th>
+                <th className="px-6 py-3">{t('solicitudes.cambio')}</th>
+                <th className="px-6 py-3">{t('solicitudes.estado')}</th>
+                <th className="px-6 py-3">{t('solicitudes.resueltaPor')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {resueltas.map(s => (
+                <tr key={s.id}>
+                  <td className="px-6 py-3 font-bold">{s.socioNombre}</td>
+                  <td className="px-6 py-3 text-zinc-400">{nombrePlan(s.planActual)} → {nombrePlan(s.planNuevo)}</td>
+                  <td className={`px-6 py-3 font-black text-xs uppercase tracking-widest ${s.estado === 'aprobada' ? 'text-green-400' : 'text-red-400'}`}>
+                    {t(`solicitud.${s.estado}`)}{s.nota && <span className="block normal-case tracking-normal font-bold text-zinc-500">{s.nota}</span>}
+                  </td>
+                  <td className="px-6 py-3 text-zinc-500 text-xs">
+                    {s.resueltaPor}{s.resueltaEn && ` • ${FormatoLogic.fechaHora(s.resueltaEn, regional)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </AnimatedCard>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from "framer-motion";
+import { X } from 'lucide-react';
+
+import { AnimatedCard } from '../ui/AnimatedCard';
+import { Rol, Usuario } from '../auth/auth';
+import { AuthService } from '../auth/AuthService';
+import { ConfigRegional } from '../i18n/regional';
+import { I18nLogic } from '../i18n/i18n';
+
+const inputClass = "w-full bg-zinc-950/50 border border-white/10 rounded-2xl py-3 px-5 focus:ring-2 focus:ring-blue-500 outline-none transition-all font-bold text-sm";
+
+const FORM_VACIO = { nombre: '', usuario: '', password: '', rol: 'recepcionista' as Rol, sede: '' };
+
+export const UsersView: React.FC<{
+  auth: AuthService;
+  organizacionId: string;
+  sedes: string[];
+  usuarioActual: Usuario;
+  regional: ConfigRegional;
+}> = ({ auth, organizacionId, sedes, usuarioActual, regional }) => {
+  const t = I18nLogic.traductor(regional.idioma);
+  const [usuarios, setUsuarios] = useState<Usuario[]>([]);
+  const [form, setForm] = useState({ ...FORM_VACIO, sede: sedes[0] ?? '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const recargar = () => auth.listar(organizacionId)
+    .then(setUsuarios)
+    .catch(err => setError(I18nLogic.error(t, err)));
+
+  useEffect(() => { recargar(); }, [auth, organizacionId]);
+
+  const handleCrear = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await auth.registrar({ ...form, sede: form.rol === 'admin' ? null : form.sede, organizacionId });
+      await recargar();
+      setForm({ ...FORM_VACIO, sede: sedes[0] ?? '' });
+    } catch (err) {
+      setError(I18nLogic.error(t, err));
+    }
+  };
+
+  const handleEliminar = async (id: string) => {
+    setError(null);
+    try {
+      await auth.eliminar(id, organizacionId);
+      await recargar();
+    } catch (err) {
+      setError(I18nLogic.error(t, err));
+    }
+  };
+
+  return (
+    <motion.div
+      key="users"
+      initial={{ opacity: 0, x: 30 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="space-y-8"
+    >
+      <h1 className="text-4xl font-black tracking-tighter">{t('usuarios.titulo')} <span className="text-blue-500">{t('usuarios.tituloResaltado')}</span></h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 overflow-hidden rounded-3xl border border-white/5 bg-zinc-900/20 backdrop-blur-xl shadow-2xl">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-zinc-950 text-[10px] font-black text-zinc-500 uppercase tracking-widest border-b border-white/5">
+                <th className="px-8 py-5">{t('usuarios.nombreUsuario')}</th>
+                <th className="px-8 py-5">{t('usuarios.rol')}</th>
+                <th className="px-8 py-5">{t('usuarios.sede')}</th>
+                <th className="px-8 py-5 text-center">{t('usuarios.acciones')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {usuarios.map(u => (
+                <tr key={u.id} className="hover:bg-white/[0.02] transition-colors group">
+                  <td className="px-8 py-6">
+                    <div className="font-bold text-zinc-200">{u.nombre}</div>
+                    <div className="text-[10px] text-zinc-500 font-mono">{u.usuario}</div>
+                  </td>
+                  <td className="px-8 py-6">
+                    <span className={`text-[10px] font-black tracking-widest uppercase ${u.rol === 'recepcionista' ? 'text-blue-400' : 'text-amber-400'}`}>
+                      {t(`rol.${u.rol}`)}
+                    </span>
+                  </td>
+                  <td className="px-8 py-6">
+                    <span className="text-[10px] font-black bg-zinc-800 px-3 py-1 rounded-full text-zinc-300 ring-1 ring-white/5">{u.sede ?? t('usuarios.todas')}</span>
+                  </td>
+                  <td className="px-8 py-6 text-center">
+                    {u.id !== usuarioActual.id && u.rol !== 'superadmin' && (
+                      <button
+                        onClick={() => handleEliminar(u.id)}
+                        className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center hover:bg-red-500/20 hover:text-red-500 transition-all opacity-0 group-hover:opacity-100 mx-auto"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <AnimatedCard className="border-blue-500/20">
+          <form onSubmit={handleCrear} className="space-y-4">
+            <h3 className="font-black text-xl mb-2">{t('usuarios.nuevo')}</h3>
+            <input required type="text" placeholder={t('usuarios.nombre')} value={form.nombre}
+              onChange={(e) => setForm({ ...form, nombre: e.target.value })} className={inputClass} />
+            <input required type="text" placeholder={t('usuarios.usuario')} value={form.usuario}
+              onChange={(e) => setForm({ ...form, usuario: e.target.value })} className={inputClass} />
+            <input required type="password" autoComplete="new-password" placeholder={t('usuarios.password')} value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })} className={inputClass} />
+            <select value={form.rol} onChange={(e) => setForm({ ...form, rol: e.target.value as Rol })} className={`${inputClass} cursor-pointer`}>
+              <option value="recepcionista">{t('rol.recepcionista')}</option>
+              <option value="admin">{t('rol.admin')}</option>
+            </select>
+            {form.rol === 'recepcionista' && (
+              <select value={form.sede} onChange={(e) => setForm({ ...form, sede: e.target.value })} className={`${inputClass} cursor-pointer`}>
+                {sedes.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            )}
+            {error && <p className="text-sm font-bold text-red-400">{error}</p>}
+            <button type="submit" className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-2xl font-bold text-sm transition-all shadow-xl shadow-blue-600/20 active:scale-95">
+              {t('usuarios.crear')}
+            </button>
+          </form>
+        </AnimatedCard>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+/** Las variables VITE_* que lee la App (ver el readme). */
+interface ImportMetaEnv {
+  readonly VITE_PERSISTENCIA?: import('./persistence/crearSocioRepository').TipoPersistencia;
+  readonly VITE_API_URL?: string;
+  readonly VITE_API_KEY?: string;
+  readonly VITE_GEMINI_MODEL?: string;
+  readonly VITE_MENSAJERIA_URL?: string;
+  /** La pone vite.config.ts en cada build. */
+  readonly VITE_VERSION_APP: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -4,4 +4,14 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  // El service worker precachea lo que lista este manifiesto, y la versión del build le da nombre a su caché.
+  build: { manifest: 'asset-manifest.json' },
+  define: { 'import.meta.env.VITE_VERSION_APP': JSON.stringify(Date.now().toString(36)) },
+  server: {
+    // Con VITE_PERSISTENCIA=http y sin VITE_API_URL, el front llama a /api vía este proxy
+    // (ws: también el WebSocket de los molinetes).
+    proxy: {
+      '/api': { target: 'http://localhost:8787', ws: true },
+    },
+  },
 })